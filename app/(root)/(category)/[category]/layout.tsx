@@ -1,37 +1,46 @@
 import type React from "react"
 import { NewsSidebar } from "@/components/news/sidebar"
 import { AdLeaderboard } from "@/components/ads/ad-leaderboard"
+import { AdTargetingProvider } from "@/components/ads/ad-targeting"
+import { decodeRouteParam } from "@/lib/utils/route-params"
 
 // High-performance layout with stable design
-export default function CategoryLayout({
+export default async function CategoryLayout({
   children,
+  params,
 }: {
   children: React.ReactNode
+  params: Promise<{ category: string }>
 }) {
+  const { category } = await params
+
+  // Lets sponsors target this section's ads
   return (
-    <div className="">
-      {/* Top Ad Slot - Enterprise Requirement: Stable placement */}
-      <div className="w-full bg-[#0a0a0a] py-4 border-b border-zinc-900 flex justify-center items-center">
-        <AdLeaderboard showDefault={true} />
-      </div>
+    <AdTargetingProvider categories={[decodeRouteParam(category) ?? category]}>
+      <div className="">
+        {/* Top Ad Slot - Enterprise Requirement: Stable placement */}
+        <div className="w-full bg-[#0a0a0a] py-4 border-b border-zinc-900 flex justify-center items-center">
+          <AdLeaderboard showDefault={true} />
+        </div>
 
-      <main className="max-w-[90rem] justify-center mx-auto px-4 lg:px-8 py-8">
-        <div className="flex flex-col lg:flex-row gap-8">
-          {/* Main Content Area (Left 75% - per requirement) */}
-          <div className="w-full lg:w-3/4">{children}</div>
+        <main className="max-w-[90rem] justify-center mx-auto px-4 lg:px-8 py-8">
+          <div className="flex flex-col lg:flex-row gap-8">
+            {/* Main Content Area (Left 75% - per requirement) */}
+            <div className="w-full lg:w-3/4">{children}</div>
 
-          {/* Feature Sidebar (Right 25% - per requirement) */}
-          <div className="w-full lg:w-1/4 space-y-8">
-            <NewsSidebar />
+            {/* Feature Sidebar (Right 25% - per requirement) */}
+            <div className="w-full lg:w-1/4 space-y-8">
+              <NewsSidebar />
+            </div>
           </div>
-        </div>
-      </main>
+        </main>
 
-      {/* Bottom Ad Slot */}
-      <div className="w-full bg-[#0a0a0a] py-8 border-t border-zinc-900 flex justify-center items-center mt-12">
-        <AdLeaderboard showDefault={true} />
+        {/* Bottom Ad Slot */}
+        <div className="w-full bg-[#0a0a0a] py-8 border-t border-zinc-900 flex justify-center items-center mt-12">
+          <AdLeaderboard showDefault={true} />
+        </div>
       </div>
-    </div>
+    </AdTargetingProvider>
     // </div>
     // </PageContainer>
   )
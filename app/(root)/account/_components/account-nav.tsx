@@ -0,0 +1,43 @@
+import Link from "next/link"
+import { logout } from "@/lib/actions/auth"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+
+const ACCOUNT_LINKS = [
+  { href: "/account", label: "Account" },
+  { href: "/account/bookmarks", label: "Bookmarks" },
+  { href: "/account/history", label: "Reading history" },
+]
+
+interface AccountNavProps {
+  active: string
+}
+
+/**
+ * Tabs shared by the reader account pages
+ */
+export function AccountNav({ active }: AccountNavProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-4 border-b pb-4 mb-8">
+      <nav className="flex gap-1">
+        {ACCOUNT_LINKS.map((link) => (
+          <Link
+            key={link.href}
+            href={link.href}
+            className={cn(
+              "px-3 py-2 rounded-md text-sm font-semibold transition-colors",
+              active === link.href ? "bg-muted text-foreground" : "text-muted-foreground hover:text-foreground",
+            )}
+          >
+            {link.label}
+          </Link>
+        ))}
+      </nav>
+      <form action={logout}>
+        <Button type="submit" variant="ghost" size="sm">
+          Sign out
+        </Button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Trash2, X } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { clearReadingHistory, toggleBookmark } from "@/lib/actions/readers"
+
+/**
+ * Remove an article from the bookmarks
+ */
+export function RemoveBookmarkButton({ newsId }: { newsId: string }) {
+  const router = useRouter()
+  const [working, setWorking] = useState(false)
+
+  async function handleRemove() {
+    setWorking(true)
+    const result = await toggleBookmark(newsId)
+    setWorking(false)
+
+    if (result.success) {
+      toast.success("Removed from your bookmarks")
+      router.refresh()
+    } else {
+      toast.error(result.error || "Failed to update bookmark")
+    }
+  }
+
+  return (
+    <Button variant="ghost" size="icon" onClick={handleRemove} disabled={working} aria-label="Remove bookmark">
+      <X className="h-4 w-4" />
+    </Button>
+  )
+}
+
+/**
+ * Remove one article from the reading history, or clear all of it
+ */
+export function ClearHistoryButton({ newsId }: { newsId?: string }) {
+  const router = useRouter()
+  const [working, setWorking] = useState(false)
+
+  async function handleClear() {
+    if (!newsId && !window.confirm("Clear your whole reading history?")) return
+
+    setWorking(true)
+    const result = await clearReadingHistory(newsId)
+    setWorking(false)
+
+    if (result.success) {
+      toast.success(newsId ? "Removed from your history" : "Reading history cleared")
+      router.refresh()
+    } else {
+      toast.error(result.error || "Failed to clear reading history")
+    }
+  }
+
+  return newsId ? (
+    <Button variant="ghost" size="icon" onClick={handleClear} disabled={working} aria-label="Remove from history">
+      <X className="h-4 w-4" />
+    </Button>
+  ) : (
+    <Button variant="outline" size="sm" onClick={handleClear} disabled={working}>
+      <Trash2 className="h-4 w-4 mr-2" />
+      Clear history
+    </Button>
+  )
+}
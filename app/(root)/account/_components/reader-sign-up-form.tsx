@@ -0,0 +1,124 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Loader2, MailCheck } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { registerReader } from "@/lib/actions/readers"
+
+interface ReaderSignUpFormProps {
+  redirectTo?: string | null
+}
+
+/**
+ * Reader sign-up form; the new account is confirmed from an emailed link and
+ * then signs in, returning to where the reader came from
+ */
+export function ReaderSignUpForm({ redirectTo }: ReaderSignUpFormProps) {
+  const [form, setForm] = useState({ name: "", email: "", password: "", confirmPassword: "" })
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setError(null)
+
+    if (form.password !== form.confirmPassword) {
+      setError("Passwords do not match")
+      return
+    }
+
+    setSubmitting(true)
+    const result = await registerReader({ name: form.name, email: form.email, password: form.password })
+    setSubmitting(false)
+
+    if (result.success) {
+      setSentTo(result.email || form.email)
+    } else {
+      setError(result.error || "Registration failed")
+    }
+  }
+
+  if (sentTo) {
+    const signInHref = redirectTo ? `/auth/sign-in?redirect=${encodeURIComponent(redirectTo)}` : "/auth/sign-in"
+
+    return (
+      <div className="rounded-lg border p-6 text-center space-y-3">
+        <MailCheck className="mx-auto h-8 w-8 text-blue-600" />
+        <p className="font-semibold">Check your inbox</p>
+        <p className="text-sm text-muted-foreground">
+          We sent an email to {sentTo}. Follow the link in it to confirm your address, then sign in.
+        </p>
+        <Button asChild variant="outline" className="w-full">
+          <Link href={signInHref}>Sign in</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="reader-name">Name</Label>
+        <Input
+          id="reader-name"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          autoComplete="name"
+          disabled={submitting}
+          required
+        />
+        <p className="text-xs text-muted-foreground">Shown next to your comments</p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="reader-email">Email</Label>
+        <Input
+          id="reader-email"
+          type="email"
+          value={form.email}
+          onChange={(e) => setForm({ ...form, email: e.target.value })}
+          autoComplete="email"
+          disabled={submitting}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="reader-password">Password</Label>
+        <Input
+          id="reader-password"
+          type="password"
+          value={form.password}
+          onChange={(e) => setForm({ ...form, password: e.target.value })}
+          autoComplete="new-password"
+          disabled={submitting}
+          required
+        />
+        <p className="text-xs text-muted-foreground">
+          At least 8 characters with an uppercase letter, a lowercase letter and a number
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="reader-confirm-password">Confirm password</Label>
+        <Input
+          id="reader-confirm-password"
+          type="password"
+          value={form.confirmPassword}
+          onChange={(e) => setForm({ ...form, confirmPassword: e.target.value })}
+          autoComplete="new-password"
+          disabled={submitting}
+          required
+        />
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <Button type="submit" className="w-full" disabled={submitting}>
+        {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Create account
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,37 @@
+import type React from "react"
+import Link from "next/link"
+import Image from "next/image"
+
+interface SavedArticleRowProps {
+  article: {
+    title: string
+    slug: string
+    excerpt: string | null
+    coverImage: string | null
+  }
+  meta: string
+  action?: React.ReactNode
+}
+
+/**
+ * One article in the bookmarks or reading history list
+ */
+export function SavedArticleRow({ article, meta, action }: SavedArticleRowProps) {
+  return (
+    <div className="flex gap-4 py-4 border-b last:border-b-0">
+      {article.coverImage && (
+        <Link href={`/news/${article.slug}`} className="relative hidden sm:block h-20 w-32 shrink-0 overflow-hidden rounded-md bg-muted">
+          <Image src={article.coverImage} alt={article.title} fill sizes="128px" className="object-cover" />
+        </Link>
+      )}
+      <div className="flex-1 min-w-0 space-y-1">
+        <Link href={`/news/${article.slug}`} className="font-bold leading-snug hover:text-blue-600 line-clamp-2">
+          {article.title}
+        </Link>
+        {article.excerpt && <p className="text-sm text-muted-foreground line-clamp-2">{article.excerpt}</p>}
+        <p className="text-xs text-muted-foreground">{meta}</p>
+      </div>
+      {action && <div className="shrink-0">{action}</div>}
+    </div>
+  )
+}
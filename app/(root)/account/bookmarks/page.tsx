@@ -0,0 +1,69 @@
+import Link from "next/link"
+import { redirect } from "next/navigation"
+import { getCurrentUser } from "@/lib/auth/jwt-server"
+import { getBookmarks } from "@/lib/actions/readers"
+import { formatDate } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { AccountNav } from "../_components/account-nav"
+import { SavedArticleRow } from "../_components/saved-article-row"
+import { RemoveBookmarkButton } from "../_components/library-actions"
+
+interface PageProps {
+  searchParams: Promise<{ page?: string }>
+}
+
+export default async function BookmarksPage({ searchParams }: PageProps) {
+  const user = await getCurrentUser()
+  if (!user) {
+    redirect("/auth/sign-in?redirect=/account/bookmarks")
+  }
+
+  const { page: pageParam } = await searchParams
+  const page = Number(pageParam) || 1
+
+  const result = await getBookmarks(page, 20)
+  if (!result.success || !result.bookmarks) {
+    return <p className="text-destructive">{result.error}</p>
+  }
+
+  const totalPages = result.totalPages ?? 0
+
+  return (
+    <div>
+      <AccountNav active="/account/bookmarks" />
+
+      <h1 className="text-3xl font-black tracking-tight mb-1">Bookmarks</h1>
+      <p className="text-muted-foreground mb-6">
+        {result.total ? `${result.total} saved ${result.total === 1 ? "article" : "articles"}` : "Articles you save appear here."}
+      </p>
+
+      {result.bookmarks.length === 0 ? (
+        <div className="py-16 text-center text-muted-foreground">
+          Use the bookmark button next to any article to read it later.
+        </div>
+      ) : (
+        <div>
+          {result.bookmarks.map((bookmark) => (
+            <SavedArticleRow
+              key={bookmark.id}
+              article={bookmark.news}
+              meta={`Saved ${formatDate(bookmark.createdAt)}`}
+              action={<RemoveBookmarkButton newsId={bookmark.news.id} />}
+            />
+          ))}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex justify-between mt-8">
+          <Button variant="outline" disabled={page <= 1} asChild={page > 1}>
+            {page > 1 ? <Link href={`/account/bookmarks?page=${page - 1}`}>Previous</Link> : "Previous"}
+          </Button>
+          <Button variant="outline" disabled={page >= totalPages} asChild={page < totalPages}>
+            {page < totalPages ? <Link href={`/account/bookmarks?page=${page + 1}`}>Next</Link> : "Next"}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+import Link from "next/link"
+import { redirect } from "next/navigation"
+import { getCurrentUser } from "@/lib/auth/jwt-server"
+import { getReadingHistory } from "@/lib/actions/readers"
+import { formatDate } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { AccountNav } from "../_components/account-nav"
+import { SavedArticleRow } from "../_components/saved-article-row"
+import { ClearHistoryButton } from "../_components/library-actions"
+
+interface PageProps {
+  searchParams: Promise<{ page?: string }>
+}
+
+export default async function ReadingHistoryPage({ searchParams }: PageProps) {
+  const user = await getCurrentUser()
+  if (!user) {
+    redirect("/auth/sign-in?redirect=/account/history")
+  }
+
+  const { page: pageParam } = await searchParams
+  const page = Number(pageParam) || 1
+
+  const result = await getReadingHistory(page, 20)
+  if (!result.success || !result.history) {
+    return <p className="text-destructive">{result.error}</p>
+  }
+
+  const totalPages = result.totalPages ?? 0
+
+  return (
+    <div>
+      <AccountNav active="/account/history" />
+
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-black tracking-tight mb-1">Reading history</h1>
+          <p className="text-muted-foreground">Articles you opened while signed in, most recent first.</p>
+        </div>
+        {result.history.length > 0 && <ClearHistoryButton />}
+      </div>
+
+      {result.history.length === 0 ? (
+        <div className="py-16 text-center text-muted-foreground">You haven&apos;t read any articles yet.</div>
+      ) : (
+        <div>
+          {result.history.map((item) => (
+            <SavedArticleRow
+              key={item.id}
+              article={item.news}
+              meta={`Last read ${formatDate(item.lastReadAt)}${item.readCount > 1 ? ` · read ${item.readCount} times` : ""}`}
+              action={<ClearHistoryButton newsId={item.news.id} />}
+            />
+          ))}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex justify-between mt-8">
+          <Button variant="outline" disabled={page <= 1} asChild={page > 1}>
+            {page > 1 ? <Link href={`/account/history?page=${page - 1}`}>Previous</Link> : "Previous"}
+          </Button>
+          <Button variant="outline" disabled={page >= totalPages} asChild={page < totalPages}>
+            {page < totalPages ? <Link href={`/account/history?page=${page + 1}`}>Next</Link> : "Next"}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,18 @@
+import type React from "react"
+import type { Metadata } from "next"
+
+export const metadata: Metadata = {
+  title: "Your Account | Bawal News",
+  robots: { index: false, follow: false },
+}
+
+// Reader account pages are per-visitor and never cached
+export const dynamic = "force-dynamic"
+
+export default function AccountLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  return <main className="max-w-4xl mx-auto px-4 lg:px-8 py-10">{children}</main>
+}
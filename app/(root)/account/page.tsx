@@ -0,0 +1,73 @@
+import Link from "next/link"
+import { redirect } from "next/navigation"
+import { BadgeCheck, Bookmark, Heart, History, MessageSquare } from "lucide-react"
+import { getCurrentUser } from "@/lib/auth/jwt-server"
+import { getReaderAccount } from "@/lib/actions/readers"
+import { formatDate } from "@/lib/utils"
+import { AccountNav } from "./_components/account-nav"
+
+export default async function AccountPage() {
+  const user = await getCurrentUser()
+  if (!user) {
+    redirect("/auth/sign-in?redirect=/account")
+  }
+
+  const result = await getReaderAccount()
+  if (!result.success || !result.account) {
+    return <p className="text-destructive">{result.error}</p>
+  }
+
+  const { account } = result
+  const stats = [
+    { label: "Bookmarks", value: account._count.bookmarks, icon: Bookmark, href: "/account/bookmarks" },
+    { label: "Articles read", value: account._count.readingHistory, icon: History, href: "/account/history" },
+    { label: "Reactions", value: account._count.newsReactions, icon: Heart },
+    { label: "Comments", value: account._count.comments, icon: MessageSquare },
+  ]
+
+  return (
+    <div>
+      <AccountNav active="/account" />
+
+      <div className="space-y-1 mb-8">
+        <h1 className="flex items-center gap-2 text-3xl font-black tracking-tight">
+          {account.name}
+          <BadgeCheck className="h-6 w-6 text-blue-600" aria-label="Verified commenter" />
+        </h1>
+        <p className="text-muted-foreground">{account.email}</p>
+        <p className="text-sm text-muted-foreground">Member since {formatDate(account.createdAt)}</p>
+        {account.accountType !== "reader" && (
+          <p className="text-sm">
+            This is a staff account.{" "}
+            <Link href="/dashboard" className="font-semibold text-blue-600 hover:underline">
+              Go to the dashboard
+            </Link>
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {stats.map((stat) => {
+          const content = (
+            <div className="rounded-xl border p-4 h-full transition-colors hover:bg-muted/40">
+              <stat.icon className="h-5 w-5 text-muted-foreground mb-2" />
+              <p className="text-2xl font-bold">{stat.value}</p>
+              <p className="text-sm text-muted-foreground">{stat.label}</p>
+            </div>
+          )
+          return stat.href ? (
+            <Link key={stat.label} href={stat.href}>
+              {content}
+            </Link>
+          ) : (
+            <div key={stat.label}>{content}</div>
+          )
+        })}
+      </div>
+
+      <p className="mt-8 text-sm text-muted-foreground">
+        Your comments appear under your account name with a verified badge. Reactions and likes count once per account.
+      </p>
+    </div>
+  )
+}
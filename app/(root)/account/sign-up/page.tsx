@@ -0,0 +1,40 @@
+import Link from "next/link"
+import { redirect } from "next/navigation"
+import { getCurrentUser } from "@/lib/auth/jwt-server"
+import { getSafeRedirectPath } from "@/lib/security/validation"
+import { ReaderSignUpForm } from "../_components/reader-sign-up-form"
+
+interface PageProps {
+  searchParams: Promise<{ redirect?: string }>
+}
+
+export default async function ReaderSignUpPage({ searchParams }: PageProps) {
+  const { redirect: redirectParam } = await searchParams
+  const redirectTo = getSafeRedirectPath(redirectParam)
+
+  const user = await getCurrentUser()
+  if (user) {
+    redirect(redirectTo || "/account")
+  }
+
+  const signInHref = redirectTo ? `/auth/sign-in?redirect=${encodeURIComponent(redirectTo)}` : "/auth/sign-in"
+
+  return (
+    <div className="max-w-md mx-auto">
+      <h1 className="text-3xl font-black tracking-tight mb-2">Create a reader account</h1>
+      <p className="text-muted-foreground mb-8">
+        Comment under a verified name, like articles and save them to read later. Free, and no newsletter unless you
+        ask for one.
+      </p>
+
+      <ReaderSignUpForm redirectTo={redirectTo} />
+
+      <p className="mt-6 text-sm text-center text-muted-foreground">
+        Already have an account?{" "}
+        <Link href={signInHref} className="font-semibold text-blue-600 hover:underline">
+          Sign in
+        </Link>
+      </p>
+    </div>
+  )
+}
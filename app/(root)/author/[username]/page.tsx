@@ -0,0 +1,187 @@
+import Image from "next/image"
+import { notFound } from "next/navigation"
+import { Metadata } from "next"
+import { getNewsByAuthor, getPublicAuthor } from "@/lib/services/news-api.service"
+import { NewsCard } from "@/components/news/news-card"
+import { AuthorSocialLinks } from "@/components/news/author-social-links"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+import type { Article } from "@/constants/news-data"
+import { mapToArticle } from "@/lib/utils/news-mapper-unified"
+import { getAuthorDisplayName, getAuthorPath, getAuthorSocialUrls } from "@/lib/utils/author"
+import { generatePersonStructuredData } from "@/lib/seo"
+import { env } from "@/lib/config/env"
+import { decodeRouteParam } from "@/lib/utils/route-params"
+
+// Enterprise cache configuration
+export const revalidate = 60 // Revalidate every 60 seconds
+
+interface PageProps {
+  params: Promise<{ username: string }>
+  searchParams: Promise<{ page?: string }>
+}
+
+/**
+ * Generate metadata for author page
+ */
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { username } = await params
+  const decodedUsername = decodeRouteParam(username)
+  const author = decodedUsername ? await getPublicAuthor(decodedUsername) : null
+
+  if (!author) {
+    return {
+      title: "Author Not Found",
+    }
+  }
+
+  const name = getAuthorDisplayName(author)
+  const description =
+    author.bio || `Latest news and articles by ${name}${author.designation ? `, ${author.designation}` : ""}`
+
+  return {
+    title: `${name} - Author`,
+    description,
+    alternates: {
+      canonical: getAuthorPath(author),
+    },
+    openGraph: {
+      title: name,
+      description,
+      type: "profile",
+      username: author.username,
+      images: author.avatar ? [{ url: author.avatar }] : [],
+    },
+  }
+}
+
+export default async function AuthorPage({ params, searchParams }: PageProps) {
+  const { username } = await params
+  const { page: pageParam } = await searchParams
+  const page = Number(pageParam) || 1
+
+  const decodedUsername = decodeRouteParam(username)
+  const author = decodedUsername ? await getPublicAuthor(decodedUsername) : null
+  if (!author) {
+    notFound()
+  }
+
+  const result = await getNewsByAuthor(author.id, {
+    page,
+    limit: 24,
+    includeContent: false,
+    includeAuthor: true,
+    includeCategories: true,
+  })
+
+  const name = getAuthorDisplayName(author)
+  const articles: Article[] = result.data.map((news) => mapToArticle(news))
+  const totalPages = result.pagination.totalPages
+  const authorPath = getAuthorPath(author)
+  const pageHref = (p: number) => `${authorPath}?page=${p}`
+  const structuredData = generatePersonStructuredData(
+    { ...author, sameAs: getAuthorSocialUrls(author) },
+    env.NEXT_PUBLIC_BASE_URL || undefined
+  )
+
+  return (
+    <div className="space-y-6">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(structuredData).replace(/</g, "\\u003c") }}
+      />
+
+      {/* Author Header */}
+      <div className="flex flex-col sm:flex-row gap-6 items-center sm:items-start border-b border-zinc-800 pb-8 mb-8">
+        <div className="relative h-28 w-28 rounded-full overflow-hidden flex-shrink-0 ring-4 ring-background shadow-lg bg-muted">
+          <Image src={author.avatar || "/author-avatar.png"} alt={name} fill className="object-cover" />
+        </div>
+        <div className="flex-1 text-center sm:text-left">
+          <h1 className="text-3xl md:text-4xl font-black tracking-tight">{name}</h1>
+          {author.designation && (
+            <p className="text-sm font-semibold uppercase tracking-wide text-muted-foreground mt-1">
+              {author.designation}
+            </p>
+          )}
+          {author.bio && (
+            <p className="text-muted-foreground leading-relaxed mt-3 max-w-3xl whitespace-pre-line">
+              {author.bio}
+            </p>
+          )}
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3 mt-4">
+            <AuthorSocialLinks
+              links={author}
+              className="flex items-center justify-center sm:justify-start gap-2"
+            />
+            <p className="text-sm text-muted-foreground">
+              {result.pagination.total} {result.pagination.total === 1 ? "article" : "articles"}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* News List */}
+      <div className="flex flex-col gap-4">
+        {articles.map((article) => (
+          <NewsCard key={article.id} article={article} />
+        ))}
+
+        {articles.length === 0 && (
+          <div className="py-20 text-center text-zinc-500">No articles found for this author.</div>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="mt-12 py-6 border-t border-zinc-800">
+          <Pagination className="text-zinc-400">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  size="default"
+                  href={pageHref(Math.max(1, page - 1))}
+                  className="hover:bg-zinc-800 hover:text-white"
+                />
+              </PaginationItem>
+
+              {[...Array(totalPages)].map((_, i) => {
+                const p = i + 1
+                const isCurrent = p === page
+                return (
+                  <PaginationItem key={p}>
+                    <PaginationLink
+                      size="default"
+                      href={pageHref(p)}
+                      isActive={isCurrent}
+                      className={
+                        isCurrent
+                          ? "bg-zinc-100 text-black hover:bg-white"
+                          : "hover:bg-zinc-800 hover:text-white"
+                      }
+                    >
+                      {p}
+                    </PaginationLink>
+                  </PaginationItem>
+                )
+              })}
+
+              <PaginationItem>
+                <PaginationNext
+                  size="default"
+                  href={pageHref(Math.min(totalPages, page + 1))}
+                  className="hover:bg-zinc-800 hover:text-white"
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        </div>
+      )}
+    </div>
+  )
+}
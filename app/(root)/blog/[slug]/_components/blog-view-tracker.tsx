@@ -0,0 +1,29 @@
+"use client"
+
+import { useEffect } from "react"
+
+interface BlogViewTrackerProps {
+  blogId: string
+}
+
+/**
+ * Counts one view per blog post per browser session
+ * Runs client-side because the blog page itself is statically cached
+ */
+export function BlogViewTracker({ blogId }: BlogViewTrackerProps) {
+  useEffect(() => {
+    const key = `blog-viewed:${blogId}`
+    try {
+      if (sessionStorage.getItem(key)) return
+      sessionStorage.setItem(key, "1")
+    } catch {
+      // Storage unavailable (private mode): still count the view
+    }
+
+    fetch(`/api/blog/view/${blogId}`, { method: "POST", keepalive: true }).catch(() => {
+      // Silently fail
+    })
+  }, [blogId])
+
+  return null
+}
@@ -0,0 +1,163 @@
+import Image from "next/image"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { Metadata } from "next"
+import { Eye } from "lucide-react"
+import { getPublishedBlogBySlug, getRecentBlogs } from "@/lib/services/blog.service"
+import { contentToHTML, contentToPlainText } from "@/lib/utils/lexical-to-html"
+import { getAuthorDisplayName, getAuthorPath } from "@/lib/utils/author"
+import { generateBlogStructuredData } from "@/lib/seo"
+import { env } from "@/lib/config/env"
+import { formatDate } from "@/lib/utils"
+import { ArticleContent } from "@/app/(root)/news/[slug]/_components/article-content"
+import { AuthorBio } from "@/app/(root)/news/[slug]/_components/author-bio"
+import { BlogViewTracker } from "./_components/blog-view-tracker"
+import { decodeRouteParam } from "@/lib/utils/route-params"
+
+// Enterprise cache configuration
+export const revalidate = 60 // Revalidate every 60 seconds
+
+interface PageProps {
+  params: Promise<{ slug: string }>
+}
+
+/**
+ * Generate metadata for blog post page
+ */
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { slug } = await params
+  const decodedSlug = decodeRouteParam(slug)
+  const blog = decodedSlug ? await getPublishedBlogBySlug(decodedSlug) : null
+
+  if (!blog) {
+    return {
+      title: "Blog Post Not Found",
+    }
+  }
+
+  const description = blog.excerpt || contentToPlainText(blog.content).slice(0, 160)
+
+  return {
+    title: blog.title,
+    description,
+    alternates: {
+      canonical: `/blog/${blog.slug}`,
+    },
+    openGraph: {
+      title: blog.title,
+      description,
+      type: "article",
+      publishedTime: blog.publishedAt?.toISOString(),
+      authors: [getAuthorDisplayName(blog.author)],
+      images: blog.coverImage ? [{ url: blog.coverImage }] : [],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: blog.title,
+      description,
+      images: blog.coverImage ? [blog.coverImage] : [],
+    },
+  }
+}
+
+export default async function BlogPostPage({ params }: PageProps) {
+  const { slug } = await params
+  const decodedSlug = decodeRouteParam(slug)
+  const blog = decodedSlug ? await getPublishedBlogBySlug(decodedSlug) : null
+
+  if (!blog) {
+    notFound()
+  }
+
+  const recentBlogs = await getRecentBlogs(blog.id, 3)
+  const authorName = getAuthorDisplayName(blog.author)
+  // Only authors with published news have a public author page
+  const authorUrl = blog.author._count.news > 0 ? getAuthorPath(blog.author) : undefined
+  const date = blog.publishedAt || blog.createdAt
+  const structuredData = generateBlogStructuredData(
+    {
+      ...blog,
+      content: contentToPlainText(blog.content),
+      authorUrl,
+    },
+    env.NEXT_PUBLIC_BASE_URL || undefined
+  )
+
+  return (
+    <div className="space-y-8">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(structuredData).replace(/</g, "\\u003c") }}
+      />
+      <BlogViewTracker blogId={blog.id} />
+
+      {/* Blog Header */}
+      <header className="space-y-4">
+        <Link
+          href="/blog"
+          className="text-xs font-bold uppercase tracking-widest text-muted-foreground hover:text-primary transition-colors"
+        >
+          Blog
+        </Link>
+        <h1 className="text-3xl md:text-5xl font-black tracking-tight leading-tight font-hindi">{blog.title}</h1>
+        {blog.excerpt && (
+          <p className="text-lg text-muted-foreground leading-relaxed font-hindi">{blog.excerpt}</p>
+        )}
+        <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+          {authorUrl ? (
+            <Link href={authorUrl} rel="author" className="font-semibold text-foreground hover:text-primary transition-colors">
+              {authorName}
+            </Link>
+          ) : (
+            <span className="font-semibold text-foreground">{authorName}</span>
+          )}
+          <span className="w-1 h-1 rounded-full bg-muted-foreground" />
+          <time dateTime={date.toISOString()}>{formatDate(date)}</time>
+          <span className="w-1 h-1 rounded-full bg-muted-foreground" />
+          <span className="flex items-center gap-1">
+            <Eye className="h-4 w-4" />
+            {blog.views.toLocaleString()} views
+          </span>
+        </div>
+      </header>
+
+      {blog.coverImage && (
+        <div className="relative aspect-[16/9] w-full overflow-hidden rounded-lg bg-muted/30">
+          <Image src={blog.coverImage} alt={blog.title} fill className="object-cover" priority />
+        </div>
+      )}
+
+      <ArticleContent content={contentToHTML(blog.content)} />
+
+      <div className="pt-10 border-t border-border">
+        <AuthorBio author={authorName} url={authorUrl} profile={blog.author} />
+      </div>
+
+      {/* More from the blog */}
+      {recentBlogs.length > 0 && (
+        <section className="space-y-4">
+          <h2 className="text-xl font-bold">More from the blog</h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {recentBlogs.map((item) => (
+              <Link key={item.id} href={`/blog/${encodeURIComponent(item.slug)}`} className="group space-y-3">
+                <div className="relative aspect-[16/9] overflow-hidden rounded-md bg-muted">
+                  <Image
+                    src={item.coverImage || "/placeholder.svg"}
+                    alt={item.title}
+                    fill
+                    className="object-cover transition-transform duration-500 group-hover:scale-105"
+                    sizes="(max-width: 768px) 100vw, 33vw"
+                  />
+                </div>
+                <h3 className="font-bold leading-snug group-hover:text-primary transition-colors line-clamp-2 font-hindi">
+                  {item.title}
+                </h3>
+                <p className="text-xs text-muted-foreground">{formatDate(item.publishedAt || item.createdAt)}</p>
+              </Link>
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  )
+}
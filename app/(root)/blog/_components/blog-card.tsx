@@ -0,0 +1,60 @@
+import Link from "next/link"
+import Image from "next/image"
+import { Eye } from "lucide-react"
+import { formatDate } from "@/lib/utils"
+import { getAuthorDisplayName, type AuthorIdentity } from "@/lib/utils/author"
+
+interface BlogCardProps {
+  blog: {
+    title: string
+    slug: string
+    excerpt: string | null
+    coverImage: string | null
+    views: number
+    publishedAt: Date | null
+    createdAt: Date
+    author: AuthorIdentity
+  }
+}
+
+export function BlogCard({ blog }: BlogCardProps) {
+  const href = `/blog/${encodeURIComponent(blog.slug)}`
+  const date = blog.publishedAt || blog.createdAt
+
+  return (
+    <article className="group flex flex-col md:flex-row gap-6 p-6 border-b border-zinc-800">
+      <Link href={href} className="relative w-full md:w-64 h-48 md:h-40 flex-shrink-0 overflow-hidden rounded-lg bg-muted">
+        <Image
+          src={blog.coverImage || "/placeholder.svg"}
+          alt={blog.title}
+          fill
+          className="object-cover transition-transform duration-500 group-hover:scale-105"
+          sizes="(max-width: 768px) 100vw, 256px"
+        />
+      </Link>
+
+      <div className="flex-1 min-w-0">
+        <Link href={href} className="group-hover:text-blue-400 transition-colors">
+          <h2 className="text-xl md:text-2xl font-bold leading-tight mb-2 font-hindi">{blog.title}</h2>
+        </Link>
+
+        <div className="flex flex-wrap items-center text-xs text-zinc-400 mb-3 gap-2">
+          <time dateTime={date.toISOString()}>{formatDate(date)}</time>
+          <span className="w-1 h-1 rounded-full bg-zinc-600" />
+          <span className="text-zinc-300">{getAuthorDisplayName(blog.author)}</span>
+          <span className="w-1 h-1 rounded-full bg-zinc-600" />
+          <span className="flex items-center gap-1">
+            <Eye className="h-3 w-3" />
+            {blog.views.toLocaleString()}
+          </span>
+        </div>
+
+        {blog.excerpt && (
+          <p className="text-zinc-500 dark:text-zinc-400 text-sm md:text-base line-clamp-2 leading-relaxed font-hindi">
+            {blog.excerpt}
+          </p>
+        )}
+      </div>
+    </article>
+  )
+}
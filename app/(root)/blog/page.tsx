@@ -0,0 +1,125 @@
+import { Metadata } from "next"
+import Link from "next/link"
+import { Rss } from "lucide-react"
+import { getPublishedBlogs } from "@/lib/services/blog.service"
+import { BlogCard } from "./_components/blog-card"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+
+// Enterprise cache configuration
+export const revalidate = 60 // Revalidate every 60 seconds
+
+interface PageProps {
+  searchParams: Promise<{ page?: string }>
+}
+
+export const metadata: Metadata = {
+  title: "Blog",
+  description: "Opinion, analysis and long reads from the Bawal News team",
+  alternates: {
+    canonical: "/blog",
+    types: {
+      "application/rss+xml": "/blog/rss.xml",
+    },
+  },
+  openGraph: {
+    title: "Blog - Bawal News",
+    description: "Opinion, analysis and long reads from the Bawal News team",
+    type: "website",
+  },
+}
+
+export default async function BlogIndexPage({ searchParams }: PageProps) {
+  const { page: pageParam } = await searchParams
+  const page = Number(pageParam) || 1
+
+  const { blogs, pagination } = await getPublishedBlogs({ page, limit: 12 })
+  const totalPages = pagination.totalPages
+  const pageHref = (p: number) => `/blog?page=${p}`
+
+  return (
+    <div className="space-y-6">
+      {/* Blog Header */}
+      <div className="border-b border-zinc-800 pb-4 mb-8 flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl md:text-4xl font-black tracking-tight">Blog</h1>
+          {pagination.total > 0 && (
+            <p className="text-sm text-muted-foreground mt-2">
+              {pagination.total} {pagination.total === 1 ? "post" : "posts"}
+            </p>
+          )}
+        </div>
+        <Link
+          href="/blog/rss.xml"
+          className="flex items-center gap-1 text-sm text-muted-foreground hover:text-primary transition-colors"
+        >
+          <Rss className="h-4 w-4" />
+          RSS
+        </Link>
+      </div>
+
+      {/* Blog List */}
+      <div className="flex flex-col gap-4">
+        {blogs.map((blog) => (
+          <BlogCard key={blog.id} blog={blog} />
+        ))}
+
+        {blogs.length === 0 && (
+          <div className="py-20 text-center text-zinc-500">No blog posts published yet.</div>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="mt-12 py-6 border-t border-zinc-800">
+          <Pagination className="text-zinc-400">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  size="default"
+                  href={pageHref(Math.max(1, page - 1))}
+                  className="hover:bg-zinc-800 hover:text-white"
+                />
+              </PaginationItem>
+
+              {[...Array(totalPages)].map((_, i) => {
+                const p = i + 1
+                const isCurrent = p === page
+                return (
+                  <PaginationItem key={p}>
+                    <PaginationLink
+                      size="default"
+                      href={pageHref(p)}
+                      isActive={isCurrent}
+                      className={
+                        isCurrent
+                          ? "bg-zinc-100 text-black hover:bg-white"
+                          : "hover:bg-zinc-800 hover:text-white"
+                      }
+                    >
+                      {p}
+                    </PaginationLink>
+                  </PaginationItem>
+                )
+              })}
+
+              <PaginationItem>
+                <PaginationNext
+                  size="default"
+                  href={pageHref(Math.min(totalPages, page + 1))}
+                  className="hover:bg-zinc-800 hover:text-white"
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        </div>
+      )}
+    </div>
+  )
+}
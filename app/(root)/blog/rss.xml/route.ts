@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { env } from '@/lib/config/env'
+import { contentToHTML, contentToPlainText } from '@/lib/utils/lexical-to-html'
+import { cdata, escapeXml } from '@/lib/utils/xml'
+
+export async function GET() {
+  const baseUrl = env.NEXT_PUBLIC_BASE_URL || 'https://bawalnews.com'
+  const siteName = 'Bawal News Blog'
+  const siteDescription = 'Opinion, analysis and long reads from the Bawal News team'
+
+  // Get latest published blog posts (last 50)
+  const blogs = await prisma.blog.findMany({
+    where: {
+      isPublished: true,
+      isActive: true,
+    },
+    include: {
+      author: {
+        select: {
+          firstName: true,
+          lastName: true,
+          username: true,
+        },
+      },
+    },
+    orderBy: [{ publishedAt: 'desc' }, { createdAt: 'desc' }],
+    take: 50,
+  })
+
+  // Generate RSS XML
+  const rssItems = blogs.map((item: typeof blogs[number]) => {
+    const authorName = `${item.author.firstName || ''} ${item.author.lastName || ''}`.trim() || item.author.username
+    const plainText = contentToPlainText(item.content)
+    const excerpt = item.excerpt || plainText.substring(0, 200) + '...'
+    const content = contentToHTML(item.content)
+    const link = escapeXml(`${baseUrl}/blog/${encodeURIComponent(item.slug)}`)
+    const pubDate = item.publishedAt || item.createdAt
+
+    return `
+    <item>
+      <title>${cdata(item.title)}</title>
+      <link>${link}</link>
+      <guid isPermaLink="true">${link}</guid>
+      <description>${cdata(excerpt)}</description>
+      <content:encoded>${cdata(content)}</content:encoded>
+      <dc:creator>${cdata(authorName)}</dc:creator>
+      <pubDate>${pubDate.toUTCString()}</pubDate>
+      ${item.coverImage ? `<enclosure url="${escapeXml(item.coverImage)}" type="image/jpeg" />` : ''}
+    </item>`
+  }).join('')
+
+  const rss = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" 
+     xmlns:content="http://purl.org/rss/1.0/modules/content/"
+     xmlns:atom="http://www.w3.org/2005/Atom"
+     xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title><![CDATA[${siteName}]]></title>
+    <link>${baseUrl}/blog</link>
+    <description><![CDATA[${siteDescription}]]></description>
+    <language>en-US</language>
+    <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>
+    <ttl>60</ttl>
+    <atom:link href="${baseUrl}/blog/rss.xml" rel="self" type="application/rss+xml" />
+    <image>
+      <url>${baseUrl}/assets/logo.png</url>
+      <title>${siteName}</title>
+      <link>${baseUrl}/blog</link>
+    </image>
+    ${rssItems}
+  </channel>
+</rss>`
+
+  return new NextResponse(rss, {
+    headers: {
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400',
+    },
+  })
+}
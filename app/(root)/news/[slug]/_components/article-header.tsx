@@ -55,7 +55,17 @@ export function ArticleHeader({ article }: ArticleHeaderProps) {
           <div className="flex flex-col text-sm">
             <div className="flex items-center gap-2">
               <span className="text-muted-foreground uppercase text-xs font-bold">BY</span>
-              <span className="font-bold text-foreground uppercase">{article.author}</span>
+              {article.authorUrl ? (
+                <Link
+                  href={article.authorUrl}
+                  rel="author"
+                  className="font-bold text-foreground uppercase hover:text-primary transition-colors"
+                >
+                  {article.author}
+                </Link>
+              ) : (
+                <span className="font-bold text-foreground uppercase">{article.author}</span>
+              )}
             </div>
             <div className="flex items-center gap-2 text-muted-foreground text-xs">
               <span>{article.date}</span>
@@ -0,0 +1,25 @@
+import Link from "next/link"
+import { Hash } from "lucide-react"
+
+interface ArticleTagsProps {
+  tags: Array<{ name: string; slug: string }>
+}
+
+export function ArticleTags({ tags }: ArticleTagsProps) {
+  if (tags.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-8">
+      {tags.map((tag) => (
+        <Link
+          key={tag.slug}
+          href={`/tag/${encodeURIComponent(tag.slug)}`}
+          className="inline-flex items-center gap-1 rounded-full border border-border px-3 py-1 text-xs font-medium text-muted-foreground transition-colors hover:border-primary hover:text-primary"
+        >
+          <Hash className="h-3 w-3" />
+          {tag.name}
+        </Link>
+      ))}
+    </div>
+  )
+}
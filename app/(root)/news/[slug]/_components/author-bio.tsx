@@ -1,41 +1,53 @@
 import Image from "next/image"
-import { Facebook, Twitter, Linkedin, Instagram, Home } from "lucide-react"
-import { Button } from "@/components/ui/button"
+import Link from "next/link"
+import { AuthorSocialLinks } from "@/components/news/author-social-links"
+import type { AuthorSocialLinks as SocialLinks } from "@/lib/utils/author"
 
 interface AuthorBioProps {
   author: string
+  url?: string
+  profile?: SocialLinks & {
+    avatar?: string | null
+    designation?: string | null
+    bio?: string | null
+  }
 }
 
-export function AuthorBio({ author }: AuthorBioProps) {
+export function AuthorBio({ author, url, profile }: AuthorBioProps) {
   return (
     <div className="bg-card rounded-lg border border-border p-8 mb-12 flex flex-col sm:flex-row gap-6 items-center sm:items-start">
       <div className="relative h-24 w-24 rounded-full overflow-hidden flex-shrink-0 ring-4 ring-background shadow-lg">
-        <Image src="/author-avatar.png" alt={author} fill className="object-cover" />
+        <Image src={profile?.avatar || "/author-avatar.png"} alt={author} fill className="object-cover" />
       </div>
       <div className="flex-1 text-center sm:text-left">
         <div className="flex items-center justify-center sm:justify-between mb-2 flex-wrap gap-2">
-          <h3 className="font-bold text-lg text-foreground">{author}</h3>
-          <div className="flex items-center gap-2">
-            <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-foreground">
-              <Home className="h-4 w-4" />
-            </Button>
-            <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-foreground">
-              <Facebook className="h-4 w-4" />
-            </Button>
-            <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-foreground">
-              <Twitter className="h-4 w-4" />
-            </Button>
-            <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-foreground">
-              <Linkedin className="h-4 w-4" />
-            </Button>
-            <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-foreground">
-              <Instagram className="h-4 w-4" />
-            </Button>
+          <div>
+            <h3 className="font-bold text-lg text-foreground">
+              {url ? (
+                <Link href={url} rel="author" className="hover:text-primary transition-colors">
+                  {author}
+                </Link>
+              ) : (
+                author
+              )}
+            </h3>
+            {profile?.designation && (
+              <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                {profile.designation}
+              </p>
+            )}
           </div>
+          {profile && <AuthorSocialLinks links={profile} />}
         </div>
         <p className="text-muted-foreground text-sm leading-relaxed mb-0">
-          specializes in local and regional stories, bringing simple, factual, and timely updates to readers.
+          {profile?.bio ||
+            "specializes in local and regional stories, bringing simple, factual, and timely updates to readers."}
         </p>
+        {url && (
+          <Link href={url} className="inline-block mt-3 text-sm font-semibold text-primary hover:underline">
+            More from {author} →
+          </Link>
+        )}
       </div>
     </div>
   )
@@ -3,8 +3,13 @@
 import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
-import { MessageSquare, ThumbsUp, Reply, ChevronDown, ChevronUp, Trash2, Shield, AlertTriangle } from "lucide-react"
-import { createComment, getComments, moderateComment, likeComment } from "@/lib/actions/comments"
+import { MessageSquare, ThumbsUp, Reply, ChevronDown, ChevronUp, Trash2, Shield, AlertTriangle, BadgeCheck, Flag } from "lucide-react"
+import { createComment, getComments, moderateComment, likeComment, reportComment } from "@/lib/actions/comments"
+import {
+  COMMENT_REPORT_REASONS,
+  COMMENT_REPORT_REASON_LABELS,
+  type CommentReportReason,
+} from "@/lib/utils/comments"
 import { getCurrentUser } from "@/lib/auth/jwt-server"
 import { toast } from "sonner"
 import {
@@ -17,7 +22,19 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
 import { Badge } from "@/components/ui/badge"
+import Link from "next/link"
+import { usePathname } from "next/navigation"
 
 interface Comment {
   id: string
@@ -29,6 +46,7 @@ interface Comment {
   isSpam: boolean
   isVulgar: boolean
   parentId: string | null
+  userId: string | null // Posted by a signed-in account
   replies?: Comment[]
 }
 
@@ -44,6 +62,19 @@ export function CommentsSection({ newsId, count: initialCount }: CommentsSection
   const [submitting, setSubmitting] = useState(false)
   const [replyTo, setReplyTo] = useState<string | null>(null)
   const [canModerate, setCanModerate] = useState(false)
+  const [commentMode, setCommentMode] = useState("open")
+  const [isSignedIn, setIsSignedIn] = useState(false)
+  const [viewerName, setViewerName] = useState<string | null>(null)
+  const [likedIds, setLikedIds] = useState<string[]>([])
+  const [reportedIds, setReportedIds] = useState<string[]>([])
+  const [reportDialog, setReportDialog] = useState<{
+    commentId: string | null
+    reason: CommentReportReason | null
+    details: string
+  }>({ commentId: null, reason: null, details: "" })
+  const [reporting, setReporting] = useState(false)
+  const pathname = usePathname()
+  const signInHref = `/auth/sign-in?redirect=${encodeURIComponent(`${pathname}#comments`)}`
   const [deleteDialog, setDeleteDialog] = useState<{ open: boolean; commentId: string | null }>({
     open: false,
     commentId: null,
@@ -89,6 +120,11 @@ export function CommentsSection({ newsId, count: initialCount }: CommentsSection
       const result = await getComments(newsId, canModerate)
       if (result.success) {
         setComments(result.comments as Comment[])
+        setCommentMode(result.commentMode || "open")
+        setIsSignedIn(result.isSignedIn || false)
+        setViewerName(result.viewerName || null)
+        setLikedIds(result.likedCommentIds || [])
+        setReportedIds(result.reportedCommentIds || [])
       }
     } catch (error) {
       toast.error("Failed to load comments")
@@ -99,7 +135,7 @@ export function CommentsSection({ newsId, count: initialCount }: CommentsSection
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault()
-    if (!formData.content.trim() || !formData.authorName.trim()) {
+    if (!formData.content.trim() || (!viewerName && !formData.authorName.trim())) {
       toast.error("Please fill in all required fields")
       return
     }
@@ -109,7 +145,7 @@ export function CommentsSection({ newsId, count: initialCount }: CommentsSection
       const result = await createComment({
         newsId,
         parentId: formData.parentId || undefined,
-        authorName: formData.authorName,
+        authorName: viewerName ? undefined : formData.authorName,
         authorEmail: formData.authorEmail || undefined,
         content: formData.content,
       })
@@ -153,14 +189,54 @@ export function CommentsSection({ newsId, count: initialCount }: CommentsSection
   }
 
   async function handleLike(commentId: string) {
+    if (!isSignedIn) {
+      toast.error("Please sign in to like comments")
+      return
+    }
+
     try {
-      await likeComment(commentId)
+      const result = await likeComment(commentId)
+      if (!result.success) {
+        toast.error(result.error || "Failed to like comment")
+        return
+      }
       await loadComments()
     } catch (error) {
       toast.error("Failed to like comment")
     }
   }
 
+  function openReport(commentId: string) {
+    if (!isSignedIn) {
+      toast.error("Please sign in to report comments")
+      return
+    }
+    setReportDialog({ commentId, reason: null, details: "" })
+  }
+
+  async function handleReport() {
+    if (!reportDialog.commentId || !reportDialog.reason) return
+
+    setReporting(true)
+    const result = await reportComment({
+      commentId: reportDialog.commentId,
+      reason: reportDialog.reason,
+      details: reportDialog.details || undefined,
+    })
+    setReporting(false)
+
+    if (result.success) {
+      toast.success("Thanks, our moderators will review this comment")
+      setReportedIds([...reportedIds, reportDialog.commentId])
+      setReportDialog({ commentId: null, reason: null, details: "" })
+      if (result.hidden) {
+        await loadComments()
+      }
+    } else {
+      toast.error(result.error || "Failed to report comment")
+    }
+  }
+
   function startReply(commentId: string, authorName: string) {
     setReplyTo(commentId)
     setFormData({
@@ -194,6 +270,8 @@ export function CommentsSection({ newsId, count: initialCount }: CommentsSection
     return d.toLocaleDateString()
   }
 
+  const canComment = commentMode === "open" || (commentMode === "members" && isSignedIn)
+
   function renderComment(comment: Comment, depth: number = 0) {
     const isPending = !comment.isApproved || comment.isSpam || comment.isVulgar
 
@@ -214,7 +292,12 @@ export function CommentsSection({ newsId, count: initialCount }: CommentsSection
                     {comment.isVulgar ? "Vulgar" : comment.isSpam ? "Spam" : "Pending"}
                   </Badge>
                 )}
-                {!isPending && <Badge variant="secondary" className="text-xs">User</Badge>}
+                {!isPending && comment.userId && (
+                  <Badge variant="secondary" className="text-xs">
+                    <BadgeCheck className="h-3 w-3 mr-1 text-blue-600" />
+                    Verified
+                  </Badge>
+                )}
               </div>
               <span className="text-xs text-muted-foreground font-medium">
                 {formatDate(comment.createdAt)}
@@ -228,18 +311,39 @@ export function CommentsSection({ newsId, count: initialCount }: CommentsSection
             <div className="flex items-center gap-5 mt-3 pt-2">
               <button
                 onClick={() => handleLike(comment.id)}
-                className="flex items-center gap-1.5 text-xs md:text-sm font-semibold text-muted-foreground hover:text-blue-600 transition-colors"
+                className={`flex items-center gap-1.5 text-xs md:text-sm font-semibold hover:text-blue-600 transition-colors ${
+                  likedIds.includes(comment.id) ? "text-blue-600" : "text-muted-foreground"
+                }`}
+                aria-pressed={likedIds.includes(comment.id)}
               >
-                <ThumbsUp className="h-3.5 w-3.5" />
+                <ThumbsUp className={`h-3.5 w-3.5 ${likedIds.includes(comment.id) ? "fill-current" : ""}`} />
                 <span>{comment.likes}</span>
               </button>
-              <button
-                onClick={() => startReply(comment.id, comment.authorName)}
-                className="flex items-center gap-1.5 text-xs md:text-sm font-semibold text-muted-foreground hover:text-blue-600 transition-colors"
-              >
-                <Reply className="h-3.5 w-3.5" />
-                <span>Reply</span>
-              </button>
+              {canComment && (
+                <button
+                  onClick={() => startReply(comment.id, comment.authorName)}
+                  className="flex items-center gap-1.5 text-xs md:text-sm font-semibold text-muted-foreground hover:text-blue-600 transition-colors"
+                >
+                  <Reply className="h-3.5 w-3.5" />
+                  <span>Reply</span>
+                </button>
+              )}
+              {!canModerate && !isPending && (
+                reportedIds.includes(comment.id) ? (
+                  <span className="flex items-center gap-1.5 text-xs md:text-sm font-semibold text-muted-foreground">
+                    <Flag className="h-3.5 w-3.5 fill-current" />
+                    <span>Reported</span>
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => openReport(comment.id)}
+                    className="flex items-center gap-1.5 text-xs md:text-sm font-semibold text-muted-foreground hover:text-red-600 transition-colors"
+                  >
+                    <Flag className="h-3.5 w-3.5" />
+                    <span>Report</span>
+                  </button>
+                )
+              )}
               {canModerate && (
                 <div className="flex items-center gap-2 ml-auto">
                   {isPending ? (
@@ -318,57 +422,88 @@ export function CommentsSection({ newsId, count: initialCount }: CommentsSection
           </div>
 
           {/* Comment Form */}
-          <form onSubmit={handleSubmit} className="flex gap-3 md:gap-5 bg-muted/30 p-4 md:p-6 rounded-xl border border-border/50">
-            <Avatar className="h-10 w-10 md:h-12 md:w-12 shrink-0 border-2 border-background shadow-sm hidden sm:block">
-              <AvatarFallback className="bg-blue-100 text-blue-700 font-bold">
-                {formData.authorName[0]?.toUpperCase() || "?"}
-              </AvatarFallback>
-            </Avatar>
-            <div className="flex-1 space-y-3">
-              {replyTo && (
-                <div className="flex items-center justify-between bg-blue-50 dark:bg-blue-950/20 p-2 rounded text-sm">
-                  <span className="text-blue-600 dark:text-blue-400">Replying to comment</span>
-                  <Button type="button" variant="ghost" size="sm" onClick={cancelReply} className="h-6 text-xs">
-                    Cancel
-                  </Button>
-                </div>
-              )}
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                <input
-                  type="text"
-                  placeholder="Your Name *"
-                  value={formData.authorName}
-                  onChange={(e) => setFormData({ ...formData, authorName: e.target.value })}
-                  className="w-full p-3 border border-input rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 bg-background text-sm"
+          {commentMode === "closed" ? (
+            <div className="bg-muted/30 p-4 md:p-6 rounded-xl border border-border/50 text-center text-sm text-muted-foreground">
+              Comments are closed for this story.
+            </div>
+          ) : commentMode === "members" && !isSignedIn ? (
+            <div className="bg-muted/30 p-4 md:p-6 rounded-xl border border-border/50 text-center text-sm text-muted-foreground">
+              Only members can comment on this story.{" "}
+              <Link href={signInHref} className="font-semibold text-blue-600 hover:underline">
+                Sign in
+              </Link>{" "}
+              to join the discussion.
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="flex gap-3 md:gap-5 bg-muted/30 p-4 md:p-6 rounded-xl border border-border/50">
+              <Avatar className="h-10 w-10 md:h-12 md:w-12 shrink-0 border-2 border-background shadow-sm hidden sm:block">
+                <AvatarFallback className="bg-blue-100 text-blue-700 font-bold">
+                  {(viewerName || formData.authorName)[0]?.toUpperCase() || "?"}
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex-1 space-y-3">
+                {replyTo && (
+                  <div className="flex items-center justify-between bg-blue-50 dark:bg-blue-950/20 p-2 rounded text-sm">
+                    <span className="text-blue-600 dark:text-blue-400">Replying to comment</span>
+                    <Button type="button" variant="ghost" size="sm" onClick={cancelReply} className="h-6 text-xs">
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+                {viewerName ? (
+                  <p className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                    Commenting as <span className="font-semibold text-foreground">{viewerName}</span>
+                    <BadgeCheck className="h-4 w-4 text-blue-600" />
+                  </p>
+                ) : (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <input
+                      type="text"
+                      placeholder="Your Name *"
+                      value={formData.authorName}
+                      onChange={(e) => setFormData({ ...formData, authorName: e.target.value })}
+                      className="w-full p-3 border border-input rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 bg-background text-sm"
+                      required
+                    />
+                    <input
+                      type="email"
+                      placeholder="Email (optional)"
+                      value={formData.authorEmail}
+                      onChange={(e) => setFormData({ ...formData, authorEmail: e.target.value })}
+                      className="w-full p-3 border border-input rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 bg-background text-sm"
+                    />
+                    <p className="sm:col-span-2 text-xs text-muted-foreground">
+                      <Link href={signInHref} className="font-semibold text-blue-600 hover:underline">
+                        Sign in
+                      </Link>{" "}
+                      or{" "}
+                      <Link href="/account/sign-up" className="font-semibold text-blue-600 hover:underline">
+                        create a free account
+                      </Link>{" "}
+                      to comment under a verified name and like comments.
+                    </p>
+                  </div>
+                )}
+                <textarea
+                  placeholder="What are your thoughts? Join the discussion..."
+                  value={formData.content}
+                  onChange={(e) => setFormData({ ...formData, content: e.target.value })}
+                  className="w-full p-4 border border-input rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 min-h-[120px] bg-background text-base resize-y transition-all placeholder:text-muted-foreground/70"
                   required
                 />
-                <input
-                  type="email"
-                  placeholder="Email (optional)"
-                  value={formData.authorEmail}
-                  onChange={(e) => setFormData({ ...formData, authorEmail: e.target.value })}
-                  className="w-full p-3 border border-input rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 bg-background text-sm"
-                />
-              </div>
-              <textarea
-                placeholder="What are your thoughts? Join the discussion..."
-                value={formData.content}
-                onChange={(e) => setFormData({ ...formData, content: e.target.value })}
-                className="w-full p-4 border border-input rounded-lg focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 min-h-[120px] bg-background text-base resize-y transition-all placeholder:text-muted-foreground/70"
-                required
-              />
-              <div className="flex items-center justify-between">
-                <p className="text-xs text-muted-foreground hidden sm:block">Be respectful and keep it relevant.</p>
-                <Button
-                  type="submit"
-                  disabled={submitting}
-                  className="bg-blue-600 hover:bg-blue-700 text-white px-6 shadow-sm hover:shadow w-full sm:w-auto"
-                >
-                  {submitting ? "Posting..." : replyTo ? "Post Reply" : "Post Comment"}
-                </Button>
+                <div className="flex items-center justify-between">
+                  <p className="text-xs text-muted-foreground hidden sm:block">Be respectful and keep it relevant.</p>
+                  <Button
+                    type="submit"
+                    disabled={submitting}
+                    className="bg-blue-600 hover:bg-blue-700 text-white px-6 shadow-sm hover:shadow w-full sm:w-auto"
+                  >
+                    {submitting ? "Posting..." : replyTo ? "Post Reply" : "Post Comment"}
+                  </Button>
+                </div>
               </div>
-            </div>
-          </form>
+            </form>
+          )}
 
           {/* Comments List */}
           {loading ? (
@@ -383,6 +518,56 @@ export function CommentsSection({ newsId, count: initialCount }: CommentsSection
         </div>
       )}
 
+      {/* Report Dialog */}
+      <Dialog
+        open={!!reportDialog.commentId}
+        onOpenChange={(open) => !open && setReportDialog({ commentId: null, reason: null, details: "" })}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Report comment</DialogTitle>
+            <DialogDescription>Tell our moderators what is wrong with this comment.</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2">
+            {COMMENT_REPORT_REASONS.map((reason) => (
+              <Button
+                key={reason}
+                type="button"
+                variant={reportDialog.reason === reason ? "default" : "outline"}
+                className="justify-start"
+                onClick={() => setReportDialog({ ...reportDialog, reason })}
+                disabled={reporting}
+              >
+                {COMMENT_REPORT_REASON_LABELS[reason]}
+              </Button>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="report-details">Details (optional)</Label>
+            <Textarea
+              id="report-details"
+              value={reportDialog.details}
+              onChange={(e) => setReportDialog({ ...reportDialog, details: e.target.value })}
+              maxLength={500}
+              rows={3}
+              disabled={reporting}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setReportDialog({ commentId: null, reason: null, details: "" })}
+              disabled={reporting}
+            >
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleReport} disabled={reporting || !reportDialog.reason}>
+              {reporting ? "Reporting..." : "Report"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={deleteDialog.open} onOpenChange={(open) => setDeleteDialog({ open, commentId: null })}>
         <AlertDialogContent>
@@ -0,0 +1,160 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { Pin, Radio } from "lucide-react"
+import { cn, formatDate } from "@/lib/utils"
+import { useNewsEvents } from "@/hooks/use-news-events"
+import type { LiveBlogFeed as LiveBlogFeedData, LiveBlogUpdate } from "@/lib/services/live-blog.service"
+
+// How often readers check for new updates while coverage is live;
+// new entries pushed over SSE trigger an immediate check in between
+const POLL_INTERVAL_MS = 20_000
+
+interface LiveBlogFeedProps {
+  slug: string
+  feed: LiveBlogFeedData
+}
+
+function LiveBlogEntry({ entry }: { entry: LiveBlogUpdate }) {
+  return (
+    <article id={`update-${entry.id}`} className="scroll-mt-24">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground mb-2">
+        <time dateTime={entry.createdAt} className="font-bold text-primary" suppressHydrationWarning>
+          {formatDate(entry.createdAt)}
+        </time>
+        <Link href={entry.author.url} rel="author" className="font-medium hover:text-foreground transition-colors">
+          {entry.author.name}
+        </Link>
+        {entry.updatedAt !== entry.createdAt && <span>(edited)</span>}
+      </div>
+      {entry.title && (
+        <h3 className="text-lg font-bold leading-snug text-foreground mb-2 font-hindi">{entry.title}</h3>
+      )}
+      <div
+        dangerouslySetInnerHTML={{ __html: entry.html }}
+        className={cn(
+          "lexical-content font-hindi text-base sm:text-lg leading-[1.8] text-foreground/90",
+          "[&_p]:mb-3 [&_a]:text-primary [&_a:hover]:underline [&_strong]:font-bold",
+          "[&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5 [&_li]:mb-1",
+          "[&_blockquote]:border-l-4 [&_blockquote]:border-primary [&_blockquote]:pl-4 [&_blockquote]:my-4",
+          "[&_img]:max-w-full [&_img]:h-auto [&_img]:rounded-lg [&_img]:my-4"
+        )}
+      />
+    </article>
+  )
+}
+
+export function LiveBlogFeed({ slug, feed }: LiveBlogFeedProps) {
+  const [entries, setEntries] = useState<LiveBlogUpdate[]>(feed.entries)
+  const [isLive, setIsLive] = useState(feed.isLive)
+  const lastFetchedAt = useRef<string>(
+    feed.entries.reduce((latest, entry) => (entry.updatedAt > latest ? entry.updatedAt : latest), "")
+  )
+  const pollRef = useRef<() => void>(undefined)
+
+  useNewsEvents(() => pollRef.current?.(), { newsId: feed.newsId, enabled: isLive })
+
+  // Poll for new and edited entries while coverage is live and the tab is visible
+  useEffect(() => {
+    if (!isLive) return
+
+    let cancelled = false
+
+    const poll = async () => {
+      if (document.visibilityState !== "visible") return
+
+      try {
+        const params = new URLSearchParams()
+        if (lastFetchedAt.current) params.set("since", lastFetchedAt.current)
+        const response = await fetch(`/api/news/live/${encodeURIComponent(slug)}?${params.toString()}`)
+        if (!response.ok) return
+
+        const result = await response.json()
+        if (cancelled || !result.success) return
+
+        const updates: LiveBlogUpdate[] = result.data
+        const currentIds = new Set<string>(result.meta.entryIds)
+        lastFetchedAt.current = result.meta.timestamp
+
+        setEntries((previous) => {
+          const updatedIds = new Set(updates.map((entry) => entry.id))
+          return [...updates, ...previous.filter((entry) => !updatedIds.has(entry.id))]
+            .filter((entry) => currentIds.has(entry.id))
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        })
+        setIsLive(result.meta.isLive)
+      } catch (error) {
+        console.error("Live blog poll error:", error)
+      }
+    }
+
+    pollRef.current = poll
+    const timer = setInterval(poll, POLL_INTERVAL_MS)
+    document.addEventListener("visibilitychange", poll)
+
+    return () => {
+      cancelled = true
+      pollRef.current = undefined
+      clearInterval(timer)
+      document.removeEventListener("visibilitychange", poll)
+    }
+  }, [slug, isLive])
+
+  const pinned = entries.filter((entry) => entry.isPinned)
+  const timeline = entries.filter((entry) => !entry.isPinned)
+
+  return (
+    <section aria-label="Live updates" className="mt-10">
+      <div className="flex items-center justify-between gap-4 border-b border-border pb-3 mb-6">
+        <h2 className="flex items-center gap-2 text-xl font-black tracking-tight">
+          {isLive && (
+            <span className="relative flex h-3 w-3">
+              <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-red-500 opacity-75" />
+              <span className="relative inline-flex h-3 w-3 rounded-full bg-red-600" />
+            </span>
+          )}
+          Live Updates
+        </h2>
+        <span
+          className={cn(
+            "flex items-center gap-1 text-xs font-bold uppercase tracking-wider",
+            isLive ? "text-red-600" : "text-muted-foreground"
+          )}
+        >
+          <Radio className="h-3.5 w-3.5" />
+          {isLive ? "Live" : "Coverage ended"}
+        </span>
+      </div>
+
+      {pinned.length > 0 && (
+        <div className="space-y-6 mb-8">
+          {pinned.map((entry) => (
+            <div key={entry.id} className="rounded-lg border border-primary/40 bg-primary/5 p-5">
+              <p className="flex items-center gap-1 text-xs font-bold uppercase text-primary mb-3">
+                <Pin className="h-3.5 w-3.5" />
+                Pinned
+              </p>
+              <LiveBlogEntry entry={entry} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {timeline.length === 0 && pinned.length === 0 ? (
+        <p className="py-10 text-center text-muted-foreground">
+          {isLive ? "Updates will appear here as the story develops." : "No updates were posted."}
+        </p>
+      ) : (
+        <ol className="relative border-l-2 border-border ml-2">
+          {timeline.map((entry) => (
+            <li key={entry.id} className="mb-8 ml-6">
+              <span className="absolute -left-[7px] mt-1.5 h-3 w-3 rounded-full bg-primary ring-4 ring-background" />
+              <LiveBlogEntry entry={entry} />
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  )
+}
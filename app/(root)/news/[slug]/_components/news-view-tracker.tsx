@@ -0,0 +1,22 @@
+"use client"
+
+import { useEffect } from "react"
+
+interface NewsViewTrackerProps {
+  newsId: string
+}
+
+/**
+ * Reports one view per article per page load
+ * Runs client-side because the article page itself is cached; the server
+ * de-duplicates repeat views and drops bot traffic
+ */
+export function NewsViewTracker({ newsId }: NewsViewTrackerProps) {
+  useEffect(() => {
+    fetch(`/api/news/view/${newsId}`, { method: "POST", keepalive: true }).catch(() => {
+      // Silently fail
+    })
+  }, [newsId])
+
+  return null
+}
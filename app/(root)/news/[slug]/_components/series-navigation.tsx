@@ -0,0 +1,67 @@
+import Link from "next/link"
+import { ChevronLeft, ChevronRight, Layers } from "lucide-react"
+import type { SeriesNavigation as SeriesNavigationData } from "@/lib/services/series.service"
+
+interface SeriesNavigationProps {
+  navigation: SeriesNavigationData[]
+}
+
+export function SeriesNavigation({ navigation }: SeriesNavigationProps) {
+  if (navigation.length === 0) return null
+
+  return (
+    <div className="space-y-4 mt-10">
+      {navigation.map(({ series, position, total, previous, next }) => (
+        <nav
+          key={series.id}
+          aria-label={`Series: ${series.title}`}
+          className="rounded-lg border border-border bg-card p-5"
+        >
+          <div className="flex items-center justify-between gap-4 mb-4">
+            <div className="flex items-center gap-2 min-w-0">
+              <Layers className="h-4 w-4 text-primary shrink-0" />
+              <Link
+                href={`/series/${encodeURIComponent(series.slug)}`}
+                className="font-bold text-foreground hover:text-primary transition-colors truncate font-hindi"
+              >
+                {series.title}
+              </Link>
+            </div>
+            <span className="text-xs font-semibold uppercase text-muted-foreground shrink-0">
+              Part {position} of {total}
+            </span>
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            {previous ? (
+              <Link
+                href={`/news/${previous.slug}`}
+                className="group flex items-start gap-2 rounded-md border border-border p-3 hover:border-primary transition-colors"
+              >
+                <ChevronLeft className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground group-hover:text-primary" />
+                <span>
+                  <span className="block text-xs uppercase text-muted-foreground">Previous</span>
+                  <span className="text-sm font-medium line-clamp-2 font-hindi">{previous.title}</span>
+                </span>
+              </Link>
+            ) : (
+              <div className="hidden sm:block" />
+            )}
+            {next && (
+              <Link
+                href={`/news/${next.slug}`}
+                className="group flex items-start justify-end gap-2 rounded-md border border-border p-3 text-right hover:border-primary transition-colors"
+              >
+                <span>
+                  <span className="block text-xs uppercase text-muted-foreground">Next</span>
+                  <span className="text-sm font-medium line-clamp-2 font-hindi">{next.title}</span>
+                </span>
+                <ChevronRight className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground group-hover:text-primary" />
+              </Link>
+            )}
+          </div>
+        </nav>
+      ))}
+    </div>
+  )
+}
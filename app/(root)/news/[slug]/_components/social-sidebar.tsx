@@ -2,18 +2,85 @@
 
 import { useEffect, useState } from "react"
 import { Button } from "@/components/ui/button"
-import { Facebook, Linkedin, Mail, Twitter } from "lucide-react"
+import { Bookmark, Facebook, Linkedin, Mail, Twitter } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { shareOnFacebook, shareOnTwitter, shareOnLinkedIn, shareViaEmail, copyToClipboard } from "@/lib/utils/share"
 import { toast } from "sonner"
+import { getArticleReaderState, reactToNews, toggleBookmark } from "@/lib/actions/readers"
+import {
+  NEWS_REACTIONS,
+  NEWS_REACTION_EMOJI,
+  NEWS_REACTION_LABELS,
+  toReactionCounts,
+  type NewsReactionCounts,
+  type NewsReactionType,
+} from "@/lib/utils/reactions"
 
-export function SocialSidebar() {
+interface SocialSidebarProps {
+  newsId: string
+}
+
+export function SocialSidebar({ newsId }: SocialSidebarProps) {
   const [shareData, setShareData] = useState({
     url: "",
     title: "",
     description: "",
   })
   const [isVisible, setIsVisible] = useState(false)
+  const [readerState, setReaderState] = useState<{
+    isSignedIn: boolean
+    reactions: NewsReactionCounts
+    reaction: string | null
+    bookmarked: boolean
+  }>({
+    isSignedIn: false,
+    reactions: toReactionCounts([]),
+    reaction: null,
+    bookmarked: false,
+  })
+
+  // Reactions and bookmarks are per account, so they load after the cached page
+  useEffect(() => {
+    getArticleReaderState(newsId).then((result) => {
+      if (result.success && result.reactions) {
+        setReaderState({
+          isSignedIn: result.isSignedIn || false,
+          reactions: result.reactions,
+          reaction: result.reaction ?? null,
+          bookmarked: result.bookmarked || false,
+        })
+      }
+    })
+  }, [newsId])
+
+  async function handleReaction(type: NewsReactionType) {
+    if (!readerState.isSignedIn) {
+      toast.error("Please sign in to react to articles")
+      return
+    }
+
+    const result = await reactToNews({ newsId, type })
+    if (result.success && result.reactions) {
+      setReaderState({ ...readerState, reaction: result.reaction ?? null, reactions: result.reactions })
+    } else {
+      toast.error(result.error || "Failed to update reaction")
+    }
+  }
+
+  async function handleBookmark() {
+    if (!readerState.isSignedIn) {
+      toast.error("Please sign in to save articles")
+      return
+    }
+
+    const result = await toggleBookmark(newsId)
+    if (result.success) {
+      setReaderState({ ...readerState, bookmarked: result.bookmarked || false })
+      toast.success(result.bookmarked ? "Saved to your bookmarks" : "Removed from your bookmarks")
+    } else {
+      toast.error(result.error || "Failed to update bookmark")
+    }
+  }
 
   useEffect(() => {
     // Get article data from page
@@ -47,6 +114,42 @@ export function SocialSidebar() {
         isVisible ? "opacity-100" : "opacity-0 pointer-events-none",
       )}
     >
+      <div className="flex flex-col gap-3 items-center">
+        {NEWS_REACTIONS.map((type) => (
+          <div key={type} className="flex flex-col items-center gap-0.5">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => handleReaction(type)}
+              className={cn(
+                "h-10 w-10 rounded-full bg-background shadow-sm border-gray-200 text-base transition-transform hover:scale-110",
+                readerState.reaction === type ? "border-rose-300 bg-rose-50" : "hover:bg-gray-50",
+              )}
+              aria-label={`${NEWS_REACTION_LABELS[type]} (${readerState.reactions[type]})`}
+              aria-pressed={readerState.reaction === type}
+              title={NEWS_REACTION_LABELS[type]}
+            >
+              <span aria-hidden="true">{NEWS_REACTION_EMOJI[type]}</span>
+            </Button>
+            <span className="text-xs font-semibold text-muted-foreground">{readerState.reactions[type]}</span>
+          </div>
+        ))}
+
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={handleBookmark}
+          className={cn(
+            "h-10 w-10 rounded-full bg-background shadow-sm border-amber-100 hover:bg-amber-50 transition-transform hover:scale-110",
+            readerState.bookmarked ? "text-amber-600" : "text-gray-600",
+          )}
+          aria-label={readerState.bookmarked ? "Remove bookmark" : "Bookmark article"}
+          aria-pressed={readerState.bookmarked}
+        >
+          <Bookmark className={cn("h-4 w-4", readerState.bookmarked && "fill-current")} />
+        </Button>
+      </div>
+
       <span className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest writing-vertical-rl transform rotate-180">
         SHARE
       </span>
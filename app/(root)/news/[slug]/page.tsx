@@ -1,7 +1,12 @@
 import { notFound } from "next/navigation"
 import { Metadata } from "next"
 import { getNewsBySlug, getRelatedNews } from "@/lib/actions/news"
-import { lexicalToHTML } from "@/lib/utils/lexical-to-html"
+import { lexicalToHTML, lexicalToPlainText } from "@/lib/utils/lexical-to-html"
+import { splitKeywords } from "@/lib/utils/tags"
+import { generateLiveBlogStructuredData, generateNewsStructuredData } from "@/lib/seo"
+import { env } from "@/lib/config/env"
+import { getSeriesNavigationForNews } from "@/lib/services/series.service"
+import { getPublicLiveBlog } from "@/lib/services/live-blog.service"
 import { mapToArticle } from "@/lib/utils/news-mapper-unified"
 import { ArticleHeader } from "./_components/article-header"
 import { ArticleContent } from "./_components/article-content"
@@ -9,7 +14,12 @@ import { AuthorBio } from "./_components/author-bio"
 import { RelatedPosts } from "./_components/related-posts"
 import { CommentsSection } from "./_components/comments-section"
 import { SocialSidebar } from "./_components/social-sidebar"
+import { ArticleTags } from "./_components/article-tags"
+import { SeriesNavigation } from "./_components/series-navigation"
+import { LiveBlogFeed } from "./_components/live-blog-feed"
+import { NewsViewTracker } from "./_components/news-view-tracker"
 import { AdInline } from "@/components/ads/ad-inline"
+import { AdTargetingProvider } from "@/components/ads/ad-targeting"
 import type { Article } from "@/constants/news-data"
 
 export const revalidate = 60
@@ -23,6 +33,16 @@ interface PageProps {
   }>
 }
 
+type PublicNews = NonNullable<Awaited<ReturnType<typeof getNewsBySlug>>["news"]>
+
+// Tags attached to the post; posts saved before tags existed fall back to meta keywords
+function getNewsKeywords(news: Pick<PublicNews, "tags" | "metaKeywords">): string[] {
+  if (news.tags?.length) {
+    return news.tags.map((t) => t.tag.name)
+  }
+  return splitKeywords(news.metaKeywords)
+}
+
 // Map database news to Article interface
 // Uses unified mapper with Lexical content conversion
 function mapNewsToArticle(news: any): Article {
@@ -38,9 +58,9 @@ function mapNewsToArticle(news: any): Article {
     article.readTime = `${Math.ceil((htmlContent.length || 1000) / 500)} Mins Read`;
   }
   
-  // Add meta keywords as tags if available
-  if (news.metaKeywords) {
-    article.tags = news.metaKeywords.split(",").map((tag: string) => tag.trim());
+  const keywords = getNewsKeywords(news);
+  if (keywords.length > 0) {
+    article.tags = keywords;
   }
   
   // Add comment count if available
@@ -84,7 +104,7 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
       description,
       images: image ? [image] : [],
     },
-    keywords: news.metaKeywords?.split(",").map((k: string) => k.trim()),
+    keywords: getNewsKeywords(news),
   }
 }
 
@@ -100,16 +120,39 @@ export default async function Page({ params, searchParams }: PageProps) {
   }
 
   const article = mapNewsToArticle(result.news)
+  const tags = (result.news.tags || []).map((t) => t.tag)
 
   // Get related articles
   const categoryIds = result.news.categories?.map((cat: any) => cat.menuId) || []
-  const relatedResult = await getRelatedNews(slug, categoryIds, 3)
+  const categorySlugs = result.news.categories?.map((cat) => cat.menu.slug) || []
+  const [relatedResult, seriesNavigation, liveBlog] = await Promise.all([
+    getRelatedNews(slug, categoryIds, 3),
+    getSeriesNavigationForNews(result.news.id),
+    result.news.isLiveBlog ? getPublicLiveBlog(result.news.slug) : null,
+  ])
+
+  const structuredInput = {
+    ...result.news,
+    content: lexicalToPlainText(result.news.content),
+    keywords: article.tags,
+  }
+  const structuredData = liveBlog
+    ? generateLiveBlogStructuredData(
+        { ...structuredInput, entries: liveBlog.entries },
+        env.NEXT_PUBLIC_BASE_URL || undefined
+      )
+    : generateNewsStructuredData(structuredInput, env.NEXT_PUBLIC_BASE_URL || undefined)
   const relatedPosts = relatedResult.success && relatedResult.news
     ? relatedResult.news.map(mapNewsToArticle)
     : []
 
   return (
     <div className="relative">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(structuredData).replace(/</g, "\\u003c") }}
+      />
+
       {/* Article Header includes the Hero Image. We place it full width at the top. */}
       <ArticleHeader article={article} />
 
@@ -122,17 +165,22 @@ export default async function Page({ params, searchParams }: PageProps) {
         {/* Sticky Social Sidebar (Left) - Only visible alongside content */}
         <div className="hidden lg:block shrink-0 w-12">
           <div className="sticky top-24">
-            <SocialSidebar />
+            <SocialSidebar newsId={result.news.id} />
           </div>
         </div>
 
         {/* Article Body (Right) */}
         <div className="flex-1 min-w-0">
           <ArticleContent content={article.fullContent || article.content} />
+          {liveBlog && <LiveBlogFeed slug={result.news.slug} feed={liveBlog} />}
+          <ArticleTags tags={tags} />
+          <SeriesNavigation navigation={seriesNavigation} />
           
           {/* Inline Ad after content */}
           <div className="my-12">
-            <AdInline showDefault={true} />
+            <AdTargetingProvider categories={categorySlugs} newsId={result.news.id}>
+              <AdInline showDefault={true} />
+            </AdTargetingProvider>
           </div>
         </div>
       </div>
@@ -148,13 +196,15 @@ export default async function Page({ params, searchParams }: PageProps) {
         <div className="hidden lg:block shrink-0 w-12" aria-hidden="true" />
 
         <div className="flex-1 min-w-0">
-          <AuthorBio author={article.author} />
+          <AuthorBio author={article.author} url={article.authorUrl} profile={result.news.author} />
 
           <RelatedPosts posts={relatedPosts} />
 
           <CommentsSection newsId={result.news.id} count={(result.news as any).commentCount || article.comments || 0} />
         </div>
       </div>
+
+      <NewsViewTracker newsId={result.news.id} />
     </div>
   )
 }
@@ -28,6 +28,15 @@ interface SearchResultsProps {
   };
 }
 
+// Query string for the current search, skipping empty filters
+function toSearchParams(searchParams: SearchResultsProps["searchParams"]) {
+  const values: Record<string, string> = {};
+  Object.entries(searchParams).forEach(([key, value]) => {
+    if (value) values[key] = value;
+  });
+  return new URLSearchParams(values);
+}
+
 export function SearchResults({ searchParams }: SearchResultsProps) {
   const router = useRouter();
   const [results, setResults] = React.useState<any>(null);
@@ -45,10 +54,7 @@ export function SearchResults({ searchParams }: SearchResultsProps) {
       setError(null);
 
       try {
-        const params = new URLSearchParams();
-        Object.entries(searchParams).forEach(([key, value]) => {
-          if (value) params.append(key, value);
-        });
+        const params = toSearchParams(searchParams);
 
         const response = await fetch(`/api/news/search?${params.toString()}`);
         const data = await response.json();
@@ -103,9 +109,31 @@ export function SearchResults({ searchParams }: SearchResultsProps) {
     );
   }
 
+  const searchInsteadFor = (suggestion: string) => {
+    const params = toSearchParams(searchParams);
+    params.set("q", suggestion);
+    params.set("page", "1");
+    router.push(`/search?${params.toString()}`);
+  };
+
+  const didYouMean = results?.meta?.didYouMean && (
+    <p className="mb-4 text-sm">
+      Did you mean{" "}
+      <button
+        type="button"
+        onClick={() => searchInsteadFor(results.meta.didYouMean)}
+        className="font-semibold text-primary hover:underline"
+      >
+        {results.meta.didYouMean}
+      </button>
+      ?
+    </p>
+  );
+
   if (!results || results.results.length === 0) {
     return (
       <div className="text-center py-12">
+        {didYouMean}
         <p className="text-muted-foreground mb-2">No results found</p>
         <p className="text-sm text-muted-foreground">
           Try different keywords or adjust your filters
@@ -118,6 +146,13 @@ export function SearchResults({ searchParams }: SearchResultsProps) {
 
   return (
     <div>
+      {didYouMean}
+      {meta.fuzzy && (
+        <p className="mb-4 text-sm text-muted-foreground">
+          No exact matches for &quot;{meta.query}&quot;. Showing similar results.
+        </p>
+      )}
+
       {/* Search Meta */}
       <div className="mb-6 flex items-center justify-between">
         <p className="text-sm text-muted-foreground">
@@ -129,7 +164,7 @@ export function SearchResults({ searchParams }: SearchResultsProps) {
           <select
             value={searchParams.sortBy || "relevance"}
             onChange={(e) => {
-              const params = new URLSearchParams(searchParams as any);
+              const params = toSearchParams(searchParams);
               params.set("sortBy", e.target.value);
               params.set("page", "1");
               router.push(`/search?${params.toString()}`);
@@ -221,7 +256,7 @@ export function SearchResults({ searchParams }: SearchResultsProps) {
             variant="outline"
             disabled={!pagination.hasPrev}
             onClick={() => {
-              const params = new URLSearchParams(searchParams as any);
+              const params = toSearchParams(searchParams);
               params.set("page", String(pagination.page - 1));
               router.push(`/search?${params.toString()}`);
             }}
@@ -235,7 +270,7 @@ export function SearchResults({ searchParams }: SearchResultsProps) {
             variant="outline"
             disabled={!pagination.hasNext}
             onClick={() => {
-              const params = new URLSearchParams(searchParams as any);
+              const params = toSearchParams(searchParams);
               params.set("page", String(pagination.page + 1));
               router.push(`/search?${params.toString()}`);
             }}
@@ -0,0 +1,121 @@
+import Image from "next/image"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { Metadata } from "next"
+import { Layers } from "lucide-react"
+import { getPublicSeriesBySlug } from "@/lib/services/series.service"
+import { formatDate } from "@/lib/utils"
+import { decodeRouteParam } from "@/lib/utils/route-params"
+
+// Enterprise cache configuration
+export const revalidate = 60 // Revalidate every 60 seconds
+
+interface PageProps {
+  params: Promise<{ slug: string }>
+}
+
+/**
+ * Generate metadata for series page
+ */
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { slug } = await params
+  const decodedSlug = decodeRouteParam(slug)
+  const series = decodedSlug ? await getPublicSeriesBySlug(decodedSlug) : null
+
+  if (!series) {
+    return {
+      title: "Series Not Found",
+    }
+  }
+
+  const description = series.description || `Full timeline of ${series.title}`
+
+  return {
+    title: `${series.title} - Timeline`,
+    description,
+    alternates: {
+      canonical: `/series/${series.slug}`,
+    },
+    openGraph: {
+      title: series.title,
+      description,
+      type: "website",
+      images: series.coverImage ? [{ url: series.coverImage }] : [],
+    },
+  }
+}
+
+export default async function SeriesPage({ params }: PageProps) {
+  const { slug } = await params
+  const decodedSlug = decodeRouteParam(slug)
+  const series = decodedSlug ? await getPublicSeriesBySlug(decodedSlug) : null
+
+  if (!series) {
+    notFound()
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Series Header */}
+      <div className="border-b border-zinc-800 pb-6 mb-8">
+        <p className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-muted-foreground">
+          <Layers className="h-4 w-4" />
+          Story Timeline
+        </p>
+        <h1 className="text-3xl md:text-4xl font-black tracking-tight mt-2 font-hindi">{series.title}</h1>
+        {series.description && (
+          <p className="text-muted-foreground leading-relaxed mt-3 max-w-3xl font-hindi">{series.description}</p>
+        )}
+        <p className="text-sm text-muted-foreground mt-3">
+          {series.news.length} {series.news.length === 1 ? "part" : "parts"} · Updated{" "}
+          {formatDate(series.updatedAt)}
+        </p>
+      </div>
+
+      {series.coverImage && (
+        <div className="relative aspect-[16/9] w-full overflow-hidden rounded-lg bg-muted/30">
+          <Image src={series.coverImage} alt={series.title} fill className="object-cover" priority />
+        </div>
+      )}
+
+      {/* Timeline */}
+      {series.news.length === 0 ? (
+        <div className="py-20 text-center text-zinc-500">No articles published in this series yet.</div>
+      ) : (
+        <ol className="relative border-l-2 border-border ml-3">
+          {series.news.map((news, index) => (
+            <li key={news.id} className="mb-10 ml-8">
+              <span className="absolute -left-[13px] flex h-6 w-6 items-center justify-center rounded-full bg-primary text-[11px] font-bold text-primary-foreground ring-4 ring-background">
+                {index + 1}
+              </span>
+              <time className="block text-xs font-semibold uppercase text-muted-foreground mb-2">
+                {formatDate(news.publishedAt || news.createdAt)}
+              </time>
+              <Link href={`/news/${news.slug}`} className="group flex flex-col sm:flex-row gap-4">
+                {news.coverImage && (
+                  <div className="relative h-40 sm:h-28 sm:w-44 shrink-0 overflow-hidden rounded-md bg-muted">
+                    <Image
+                      src={news.coverImage}
+                      alt={news.title}
+                      fill
+                      className="object-cover transition-transform duration-500 group-hover:scale-105"
+                      sizes="(max-width: 640px) 100vw, 176px"
+                    />
+                  </div>
+                )}
+                <div className="min-w-0">
+                  <h2 className="text-lg font-bold leading-snug group-hover:text-primary transition-colors font-hindi">
+                    {news.title}
+                  </h2>
+                  {news.excerpt && (
+                    <p className="text-sm text-muted-foreground mt-1 line-clamp-2 font-hindi">{news.excerpt}</p>
+                  )}
+                </div>
+              </Link>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
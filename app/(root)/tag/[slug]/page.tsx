@@ -0,0 +1,151 @@
+import { notFound } from "next/navigation"
+import { Metadata } from "next"
+import { getNewsByTag, getTagBySlug } from "@/lib/services/news-api.service"
+import { NewsCard } from "@/components/news/news-card"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+import type { Article } from "@/constants/news-data"
+import { mapToArticle } from "@/lib/utils/news-mapper-unified"
+import { decodeRouteParam } from "@/lib/utils/route-params"
+
+// Enterprise cache configuration
+export const revalidate = 60 // Revalidate every 60 seconds
+
+interface PageProps {
+  params: Promise<{ slug: string }>
+  searchParams: Promise<{ page?: string }>
+}
+
+/**
+ * Generate metadata for tag page
+ */
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { slug } = await params
+  const decodedSlug = decodeRouteParam(slug)
+  const tag = decodedSlug ? await getTagBySlug(decodedSlug) : null
+
+  if (!tag) {
+    return {
+      title: "Tag Not Found",
+    }
+  }
+
+  const description = tag.description || `Latest news and articles tagged ${tag.name}`
+
+  return {
+    title: `${tag.name} - News`,
+    description,
+    keywords: [tag.name],
+    alternates: {
+      canonical: `/tag/${tag.slug}`,
+    },
+    openGraph: {
+      title: `${tag.name} - News`,
+      description,
+      type: "website",
+    },
+  }
+}
+
+export default async function TagPage({ params, searchParams }: PageProps) {
+  const { slug } = await params
+  const { page: pageParam } = await searchParams
+  const page = Number(pageParam) || 1
+
+  const decodedSlug = decodeRouteParam(slug)
+  const tag = decodedSlug ? await getTagBySlug(decodedSlug) : null
+  if (!tag) {
+    notFound()
+  }
+
+  const result = await getNewsByTag(tag.slug, {
+    page,
+    limit: 24,
+    includeContent: false,
+    includeAuthor: true,
+    includeCategories: true,
+  })
+
+  const articles: Article[] = result.data.map((news) => mapToArticle(news))
+  const totalPages = result.pagination.totalPages
+  const pageHref = (p: number) => `/tag/${encodeURIComponent(tag.slug)}?page=${p}`
+
+  return (
+    <div className="space-y-6">
+      {/* Tag Header */}
+      <div className="border-b border-zinc-800 pb-4 mb-8">
+        <p className="text-xs font-bold uppercase tracking-widest text-muted-foreground">Tag</p>
+        <h1 className="text-3xl md:text-4xl font-black tracking-tight">#{tag.name}</h1>
+        {tag.description && <p className="text-muted-foreground mt-2">{tag.description}</p>}
+        {result.pagination.total > 0 && (
+          <p className="text-sm text-muted-foreground mt-2">
+            {result.pagination.total} {result.pagination.total === 1 ? "article" : "articles"} found
+          </p>
+        )}
+      </div>
+
+      {/* News List */}
+      <div className="flex flex-col gap-4">
+        {articles.map((article) => (
+          <NewsCard key={article.id} article={article} />
+        ))}
+
+        {articles.length === 0 && (
+          <div className="py-20 text-center text-zinc-500">No articles found with this tag.</div>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="mt-12 py-6 border-t border-zinc-800">
+          <Pagination className="text-zinc-400">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  size="default"
+                  href={pageHref(Math.max(1, page - 1))}
+                  className="hover:bg-zinc-800 hover:text-white"
+                />
+              </PaginationItem>
+
+              {[...Array(totalPages)].map((_, i) => {
+                const p = i + 1
+                const isCurrent = p === page
+                return (
+                  <PaginationItem key={p}>
+                    <PaginationLink
+                      size="default"
+                      href={pageHref(p)}
+                      isActive={isCurrent}
+                      className={
+                        isCurrent
+                          ? "bg-zinc-100 text-black hover:bg-white"
+                          : "hover:bg-zinc-800 hover:text-white"
+                      }
+                    >
+                      {p}
+                    </PaginationLink>
+                  </PaginationItem>
+                )
+              })}
+
+              <PaginationItem>
+                <PaginationNext
+                  size="default"
+                  href={pageHref(Math.min(totalPages, page + 1))}
+                  className="hover:bg-zinc-800 hover:text-white"
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        </div>
+      )}
+    </div>
+  )
+}
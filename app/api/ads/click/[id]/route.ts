@@ -1,10 +1,12 @@
 /**
  * Track Ad Click API
  * Non-blocking endpoint to track advertisement clicks
+ * Requests failing the traffic-quality checks are recorded as filtered
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { trackAdClick } from "@/lib/services/ads.service";
+import { assessTraffic, recordFilteredTraffic } from "@/lib/security/traffic-quality";
 
 export async function POST(
   request: NextRequest,
@@ -12,7 +14,14 @@ export async function POST(
 ) {
   try {
     const { id } = await params;
-    
+
+    // Bots and bursts are recorded as filtered instead of being counted
+    const assessment = await assessTraffic(request, "ad_click", id);
+    if (!assessment.valid) {
+      await recordFilteredTraffic("ad_click", id, assessment);
+      return NextResponse.json({ success: true }, { status: 200 });
+    }
+
     // Track click asynchronously (non-blocking)
     trackAdClick(id).catch(() => {
       // Silently fail - don't log to avoid spam
@@ -0,0 +1,135 @@
+/**
+ * Ad Serving API Endpoint
+ *
+ * GET /api/ads/serve
+ *
+ * Picks the ads a visitor sees in one or more zones. Selection happens per
+ * request (targeting, weighted rotation, per-visitor frequency caps, campaign
+ * budgets), so pages served from cache still rotate their ads. Only enabled
+ * zones of the zone registry serve ads, up to the zone's max ads.
+ *
+ * Query Parameters:
+ * - zones: comma-separated zone:count pairs, e.g. "header:1,sidebar:4"
+ * - categories: comma-separated category slugs of the page (optional)
+ * - newsId: article the page shows (optional)
+ *
+ * Device and location for targeting come from the request headers.
+ *
+ * Response:
+ * {
+ *   success: boolean,
+ *   data: Record<zone, AdDisplay[]>,
+ *   zones: Record<zone, AdZoneDisplay>, // Size, max ads and fallback creative; unknown zones are missing
+ *   meta: {
+ *     timestamp: string
+ *   }
+ * }
+ *
+ * Sets the ad_freq cookie with today's impression counts of frequency-capped ads.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { resolveAdCategoryIds, selectAdsForZones } from "@/lib/services/ads.service";
+import { getAdZoneDisplays } from "@/lib/services/ad-zones.service";
+import { getVisitorContext } from "@/lib/utils/visitor-context";
+import {
+  AD_FREQUENCY_COOKIE,
+  MAX_ADS_PER_ZONE,
+  parseAdFrequencyCookie,
+  serializeAdFrequencyCookie,
+} from "@/lib/utils/ads";
+
+export const dynamic = "force-dynamic";
+
+const MAX_ZONES = 10;
+const MAX_CATEGORIES = 10;
+
+export async function GET(request: NextRequest) {
+  try {
+    const zonesParam = request.nextUrl.searchParams.get("zones") || "";
+    const requests = new Map<string, number>();
+
+    for (const pair of zonesParam.split(",").slice(0, MAX_ZONES)) {
+      const [zone, countParam] = pair.split(":");
+      if (!zone || !/^[a-z0-9-]+$/.test(zone)) continue;
+
+      const count = Math.min(Math.max(Number(countParam) || 1, 1), MAX_ADS_PER_ZONE);
+      requests.set(zone, Math.max(requests.get(zone) || 0, count));
+    }
+
+    if (requests.size === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "No valid zones requested",
+        },
+        { status: 400 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const categorySlugs = (searchParams.get("categories") || "")
+      .split(",")
+      .map((slug) => slug.trim())
+      .filter(Boolean)
+      .slice(0, MAX_CATEGORIES);
+    const visitor = getVisitorContext(request.headers);
+
+    const zones = await getAdZoneDisplays(Array.from(requests.keys()));
+    const servable = Array.from(requests)
+      .filter(([zone]) => zones[zone]?.isEnabled)
+      .map(([zone, count]) => ({ zone, count: Math.min(count, zones[zone].maxAds) }));
+
+    const frequency = parseAdFrequencyCookie(request.cookies.get(AD_FREQUENCY_COOKIE)?.value);
+    const result = await selectAdsForZones(
+      servable,
+      frequency,
+      {
+        categoryIds: await resolveAdCategoryIds(categorySlugs),
+        newsId: searchParams.get("newsId"),
+        device: visitor.device,
+        country: visitor.country,
+        region: visitor.region,
+      }
+    );
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        data: result.ads,
+        zones,
+        meta: {
+          timestamp: new Date().toISOString(),
+        },
+      },
+      {
+        status: 200,
+        headers: {
+          "Cache-Control": "private, no-store",
+        },
+      }
+    );
+
+    if (Object.keys(result.frequency.counts).length > 0) {
+      response.cookies.set(AD_FREQUENCY_COOKIE, serializeAdFrequencyCookie(result.frequency), {
+        path: "/",
+        maxAge: 60 * 60 * 24,
+        sameSite: "lax",
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+      });
+    }
+
+    return response;
+  } catch (error) {
+    console.error("Ad serve API error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to serve ads",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Advertiser Report Download Endpoint
+ *
+ * GET /api/advertiser/reports
+ *
+ * Downloads the daily impressions/clicks/CTR report shown in the advertiser portal.
+ *
+ * Query Parameters:
+ * - campaignId: campaign to report on (optional, defaults to all of the user's campaigns)
+ * - days: report period, one of 7, 30 or 90 (optional, defaults to 30)
+ * - format: "csv" or "pdf" (optional, defaults to csv)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getAdvertiserReport } from "@/lib/actions/advertiser-portal";
+import { buildAdReportCsv, buildAdReportPdf } from "@/lib/utils/ad-reports";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const format = searchParams.get("format") === "pdf" ? "pdf" : "csv";
+
+    const result = await getAdvertiserReport(
+      searchParams.get("campaignId") || undefined,
+      Number(searchParams.get("days")) || undefined
+    );
+
+    if (!result.success || !result.report) {
+      const statuses: Record<string, number> = {
+        Unauthorized: 401,
+        "Campaign not found": 404,
+        "Failed to build report": 500,
+      };
+      const status = (result.error && statuses[result.error]) || 403;
+      return NextResponse.json({ success: false, error: result.error }, { status });
+    }
+
+    const report = result.report;
+    const filename = `ad-report-${report.from}-to-${report.to}.${format}`;
+    const body = format === "pdf" ? buildAdReportPdf(report) : buildAdReportCsv(report);
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "Content-Type": format === "pdf" ? "application/pdf" : "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Advertiser report API error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to build report",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
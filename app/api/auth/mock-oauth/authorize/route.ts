@@ -0,0 +1,50 @@
+/**
+ * Mock OAuth Authorization API
+ * Stands in for a provider's consent step: issues a code for the identity
+ * chosen on /auth/oauth/mock and returns to the callback. Tests can call it
+ * directly with the same query parameters.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { issueMockAuthorizationCode, mockProvider } from "@/lib/auth/oauth/mock";
+import { getOAuthCallbackUrl } from "@/lib/auth/oauth/state";
+import { emailSchema } from "@/lib/security/validation";
+
+export async function GET(request: NextRequest) {
+  if (!mockProvider.isEnabled()) {
+    return NextResponse.json({ success: false, error: "Not found" }, { status: 404 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const redirectUri = searchParams.get("redirect_uri");
+  const state = searchParams.get("state");
+  const codeChallenge = searchParams.get("code_challenge");
+  const nonce = searchParams.get("nonce");
+
+  // Only ever return to this app's own callback
+  if (redirectUri !== getOAuthCallbackUrl(mockProvider.id) || !state || !codeChallenge || !nonce) {
+    return NextResponse.json({ success: false, error: "Invalid authorization request" }, { status: 400 });
+  }
+
+  const callbackUrl = new URL(redirectUri);
+  callbackUrl.searchParams.set("state", state);
+
+  const email = emailSchema.safeParse(searchParams.get("email") || "");
+  if (searchParams.get("deny") || !email.success) {
+    callbackUrl.searchParams.set("error", "access_denied");
+    return NextResponse.redirect(callbackUrl);
+  }
+
+  const code = await issueMockAuthorizationCode(
+    {
+      email: email.data,
+      firstName: searchParams.get("first_name") || undefined,
+      lastName: searchParams.get("last_name") || undefined,
+      emailVerified: searchParams.get("email_verified") !== "false",
+    },
+    { redirectUri, codeChallenge, nonce }
+  );
+
+  callbackUrl.searchParams.set("code", code);
+  return NextResponse.redirect(callbackUrl);
+}
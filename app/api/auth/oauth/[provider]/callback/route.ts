@@ -0,0 +1,103 @@
+/**
+ * OAuth Callback API
+ * Checks the returned state, exchanges the code and signs the user in.
+ * Accounts with two-factor authentication continue on the sign-in page.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getOAuthProvider } from "@/lib/auth/oauth/providers";
+import { getOAuthCallbackUrl, takeOAuthState } from "@/lib/auth/oauth/state";
+import { generateTwoFactorChallenge } from "@/lib/auth/jwt-core";
+import { setTwoFactorChallengeCookie } from "@/lib/auth/jwt-server";
+import { resolveOAuthUser } from "@/lib/services/oauth.service";
+import { completeLogin } from "@/lib/services/login.service";
+import { createAuditLog } from "@/lib/audit-log";
+import { getClientIP } from "@/lib/security/rate-limit";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider: providerId } = await params;
+  const searchParams = request.nextUrl.searchParams;
+
+  const signInRedirect = (query: Record<string, string>) => {
+    const url = new URL("/auth/sign-in", request.url);
+    url.search = new URLSearchParams(query).toString();
+    return NextResponse.redirect(url);
+  };
+
+  const provider = getOAuthProvider(providerId);
+  const saved = await takeOAuthState(providerId, searchParams.get("state"));
+
+  if (!provider) {
+    return signInRedirect({ error: "oauth_unavailable" });
+  }
+
+  // The user declined, or the provider refused the request
+  if (searchParams.get("error")) {
+    return signInRedirect({ error: searchParams.get("error") === "access_denied" ? "oauth_cancelled" : "oauth_failed" });
+  }
+
+  const code = searchParams.get("code");
+  if (!saved || !code) {
+    return signInRedirect({ error: "oauth_state" });
+  }
+
+  const context = {
+    ipAddress: getClientIP(request),
+    userAgent: request.headers.get("user-agent") || "unknown",
+  };
+
+  try {
+    const profile = await provider.authenticate({
+      code,
+      redirectUri: getOAuthCallbackUrl(provider.id),
+      codeVerifier: saved.verifier,
+      nonce: saved.nonce,
+    });
+
+    const result = await resolveOAuthUser(provider.id, profile, context);
+
+    if (result.status === "email_unverified") {
+      return signInRedirect({ error: "oauth_email_unverified" });
+    }
+
+    if (result.status === "inactive") {
+      await createAuditLog({
+        action: "LOGIN_FAILED",
+        resource: "User",
+        description: `${provider.name} sign-in attempt for deactivated account: ${profile.email}`,
+        metadata: { provider: provider.id },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      });
+      return signInRedirect({ error: "oauth_inactive" });
+    }
+
+    const { user } = result;
+
+    // Accounts with two-factor authentication finish signing in with a code
+    if (user.twoFactorEnabled) {
+      await setTwoFactorChallengeCookie(await generateTwoFactorChallenge(user.id));
+      return signInRedirect({ step: "two-factor", ...(saved.redirect ? { redirect: saved.redirect } : {}) });
+    }
+
+    const login = await completeLogin(user, context, { method: "oauth", provider: provider.id });
+
+    // Same destinations as the sign-in form: readers have no dashboard, and a
+    // role that requires two-factor authentication sends the user to enrol
+    const isReader = user.accountType === "reader";
+    let destination = isReader ? "/account" : "/dashboard";
+    if (login.user?.mfaSetupRequired) {
+      destination = "/dashboard/profile?setup=2fa";
+    } else if (saved.redirect && !(isReader && saved.redirect.startsWith("/dashboard"))) {
+      destination = saved.redirect;
+    }
+
+    return NextResponse.redirect(new URL(destination, request.url));
+  } catch (error) {
+    console.error(`${provider.name} sign-in error:`, error);
+    return signInRedirect({ error: "oauth_failed" });
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Start OAuth Sign-In API
+ * Saves the state, PKCE verifier and nonce, then sends the browser to the
+ * provider's authorization page
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getOAuthProvider } from "@/lib/auth/oauth/providers";
+import { createOAuthNonce, createPkcePair } from "@/lib/auth/oauth/provider";
+import { getOAuthCallbackUrl, saveOAuthState } from "@/lib/auth/oauth/state";
+import { getSafeRedirectPath } from "@/lib/security/validation";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider: providerId } = await params;
+  const provider = getOAuthProvider(providerId);
+
+  if (!provider) {
+    return NextResponse.redirect(new URL("/auth/sign-in?error=oauth_unavailable", request.url));
+  }
+
+  const { verifier, challenge } = createPkcePair();
+  const state = createOAuthNonce();
+  const nonce = createOAuthNonce();
+
+  await saveOAuthState({
+    provider: provider.id,
+    state,
+    verifier,
+    nonce,
+    redirect: getSafeRedirectPath(request.nextUrl.searchParams.get("redirect")),
+  });
+
+  return NextResponse.redirect(
+    provider.getAuthorizationUrl({
+      redirectUri: getOAuthCallbackUrl(provider.id),
+      state,
+      codeChallenge: challenge,
+      nonce,
+    })
+  );
+}
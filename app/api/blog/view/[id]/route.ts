@@ -0,0 +1,35 @@
+/**
+ * Track Blog View API
+ * Non-blocking endpoint to count blog post views
+ * Called from the browser because blog pages are statically cached; bots,
+ * prefetches and repeat views by the same reader are recorded as filtered instead
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { trackBlogView } from "@/lib/services/blog.service";
+import { assessTraffic, recordFilteredTraffic } from "@/lib/security/traffic-quality";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const assessment = await assessTraffic(request, "blog_view", id);
+    if (!assessment.valid) {
+      await recordFilteredTraffic("blog_view", id, assessment);
+      return NextResponse.json({ success: true }, { status: 200 });
+    }
+
+    // Track view asynchronously (non-blocking)
+    trackBlogView(id).catch(() => {
+      // Silently fail - don't log to avoid spam
+    });
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch {
+    // Always return success to not break the page
+    return NextResponse.json({ success: true }, { status: 200 });
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * News Scheduler Cron Endpoint
+ *
+ * GET|POST /api/cron/news-scheduler
+ *
+ * Publishes news posts whose scheduled time has passed and unpublishes
+ * posts whose expiry time has passed. Intended to be hit by a cron job
+ * (e.g. every minute).
+ *
+ * Headers:
+ * - Authorization: Bearer <CRON_SECRET> (required)
+ *
+ * Response:
+ * {
+ *   success: boolean,
+ *   data: SchedulerRunResult,
+ *   meta: {
+ *     published: number,
+ *     unpublished: number,
+ *     timestamp: string
+ *   }
+ * }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCronRequest } from "@/lib/security/cron-auth";
+import { runNewsScheduler } from "@/lib/services/news-scheduler.service";
+
+export const dynamic = "force-dynamic";
+
+async function handle(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await runNewsScheduler();
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result,
+        meta: {
+          published: result.published.length,
+          unpublished: result.unpublished.length,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      {
+        status: 200,
+        headers: {
+          "Cache-Control": "no-store",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("News scheduler cron error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to run news scheduler",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
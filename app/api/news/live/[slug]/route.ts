@@ -0,0 +1,98 @@
+/**
+ * Live Blog API Endpoint
+ *
+ * GET /api/news/live/[slug]
+ *
+ * Returns the timestamped update entries of a live blog news post, newest first.
+ * Readers poll this endpoint while coverage is live.
+ *
+ * Query Parameters:
+ * - since: ISO timestamp; only entries created or edited after it are returned
+ *
+ * Response:
+ * {
+ *   success: boolean,
+ *   data: LiveBlogUpdate[],
+ *   meta: {
+ *     newsId: string,
+ *     isLive: boolean,
+ *     endedAt: string | null,
+ *     entryIds: string[],
+ *     count: number,
+ *     timestamp: string
+ *   }
+ * }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getPublicLiveBlog } from "@/lib/services/live-blog.service";
+import { decodeRouteParam } from "@/lib/utils/route-params";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const sinceParam = request.nextUrl.searchParams.get("since");
+    const since = sinceParam ? new Date(sinceParam) : undefined;
+
+    if (since && isNaN(since.getTime())) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid since timestamp",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Take the timestamp before querying so nothing written meanwhile is skipped
+    const timestamp = new Date().toISOString();
+    const decodedSlug = decodeRouteParam(slug);
+    const feed = decodedSlug ? await getPublicLiveBlog(decodedSlug, since) : null;
+
+    if (!feed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Live blog not found",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: feed.entries,
+        meta: {
+          newsId: feed.newsId,
+          isLive: feed.isLive,
+          endedAt: feed.endedAt,
+          entryIds: feed.entryIds,
+          count: feed.entries.length,
+          timestamp,
+        },
+      },
+      {
+        status: 200,
+        headers: {
+          "Cache-Control": "public, s-maxage=10, stale-while-revalidate=20",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Live blog API error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch live blog",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
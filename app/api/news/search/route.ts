@@ -21,6 +21,7 @@
  * - page: Page number (default: 1)
  * - limit: Results per page (default: 10, max: 50)
  * - includeContent: Include full content (default: false)
+ * - quick: Autocomplete mode; returns matching titles plus popular queries in meta.suggestions
  * 
  * Response:
  * {
@@ -32,8 +33,13 @@
  * }
  */
 
-import { NextRequest, NextResponse } from "next/server";
-import { searchNews, quickSearch } from "@/lib/services/news-search.service";
+import { NextRequest, NextResponse, after } from "next/server";
+import {
+  searchNews,
+  quickSearch,
+  getCachedPopularSearches,
+  logSearchQuery,
+} from "@/lib/services/news-search.service";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 60;
@@ -62,7 +68,10 @@ export async function GET(request: NextRequest) {
         ? Math.min(Math.max(parseInt(limitParam, 10), 1), 10)
         : 5;
 
-      const results = await quickSearch(query, limit);
+      const [results, suggestions] = await Promise.all([
+        quickSearch(query, limit),
+        getCachedPopularSearches(query, 3),
+      ]);
 
       return NextResponse.json(
         {
@@ -70,6 +79,7 @@ export async function GET(request: NextRequest) {
           data: results,
           meta: {
             mode: "quick",
+            suggestions,
             timestamp: new Date().toISOString(),
           },
         },
@@ -119,6 +129,18 @@ export async function GET(request: NextRequest) {
       includeContent,
     });
 
+    // Log first-page searches only, so paging through results counts once
+    if (page === 1) {
+      after(() =>
+        logSearchQuery({
+          query,
+          resultCount: result.pagination.total,
+          fuzzy: result.meta.fuzzy,
+          didYouMean: result.meta.didYouMean,
+        })
+      );
+    }
+
     return NextResponse.json(
       {
         success: true,
@@ -0,0 +1,70 @@
+/**
+ * Search Suggestions API Endpoint
+ * 
+ * GET /api/news/search/suggestions
+ * 
+ * Returns the most searched queries of the last week that found results,
+ * for the search bar dropdown before the reader starts typing
+ * 
+ * Query Parameters:
+ * - q: Only suggestions starting with this text (optional)
+ * - limit: number of results (default: 5, max: 10)
+ * 
+ * Response:
+ * {
+ *   success: boolean,
+ *   data: string[],
+ *   meta: {
+ *     count: number,
+ *     timestamp: string
+ *   }
+ * }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCachedPopularSearches } from "@/lib/services/news-search.service";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 300;
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const query = searchParams.get("q")?.trim() || "";
+
+    const limitParam = searchParams.get("limit");
+    const limit = limitParam
+      ? Math.min(Math.max(parseInt(limitParam, 10), 1), 10)
+      : 5;
+
+    const suggestions = await getCachedPopularSearches(query, limit);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: suggestions,
+        meta: {
+          count: suggestions.length,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      {
+        status: 200,
+        headers: {
+          "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Search suggestions API error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch search suggestions",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * News Stream API Endpoint (Server-Sent Events)
+ *
+ * GET /api/news/stream
+ *
+ * Keeps the connection open and pushes an event whenever a post is published
+ * or taken down, a live post is marked breaking, or a live blog entry is added.
+ *
+ * Query Parameters:
+ * - newsId: only receive live blog entries for this post (default: all events)
+ *
+ * Events (`event:` field, JSON `data:`):
+ * - news.published: { type, news: { id, title, slug, isBreaking, publishedAt }, at }
+ * - news.breaking:  { type, news, at }
+ * - news.unpublished: { type, news, at } (unpublished, archived or sent back to draft)
+ * - live.entry:     { type, news, entry: { id, title, createdAt }, at }
+ *
+ * A comment line is sent every 25 seconds so proxies keep the connection open.
+ */
+
+import { NextRequest } from "next/server";
+import { subscribeToNewsEvents } from "@/lib/services/news-events.service";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+export async function GET(request: NextRequest) {
+  const newsId = request.nextUrl.searchParams.get("newsId");
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed by the client
+          cleanup();
+        }
+      };
+
+      // Ask the browser to wait a few seconds before reconnecting
+      send("retry: 5000\n\n");
+
+      const unsubscribe = subscribeToNewsEvents((event) => {
+        if (newsId && (event.type !== "live.entry" || event.news.id !== newsId)) return;
+        send(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      };
+
+      request.signal.addEventListener("abort", () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Disable response buffering in nginx
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
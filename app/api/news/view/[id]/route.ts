@@ -0,0 +1,48 @@
+/**
+ * Track News View API
+ * Non-blocking endpoint to count news article views
+ * Called from the browser because article pages are cached; bots, prefetches
+ * and repeat views by the same reader are recorded as filtered instead
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { trackNewsView } from "@/lib/actions/news";
+import { assessTraffic, recordFilteredTraffic } from "@/lib/security/traffic-quality";
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { recordReading } from "@/lib/services/reading-history.service";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const assessment = await assessTraffic(request, "news_view", id);
+
+    // Signed-in readers keep a reading history; repeat views still move the article up
+    if (assessment.valid || assessment.reason === "duplicate") {
+      const currentUser = await getCurrentUser();
+      if (currentUser) {
+        recordReading(currentUser.userId, id).catch(() => {
+          // Silently fail
+        });
+      }
+    }
+
+    if (!assessment.valid) {
+      await recordFilteredTraffic("news_view", id, assessment);
+      return NextResponse.json({ success: true }, { status: 200 });
+    }
+
+    // Track view asynchronously (non-blocking)
+    trackNewsView(id, assessment.ipAddress, assessment.userAgent || undefined).catch(() => {
+      // Silently fail - don't log to avoid spam
+    });
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch {
+    // Always return success to not break the page
+    return NextResponse.json({ success: true }, { status: 200 });
+  }
+}
@@ -0,0 +1,14 @@
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { ForgotPasswordView } from '@/features/auth/components/forgot-password-view';
+
+export default async function Page() {
+  const user = await getCurrentUser();
+
+  // Signed-in users change their password from their profile
+  if (user) {
+    redirect(user.accountType === "reader" ? '/account' : '/dashboard/profile');
+  }
+
+  return <ForgotPasswordView />;
+}
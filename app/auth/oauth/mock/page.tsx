@@ -0,0 +1,28 @@
+import { notFound } from 'next/navigation';
+import { mockProvider } from "@/lib/auth/oauth/mock";
+import { MockOAuthView } from '@/features/auth/components/mock-oauth-view';
+
+export default async function Page({
+  searchParams,
+}: {
+  searchParams: Promise<{ redirect_uri?: string; state?: string; code_challenge?: string; nonce?: string }>;
+}) {
+  if (!mockProvider.isEnabled()) {
+    notFound();
+  }
+
+  const params = await searchParams;
+
+  if (!params.redirect_uri || !params.state || !params.code_challenge || !params.nonce) {
+    notFound();
+  }
+
+  return (
+    <MockOAuthView
+      redirectUri={params.redirect_uri}
+      state={params.state}
+      codeChallenge={params.code_challenge}
+      nonce={params.nonce}
+    />
+  );
+}
@@ -0,0 +1,15 @@
+import { verifyPasswordResetToken } from "@/lib/services/account-email.service";
+import { ResetPasswordView } from '@/features/auth/components/reset-password-view';
+
+export default async function Page({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+
+  // Check the link up front so an expired one doesn't ask for a password first
+  const isValid = token ? !!(await verifyPasswordResetToken(token)) : false;
+
+  return <ResetPasswordView token={isValid ? token! : null} />;
+}
@@ -1,14 +1,42 @@
 import { redirect } from 'next/navigation';
-import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { getCurrentUser, getTwoFactorChallengeUserId } from "@/lib/auth/jwt-server";
+import { getEnabledOAuthProviders } from "@/lib/auth/oauth/providers";
+import { getSafeRedirectPath } from "@/lib/security/validation";
 import { SignInViewPage } from '@/features/auth/components/sign-in-view';
 
-export default async function Page() {
+// Reasons a social sign-in came back to this page
+const OAUTH_ERRORS: Record<string, string> = {
+  oauth_unavailable: "That sign-in option isn't available.",
+  oauth_cancelled: "Sign-in was cancelled.",
+  oauth_state: "Your sign-in expired or was started in another browser. Please try again.",
+  oauth_email_unverified: "Your email address isn't verified with that provider, so it can't be used to sign in.",
+  oauth_inactive: "Your account has been deactivated. Please contact administrator.",
+  oauth_failed: "Sign-in failed. Please try again.",
+};
+
+export default async function Page({
+  searchParams,
+}: {
+  searchParams: Promise<{ redirect?: string; error?: string; step?: string }>;
+}) {
   const user = await getCurrentUser();
 
-  // If user is already logged in, redirect to dashboard
+  // If user is already logged in, redirect to dashboard (readers to their account)
   if (user) {
-    redirect('/dashboard');
+    redirect(user.accountType === "reader" ? '/account' : '/dashboard');
   }
 
-  return <SignInViewPage />;
-}
\ No newline at end of file
+  const params = await searchParams;
+
+  // A social sign-in for an account with two-factor authentication continues here
+  const twoFactorPending = params.step === "two-factor" && !!(await getTwoFactorChallengeUserId());
+
+  return (
+    <SignInViewPage
+      redirectTo={getSafeRedirectPath(params.redirect)}
+      error={params.error ? OAUTH_ERRORS[params.error] || OAUTH_ERRORS.oauth_failed : null}
+      twoFactorPending={twoFactorPending}
+      oauthProviders={getEnabledOAuthProviders()}
+    />
+  );
+}
@@ -1,5 +1,6 @@
+import { getEnabledOAuthProviders } from "@/lib/auth/oauth/providers";
 import { SignUpViewPage } from '@/features/auth/components/sign-up-view';
 
 export default function Page() {
-  return <SignUpViewPage />;
-}
\ No newline at end of file
+  return <SignUpViewPage oauthProviders={getEnabledOAuthProviders()} />;
+}
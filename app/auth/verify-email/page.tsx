@@ -0,0 +1,46 @@
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { getEmailVerificationStatus, verifyEmail } from "@/lib/actions/email-verification";
+import { VerifyEmailView } from '@/features/auth/components/verify-email-view';
+
+export default async function Page({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  const user = await getCurrentUser();
+  const continueHref = !user ? '/auth/sign-in' : user.accountType === "reader" ? '/account' : '/dashboard';
+
+  // Opened from the emailed link
+  if (token) {
+    const result = await verifyEmail(token);
+    return (
+      <VerifyEmailView
+        status={!result.success ? "invalid" : result.alreadyVerified ? "already_verified" : "verified"}
+        email={result.email}
+        signedIn={!!user}
+        continueHref={continueHref}
+      />
+    );
+  }
+
+  // Sent here by the dashboard while the address is unconfirmed
+  if (!user) {
+    redirect('/auth/sign-in?redirect=/auth/verify-email');
+  }
+
+  const status = await getEmailVerificationStatus();
+  if (status.success && status.isEmailVerified) {
+    redirect(continueHref);
+  }
+
+  return (
+    <VerifyEmailView
+      status="pending"
+      email={status.email}
+      signedIn
+      continueHref={continueHref}
+    />
+  );
+}
@@ -0,0 +1,71 @@
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { checkPermission } from "@/lib/auth/permissions";
+import { getAdCampaigns } from "@/lib/actions/ad-campaigns";
+import { redirect } from "next/navigation";
+import { AdCampaignsTable } from "@/components/advertisements/ad-campaigns-table";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft } from "lucide-react";
+import Link from "next/link";
+import PageContainer from "@/components/layout/page-container";
+
+/**
+ * Ad Campaigns Management Page
+ */
+export default async function AdCampaignsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ page?: string; search?: string }>;
+}) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  const hasCreateAccess = await checkPermission("advertisement.create");
+  if (!hasCreateAccess) {
+    redirect("/dashboard");
+  }
+
+  const params = await searchParams;
+  const page = parseInt(params.page || "1");
+  const search = params.search;
+
+  const result = await getAdCampaigns(page, 10, search);
+
+  if (!result.success || !result.campaigns) {
+    return (
+      <div className="p-6">
+        <p className="text-destructive">{result.error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <PageContainer>
+      <div className="flex flex-1 flex-col space-y-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Ad Campaigns</h1>
+            <p className="text-muted-foreground mt-2">
+              Group advertisements under daily and total impression budgets
+            </p>
+          </div>
+          <Link href="/dashboard/advertisements">
+            <Button variant="outline">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Advertisements
+            </Button>
+          </Link>
+        </div>
+
+        <AdCampaignsTable
+          campaigns={result.campaigns}
+          total={result.total ?? 0}
+          page={result.page ?? page}
+          totalPages={result.totalPages ?? 0}
+          search={search}
+        />
+      </div>
+    </PageContainer>
+  );
+}
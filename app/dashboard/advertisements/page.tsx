@@ -4,7 +4,7 @@ import { getUserAdvertisements } from "@/lib/actions/advertisements";
 import { redirect } from "next/navigation";
 import { AdvertisementsTable } from "@/components/advertisements/advertisements-table";
 import { Button } from "@/components/ui/button";
-import { Plus } from "lucide-react";
+import { ClipboardCheck, LayoutGrid, Plus, Target } from "lucide-react";
 import Link from "next/link";
 import PageContainer from "@/components/layout/page-container";
 
@@ -14,7 +14,7 @@ import PageContainer from "@/components/layout/page-container";
 export default async function AdvertisementsPage({
   searchParams,
 }: {
-  searchParams: Promise<{ page?: string; search?: string; zone?: string }>;
+  searchParams: Promise<{ page?: string; search?: string; zone?: string; review?: string }>;
 }) {
   const user = await getCurrentUser();
   if (!user) {
@@ -34,6 +34,12 @@ export default async function AdvertisementsPage({
   if (params.zone) {
     filters.zone = params.zone;
   }
+  if (params.review) {
+    filters.reviewStatus = params.review;
+  }
+
+  const canReview = await checkPermission("advertisement.approve");
+  const canManageZones = await checkPermission("advertisement.zone");
 
   const result = await getUserAdvertisements(page, 10, search, filters);
 
@@ -55,12 +61,36 @@ export default async function AdvertisementsPage({
               Manage your advertisements and sponsors
             </p>
           </div>
-          <Link href="/dashboard/advertisements/new">
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Create Advertisement
-            </Button>
-          </Link>
+          <div className="flex gap-2">
+            {canReview && (
+              <Link href={params.review ? "/dashboard/advertisements" : "/dashboard/advertisements?review=pending"}>
+                <Button variant={params.review ? "secondary" : "outline"}>
+                  <ClipboardCheck className="h-4 w-4 mr-2" />
+                  {params.review ? "All Advertisements" : `Review Queue (${result.pendingReviewCount ?? 0})`}
+                </Button>
+              </Link>
+            )}
+            {canManageZones && (
+              <Link href="/dashboard/advertisements/zones">
+                <Button variant="outline">
+                  <LayoutGrid className="h-4 w-4 mr-2" />
+                  Zones
+                </Button>
+              </Link>
+            )}
+            <Link href="/dashboard/advertisements/campaigns">
+              <Button variant="outline">
+                <Target className="h-4 w-4 mr-2" />
+                Campaigns
+              </Button>
+            </Link>
+            <Link href="/dashboard/advertisements/new">
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Create Advertisement
+              </Button>
+            </Link>
+          </div>
         </div>
 
         <AdvertisementsTable
@@ -69,6 +99,8 @@ export default async function AdvertisementsPage({
           page={result.page}
           totalPages={result.totalPages}
           search={search}
+          reviewStatus={params.review}
+          canReview={canReview}
         />
       </div>
     </PageContainer>
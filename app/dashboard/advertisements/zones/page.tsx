@@ -0,0 +1,57 @@
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { checkPermission } from "@/lib/auth/permissions";
+import { getAdZones } from "@/lib/actions/ad-zones";
+import { redirect } from "next/navigation";
+import { AdZonesTable } from "@/components/advertisements/ad-zones-table";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft } from "lucide-react";
+import Link from "next/link";
+import PageContainer from "@/components/layout/page-container";
+
+/**
+ * Ad Zones Management Page
+ */
+export default async function AdZonesPage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  const hasAccess = await checkPermission("advertisement.zone");
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+
+  const result = await getAdZones();
+
+  if (!result.success || !result.zones) {
+    return (
+      <div className="p-6">
+        <p className="text-destructive">{result.error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <PageContainer>
+      <div className="flex flex-1 flex-col space-y-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Ad Zones</h1>
+            <p className="text-muted-foreground mt-2">
+              Define where ads appear, the creative sizes and formats each zone accepts, and its fallback creative
+            </p>
+          </div>
+          <Link href="/dashboard/advertisements">
+            <Button variant="outline">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Advertisements
+            </Button>
+          </Link>
+        </div>
+
+        <AdZonesTable zones={result.zones} />
+      </div>
+    </PageContainer>
+  );
+}
@@ -0,0 +1,48 @@
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { checkPermission } from "@/lib/auth/permissions";
+import { getAdvertiserCampaigns } from "@/lib/actions/advertiser-portal";
+import { getAdZoneOptions } from "@/lib/actions/ad-zones";
+import { redirect } from "next/navigation";
+import { SubmitCreativeForm } from "@/components/advertiser/submit-creative-form";
+import PageContainer from "@/components/layout/page-container";
+
+/**
+ * Submit Creative Page
+ */
+export default async function SubmitCreativePage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  const hasAccess = await checkPermission("advertiser.portal");
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+
+  const result = await getAdvertiserCampaigns();
+  if (!result.success || !result.campaigns || result.campaigns.length === 0) {
+    redirect("/dashboard/advertiser");
+  }
+
+  const zoneResult = await getAdZoneOptions();
+  const zones = (zoneResult.zones || []).filter((zone) => zone.isEnabled);
+
+  return (
+    <PageContainer>
+      <div className="flex flex-1 flex-col space-y-2">
+        <div>
+          <h1 className="text-3xl font-bold">Submit Creative</h1>
+          <p className="text-muted-foreground mt-2">
+            Send a new creative for one of your campaigns. It is served once approved.
+          </p>
+        </div>
+
+        <SubmitCreativeForm
+          campaigns={result.campaigns.map((campaign) => ({ id: campaign.id, name: campaign.name }))}
+          zones={zones}
+        />
+      </div>
+    </PageContainer>
+  );
+}
@@ -0,0 +1,61 @@
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { checkPermission } from "@/lib/auth/permissions";
+import {
+  getAdvertiserCampaigns,
+  getAdvertiserCreatives,
+  getAdvertiserReport,
+} from "@/lib/actions/advertiser-portal";
+import { normalizeAdReportRange } from "@/lib/utils/ad-reports";
+import { redirect } from "next/navigation";
+import { AdvertiserPortalClient } from "@/components/advertiser/advertiser-portal-client";
+import PageContainer from "@/components/layout/page-container";
+
+/**
+ * Advertiser Portal Page
+ */
+export default async function AdvertiserPortalPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ campaign?: string; days?: string }>;
+}) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  const hasAccess = await checkPermission("advertiser.portal");
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+
+  const params = await searchParams;
+  const days = normalizeAdReportRange(params.days);
+
+  const [campaignsResult, creativesResult, reportResult] = await Promise.all([
+    getAdvertiserCampaigns(),
+    getAdvertiserCreatives(),
+    getAdvertiserReport(params.campaign, days),
+  ]);
+
+  if (!campaignsResult.success || !creativesResult.success || !reportResult.success || !reportResult.report) {
+    return (
+      <PageContainer>
+        <div className="text-center py-12">
+          <p className="text-destructive">
+            {reportResult.error || campaignsResult.error || creativesResult.error || "Failed to load reports"}
+          </p>
+        </div>
+      </PageContainer>
+    );
+  }
+
+  return (
+    <AdvertiserPortalClient
+      campaigns={campaignsResult.campaigns || []}
+      creatives={creativesResult.creatives || []}
+      report={reportResult.report}
+      campaignId={params.campaign}
+      days={days}
+    />
+  );
+}
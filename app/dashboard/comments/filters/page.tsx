@@ -0,0 +1,63 @@
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { checkPermission } from "@/lib/auth/permissions";
+import { getCommentModerationSettings } from "@/lib/actions/comment-moderation";
+import { redirect } from "next/navigation";
+import { CommentFilterSettings } from "@/components/comments/comment-filter-settings";
+import { ModerationWordlistTable } from "@/components/comments/moderation-wordlist-table";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft } from "lucide-react";
+import Link from "next/link";
+import PageContainer from "@/components/layout/page-container";
+
+/**
+ * Comment Filters Page
+ */
+export default async function CommentFiltersPage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  const hasAccess = await checkPermission("comment.settings");
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+
+  const result = await getCommentModerationSettings();
+
+  if (!result.success || !result.settings || !result.words) {
+    return (
+      <div className="p-6">
+        <p className="text-destructive">{result.error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <PageContainer>
+      <div className="flex flex-1 flex-col space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Comment Filters</h1>
+            <p className="text-muted-foreground mt-2">
+              Wordlists, spam heuristics and the scores at which new comments are held or rejected
+            </p>
+          </div>
+          <Link href="/dashboard/comments">
+            <Button variant="outline">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Comments
+            </Button>
+          </Link>
+        </div>
+
+        <CommentFilterSettings settings={result.settings} />
+
+        <div className="space-y-2">
+          <h2 className="text-xl font-semibold">Wordlists</h2>
+          <ModerationWordlistTable words={result.words} />
+        </div>
+      </div>
+    </PageContainer>
+  );
+}
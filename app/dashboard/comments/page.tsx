@@ -0,0 +1,77 @@
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { checkPermission } from "@/lib/auth/permissions";
+import { getModerationQueue } from "@/lib/actions/comments";
+import { redirect } from "next/navigation";
+import { CommentModerationQueue } from "@/components/comments/comment-moderation-queue";
+import { Button } from "@/components/ui/button";
+import { SlidersHorizontal } from "lucide-react";
+import Link from "next/link";
+import PageContainer from "@/components/layout/page-container";
+
+/**
+ * Comment Moderation Page
+ */
+export default async function CommentsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ page?: string; filter?: string; search?: string; newsId?: string }>;
+}) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  const hasAccess = await checkPermission("comment.moderate");
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+
+  const canManageFilters = await checkPermission("comment.settings");
+
+  const params = await searchParams;
+  const page = parseInt(params.page || "1");
+
+  const result = await getModerationQueue(page, 20, params.filter, params.search, params.newsId);
+
+  if (!result.success || !result.comments || !result.counts || !result.filter) {
+    return (
+      <div className="p-6">
+        <p className="text-destructive">{result.error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <PageContainer>
+      <div className="flex flex-1 flex-col space-y-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Comments</h1>
+            <p className="text-muted-foreground mt-2">
+              Review held, flagged and reported comments and decide who may comment on each article
+            </p>
+          </div>
+          {canManageFilters && (
+            <Link href="/dashboard/comments/filters">
+              <Button variant="outline">
+                <SlidersHorizontal className="h-4 w-4 mr-2" />
+                Filters
+              </Button>
+            </Link>
+          )}
+        </div>
+
+        <CommentModerationQueue
+          comments={result.comments}
+          counts={result.counts}
+          filter={result.filter}
+          news={result.news ?? null}
+          total={result.total ?? 0}
+          page={result.page ?? page}
+          totalPages={result.totalPages ?? 0}
+          search={params.search}
+        />
+      </div>
+    </PageContainer>
+  );
+}
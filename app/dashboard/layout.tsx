@@ -26,6 +26,11 @@ export default async function DashboardLayout({
     redirect("/auth/sign-in");
   }
 
+  // Reader accounts have no dashboard
+  if (user.accountType === "reader") {
+    redirect("/account");
+  }
+
   // Sidebar state cookie
   const cookieStore = await cookies();
   const defaultOpen = cookieStore.get("sidebar_state")?.value === "true";
@@ -4,6 +4,9 @@ import { getAuditLogs } from "@/lib/audit-log";
 import { redirect } from "next/navigation";
 import { LogsTable } from "@/components/logs/logs-table";
 import PageContainer from "@/components/layout/page-container";
+import { Button } from "@/components/ui/button";
+import { ShieldAlert } from "lucide-react";
+import Link from "next/link";
 
 /**
  * Audit Logs Page
@@ -37,11 +40,19 @@ export default async function LogsPage({
   return (
     <PageContainer>
       <div className='flex flex-1 flex-col space-y-2'>
-      <div>
-        <h1 className="text-3xl font-bold">Audit Logs</h1>
-        <p className="text-muted-foreground mt-2">
-          View system activity and user actions
-        </p>
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Audit Logs</h1>
+          <p className="text-muted-foreground mt-2">
+            View system activity and user actions
+          </p>
+        </div>
+        <Link href="/dashboard/logs/security">
+          <Button variant="outline">
+            <ShieldAlert className="h-4 w-4 mr-2" />
+            Security Events
+          </Button>
+        </Link>
       </div>
 
       <LogsTable
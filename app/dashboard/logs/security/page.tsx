@@ -0,0 +1,82 @@
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { checkPermission } from "@/lib/auth/permissions";
+import { getSecurityEvents } from "@/lib/actions/security-events";
+import { redirect } from "next/navigation";
+import { SecurityEvents } from "@/components/logs/security-events";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft } from "lucide-react";
+import Link from "next/link";
+import PageContainer from "@/components/layout/page-container";
+
+/**
+ * Security Events Page
+ * Failed sign-ins, rate limiting and account lockouts
+ * Requires audit.read permission; unlocking also needs user.update
+ */
+export default async function SecurityEventsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ page?: string; range?: string; action?: string }>;
+}) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  const hasAccess = await checkPermission("audit.read");
+  if (!hasAccess) {
+    redirect("/dashboard");
+  }
+
+  const canUnlock = await checkPermission("user.update");
+
+  const params = await searchParams;
+  const result = await getSecurityEvents({
+    page: parseInt(params.page || "1"),
+    range: params.range,
+    action: params.action,
+  });
+
+  if (!result.success || !result.events) {
+    return (
+      <div className="p-6">
+        <p className="text-destructive">{result.error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <PageContainer>
+      <div className="flex flex-1 flex-col space-y-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Security Events</h1>
+            <p className="text-muted-foreground mt-2">
+              Failed sign-ins, rate limiting and account lockouts
+            </p>
+          </div>
+          <Link href="/dashboard/logs">
+            <Button variant="outline">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Audit Logs
+            </Button>
+          </Link>
+        </div>
+
+        <SecurityEvents
+          range={result.range ?? "24h"}
+          action={result.action ?? null}
+          counts={result.counts ?? {}}
+          topIps={result.topIps ?? []}
+          topAccounts={result.topAccounts ?? []}
+          lockedAccounts={result.lockedAccounts ?? []}
+          events={result.events}
+          total={result.total ?? 0}
+          page={result.page ?? 1}
+          totalPages={result.totalPages ?? 0}
+          canUnlock={canUnlock}
+        />
+      </div>
+    </PageContainer>
+  );
+}
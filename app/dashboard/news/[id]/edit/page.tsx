@@ -53,7 +53,11 @@ import { getCurrentUser } from "@/lib/auth/jwt-server";
 import { checkPermission } from "@/lib/auth/permissions";
 import { getNewsById } from "@/lib/actions/news";
 import { redirect } from "next/navigation";
+import { getNewsRevisions } from "@/lib/actions/news-revisions";
+import { getLiveBlogEntries } from "@/lib/actions/live-blog";
 import { EditNewsForm } from "@/components/news/edit-news-form";
+import { NewsRevisionsPanel } from "@/components/news/news-revisions-panel";
+import { LiveBlogPanel } from "@/components/news/live-blog-panel";
 import PageContainer from "@/components/layout/page-container";
 import { notFound } from "next/navigation";
 
@@ -76,7 +80,11 @@ export default async function EditNewsPage({
   }
 
   const { id } = await params;
-  const result = await getNewsById(id);
+  const [result, revisionsResult, liveBlogResult] = await Promise.all([
+    getNewsById(id),
+    getNewsRevisions(id),
+    getLiveBlogEntries(id),
+  ]);
 
   if (!result.success || !result.news) {
     notFound();
@@ -89,7 +97,19 @@ export default async function EditNewsPage({
           <h1 className="text-2xl font-bold">Edit News Post</h1>
         </div>
 
-        <EditNewsForm news={result.news} />
+        {/* Keyed on updatedAt so a restored revision remounts the form with fresh values */}
+        <EditNewsForm key={result.news.updatedAt.toISOString()} news={result.news} />
+
+        {result.news.isLiveBlog && (
+          <LiveBlogPanel
+            newsId={result.news.id}
+            slug={result.news.slug}
+            endedAt={result.news.liveBlogEndedAt}
+            entries={liveBlogResult.entries}
+          />
+        )}
+
+        <NewsRevisionsPanel revisions={revisionsResult.revisions || []} />
       </div>
     </PageContainer>
   );
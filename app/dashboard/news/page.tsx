@@ -1,21 +1,25 @@
 import { getCurrentUser } from "@/lib/auth/jwt-server";
-import { checkPermission } from "@/lib/auth/permissions";
+import { checkPermission, getUserPermissions } from "@/lib/auth/permissions";
 import { getUserNews } from "@/lib/actions/news";
+import { getNewsStatusCounts } from "@/lib/actions/news-workflow";
+import { isNewsStatus, NEWS_STATUSES, NEWS_STATUS_LABELS } from "@/lib/workflow/news-workflow";
 import { redirect } from "next/navigation";
 import { NewsTable } from "@/components/news/news-table";
 import { Button } from "@/components/ui/button";
 import { Plus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
 import Link from "next/link";
 import PageContainer from "@/components/layout/page-container";
 
 /**
  * News Management Page
  * Shows user's own news posts (or all posts if has news.read.all permission)
+ * Status tabs double as the editorial review queue
  */
 export default async function NewsPage({
   searchParams,
 }: {
-  searchParams: Promise<{ page?: string; search?: string }>;
+  searchParams: Promise<{ page?: string; search?: string; status?: string }>;
 }) {
   const user = await getCurrentUser();
   if (!user) {
@@ -31,8 +35,14 @@ export default async function NewsPage({
   const params = await searchParams;
   const page = parseInt(params.page || "1");
   const search = params.search;
+  const status = isNewsStatus(params.status) ? params.status : undefined;
 
-  const result = await getUserNews(page, 10, search);
+  const [result, countsResult, permissions] = await Promise.all([
+    getUserNews(page, 10, search, { status }),
+    getNewsStatusCounts(),
+    getUserPermissions(user.userId),
+  ]);
+  const counts = countsResult.success ? countsResult.counts : undefined;
 
   if (!result.success) {
     return (
@@ -60,12 +70,35 @@ export default async function NewsPage({
           </Link>
         </div>
 
+        <div className="flex flex-wrap gap-2">
+          <Link href="/dashboard/news">
+            <Button variant={!status ? "default" : "outline"} size="sm">
+              All
+            </Button>
+          </Link>
+          {NEWS_STATUSES.map((s) => (
+            <Link key={s} href={`/dashboard/news?status=${s}`}>
+              <Button variant={status === s ? "default" : "outline"} size="sm">
+                {NEWS_STATUS_LABELS[s]}
+                {counts && counts[s] > 0 && (
+                  <Badge variant="secondary" className="ml-2">
+                    {counts[s]}
+                  </Badge>
+                )}
+              </Button>
+            </Link>
+          ))}
+        </div>
+
         <NewsTable
-          news={result.news}
-          total={result.total}
-          page={result.page}
-          totalPages={result.totalPages}
+          news={result.news ?? []}
+          total={result.total ?? 0}
+          page={result.page ?? page}
+          totalPages={result.totalPages ?? 0}
           search={search}
+          status={status}
+          currentUserId={user.userId}
+          permissions={permissions}
         />
       </div>
     </PageContainer>
@@ -1,12 +1,20 @@
 import { getCurrentUser } from "@/lib/auth/jwt-server";
 import { redirect } from "next/navigation";
 import { getProfile } from "@/lib/actions/profile";
+import { getMySessions } from "@/lib/actions/sessions";
+import { getTwoFactorStatus } from "@/lib/actions/two-factor";
 import { ProfileForm } from "@/components/profile/profile-form";
+import { AuthorProfileForm } from "@/components/profile/author-profile-form";
+import { ActiveSessions } from "@/components/profile/active-sessions";
+import { TwoFactorSettings } from "@/components/profile/two-factor-settings";
 import PageContainer from "@/components/layout/page-container";
 
 /**
  * Profile Page
- * Allows users to update their profile and change password
+ * Allows users to update their profile, public author profile and password,
+ * set up two-factor authentication and sign out their other devices.
+ * Users whose role requires two-factor authentication are sent here until
+ * they set it up.
  */
 export default async function ProfilePage() {
   const user = await getCurrentUser();
@@ -14,7 +22,11 @@ export default async function ProfilePage() {
     redirect("/login");
   }
 
-  const profileResult = await getProfile();
+  const [profileResult, sessionsResult, twoFactorResult] = await Promise.all([
+    getProfile(),
+    getMySessions(),
+    getTwoFactorStatus(),
+  ]);
 
   if (!profileResult.success || !profileResult.user) {
     return (
@@ -34,7 +46,15 @@ export default async function ProfilePage() {
         </p>
       </div>
 
+      {twoFactorResult.success && twoFactorResult.status && <TwoFactorSettings status={twoFactorResult.status} />}
+
       <ProfileForm user={profileResult.user} />
+
+      <AuthorProfileForm user={profileResult.user} />
+
+      {sessionsResult.success && sessionsResult.sessions && (
+        <ActiveSessions sessions={sessionsResult.sessions} />
+      )}
     </div>
     </PageContainer>
   );
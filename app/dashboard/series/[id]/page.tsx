@@ -0,0 +1,60 @@
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { checkPermission } from "@/lib/auth/permissions";
+import { getSeriesById } from "@/lib/actions/series";
+import { notFound, redirect } from "next/navigation";
+import { SeriesForm } from "@/components/series/series-form";
+import { SeriesItemsEditor } from "@/components/series/series-items-editor";
+import PageContainer from "@/components/layout/page-container";
+
+/**
+ * Edit Series Page
+ * Series details on the left, ordered post curation on the right
+ */
+export default async function EditSeriesPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  const hasUpdateAccess = await checkPermission("series.update");
+  if (!hasUpdateAccess) {
+    redirect("/dashboard/series");
+  }
+
+  const { id } = await params;
+  const result = await getSeriesById(id);
+
+  if (!result.success || !result.series) {
+    notFound();
+  }
+
+  const { series } = result;
+
+  return (
+    <PageContainer>
+      <div className="flex flex-1 flex-col space-y-4">
+        <div>
+          <h1 className="text-2xl font-bold">Edit Series</h1>
+          <p className="text-muted-foreground mt-2">{series.title}</p>
+        </div>
+
+        <div className="grid gap-6 xl:grid-cols-5">
+          <div className="xl:col-span-2">
+            <SeriesForm series={series} />
+          </div>
+          <div className="xl:col-span-3">
+            <SeriesItemsEditor
+              key={series.updatedAt.toISOString()}
+              seriesId={series.id}
+              items={series.items.map((item) => item.news)}
+            />
+          </div>
+        </div>
+      </div>
+    </PageContainer>
+  );
+}
@@ -0,0 +1,32 @@
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { checkPermission } from "@/lib/auth/permissions";
+import { redirect } from "next/navigation";
+import { SeriesForm } from "@/components/series/series-form";
+import PageContainer from "@/components/layout/page-container";
+
+/**
+ * Create Series Page
+ */
+export default async function CreateSeriesPage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  const hasCreateAccess = await checkPermission("series.create");
+  if (!hasCreateAccess) {
+    redirect("/dashboard/series");
+  }
+
+  return (
+    <PageContainer>
+      <div className="flex flex-1 flex-col space-y-4 max-w-3xl">
+        <div>
+          <h1 className="text-2xl font-bold">Create Series</h1>
+        </div>
+
+        <SeriesForm />
+      </div>
+    </PageContainer>
+  );
+}
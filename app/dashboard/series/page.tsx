@@ -0,0 +1,78 @@
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { checkPermission, getUserPermissions } from "@/lib/auth/permissions";
+import { getSeriesList } from "@/lib/actions/series";
+import { redirect } from "next/navigation";
+import { SeriesTable } from "@/components/series/series-table";
+import { Button } from "@/components/ui/button";
+import { Plus } from "lucide-react";
+import Link from "next/link";
+import PageContainer from "@/components/layout/page-container";
+
+/**
+ * Series Management Page
+ * Series group the posts of an ongoing story (elections, court cases) into an ordered timeline
+ */
+export default async function SeriesPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ page?: string; search?: string }>;
+}) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  const hasReadAccess = await checkPermission("series.read");
+  if (!hasReadAccess) {
+    redirect("/dashboard");
+  }
+
+  const params = await searchParams;
+  const page = parseInt(params.page || "1");
+  const search = params.search;
+
+  const [result, permissions] = await Promise.all([
+    getSeriesList({ page, limit: 20, search }),
+    getUserPermissions(user.userId),
+  ]);
+
+  if (!result.success) {
+    return (
+      <div className="p-6">
+        <p className="text-destructive">{result.error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <PageContainer>
+      <div className="flex flex-1 flex-col space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Series</h1>
+            <p className="text-muted-foreground mt-2">
+              Curate story timelines that link related news posts in reading order
+            </p>
+          </div>
+          {permissions.includes("series.create") && (
+            <Link href="/dashboard/series/new">
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Create Series
+              </Button>
+            </Link>
+          )}
+        </div>
+
+        <SeriesTable
+          series={result.series || []}
+          total={result.total || 0}
+          page={result.page || 1}
+          totalPages={result.totalPages || 1}
+          search={search}
+          permissions={permissions}
+        />
+      </div>
+    </PageContainer>
+  );
+}
@@ -0,0 +1,65 @@
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { checkPermission, getUserPermissions } from "@/lib/auth/permissions";
+import { getTags } from "@/lib/actions/tags";
+import { redirect } from "next/navigation";
+import { TagsTable } from "@/components/tags/tags-table";
+import PageContainer from "@/components/layout/page-container";
+
+/**
+ * Tag Management Page
+ * Rename, merge and delete the free-form tags attached to news posts
+ */
+export default async function TagsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ page?: string; search?: string }>;
+}) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  const hasReadAccess = await checkPermission("tag.read");
+  if (!hasReadAccess) {
+    redirect("/dashboard");
+  }
+
+  const params = await searchParams;
+  const page = parseInt(params.page || "1");
+  const search = params.search;
+
+  const [result, permissions] = await Promise.all([
+    getTags({ page, limit: 25, search }),
+    getUserPermissions(user.userId),
+  ]);
+
+  if (!result.success) {
+    return (
+      <div className="p-6">
+        <p className="text-destructive">{result.error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <PageContainer>
+      <div className="flex flex-1 flex-col space-y-4">
+        <div>
+          <h1 className="text-3xl font-bold">Tag Management</h1>
+          <p className="text-muted-foreground mt-2">
+            Tags are added while writing news. Rename, merge duplicates or remove unused tags here.
+          </p>
+        </div>
+
+        <TagsTable
+          tags={result.tags || []}
+          total={result.total || 0}
+          page={result.page || 1}
+          totalPages={result.totalPages || 1}
+          search={search}
+          permissions={permissions}
+        />
+      </div>
+    </PageContainer>
+  );
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { env } from '@/lib/config/env'
+import { cdata, escapeXml } from '@/lib/utils/xml'
 
 export async function GET() {
   const baseUrl = env.NEXT_PUBLIC_BASE_URL || 'https://bawalnews.com'
@@ -49,19 +50,20 @@ export async function GET() {
     const content = item.content.replace(/<[^>]*>/g, '').substring(0, 500) + '...'
     const imageUrl = item.coverImage || `${baseUrl}/placeholder.png`
     const pubDate = item.publishedAt || item.createdAt
+    const link = escapeXml(`${baseUrl}/news/${item.slug}`)
 
     return `
     <item>
-      <title><![CDATA[${item.title}]]></title>
-      <link>${baseUrl}/news/${item.slug}</link>
-      <guid isPermaLink="true">${baseUrl}/news/${item.slug}</guid>
-      <description><![CDATA[${excerpt}]]></description>
-      <content:encoded><![CDATA[${content}]]></content:encoded>
-      <author>${authorName}</author>
-      <category><![CDATA[${categories}]]></category>
+      <title>${cdata(item.title)}</title>
+      <link>${link}</link>
+      <guid isPermaLink="true">${link}</guid>
+      <description>${cdata(excerpt)}</description>
+      <content:encoded>${cdata(content)}</content:encoded>
+      <author>${escapeXml(authorName)}</author>
+      <category>${cdata(categories)}</category>
       <pubDate>${pubDate.toUTCString()}</pubDate>
       <updated>${item.updatedAt.toUTCString()}</updated>
-      <enclosure url="${imageUrl}" type="image/jpeg" />
+      <enclosure url="${escapeXml(imageUrl)}" type="image/jpeg" />
       ${item.isBreaking ? '<breaking>true</breaking>' : ''}
       ${item.isFeatured ? '<featured>true</featured>' : ''}
     </item>`
@@ -33,6 +33,76 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     },
   })
 
+  // Get tags that have at least one published news post
+  const tags = await prisma.tag.findMany({
+    where: {
+      news: {
+        some: {
+          news: {
+            isPublished: true,
+            isActive: true,
+          },
+        },
+      },
+    },
+    select: {
+      slug: true,
+      updatedAt: true,
+    },
+  })
+
+  // Get authors that have at least one published news post
+  const authors = await prisma.user.findMany({
+    where: {
+      isActive: true,
+      news: {
+        some: {
+          isPublished: true,
+          isActive: true,
+        },
+      },
+    },
+    select: {
+      username: true,
+      authorSlug: true,
+      updatedAt: true,
+    },
+  })
+
+  // Get active series that have at least one published news post
+  const series = await prisma.series.findMany({
+    where: {
+      isActive: true,
+      items: {
+        some: {
+          news: {
+            isPublished: true,
+            isActive: true,
+          },
+        },
+      },
+    },
+    select: {
+      slug: true,
+      updatedAt: true,
+    },
+  })
+
+  // Get all published blog posts
+  const blogs = await prisma.blog.findMany({
+    where: {
+      isPublished: true,
+      isActive: true,
+    },
+    select: {
+      slug: true,
+      updatedAt: true,
+    },
+    orderBy: {
+      publishedAt: 'desc',
+    },
+  })
+
   // Static pages
   const staticPages: MetadataRoute.Sitemap = [
     {
@@ -47,6 +117,12 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
       changeFrequency: 'daily',
       priority: 0.8,
     },
+    {
+      url: `${baseUrl}/blog`,
+      lastModified: blogs[0]?.updatedAt || new Date(),
+      changeFrequency: 'daily',
+      priority: 0.7,
+    },
     {
       url: `${baseUrl}/about`,
       lastModified: new Date(),
@@ -107,6 +183,46 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     priority: 0.8,
   }))
 
-  return [...staticPages, ...newsPages, ...categoryPages]
+  // Tag pages
+  const tagPages: MetadataRoute.Sitemap = tags.map((tag: typeof tags[number]) => ({
+    url: `${baseUrl}/tag/${encodeURIComponent(tag.slug)}`,
+    lastModified: tag.updatedAt,
+    changeFrequency: 'daily' as const,
+    priority: 0.6,
+  }))
+
+  // Author pages
+  const authorPages: MetadataRoute.Sitemap = authors.map((author: typeof authors[number]) => ({
+    url: `${baseUrl}/author/${encodeURIComponent(author.authorSlug || author.username)}`,
+    lastModified: author.updatedAt,
+    changeFrequency: 'weekly' as const,
+    priority: 0.5,
+  }))
+
+  // Series timeline pages
+  const seriesPages: MetadataRoute.Sitemap = series.map((item: typeof series[number]) => ({
+    url: `${baseUrl}/series/${encodeURIComponent(item.slug)}`,
+    lastModified: item.updatedAt,
+    changeFrequency: 'daily' as const,
+    priority: 0.7,
+  }))
+
+  // Blog posts
+  const blogPages: MetadataRoute.Sitemap = blogs.map((item: typeof blogs[number]) => ({
+    url: `${baseUrl}/blog/${encodeURIComponent(item.slug)}`,
+    lastModified: item.updatedAt,
+    changeFrequency: 'weekly' as const,
+    priority: 0.6,
+  }))
+
+  return [
+    ...staticPages,
+    ...newsPages,
+    ...categoryPages,
+    ...tagPages,
+    ...authorPages,
+    ...seriesPages,
+    ...blogPages,
+  ]
 }
 
@@ -1,6 +1,7 @@
 /**
  * Ad Banner Component
  * Modern, responsive advertisement banner component
+ * Scales to the available width, up to the zone's width, at the zone's aspect ratio
  */
 
 "use client";
@@ -9,28 +10,21 @@ import Image from "next/image";
 import Link from "next/link";
 import { useEffect } from "react";
 import { cn } from "@/lib/utils";
-import type { AdDisplay } from "@/lib/services/ads.service";
+import { isHttpUrl } from "@/lib/security/validation";
+import type { AdDisplay, AdZoneDisplay } from "@/lib/utils/ads";
 
 interface AdBannerProps {
   ad: AdDisplay;
+  zone: Pick<AdZoneDisplay, "width" | "height">;
   className?: string;
-  size?: "small" | "medium" | "large" | "leaderboard" | "sidebar";
   showLabel?: boolean;
   priority?: boolean;
 }
 
-const sizeClasses = {
-  small: "w-full h-16",
-  medium: "w-full h-32",
-  large: "w-full h-48",
-  leaderboard: "w-full max-w-[970px] h-[90px]",
-  sidebar: "w-full aspect-[3/4] max-w-[300px]",
-};
-
 export function AdBanner({ 
   ad, 
+  zone,
   className, 
-  size = "medium",
   showLabel = true,
   priority = false 
 }: AdBannerProps) {
@@ -44,8 +38,8 @@ export function AdBanner({
     }
   }, [ad.id]);
 
-  // Determine click URL
-  const clickUrl = ad.newsSlug ? `/news/${ad.newsSlug}` : ad.linkUrl;
+  // Determine click URL; sponsor links other than http(s) are never rendered
+  const clickUrl = ad.newsSlug ? `/news/${ad.newsSlug}` : isHttpUrl(ad.linkUrl) ? ad.linkUrl : null;
 
   const handleClick = () => {
     if (ad.id && !ad.id.startsWith("default-") && clickUrl) {
@@ -59,10 +53,10 @@ export function AdBanner({
   const content = (
     <div
       className={cn(
-        "relative overflow-hidden rounded-lg border border-border bg-muted/50 transition-all duration-300 hover:shadow-lg",
-        sizeClasses[size],
+        "relative mx-auto w-full overflow-hidden rounded-lg border border-border bg-muted/50 transition-all duration-300 hover:shadow-lg",
         className
       )}
+      style={{ aspectRatio: `${zone.width} / ${zone.height}`, maxWidth: zone.width }}
     >
       {showLabel && (
         <div className="absolute top-0 left-0 z-10 bg-black/60 px-2 py-1 text-[10px] uppercase tracking-wider text-white">
@@ -75,13 +69,7 @@ export function AdBanner({
         alt={ad.title}
         fill
         className="object-cover transition-transform duration-300 hover:scale-105"
-        sizes={
-          size === "leaderboard" 
-            ? "(max-width: 768px) 100vw, 970px"
-            : size === "sidebar"
-            ? "(max-width: 768px) 100vw, 300px"
-            : "(max-width: 768px) 100vw, 50vw"
-        }
+        sizes={`(max-width: 768px) 100vw, ${zone.width}px`}
         priority={priority}
         unoptimized={ad.imageUrl?.startsWith("https://via.placeholder.com") || false}
       />
@@ -0,0 +1,126 @@
+/**
+ * Ad Slot Component
+ * Client-side ad placement that asks /api/ads/serve which ad to show,
+ * so cached pages still rotate ads and respect frequency caps.
+ * Size, max ads and the fallback creative come from the zone registry.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { cn } from "@/lib/utils";
+import type { AdDisplay, AdZoneDisplay } from "@/lib/utils/ads";
+import { AdBanner } from "./ad-banner";
+import { useAdTargeting, type AdPageTargeting } from "./ad-targeting";
+
+interface ServedAds {
+  ads: Record<string, AdDisplay[]>;
+  zones: Record<string, AdZoneDisplay>;
+}
+
+interface AdSlotProps {
+  zone: string;
+  position?: number; // Index (0-based) into the ads rotated for this zone
+  showDefault?: boolean;
+  showLabel?: boolean;
+  className?: string;
+  placeholderClassName?: string;
+}
+
+const pendingBatches = new Map<string, { zones: Map<string, number>; promise: Promise<ServedAds> }>();
+
+/**
+ * Request ads for a zone
+ * Slots mounted in the same render with the same targeting share one request,
+ * so a zone never shows the same ad twice and the frequency cookie is updated once
+ */
+function requestZoneAds(
+  zone: string,
+  count: number,
+  targeting: AdPageTargeting
+): Promise<{ ads: AdDisplay[]; definition: AdZoneDisplay | null }> {
+  const params = new URLSearchParams();
+  if (targeting.categories.length > 0) params.set("categories", targeting.categories.join(","));
+  if (targeting.newsId) params.set("newsId", targeting.newsId);
+  const key = params.toString();
+
+  let pendingBatch = pendingBatches.get(key);
+  if (!pendingBatch) {
+    const zones = new Map<string, number>();
+    const promise = new Promise((resolve) => setTimeout(resolve, 0))
+      .then(() => {
+        pendingBatches.delete(key);
+        const query = new URLSearchParams(params);
+        query.set("zones", Array.from(zones, ([name, total]) => `${name}:${total}`).join(","));
+        return fetch(`/api/ads/serve?${query.toString()}`, { cache: "no-store" });
+      })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result): ServedAds =>
+        result?.success ? { ads: result.data, zones: result.zones || {} } : { ads: {}, zones: {} }
+      )
+      .catch((): ServedAds => ({ ads: {}, zones: {} }));
+
+    pendingBatch = { zones, promise };
+    pendingBatches.set(key, pendingBatch);
+  }
+
+  const { zones, promise } = pendingBatch;
+  zones.set(zone, Math.max(zones.get(zone) || 0, count));
+
+  return promise.then((served) => ({
+    ads: served.ads[zone] || [],
+    definition: served.zones[zone] || null,
+  }));
+}
+
+export function AdSlot({
+  zone,
+  position = 0,
+  showDefault = true,
+  showLabel = true,
+  className,
+  placeholderClassName,
+}: AdSlotProps) {
+  const targeting = useAdTargeting();
+  const [state, setState] = useState<{
+    loaded: boolean;
+    ad: AdDisplay | null;
+    definition: AdZoneDisplay | null;
+  }>({
+    loaded: false,
+    ad: null,
+    definition: null,
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    requestZoneAds(zone, position + 1, targeting).then(({ ads, definition }) => {
+      if (cancelled) return;
+      // Unknown and disabled zones, and slots past the zone's max ads, stay empty
+      const ad =
+        definition && definition.isEnabled && position < definition.maxAds
+          ? ads[position] || (showDefault ? definition.fallback : null)
+          : null;
+      setState({ loaded: true, ad, definition });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [zone, position, showDefault, targeting]);
+
+  if (!state.loaded) {
+    return (
+      <div
+        className={cn("w-full bg-muted rounded-lg animate-pulse border border-border", placeholderClassName)}
+      />
+    );
+  }
+
+  if (!state.ad || !state.definition) {
+    return null;
+  }
+
+  return <AdBanner ad={state.ad} zone={state.definition} showLabel={showLabel} className={className} />;
+}
@@ -0,0 +1,36 @@
+/**
+ * Ad Targeting Context
+ * Lets a page tell every ad slot inside it which categories and article
+ * it shows, so the ad server can apply category and article targeting
+ */
+
+"use client";
+
+import { createContext, useContext, useMemo, type ReactNode } from "react";
+
+export interface AdPageTargeting {
+  categories: string[]; // Category (menu) slugs
+  newsId: string | null;
+}
+
+const AdTargetingContext = createContext<AdPageTargeting>({ categories: [], newsId: null });
+
+interface AdTargetingProviderProps {
+  categories?: string[];
+  newsId?: string | null;
+  children: ReactNode;
+}
+
+export function AdTargetingProvider({ categories, newsId = null, children }: AdTargetingProviderProps) {
+  const categoryKey = (categories || []).join(",");
+  const value = useMemo(
+    () => ({ categories: categoryKey ? categoryKey.split(",") : [], newsId }),
+    [categoryKey, newsId]
+  );
+
+  return <AdTargetingContext.Provider value={value}>{children}</AdTargetingContext.Provider>;
+}
+
+export function useAdTargeting(): AdPageTargeting {
+  return useContext(AdTargetingContext);
+}
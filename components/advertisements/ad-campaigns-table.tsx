@@ -0,0 +1,498 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Edit, Trash2, Search, Pause, Play, Plus } from "lucide-react";
+import {
+  createAdCampaign,
+  deleteAdCampaign,
+  getAdvertiserOptions,
+  setAdCampaignPaused,
+  updateAdCampaign,
+} from "@/lib/actions/ad-campaigns";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { formatDate } from "@/lib/utils";
+
+/**
+ * Ad Campaigns Table Component
+ * Lists campaigns with budget usage; create/edit happens in a dialog
+ */
+interface AdCampaign {
+  id: string;
+  name: string;
+  description: string | null;
+  status: string;
+  dailyImpressionBudget: number | null;
+  totalImpressionBudget: number | null;
+  impressions: number;
+  dailyImpressions: number;
+  pausedUntil: Date | null;
+  adCount: number;
+  advertiser: {
+    id: string;
+    username: string;
+    email: string;
+  } | null;
+  createdAt: Date;
+}
+
+interface AdCampaignsTableProps {
+  campaigns: AdCampaign[];
+  total: number;
+  page: number;
+  totalPages: number;
+  search?: string;
+}
+
+interface CampaignFormState {
+  id?: string;
+  name: string;
+  description: string;
+  dailyImpressionBudget: string;
+  totalImpressionBudget: string;
+  advertiserId: string | null;
+}
+
+const emptyForm: CampaignFormState = {
+  name: "",
+  description: "",
+  dailyImpressionBudget: "",
+  totalImpressionBudget: "",
+  advertiserId: null,
+};
+
+function parseBudget(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+function BudgetUsage({ used, budget }: { used: number; budget: number | null }) {
+  if (!budget) {
+    return <span>{used.toLocaleString()} / Unlimited</span>;
+  }
+
+  const percent = Math.min(Math.round((used / budget) * 100), 100);
+
+  return (
+    <div className="space-y-1 min-w-[120px]">
+      <span>
+        {used.toLocaleString()} / {budget.toLocaleString()}
+      </span>
+      <div className="h-1.5 w-full rounded-full bg-muted overflow-hidden">
+        <div
+          className={percent >= 100 ? "h-full bg-destructive" : "h-full bg-primary"}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function AdCampaignsTable({
+  campaigns,
+  total,
+  page,
+  totalPages,
+  search: initialSearch,
+}: AdCampaignsTableProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [search, setSearch] = useState(initialSearch || "");
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<CampaignFormState>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [campaignToDelete, setCampaignToDelete] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const [advertisers, setAdvertisers] = useState<Array<{ id: string; username: string; email: string }>>([]);
+
+  useEffect(() => {
+    async function loadAdvertisers() {
+      const result = await getAdvertiserOptions();
+      if (result.success && result.advertisers) {
+        setAdvertisers(result.advertisers);
+      }
+    }
+    loadAdvertisers();
+  }, []);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const params = new URLSearchParams();
+    if (search) params.set("search", search);
+    params.set("page", "1");
+    router.push(`/dashboard/advertisements/campaigns?${params.toString()}`);
+  };
+
+  const goToPage = (target: number) => {
+    const params = new URLSearchParams();
+    if (search) params.set("search", search);
+    params.set("page", String(target));
+    router.push(`/dashboard/advertisements/campaigns?${params.toString()}`);
+  };
+
+  const openCreate = () => {
+    setForm(emptyForm);
+    setFormOpen(true);
+  };
+
+  const openEdit = (campaign: AdCampaign) => {
+    setForm({
+      id: campaign.id,
+      name: campaign.name,
+      description: campaign.description || "",
+      dailyImpressionBudget: campaign.dailyImpressionBudget?.toString() || "",
+      totalImpressionBudget: campaign.totalImpressionBudget?.toString() || "",
+      advertiserId: campaign.advertiser?.id || null,
+    });
+    setFormOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const data = {
+      name: form.name,
+      description: form.description,
+      dailyImpressionBudget: parseBudget(form.dailyImpressionBudget),
+      totalImpressionBudget: parseBudget(form.totalImpressionBudget),
+      advertiserId: form.advertiserId,
+    };
+
+    setSaving(true);
+    const result = form.id ? await updateAdCampaign({ id: form.id, ...data }) : await createAdCampaign(data);
+    setSaving(false);
+
+    if (result.success) {
+      toast({
+        title: form.id ? "Campaign updated" : "Campaign created",
+        description: `${data.name} has been saved.`,
+      });
+      setFormOpen(false);
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to save campaign",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleTogglePaused = async (campaign: AdCampaign) => {
+    const paused = campaign.status === "active";
+    const result = await setAdCampaignPaused(campaign.id, paused);
+
+    if (result.success) {
+      toast({
+        title: paused ? "Campaign paused" : "Campaign resumed",
+        description: paused
+          ? "Its advertisements are no longer served."
+          : "Its advertisements are back in rotation.",
+      });
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to update campaign",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!campaignToDelete) return;
+
+    setDeleting(true);
+    const result = await deleteAdCampaign(campaignToDelete);
+    setDeleting(false);
+    setDeleteDialogOpen(false);
+    setCampaignToDelete(null);
+
+    if (result.success) {
+      toast({
+        title: "Campaign deleted",
+        description: "Its advertisements are kept without a budget.",
+      });
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to delete campaign",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const statusBadge = (campaign: AdCampaign) => {
+    if (campaign.status === "exhausted") {
+      return <Badge variant="destructive">Budget spent</Badge>;
+    }
+    if (campaign.status === "paused") {
+      return <Badge variant="secondary">Paused</Badge>;
+    }
+    if (campaign.pausedUntil) {
+      return <Badge variant="outline">Daily budget spent</Badge>;
+    }
+    return <Badge>Active</Badge>;
+  };
+
+  return (
+    <>
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <Input
+              placeholder="Search campaigns..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="max-w-sm"
+            />
+            <Button type="submit" variant="outline">
+              <Search className="h-4 w-4 mr-2" />
+              Search
+            </Button>
+          </form>
+          <Button onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Campaign
+          </Button>
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Today</TableHead>
+                <TableHead>Total</TableHead>
+                <TableHead>Ads</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {campaigns.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    No campaigns found. Create a campaign to budget your advertisements.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                campaigns.map((campaign) => (
+                  <TableRow key={campaign.id}>
+                    <TableCell>
+                      <p className="font-medium">{campaign.name}</p>
+                      {campaign.description && (
+                        <p className="text-sm text-muted-foreground line-clamp-1">{campaign.description}</p>
+                      )}
+                      {campaign.advertiser && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Advertiser: {campaign.advertiser.username}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {statusBadge(campaign)}
+                      {campaign.pausedUntil && campaign.status === "active" && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Resumes {new Date(campaign.pausedUntil).toLocaleString()}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <BudgetUsage used={campaign.dailyImpressions} budget={campaign.dailyImpressionBudget} />
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <BudgetUsage used={campaign.impressions} budget={campaign.totalImpressionBudget} />
+                    </TableCell>
+                    <TableCell>{campaign.adCount}</TableCell>
+                    <TableCell>{formatDate(campaign.createdAt)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        {campaign.status !== "exhausted" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title={campaign.status === "active" ? "Pause" : "Resume"}
+                            onClick={() => handleTogglePaused(campaign)}
+                          >
+                            {campaign.status === "active" ? (
+                              <Pause className="h-4 w-4" />
+                            ) : (
+                              <Play className="h-4 w-4" />
+                            )}
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="icon" onClick={() => openEdit(campaign)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => {
+                            setCampaignToDelete(campaign.id);
+                            setDeleteDialogOpen(true);
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              Showing {((page - 1) * 10) + 1} to {Math.min(page * 10, total)} of {total} campaigns
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" disabled={page === 1} onClick={() => goToPage(page - 1)}>
+                Previous
+              </Button>
+              <Button variant="outline" disabled={page >= totalPages} onClick={() => goToPage(page + 1)}>
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <form onSubmit={handleSave} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{form.id ? "Edit Campaign" : "New Campaign"}</DialogTitle>
+              <DialogDescription>
+                Ads in the campaign pause automatically when a budget is spent. Leave a budget empty for no limit.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-name">Name *</Label>
+              <Input
+                id="campaign-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                disabled={saving}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-description">Description</Label>
+              <Textarea
+                id="campaign-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                disabled={saving}
+                rows={3}
+                className="resize-none"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="campaign-daily">Daily impressions</Label>
+                <Input
+                  id="campaign-daily"
+                  type="number"
+                  min={1}
+                  placeholder="Unlimited"
+                  value={form.dailyImpressionBudget}
+                  onChange={(e) => setForm({ ...form, dailyImpressionBudget: e.target.value })}
+                  disabled={saving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-total">Total impressions</Label>
+                <Input
+                  id="campaign-total"
+                  type="number"
+                  min={1}
+                  placeholder="Unlimited"
+                  value={form.totalImpressionBudget}
+                  onChange={(e) => setForm({ ...form, totalImpressionBudget: e.target.value })}
+                  disabled={saving}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-advertiser">Advertiser</Label>
+              <Select
+                value={form.advertiserId || "none"}
+                onValueChange={(value) => setForm({ ...form, advertiserId: value === "none" ? null : value })}
+                disabled={saving}
+              >
+                <SelectTrigger id="campaign-advertiser">
+                  <SelectValue placeholder="No advertiser" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {advertisers.map((advertiser) => (
+                    <SelectItem key={advertiser.id} value={advertiser.id}>
+                      {advertiser.username} ({advertiser.email})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                The advertiser sees this campaign&apos;s reports and can submit creatives for it
+              </p>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setFormOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving || !form.name.trim()}>
+                {saving ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Campaign</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete this campaign? Its advertisements are kept but no longer budgeted.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={deleting}>
+              {deleting ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
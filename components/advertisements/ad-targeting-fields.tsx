@@ -0,0 +1,235 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getPublicMenus } from "@/lib/actions/menus";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Crosshair, X } from "lucide-react";
+import { AD_DEVICES } from "@/lib/utils/ads";
+
+/**
+ * Ad Targeting Fields
+ * Shared by the create and edit advertisement forms
+ */
+
+export interface AdTargetingValues {
+  targetCategoryIds: string[];
+  excludedCategoryIds: string[];
+  targetNewsIds: string[];
+  targetDevices: Array<(typeof AD_DEVICES)[number]>;
+  targetCountries: string[];
+  targetRegions: string[];
+}
+
+export const emptyAdTargeting: AdTargetingValues = {
+  targetCategoryIds: [],
+  excludedCategoryIds: [],
+  targetNewsIds: [],
+  targetDevices: [],
+  targetCountries: [],
+  targetRegions: [],
+};
+
+const DEVICE_LABELS: Record<(typeof AD_DEVICES)[number], string> = {
+  mobile: "Mobile",
+  tablet: "Tablet",
+  desktop: "Desktop",
+};
+
+interface AdTargetingFieldsProps {
+  value: AdTargetingValues;
+  onChange: (value: AdTargetingValues) => void;
+  newsPosts: Array<{ id: string; title: string }>;
+  disabled?: boolean;
+}
+
+/**
+ * Split a comma-separated list of codes into upper-case entries
+ */
+function parseCodes(text: string): string[] {
+  return text
+    .split(",")
+    .map((code) => code.trim().toUpperCase())
+    .filter(Boolean);
+}
+
+function PickList({
+  label,
+  placeholder,
+  options,
+  selected,
+  onChange,
+  disabled,
+}: {
+  label: string;
+  placeholder: string;
+  options: Array<{ id: string; name: string }>;
+  selected: string[];
+  onChange: (ids: string[]) => void;
+  disabled?: boolean;
+}) {
+  const available = options.filter((option) => !selected.includes(option.id));
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-base font-medium">{label}</Label>
+      <Select
+        value=""
+        onValueChange={(id) => onChange([...selected, id])}
+        disabled={disabled || available.length === 0}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder={placeholder} />
+        </SelectTrigger>
+        <SelectContent>
+          {available.map((option) => (
+            <SelectItem key={option.id} value={option.id}>
+              {option.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {selected.map((id) => (
+            <Badge key={id} variant="secondary" className="gap-1 py-1.5 px-3 text-xs">
+              {options.find((option) => option.id === id)?.name || "Unknown"}
+              <X
+                className="h-3 w-3 cursor-pointer hover:text-destructive transition-colors"
+                onClick={() => onChange(selected.filter((item) => item !== id))}
+              />
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function AdTargetingFields({ value, onChange, newsPosts, disabled }: AdTargetingFieldsProps) {
+  const [categories, setCategories] = useState<Array<{ id: string; name: string }>>([]);
+  const [countriesText, setCountriesText] = useState(value.targetCountries.join(", "));
+  const [regionsText, setRegionsText] = useState(value.targetRegions.join(", "));
+
+  useEffect(() => {
+    async function loadCategories() {
+      const result = await getPublicMenus();
+      if (result.success && result.menus) {
+        setCategories(result.menus.map((menu) => ({ id: menu.id, name: menu.name })));
+      }
+    }
+    loadCategories();
+  }, []);
+
+  const toggleDevice = (device: (typeof AD_DEVICES)[number], checked: boolean) => {
+    onChange({
+      ...value,
+      targetDevices: checked
+        ? [...value.targetDevices, device]
+        : value.targetDevices.filter((item) => item !== device),
+    });
+  };
+
+  return (
+    <Card className="shadow-sm border">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Crosshair className="h-5 w-5 text-primary" />
+          Targeting
+        </CardTitle>
+        <CardDescription>
+          Limit where and to whom the ad is served. Leave a field empty for no restriction.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <PickList
+            label="Categories"
+            placeholder="Any category"
+            options={categories}
+            selected={value.targetCategoryIds}
+            onChange={(ids) => onChange({ ...value, targetCategoryIds: ids })}
+            disabled={disabled}
+          />
+          <PickList
+            label="Excluded Categories"
+            placeholder="None excluded"
+            options={categories.filter((category) => !value.targetCategoryIds.includes(category.id))}
+            selected={value.excludedCategoryIds}
+            onChange={(ids) => onChange({ ...value, excludedCategoryIds: ids })}
+            disabled={disabled}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground -mt-3">
+          A category also covers its subcategories
+        </p>
+
+        <PickList
+          label="Articles"
+          placeholder="Any article"
+          options={newsPosts.map((news) => ({ id: news.id, name: news.title }))}
+          selected={value.targetNewsIds}
+          onChange={(ids) => onChange({ ...value, targetNewsIds: ids })}
+          disabled={disabled}
+        />
+
+        <div className="space-y-3">
+          <Label className="text-base font-medium">Devices</Label>
+          <div className="flex flex-wrap gap-6">
+            {AD_DEVICES.map((device) => (
+              <label key={device} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={value.targetDevices.includes(device)}
+                  onCheckedChange={(checked) => toggleDevice(device, checked === true)}
+                  disabled={disabled}
+                />
+                {DEVICE_LABELS[device]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-3">
+            <Label htmlFor="targetCountries" className="text-base font-medium">Countries</Label>
+            <Input
+              id="targetCountries"
+              placeholder="IN, NP"
+              value={countriesText}
+              onChange={(e) => {
+                setCountriesText(e.target.value);
+                onChange({ ...value, targetCountries: parseCodes(e.target.value) });
+              }}
+              disabled={disabled}
+            />
+            <p className="text-xs text-muted-foreground">2-letter ISO codes, comma separated</p>
+          </div>
+          <div className="space-y-3">
+            <Label htmlFor="targetRegions" className="text-base font-medium">Regions</Label>
+            <Input
+              id="targetRegions"
+              placeholder="IN-MH, IN-DL"
+              value={regionsText}
+              onChange={(e) => {
+                setRegionsText(e.target.value);
+                onChange({ ...value, targetRegions: parseCodes(e.target.value) });
+              }}
+              disabled={disabled}
+            />
+            <p className="text-xs text-muted-foreground">Country-region codes; a country or region match is enough</p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
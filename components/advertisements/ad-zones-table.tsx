@@ -0,0 +1,545 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Edit, Trash2, Plus } from "lucide-react";
+import { createAdZone, deleteAdZone, setAdZoneEnabled, updateAdZone } from "@/lib/actions/ad-zones";
+import { AD_CREATIVE_FORMATS, MAX_ADS_PER_ZONE } from "@/lib/utils/ads";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+/**
+ * Ad Zones Table Component
+ * Lists the zone registry; create/edit happens in a dialog
+ */
+interface AdZone {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  width: number;
+  height: number;
+  minWidth: number | null;
+  minHeight: number | null;
+  maxWidth: number | null;
+  maxHeight: number | null;
+  allowedFormats: string[];
+  maxAds: number;
+  fallbackTitle: string | null;
+  fallbackDescription: string | null;
+  fallbackImageUrl: string | null;
+  fallbackLinkUrl: string | null;
+  isEnabled: boolean;
+  adCount: number;
+}
+
+interface AdZonesTableProps {
+  zones: AdZone[];
+}
+
+type AdCreativeFormat = (typeof AD_CREATIVE_FORMATS)[number];
+
+interface ZoneFormState {
+  id?: string;
+  slug: string;
+  name: string;
+  description: string;
+  width: string;
+  height: string;
+  minWidth: string;
+  minHeight: string;
+  maxWidth: string;
+  maxHeight: string;
+  allowedFormats: AdCreativeFormat[];
+  maxAds: string;
+  fallbackTitle: string;
+  fallbackDescription: string;
+  fallbackImageUrl: string;
+  fallbackLinkUrl: string;
+  isEnabled: boolean;
+}
+
+const emptyForm: ZoneFormState = {
+  slug: "",
+  name: "",
+  description: "",
+  width: "",
+  height: "",
+  minWidth: "",
+  minHeight: "",
+  maxWidth: "",
+  maxHeight: "",
+  allowedFormats: ["jpg", "png", "webp", "gif"],
+  maxAds: "1",
+  fallbackTitle: "",
+  fallbackDescription: "",
+  fallbackImageUrl: "",
+  fallbackLinkUrl: "",
+  isEnabled: true,
+};
+
+function parseSize(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+function SizeLimits({ zone }: { zone: AdZone }) {
+  const min = zone.minWidth || zone.minHeight ? `min ${zone.minWidth ?? "any"}x${zone.minHeight ?? "any"}` : null;
+  const max = zone.maxWidth || zone.maxHeight ? `max ${zone.maxWidth ?? "any"}x${zone.maxHeight ?? "any"}` : null;
+
+  return (
+    <div className="text-sm">
+      <p className="font-medium">
+        {zone.width}x{zone.height}
+      </p>
+      {(min || max) && (
+        <p className="text-xs text-muted-foreground">{[min, max].filter(Boolean).join(", ")}</p>
+      )}
+    </div>
+  );
+}
+
+export function AdZonesTable({ zones }: AdZonesTableProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<ZoneFormState>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [zoneToDelete, setZoneToDelete] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const openCreate = () => {
+    setForm(emptyForm);
+    setFormOpen(true);
+  };
+
+  const openEdit = (zone: AdZone) => {
+    setForm({
+      id: zone.id,
+      slug: zone.slug,
+      name: zone.name,
+      description: zone.description || "",
+      width: String(zone.width),
+      height: String(zone.height),
+      minWidth: zone.minWidth?.toString() || "",
+      minHeight: zone.minHeight?.toString() || "",
+      maxWidth: zone.maxWidth?.toString() || "",
+      maxHeight: zone.maxHeight?.toString() || "",
+      allowedFormats: zone.allowedFormats.filter((format): format is AdCreativeFormat =>
+        (AD_CREATIVE_FORMATS as readonly string[]).includes(format)
+      ),
+      maxAds: String(zone.maxAds),
+      fallbackTitle: zone.fallbackTitle || "",
+      fallbackDescription: zone.fallbackDescription || "",
+      fallbackImageUrl: zone.fallbackImageUrl || "",
+      fallbackLinkUrl: zone.fallbackLinkUrl || "",
+      isEnabled: zone.isEnabled,
+    });
+    setFormOpen(true);
+  };
+
+  const toggleFormat = (format: AdCreativeFormat, checked: boolean) => {
+    setForm({
+      ...form,
+      allowedFormats: checked
+        ? [...form.allowedFormats, format]
+        : form.allowedFormats.filter((item) => item !== format),
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const data = {
+      name: form.name,
+      description: form.description,
+      width: Number(form.width),
+      height: Number(form.height),
+      minWidth: parseSize(form.minWidth),
+      minHeight: parseSize(form.minHeight),
+      maxWidth: parseSize(form.maxWidth),
+      maxHeight: parseSize(form.maxHeight),
+      allowedFormats: form.allowedFormats,
+      maxAds: Number(form.maxAds),
+      fallbackTitle: form.fallbackTitle,
+      fallbackDescription: form.fallbackDescription,
+      fallbackImageUrl: form.fallbackImageUrl,
+      fallbackLinkUrl: form.fallbackLinkUrl,
+      isEnabled: form.isEnabled,
+    };
+
+    setSaving(true);
+    const result = form.id
+      ? await updateAdZone({ id: form.id, ...data })
+      : await createAdZone({ slug: form.slug, ...data });
+    setSaving(false);
+
+    if (result.success) {
+      toast({
+        title: form.id ? "Zone updated" : "Zone created",
+        description: `${data.name} has been saved.`,
+      });
+      setFormOpen(false);
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to save zone",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggleEnabled = async (zone: AdZone) => {
+    const result = await setAdZoneEnabled(zone.id, !zone.isEnabled);
+
+    if (result.success) {
+      toast({
+        title: zone.isEnabled ? "Zone disabled" : "Zone enabled",
+        description: zone.isEnabled
+          ? "Its slots no longer show ads or the fallback creative."
+          : "Its slots show ads again.",
+      });
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to update zone",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!zoneToDelete) return;
+
+    setDeleting(true);
+    const result = await deleteAdZone(zoneToDelete);
+    setDeleting(false);
+    setDeleteDialogOpen(false);
+    setZoneToDelete(null);
+
+    if (result.success) {
+      toast({
+        title: "Zone deleted",
+        description: "The zone has been removed from the registry.",
+      });
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to delete zone",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-4">
+        <div className="flex justify-end">
+          <Button onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Zone
+          </Button>
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Zone</TableHead>
+                <TableHead>Size</TableHead>
+                <TableHead>Formats</TableHead>
+                <TableHead>Max Ads</TableHead>
+                <TableHead>Fallback</TableHead>
+                <TableHead>Ads</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {zones.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-muted-foreground">
+                    No zones found. Create a zone to place advertisements in.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                zones.map((zone) => (
+                  <TableRow key={zone.id}>
+                    <TableCell>
+                      <p className="font-medium">{zone.name}</p>
+                      <p className="text-xs text-muted-foreground font-mono">{zone.slug}</p>
+                      {zone.description && (
+                        <p className="text-sm text-muted-foreground line-clamp-1">{zone.description}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <SizeLimits zone={zone} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {zone.allowedFormats.map((format) => (
+                          <Badge key={format} variant="outline">
+                            {format}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{zone.maxAds}</TableCell>
+                    <TableCell>
+                      {zone.fallbackImageUrl ? (
+                        <Badge variant="secondary">{zone.fallbackTitle || "Advertisement"}</Badge>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">None</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{zone.adCount}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={zone.isEnabled}
+                        onCheckedChange={() => handleToggleEnabled(zone)}
+                        aria-label={zone.isEnabled ? "Disable zone" : "Enable zone"}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="icon" onClick={() => openEdit(zone)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={zone.adCount > 0}
+                          title={zone.adCount > 0 ? "Zones with advertisements cannot be deleted" : "Delete"}
+                          onClick={() => {
+                            setZoneToDelete(zone.id);
+                            setDeleteDialogOpen(true);
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+          <form onSubmit={handleSave} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{form.id ? "Edit Zone" : "New Zone"}</DialogTitle>
+              <DialogDescription>
+                Slots render at the zone&apos;s aspect ratio. Creatives must match it and fit the size limits;
+                leave a limit empty for none.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="zone-name">Name *</Label>
+                <Input
+                  id="zone-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  disabled={saving}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="zone-slug">Slug *</Label>
+                <Input
+                  id="zone-slug"
+                  value={form.slug}
+                  onChange={(e) => setForm({ ...form, slug: e.target.value.toLowerCase() })}
+                  disabled={saving || !!form.id}
+                  placeholder="e.g. sidebar"
+                  required
+                />
+                {form.id && (
+                  <p className="text-xs text-muted-foreground">Used by ads and pages; cannot be changed</p>
+                )}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="zone-description">Description</Label>
+              <Textarea
+                id="zone-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                disabled={saving}
+                rows={2}
+                className="resize-none"
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="zone-width">Width (px) *</Label>
+                <Input
+                  id="zone-width"
+                  type="number"
+                  min={1}
+                  value={form.width}
+                  onChange={(e) => setForm({ ...form, width: e.target.value })}
+                  disabled={saving}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="zone-height">Height (px) *</Label>
+                <Input
+                  id="zone-height"
+                  type="number"
+                  min={1}
+                  value={form.height}
+                  onChange={(e) => setForm({ ...form, height: e.target.value })}
+                  disabled={saving}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="zone-max-ads">Max ads per page *</Label>
+                <Input
+                  id="zone-max-ads"
+                  type="number"
+                  min={1}
+                  max={MAX_ADS_PER_ZONE}
+                  value={form.maxAds}
+                  onChange={(e) => setForm({ ...form, maxAds: e.target.value })}
+                  disabled={saving}
+                  required
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-4 gap-4">
+              {(
+                [
+                  ["minWidth", "Min width"],
+                  ["minHeight", "Min height"],
+                  ["maxWidth", "Max width"],
+                  ["maxHeight", "Max height"],
+                ] as const
+              ).map(([field, label]) => (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={`zone-${field}`}>{label}</Label>
+                  <Input
+                    id={`zone-${field}`}
+                    type="number"
+                    min={1}
+                    placeholder="None"
+                    value={form[field]}
+                    onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                    disabled={saving}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label>Allowed formats *</Label>
+              <div className="flex flex-wrap gap-4">
+                {AD_CREATIVE_FORMATS.map((format) => (
+                  <label key={format} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.allowedFormats.includes(format)}
+                      onCheckedChange={(checked) => toggleFormat(format, checked === true)}
+                      disabled={saving}
+                    />
+                    {format}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Fallback creative</Label>
+              <p className="text-xs text-muted-foreground">
+                Shown when no ad is eligible. Leave the image empty to leave the slot empty instead.
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                <Input
+                  placeholder="Image URL"
+                  value={form.fallbackImageUrl}
+                  onChange={(e) => setForm({ ...form, fallbackImageUrl: e.target.value })}
+                  disabled={saving}
+                />
+                <Input
+                  placeholder="Link URL"
+                  value={form.fallbackLinkUrl}
+                  onChange={(e) => setForm({ ...form, fallbackLinkUrl: e.target.value })}
+                  disabled={saving}
+                />
+                <Input
+                  placeholder="Title"
+                  value={form.fallbackTitle}
+                  onChange={(e) => setForm({ ...form, fallbackTitle: e.target.value })}
+                  disabled={saving}
+                />
+                <Input
+                  placeholder="Description"
+                  value={form.fallbackDescription}
+                  onChange={(e) => setForm({ ...form, fallbackDescription: e.target.value })}
+                  disabled={saving}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="zone-enabled"
+                checked={form.isEnabled}
+                onCheckedChange={(checked) => setForm({ ...form, isEnabled: checked })}
+                disabled={saving}
+              />
+              <Label htmlFor="zone-enabled">Enabled</Label>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setFormOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving || !form.name.trim() || !form.slug.trim()}>
+                {saving ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Zone</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete this zone? Pages that still place it will render nothing there.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={deleting}>
+              {deleting ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
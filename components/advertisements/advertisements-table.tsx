@@ -6,9 +6,11 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Edit, Trash2, Search, Eye, MousePointerClick, Eye as EyeIcon } from "lucide-react";
+import { Edit, Trash2, Search, Eye, MousePointerClick, Eye as EyeIcon, Check, X } from "lucide-react";
 import { useRouter } from "next/navigation";
-import { deleteAdvertisement } from "@/lib/actions/advertisements";
+import { deleteAdvertisement, reviewAdvertisement } from "@/lib/actions/advertisements";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import {
   Dialog,
@@ -19,6 +21,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { formatDate } from "@/lib/utils";
+import { isHttpUrl } from "@/lib/security/validation";
 import NextImage from "next/image";
 
 /**
@@ -32,7 +35,17 @@ interface Advertisement {
   linkUrl: string | null;
   zone: string;
   position: number;
+  weight: number;
+  frequencyCap: number | null;
+  targetCategoryIds: string[];
+  excludedCategoryIds: string[];
+  targetNewsIds: string[];
+  targetDevices: string[];
+  targetCountries: string[];
+  targetRegions: string[];
   isActive: boolean;
+  reviewStatus: string;
+  reviewNote: string | null;
   startDate: Date;
   endDate: Date;
   clicks: number;
@@ -49,6 +62,11 @@ interface Advertisement {
     title: string;
     slug: string;
   } | null;
+  campaign: {
+    id: string;
+    name: string;
+    status: string;
+  } | null;
   createdAt: Date;
 }
 
@@ -58,6 +76,8 @@ interface AdvertisementsTableProps {
   page: number;
   totalPages: number;
   search?: string;
+  reviewStatus?: string;
+  canReview?: boolean;
 }
 
 export function AdvertisementsTable({ 
@@ -65,7 +85,9 @@ export function AdvertisementsTable({
   total, 
   page, 
   totalPages, 
-  search: initialSearch 
+  search: initialSearch,
+  reviewStatus,
+  canReview = false,
 }: any) {
   const router = useRouter();
   const { toast } = useToast();
@@ -73,15 +95,44 @@ export function AdvertisementsTable({
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [adToDelete, setAdToDelete] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [adToReject, setAdToReject] = useState<string | null>(null);
+  const [rejectNote, setRejectNote] = useState("");
+  const [reviewing, setReviewing] = useState(false);
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     const params = new URLSearchParams();
     if (search) params.set("search", search);
+    if (reviewStatus) params.set("review", reviewStatus);
     params.set("page", "1");
     router.push(`/dashboard/advertisements?${params.toString()}`);
   };
 
+  const handleReview = async (adId: string, decision: "approved" | "rejected", note?: string) => {
+    setReviewing(true);
+    const result = await reviewAdvertisement({ id: adId, decision, note });
+    setReviewing(false);
+
+    if (result.success) {
+      toast({
+        title: decision === "approved" ? "Creative approved" : "Creative rejected",
+        description:
+          decision === "approved"
+            ? "The advertisement will be served during its schedule."
+            : "The advertiser can see your note in their portal.",
+      });
+      setAdToReject(null);
+      setRejectNote("");
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to review advertisement",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleDelete = async () => {
     if (!adToDelete) return;
 
@@ -106,6 +157,16 @@ export function AdvertisementsTable({
     }
   };
 
+  const isTargeted = (ad: Advertisement) =>
+    [
+      ad.targetCategoryIds,
+      ad.excludedCategoryIds,
+      ad.targetNewsIds,
+      ad.targetDevices,
+      ad.targetCountries,
+      ad.targetRegions,
+    ].some((list) => list.length > 0);
+
   const isActive = (ad: Advertisement) => {
     const now = new Date();
     return ad.isActive && ad.startDate <= now && ad.endDate >= now;
@@ -175,6 +236,12 @@ export function AdvertisementsTable({
                             Linked to: {ad.news.title}
                           </p>
                         )}
+                        {ad.campaign && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Campaign: {ad.campaign.name}
+                            {ad.campaign.status !== "active" && ` (${ad.campaign.status})`}
+                          </p>
+                        )}
                       </div>
                     </TableCell>
                     <TableCell>
@@ -182,6 +249,16 @@ export function AdvertisementsTable({
                       <p className="text-xs text-muted-foreground mt-1">
                         Position: {ad.position}
                       </p>
+                      <p className="text-xs text-muted-foreground">
+                        Weight: {ad.weight}
+                        {ad.frequencyCap && ` · Cap: ${ad.frequencyCap}/day`}
+                      </p>
+                      {isTargeted(ad) && (
+                        <Badge variant="secondary" className="mt-1">
+                          Targeted
+                          {ad.targetDevices.length > 0 && ` · ${ad.targetDevices.join(", ")}`}
+                        </Badge>
+                      )}
                     </TableCell>
                     <TableCell>
                       <div className="flex flex-col gap-1">
@@ -197,6 +274,12 @@ export function AdvertisementsTable({
                         {new Date() > ad.endDate && (
                           <Badge variant="outline">Expired</Badge>
                         )}
+                        {ad.reviewStatus === "pending" && (
+                          <Badge variant="outline">Pending review</Badge>
+                        )}
+                        {ad.reviewStatus === "rejected" && (
+                          <Badge variant="destructive">Rejected</Badge>
+                        )}
                       </div>
                     </TableCell>
                     <TableCell>
@@ -226,7 +309,29 @@ export function AdvertisementsTable({
                     <TableCell>{formatDate(ad.createdAt)}</TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
-                        {ad.linkUrl && (
+                        {canReview && ad.reviewStatus !== "approved" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Approve"
+                            disabled={reviewing}
+                            onClick={() => handleReview(ad.id, "approved")}
+                          >
+                            <Check className="h-4 w-4 text-green-600" />
+                          </Button>
+                        )}
+                        {canReview && ad.reviewStatus === "pending" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Reject"
+                            disabled={reviewing}
+                            onClick={() => setAdToReject(ad.id)}
+                          >
+                            <X className="h-4 w-4 text-destructive" />
+                          </Button>
+                        )}
+                        {isHttpUrl(ad.linkUrl) && (
                           <Button
                             variant="ghost"
                             size="icon"
@@ -271,6 +376,7 @@ export function AdvertisementsTable({
                 onClick={() => {
                   const params = new URLSearchParams();
                   if (search) params.set("search", search);
+                  if (reviewStatus) params.set("review", reviewStatus);
                   params.set("page", String(page - 1));
                   router.push(`/dashboard/advertisements?${params.toString()}`);
                 }}
@@ -283,6 +389,7 @@ export function AdvertisementsTable({
                 onClick={() => {
                   const params = new URLSearchParams();
                   if (search) params.set("search", search);
+                  if (reviewStatus) params.set("review", reviewStatus);
                   params.set("page", String(page + 1));
                   router.push(`/dashboard/advertisements?${params.toString()}`);
                 }}
@@ -294,6 +401,49 @@ export function AdvertisementsTable({
         )}
       </div>
 
+      <Dialog
+        open={!!adToReject}
+        onOpenChange={(open) => {
+          if (!open) {
+            setAdToReject(null);
+            setRejectNote("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Creative</DialogTitle>
+            <DialogDescription>
+              The creative will not be served. The advertiser sees your note and can submit a new one.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reject-note">Reason *</Label>
+            <Textarea
+              id="reject-note"
+              placeholder="e.g. Image text is too small to read"
+              value={rejectNote}
+              onChange={(e) => setRejectNote(e.target.value)}
+              rows={3}
+              className="resize-none"
+              disabled={reviewing}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAdToReject(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => adToReject && handleReview(adToReject, "rejected", rejectNote)}
+              disabled={reviewing || !rejectNote.trim()}
+            >
+              {reviewing ? "Rejecting..." : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent>
           <DialogHeader>
@@ -7,6 +7,10 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { createAdvertisement } from "@/lib/actions/advertisements";
 import { getUserNews } from "@/lib/actions/news";
+import { getAdCampaignOptions } from "@/lib/actions/ad-campaigns";
+import { getAdZoneOptions } from "@/lib/actions/ad-zones";
+import { describeAdZoneRules, type AdZoneOption } from "@/lib/utils/ads";
+import { AdTargetingFields, emptyAdTargeting, type AdTargetingValues } from "./ad-targeting-fields";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -14,7 +18,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2 } from "lucide-react";
+import { Loader2, Repeat } from "lucide-react";
 import {
   Select,
   SelectContent,
@@ -67,6 +71,9 @@ const createAdvertisementSchema = z
     startDate: datetimeLocalSchema,
     endDate: datetimeLocalSchema,
     newsId: z.string().optional(),
+    weight: z.number().int().min(0, "Weight cannot be negative").max(100, "Weight cannot exceed 100").default(1),
+    frequencyCap: z.number().int().min(1, "Frequency cap must be at least 1").nullable().optional(),
+    campaignId: z.string().optional(),
   })
   .refine(
     (data) => {
@@ -87,19 +94,14 @@ const createAdvertisementSchema = z
 
 type CreateAdvertisementFormData = z.infer<typeof createAdvertisementSchema>;
 
-const AD_ZONES = [
-  { value: "header", label: "Header" },
-  { value: "sidebar", label: "Sidebar" },
-  { value: "footer", label: "Footer" },
-  { value: "inline", label: "Inline" },
-  { value: "popup", label: "Popup" },
-];
-
 export function CreateAdvertisementForm() {
   const router = useRouter();
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
   const [newsPosts, setNewsPosts] = useState<Array<{ id: string; title: string }>>([]);
+  const [campaigns, setCampaigns] = useState<Array<{ id: string; name: string; status: string }>>([]);
+  const [zones, setZones] = useState<AdZoneOption[]>([]);
+  const [targeting, setTargeting] = useState<AdTargetingValues>(emptyAdTargeting);
 
   useEffect(() => {
     async function loadNews() {
@@ -111,6 +113,26 @@ export function CreateAdvertisementForm() {
     loadNews();
   }, []);
 
+  useEffect(() => {
+    async function loadCampaigns() {
+      const result = await getAdCampaignOptions();
+      if (result.success && result.campaigns) {
+        setCampaigns(result.campaigns);
+      }
+    }
+    loadCampaigns();
+  }, []);
+
+  useEffect(() => {
+    async function loadZones() {
+      const result = await getAdZoneOptions();
+      if (result.success && result.zones) {
+        setZones(result.zones);
+      }
+    }
+    loadZones();
+  }, []);
+
   const {
     register,
     handleSubmit,
@@ -123,6 +145,8 @@ export function CreateAdvertisementForm() {
     defaultValues: {
       position: 0,
       zone: "sidebar",
+      weight: 1,
+      frequencyCap: null,
     },
     mode: "onChange",
   });
@@ -149,6 +173,7 @@ export function CreateAdvertisementForm() {
         startDate: datetimeLocalToISO(data.startDate),
         endDate: datetimeLocalToISO(data.endDate),
         imageUrl: data.imageUrl ?? "",
+        ...targeting,
       };
       
       const result = await createAdvertisement(transformedData);
@@ -183,6 +208,7 @@ export function CreateAdvertisementForm() {
   const defaultEndDate = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 16);
 
   const imageUrl = watch("imageUrl");
+  const selectedZone = zones.find((zone) => zone.slug === watch("zone"));
 
   return (
     <div className="min-h-screen bg-background py-6">
@@ -313,13 +339,17 @@ export function CreateAdvertisementForm() {
                           <SelectValue placeholder="Select zone" />
                         </SelectTrigger>
                         <SelectContent>
-                          {AD_ZONES.map((zone) => (
-                            <SelectItem key={zone.value} value={zone.value}>
-                              {zone.label}
+                          {zones.map((zone) => (
+                            <SelectItem key={zone.slug} value={zone.slug}>
+                              {zone.name}
+                              {!zone.isEnabled && " (disabled)"}
                             </SelectItem>
                           ))}
                         </SelectContent>
                       </Select>
+                      {selectedZone && (
+                        <p className="text-xs text-muted-foreground">{describeAdZoneRules(selectedZone)}</p>
+                      )}
                       {errors.zone && (
                         <p className="text-sm text-destructive flex items-center gap-1">
                           <X className="h-3 w-3" />
@@ -345,6 +375,100 @@ export function CreateAdvertisementForm() {
                 </CardContent>
               </Card>
 
+              {/* Rotation & Delivery Card */}
+              <Card className="shadow-sm border">
+                <CardHeader className="pb-4">
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <Repeat className="h-5 w-5 text-primary" />
+                    Rotation & Delivery
+                  </CardTitle>
+                  <CardDescription>
+                    Control how often this ad is served among the other ads in its zone
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-3">
+                      <Label htmlFor="weight" className="text-base font-medium">Weight</Label>
+                      <Input
+                        id="weight"
+                        type="number"
+                        min={0}
+                        max={100}
+                        placeholder="1"
+                        {...register("weight", { valueAsNumber: true })}
+                        disabled={loading}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Relative share of rotation; 0 stops serving the ad
+                      </p>
+                      {errors.weight && (
+                        <p className="text-sm text-destructive flex items-center gap-1">
+                          <X className="h-3 w-3" />
+                          {errors.weight.message}
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="space-y-3">
+                      <Label htmlFor="frequencyCap" className="text-base font-medium">Frequency Cap</Label>
+                      <Input
+                        id="frequencyCap"
+                        type="number"
+                        min={1}
+                        placeholder="Unlimited"
+                        {...register("frequencyCap", {
+                          setValueAs: (value) => (value === "" || value === null ? null : Number(value)),
+                        })}
+                        disabled={loading}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Max times a visitor sees the ad per day
+                      </p>
+                      {errors.frequencyCap && (
+                        <p className="text-sm text-destructive flex items-center gap-1">
+                          <X className="h-3 w-3" />
+                          {errors.frequencyCap.message}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="space-y-3">
+                    <Label htmlFor="campaignId" className="text-base font-medium">Campaign</Label>
+                    <Select
+                      onValueChange={(value) =>
+                        setValue("campaignId", value === "none" ? undefined : value, { shouldDirty: true })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="No campaign" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">None</SelectItem>
+                        {campaigns.map((campaign) => (
+                          <SelectItem key={campaign.id} value={campaign.id}>
+                            {campaign.name}
+                            {campaign.status !== "active" && ` (${campaign.status})`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      The campaign&apos;s impression budgets pause this ad when spent
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Targeting Card */}
+              <AdTargetingFields
+                value={targeting}
+                onChange={setTargeting}
+                newsPosts={newsPosts}
+                disabled={loading}
+              />
+
               {/* Schedule Card */}
               <Card className="shadow-sm border">
                 <CardHeader className="pb-4">
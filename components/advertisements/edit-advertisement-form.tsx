@@ -7,6 +7,10 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { updateAdvertisement } from "@/lib/actions/advertisements";
 import { getUserNews } from "@/lib/actions/news";
+import { getAdCampaignOptions } from "@/lib/actions/ad-campaigns";
+import { getAdZoneOptions } from "@/lib/actions/ad-zones";
+import { describeAdZoneRules, type AdZoneOption } from "@/lib/utils/ads";
+import { AdTargetingFields, type AdTargetingValues } from "./ad-targeting-fields";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -14,7 +18,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2 } from "lucide-react";
+import { Loader2, Repeat } from "lucide-react";
 import {
   Select,
   SelectContent,
@@ -70,6 +74,9 @@ const updateAdvertisementSchema = z
     startDate: datetimeLocalSchema,
     endDate: datetimeLocalSchema,
     newsId: z.string().optional(),
+    weight: z.number().int().min(0, "Weight cannot be negative").max(100, "Weight cannot exceed 100").optional(),
+    frequencyCap: z.number().int().min(1, "Frequency cap must be at least 1").nullable().optional(),
+    campaignId: z.string().optional(),
   })
   .refine(
     (data) => {
@@ -90,14 +97,6 @@ const updateAdvertisementSchema = z
 
 type UpdateAdvertisementFormData = z.infer<typeof updateAdvertisementSchema>;
 
-const AD_ZONES = [
-  { value: "header", label: "Header" },
-  { value: "sidebar", label: "Sidebar" },
-  { value: "footer", label: "Footer" },
-  { value: "inline", label: "Inline" },
-  { value: "popup", label: "Popup" },
-];
-
 interface EditAdvertisementFormProps {
   advertisement: {
     id: string;
@@ -111,6 +110,15 @@ interface EditAdvertisementFormProps {
     startDate: Date;
     endDate: Date;
     newsId: string | null;
+    weight: number;
+    frequencyCap: number | null;
+    campaignId: string | null;
+    targetCategoryIds: string[];
+    excludedCategoryIds: string[];
+    targetNewsIds: string[];
+    targetDevices: string[];
+    targetCountries: string[];
+    targetRegions: string[];
   };
 }
 
@@ -119,6 +127,16 @@ export function EditAdvertisementForm({ advertisement }: EditAdvertisementFormPr
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
   const [newsPosts, setNewsPosts] = useState<Array<{ id: string; title: string }>>([]);
+  const [campaigns, setCampaigns] = useState<Array<{ id: string; name: string; status: string }>>([]);
+  const [zones, setZones] = useState<AdZoneOption[]>([]);
+  const [targeting, setTargeting] = useState<AdTargetingValues>({
+    targetCategoryIds: advertisement.targetCategoryIds,
+    excludedCategoryIds: advertisement.excludedCategoryIds,
+    targetNewsIds: advertisement.targetNewsIds,
+    targetDevices: advertisement.targetDevices as AdTargetingValues["targetDevices"],
+    targetCountries: advertisement.targetCountries,
+    targetRegions: advertisement.targetRegions,
+  });
 
   useEffect(() => {
     async function loadNews() {
@@ -130,6 +148,26 @@ export function EditAdvertisementForm({ advertisement }: EditAdvertisementFormPr
     loadNews();
   }, []);
 
+  useEffect(() => {
+    async function loadCampaigns() {
+      const result = await getAdCampaignOptions();
+      if (result.success && result.campaigns) {
+        setCampaigns(result.campaigns);
+      }
+    }
+    loadCampaigns();
+  }, []);
+
+  useEffect(() => {
+    async function loadZones() {
+      const result = await getAdZoneOptions();
+      if (result.success && result.zones) {
+        setZones(result.zones);
+      }
+    }
+    loadZones();
+  }, []);
+
   const {
     register,
     handleSubmit,
@@ -151,6 +189,9 @@ export function EditAdvertisementForm({ advertisement }: EditAdvertisementFormPr
       startDate: isoToDatetimeLocal(advertisement.startDate.toISOString()),
       endDate: isoToDatetimeLocal(advertisement.endDate.toISOString()),
       newsId: advertisement.newsId || "",
+      weight: advertisement.weight,
+      frequencyCap: advertisement.frequencyCap,
+      campaignId: advertisement.campaignId || "",
     },
     mode: "onChange",
   });
@@ -176,6 +217,7 @@ export function EditAdvertisementForm({ advertisement }: EditAdvertisementFormPr
         ...data,
         startDate: data.startDate ? datetimeLocalToISO(data.startDate) : undefined,
         endDate: data.endDate ? datetimeLocalToISO(data.endDate) : undefined,
+        ...targeting,
       };
       
       const result = await updateAdvertisement(transformedData);
@@ -205,6 +247,7 @@ export function EditAdvertisementForm({ advertisement }: EditAdvertisementFormPr
   };
 
   const imageUrl = watch("imageUrl");
+  const selectedZone = zones.find((zone) => zone.slug === watch("zone"));
   const isActive = watch("isActive");
 
   return (
@@ -333,13 +376,17 @@ export function EditAdvertisementForm({ advertisement }: EditAdvertisementFormPr
                           <SelectValue placeholder="Select zone" />
                         </SelectTrigger>
                         <SelectContent>
-                          {AD_ZONES.map((zone) => (
-                            <SelectItem key={zone.value} value={zone.value}>
-                              {zone.label}
+                          {zones.map((zone) => (
+                            <SelectItem key={zone.slug} value={zone.slug}>
+                              {zone.name}
+                              {!zone.isEnabled && " (disabled)"}
                             </SelectItem>
                           ))}
                         </SelectContent>
                       </Select>
+                      {selectedZone && (
+                        <p className="text-xs text-muted-foreground">{describeAdZoneRules(selectedZone)}</p>
+                      )}
                     </div>
 
                     <div className="space-y-3">
@@ -358,6 +405,101 @@ export function EditAdvertisementForm({ advertisement }: EditAdvertisementFormPr
                 </CardContent>
               </Card>
 
+              {/* Rotation & Delivery Card */}
+              <Card className="shadow-sm border">
+                <CardHeader className="pb-4">
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <Repeat className="h-5 w-5 text-primary" />
+                    Rotation & Delivery
+                  </CardTitle>
+                  <CardDescription>
+                    Control how often this ad is served among the other ads in its zone
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-3">
+                      <Label htmlFor="weight" className="text-base font-medium">Weight</Label>
+                      <Input
+                        id="weight"
+                        type="number"
+                        min={0}
+                        max={100}
+                        placeholder="1"
+                        {...register("weight", { valueAsNumber: true })}
+                        disabled={loading}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Relative share of rotation; 0 stops serving the ad
+                      </p>
+                      {errors.weight && (
+                        <p className="text-sm text-destructive flex items-center gap-1">
+                          <X className="h-3 w-3" />
+                          {errors.weight.message}
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="space-y-3">
+                      <Label htmlFor="frequencyCap" className="text-base font-medium">Frequency Cap</Label>
+                      <Input
+                        id="frequencyCap"
+                        type="number"
+                        min={1}
+                        placeholder="Unlimited"
+                        {...register("frequencyCap", {
+                          setValueAs: (value) => (value === "" || value === null ? null : Number(value)),
+                        })}
+                        disabled={loading}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Max times a visitor sees the ad per day
+                      </p>
+                      {errors.frequencyCap && (
+                        <p className="text-sm text-destructive flex items-center gap-1">
+                          <X className="h-3 w-3" />
+                          {errors.frequencyCap.message}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="space-y-3">
+                    <Label htmlFor="campaignId" className="text-base font-medium">Campaign</Label>
+                    <Select
+                      onValueChange={(value) =>
+                        setValue("campaignId", value === "none" ? "" : value, { shouldDirty: true })
+                      }
+                      defaultValue={advertisement.campaignId || "none"}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="No campaign" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">None</SelectItem>
+                        {campaigns.map((campaign) => (
+                          <SelectItem key={campaign.id} value={campaign.id}>
+                            {campaign.name}
+                            {campaign.status !== "active" && ` (${campaign.status})`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      The campaign&apos;s impression budgets pause this ad when spent
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Targeting Card */}
+              <AdTargetingFields
+                value={targeting}
+                onChange={setTargeting}
+                newsPosts={newsPosts}
+                disabled={loading}
+              />
+
               {/* Schedule Card */}
               <Card className="shadow-sm border">
                 <CardHeader className="pb-4">
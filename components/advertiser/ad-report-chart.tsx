@@ -0,0 +1,85 @@
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import type { AdReportDay } from "@/lib/utils/ad-reports";
+
+interface AdReportChartProps {
+  data: AdReportDay[];
+}
+
+const chartConfig = {
+  impressions: {
+    label: "Impressions",
+    color: "hsl(var(--chart-1))",
+  },
+  clicks: {
+    label: "Clicks",
+    color: "hsl(var(--chart-2))",
+  },
+  ctr: {
+    label: "CTR %",
+    color: "hsl(var(--chart-3))",
+  },
+} satisfies ChartConfig;
+
+export function AdReportChart({ data }: AdReportChartProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Daily Performance</CardTitle>
+        <CardDescription>Impressions, clicks and click-through rate by day (UTC)</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig} className="max-h-[320px] w-full">
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="date"
+              tickLine={false}
+              axisLine={false}
+              tickMargin={8}
+              tickFormatter={(value) => {
+                const date = new Date(value);
+                return date.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+              }}
+            />
+            <YAxis yAxisId="count" tickLine={false} axisLine={false} width={48} />
+            <YAxis yAxisId="ctr" orientation="right" tickLine={false} axisLine={false} width={40} unit="%" />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Line
+              yAxisId="count"
+              type="monotone"
+              dataKey="impressions"
+              stroke="var(--color-impressions)"
+              strokeWidth={2}
+              dot={false}
+            />
+            <Line
+              yAxisId="count"
+              type="monotone"
+              dataKey="clicks"
+              stroke="var(--color-clicks)"
+              strokeWidth={2}
+              dot={false}
+            />
+            <Line
+              yAxisId="ctr"
+              type="monotone"
+              dataKey="ctr"
+              stroke="var(--color-ctr)"
+              strokeDasharray="4 4"
+              dot={false}
+            />
+          </LineChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
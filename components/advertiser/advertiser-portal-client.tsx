@@ -0,0 +1,317 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { StatCard } from "@/components/analytics/stat-card";
+import { AdReportChart } from "./ad-report-chart";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Eye, MousePointerClick, Percent, Target, Download, FileText, Plus } from "lucide-react";
+import PageContainer from "@/components/layout/page-container";
+import { AD_REPORT_RANGES, type AdReport } from "@/lib/utils/ad-reports";
+import { formatDate } from "@/lib/utils";
+
+/**
+ * Advertiser Portal
+ * Campaign reports and creative submissions for sponsors
+ */
+interface PortalCampaign {
+  id: string;
+  name: string;
+  status: string;
+  impressions: number;
+  totalImpressionBudget: number | null;
+  adCount: number;
+}
+
+interface PortalCreative {
+  id: string;
+  title: string;
+  zone: string;
+  reviewStatus: string;
+  reviewNote: string | null;
+  startDate: Date;
+  endDate: Date;
+  createdAt: Date;
+  campaign: { id: string; name: string } | null;
+}
+
+interface AdvertiserPortalClientProps {
+  campaigns: PortalCampaign[];
+  creatives: PortalCreative[];
+  report: AdReport;
+  campaignId?: string;
+  days: number;
+}
+
+const REVIEW_BADGES: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  approved: { label: "Approved", variant: "default" },
+  pending: { label: "Pending review", variant: "outline" },
+  rejected: { label: "Rejected", variant: "destructive" },
+};
+
+export function AdvertiserPortalClient({
+  campaigns,
+  creatives,
+  report,
+  campaignId,
+  days,
+}: AdvertiserPortalClientProps) {
+  const router = useRouter();
+
+  const navigate = (next: { campaignId?: string; days?: number }) => {
+    const params = new URLSearchParams();
+    const campaign = next.campaignId !== undefined ? next.campaignId : campaignId;
+    if (campaign) params.set("campaign", campaign);
+    params.set("days", String(next.days ?? days));
+    router.push(`/dashboard/advertiser?${params.toString()}`);
+  };
+
+  const downloadUrl = (format: "csv" | "pdf") => {
+    const params = new URLSearchParams({ days: String(days), format });
+    if (campaignId) params.set("campaignId", campaignId);
+    return `/api/advertiser/reports?${params.toString()}`;
+  };
+
+  return (
+    <PageContainer>
+      <div className="flex flex-1 flex-col space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Advertiser Portal</h1>
+            <p className="text-muted-foreground mt-2">
+              Performance of your campaigns and the status of your creatives
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Select
+              value={campaignId || "all"}
+              onValueChange={(value) => navigate({ campaignId: value === "all" ? "" : value })}
+            >
+              <SelectTrigger className="w-[220px]">
+                <SelectValue placeholder="All campaigns" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All campaigns</SelectItem>
+                {campaigns.map((campaign) => (
+                  <SelectItem key={campaign.id} value={campaign.id}>
+                    {campaign.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={String(days)} onValueChange={(value) => navigate({ days: Number(value) })}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="Select period" />
+              </SelectTrigger>
+              <SelectContent>
+                {AD_REPORT_RANGES.map((range) => (
+                  <SelectItem key={range} value={String(range)}>
+                    Last {range} days
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <a href={downloadUrl("csv")} download>
+              <Button variant="outline">
+                <Download className="h-4 w-4 mr-2" />
+                CSV
+              </Button>
+            </a>
+            <a href={downloadUrl("pdf")} download>
+              <Button variant="outline">
+                <FileText className="h-4 w-4 mr-2" />
+                PDF
+              </Button>
+            </a>
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          <StatCard
+            title="Impressions"
+            value={report.totals.impressions.toLocaleString()}
+            icon={Eye}
+            description={`${report.from} to ${report.to}`}
+          />
+          <StatCard
+            title="Clicks"
+            value={report.totals.clicks.toLocaleString()}
+            icon={MousePointerClick}
+            description={`${report.from} to ${report.to}`}
+          />
+          <StatCard
+            title="CTR"
+            value={`${report.totals.ctr.toFixed(2)}%`}
+            icon={Percent}
+            description="Clicks per 100 impressions"
+          />
+          <StatCard
+            title="Campaigns"
+            value={campaigns.length}
+            icon={Target}
+            description={`${campaigns.filter((campaign) => campaign.status === "active").length} active`}
+          />
+        </div>
+
+        <AdReportChart data={report.days} />
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Campaigns</CardTitle>
+              <CardDescription>Lifetime impressions against the campaign budget</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Impressions</TableHead>
+                    <TableHead className="text-right">Creatives</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {campaigns.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground">
+                        No campaigns are assigned to your account yet.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    campaigns.map((campaign) => (
+                      <TableRow key={campaign.id}>
+                        <TableCell className="font-medium">{campaign.name}</TableCell>
+                        <TableCell>
+                          <Badge variant={campaign.status === "active" ? "default" : "secondary"}>
+                            {campaign.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {campaign.impressions.toLocaleString()}
+                          {campaign.totalImpressionBudget &&
+                            ` / ${campaign.totalImpressionBudget.toLocaleString()}`}
+                        </TableCell>
+                        <TableCell className="text-right">{campaign.adCount}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Creative Performance</CardTitle>
+              <CardDescription>Impressions and clicks per creative in the selected period</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Creative</TableHead>
+                    <TableHead className="text-right">Impressions</TableHead>
+                    <TableHead className="text-right">Clicks</TableHead>
+                    <TableHead className="text-right">CTR</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.creatives.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground">
+                        No impressions in this period.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    report.creatives.map((creative) => (
+                      <TableRow key={creative.adId}>
+                        <TableCell className="font-medium">{creative.title}</TableCell>
+                        <TableCell className="text-right">{creative.impressions.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{creative.clicks.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{creative.ctr.toFixed(2)}%</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Creatives</CardTitle>
+              <CardDescription>New creatives are served once our team approves them</CardDescription>
+            </div>
+            {campaigns.length > 0 && (
+              <Link href="/dashboard/advertiser/creatives/new">
+                <Button>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Submit Creative
+                </Button>
+              </Link>
+            )}
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Campaign</TableHead>
+                  <TableHead>Zone</TableHead>
+                  <TableHead>Review</TableHead>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead>Submitted</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {creatives.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      No creatives yet.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  creatives.map((creative) => {
+                    const badge = REVIEW_BADGES[creative.reviewStatus] || REVIEW_BADGES.pending;
+                    return (
+                      <TableRow key={creative.id}>
+                        <TableCell className="font-medium">{creative.title}</TableCell>
+                        <TableCell>{creative.campaign?.name || "-"}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{creative.zone}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={badge.variant}>{badge.label}</Badge>
+                          {creative.reviewStatus === "rejected" && creative.reviewNote && (
+                            <p className="text-xs text-muted-foreground mt-1 max-w-xs">{creative.reviewNote}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {formatDate(creative.startDate)} to {formatDate(creative.endDate)}
+                        </TableCell>
+                        <TableCell>{formatDate(creative.createdAt)}</TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </PageContainer>
+  );
+}
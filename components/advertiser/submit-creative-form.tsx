@@ -0,0 +1,322 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { submitAdCreative } from "@/lib/actions/advertiser-portal";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { MediaPicker } from "@/components/media/media-picker";
+import { OptimizedImage } from "@/components/ui/optimized-image";
+import { useToast } from "@/hooks/use-toast";
+import { Calendar, Image as ImageIcon, Link2, Loader2, Send, X } from "lucide-react";
+import { datetimeLocalToISO, validateDateRange } from "@/lib/utils/datetime-utils";
+import { describeAdZoneRules, type AdZoneOption } from "@/lib/utils/ads";
+
+/**
+ * Creative submission form for advertisers
+ * Submitted creatives wait for staff approval before they are served
+ */
+
+const submitCreativeSchema = z
+  .object({
+    campaignId: z.string().min(1, "Campaign is required"),
+    title: z.string().min(1, "Title is required").max(200, "Title must be under 200 characters"),
+    description: z.string().max(1000, "Description must be under 1000 characters").optional(),
+    imageUrl: z.string().min(1, "Image is required"),
+    linkUrl: z.string().url("Please enter a valid URL").optional().or(z.literal("")),
+    zone: z.string().min(1, "Please select a zone"),
+    startDate: z.string().min(1, "Date is required"),
+    endDate: z.string().min(1, "Date is required"),
+  })
+  .refine(
+    (data) => {
+      try {
+        return validateDateRange(datetimeLocalToISO(data.startDate), datetimeLocalToISO(data.endDate));
+      } catch {
+        return false;
+      }
+    },
+    {
+      message: "End date must be after start date",
+      path: ["endDate"],
+    }
+  );
+
+type SubmitCreativeFormData = z.infer<typeof submitCreativeSchema>;
+
+interface SubmitCreativeFormProps {
+  campaigns: Array<{ id: string; name: string }>;
+  zones: AdZoneOption[];
+}
+
+export function SubmitCreativeForm({ campaigns, zones }: SubmitCreativeFormProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+
+  const now = new Date();
+  const defaultStartDate = now.toISOString().slice(0, 16);
+  const defaultEndDate = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 16);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    watch,
+    setValue,
+  } = useForm<SubmitCreativeFormData>({
+    resolver: zodResolver(submitCreativeSchema),
+    defaultValues: {
+      campaignId: campaigns.length === 1 ? campaigns[0].id : "",
+      zone: zones.some((zone) => zone.slug === "sidebar") ? "sidebar" : zones[0]?.slug || "",
+      startDate: defaultStartDate,
+      endDate: defaultEndDate,
+    },
+  });
+
+  const imageUrl = watch("imageUrl");
+  const selectedZone = zones.find((zone) => zone.slug === watch("zone"));
+
+  const handleImageSelect = useCallback((url: string) => {
+    const normalizedUrl = url && !url.startsWith("http") && !url.startsWith("/") ? `/${url}` : url;
+    setValue("imageUrl", normalizedUrl || "", { shouldValidate: true });
+  }, [setValue]);
+
+  const onSubmit = async (data: SubmitCreativeFormData) => {
+    setLoading(true);
+    try {
+      const result = await submitAdCreative({
+        ...data,
+        startDate: datetimeLocalToISO(data.startDate),
+        endDate: datetimeLocalToISO(data.endDate),
+      });
+
+      if (result.success) {
+        toast({
+          title: "Creative submitted",
+          description: "It will start serving once our team approves it.",
+        });
+        router.push("/dashboard/advertiser");
+      } else {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to submit creative",
+          variant: "destructive",
+        });
+      }
+    } catch {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 max-w-3xl">
+      <Card className="shadow-sm border">
+        <CardHeader className="pb-4">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <ImageIcon className="h-5 w-5 text-primary" />
+            Creative
+          </CardTitle>
+          <CardDescription>The image and text shown to readers</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-3">
+            <Label htmlFor="campaignId" className="text-base font-medium">Campaign *</Label>
+            <Select
+              defaultValue={campaigns.length === 1 ? campaigns[0].id : undefined}
+              onValueChange={(value) => setValue("campaignId", value, { shouldValidate: true })}
+              disabled={loading}
+            >
+              <SelectTrigger id="campaignId">
+                <SelectValue placeholder="Select a campaign" />
+              </SelectTrigger>
+              <SelectContent>
+                {campaigns.map((campaign) => (
+                  <SelectItem key={campaign.id} value={campaign.id}>
+                    {campaign.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.campaignId && (
+              <p className="text-sm text-destructive flex items-center gap-1">
+                <X className="h-3 w-3" />
+                {errors.campaignId.message}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <Label htmlFor="title" className="text-base font-medium">Title *</Label>
+            <Input id="title" placeholder="Creative title" {...register("title")} disabled={loading} />
+            {errors.title && (
+              <p className="text-sm text-destructive flex items-center gap-1">
+                <X className="h-3 w-3" />
+                {errors.title.message}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <Label htmlFor="description" className="text-base font-medium">Description</Label>
+            <Textarea
+              id="description"
+              placeholder="Short description..."
+              {...register("description")}
+              disabled={loading}
+              rows={3}
+              className="resize-none"
+            />
+          </div>
+
+          <div className="space-y-3">
+            <MediaPicker
+              value={imageUrl || ""}
+              onSelect={handleImageSelect}
+              type="image"
+              label="Select Creative Image"
+              description={
+                selectedZone
+                  ? `The ${selectedZone.name} zone takes ${describeAdZoneRules(selectedZone)}`
+                  : "Use the dimensions agreed for the zone"
+              }
+            />
+            {imageUrl && (
+              <div className="relative aspect-[3/2] w-full max-w-md overflow-hidden rounded-lg border bg-background">
+                <OptimizedImage src={imageUrl} alt="Creative preview" fill className="object-cover" sizes="448px" />
+              </div>
+            )}
+            {errors.imageUrl && (
+              <p className="text-sm text-destructive flex items-center gap-1">
+                <X className="h-3 w-3" />
+                {errors.imageUrl.message}
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-sm border">
+        <CardHeader className="pb-4">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Link2 className="h-5 w-5 text-primary" />
+            Placement
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-3">
+            <Label htmlFor="linkUrl" className="text-base font-medium">Link URL</Label>
+            <Input
+              id="linkUrl"
+              type="url"
+              placeholder="https://example.com"
+              {...register("linkUrl")}
+              disabled={loading}
+            />
+            {errors.linkUrl && (
+              <p className="text-sm text-destructive flex items-center gap-1">
+                <X className="h-3 w-3" />
+                {errors.linkUrl.message}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <Label htmlFor="zone" className="text-base font-medium">Zone *</Label>
+            <Select
+              value={watch("zone")}
+              onValueChange={(value) => setValue("zone", value, { shouldValidate: true })}
+              disabled={loading}
+            >
+              <SelectTrigger id="zone">
+                <SelectValue placeholder="Select zone" />
+              </SelectTrigger>
+              <SelectContent>
+                {zones.map((zone) => (
+                  <SelectItem key={zone.slug} value={zone.slug}>
+                    {zone.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedZone && (
+              <p className="text-xs text-muted-foreground">{describeAdZoneRules(selectedZone)}</p>
+            )}
+            {errors.zone && (
+              <p className="text-sm text-destructive flex items-center gap-1">
+                <X className="h-3 w-3" />
+                {errors.zone.message}
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-sm border">
+        <CardHeader className="pb-4">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Calendar className="h-5 w-5 text-primary" />
+            Schedule
+          </CardTitle>
+          <CardDescription>Requested run dates; our team may adjust them on approval</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-3">
+              <Label htmlFor="startDate" className="text-base font-medium">Start Date *</Label>
+              <Input id="startDate" type="datetime-local" {...register("startDate")} disabled={loading} />
+            </div>
+            <div className="space-y-3">
+              <Label htmlFor="endDate" className="text-base font-medium">End Date *</Label>
+              <Input id="endDate" type="datetime-local" {...register("endDate")} disabled={loading} />
+              {errors.endDate && (
+                <p className="text-sm text-destructive flex items-center gap-1">
+                  <X className="h-3 w-3" />
+                  {errors.endDate.message}
+                </p>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex gap-2">
+        <Button type="submit" disabled={loading}>
+          {loading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Submitting...
+            </>
+          ) : (
+            <>
+              <Send className="mr-2 h-4 w-4" />
+              Submit for Review
+            </>
+          )}
+        </Button>
+        <Button type="button" variant="outline" onClick={() => router.back()} disabled={loading}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -8,6 +8,8 @@ import { NewsViewsChart } from "@/components/analytics/news-views-chart";
 import { DevicePieChart } from "@/components/analytics/device-pie-chart";
 import { TopNewsTable } from "@/components/analytics/top-news-table";
 import { AdPerformanceTable } from "@/components/analytics/ad-performance-table";
+import { SearchQueriesTable } from "@/components/analytics/search-queries-table";
+import { TrafficQualityTable } from "@/components/analytics/traffic-quality-table";
 import {
   Select,
   SelectContent,
@@ -15,7 +17,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Users, Eye, FileText, MousePointerClick, TrendingUp } from "lucide-react";
+import { Users, Eye, FileText, MousePointerClick, TrendingUp, Search, SearchX } from "lucide-react";
 import PageContainer from "@/components/layout/page-container";
 
 interface AnalyticsClientProps {
@@ -41,6 +43,8 @@ export function AnalyticsClient({ initialData, initialDays }: AnalyticsClientPro
   const devices = initialData.devices?.devices || [];
   const browsers = initialData.devices?.browsers || [];
   const os = initialData.devices?.os || [];
+  const search = initialData.search;
+  const trafficQuality = initialData.trafficQuality?.kinds || [];
 
   // Format visits data for chart
   const visitsChartData = visits.map((item: any) => ({
@@ -139,6 +143,33 @@ export function AnalyticsClient({ initialData, initialDays }: AnalyticsClientPro
           {adStats.length > 0 && <AdPerformanceTable data={adStats} />}
         </div>
 
+        {/* Valid vs filtered tracking */}
+        {trafficQuality.length > 0 && <TrafficQualityTable data={trafficQuality} />}
+
+        {/* Search */}
+        {search && (
+          <>
+            <div className="grid gap-4 md:grid-cols-2">
+              <StatCard
+                title="Searches"
+                value={search.totalSearches || 0}
+                icon={Search}
+                description={`Last ${days} days`}
+              />
+              <StatCard
+                title="Searches With No Results"
+                value={search.zeroResultSearches || 0}
+                icon={SearchX}
+                description={`${search.zeroResultRate}% of searches`}
+              />
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <SearchQueriesTable data={search.topQueries || []} variant="top" />
+              <SearchQueriesTable data={search.zeroResultQueries || []} variant="zero-result" />
+            </div>
+          </>
+        )}
+
         {/* Additional Stats */}
         {initialData.visits && (
           <div className="grid gap-4 md:grid-cols-3">
@@ -0,0 +1,82 @@
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Search, SearchX } from "lucide-react";
+import Link from "next/link";
+import { formatDate } from "@/lib/utils";
+
+interface SearchQueryItem {
+  query: string;
+  count: number;
+  lastSearchedAt: string | Date | null;
+}
+
+interface SearchQueriesTableProps {
+  data: SearchQueryItem[];
+  variant: "top" | "zero-result";
+}
+
+export function SearchQueriesTable({ data, variant }: SearchQueriesTableProps) {
+  const isZeroResult = variant === "zero-result";
+  const Icon = isZeroResult ? SearchX : Search;
+  const title = isZeroResult ? "Searches With No Results" : "Top Searches";
+  const description = isZeroResult
+    ? "Queries readers searched for but found nothing"
+    : "Most searched queries that returned results";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Icon className="h-5 w-5" />
+          {title}
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {data.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No search data available
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Query</TableHead>
+                <TableHead>Last Searched</TableHead>
+                <TableHead className="text-right">Searches</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.map((item) => (
+                <TableRow key={item.query}>
+                  <TableCell>
+                    <Link
+                      href={`/search?q=${encodeURIComponent(item.query)}`}
+                      target="_blank"
+                      className="font-medium hover:underline"
+                    >
+                      {item.query}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {item.lastSearchedAt ? formatDate(item.lastSearchedAt) : "-"}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">{item.count}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
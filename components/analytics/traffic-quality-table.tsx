@@ -0,0 +1,86 @@
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { ShieldCheck } from "lucide-react";
+
+interface TrafficQualityItem {
+  kind: string;
+  label: string;
+  valid: number;
+  filtered: number;
+  filteredRate: string;
+  reasons: Array<{ reason: string; count: number }>;
+}
+
+interface TrafficQualityTableProps {
+  data: TrafficQualityItem[];
+}
+
+const REASON_LABELS: Record<string, string> = {
+  bot: "Bots",
+  automation: "Scripted",
+  prefetch: "Prefetch",
+  duplicate: "Duplicates",
+  rate_limited: "Bursts",
+};
+
+export function TrafficQualityTable({ data }: TrafficQualityTableProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Traffic Quality
+        </CardTitle>
+        <CardDescription>
+          Valid events are counted; filtered ones came from bots, repeat views or click bursts
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Event</TableHead>
+              <TableHead className="text-right">Valid</TableHead>
+              <TableHead className="text-right">Filtered</TableHead>
+              <TableHead className="text-right">Filtered %</TableHead>
+              <TableHead>Filtered As</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.map((item) => (
+              <TableRow key={item.kind}>
+                <TableCell className="font-medium">{item.label}</TableCell>
+                <TableCell className="text-right">{item.valid.toLocaleString()}</TableCell>
+                <TableCell className="text-right">{item.filtered.toLocaleString()}</TableCell>
+                <TableCell className="text-right">{item.filteredRate}%</TableCell>
+                <TableCell>
+                  {item.reasons.length === 0 ? (
+                    <span className="text-sm text-muted-foreground">-</span>
+                  ) : (
+                    <div className="flex flex-wrap gap-1">
+                      {item.reasons.map((reason) => (
+                        <Badge key={reason.reason} variant="secondary">
+                          {REASON_LABELS[reason.reason] || reason.reason}: {reason.count.toLocaleString()}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
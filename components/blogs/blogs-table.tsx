@@ -151,6 +151,13 @@ export function BlogsTable({ blogs, total, page, totalPages, search: initialSear
                     <TableCell>{formatDate(blog.createdAt)}</TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
+                        {blog.isPublished && blog.isActive && (
+                          <Link href={`/blog/${blog.slug}`} target="_blank">
+                            <Button variant="ghost" size="icon">
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                          </Link>
+                        )}
                         <Link href={`/dashboard/blogs/${blog.id}/edit`}>
                           <Button variant="ghost" size="icon">
                             <Edit className="h-4 w-4" />
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -14,6 +14,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
+import { Editor } from "@/components/blocks/editor-x/editor";
+import { SerializedEditorState } from "lexical";
 
 const createBlogSchema = z.object({
   title: z.string().min(1, "Title is required"),
@@ -63,6 +65,10 @@ export function CreateBlogForm() {
     }
   };
 
+  const handleEditorChange = useCallback((serializedState: SerializedEditorState) => {
+    setValue("content", JSON.stringify(serializedState), { shouldValidate: true, shouldDirty: true });
+  }, [setValue]);
+
   const onSubmit = async (data: CreateBlogFormData) => {
     setLoading(true);
     try {
@@ -168,15 +174,10 @@ export function CreateBlogForm() {
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="content">Content *</Label>
-            <Textarea
-              id="content"
-              placeholder="Write your blog content here..."
-              {...register("content")}
-              disabled={loading}
-              rows={15}
-              className="font-mono text-sm"
-            />
+            <Label>Content *</Label>
+            <div className="min-h-[400px] border rounded-lg overflow-hidden">
+              <Editor onSerializedChange={handleEditorChange} />
+            </div>
             {errors.content && (
               <p className="text-sm text-destructive">{errors.content.message}</p>
             )}
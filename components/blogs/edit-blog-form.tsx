@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -14,6 +14,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
+import { Editor } from "@/components/blocks/editor-x/editor";
+import { SerializedEditorState } from "lexical";
+import { isLexicalContent, plainTextToLexicalState } from "@/lib/utils/lexical-to-html";
 
 const updateBlogSchema = z.object({
   id: z.string(),
@@ -66,6 +69,15 @@ export function EditBlogForm({ blog }: EditBlogFormProps) {
     },
   });
 
+  // Posts saved before the rich editor existed are plain text
+  const [initialContent] = useState<SerializedEditorState>(() =>
+    isLexicalContent(blog.content) ? JSON.parse(blog.content) : plainTextToLexicalState(blog.content)
+  );
+
+  const handleEditorChange = useCallback((serializedState: SerializedEditorState) => {
+    setValue("content", JSON.stringify(serializedState), { shouldValidate: true, shouldDirty: true });
+  }, [setValue]);
+
   const onSubmit = async (data: UpdateBlogFormData) => {
     setLoading(true);
     try {
@@ -145,14 +157,13 @@ export function EditBlogForm({ blog }: EditBlogFormProps) {
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="content">Content</Label>
-            <Textarea
-              id="content"
-              {...register("content")}
-              disabled={loading}
-              rows={15}
-              className="font-mono text-sm"
-            />
+            <Label>Content</Label>
+            <div className="min-h-[400px] border rounded-lg overflow-hidden">
+              <Editor
+                editorSerializedState={initialContent}
+                onSerializedChange={handleEditorChange}
+              />
+            </div>
           </div>
 
           <div className="flex items-center space-x-2">
@@ -0,0 +1,232 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+import { testCommentModeration, updateCommentModerationSettings } from "@/lib/actions/comment-moderation";
+import {
+  describeModerationFlag,
+  type ModerationAssessment,
+  type ModerationSettingsValues,
+} from "@/lib/utils/comment-moderation";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * Comment Filter Settings Component
+ * Thresholds, heuristic weights and posting limits, plus a box to try
+ * the saved filters on sample text
+ */
+interface CommentFilterSettingsProps {
+  settings: ModerationSettingsValues;
+}
+
+type SettingsField = keyof ModerationSettingsValues;
+
+const SETTINGS_SECTIONS: { title: string; fields: { field: SettingsField; label: string; hint: string }[] }[] = [
+  {
+    title: "Decision thresholds",
+    fields: [
+      { field: "holdThreshold", label: "Hold at score", hint: "Comments scoring this or more wait for a moderator" },
+      { field: "rejectThreshold", label: "Reject at score", hint: "Comments scoring this or more are stored as spam" },
+    ],
+  },
+  {
+    title: "Links",
+    fields: [
+      { field: "maxLinks", label: "Links allowed", hint: "Each link beyond this adds the link weight" },
+      { field: "maxLinkPercent", label: "Max link share (%)", hint: "Share of words that may be links" },
+      { field: "linkWeight", label: "Link weight", hint: "Score per extra link, and for mostly-link comments" },
+    ],
+  },
+  {
+    title: "Repeated content",
+    fields: [
+      { field: "repeatWeight", label: "Repetition weight", hint: "Stretched characters, repeated words or all caps" },
+      { field: "duplicateWeight", label: "Duplicate weight", hint: "Same text posted in the last 24 hours" },
+    ],
+  },
+  {
+    title: "Posting rate",
+    fields: [
+      { field: "rateLimitCount", label: "Comments per IP", hint: "Further comments are refused until the window ends" },
+      { field: "rateLimitWindowMinutes", label: "Window (minutes)", hint: "" },
+    ],
+  },
+  {
+    title: "Reader reports",
+    fields: [
+      {
+        field: "reportHideThreshold",
+        label: "Hide after reports",
+        hint: "Open reports that hide a comment until a moderator decides",
+      },
+    ],
+  },
+];
+
+const DECISION_LABELS: Record<ModerationAssessment["decision"], string> = {
+  approve: "Published",
+  hold: "Held for review",
+  reject: "Rejected as spam",
+};
+
+export function CommentFilterSettings({ settings }: CommentFilterSettingsProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [form, setForm] = useState<Record<SettingsField, string>>(
+    () =>
+      Object.fromEntries(Object.entries(settings).map(([key, value]) => [key, String(value)])) as Record<
+        SettingsField,
+        string
+      >
+  );
+  const [saving, setSaving] = useState(false);
+  const [sample, setSample] = useState("");
+  const [testing, setTesting] = useState(false);
+  const [assessment, setAssessment] = useState<ModerationAssessment | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    const result = await updateCommentModerationSettings(
+      Object.fromEntries(Object.entries(form).map(([key, value]) => [key, parseInt(value) || 0])) as Record<
+        SettingsField,
+        number
+      >
+    );
+    setSaving(false);
+
+    if (result.success) {
+      toast({
+        title: "Settings saved",
+        description: "New comments are scored with the updated settings.",
+      });
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to save settings",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleTest = async () => {
+    if (!sample.trim()) return;
+
+    setTesting(true);
+    const result = await testCommentModeration(sample);
+    setTesting(false);
+
+    if (result.success && result.assessment) {
+      setAssessment(result.assessment);
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to test comment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle>Scoring</CardTitle>
+          <CardDescription>
+            Wordlist matches add their severity; the weights below add to the same score
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {SETTINGS_SECTIONS.map((section) => (
+              <div key={section.title} className="space-y-3">
+                <h3 className="text-sm font-medium">{section.title}</h3>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  {section.fields.map(({ field, label, hint }) => (
+                    <div key={field} className="space-y-1">
+                      <Label htmlFor={`filter-${field}`}>{label}</Label>
+                      <Input
+                        id={`filter-${field}`}
+                        type="number"
+                        min={0}
+                        value={form[field]}
+                        onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                        disabled={saving}
+                        required
+                      />
+                      {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            <Button type="submit" disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save settings
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="h-fit">
+        <CardHeader>
+          <CardTitle>Try the filters</CardTitle>
+          <CardDescription>
+            Scores text with the saved settings and wordlists. Duplicates and the rate limit are not checked.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Textarea
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+            placeholder="Paste a comment in English, Hindi or Hinglish..."
+            rows={5}
+            maxLength={5000}
+          />
+          <Button type="button" variant="outline" onClick={handleTest} disabled={testing || !sample.trim()}>
+            {testing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Score text
+          </Button>
+
+          {assessment && (
+            <div className="space-y-2 rounded-md border p-3 text-sm">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">Score {assessment.score}</span>
+                <Badge
+                  variant={
+                    assessment.decision === "reject"
+                      ? "destructive"
+                      : assessment.decision === "hold"
+                        ? "secondary"
+                        : "default"
+                  }
+                >
+                  {DECISION_LABELS[assessment.decision]}
+                </Badge>
+              </div>
+              {assessment.flags.length > 0 ? (
+                <ul className="list-disc pl-5 text-muted-foreground">
+                  {assessment.flags.map((flag) => (
+                    <li key={flag}>{describeModerationFlag(flag)}</li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-muted-foreground">Nothing matched.</p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,641 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Check, X, ShieldAlert, Trash2, Search, MessagesSquare, Flag } from "lucide-react";
+import {
+  getCommentThread,
+  moderateComments,
+  setNewsCommentMode,
+} from "@/lib/actions/comments";
+import {
+  COMMENT_MODES,
+  COMMENT_MODE_LABELS,
+  COMMENT_QUEUE_FILTERS,
+  COMMENT_QUEUE_LABELS,
+  COMMENT_REPORT_REASON_LABELS,
+  isCommentMode,
+  type CommentBulkAction,
+  type CommentMode,
+  type CommentQueueFilter,
+  type CommentReportReason,
+} from "@/lib/utils/comments";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { describeModerationFlag } from "@/lib/utils/comment-moderation";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn, formatDate } from "@/lib/utils";
+
+/**
+ * Comment Moderation Queue Component
+ * Filterable list of comments with bulk decisions, a threaded context view
+ * and the comment setting of the article being moderated
+ */
+interface QueueNews {
+  id: string;
+  title: string;
+  slug: string;
+  commentMode: string;
+}
+
+interface QueueComment {
+  id: string;
+  authorName: string;
+  authorEmail: string | null;
+  content: string;
+  isApproved: boolean;
+  isSpam: boolean;
+  isVulgar: boolean;
+  reportCount: number;
+  hiddenByReportsAt: Date | null;
+  moderationScore: number;
+  moderationFlags: string[];
+  moderatedAt: Date | null;
+  createdAt: Date;
+  news: QueueNews;
+  parent: { id: string; authorName: string; content: string } | null;
+  reports: { reason: string; details: string | null; createdAt: Date }[]; // Open reports, newest first
+  _count: { replies: number };
+}
+
+interface ThreadComment {
+  id: string;
+  authorName: string;
+  authorEmail: string | null;
+  content: string;
+  isApproved: boolean;
+  isSpam: boolean;
+  isVulgar: boolean;
+  reportCount: number;
+  hiddenByReportsAt: Date | null;
+  moderationScore: number;
+  moderationFlags: string[];
+  likes: number;
+  ipAddress: string | null;
+  createdAt: Date;
+  moderatedAt: Date | null;
+  depth: number;
+}
+
+interface CommentModerationQueueProps {
+  comments: QueueComment[];
+  counts: Record<CommentQueueFilter, number>;
+  filter: CommentQueueFilter;
+  news: QueueNews | null;
+  total: number;
+  page: number;
+  totalPages: number;
+  search?: string;
+}
+
+const ACTION_LABELS: Record<CommentBulkAction, string> = {
+  approve: "Approve",
+  reject: "Reject",
+  spam: "Mark as spam",
+  delete: "Delete",
+};
+
+const ACTION_RESULTS: Record<CommentBulkAction, string> = {
+  approve: "approved",
+  reject: "rejected",
+  spam: "marked as spam",
+  delete: "deleted",
+};
+
+/**
+ * Open reports grouped by reason, e.g. "Hate speech (2), Off topic (1)"
+ */
+function summarizeReports(reports: QueueComment["reports"]) {
+  const counts = new Map<string, number>();
+  for (const report of reports) {
+    counts.set(report.reason, (counts.get(report.reason) || 0) + 1);
+  }
+  return Array.from(counts, ([reason, count]) => {
+    const label = COMMENT_REPORT_REASON_LABELS[reason as CommentReportReason] ?? reason;
+    return `${label} (${count})`;
+  }).join(", ");
+}
+
+function StatusBadges({ comment }: { comment: Omit<QueueComment, "news" | "parent" | "reports" | "_count"> }) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {comment.isSpam ? (
+        <Badge variant="destructive">Spam</Badge>
+      ) : comment.isVulgar ? (
+        <Badge variant="destructive">Vulgar</Badge>
+      ) : comment.isApproved ? (
+        <Badge>Approved</Badge>
+      ) : comment.hiddenByReportsAt ? (
+        <Badge variant="outline" className="border-orange-500 text-orange-600">
+          Hidden by reports
+        </Badge>
+      ) : comment.moderatedAt ? (
+        <Badge variant="secondary">Rejected</Badge>
+      ) : (
+        <Badge variant="outline">Pending</Badge>
+      )}
+      {comment.reportCount > 0 && (
+        <Badge variant="outline" className="border-orange-500 text-orange-600">
+          <Flag className="h-3 w-3 mr-1" />
+          {comment.reportCount}
+        </Badge>
+      )}
+      {comment.moderationScore > 0 && (
+        <Badge
+          variant="outline"
+          title={comment.moderationFlags.map(describeModerationFlag).join(", ")}
+        >
+          Score {comment.moderationScore}
+        </Badge>
+      )}
+    </div>
+  );
+}
+
+export function CommentModerationQueue({
+  comments,
+  counts,
+  filter,
+  news,
+  total,
+  page,
+  totalPages,
+  search: initialSearch,
+}: CommentModerationQueueProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [search, setSearch] = useState(initialSearch || "");
+  const [selection, setSelection] = useState<string[]>([]);
+  const [working, setWorking] = useState(false);
+  const [pendingAction, setPendingAction] = useState<{ action: CommentBulkAction; ids: string[] } | null>(null);
+  const [reason, setReason] = useState("");
+  const [threadId, setThreadId] = useState<string | null>(null);
+  const [thread, setThread] = useState<{ comments: ThreadComment[]; focusId: string; news: QueueNews | null } | null>(
+    null
+  );
+  const [threadLoading, setThreadLoading] = useState(false);
+
+  // Selection only applies to the rows on screen
+  const selected = selection.filter((id) => comments.some((comment) => comment.id === id));
+
+  const buildUrl = (changes: Record<string, string | null>) => {
+    const params = new URLSearchParams();
+    const current: Record<string, string | null> = {
+      filter,
+      search: initialSearch || null,
+      newsId: news?.id || null,
+      page: "1",
+      ...changes,
+    };
+    for (const [key, value] of Object.entries(current)) {
+      if (value) params.set(key, value);
+    }
+    return `/dashboard/comments?${params.toString()}`;
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    router.push(buildUrl({ search: search || null }));
+  };
+
+  const loadThread = async (commentId: string) => {
+    setThreadLoading(true);
+    const result = await getCommentThread(commentId);
+    setThreadLoading(false);
+
+    if (result.success && result.thread && result.focusId) {
+      setThread({ comments: result.thread, focusId: result.focusId, news: result.news ?? null });
+    } else {
+      setThreadId(null);
+      toast({
+        title: "Error",
+        description: result.error || "Failed to load thread",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openThread = (commentId: string) => {
+    setThreadId(commentId);
+    setThread(null);
+    loadThread(commentId);
+  };
+
+  const runAction = async (action: CommentBulkAction, ids: string[], actionReason?: string) => {
+    setWorking(true);
+    const result = await moderateComments({ commentIds: ids, action, reason: actionReason || undefined });
+    setWorking(false);
+
+    if (result.success) {
+      toast({
+        title: "Comments moderated",
+        description: `${result.count} comment(s) ${ACTION_RESULTS[action]}.`,
+      });
+      setPendingAction(null);
+      setReason("");
+      setSelection([]);
+      router.refresh();
+
+      if (threadId) {
+        // The opened comment itself may be gone after a delete
+        if (action === "delete" && ids.includes(threadId)) {
+          setThreadId(null);
+          setThread(null);
+        } else {
+          loadThread(threadId);
+        }
+      }
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to moderate comments",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Approving is reversible and needs no reason; other decisions are confirmed
+  const requestAction = (action: CommentBulkAction, ids: string[]) => {
+    if (action === "approve") {
+      runAction(action, ids);
+    } else {
+      setReason("");
+      setPendingAction({ action, ids });
+    }
+  };
+
+  const handleCommentMode = async (target: QueueNews, mode: string) => {
+    if (!isCommentMode(mode)) return;
+
+    const result = await setNewsCommentMode({ newsId: target.id, mode });
+    if (result.success) {
+      toast({
+        title: "Comment settings updated",
+        description: `Comments on "${target.title}" are now ${COMMENT_MODE_LABELS[mode as CommentMode].toLowerCase()}.`,
+      });
+      if (thread?.news?.id === target.id) {
+        setThread({ ...thread, news: { ...thread.news, commentMode: mode } });
+      }
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to update comment settings",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const allSelected = comments.length > 0 && selected.length === comments.length;
+
+  const toggleAll = (checked: boolean) => {
+    setSelection(checked ? comments.map((comment) => comment.id) : []);
+  };
+
+  const toggleOne = (id: string, checked: boolean) => {
+    setSelection(checked ? [...selected, id] : selected.filter((item) => item !== id));
+  };
+
+  const rowActions = (id: string) => (
+    <>
+      <Button variant="ghost" size="icon" title="Approve" disabled={working} onClick={() => requestAction("approve", [id])}>
+        <Check className="h-4 w-4 text-green-600" />
+      </Button>
+      <Button variant="ghost" size="icon" title="Reject" disabled={working} onClick={() => requestAction("reject", [id])}>
+        <X className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" title="Mark as spam" disabled={working} onClick={() => requestAction("spam", [id])}>
+        <ShieldAlert className="h-4 w-4 text-orange-600" />
+      </Button>
+      <Button variant="ghost" size="icon" title="Delete" disabled={working} onClick={() => requestAction("delete", [id])}>
+        <Trash2 className="h-4 w-4 text-destructive" />
+      </Button>
+    </>
+  );
+
+  const commentModeSelect = (target: QueueNews) => (
+    <Select value={target.commentMode} onValueChange={(mode) => handleCommentMode(target, mode)}>
+      <SelectTrigger className="w-[160px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {COMMENT_MODES.map((mode) => (
+          <SelectItem key={mode} value={mode}>
+            {COMMENT_MODE_LABELS[mode]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <>
+      <div className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {COMMENT_QUEUE_FILTERS.map((item) => (
+            <Link key={item} href={buildUrl({ filter: item })}>
+              <Button variant={filter === item ? "default" : "outline"} size="sm">
+                {COMMENT_QUEUE_LABELS[item]} ({counts[item]})
+              </Button>
+            </Link>
+          ))}
+        </div>
+
+        {news && (
+          <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border bg-muted/30 p-3">
+            <p className="text-sm">
+              Comments on <span className="font-medium">{news.title}</span>
+            </p>
+            <div className="flex items-center gap-2">
+              <Label className="text-sm text-muted-foreground">Who can comment</Label>
+              {commentModeSelect(news)}
+              <Link href={buildUrl({ newsId: null })}>
+                <Button variant="ghost" size="sm">
+                  All articles
+                </Button>
+              </Link>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <Input
+              placeholder="Search comments, names or emails..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="max-w-sm"
+            />
+            <Button type="submit" variant="outline">
+              <Search className="h-4 w-4 mr-2" />
+              Search
+            </Button>
+          </form>
+
+          {selected.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-muted-foreground">{selected.length} selected</span>
+              {(Object.keys(ACTION_LABELS) as CommentBulkAction[]).map((action) => (
+                <Button
+                  key={action}
+                  size="sm"
+                  variant={action === "delete" ? "destructive" : "outline"}
+                  disabled={working}
+                  onClick={() => requestAction(action, selected)}
+                >
+                  {ACTION_LABELS[action]}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[40px]">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) => toggleAll(checked === true)}
+                    aria-label="Select all"
+                  />
+                </TableHead>
+                <TableHead>Comment</TableHead>
+                <TableHead>Article</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Posted</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {comments.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No comments in this queue.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                comments.map((comment) => (
+                  <TableRow key={comment.id} data-state={selected.includes(comment.id) ? "selected" : undefined}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selected.includes(comment.id)}
+                        onCheckedChange={(checked) => toggleOne(comment.id, checked === true)}
+                        aria-label="Select comment"
+                      />
+                    </TableCell>
+                    <TableCell className="max-w-md">
+                      <p className="font-medium">
+                        {comment.authorName}
+                        {comment.authorEmail && (
+                          <span className="ml-2 text-xs font-normal text-muted-foreground">{comment.authorEmail}</span>
+                        )}
+                      </p>
+                      {comment.parent && (
+                        <p className="text-xs text-muted-foreground line-clamp-1">
+                          Reply to {comment.parent.authorName}: {comment.parent.content}
+                        </p>
+                      )}
+                      <p className="text-sm line-clamp-3 whitespace-pre-line">{comment.content}</p>
+                      {comment.reports.length > 0 && (
+                        <p
+                          className="mt-1 text-xs text-orange-600"
+                          title={comment.reports
+                            .filter((report) => report.details)
+                            .map((report) => report.details)
+                            .join("\n")}
+                        >
+                          Reported: {summarizeReports(comment.reports)}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="max-w-[200px]">
+                      <Link
+                        href={buildUrl({ newsId: comment.news.id })}
+                        className="text-sm hover:underline line-clamp-2"
+                      >
+                        {comment.news.title}
+                      </Link>
+                      {comment.news.commentMode !== "open" && isCommentMode(comment.news.commentMode) && (
+                        <p className="text-xs text-muted-foreground">
+                          {COMMENT_MODE_LABELS[comment.news.commentMode]}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <StatusBadges comment={comment} />
+                    </TableCell>
+                    <TableCell className="text-sm">{formatDate(comment.createdAt)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={comment._count.replies > 0 ? `Thread (${comment._count.replies} replies)` : "Thread"}
+                          onClick={() => openThread(comment.id)}
+                        >
+                          <MessagesSquare className="h-4 w-4" />
+                        </Button>
+                        {rowActions(comment.id)}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              Showing {((page - 1) * 20) + 1} to {Math.min(page * 20, total)} of {total} comments
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" disabled={page === 1} onClick={() => router.push(buildUrl({ page: String(page - 1) }))}>
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                disabled={page >= totalPages}
+                onClick={() => router.push(buildUrl({ page: String(page + 1) }))}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <Dialog
+        open={!!threadId}
+        onOpenChange={(open) => {
+          if (!open) {
+            setThreadId(null);
+            setThread(null);
+          }
+        }}
+      >
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Thread</DialogTitle>
+            <DialogDescription>
+              {thread?.news ? (
+                <>
+                  On{" "}
+                  <Link href={`/news/${thread.news.slug}`} target="_blank" className="underline">
+                    {thread.news.title}
+                  </Link>
+                </>
+              ) : (
+                "The comment in the context of its conversation"
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          {thread?.news && (
+            <div className="flex items-center gap-2">
+              <Label className="text-sm text-muted-foreground">Who can comment</Label>
+              {commentModeSelect(thread.news)}
+            </div>
+          )}
+
+          {threadLoading && !thread ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">Loading thread...</p>
+          ) : (
+            <div className="space-y-3">
+              {thread?.comments.map((item) => (
+                <div
+                  key={item.id}
+                  className={cn(
+                    "rounded-md border p-3",
+                    item.id === thread.focusId && "border-primary bg-primary/5"
+                  )}
+                  style={{ marginLeft: Math.min(item.depth, 6) * 24 }}
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{item.authorName}</span>
+                      <StatusBadges comment={item} />
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(item.createdAt).toLocaleString()}
+                      {item.ipAddress && ` · ${item.ipAddress}`}
+                    </span>
+                  </div>
+                  <p className="mt-2 text-sm whitespace-pre-line">{item.content}</p>
+                  <div className="mt-2 flex justify-end gap-1">{rowActions(item.id)}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={!!pendingAction}
+        onOpenChange={(open) => {
+          if (!open) setPendingAction(null);
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {pendingAction && `${ACTION_LABELS[pendingAction.action]} ${pendingAction.ids.length} comment(s)`}
+            </DialogTitle>
+            <DialogDescription>
+              {pendingAction?.action === "delete"
+                ? "Deleted comments and their replies cannot be restored."
+                : "The comments are hidden from readers. The reason is kept in the audit log."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="moderation-reason">Reason (optional)</Label>
+            <Textarea
+              id="moderation-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              className="resize-none"
+              disabled={working}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingAction(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={pendingAction?.action === "delete" ? "destructive" : "default"}
+              disabled={working}
+              onClick={() => pendingAction && runAction(pendingAction.action, pendingAction.ids, reason)}
+            >
+              {working ? "Saving..." : pendingAction ? ACTION_LABELS[pendingAction.action] : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
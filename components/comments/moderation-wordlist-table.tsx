@@ -0,0 +1,372 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Edit, Trash2, Plus } from "lucide-react";
+import { addModerationWords, deleteModerationWord, updateModerationWord } from "@/lib/actions/comment-moderation";
+import {
+  MODERATION_LANGUAGES,
+  MODERATION_LANGUAGE_LABELS,
+  type ModerationLanguage,
+} from "@/lib/utils/comment-moderation";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+/**
+ * Moderation Wordlist Table Component
+ * Hindi, English and Hinglish wordlists; words are added in bulk, one per line
+ */
+interface ModerationWord {
+  id: string;
+  word: string;
+  language: string;
+  severity: number;
+  matchPartial: boolean;
+  isEnabled: boolean;
+}
+
+interface ModerationWordlistTableProps {
+  words: ModerationWord[];
+}
+
+interface WordFormState {
+  id?: string;
+  words: string;
+  language: ModerationLanguage;
+  severity: string;
+  matchPartial: boolean;
+}
+
+const emptyForm: WordFormState = {
+  words: "",
+  language: "hinglish",
+  severity: "40",
+  matchPartial: false,
+};
+
+export function ModerationWordlistTable({ words }: ModerationWordlistTableProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [language, setLanguage] = useState<ModerationLanguage | "all">("all");
+  const [search, setSearch] = useState("");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<WordFormState>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [wordToDelete, setWordToDelete] = useState<ModerationWord | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const visibleWords = words.filter(
+    (word) =>
+      (language === "all" || word.language === language) &&
+      (!search || word.word.toLowerCase().includes(search.toLowerCase()))
+  );
+
+  const openCreate = () => {
+    setForm({ ...emptyForm, language: language === "all" ? emptyForm.language : language });
+    setDialogOpen(true);
+  };
+
+  const openEdit = (word: ModerationWord) => {
+    setForm({
+      id: word.id,
+      words: word.word,
+      language: word.language as ModerationLanguage,
+      severity: String(word.severity),
+      matchPartial: word.matchPartial,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    const severity = parseInt(form.severity) || 0;
+    const result = form.id
+      ? await updateModerationWord({ id: form.id, severity, matchPartial: form.matchPartial })
+      : await addModerationWords({
+          words: form.words.split("\n").map((word) => word.trim()).filter(Boolean),
+          language: form.language,
+          severity,
+          matchPartial: form.matchPartial,
+        });
+    setSaving(false);
+
+    if (result.success) {
+      toast({
+        title: form.id ? "Word updated" : "Words added",
+        description:
+          "count" in result
+            ? `${result.count} word(s) added${result.skipped ? `, ${result.skipped} already listed` : ""}.`
+            : "The wordlist entry has been updated.",
+      });
+      setDialogOpen(false);
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to save words",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggle = async (word: ModerationWord, isEnabled: boolean) => {
+    const result = await updateModerationWord({ id: word.id, isEnabled });
+
+    if (result.success) {
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to update word",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!wordToDelete) return;
+
+    setDeleting(true);
+    const result = await deleteModerationWord(wordToDelete.id);
+    setDeleting(false);
+    setDeleteDialogOpen(false);
+    setWordToDelete(null);
+
+    if (result.success) {
+      toast({
+        title: "Word removed",
+        description: "The word has been removed from the wordlist.",
+      });
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to delete word",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex flex-wrap gap-2">
+            {(["all", ...MODERATION_LANGUAGES] as const).map((item) => (
+              <Button
+                key={item}
+                size="sm"
+                variant={language === item ? "default" : "outline"}
+                onClick={() => setLanguage(item)}
+              >
+                {item === "all" ? "All" : MODERATION_LANGUAGE_LABELS[item]} (
+                {item === "all" ? words.length : words.filter((word) => word.language === item).length})
+              </Button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Input
+              placeholder="Search words..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="max-w-xs"
+            />
+            <Button onClick={openCreate}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Words
+            </Button>
+          </div>
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Word</TableHead>
+                <TableHead>Language</TableHead>
+                <TableHead>Severity</TableHead>
+                <TableHead>Matching</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleWords.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No words found
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visibleWords.map((word) => (
+                  <TableRow key={word.id}>
+                    <TableCell className="font-medium">{word.word}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {MODERATION_LANGUAGE_LABELS[word.language as ModerationLanguage] ?? word.language}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{word.severity}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {word.matchPartial ? "Inside words" : "Whole word"}
+                    </TableCell>
+                    <TableCell>
+                      <Switch checked={word.isEnabled} onCheckedChange={(checked) => handleToggle(word, checked)} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="icon" onClick={() => openEdit(word)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => {
+                            setWordToDelete(word);
+                            setDeleteDialogOpen(true);
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleSave} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{form.id ? "Edit Word" : "Add Words"}</DialogTitle>
+              <DialogDescription>
+                Words match their Devanagari and romanized spellings, stretched letters and leetspeak. Add
+                separate entries only for spellings that sound different.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <Label htmlFor="word-list">{form.id ? "Word" : "Words (one per line) *"}</Label>
+              {form.id ? (
+                <Input id="word-list" value={form.words} disabled />
+              ) : (
+                <Textarea
+                  id="word-list"
+                  value={form.words}
+                  onChange={(e) => setForm({ ...form, words: e.target.value })}
+                  rows={6}
+                  disabled={saving}
+                  required
+                />
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Language</Label>
+                <Select
+                  value={form.language}
+                  onValueChange={(value) => setForm({ ...form, language: value as ModerationLanguage })}
+                  disabled={saving || !!form.id}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MODERATION_LANGUAGES.map((item) => (
+                      <SelectItem key={item} value={item}>
+                        {MODERATION_LANGUAGE_LABELS[item]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="word-severity">Severity (1-100) *</Label>
+                <Input
+                  id="word-severity"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={form.severity}
+                  onChange={(e) => setForm({ ...form, severity: e.target.value })}
+                  disabled={saving}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="word-partial"
+                checked={form.matchPartial}
+                onCheckedChange={(checked) => setForm({ ...form, matchPartial: checked === true })}
+                disabled={saving}
+              />
+              <Label htmlFor="word-partial" className="font-normal">
+                Also match inside longer words
+              </Label>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : form.id ? "Save" : "Add"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Remove Word</DialogTitle>
+            <DialogDescription>
+              Remove &quot;{wordToDelete?.word}&quot; from the wordlist? Comments already scored keep their score.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={deleting}>
+              {deleting ? "Removing..." : "Remove"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
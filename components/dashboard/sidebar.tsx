@@ -3,7 +3,7 @@
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { cn } from "@/lib/utils";
-import { LayoutDashboard, Users, Shield, Key, FileText, LogOut, Menu, BookOpen, User } from "lucide-react";
+import { LayoutDashboard, Users, Shield, Key, FileText, LogOut, Menu, BookOpen, User, Tags, Layers, Megaphone, MessagesSquare } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { logout } from "@/lib/actions/auth";
 
@@ -39,6 +39,10 @@ const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
   roles: Shield,
   permissions: Key,
   logs: FileText,
+  tags: Tags,
+  series: Layers,
+  advertiser: Megaphone,
+  comments: MessagesSquare,
 };
 
 export function DashboardSidebar({ menus, user }: DashboardSidebarProps) {
@@ -5,6 +5,7 @@ import { X, ChevronRight } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import Link from "next/link"
 import { cn } from "@/lib/utils"
+import { useNewsEvents } from "@/hooks/use-news-events"
 
 interface BreakingNews {
   id: string
@@ -18,10 +19,38 @@ interface BreakingNewsTickerProps {
   className?: string
 }
 
-export function BreakingNewsTicker({ news, onClose, className }: BreakingNewsTickerProps) {
+// Cap on items kept in the ticker once pushed items are added
+const MAX_TICKER_ITEMS = 10
+
+export function BreakingNewsTicker({ news: initialNews, onClose, className }: BreakingNewsTickerProps) {
   const [currentIndex, setCurrentIndex] = useState(0)
   const [isPaused, setIsPaused] = useState(false)
   const [isVisible, setIsVisible] = useState(true)
+  // Breaking posts pushed over SSE since the page was rendered, newest first
+  const [pushedNews, setPushedNews] = useState<BreakingNews[]>([])
+  // Posts taken down since the page was rendered
+  const [removedIds, setRemovedIds] = useState<string[]>([])
+
+  useNewsEvents((event) => {
+    if (event.type === "news.unpublished") {
+      const { id } = event.news
+      setPushedNews((prev) => prev.filter((item) => item.id !== id))
+      setRemovedIds((prev) => (prev.includes(id) ? prev : [...prev, id]))
+      return
+    }
+    if (event.type === "live.entry" || !event.news.isBreaking) return
+    const { id, title, slug } = event.news
+    setPushedNews((prev) => [{ id, title, slug }, ...prev.filter((item) => item.id !== id)])
+    setRemovedIds((prev) => prev.filter((removedId) => removedId !== id))
+    setCurrentIndex(0)
+  })
+
+  const news = [
+    ...pushedNews,
+    ...initialNews.filter(
+      (item) => !removedIds.includes(item.id) && !pushedNews.some((pushed) => pushed.id === item.id)
+    ),
+  ].slice(0, MAX_TICKER_ITEMS)
 
   useEffect(() => {
     if (news.length === 0 || isPaused || !isVisible) return
@@ -35,7 +64,7 @@ export function BreakingNewsTicker({ news, onClose, className }: BreakingNewsTic
 
   if (!isVisible || news.length === 0) return null
 
-  const currentNews = news[currentIndex]
+  const currentNews = news[currentIndex % news.length]
 
   return (
     <div
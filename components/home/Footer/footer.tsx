@@ -16,6 +16,10 @@ export function Footer() {
             title: "About Us",
             href: "/about",
         },
+        {
+            title: "Blog",
+            href: "/blog",
+        },
         {
             title: "Contact Us",
             href: "/contact",
@@ -158,6 +162,8 @@ export function Footer() {
                         <div className="flex items-center gap-4 text-sm text-muted-foreground">
                             <a href="/rss.xml" className="hover:text-foreground transition-colors">RSS Feed</a>
                             <span>•</span>
+                            <a href="/blog/rss.xml" className="hover:text-foreground transition-colors">Blog RSS</a>
+                            <span>•</span>
                             <a href="/sitemap.xml" className="hover:text-foreground transition-colors">Sitemap</a>
                         </div>
                     </div>
@@ -6,6 +6,7 @@ import Ads from "@/components/ads/page"
 import { getHomeFeaturedData, getContentSidebarData, getTechnologySectionData } from "@/lib/actions/home-data"
 import { getCategorySectionData } from "@/lib/actions/category-section-data"
 import { BreakingNewsTicker } from "@/components/home/BreakingNewsTicker/breaking-news-ticker"
+import { LiveUpdatesBanner } from "@/components/home/live-updates-banner"
 
 export default async function Home() {
   // Fetch all data server-side in parallel
@@ -25,10 +26,12 @@ export default async function Home() {
 
   return (
     <div className="space-y-6 feature-section-font ">
+      {/* NEW STORIES BANNER - Shown when posts are published while the page is open */}
+      <LiveUpdatesBanner />
+
          {/* BREAKING NEWS TICKER - After 5th post (featured section) */}
-      {tickerNews.length > 0 && (
-        <BreakingNewsTicker news={tickerNews} />
-      )}
+      {/* Always mounted so breaking news pushed over SSE can appear; renders nothing while empty */}
+      <BreakingNewsTicker news={tickerNews} />
 
       {/* FEATURED SECTION - Now using dynamic data */}
       <FeaturedSection
@@ -0,0 +1,60 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { useRouter } from "next/navigation"
+import { ArrowUp, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useNewsEvents } from "@/hooks/use-news-events"
+
+interface PublishedNews {
+  id: string
+  title: string
+}
+
+/**
+ * Live Updates Banner
+ * Tells readers on the home page that stories were published since it loaded
+ * and refreshes the server-rendered sections on request
+ */
+export function LiveUpdatesBanner() {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [published, setPublished] = useState<PublishedNews[]>([])
+
+  useNewsEvents((event) => {
+    if (event.type === "news.unpublished") {
+      setPublished((prev) => prev.filter((item) => item.id !== event.news.id))
+      return
+    }
+    if (event.type !== "news.published") return
+    const { id, title } = event.news
+    setPublished((prev) => [{ id, title }, ...prev.filter((item) => item.id !== id)])
+  })
+
+  if (published.length === 0) return null
+
+  const handleShow = () => {
+    startTransition(() => {
+      router.refresh()
+    })
+    setPublished([])
+    window.scrollTo({ top: 0, behavior: "smooth" })
+  }
+
+  return (
+    <div className="sticky top-20 z-30 flex justify-center pointer-events-none">
+      <Button
+        onClick={handleShow}
+        disabled={isPending}
+        className="pointer-events-auto rounded-full shadow-lg gap-2 max-w-[90vw]"
+      >
+        {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <ArrowUp className="h-4 w-4" />}
+        <span className="truncate font-hindi">
+          {published.length === 1
+            ? `New: ${published[0].title}`
+            : `${published.length} new stories`}
+        </span>
+      </Button>
+    </div>
+  )
+}
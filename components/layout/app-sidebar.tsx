@@ -92,6 +92,10 @@ const iconMap: Record<string, React.ComponentType<any>> = {
   roles: Icons.settings,
   permissions: Icons.billing,
   logs: Icons.page,
+  tags: Icons.tags,
+  series: Icons.series,
+  advertiser: Icons.advertiser,
+  comments: Icons.comments,
   // Fallback icons for common cases
   product: Icons.product,
   media: Icons.media,
@@ -26,7 +26,7 @@ interface AuditLog {
     username: string;
     firstName: string | null;
     lastName: string | null;
-  };
+  } | null; // Anonymous events, e.g. a failed sign-in for an unknown email
 }
 
 interface LogsTableProps {
@@ -67,10 +67,14 @@ export function LogsTable({ logs, total, page, totalPages }: LogsTableProps) {
                     {formatDate(log.createdAt)}
                   </TableCell>
                   <TableCell>
-                    <div>
-                      <p className="font-medium">{log.user.username}</p>
-                      <p className="text-xs text-muted-foreground">{log.user.email}</p>
-                    </div>
+                    {log.user ? (
+                      <div>
+                        <p className="font-medium">{log.user.username}</p>
+                        <p className="text-xs text-muted-foreground">{log.user.email}</p>
+                      </div>
+                    ) : (
+                      <p className="text-muted-foreground">Anonymous</p>
+                    )}
                   </TableCell>
                   <TableCell>
                     <Badge variant="secondary">{log.action}</Badge>
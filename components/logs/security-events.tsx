@@ -0,0 +1,289 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { LockOpen } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { formatDate } from "@/lib/utils";
+import { formatLockoutRemaining } from "@/lib/security/account-lockout";
+import { unlockUser } from "@/lib/actions/users";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * Security Events Component
+ * Failed sign-ins, rate limiting and lockouts with the busiest addresses and
+ * most targeted accounts
+ */
+interface SecurityEvent {
+  id: string;
+  action: string;
+  description: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  user: { id: string; email: string; username: string } | null;
+  attemptedEmail: string | null; // Address typed for an unknown account
+}
+
+interface LockedAccount {
+  id: string;
+  email: string;
+  username: string;
+  failedLoginAttempts: number;
+  lockedUntil: Date;
+}
+
+interface SecurityEventsProps {
+  range: string;
+  action: string | null;
+  counts: Record<string, number>;
+  topIps: Array<{ ipAddress: string; count: number }>;
+  topAccounts: Array<{ id: string; email: string; username: string; count: number }>;
+  lockedAccounts: LockedAccount[];
+  events: SecurityEvent[];
+  total: number;
+  page: number;
+  totalPages: number;
+  canUnlock: boolean;
+}
+
+const RANGE_OPTIONS = [
+  { value: "24h", label: "24 hours" },
+  { value: "7d", label: "7 days" },
+  { value: "30d", label: "30 days" },
+];
+
+const EVENT_TYPES = [
+  { action: "LOGIN_FAILED", label: "Failed sign-ins" },
+  { action: "LOGIN_RATE_LIMIT", label: "Rate limited" },
+  { action: "TWO_FACTOR_FAILED", label: "Two-factor failures" },
+  { action: "ACCOUNT_LOCKED", label: "Lockouts" },
+  { action: "UNLOCK_ACCOUNT", label: "Unlocks" },
+];
+
+export function SecurityEvents({
+  range,
+  action,
+  counts,
+  topIps,
+  topAccounts,
+  lockedAccounts,
+  events,
+  total,
+  page,
+  totalPages,
+  canUnlock,
+}: SecurityEventsProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [unlocking, setUnlocking] = useState<string | null>(null);
+
+  const navigate = (changes: { range?: string; action?: string | null; page?: number }) => {
+    const params = new URLSearchParams();
+    params.set("range", changes.range ?? range);
+    const nextAction = changes.action === undefined ? action : changes.action;
+    if (nextAction) params.set("action", nextAction);
+    params.set("page", String(changes.page ?? 1));
+    router.push(`/dashboard/logs/security?${params.toString()}`);
+  };
+
+  const handleUnlock = async (userId: string) => {
+    setUnlocking(userId);
+    const result = await unlockUser(userId);
+    setUnlocking(null);
+
+    if (result.success) {
+      toast({
+        title: "Account unlocked",
+        description: "The user can sign in again.",
+      });
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to unlock user",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        {RANGE_OPTIONS.map((option) => (
+          <Button
+            key={option.value}
+            variant={range === option.value ? "default" : "outline"}
+            size="sm"
+            onClick={() => navigate({ range: option.value })}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+        {EVENT_TYPES.map((type) => (
+          <button
+            key={type.action}
+            type="button"
+            className="text-left"
+            onClick={() => navigate({ action: action === type.action ? null : type.action })}
+          >
+            <Card className={action === type.action ? "border-primary" : undefined}>
+              <CardHeader>
+                <CardDescription>{type.label}</CardDescription>
+                <CardTitle className="text-2xl">{counts[type.action] ?? 0}</CardTitle>
+              </CardHeader>
+            </Card>
+          </button>
+        ))}
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle>Locked Accounts</CardTitle>
+            <CardDescription>Locked now after repeated failed sign-ins</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {lockedAccounts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No accounts are locked</p>
+            ) : (
+              lockedAccounts.map((account) => (
+                <div key={account.id} className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">{account.email}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {account.failedLoginAttempts} failures · unlocks in{" "}
+                      {formatLockoutRemaining(new Date(account.lockedUntil))}
+                    </p>
+                  </div>
+                  {canUnlock && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={unlocking === account.id}
+                      onClick={() => handleUnlock(account.id)}
+                    >
+                      <LockOpen className="h-4 w-4 mr-2" />
+                      Unlock
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Busiest Addresses</CardTitle>
+            <CardDescription>IP addresses with the most failed or limited attempts</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {topIps.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No failed attempts</p>
+            ) : (
+              topIps.map((row) => (
+                <div key={row.ipAddress} className="flex items-center justify-between text-sm">
+                  <span className="font-mono">{row.ipAddress}</span>
+                  <Badge variant="secondary">{row.count}</Badge>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Most Targeted Accounts</CardTitle>
+            <CardDescription>Accounts with the most failed attempts</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {topAccounts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No failed attempts</p>
+            ) : (
+              topAccounts.map((row) => (
+                <div key={row.id} className="flex items-center justify-between gap-2 text-sm">
+                  <Link href={`/dashboard/users/${row.id}/edit`} className="truncate hover:underline">
+                    {row.email}
+                  </Link>
+                  <Badge variant="secondary">{row.count}</Badge>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Timestamp</TableHead>
+              <TableHead>Event</TableHead>
+              <TableHead>Account</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead>IP Address</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {events.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No security events found
+                </TableCell>
+              </TableRow>
+            ) : (
+              events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell className="text-sm">{formatDate(event.createdAt)}</TableCell>
+                  <TableCell>
+                    <Badge variant={event.action === "ACCOUNT_LOCKED" ? "destructive" : "secondary"}>
+                      {event.action}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {event.user ? (
+                      <div>
+                        <p className="font-medium">{event.user.username}</p>
+                        <p className="text-xs text-muted-foreground">{event.user.email}</p>
+                      </div>
+                    ) : (
+                      <p className="text-muted-foreground">{event.attemptedEmail || "Anonymous"}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-md truncate">{event.description || "-"}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground" title={event.userAgent || undefined}>
+                    {event.ipAddress || "-"}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            Showing {((page - 1) * 50) + 1} to {Math.min(page * 50, total)} of {total} events
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" disabled={page === 1} onClick={() => navigate({ page: page - 1 })}>
+              Previous
+            </Button>
+            <Button variant="outline" disabled={page >= totalPages} onClick={() => navigate({ page: page + 1 })}>
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -21,7 +21,11 @@ import {
   IconPizza,
   IconPlus,
   IconSettings,
+  IconSpeakerphone,
+  IconMessages,
   IconSun,
+  IconStack2,
+  IconTags,
   IconTrash,
   IconBrandTwitter,
   IconUser,
@@ -64,5 +68,9 @@ export const Icons = {
   laptop: IconDeviceLaptop,
   github: IconBrandGithub,
   twitter: IconBrandTwitter,
+  tags: IconTags,
+  series: IconStack2,
+  advertiser: IconSpeakerphone,
+  comments: IconMessages,
   check: IconCheck
 };
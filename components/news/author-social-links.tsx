@@ -0,0 +1,46 @@
+import { Facebook, Globe, Instagram, Linkedin, Twitter } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { AUTHOR_SOCIAL_FIELDS, type AuthorSocialLinks as SocialLinks } from "@/lib/utils/author"
+
+const ICONS = {
+  websiteUrl: Globe,
+  twitterUrl: Twitter,
+  facebookUrl: Facebook,
+  linkedinUrl: Linkedin,
+  instagramUrl: Instagram,
+} as const
+
+interface AuthorSocialLinksProps {
+  links: SocialLinks
+  className?: string
+}
+
+/**
+ * Icon links to an author's website and social profiles
+ * Renders nothing when the author has not added any
+ */
+export function AuthorSocialLinks({ links, className }: AuthorSocialLinksProps) {
+  const items = AUTHOR_SOCIAL_FIELDS.filter(({ key }) => !!links[key])
+  if (items.length === 0) return null
+
+  return (
+    <div className={className ?? "flex items-center gap-2"}>
+      {items.map(({ key, label }) => {
+        const Icon = ICONS[key]
+        return (
+          <Button
+            key={key}
+            asChild
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-muted-foreground hover:text-foreground"
+          >
+            <a href={links[key]!} target="_blank" rel="noopener noreferrer me" aria-label={label}>
+              <Icon className="h-4 w-4" />
+            </a>
+          </Button>
+        )
+      })}
+    </div>
+  )
+}
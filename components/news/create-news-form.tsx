@@ -14,7 +14,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Calendar, Image, Settings, FileText, Tag, Globe, Share2 } from "lucide-react";
+import { Loader2, FileText, Tag, Hash, Globe, Share2 } from "lucide-react";
 import { Editor } from "@/components/blocks/editor-x/editor";
 import { SerializedEditorState } from "lexical";
 import {
@@ -28,10 +28,12 @@ import { Badge } from "@/components/ui/badge";
 import { X, Plus, Eye, EyeOff } from "lucide-react";
 import { MediaPicker } from "@/components/media/media-picker";
 import { OptimizedImage } from "@/components/ui/optimized-image";
+import { TagPicker } from "@/components/news/tag-picker";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { datetimeLocalToISO } from "@/lib/utils/datetime-utils";
 
 // Custom URL validation that accepts absolute URLs, relative URLs (starting with /), or empty strings
 const urlOrEmpty = z.preprocess(
@@ -53,12 +55,17 @@ const createNewsSchema = z.object({
   isPublished: z.boolean().default(false),
   isBreaking: z.boolean().default(false),
   isFeatured: z.boolean().default(false),
+  isLiveBlog: z.boolean().default(false),
   metaTitle: z.string().max(60, "Meta title should be under 60 characters").optional(),
   metaDescription: z.string().max(160, "Meta description should be under 160 characters").optional(),
   metaKeywords: z.string().optional(),
   ogImage: urlOrEmpty,
-  scheduledAt: z.string().datetime().optional(),
+  scheduledAt: z.string().optional(),
+  unpublishAt: z.string().optional(),
   isScheduled: z.boolean().default(false),
+}).refine((data) => !data.isScheduled || !!data.scheduledAt, {
+  message: "Pick a publish date & time",
+  path: ["scheduledAt"],
 });
 
 type CreateNewsFormData = z.infer<typeof createNewsSchema>;
@@ -81,6 +88,7 @@ export function CreateNewsForm() {
   const [autoSlug, setAutoSlug] = useState(true);
   const [categories, setCategories] = useState<Category[]>([]);
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [editorContent, setEditorContent] = useState<SerializedEditorState | null>(null);
   const [contentText, setContentText] = useState("");
   const [isScheduled, setIsScheduled] = useState(false);
@@ -124,6 +132,7 @@ export function CreateNewsForm() {
       isPublished: false,
       isBreaking: false,
       isFeatured: false,
+      isLiveBlog: false,
       isScheduled: false,
       categoryIds: [],
     },
@@ -230,12 +239,19 @@ export function CreateNewsForm() {
         ...data,
         content: JSON.stringify(editorContent),
         categoryIds: selectedCategories,
+        tags: selectedTags,
+        scheduledAt: data.isScheduled && data.scheduledAt ? datetimeLocalToISO(data.scheduledAt) : "",
+        unpublishAt: data.unpublishAt ? datetimeLocalToISO(data.unpublishAt) : "",
       });
 
       if (result.success) {
         toast({
           title: "Success",
-          description: data.isPublished ? "Your news post has been published!" : "Your news post has been saved as draft.",
+          description: data.isPublished
+            ? "Your news post has been published!"
+            : data.isScheduled
+              ? "Your news post has been scheduled."
+              : "Your news post has been saved as draft.",
         });
         router.push("/dashboard/news");
       } else {
@@ -599,6 +615,23 @@ export function CreateNewsForm() {
                             disabled={loading}
                           />
                         </div>
+
+                        <div className="flex items-center justify-between">
+                          <div className="space-y-0.5">
+                            <Label htmlFor="isLiveBlog" className="text-base font-medium cursor-pointer">
+                              Live Blog
+                            </Label>
+                            <p className="text-sm text-muted-foreground">
+                              Post timestamped updates below the article
+                            </p>
+                          </div>
+                          <Switch
+                            id="isLiveBlog"
+                            checked={watch("isLiveBlog")}
+                            onCheckedChange={(checked) => setValue("isLiveBlog", checked, { shouldValidate: true })}
+                            disabled={loading}
+                          />
+                        </div>
                       </div>
 
                       <Separator />
@@ -637,6 +670,20 @@ export function CreateNewsForm() {
                             )}
                           </div>
                         )}
+
+                        <div className="space-y-3">
+                          <Label htmlFor="unpublishAt">Unpublish Date & Time</Label>
+                          <Input
+                            id="unpublishAt"
+                            type="datetime-local"
+                            {...register("unpublishAt")}
+                            disabled={loading}
+                            min={new Date().toISOString().slice(0, 16)}
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            Optional. The post is taken down automatically at this time.
+                          </p>
+                        </div>
                       </div>
                     </CardContent>
                     <CardFooter className="flex flex-col gap-3 pt-4 border-t bg-muted/50">
@@ -751,6 +798,22 @@ export function CreateNewsForm() {
                     </CardContent>
                   </Card>
 
+                  {/* Tags Card */}
+                  <Card className="shadow-sm border">
+                    <CardHeader className="pb-4">
+                      <CardTitle className="flex items-center gap-2 text-lg">
+                        <Hash className="h-5 w-5 text-primary" />
+                        Tags
+                      </CardTitle>
+                      <CardDescription>
+                        People, places and topics covered in this news
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <TagPicker value={selectedTags} onChange={setSelectedTags} disabled={loading} />
+                    </CardContent>
+                  </Card>
+
                   {/* Status Card */}
                   <Card className="shadow-sm border">
                     <CardHeader className="pb-4">
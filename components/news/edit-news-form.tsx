@@ -14,7 +14,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Calendar, Image, Settings, FileText, Tag, Globe, Share2, Eye, EyeOff } from "lucide-react";
+import { Loader2, Image, FileText, Tag, Hash, Globe, Share2, Eye, EyeOff } from "lucide-react";
 import { Editor } from "@/components/blocks/editor-x/editor";
 import { SerializedEditorState } from "lexical";
 import {
@@ -28,10 +28,12 @@ import { Badge } from "@/components/ui/badge";
 import { X, Plus } from "lucide-react";
 import { MediaPicker } from "@/components/media/media-picker";
 import { OptimizedImage } from "@/components/ui/optimized-image";
+import { TagPicker } from "@/components/news/tag-picker";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { datetimeLocalToISO, isoToDatetimeLocal } from "@/lib/utils/datetime-utils";
 
 // Custom URL validation that accepts absolute URLs, relative URLs (starting with /), or empty strings
 const urlOrEmpty = z.preprocess(
@@ -55,11 +57,13 @@ const updateNewsSchema = z.object({
   isActive: z.boolean().optional(),
   isBreaking: z.boolean().optional(),
   isFeatured: z.boolean().optional(),
+  isLiveBlog: z.boolean().optional(),
   metaTitle: z.string().optional(),
   metaDescription: z.string().optional(),
   metaKeywords: z.string().optional(),
   ogImage: urlOrEmpty,
-  scheduledAt: z.string().datetime().optional(),
+  scheduledAt: z.string().optional(),
+  unpublishAt: z.string().optional(),
 });
 
 
@@ -83,11 +87,13 @@ interface EditNewsFormProps {
     isActive: boolean;
     isBreaking: boolean;
     isFeatured: boolean;
+    isLiveBlog: boolean;
     metaTitle: string | null;
     metaDescription: string | null;
     metaKeywords: string | null;
     ogImage: string | null;
     scheduledAt: Date | null;
+    unpublishAt: Date | null;
     categories: Array<{
       menu: {
         id: string;
@@ -95,6 +101,13 @@ interface EditNewsFormProps {
         slug: string;
       };
     }>;
+    tags?: Array<{
+      tag: {
+        id: string;
+        name: string;
+        slug: string;
+      };
+    }>;
   };
 }
 
@@ -107,6 +120,9 @@ export function EditNewsForm({ news }: EditNewsFormProps) {
   const [selectedCategories, setSelectedCategories] = useState<string[]>(
     news.categories.map((c) => c.menu.id)
   );
+  const [selectedTags, setSelectedTags] = useState<string[]>(
+    (news.tags || []).map((t) => t.tag.name)
+  );
   const [editorContent, setEditorContent] = useState<SerializedEditorState | null>(() => {
     try {
       return JSON.parse(news.content);
@@ -167,10 +183,13 @@ export function EditNewsForm({ news }: EditNewsFormProps) {
       isActive: news.isActive,
       isBreaking: news.isBreaking,
       isFeatured: news.isFeatured,
+      isLiveBlog: news.isLiveBlog,
       metaTitle: news.metaTitle || "",
       metaDescription: news.metaDescription || "",
       metaKeywords: news.metaKeywords || "",
       ogImage: news.ogImage || "",
+      scheduledAt: news.scheduledAt ? isoToDatetimeLocal(new Date(news.scheduledAt).toISOString()) : "",
+      unpublishAt: news.unpublishAt ? isoToDatetimeLocal(new Date(news.unpublishAt).toISOString()) : "",
       categoryIds: news.categories.map((c) => c.menu.id),
    },
     mode: "onChange",
@@ -244,6 +263,13 @@ export function EditNewsForm({ news }: EditNewsFormProps) {
     setValue(field, "", { shouldValidate: true });
   }, [setValue]);
 
+  const handleScheduleToggle = useCallback((checked: boolean) => {
+    setIsScheduled(checked);
+    if (!checked) {
+      setValue("scheduledAt", "", { shouldValidate: true, shouldDirty: true });
+    }
+  }, [setValue]);
+
 
 
   const onSubmit = async (data: UpdateNewsFormData) => {
@@ -271,6 +297,9 @@ export function EditNewsForm({ news }: EditNewsFormProps) {
         ...data,
         content: JSON.stringify(editorContent),
         categoryIds: selectedCategories,
+        tags: selectedTags,
+        scheduledAt: isScheduled && data.scheduledAt ? datetimeLocalToISO(data.scheduledAt) : "",
+        unpublishAt: data.unpublishAt ? datetimeLocalToISO(data.unpublishAt) : "",
       });
 
       if (result.success) {
@@ -662,13 +691,46 @@ export function EditNewsForm({ news }: EditNewsFormProps) {
                             disabled={loading}
                           />
                         </div>
+
+                        <div className="flex items-center justify-between">
+                          <div className="space-y-0.5">
+                            <Label htmlFor="isLiveBlog" className="text-base font-medium cursor-pointer">
+                              Live Blog
+                            </Label>
+                            <p className="text-sm text-muted-foreground">
+                              Post timestamped updates below the article
+                            </p>
+                          </div>
+                          <Switch
+                            id="isLiveBlog"
+                            checked={watch("isLiveBlog")}
+                            onCheckedChange={(checked) => setValue("isLiveBlog", checked, { shouldValidate: true })}
+                            disabled={loading}
+                          />
+                        </div>
                       </div>
 
                       <Separator />
 
                       {/* Schedule Section */}
                       <div className="space-y-4">
-                    
+                        <div className="flex items-center justify-between">
+                          <div className="space-y-0.5">
+                            <Label htmlFor="isScheduled" className="text-base font-medium cursor-pointer">
+                              Schedule
+                            </Label>
+                            <p className="text-sm text-muted-foreground">
+                              Publish at a specific time
+                            </p>
+                          </div>
+                          <Switch
+                            id="isScheduled"
+                            checked={isScheduled}
+                            onCheckedChange={handleScheduleToggle}
+                            disabled={loading || news.isPublished}
+                          />
+                        </div>
+
                         {isScheduled && (
                           <div className="space-y-3">
                             <Label htmlFor="scheduledAt">Publish Date & Time</Label>
@@ -684,6 +746,19 @@ export function EditNewsForm({ news }: EditNewsFormProps) {
                             )}
                           </div>
                         )}
+
+                        <div className="space-y-3">
+                          <Label htmlFor="unpublishAt">Unpublish Date & Time</Label>
+                          <Input
+                            id="unpublishAt"
+                            type="datetime-local"
+                            {...register("unpublishAt")}
+                            disabled={loading}
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            Optional. The post is taken down automatically at this time.
+                          </p>
+                        </div>
                       </div>
                     </CardContent>
                     <CardFooter className="flex flex-col gap-3 pt-4 border-t bg-muted/50">
@@ -789,6 +864,22 @@ export function EditNewsForm({ news }: EditNewsFormProps) {
                     </CardContent>
                   </Card>
 
+                  {/* Tags Card */}
+                  <Card className="shadow-sm border">
+                    <CardHeader className="pb-4">
+                      <CardTitle className="flex items-center gap-2 text-lg">
+                        <Hash className="h-5 w-5 text-primary" />
+                        Tags
+                      </CardTitle>
+                      <CardDescription>
+                        People, places and topics covered in this news
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <TagPicker value={selectedTags} onChange={setSelectedTags} disabled={loading} />
+                    </CardContent>
+                  </Card>
+
                   {/* Status Card */}
                   <Card className="shadow-sm border">
                     <CardHeader className="pb-4">
@@ -0,0 +1,365 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { SerializedEditorState } from "lexical";
+import {
+  createLiveBlogEntry,
+  deleteLiveBlogEntry,
+  setLiveBlogCoverageEnded,
+  setLiveBlogEntryPinned,
+  updateLiveBlogEntry,
+} from "@/lib/actions/live-blog";
+import { Editor } from "@/components/blocks/editor-x/editor";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Edit, Eye, Loader2, Pin, PinOff, Radio, Send, Trash2 } from "lucide-react";
+import { formatDate } from "@/lib/utils";
+import { getAuthorDisplayName } from "@/lib/utils/author";
+
+/**
+ * Live Blog Panel Component
+ * Post, pin, edit and delete the timestamped updates of a live news post
+ */
+interface LiveBlogEntry {
+  id: string;
+  title: string | null;
+  content: string;
+  isPinned: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  author: {
+    username: string;
+    firstName: string | null;
+    lastName: string | null;
+  };
+}
+
+interface LiveBlogPanelProps {
+  newsId: string;
+  slug: string;
+  endedAt: Date | null;
+  entries: LiveBlogEntry[];
+}
+
+function parseContent(content: string): SerializedEditorState | undefined {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+}
+
+export function LiveBlogPanel({ newsId, slug, endedAt, entries }: LiveBlogPanelProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [title, setTitle] = useState("");
+  const [content, setContent] = useState<SerializedEditorState | null>(null);
+  const [isPinned, setIsPinned] = useState(false);
+  // Bumped after posting to remount the composer editor empty
+  const [composerKey, setComposerKey] = useState(0);
+  const [posting, setPosting] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [togglingCoverage, setTogglingCoverage] = useState(false);
+  const [entryToEdit, setEntryToEdit] = useState<LiveBlogEntry | null>(null);
+  const [editTitle, setEditTitle] = useState("");
+  const [editContent, setEditContent] = useState<SerializedEditorState | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [entryToDelete, setEntryToDelete] = useState<LiveBlogEntry | null>(null);
+
+  const isLive = !endedAt;
+
+  const showError = (error?: string | null) => {
+    toast({
+      title: "Error",
+      description: error || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const handlePost = async () => {
+    if (!content) {
+      showError("Write the update before posting");
+      return;
+    }
+
+    setPosting(true);
+    const result = await createLiveBlogEntry({
+      newsId,
+      title,
+      content: JSON.stringify(content),
+      isPinned,
+    });
+    setPosting(false);
+
+    if (result.success) {
+      toast({
+        title: "Update posted",
+        description: "Readers will see it within a few seconds.",
+      });
+      setTitle("");
+      setContent(null);
+      setIsPinned(false);
+      setComposerKey((key) => key + 1);
+      router.refresh();
+    } else {
+      showError(result.error);
+    }
+  };
+
+  const handlePin = async (entry: LiveBlogEntry) => {
+    setBusyId(entry.id);
+    const result = await setLiveBlogEntryPinned(entry.id, !entry.isPinned);
+    setBusyId(null);
+
+    if (result.success) {
+      router.refresh();
+    } else {
+      showError(result.error);
+    }
+  };
+
+  const openEdit = (entry: LiveBlogEntry) => {
+    setEntryToEdit(entry);
+    setEditTitle(entry.title || "");
+    setEditContent(parseContent(entry.content) || null);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!entryToEdit) return;
+
+    setSaving(true);
+    const result = await updateLiveBlogEntry({
+      id: entryToEdit.id,
+      title: editTitle,
+      ...(editContent && { content: JSON.stringify(editContent) }),
+    });
+    setSaving(false);
+
+    if (result.success) {
+      toast({ title: "Update edited" });
+      setEntryToEdit(null);
+      router.refresh();
+    } else {
+      showError(result.error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!entryToDelete) return;
+
+    setBusyId(entryToDelete.id);
+    const result = await deleteLiveBlogEntry(entryToDelete.id);
+    setBusyId(null);
+    setEntryToDelete(null);
+
+    if (result.success) {
+      toast({ title: "Update deleted" });
+      router.refresh();
+    } else {
+      showError(result.error);
+    }
+  };
+
+  const handleCoverage = async () => {
+    setTogglingCoverage(true);
+    const result = await setLiveBlogCoverageEnded(newsId, isLive);
+    setTogglingCoverage(false);
+
+    if (result.success) {
+      toast({
+        title: isLive ? "Live coverage ended" : "Live coverage resumed",
+      });
+      router.refresh();
+    } else {
+      showError(result.error);
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Radio className={isLive ? "h-5 w-5 text-red-600" : "h-5 w-5 text-muted-foreground"} />
+                Live Updates
+                <Badge variant={isLive ? "destructive" : "secondary"}>
+                  {isLive ? "Live" : "Ended"}
+                </Badge>
+              </CardTitle>
+              <CardDescription>
+                Updates are published right away, without re-saving the article
+                {endedAt && ` · Coverage ended ${formatDate(endedAt)}`}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Link href={`/news/${slug}`} target="_blank">
+                <Button variant="outline" size="sm">
+                  <Eye className="h-4 w-4 mr-2" />
+                  View
+                </Button>
+              </Link>
+              <Button
+                variant={isLive ? "outline" : "default"}
+                size="sm"
+                onClick={handleCoverage}
+                disabled={togglingCoverage}
+              >
+                {togglingCoverage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isLive ? "End Coverage" : "Resume Coverage"}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isLive && (
+            <div className="space-y-3 rounded-lg border p-4">
+              <Input
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Headline (optional)"
+                maxLength={200}
+                disabled={posting}
+              />
+              <Editor key={composerKey} onSerializedChange={setContent} />
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Switch id="liveEntryPinned" checked={isPinned} onCheckedChange={setIsPinned} />
+                  <Label htmlFor="liveEntryPinned">Pin to top</Label>
+                </div>
+                <Button onClick={handlePost} disabled={posting}>
+                  {posting ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Send className="mr-2 h-4 w-4" />
+                  )}
+                  Post Update
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {entries.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              No updates posted yet.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {entries.map((entry) => (
+                <li key={entry.id} className="flex items-start gap-3 rounded-lg border px-3 py-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <span className="font-semibold text-foreground">{formatDate(entry.createdAt)}</span>
+                      <span>{getAuthorDisplayName(entry.author)}</span>
+                      {entry.isPinned && (
+                        <Badge variant="secondary" className="text-[10px]">
+                          Pinned
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-sm font-medium truncate mt-1">
+                      {entry.title || "Untitled update"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handlePin(entry)}
+                      disabled={busyId === entry.id}
+                      title={entry.isPinned ? "Unpin" : "Pin"}
+                    >
+                      {entry.isPinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => openEdit(entry)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setEntryToDelete(entry)}
+                      disabled={busyId === entry.id}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!entryToEdit} onOpenChange={(open) => !open && setEntryToEdit(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Edit Update</DialogTitle>
+            <DialogDescription>
+              Posted {entryToEdit && formatDate(entryToEdit.createdAt)}. The original time is kept.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Input
+              value={editTitle}
+              onChange={(e) => setEditTitle(e.target.value)}
+              placeholder="Headline (optional)"
+              maxLength={200}
+            />
+            {entryToEdit && (
+              <Editor
+                key={entryToEdit.id}
+                editorSerializedState={parseContent(entryToEdit.content)}
+                onSerializedChange={setEditContent}
+              />
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEntryToEdit(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveEdit} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!entryToDelete} onOpenChange={(open) => !open && setEntryToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Update</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete this update? Readers will no longer see it. This
+              action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEntryToDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={!!busyId}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
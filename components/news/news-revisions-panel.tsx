@@ -0,0 +1,268 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { History, RotateCcw, GitCompare, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { compareNewsRevisions, restoreNewsRevision } from "@/lib/actions/news-revisions";
+import type { DiffLine } from "@/lib/utils/text-diff";
+import { cn } from "@/lib/utils";
+
+/**
+ * News Revisions Panel
+ * Lists saved revisions of a news post, diffs any two and restores one
+ */
+interface Revision {
+  id: string;
+  version: number;
+  title: string;
+  reason: string;
+  createdAt: Date;
+  createdBy: {
+    id: string;
+    username: string;
+    firstName: string | null;
+    lastName: string | null;
+  } | null;
+}
+
+interface Comparison {
+  from: { id: string; version: number };
+  to: { id: string; version: number };
+  fields: Array<{ label: string; diff: DiffLine[] }>;
+  body: DiffLine[];
+}
+
+interface NewsRevisionsPanelProps {
+  revisions: Revision[];
+}
+
+function DiffView({ lines }: { lines: DiffLine[] }) {
+  return (
+    <div className="rounded-md border bg-muted/30 text-sm font-mono max-h-[28rem] overflow-auto">
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          className={cn(
+            "px-3 py-0.5 whitespace-pre-wrap break-words",
+            line.type === "added" && "bg-green-500/15 text-green-700 dark:text-green-400",
+            line.type === "removed" && "bg-red-500/15 text-red-700 dark:text-red-400 line-through"
+          )}
+        >
+          <span className="select-none mr-2 text-muted-foreground">
+            {line.type === "added" ? "+" : line.type === "removed" ? "−" : " "}
+          </span>
+          {line.value || " "}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function NewsRevisionsPanel({ revisions }: NewsRevisionsPanelProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [fromId, setFromId] = useState(revisions[1]?.id || "");
+  const [toId, setToId] = useState(revisions[0]?.id || "");
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [revisionToRestore, setRevisionToRestore] = useState<Revision | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const authorName = (revision: Revision) => {
+    if (!revision.createdBy) return "Deleted user";
+    return revision.createdBy.firstName || revision.createdBy.lastName
+      ? `${revision.createdBy.firstName || ""} ${revision.createdBy.lastName || ""}`.trim()
+      : revision.createdBy.username;
+  };
+
+  const handleCompare = async () => {
+    if (!fromId || !toId) return;
+
+    setComparing(true);
+    const result = await compareNewsRevisions(fromId, toId);
+    setComparing(false);
+
+    if (result.success && result.comparison) {
+      setComparison(result.comparison);
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to compare revisions",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!revisionToRestore) return;
+
+    setRestoring(true);
+    const result = await restoreNewsRevision(revisionToRestore.id);
+    setRestoring(false);
+
+    if (result.success) {
+      toast({
+        title: "Revision restored",
+        description: `The post was restored to version ${revisionToRestore.version}.`,
+      });
+      setRevisionToRestore(null);
+      setComparison(null);
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to restore revision",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="shadow-sm border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <History className="h-5 w-5 text-primary" />
+          Revisions
+        </CardTitle>
+        <CardDescription>
+          Every save is kept. Compare any two versions or restore an earlier one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No revisions saved yet.</p>
+        ) : (
+          <>
+            <div className="divide-y rounded-md border">
+              {revisions.map((revision) => (
+                <div key={revision.id} className="flex items-center justify-between gap-4 px-4 py-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">v{revision.version}</span>
+                      <Badge variant="outline" className="text-xs capitalize">
+                        {revision.reason}
+                      </Badge>
+                      <span className="truncate text-sm">{revision.title}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(revision.createdAt).toLocaleString()} · {authorName(revision)}
+                    </p>
+                  </div>
+                  {revision.id !== revisions[0].id && (
+                    <Button variant="ghost" size="sm" onClick={() => setRevisionToRestore(revision)}>
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {revisions.length > 1 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <Select value={fromId} onValueChange={setFromId}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="From" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions.map((revision) => (
+                      <SelectItem key={revision.id} value={revision.id}>
+                        v{revision.version}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-sm text-muted-foreground">→</span>
+                <Select value={toId} onValueChange={setToId}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="To" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions.map((revision) => (
+                      <SelectItem key={revision.id} value={revision.id}>
+                        v{revision.version}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  onClick={handleCompare}
+                  disabled={comparing || !fromId || !toId || fromId === toId}
+                >
+                  {comparing ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <GitCompare className="h-4 w-4 mr-2" />
+                  )}
+                  Compare
+                </Button>
+              </div>
+            )}
+
+            {comparison && (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Changes from v{comparison.from.version} to v{comparison.to.version}
+                </p>
+                {comparison.fields.map((field) => (
+                  <div key={field.label} className="space-y-2">
+                    <h4 className="text-sm font-medium">{field.label}</h4>
+                    <DiffView lines={field.diff} />
+                  </div>
+                ))}
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Content</h4>
+                  {comparison.body.some((line) => line.type !== "equal") ? (
+                    <DiffView lines={comparison.body} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No content changes.</p>
+                  )}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={!!revisionToRestore} onOpenChange={(open) => !open && setRevisionToRestore(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Restore Revision</DialogTitle>
+            <DialogDescription>
+              Replace the current title, content, SEO fields and categories with version{" "}
+              {revisionToRestore?.version}? The current version stays in the history.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevisionToRestore(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRestore} disabled={restoring}>
+              {restoring ? "Restoring..." : "Restore"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -19,6 +19,8 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { formatDate } from "@/lib/utils";
+import { NewsWorkflowActions } from "@/components/news/news-workflow-actions";
+import { NEWS_STATUS_LABELS, type NewsStatus } from "@/lib/workflow/news-workflow";
 
 /**
  * News Table Component
@@ -32,6 +34,8 @@ interface News {
   isActive: boolean;
   isBreaking: boolean;
   isFeatured: boolean;
+  status: string;
+  reviewNotes: string | null;
   viewCount: number;
   author: {
     id: string;
@@ -55,6 +59,7 @@ interface News {
     };
   }>;
   authorId: string;
+  editorId: string | null;
   createdAt: Date;
   updatedAt: Date;
   publishedAt: Date | null;
@@ -66,9 +71,21 @@ interface NewsTableProps {
   page: number;
   totalPages: number;
   search?: string;
+  status?: string;
+  currentUserId: string;
+  permissions: string[];
 }
 
-export function NewsTable({ news, total, page, totalPages, search: initialSearch }: any) {
+export function NewsTable({
+  news,
+  total,
+  page,
+  totalPages,
+  search: initialSearch,
+  status,
+  currentUserId,
+  permissions,
+}: NewsTableProps) {
   const router = useRouter();
   const { toast } = useToast();
   const [search, setSearch] = useState(initialSearch || "");
@@ -80,6 +97,7 @@ export function NewsTable({ news, total, page, totalPages, search: initialSearch
     e.preventDefault();
     const params = new URLSearchParams();
     if (search) params.set("search", search);
+    if (status) params.set("status", status);
     params.set("page", "1");
     router.push(`/dashboard/news?${params.toString()}`);
   };
@@ -145,7 +163,7 @@ export function NewsTable({ news, total, page, totalPages, search: initialSearch
                   </TableCell>
                 </TableRow>
               ) : (
-                news.map((item:any) => (
+                news.map((item) => (
                   <TableRow key={item.id}>
                     <TableCell>
                       <div>
@@ -173,7 +191,7 @@ export function NewsTable({ news, total, page, totalPages, search: initialSearch
                     </TableCell>
                     <TableCell>
                       <div className="flex flex-wrap gap-1">
-                        {item.categories.slice(0, 2).map((cat:any) => (
+                        {item.categories.slice(0, 2).map((cat) => (
                           <Badge key={cat.menu.id} variant="outline" className="text-xs">
                             {cat.menu.name}
                           </Badge>
@@ -188,12 +206,18 @@ export function NewsTable({ news, total, page, totalPages, search: initialSearch
                     <TableCell>
                       <div className="flex gap-2">
                         <Badge variant={item.isPublished ? "default" : "secondary"}>
-                          {item.isPublished ? "Published" : "Draft"}
+                          {NEWS_STATUS_LABELS[item.status as NewsStatus] ??
+                            (item.isPublished ? "Published" : "Draft")}
                         </Badge>
                         {!item.isActive && (
                           <Badge variant="destructive">Inactive</Badge>
                         )}
                       </div>
+                      {item.status === "changes_requested" && item.reviewNotes && (
+                        <p className="text-xs text-muted-foreground line-clamp-2 mt-1 max-w-[16rem]">
+                          {item.reviewNotes}
+                        </p>
+                      )}
                     </TableCell>
                     <TableCell>{item.viewCount}</TableCell>
                     <TableCell>
@@ -205,7 +229,7 @@ export function NewsTable({ news, total, page, totalPages, search: initialSearch
                         </p>
                         {item.editor && (
                           <p className="text-xs text-muted-foreground">
-                            Edited by {item.editor.username}
+                            {item.status === "published" ? "Edited" : "Reviewer"}: {item.editor.username}
                           </p>
                         )}
                       </div>
@@ -218,6 +242,11 @@ export function NewsTable({ news, total, page, totalPages, search: initialSearch
                             <Eye className="h-4 w-4" />
                           </Button>
                         </Link>
+                        <NewsWorkflowActions
+                          news={item}
+                          currentUserId={currentUserId}
+                          permissions={permissions}
+                        />
                         <Link href={`/dashboard/news/${item.id}/edit`}>
                           <Button variant="ghost" size="icon">
                             <Edit className="h-4 w-4" />
@@ -254,6 +283,7 @@ export function NewsTable({ news, total, page, totalPages, search: initialSearch
                 onClick={() => {
                   const params = new URLSearchParams();
                   if (search) params.set("search", search);
+                  if (status) params.set("status", status);
                   params.set("page", String(page - 1));
                   router.push(`/dashboard/news?${params.toString()}`);
                 }}
@@ -266,6 +296,7 @@ export function NewsTable({ news, total, page, totalPages, search: initialSearch
                 onClick={() => {
                   const params = new URLSearchParams();
                   if (search) params.set("search", search);
+                  if (status) params.set("status", status);
                   params.set("page", String(page + 1));
                   router.push(`/dashboard/news?${params.toString()}`);
                 }}
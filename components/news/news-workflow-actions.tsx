@@ -0,0 +1,232 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { GitPullRequestArrow, UserCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  assignNewsReviewer,
+  getNewsReviewers,
+  transitionNewsStatus,
+} from "@/lib/actions/news-workflow";
+import {
+  getAvailableTransitions,
+  NEWS_TRANSITIONS,
+  type NewsWorkflowAction,
+} from "@/lib/workflow/news-workflow";
+
+/**
+ * News Workflow Actions
+ * Per-row dropdown for moving a post through the editorial workflow
+ */
+interface NewsWorkflowActionsProps {
+  news: {
+    id: string;
+    title: string;
+    status: string;
+    authorId: string;
+    editorId: string | null;
+  };
+  currentUserId: string;
+  permissions: string[];
+}
+
+interface Reviewer {
+  id: string;
+  username: string;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+export function NewsWorkflowActions({ news, currentUserId, permissions }: NewsWorkflowActionsProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [pendingAction, setPendingAction] = useState<NewsWorkflowAction | null>(null);
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [reviewerDialogOpen, setReviewerDialogOpen] = useState(false);
+  const [reviewers, setReviewers] = useState<Reviewer[]>([]);
+  const [reviewerId, setReviewerId] = useState(news.editorId || "");
+
+  const actions = getAvailableTransitions(news.status, permissions, news.authorId === currentUserId);
+  const canAssignReviewer = permissions.includes("news.approve");
+
+  if (actions.length === 0 && !canAssignReviewer) {
+    return null;
+  }
+
+  const openReviewerDialog = async () => {
+    setReviewerDialogOpen(true);
+    const result = await getNewsReviewers();
+    if (result.success) {
+      setReviewers(result.reviewers);
+    }
+  };
+
+  const handleTransition = async () => {
+    if (!pendingAction) return;
+
+    setSaving(true);
+    const result = await transitionNewsStatus({
+      newsId: news.id,
+      action: pendingAction,
+      note: note || undefined,
+    });
+    setSaving(false);
+
+    if (result.success) {
+      toast({
+        title: "Status updated",
+        description: `"${news.title}" is now ${NEWS_TRANSITIONS[pendingAction].to.replace("_", " ")}.`,
+      });
+      setPendingAction(null);
+      setNote("");
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to update status",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAssignReviewer = async () => {
+    if (!reviewerId) return;
+
+    setSaving(true);
+    const result = await assignNewsReviewer({ newsId: news.id, reviewerId });
+    setSaving(false);
+
+    if (result.success) {
+      toast({
+        title: "Reviewer assigned",
+        description: "The reviewer has been assigned to this post.",
+      });
+      setReviewerDialogOpen(false);
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to assign reviewer",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" title="Workflow">
+            <GitPullRequestArrow className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Workflow</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {actions.map((action) => (
+            <DropdownMenuItem key={action} onSelect={() => setPendingAction(action)}>
+              {NEWS_TRANSITIONS[action].label}
+            </DropdownMenuItem>
+          ))}
+          {canAssignReviewer && (
+            <>
+              {actions.length > 0 && <DropdownMenuSeparator />}
+              <DropdownMenuItem onSelect={openReviewerDialog}>
+                <UserCheck className="h-4 w-4 mr-2" />
+                Assign reviewer
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{pendingAction && NEWS_TRANSITIONS[pendingAction].label}</DialogTitle>
+            <DialogDescription>{news.title}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`note-${news.id}`}>
+              Notes {pendingAction && NEWS_TRANSITIONS[pendingAction].requiresNote ? "*" : "(optional)"}
+            </Label>
+            <Textarea
+              id={`note-${news.id}`}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Notes for the author"
+              rows={4}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingAction(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleTransition} disabled={saving}>
+              {saving ? "Saving..." : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={reviewerDialogOpen} onOpenChange={setReviewerDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Assign Reviewer</DialogTitle>
+            <DialogDescription>{news.title}</DialogDescription>
+          </DialogHeader>
+          <Select value={reviewerId} onValueChange={setReviewerId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a reviewer" />
+            </SelectTrigger>
+            <SelectContent>
+              {reviewers.map((reviewer) => (
+                <SelectItem key={reviewer.id} value={reviewer.id}>
+                  {reviewer.firstName || reviewer.lastName
+                    ? `${reviewer.firstName || ""} ${reviewer.lastName || ""}`.trim()
+                    : reviewer.username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewerDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleAssignReviewer} disabled={saving || !reviewerId}>
+              {saving ? "Assigning..." : "Assign"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -4,6 +4,7 @@
  * Features:
  * - Debounced search input
  * - Autocomplete suggestions
+ * - Popular and recent query suggestions
  * - Search results dropdown
  * - Keyboard navigation
  * - Mobile responsive
@@ -12,7 +13,7 @@
 "use client";
 
 import * as React from "react";
-import { Search, X, Loader2, Clock } from "lucide-react";
+import { Search, X, Loader2, Clock, TrendingUp } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
@@ -23,11 +24,47 @@ interface SearchSuggestion {
   id: string;
   title: string;
   slug: string;
-  type: "news";
+  type: "news" | "popular" | "recent";
   coverImage?: string | null;
   publishedAt?: string | null;
 }
 
+const RECENT_SEARCHES_KEY = "recent-searches";
+const MAX_RECENT_SEARCHES = 5;
+
+/**
+ * Recent searches are kept per browser in localStorage
+ */
+function loadRecentSearches(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_SEARCHES_KEY) || "[]");
+    return Array.isArray(stored) ? stored.filter((item) => typeof item === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveRecentSearch(query: string) {
+  try {
+    const recent = loadRecentSearches().filter(
+      (item) => item.toLowerCase() !== query.toLowerCase()
+    );
+    localStorage.setItem(
+      RECENT_SEARCHES_KEY,
+      JSON.stringify([query, ...recent].slice(0, MAX_RECENT_SEARCHES))
+    );
+  } catch {
+    // Storage unavailable (private mode); recent searches are best-effort
+  }
+}
+
+const toQuerySuggestion = (query: string, type: "popular" | "recent"): SearchSuggestion => ({
+  id: `${type}:${query}`,
+  title: query,
+  slug: "",
+  type,
+});
+
 interface SearchBarProps {
   variant?: "desktop" | "mobile";
   onClose?: () => void;
@@ -40,9 +77,37 @@ export function SearchBar({ variant = "desktop", onClose }: SearchBarProps) {
   const [isLoading, setIsLoading] = React.useState(false);
   const [showSuggestions, setShowSuggestions] = React.useState(false);
   const [selectedIndex, setSelectedIndex] = React.useState(-1);
+  const [popularSearches, setPopularSearches] = React.useState<string[] | null>(null);
+  const skipNextFetchRef = React.useRef(false);
   const inputRef = React.useRef<HTMLInputElement>(null);
   const suggestionsRef = React.useRef<HTMLDivElement>(null);
 
+  // Recent and popular queries shown before the reader types
+  const showQuerySuggestions = React.useCallback(async () => {
+    let popular = popularSearches;
+    if (popular === null) {
+      try {
+        const response = await fetch("/api/news/search/suggestions?limit=5");
+        const data = await response.json();
+        popular = data.success ? (data.data as string[]) : [];
+      } catch (error) {
+        console.error("Search suggestions error:", error);
+        popular = [];
+      }
+      setPopularSearches(popular);
+    }
+
+    const recent = loadRecentSearches();
+    const recentLower = recent.map((item) => item.toLowerCase());
+    setSuggestions([
+      ...recent.map((item) => toQuerySuggestion(item, "recent")),
+      ...popular
+        .filter((item) => !recentLower.includes(item.toLowerCase()))
+        .map((item) => toQuerySuggestion(item, "popular")),
+    ]);
+    setShowSuggestions(true);
+  }, [popularSearches]);
+
   // Debounce search
   React.useEffect(() => {
     if (query.length < 2) {
@@ -51,6 +116,12 @@ export function SearchBar({ variant = "desktop", onClose }: SearchBarProps) {
       return;
     }
 
+    // Query was filled in from a suggestion and is already being searched
+    if (skipNextFetchRef.current) {
+      skipNextFetchRef.current = false;
+      return;
+    }
+
     const timeoutId = setTimeout(async () => {
       setIsLoading(true);
       try {
@@ -68,7 +139,10 @@ export function SearchBar({ variant = "desktop", onClose }: SearchBarProps) {
             coverImage: item.coverImage,
             publishedAt: item.publishedAt,
           }));
-          setSuggestions(mapped);
+          const popular = (data.meta?.suggestions || []).map((item: string) =>
+            toQuerySuggestion(item, "popular")
+          );
+          setSuggestions([...popular, ...mapped]);
           setShowSuggestions(true);
         }
       } catch (error) {
@@ -86,17 +160,30 @@ export function SearchBar({ variant = "desktop", onClose }: SearchBarProps) {
     const finalQuery = searchQuery || query;
     if (finalQuery.trim().length < 2) return;
 
+    saveRecentSearch(finalQuery.trim());
     router.push(`/search?q=${encodeURIComponent(finalQuery.trim())}`);
     setShowSuggestions(false);
     onClose?.();
   };
 
+  // Search for a recent/popular query picked from the dropdown
+  const selectQuerySuggestion = (suggestedQuery: string) => {
+    if (suggestedQuery !== query) {
+      skipNextFetchRef.current = true;
+      setQuery(suggestedQuery);
+    }
+    handleSearch(suggestedQuery);
+  };
+
   // Handle keyboard navigation
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === "Enter") {
       e.preventDefault();
-      if (selectedIndex >= 0 && suggestions[selectedIndex]) {
-        router.push(`/news/${suggestions[selectedIndex].slug}`);
+      const selected = suggestions[selectedIndex];
+      if (selected && selected.type !== "news") {
+        selectQuerySuggestion(selected.title);
+      } else if (selected) {
+        router.push(`/news/${selected.slug}`);
         setShowSuggestions(false);
         onClose?.();
       } else {
@@ -162,7 +249,11 @@ export function SearchBar({ variant = "desktop", onClose }: SearchBarProps) {
           }}
           onKeyDown={handleKeyDown}
           onFocus={() => {
-            if (suggestions.length > 0) setShowSuggestions(true);
+            if (query.length < 2) {
+              showQuerySuggestions();
+            } else if (suggestions.length > 0) {
+              setShowSuggestions(true);
+            }
           }}
           className={cn(
             "pl-9 pr-10",
@@ -195,47 +286,68 @@ export function SearchBar({ variant = "desktop", onClose }: SearchBarProps) {
           ref={suggestionsRef}
           className="absolute z-50 w-full mt-1 bg-popover border border-border rounded-md shadow-lg max-h-80 overflow-y-auto"
         >
-          {suggestions.map((suggestion, index) => (
-            <Link
-              key={suggestion.id}
-              href={`/news/${suggestion.slug}`}
-              onClick={() => {
-                setShowSuggestions(false);
-                onClose?.();
-              }}
-              className={cn(
-                "flex items-start gap-3 px-4 py-3 hover:bg-accent transition-colors cursor-pointer",
-                index === selectedIndex && "bg-accent"
-              )}
-            >
-              {suggestion.coverImage && (
-                <img
-                  src={suggestion.coverImage}
-                  alt={suggestion.title}
-                  className="w-12 h-12 object-cover rounded flex-shrink-0"
-                />
-              )}
-              <div className="flex-1 min-w-0">
-                <span className="text-sm font-medium line-clamp-2">{suggestion.title}</span>
-                {suggestion.publishedAt && (
-                  <div className="text-xs text-muted-foreground mt-1">
-                    {new Date(suggestion.publishedAt).toLocaleDateString()}
-                  </div>
+          {suggestions.map((suggestion, index) =>
+            suggestion.type !== "news" ? (
+              <button
+                key={suggestion.id}
+                type="button"
+                onClick={() => selectQuerySuggestion(suggestion.title)}
+                className={cn(
+                  "flex w-full items-center gap-3 px-4 py-2 text-left text-sm hover:bg-accent transition-colors",
+                  index === selectedIndex && "bg-accent"
+                )}
+              >
+                {suggestion.type === "recent" ? (
+                  <Clock className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                ) : (
+                  <TrendingUp className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                )}
+                <span className="truncate">{suggestion.title}</span>
+              </button>
+            ) : (
+              <Link
+                key={suggestion.id}
+                href={`/news/${suggestion.slug}`}
+                onClick={() => {
+                  setShowSuggestions(false);
+                  onClose?.();
+                }}
+                className={cn(
+                  "flex items-start gap-3 px-4 py-3 hover:bg-accent transition-colors cursor-pointer",
+                  index === selectedIndex && "bg-accent"
                 )}
-              </div>
-            </Link>
-          ))}
-          <div className="border-t border-border px-4 py-2">
-            <Button
-              variant="ghost"
-              size="sm"
-              className="w-full justify-start text-xs"
-              onClick={() => handleSearch()}
-            >
-              <Clock className="h-3 w-3 mr-2" />
-              Search for &quot;{query}&quot;
-            </Button>
-          </div>
+              >
+                {suggestion.coverImage && (
+                  <img
+                    src={suggestion.coverImage}
+                    alt={suggestion.title}
+                    className="w-12 h-12 object-cover rounded flex-shrink-0"
+                  />
+                )}
+                <div className="flex-1 min-w-0">
+                  <span className="text-sm font-medium line-clamp-2">{suggestion.title}</span>
+                  {suggestion.publishedAt && (
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {new Date(suggestion.publishedAt).toLocaleDateString()}
+                    </div>
+                  )}
+                </div>
+              </Link>
+            )
+          )}
+          {query.length >= 2 && (
+            <div className="border-t border-border px-4 py-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full justify-start text-xs"
+                onClick={() => handleSearch()}
+              >
+                <Clock className="h-3 w-3 mr-2" />
+                Search for &quot;{query}&quot;
+              </Button>
+            </div>
+          )}
         </div>
       )}
     </div>
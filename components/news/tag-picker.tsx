@@ -0,0 +1,193 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Plus, X } from "lucide-react";
+import { searchTags } from "@/lib/actions/tags";
+import { MAX_TAGS_PER_NEWS, generateTagSlug, normalizeTagName } from "@/lib/utils/tags";
+import { cn } from "@/lib/utils";
+
+/**
+ * Tag Picker Component
+ * Free-form tag input with autocomplete from existing tags
+ * Enter or comma adds the typed tag; unknown tags are created on save
+ */
+interface TagSuggestion {
+  id: string;
+  name: string;
+  slug: string;
+  newsCount: number;
+}
+
+interface TagPickerProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  disabled?: boolean;
+}
+
+export function TagPicker({ value, onChange, disabled }: TagPickerProps) {
+  const [input, setInput] = useState("");
+  const [suggestions, setSuggestions] = useState<TagSuggestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const selectedSlugs = new Set(value.map(generateTagSlug));
+  const visibleSuggestions = suggestions.filter((tag) => !selectedSlugs.has(tag.slug));
+  const limitReached = value.length >= MAX_TAGS_PER_NEWS;
+
+  // Debounced lookup of existing tags
+  useEffect(() => {
+    const query = normalizeTagName(input);
+    if (!query) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      const result = await searchTags(query, 8);
+      if (!cancelled) {
+        setSuggestions(result.success ? result.tags : []);
+        setActiveIndex(-1);
+        setLoading(false);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [input]);
+
+  // Close suggestions on outside click
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const addTags = (raws: string[]) => {
+    const next = [...value];
+    const slugs = new Set(selectedSlugs);
+    for (const raw of raws) {
+      const name = normalizeTagName(raw);
+      const slug = generateTagSlug(name);
+      if (!name || !slug || slugs.has(slug) || next.length >= MAX_TAGS_PER_NEWS) continue;
+      slugs.add(slug);
+      next.push(name);
+    }
+    setInput("");
+    setSuggestions([]);
+    if (next.length !== value.length) {
+      onChange(next);
+    }
+  };
+
+  const addTag = (raw: string) => addTags([raw]);
+
+  const removeTag = (name: string) => {
+    onChange(value.filter((tag) => tag !== name));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      const active = visibleSuggestions[activeIndex];
+      addTag(active ? active.name : input);
+    } else if (e.key === "ArrowDown" && visibleSuggestions.length > 0) {
+      e.preventDefault();
+      setOpen(true);
+      setActiveIndex((prev) => (prev + 1) % visibleSuggestions.length);
+    } else if (e.key === "ArrowUp" && visibleSuggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex((prev) => (prev <= 0 ? visibleSuggestions.length - 1 : prev - 1));
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    } else if (e.key === "Backspace" && !input && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  const showDropdown = open && normalizeTagName(input).length > 0;
+
+  return (
+    <div ref={containerRef} className="space-y-3">
+      <div className="relative">
+        <Input
+          value={input}
+          placeholder={limitReached ? `Up to ${MAX_TAGS_PER_NEWS} tags` : "Type a tag and press Enter"}
+          onChange={(e) => {
+            // Pasting "a, b, c" adds every complete tag at once
+            const parts = e.target.value.split(",");
+            if (parts.length > 1) {
+              const last = parts.pop() || "";
+              addTags(parts);
+              setInput(last);
+            } else {
+              setInput(e.target.value);
+            }
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onKeyDown={handleKeyDown}
+          disabled={disabled || limitReached}
+        />
+        {loading && (
+          <Loader2 className="absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-muted-foreground" />
+        )}
+
+        {showDropdown && (
+          <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover shadow-md">
+            {visibleSuggestions.map((tag, index) => (
+              <button
+                key={tag.id}
+                type="button"
+                className={cn(
+                  "flex w-full items-center justify-between px-3 py-2 text-left text-sm hover:bg-accent",
+                  index === activeIndex && "bg-accent"
+                )}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag.name)}
+              >
+                <span>{tag.name}</span>
+                <span className="text-xs text-muted-foreground">{tag.newsCount}</span>
+              </button>
+            ))}
+            {!visibleSuggestions.some(
+              (tag) => tag.slug === generateTagSlug(input)
+            ) && (
+              <button
+                type="button"
+                className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm text-muted-foreground hover:bg-accent"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(input)}
+              >
+                <Plus className="h-3 w-3" />
+                Add &quot;{normalizeTagName(input)}&quot;
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1 py-1.5 px-3 text-xs">
+              {tag}
+              <X
+                className="h-3 w-3 cursor-pointer hover:text-destructive transition-colors"
+                onClick={() => !disabled && removeTag(tag)}
+              />
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
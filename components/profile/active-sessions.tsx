@@ -0,0 +1,133 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, LogOut, Monitor } from "lucide-react";
+import { signOutOtherSessions, signOutSession } from "@/lib/actions/sessions";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/lib/utils";
+
+/**
+ * Active Sessions Component
+ * Devices signed in to the account, with sign-out for the other ones
+ */
+interface ActiveSession {
+  id: string;
+  device: string;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  isCurrent: boolean;
+}
+
+interface ActiveSessionsProps {
+  sessions: ActiveSession[];
+}
+
+export function ActiveSessions({ sessions }: ActiveSessionsProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [workingId, setWorkingId] = useState<string | null>(null);
+
+  const otherCount = sessions.filter((session) => !session.isCurrent).length;
+
+  const handleSignOut = async (sessionId: string) => {
+    setWorkingId(sessionId);
+    const result = await signOutSession(sessionId);
+    setWorkingId(null);
+
+    if (result.success) {
+      toast({
+        title: "Device signed out",
+        description: "That device will need to sign in again.",
+      });
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to sign out device",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSignOutOthers = async () => {
+    setWorkingId("others");
+    const result = await signOutOtherSessions();
+    setWorkingId(null);
+
+    if (result.success) {
+      toast({
+        title: "Other devices signed out",
+        description: `${result.count} session(s) ended.`,
+      });
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to sign out other devices",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Active Sessions</CardTitle>
+          <CardDescription>
+            Devices signed in to your account. Changing your password also signs out the others.
+          </CardDescription>
+        </div>
+        {otherCount > 0 && (
+          <Button variant="outline" onClick={handleSignOutOthers} disabled={workingId !== null}>
+            {workingId === "others" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Sign out other devices
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className="divide-y rounded-md border">
+          {sessions.map((session) => (
+            <div key={session.id} className="flex items-center gap-4 p-4">
+              <Monitor className="h-5 w-5 shrink-0 text-muted-foreground" />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium">
+                  {session.device}
+                  {session.isCurrent && (
+                    <Badge variant="secondary" className="ml-2">
+                      This device
+                    </Badge>
+                  )}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {session.ipAddress || "Unknown IP"} · Signed in {formatDate(session.createdAt)} · Last active{" "}
+                  {formatDate(session.lastSeenAt)}
+                </p>
+              </div>
+              {!session.isCurrent && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Sign out this device"
+                  onClick={() => handleSignOut(session.id)}
+                  disabled={workingId !== null}
+                >
+                  {workingId === session.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <LogOut className="h-4 w-4" />
+                  )}
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
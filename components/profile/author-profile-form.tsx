@@ -0,0 +1,196 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { updateAuthorProfile } from "@/lib/actions/profile";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { ExternalLink, Loader2 } from "lucide-react";
+import { AUTHOR_SOCIAL_FIELDS, getAuthorPath } from "@/lib/utils/author";
+
+const optionalUrl = z.string().url("Please enter a valid URL").optional().or(z.literal(""));
+
+const authorProfileSchema = z.object({
+  authorSlug: z
+    .string()
+    .regex(/^([a-z0-9]+(?:-[a-z0-9]+)*)?$/, "Use lowercase letters, numbers and hyphens only")
+    .max(50)
+    .optional(),
+  designation: z.string().max(100).optional(),
+  bio: z.string().max(1000, "Bio must be less than 1000 characters").optional(),
+  websiteUrl: optionalUrl,
+  twitterUrl: optionalUrl,
+  facebookUrl: optionalUrl,
+  linkedinUrl: optionalUrl,
+  instagramUrl: optionalUrl,
+});
+
+type AuthorProfileFormData = z.infer<typeof authorProfileSchema>;
+
+interface AuthorProfileFormProps {
+  user: {
+    username: string;
+    authorSlug: string | null;
+    designation: string | null;
+    bio: string | null;
+    websiteUrl: string | null;
+    twitterUrl: string | null;
+    facebookUrl: string | null;
+    linkedinUrl: string | null;
+    instagramUrl: string | null;
+  };
+}
+
+export function AuthorProfileForm({ user }: AuthorProfileFormProps) {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<AuthorProfileFormData>({
+    resolver: zodResolver(authorProfileSchema),
+    defaultValues: {
+      authorSlug: user.authorSlug || "",
+      designation: user.designation || "",
+      bio: user.bio || "",
+      websiteUrl: user.websiteUrl || "",
+      twitterUrl: user.twitterUrl || "",
+      facebookUrl: user.facebookUrl || "",
+      linkedinUrl: user.linkedinUrl || "",
+      instagramUrl: user.instagramUrl || "",
+    },
+  });
+
+  const bio = watch("bio") || "";
+  const profilePath = getAuthorPath({ username: user.username, authorSlug: user.authorSlug });
+
+  const onSubmit = async (data: AuthorProfileFormData) => {
+    setLoading(true);
+    try {
+      const result = await updateAuthorProfile(data);
+
+      if (result.success) {
+        toast({
+          title: "Author profile updated",
+          description: "Your public author page has been updated.",
+        });
+        window.location.reload();
+      } else {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to update author profile",
+          variant: "destructive",
+        });
+      }
+    } catch {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Author Profile</CardTitle>
+            <CardDescription>
+              Shown on your public author page and under articles you write
+            </CardDescription>
+          </div>
+          <Link href={profilePath} target="_blank">
+            <Button variant="outline" size="sm">
+              <ExternalLink className="mr-2 h-4 w-4" />
+              View Page
+            </Button>
+          </Link>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="designation">Designation</Label>
+              <Input
+                id="designation"
+                placeholder="Senior Correspondent"
+                {...register("designation")}
+                disabled={loading}
+              />
+              {errors.designation && (
+                <p className="text-sm text-destructive">{errors.designation.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="authorSlug">Profile URL</Label>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground shrink-0">/author/</span>
+                <Input
+                  id="authorSlug"
+                  placeholder={user.username}
+                  {...register("authorSlug")}
+                  disabled={loading}
+                />
+              </div>
+              {errors.authorSlug && (
+                <p className="text-sm text-destructive">{errors.authorSlug.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="bio">Bio</Label>
+              <span
+                className={`text-xs ${bio.length > 1000 ? "text-destructive" : "text-muted-foreground"}`}
+              >
+                {bio.length}/1000
+              </span>
+            </div>
+            <Textarea id="bio" rows={4} {...register("bio")} disabled={loading} />
+            {errors.bio && <p className="text-sm text-destructive">{errors.bio.message}</p>}
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            {AUTHOR_SOCIAL_FIELDS.map(({ key, label }) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={key}>{label}</Label>
+                <Input
+                  id={key}
+                  type="url"
+                  placeholder="https://"
+                  {...register(key)}
+                  disabled={loading}
+                />
+                {errors[key] && (
+                  <p className="text-sm text-destructive">{errors[key]?.message}</p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <Button type="submit" disabled={loading}>
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Update Author Profile
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -117,7 +117,7 @@ export function ProfileForm({ user }: ProfileFormProps) {
       if (result.success) {
         toast({
           title: "Password changed",
-          description: "Your password has been successfully changed.",
+          description: "Your password has been changed and your other devices were signed out.",
         });
         resetPassword();
       } else {
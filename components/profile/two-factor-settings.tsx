@@ -0,0 +1,329 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Copy, Loader2, ShieldAlert, ShieldCheck } from "lucide-react";
+import {
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  startTwoFactorEnrollment,
+} from "@/lib/actions/two-factor";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/lib/utils";
+
+/**
+ * Two-Factor Settings Component
+ * Enrolment with an authenticator app (QR code or setup key), recovery codes
+ * that are shown once, and turning two-factor authentication off
+ */
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+interface TwoFactorSettingsProps {
+  status: TwoFactorStatus;
+}
+
+interface Enrollment {
+  secret: string;
+  qrPath: string;
+  qrSize: number;
+}
+
+type CodeAction = "disable" | "regenerate";
+
+export function TwoFactorSettings({ status }: TwoFactorSettingsProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [actionCode, setActionCode] = useState("");
+
+  const showError = (message: string) => {
+    toast({
+      title: "Error",
+      description: message,
+      variant: "destructive",
+    });
+  };
+
+  const handleStart = async () => {
+    setLoading(true);
+    const result = await startTwoFactorEnrollment();
+    setLoading(false);
+
+    if (result.success && result.enrollment) {
+      setEnrollment(result.enrollment);
+      setCode("");
+    } else {
+      showError(result.error || "Failed to start two-factor setup");
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    const result = await confirmTwoFactorEnrollment(code);
+    setLoading(false);
+
+    if (result.success && result.recoveryCodes) {
+      setEnrollment(null);
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+      toast({
+        title: "Two-factor authentication enabled",
+        description: "Your other devices have been signed out.",
+      });
+      router.refresh();
+    } else {
+      showError(result.error || "Failed to enable two-factor authentication");
+    }
+  };
+
+  const handleCodeAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    if (codeAction === "regenerate") {
+      const result = await regenerateRecoveryCodes(actionCode);
+      setLoading(false);
+
+      if (!result.success || !result.recoveryCodes) {
+        showError(result.error || "Failed to generate recovery codes");
+        return;
+      }
+      setRecoveryCodes(result.recoveryCodes);
+      toast({
+        title: "New recovery codes generated",
+        description: "Your old recovery codes no longer work.",
+      });
+    } else {
+      const result = await disableTwoFactor(actionCode);
+      setLoading(false);
+
+      if (!result.success) {
+        showError(result.error || "Failed to disable two-factor authentication");
+        return;
+      }
+      setRecoveryCodes(null);
+      toast({
+        title: "Two-factor authentication disabled",
+        description: "Signing in now only needs your password.",
+      });
+    }
+
+    setCodeAction(null);
+    setActionCode("");
+    router.refresh();
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast({
+      title: "Copied",
+      description: "Recovery codes copied to the clipboard.",
+    });
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            Two-Factor Authentication
+            {status.enabled ? (
+              <Badge variant="default">Enabled</Badge>
+            ) : (
+              <Badge variant={status.required ? "destructive" : "secondary"}>
+                {status.required ? "Required" : "Off"}
+              </Badge>
+            )}
+          </CardTitle>
+          <CardDescription>
+            Sign in with a code from an authenticator app such as Google Authenticator, Authy or 1Password in
+            addition to your password.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!status.enabled && status.required && (
+            <Alert variant="destructive">
+              <ShieldAlert className="h-4 w-4" />
+              <AlertTitle>Set up two-factor authentication to continue</AlertTitle>
+              <AlertDescription>
+                Your role requires two-factor authentication. The rest of the dashboard is unavailable until it is set up.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {recoveryCodes && (
+            <div className="space-y-3 rounded-md border p-4">
+              <div>
+                <p className="font-medium">Recovery codes</p>
+                <p className="text-sm text-muted-foreground">
+                  Save these somewhere safe. Each one signs you in once if you lose your authenticator app. They
+                  won&apos;t be shown again.
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                {recoveryCodes.map((recoveryCode) => (
+                  <span key={recoveryCode}>{recoveryCode}</span>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={handleCopyCodes}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  Copy codes
+                </Button>
+                {status.enabled && (
+                  <Button variant="ghost" size="sm" onClick={() => setRecoveryCodes(null)}>
+                    I&apos;ve saved them
+                  </Button>
+                )}
+                {status.enabled && status.required && (
+                  <Button size="sm" asChild>
+                    <Link href="/dashboard">Continue to dashboard</Link>
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {status.enabled ? (
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <ShieldCheck className="h-5 w-5 text-green-600" />
+                <div>
+                  <p className="font-medium">Authenticator app</p>
+                  <p className="text-sm text-muted-foreground">
+                    {status.enabledAt ? `Enabled ${formatDate(status.enabledAt)} · ` : ""}
+                    {status.recoveryCodesRemaining} recovery code(s) left
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setCodeAction("regenerate")} disabled={loading}>
+                  New recovery codes
+                </Button>
+                {!status.required && (
+                  <Button variant="destructive" onClick={() => setCodeAction("disable")} disabled={loading}>
+                    Turn off
+                  </Button>
+                )}
+              </div>
+            </div>
+          ) : enrollment ? (
+            <form onSubmit={handleConfirm} className="space-y-4">
+              <div className="flex flex-col gap-4 sm:flex-row sm:items-start">
+                <svg
+                  viewBox={`0 0 ${enrollment.qrSize} ${enrollment.qrSize}`}
+                  className="h-48 w-48 shrink-0 rounded-md border bg-white"
+                  shapeRendering="crispEdges"
+                  role="img"
+                  aria-label="QR code for your authenticator app"
+                >
+                  <path d={enrollment.qrPath} fill="#000" />
+                </svg>
+                <div className="space-y-3 text-sm">
+                  <p>1. Scan the QR code with your authenticator app.</p>
+                  <p>
+                    Can&apos;t scan it? Enter this setup key instead:
+                    <span className="mt-1 block break-all font-mono">{enrollment.secret}</span>
+                  </p>
+                  <p>2. Enter the 6-digit code the app shows.</p>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-code">Verification code</Label>
+                <Input
+                  id="two-factor-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  maxLength={6}
+                  className="max-w-[10rem]"
+                  disabled={loading}
+                  required
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" disabled={loading || code.length < 6}>
+                  {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Verify and enable
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setEnrollment(null)} disabled={loading}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <Button onClick={handleStart} disabled={loading}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Set up two-factor authentication
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={codeAction !== null} onOpenChange={(open) => !open && setCodeAction(null)}>
+        <DialogContent>
+          <form onSubmit={handleCodeAction} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>
+                {codeAction === "disable" ? "Turn Off Two-Factor Authentication" : "Generate New Recovery Codes"}
+              </DialogTitle>
+              <DialogDescription>
+                Enter a code from your authenticator app, or one of your recovery codes, to confirm.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-action-code">Code</Label>
+              <Input
+                id="two-factor-action-code"
+                value={actionCode}
+                onChange={(e) => setActionCode(e.target.value)}
+                autoComplete="one-time-code"
+                disabled={loading}
+                required
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setCodeAction(null)} disabled={loading}>
+                Cancel
+              </Button>
+              <Button type="submit" variant={codeAction === "disable" ? "destructive" : "default"} disabled={loading}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {codeAction === "disable" ? "Turn off" : "Generate"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
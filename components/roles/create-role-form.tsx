@@ -27,6 +27,7 @@ const createRoleSchema = z.object({
   permissionIds: z.array(z.string()).optional(),
   menuIds: z.array(z.string()).optional(),
   isActive: z.boolean().default(true),
+  requireTwoFactor: z.boolean().default(false),
 });
 
 type CreateRoleFormData = z.infer<typeof createRoleSchema>;
@@ -61,6 +62,7 @@ export function CreateRoleForm({ permissions, menus }: CreateRoleFormProps) {
     resolver: zodResolver(createRoleSchema),
     defaultValues: {
       isActive: true,
+      requireTwoFactor: false,
       permissionIds: [],
       menuIds: [],
     },
@@ -243,6 +245,23 @@ export function CreateRoleForm({ permissions, menus }: CreateRoleFormProps) {
             </Label>
           </div>
 
+          <div className="flex items-start space-x-2">
+            <Checkbox
+              id="requireTwoFactor"
+              checked={watch("requireTwoFactor")}
+              onCheckedChange={(checked) => setValue("requireTwoFactor", checked as boolean)}
+              disabled={loading}
+            />
+            <div className="space-y-1">
+              <Label htmlFor="requireTwoFactor" className="text-sm font-normal cursor-pointer">
+                Require two-factor authentication
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Members must set up an authenticator app before they can use the dashboard
+              </p>
+            </div>
+          </div>
+
           <div className="flex gap-4">
             <Button type="submit" disabled={loading}>
               {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
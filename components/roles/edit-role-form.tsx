@@ -24,6 +24,7 @@ const updateRoleSchema = z.object({
   permissionIds: z.array(z.string()).optional(),
   menuIds: z.array(z.string()).optional(),
   isActive: z.boolean().optional(),
+  requireTwoFactor: z.boolean().optional(),
 });
 
 type UpdateRoleFormData = z.infer<typeof updateRoleSchema>;
@@ -35,6 +36,8 @@ interface EditRoleFormProps {
     slug: string;
     description: string | null;
     isActive: boolean;
+    requireTwoFactor: boolean;
+    twoFactorLocked: boolean; // Administrator roles can't turn the requirement off
     permissionIds: string[];
     menuIds: string[];
   };
@@ -71,6 +74,7 @@ export function EditRoleForm({ role, permissions, menus }: EditRoleFormProps) {
       slug: role.slug,
       description: role.description || "",
       isActive: role.isActive,
+      requireTwoFactor: role.requireTwoFactor,
       permissionIds: role.permissionIds,
       menuIds: role.menuIds,
     },
@@ -240,6 +244,23 @@ export function EditRoleForm({ role, permissions, menus }: EditRoleFormProps) {
             </Label>
           </div>
 
+          <div className="flex items-start space-x-2">
+            <Checkbox
+              id="requireTwoFactor"
+              checked={watch("requireTwoFactor")}
+              onCheckedChange={(checked) => setValue("requireTwoFactor", checked as boolean)}
+              disabled={loading || role.twoFactorLocked}
+            />
+            <div className="space-y-1">
+              <Label htmlFor="requireTwoFactor" className="text-sm font-normal cursor-pointer">
+                Require two-factor authentication
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Members must set up an authenticator app before they can use the dashboard
+              </p>
+            </div>
+          </div>
+
           <div className="flex gap-4">
             <Button type="submit" disabled={loading}>
               {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { createSeries, updateSeries } from "@/lib/actions/series";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { MediaPicker } from "@/components/media/media-picker";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+
+/**
+ * Series Form Component
+ * Creates a series or edits its details (posts are curated separately)
+ */
+const seriesFormSchema = z.object({
+  title: z.string().min(1, "Title is required").max(200),
+  slug: z.string().optional(),
+  description: z.string().optional(),
+  coverImage: z.string().optional(),
+  isActive: z.boolean(),
+});
+
+type SeriesFormData = z.infer<typeof seriesFormSchema>;
+
+interface SeriesFormProps {
+  series?: {
+    id: string;
+    title: string;
+    slug: string;
+    description: string | null;
+    coverImage: string | null;
+    isActive: boolean;
+  };
+}
+
+export function SeriesForm({ series }: SeriesFormProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<SeriesFormData>({
+    resolver: zodResolver(seriesFormSchema),
+    defaultValues: {
+      title: series?.title || "",
+      slug: series?.slug || "",
+      description: series?.description || "",
+      coverImage: series?.coverImage || "",
+      isActive: series?.isActive ?? true,
+    },
+  });
+
+  const coverImage = watch("coverImage");
+  const isActive = watch("isActive");
+
+  const onSubmit = async (data: SeriesFormData) => {
+    setLoading(true);
+    try {
+      const result = series
+        ? await updateSeries({ id: series.id, ...data })
+        : await createSeries(data);
+
+      if (result.success && result.series) {
+        toast({
+          title: series ? "Series updated" : "Series created",
+          description: series
+            ? "The series details have been saved."
+            : "Now add the posts that belong to this series.",
+        });
+        if (series) {
+          router.refresh();
+        } else {
+          router.push(`/dashboard/series/${result.series.id}`);
+        }
+      } else {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to save series",
+          variant: "destructive",
+        });
+      }
+    } catch {
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Series Details</CardTitle>
+        <CardDescription>Shown at the top of the public series timeline</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="title">Title *</Label>
+            <Input
+              id="title"
+              placeholder="Lok Sabha Elections 2029"
+              {...register("title")}
+              disabled={loading}
+            />
+            {errors.title && <p className="text-sm text-destructive">{errors.title.message}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="slug">Slug</Label>
+            <Input
+              id="slug"
+              placeholder="Generated from the title if left empty"
+              {...register("slug")}
+              disabled={loading}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="description">Description</Label>
+            <Textarea id="description" rows={3} {...register("description")} disabled={loading} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Cover Image</Label>
+            <MediaPicker
+              value={coverImage || ""}
+              onSelect={(url) => setValue("coverImage", url, { shouldDirty: true })}
+              type="image"
+              label="Select Cover Image"
+            />
+            {coverImage && (
+              <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                <span className="truncate">{coverImage}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setValue("coverImage", "", { shouldDirty: true })}
+                >
+                  Remove
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div>
+              <Label htmlFor="isActive">Active</Label>
+              <p className="text-sm text-muted-foreground">
+                Inactive series are hidden from readers
+              </p>
+            </div>
+            <Switch
+              id="isActive"
+              checked={isActive}
+              onCheckedChange={(checked) => setValue("isActive", checked, { shouldDirty: true })}
+              disabled={loading}
+            />
+          </div>
+
+          <Button type="submit" disabled={loading}>
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {series ? "Save Details" : "Create Series"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,235 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { searchNewsForSeries, setSeriesItems } from "@/lib/actions/series";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowDown, ArrowUp, Eye, Loader2, Plus, Search, Trash2 } from "lucide-react";
+import { formatDate } from "@/lib/utils";
+
+/**
+ * Series Items Editor Component
+ * Curate which posts belong to a series and in what order
+ */
+interface SeriesNews {
+  id: string;
+  title: string;
+  slug: string;
+  isPublished: boolean;
+  isActive: boolean;
+  publishedAt: Date | null;
+  createdAt: Date;
+}
+
+interface SeriesItemsEditorProps {
+  seriesId: string;
+  items: SeriesNews[];
+}
+
+export function SeriesItemsEditor({ seriesId, items: initialItems }: SeriesItemsEditorProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [items, setItems] = useState<SeriesNews[]>(initialItems);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SeriesNews[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+
+  // Debounced news lookup
+  useEffect(() => {
+    const search = query.trim();
+    if (!search) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      const result = await searchNewsForSeries(search, 10);
+      if (!cancelled) {
+        setResults(result.success ? result.news : []);
+        setSearching(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const update = (next: SeriesNews[]) => {
+    setItems(next);
+    setDirty(true);
+  };
+
+  const addItem = (news: SeriesNews) => {
+    if (items.some((item) => item.id === news.id)) return;
+    update([...items, news]);
+  };
+
+  const removeItem = (newsId: string) => {
+    update(items.filter((item) => item.id !== newsId));
+  };
+
+  const moveItem = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= items.length) return;
+    const next = [...items];
+    [next[index], next[target]] = [next[target], next[index]];
+    update(next);
+  };
+
+  const sortByDate = () => {
+    update(
+      [...items].sort(
+        (a, b) =>
+          new Date(a.publishedAt || a.createdAt).getTime() -
+          new Date(b.publishedAt || b.createdAt).getTime()
+      )
+    );
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const result = await setSeriesItems({ seriesId, newsIds: items.map((item) => item.id) });
+    setSaving(false);
+
+    if (result.success) {
+      toast({
+        title: "Series posts saved",
+        description: `${items.length} post(s) in this series.`,
+      });
+      setDirty(false);
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to save series posts",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const visibleResults = query.trim()
+    ? results.filter((news) => !items.some((item) => item.id === news.id))
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Posts</CardTitle>
+            <CardDescription>
+              Readers see the parts in this order. Drafts stay hidden until published.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={sortByDate} disabled={items.length < 2}>
+              Sort by date
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={saving || !dirty}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Order
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search news posts to add..."
+            className="pl-9"
+          />
+          {searching && (
+            <Loader2 className="absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-muted-foreground" />
+          )}
+        </div>
+
+        {visibleResults.length > 0 && (
+          <div className="rounded-md border divide-y">
+            {visibleResults.map((news) => (
+              <div key={news.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{news.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatDate(news.publishedAt || news.createdAt)}
+                    {!news.isPublished && " · Draft"}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => addItem(news)}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {items.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No posts in this series yet. Search above to add the first part.
+          </p>
+        ) : (
+          <ol className="space-y-2">
+            {items.map((item, index) => (
+              <li
+                key={item.id}
+                className="flex items-center gap-3 rounded-lg border px-3 py-2"
+              >
+                <span className="w-6 text-center text-sm font-bold text-muted-foreground">
+                  {index + 1}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{item.title}</p>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span>{formatDate(item.publishedAt || item.createdAt)}</span>
+                    {(!item.isPublished || !item.isActive) && (
+                      <Badge variant="secondary" className="text-[10px]">
+                        {item.isPublished ? "Inactive" : "Draft"}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Link href={`/news/${item.slug}`} target="_blank">
+                    <Button variant="ghost" size="icon">
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  </Link>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === 0}
+                    onClick={() => moveItem(index, -1)}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === items.length - 1}
+                    onClick={() => moveItem(index, 1)}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => removeItem(item.id)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Edit, Eye, Search, Trash2 } from "lucide-react";
+import { deleteSeries } from "@/lib/actions/series";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/lib/utils";
+
+/**
+ * Series Table Component
+ */
+interface Series {
+  id: string;
+  title: string;
+  slug: string;
+  description: string | null;
+  isActive: boolean;
+  itemCount: number;
+  updatedAt: Date;
+}
+
+interface SeriesTableProps {
+  series: Series[];
+  total: number;
+  page: number;
+  totalPages: number;
+  search?: string;
+  permissions: string[];
+}
+
+export function SeriesTable({
+  series,
+  total,
+  page,
+  totalPages,
+  search: initialSearch,
+  permissions,
+}: SeriesTableProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [search, setSearch] = useState(initialSearch || "");
+  const [seriesToDelete, setSeriesToDelete] = useState<Series | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const canUpdate = permissions.includes("series.update");
+  const canDelete = permissions.includes("series.delete");
+
+  const navigate = (nextPage: number) => {
+    const params = new URLSearchParams();
+    if (search) params.set("search", search);
+    params.set("page", String(nextPage));
+    router.push(`/dashboard/series?${params.toString()}`);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    navigate(1);
+  };
+
+  const handleDelete = async () => {
+    if (!seriesToDelete) return;
+
+    setDeleting(true);
+    const result = await deleteSeries(seriesToDelete.id);
+    setDeleting(false);
+    setSeriesToDelete(null);
+
+    if (result.success) {
+      toast({
+        title: "Series deleted",
+        description: "The series has been deleted. Its posts were kept.",
+      });
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to delete series",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-4">
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <Input
+            placeholder="Search series..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="max-w-sm"
+          />
+          <Button type="submit" variant="outline">
+            <Search className="h-4 w-4 mr-2" />
+            Search
+          </Button>
+        </form>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Title</TableHead>
+                <TableHead>Posts</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Updated</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {series.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No series found. Create one to group the posts of an ongoing story.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                series.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <p className="font-medium">{item.title}</p>
+                      {item.description && (
+                        <p className="text-sm text-muted-foreground line-clamp-1 mt-1">
+                          {item.description}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>{item.itemCount}</TableCell>
+                    <TableCell>
+                      <Badge variant={item.isActive ? "default" : "secondary"}>
+                        {item.isActive ? "Active" : "Inactive"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{formatDate(item.updatedAt)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Link href={`/series/${item.slug}`} target="_blank">
+                          <Button variant="ghost" size="icon">
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                        </Link>
+                        {canUpdate && (
+                          <Link href={`/dashboard/series/${item.id}`}>
+                            <Button variant="ghost" size="icon">
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          </Link>
+                        )}
+                        {canDelete && (
+                          <Button variant="ghost" size="icon" onClick={() => setSeriesToDelete(item)}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              Showing {(page - 1) * 20 + 1} to {Math.min(page * 20, total)} of {total} series
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" disabled={page === 1} onClick={() => navigate(page - 1)}>
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                disabled={page >= totalPages}
+                onClick={() => navigate(page + 1)}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!seriesToDelete} onOpenChange={(open) => !open && setSeriesToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Series</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete &quot;{seriesToDelete?.title}&quot;? The news posts in
+              it are not deleted. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSeriesToDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={deleting}>
+              {deleting ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
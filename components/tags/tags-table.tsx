@@ -0,0 +1,386 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Edit, Eye, GitMerge, Search, Trash2 } from "lucide-react";
+import { deleteTag, mergeTags, updateTag } from "@/lib/actions/tags";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/lib/utils";
+
+/**
+ * Tags Table Component
+ */
+interface Tag {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  newsCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface TagsTableProps {
+  tags: Tag[];
+  total: number;
+  page: number;
+  totalPages: number;
+  search?: string;
+  permissions: string[];
+}
+
+export function TagsTable({
+  tags,
+  total,
+  page,
+  totalPages,
+  search: initialSearch,
+  permissions,
+}: TagsTableProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [search, setSearch] = useState(initialSearch || "");
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const [tagToRename, setTagToRename] = useState<Tag | null>(null);
+  const [newName, setNewName] = useState("");
+  const [renaming, setRenaming] = useState(false);
+
+  const [tagToDelete, setTagToDelete] = useState<Tag | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const [mergeDialogOpen, setMergeDialogOpen] = useState(false);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const [merging, setMerging] = useState(false);
+
+  const canUpdate = permissions.includes("tag.update");
+  const canDelete = permissions.includes("tag.delete");
+  const canMerge = canUpdate && canDelete;
+
+  const selectedTags = tags.filter((tag) => selected.includes(tag.id));
+
+  const navigate = (nextPage: number) => {
+    const params = new URLSearchParams();
+    if (search) params.set("search", search);
+    params.set("page", String(nextPage));
+    router.push(`/dashboard/tags?${params.toString()}`);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSelected([]);
+    navigate(1);
+  };
+
+  const toggleSelected = (tagId: string, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, tagId] : prev.filter((id) => id !== tagId)));
+  };
+
+  const handleRename = async () => {
+    if (!tagToRename) return;
+
+    setRenaming(true);
+    const result = await updateTag({ id: tagToRename.id, name: newName });
+    setRenaming(false);
+
+    if (result.success) {
+      toast({
+        title: "Tag renamed",
+        description: `"${tagToRename.name}" is now "${result.tag?.name}".`,
+      });
+      setTagToRename(null);
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to rename tag",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!tagToDelete) return;
+
+    setDeleting(true);
+    const result = await deleteTag(tagToDelete.id);
+    setDeleting(false);
+    setTagToDelete(null);
+
+    if (result.success) {
+      toast({
+        title: "Tag deleted",
+        description: "The tag has been removed from all news posts.",
+      });
+      setSelected((prev) => prev.filter((id) => id !== tagToDelete.id));
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to delete tag",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!mergeTargetId) return;
+
+    setMerging(true);
+    const result = await mergeTags({ sourceIds: selected, targetId: mergeTargetId });
+    setMerging(false);
+
+    if (result.success) {
+      toast({
+        title: "Tags merged",
+        description: `${result.newsCount} news post(s) are now tagged "${result.tag?.name}".`,
+      });
+      setMergeDialogOpen(false);
+      setMergeTargetId("");
+      setSelected([]);
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to merge tags",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <Input
+              placeholder="Search tags..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="max-w-sm"
+            />
+            <Button type="submit" variant="outline">
+              <Search className="h-4 w-4 mr-2" />
+              Search
+            </Button>
+          </form>
+          {canMerge && (
+            <Button
+              variant="outline"
+              disabled={selected.length < 2}
+              onClick={() => {
+                setMergeTargetId(selected[0]);
+                setMergeDialogOpen(true);
+              }}
+            >
+              <GitMerge className="h-4 w-4 mr-2" />
+              Merge Selected ({selected.length})
+            </Button>
+          )}
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {canMerge && <TableHead className="w-10" />}
+                <TableHead>Name</TableHead>
+                <TableHead>Slug</TableHead>
+                <TableHead>News Posts</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tags.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={canMerge ? 6 : 5} className="text-center text-muted-foreground">
+                    No tags found. Tags are created when you add them to a news post.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                tags.map((tag) => (
+                  <TableRow key={tag.id}>
+                    {canMerge && (
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.includes(tag.id)}
+                          onCheckedChange={(checked) => toggleSelected(tag.id, checked === true)}
+                          aria-label={`Select ${tag.name}`}
+                        />
+                      </TableCell>
+                    )}
+                    <TableCell className="font-medium">{tag.name}</TableCell>
+                    <TableCell className="text-muted-foreground">{tag.slug}</TableCell>
+                    <TableCell>
+                      <Badge variant={tag.newsCount > 0 ? "secondary" : "outline"}>
+                        {tag.newsCount}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{formatDate(tag.createdAt)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Link href={`/tag/${tag.slug}`} target="_blank">
+                          <Button variant="ghost" size="icon">
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                        </Link>
+                        {canUpdate && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => {
+                              setTagToRename(tag);
+                              setNewName(tag.name);
+                            }}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canDelete && (
+                          <Button variant="ghost" size="icon" onClick={() => setTagToDelete(tag)}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              Showing {(page - 1) * 25 + 1} to {Math.min(page * 25, total)} of {total} tags
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" disabled={page === 1} onClick={() => navigate(page - 1)}>
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                disabled={page >= totalPages}
+                onClick={() => navigate(page + 1)}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!tagToRename} onOpenChange={(open) => !open && setTagToRename(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename Tag</DialogTitle>
+            <DialogDescription>
+              The tag URL changes with the name. To combine it with an existing tag, use merge instead.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="tag-name">Name</Label>
+            <Input
+              id="tag-name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleRename();
+                }
+              }}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTagToRename(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRename} disabled={renaming || !newName.trim()}>
+              {renaming ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!tagToDelete} onOpenChange={(open) => !open && setTagToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Tag</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete &quot;{tagToDelete?.name}&quot;? It will be removed from{" "}
+              {tagToDelete?.newsCount ?? 0} news post(s). This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTagToDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={deleting}>
+              {deleting ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={mergeDialogOpen} onOpenChange={setMergeDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge Tags</DialogTitle>
+            <DialogDescription>
+              News posts tagged with any of the selected tags will get the tag you keep. The other
+              tags are deleted.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Keep tag</Label>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select tag to keep" />
+              </SelectTrigger>
+              <SelectContent>
+                {selectedTags.map((tag) => (
+                  <SelectItem key={tag.id} value={tag.id}>
+                    {tag.name} ({tag.newsCount})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMergeDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={merging || !mergeTargetId}>
+              {merging ? "Merging..." : "Merge"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
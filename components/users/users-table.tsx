@@ -6,9 +6,10 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Edit, Trash2, Search } from "lucide-react";
+import { Edit, Trash2, Search, LockOpen } from "lucide-react";
 import { useRouter } from "next/navigation";
-import { deleteUser } from "@/lib/actions/users";
+import { deleteUser, unlockUser } from "@/lib/actions/users";
+import { formatLockoutRemaining, isLocked } from "@/lib/security/account-lockout";
 import { useToast } from "@/hooks/use-toast";
 import {
   Dialog,
@@ -33,6 +34,8 @@ interface User {
   roles: Array<{ id: string; name: string; slug: string }>;
   createdAt: Date;
   lastLogin: Date | null;
+  failedLoginAttempts: number;
+  lockedUntil: Date | null; // Sign-in lockout after repeated failed attempts
 }
 
 interface UsersTableProps {
@@ -50,6 +53,7 @@ export function UsersTable({ users, total, page, totalPages, search: initialSear
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [userToDelete, setUserToDelete] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [unlocking, setUnlocking] = useState<string | null>(null);
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
@@ -83,6 +87,26 @@ export function UsersTable({ users, total, page, totalPages, search: initialSear
     }
   };
 
+  const handleUnlock = async (userId: string) => {
+    setUnlocking(userId);
+    const result = await unlockUser(userId);
+    setUnlocking(null);
+
+    if (result.success) {
+      toast({
+        title: "Account unlocked",
+        description: "The user can sign in again.",
+      });
+      router.refresh();
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to unlock user",
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <>
       <div className="space-y-4">
@@ -137,9 +161,19 @@ export function UsersTable({ users, total, page, totalPages, search: initialSear
                       </div>
                     </TableCell>
                     <TableCell>
-                      <Badge variant={user.isActive ? "default" : "destructive"}>
-                        {user.isActive ? "Active" : "Inactive"}
-                      </Badge>
+                      <div className="flex gap-1 flex-wrap">
+                        <Badge variant={user.isActive ? "default" : "destructive"}>
+                          {user.isActive ? "Active" : "Inactive"}
+                        </Badge>
+                        {user.lockedUntil && isLocked(new Date(user.lockedUntil)) && (
+                          <Badge
+                            variant="destructive"
+                            title={`${user.failedLoginAttempts} failed sign-in attempts; unlocks in ${formatLockoutRemaining(new Date(user.lockedUntil))}`}
+                          >
+                            Locked
+                          </Badge>
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell>
                       {user.lastLogin
@@ -148,6 +182,17 @@ export function UsersTable({ users, total, page, totalPages, search: initialSear
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
+                        {user.lockedUntil && isLocked(new Date(user.lockedUntil)) && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Unlock account"
+                            disabled={unlocking === user.id}
+                            onClick={() => handleUnlock(user.id)}
+                          >
+                            <LockOpen className="h-4 w-4" />
+                          </Button>
+                        )}
                         <Link href={`/dashboard/users/${user.id}/edit`}>
                           <Button variant="ghost" size="icon">
                             <Edit className="h-4 w-4" />
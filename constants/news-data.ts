@@ -7,6 +7,7 @@ export interface Article {
   content: string
   image: string
   author: string
+  authorUrl?: string
   source: string
   date: string
   slug: string
@@ -0,0 +1,47 @@
+import type React from "react";
+import { ChevronLeftIcon } from "lucide-react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { FloatingPaths } from "./floating-paths";
+
+interface AuthShellProps {
+  title: string;
+  description?: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Two-column layout of the sign-in page, for the other account pages
+ * (forgot password, reset password, email verification)
+ */
+export function AuthShell({ title, description, children }: AuthShellProps) {
+  return (
+    <main className="relative md:h-screen md:overflow-hidden lg:grid lg:grid-cols-2">
+      <div className="relative hidden h-full flex-col border-r bg-secondary p-10 lg:flex dark:bg-secondary/20">
+        <div className="absolute inset-0 bg-gradient-to-b from-transparent via-transparent to-background" />
+        <div className="absolute inset-0">
+          <FloatingPaths position={1} />
+          <FloatingPaths position={-1} />
+        </div>
+      </div>
+
+      <div className="relative flex min-h-screen flex-col justify-center p-4">
+        <Button asChild className="absolute top-7 left-5" variant="ghost">
+          <Link href="/">
+            <ChevronLeftIcon className="h-4 w-4 mr-2" />
+            Home
+          </Link>
+        </Button>
+
+        <div className="mx-auto space-y-4 sm:w-sm">
+          <div className="flex flex-col space-y-1">
+            <h1 className="font-bold text-2xl tracking-wide">{title}</h1>
+            {description && <p className="text-muted-foreground text-sm">{description}</p>}
+          </div>
+
+          {children}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { AtSignIcon, Loader2, MailCheckIcon } from "lucide-react";
+import type React from "react";
+import { requestPasswordReset } from "@/lib/actions/password-reset";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { InputGroup, InputGroupAddon, InputGroupInput } from "@/components/ui/input-group";
+import { Label } from "@/components/ui/label";
+import { AuthShell } from "./auth-shell";
+
+export function ForgotPasswordView() {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    const result = await requestPasswordReset({ email: email.trim() });
+    setLoading(false);
+
+    if (result.success) {
+      setSentTo(email.trim());
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to send the reset link",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (sentTo) {
+    return (
+      <AuthShell title="Check Your Email">
+        <div className="flex items-start gap-3 rounded-md border p-4">
+          <MailCheckIcon className="h-5 w-5 shrink-0 text-primary" />
+          <p className="text-sm">
+            If an account exists for <span className="font-medium">{sentTo}</span>, we&apos;ve sent a link to reset
+            its password. The link expires in an hour.
+          </p>
+        </div>
+        <Button asChild variant="outline" className="w-full">
+          <Link href="/auth/sign-in">Back to sign in</Link>
+        </Button>
+      </AuthShell>
+    );
+  }
+
+  return (
+    <AuthShell
+      title="Forgot Your Password?"
+      description="Enter your account's email address and we'll send you a link to choose a new password."
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="forgot-email" className="text-start text-muted-foreground text-xs cursor-pointer">
+            Email
+          </Label>
+          <InputGroup>
+            <InputGroupInput
+              id="forgot-email"
+              type="email"
+              placeholder="Enter your email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              disabled={loading}
+              autoComplete="email"
+            />
+            <InputGroupAddon>
+              <AtSignIcon className="h-4 w-4" />
+            </InputGroupAddon>
+          </InputGroup>
+        </div>
+
+        <Button type="submit" className="w-full" disabled={loading} size="lg">
+          {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Send reset link
+        </Button>
+      </form>
+
+      <p className="text-muted-foreground text-sm text-center">
+        Remembered it?{" "}
+        <Link href="/auth/sign-in" className="underline underline-offset-4 hover:text-primary font-medium">
+          Sign in
+        </Link>
+      </p>
+    </AuthShell>
+  );
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AuthShell } from "./auth-shell";
+
+interface MockOAuthViewProps {
+  redirectUri: string;
+  state: string;
+  codeChallenge: string;
+  nonce: string;
+}
+
+/**
+ * Authorization page of the mock sign-in provider: pick the identity the
+ * provider reports back
+ */
+export function MockOAuthView({ redirectUri, state, codeChallenge, nonce }: MockOAuthViewProps) {
+  return (
+    <AuthShell
+      title="Mock Provider"
+      description="Development sign-in. Enter any identity; the app receives it as if a real provider had confirmed it."
+    >
+      <form action="/api/auth/mock-oauth/authorize" method="get" className="space-y-4">
+        <input type="hidden" name="redirect_uri" value={redirectUri} />
+        <input type="hidden" name="state" value={state} />
+        <input type="hidden" name="code_challenge" value={codeChallenge} />
+        <input type="hidden" name="nonce" value={nonce} />
+
+        <div className="space-y-2">
+          <Label htmlFor="mock-email" className="text-start text-muted-foreground text-xs cursor-pointer">
+            Email
+          </Label>
+          <Input id="mock-email" name="email" type="email" placeholder="someone@example.com" required autoFocus />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="mock-first-name" className="text-start text-muted-foreground text-xs cursor-pointer">
+              First name
+            </Label>
+            <Input id="mock-first-name" name="first_name" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mock-last-name" className="text-start text-muted-foreground text-xs cursor-pointer">
+              Last name
+            </Label>
+            <Input id="mock-last-name" name="last_name" />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="mock-email-verified" className="text-start text-muted-foreground text-xs cursor-pointer">
+            Email verified by the provider
+          </Label>
+          <select
+            id="mock-email-verified"
+            name="email_verified"
+            defaultValue="true"
+            className="h-9 w-full rounded-md border bg-transparent px-3 text-sm"
+          >
+            <option value="true">Yes</option>
+            <option value="false">No</option>
+          </select>
+        </div>
+
+        <Button type="submit" className="w-full" size="lg">
+          Continue
+        </Button>
+        <Button type="submit" name="deny" value="1" variant="ghost" className="w-full" formNoValidate>
+          Cancel
+        </Button>
+      </form>
+    </AuthShell>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { EyeIcon, EyeOffIcon, Loader2, LockIcon } from "lucide-react";
+import type React from "react";
+import { resetPassword } from "@/lib/actions/password-reset";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { InputGroup, InputGroupAddon, InputGroupInput } from "@/components/ui/input-group";
+import { Label } from "@/components/ui/label";
+import { AuthShell } from "./auth-shell";
+
+interface ResetPasswordViewProps {
+  token: string | null; // Null when the link is missing, invalid or expired
+}
+
+export function ResetPasswordView({ token }: ResetPasswordViewProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  if (!token) {
+    return (
+      <AuthShell
+        title="Link Expired"
+        description="This password reset link is invalid, has expired or has already been used."
+      >
+        <Button asChild className="w-full">
+          <Link href="/auth/forgot-password">Request a new link</Link>
+        </Button>
+      </AuthShell>
+    );
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    const result = await resetPassword({ token, password, confirmPassword });
+    setLoading(false);
+
+    if (result.success) {
+      toast({
+        title: "Password changed",
+        description: "Sign in with your new password. Any other devices have been signed out.",
+      });
+      router.push("/auth/sign-in");
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to reset password",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <AuthShell
+      title="Choose a New Password"
+      description="At least 8 characters, with upper and lower case letters and a number."
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="reset-password" className="text-start text-muted-foreground text-xs cursor-pointer">
+            New password
+          </Label>
+          <InputGroup>
+            <InputGroupInput
+              id="reset-password"
+              type={showPassword ? "text" : "password"}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              disabled={loading}
+              autoComplete="new-password"
+            />
+            <InputGroupAddon>
+              <LockIcon className="h-4 w-4" />
+            </InputGroupAddon>
+            <InputGroupAddon
+              align="inline-end"
+              className="cursor-pointer"
+              onClick={() => setShowPassword((prev) => !prev)}
+            >
+              {showPassword ? <EyeOffIcon className="h-4 w-4" /> : <EyeIcon className="h-4 w-4" />}
+            </InputGroupAddon>
+          </InputGroup>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="reset-confirm-password" className="text-start text-muted-foreground text-xs cursor-pointer">
+            Confirm new password
+          </Label>
+          <InputGroup>
+            <InputGroupInput
+              id="reset-confirm-password"
+              type={showPassword ? "text" : "password"}
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              required
+              disabled={loading}
+              autoComplete="new-password"
+            />
+            <InputGroupAddon>
+              <LockIcon className="h-4 w-4" />
+            </InputGroupAddon>
+          </InputGroup>
+        </div>
+
+        <Button type="submit" className="w-full" disabled={loading} size="lg">
+          {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Change password
+        </Button>
+      </form>
+    </AuthShell>
+  );
+}
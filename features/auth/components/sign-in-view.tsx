@@ -2,9 +2,10 @@
 
 import { useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
-import { login } from "@/lib/actions/auth";
+import Link from "next/link";
+import { login, verifyTwoFactorLogin } from "@/lib/actions/auth";
 import { useToast } from "@/hooks/use-toast";
-import { AtSignIcon, ChevronLeftIcon, EyeIcon, EyeOffIcon, Loader2, LockIcon } from "lucide-react";
+import { AtSignIcon, ChevronLeftIcon, EyeIcon, EyeOffIcon, KeyRoundIcon, Loader2, LockIcon } from "lucide-react";
 import type React from "react";
 import { Button } from "@/components/ui/button";
 import {
@@ -16,13 +17,28 @@ import { FloatingPaths } from "./floating-paths";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 
-export function SignInViewPage() {
+interface SignInViewPageProps {
+  redirectTo?: string | null; // Same-site path to return to after signing in
+  error?: string | null; // Why a social sign-in came back here
+  twoFactorPending?: boolean; // A social sign-in is waiting for its second factor
+  oauthProviders?: { id: string; name: string }[]; // Enabled social sign-in providers
+}
+
+export function SignInViewPage({
+  redirectTo,
+  error,
+  twoFactorPending = false,
+  oauthProviders = [],
+}: SignInViewPageProps = {}) {
   const router = useRouter();
   const { toast } = useToast();
   const [loginLoading, setLoginLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [rememberMe, setRememberMe] = useState(false);
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  // Second step for accounts with two-factor authentication
+  const [twoFactorStep, setTwoFactorStep] = useState(twoFactorPending);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
   
   const [loginData, setLoginData] = useState({
     email: "",
@@ -57,6 +73,60 @@ export function SignInViewPage() {
     }
   }, [formErrors]);
 
+  const oauthHref = (providerId: string) =>
+    `/api/auth/oauth/${providerId}${redirectTo ? `?redirect=${encodeURIComponent(redirectTo)}` : ""}`;
+  const googleEnabled = oauthProviders.some((provider) => provider.id === "google");
+
+  const finishSignIn = (user?: { accountType: string; mfaSetupRequired: boolean }) => {
+    toast({
+      title: "Welcome back!",
+      description: "You have been successfully logged in.",
+    });
+    // Reader accounts have no dashboard
+    const isReader = user?.accountType === "reader";
+    const target = redirectTo && !(isReader && redirectTo.startsWith("/dashboard")) ? redirectTo : null;
+    // A role requires two-factor authentication that isn't set up yet
+    if (user?.mfaSetupRequired) {
+      router.push("/dashboard/profile?setup=2fa");
+    } else {
+      router.push(target || (isReader ? "/account" : "/dashboard"));
+    }
+    router.refresh();
+  };
+
+  const handleTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoginLoading(true);
+
+    try {
+      const result = await verifyTwoFactorLogin(twoFactorCode.trim());
+
+      if (result.success) {
+        finishSignIn(result.user);
+      } else {
+        // The password step has to be repeated once the challenge expires
+        if (result.expired) {
+          setTwoFactorStep(false);
+        }
+        toast({
+          title: "Verification failed",
+          description: result.error || "Invalid code",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Two-factor error:", error);
+      toast({
+        title: "Error",
+        description: "An error occurred during verification",
+        variant: "destructive",
+      });
+    } finally {
+      setLoginLoading(false);
+    }
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -78,13 +148,11 @@ export function SignInViewPage() {
         password: loginData.password,
       });
 
-      if (result.success) {
-        toast({
-          title: "Welcome back!",
-          description: "You have been successfully logged in.",
-        });
-        router.push("/dashboard");
-        router.refresh();
+      if (result.success && result.twoFactorRequired) {
+        setTwoFactorCode("");
+        setTwoFactorStep(true);
+      } else if (result.success) {
+        finishSignIn(result.user);
       } else {
         toast({
           title: "Login failed",
@@ -156,13 +224,23 @@ export function SignInViewPage() {
             <h1 className="font-bold text-2xl tracking-wide">
               Sign In to Your Account
             </h1>
+            {error && <p className="text-sm text-destructive">{error}</p>}
           </div>
           
           <div className="grid grid-cols-2 gap-4">
-            <Button className="w-full" size="lg" type="button" variant="outline">
-              <GoogleIcon className="h-4 w-4 mr-2" />
-              Google
-            </Button>
+            {googleEnabled ? (
+              <Button asChild className="w-full" size="lg" variant="outline">
+                <a href={oauthHref("google")}>
+                  <GoogleIcon className="h-4 w-4 mr-2" />
+                  Google
+                </a>
+              </Button>
+            ) : (
+              <Button className="w-full" size="lg" type="button" variant="outline" disabled>
+                <GoogleIcon className="h-4 w-4 mr-2" />
+                Google
+              </Button>
+            )}
             
             <Button className="w-full" size="lg" type="button" variant="outline">
               <GithubIcon className="h-4 w-4 mr-2" />
@@ -170,12 +248,66 @@ export function SignInViewPage() {
             </Button>
           </div>
 
+          {oauthProviders
+            .filter((provider) => provider.id !== "google")
+            .map((provider) => (
+              <Button key={provider.id} asChild className="w-full" size="lg" variant="outline">
+                <a href={oauthHref(provider.id)}>Continue with {provider.name}</a>
+              </Button>
+            ))}
+
           <div className="flex w-full items-center justify-center">
             <div className="h-px w-full bg-border" />
             <span className="px-2 text-muted-foreground text-xs">OR</span>
             <div className="h-px w-full bg-border" />
           </div>
 
+          {twoFactorStep ? (
+          <form onSubmit={handleTwoFactor} className="space-y-4">
+            <p className="text-muted-foreground text-sm">
+              Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="login-two-factor" className="text-start text-muted-foreground text-xs cursor-pointer">
+                Verification code
+              </Label>
+              <InputGroup>
+                <InputGroupInput
+                  id="login-two-factor"
+                  placeholder="123456"
+                  value={twoFactorCode}
+                  onChange={(e) => setTwoFactorCode(e.target.value)}
+                  required
+                  autoFocus
+                  disabled={loginLoading}
+                  autoComplete="one-time-code"
+                />
+                <InputGroupAddon>
+                  <KeyRoundIcon className="h-4 w-4" />
+                </InputGroupAddon>
+              </InputGroup>
+            </div>
+
+            <Button 
+              type="submit" 
+              className="w-full" 
+              disabled={loginLoading || !twoFactorCode.trim()}
+              size="lg"
+            >
+              {loginLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Verify
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full"
+              onClick={() => setTwoFactorStep(false)}
+              disabled={loginLoading}
+            >
+              Back to sign in
+            </Button>
+          </form>
+          ) : (
           <form onSubmit={handleLogin} className="space-y-4">
             <div className="space-y-2">
               <Label htmlFor="login-email" className="text-start text-muted-foreground text-xs cursor-pointer">
@@ -267,6 +399,7 @@ export function SignInViewPage() {
               Sign In
             </Button>
           </form>
+          )}
           
           <p className="mt-2 text-muted-foreground text-sm text-center">
             Don't have an account?{" "}
@@ -274,6 +407,12 @@ export function SignInViewPage() {
               Sign up
             </a>
           </p>
+          <p className="text-muted-foreground text-sm text-center">
+            Just here to read?{" "}
+            <Link href="/account/sign-up" className="underline underline-offset-4 hover:text-primary font-medium">
+              Create a reader account
+            </Link>
+          </p>
         
           <p className="mt-8 text-muted-foreground text-sm text-center">
             By clicking continue, you agree to our{" "}
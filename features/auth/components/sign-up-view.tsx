@@ -16,7 +16,11 @@ import { useRouter } from "next/navigation";
 import { useToast } from "@/hooks/use-toast";
 import { useState, useCallback } from "react";
 
-export function SignUpViewPage() {
+interface SignUpViewPageProps {
+  oauthProviders?: { id: string; name: string }[]; // Enabled social sign-in providers
+}
+
+export function SignUpViewPage({ oauthProviders = [] }: SignUpViewPageProps = {}) {
   const router = useRouter();
   const { toast } = useToast();
   const [registerLoading, setRegisterLoading] = useState(false);
@@ -24,6 +28,7 @@ export function SignUpViewPage() {
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [acceptedTerms, setAcceptedTerms] = useState(false);
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const oauthHref = (providerId: string) => `/api/auth/oauth/${providerId}`;
   
   const [registerData, setRegisterData] = useState({
     email: "",
@@ -209,10 +214,19 @@ export function SignUpViewPage() {
           </div>
           
           <div className="grid grid-cols-2 gap-4">
-            <Button className="w-full" size="lg" type="button" variant="outline">
-              <GoogleIcon className="h-4 w-4 mr-2" />
-              Google
-            </Button>
+            {oauthProviders.some((provider) => provider.id === "google") ? (
+              <Button asChild className="w-full" size="lg" variant="outline">
+                <a href={oauthHref("google")}>
+                  <GoogleIcon className="h-4 w-4 mr-2" />
+                  Google
+                </a>
+              </Button>
+            ) : (
+              <Button className="w-full" size="lg" type="button" variant="outline" disabled>
+                <GoogleIcon className="h-4 w-4 mr-2" />
+                Google
+              </Button>
+            )}
 
             <Button className="w-full" size="lg" type="button" variant="outline">
               <GithubIcon className="h-4 w-4 mr-2" />
@@ -220,6 +234,14 @@ export function SignUpViewPage() {
             </Button>
           </div>
 
+          {oauthProviders
+            .filter((provider) => provider.id !== "google")
+            .map((provider) => (
+              <Button key={provider.id} asChild className="w-full" size="lg" variant="outline">
+                <a href={oauthHref(provider.id)}>Continue with {provider.name}</a>
+              </Button>
+            ))}
+
           <div className="flex w-full items-center justify-center">
             <div className="h-px w-full bg-border" />
             <span className="px-2 text-muted-foreground text-xs">OR</span>
@@ -0,0 +1,85 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Loader2, MailCheckIcon, MailWarningIcon } from "lucide-react";
+import { resendVerificationEmail } from "@/lib/actions/email-verification";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { AuthShell } from "./auth-shell";
+
+interface VerifyEmailViewProps {
+  status: "verified" | "already_verified" | "invalid" | "pending";
+  email?: string | null;
+  signedIn: boolean;
+  continueHref: string; // Where to go once the address is confirmed
+}
+
+export function VerifyEmailView({ status, email, signedIn, continueHref }: VerifyEmailViewProps) {
+  const { toast } = useToast();
+  const [sending, setSending] = useState(false);
+
+  const handleResend = async () => {
+    setSending(true);
+    const result = await resendVerificationEmail();
+    setSending(false);
+
+    if (result.success) {
+      toast({
+        title: "Verification email sent",
+        description: `Check the inbox of ${result.email}.`,
+      });
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to send the verification email",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (status === "verified" || status === "already_verified") {
+    return (
+      <AuthShell title={status === "verified" ? "Email Confirmed" : "Already Confirmed"}>
+        <div className="flex items-start gap-3 rounded-md border p-4">
+          <MailCheckIcon className="h-5 w-5 shrink-0 text-primary" />
+          <p className="text-sm">
+            {email ? <span className="font-medium">{email}</span> : "Your email address"} is confirmed.
+          </p>
+        </div>
+        <Button asChild className="w-full">
+          <Link href={continueHref}>Continue</Link>
+        </Button>
+      </AuthShell>
+    );
+  }
+
+  return (
+    <AuthShell title={status === "invalid" ? "Link Expired" : "Confirm Your Email"}>
+      <div className="flex items-start gap-3 rounded-md border p-4">
+        <MailWarningIcon className="h-5 w-5 shrink-0 text-primary" />
+        <p className="text-sm">
+          {status === "invalid" ? (
+            "This verification link is invalid or has expired."
+          ) : (
+            <>
+              We&apos;ve sent a confirmation link to <span className="font-medium">{email}</span>. Open it to finish
+              setting up your account.
+            </>
+          )}
+        </p>
+      </div>
+
+      {signedIn ? (
+        <Button onClick={handleResend} disabled={sending} className="w-full">
+          {sending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Send a new link
+        </Button>
+      ) : (
+        <Button asChild className="w-full">
+          <Link href="/auth/sign-in?redirect=/auth/verify-email">Sign in to get a new link</Link>
+        </Button>
+      )}
+    </AuthShell>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useCallbackRef } from '@/hooks/use-callback-ref';
+import type { NewsEvent, NewsEventType } from '@/lib/services/news-events.service';
+
+const EVENT_TYPES: NewsEventType[] = ['news.published', 'news.breaking', 'news.unpublished', 'live.entry'];
+
+/**
+ * Subscribe to real-time news events from /api/news/stream
+ * EventSource reconnects on its own after network drops
+ * @param onEvent - Called for every event received
+ * @param options.newsId - Only receive live blog entries of this post
+ * @param options.enabled - Open the connection only while true
+ */
+export function useNewsEvents(
+  onEvent: (event: NewsEvent & { at: string }) => void,
+  options: { newsId?: string; enabled?: boolean } = {}
+) {
+  const { newsId, enabled = true } = options;
+  const handleEvent = useCallbackRef(onEvent);
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === 'undefined') return;
+
+    const params = newsId ? `?newsId=${encodeURIComponent(newsId)}` : '';
+    const source = new EventSource(`/api/news/stream${params}`);
+
+    const listener = (message: MessageEvent<string>) => {
+      try {
+        handleEvent(JSON.parse(message.data));
+      } catch (error) {
+        console.error('News event parse error:', error);
+      }
+    };
+
+    EVENT_TYPES.forEach((type) => source.addEventListener(type, listener));
+
+    return () => {
+      EVENT_TYPES.forEach((type) => source.removeEventListener(type, listener));
+      source.close();
+    };
+  }, [newsId, enabled, handleEvent]);
+}
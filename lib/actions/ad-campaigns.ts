@@ -0,0 +1,466 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import type { Prisma } from "@prisma/client";
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { hasPermission } from "@/lib/auth/permissions";
+import { createAuditLog } from "@/lib/audit-log";
+import { revalidateAdZones } from "@/lib/services/ads.service";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+/**
+ * Ad Campaign Server Actions
+ * A campaign groups advertisements under shared daily and total impression budgets.
+ * Spent budgets pause the campaign's ads automatically (see ads.service).
+ */
+
+const budgetSchema = z
+  .number()
+  .int()
+  .min(1, "Budget must be at least 1 impression")
+  .nullable()
+  .optional();
+
+const createAdCampaignSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(200, "Name must be under 200 characters"),
+    description: z.string().optional(),
+    dailyImpressionBudget: budgetSchema,
+    totalImpressionBudget: budgetSchema,
+    advertiserId: z.string().nullable().optional(),
+  })
+  .refine(
+    (data) =>
+      !data.dailyImpressionBudget ||
+      !data.totalImpressionBudget ||
+      data.dailyImpressionBudget <= data.totalImpressionBudget,
+    {
+      message: "Daily budget cannot exceed the total budget",
+      path: ["dailyImpressionBudget"],
+    }
+  );
+
+const updateAdCampaignSchema = z.object({
+  id: z.string(),
+  name: z.string().trim().min(1, "Name is required").max(200, "Name must be under 200 characters").optional(),
+  description: z.string().optional(),
+  dailyImpressionBudget: budgetSchema,
+  totalImpressionBudget: budgetSchema,
+  advertiserId: z.string().nullable().optional(),
+});
+
+/**
+ * Verify the user a campaign is assigned to has access to the advertiser portal
+ */
+async function checkAdvertiser(advertiserId: string) {
+  const advertiser = await prisma.user.findUnique({
+    where: { id: advertiserId },
+    select: { isActive: true },
+  });
+  if (!advertiser || !advertiser.isActive) {
+    return "Advertiser not found";
+  }
+  if (!(await hasPermission(advertiserId, "advertiser.portal"))) {
+    return "The selected user is not an advertiser";
+  }
+  return null;
+}
+
+/**
+ * Load a campaign the current user may manage
+ * Authors manage their own campaigns; the permission covers everyone else's
+ */
+async function getManageableCampaign(campaignId: string, userId: string, permission: string) {
+  const campaign = await prisma.adCampaign.findUnique({
+    where: { id: campaignId },
+    include: { ads: { select: { zone: true } } },
+  });
+
+  if (!campaign) {
+    return { error: "Campaign not found" } as const;
+  }
+
+  if (campaign.authorId !== userId && !(await hasPermission(userId, permission))) {
+    return { error: "You don't have permission to manage this campaign" } as const;
+  }
+
+  return { campaign } as const;
+}
+
+/**
+ * Get campaigns with budget usage (for dashboard)
+ */
+export async function getAdCampaigns(page: number = 1, limit: number = 10, search?: string) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasReadAllPermission = await hasPermission(currentUser.userId, "advertisement.read.all");
+    const skip = (page - 1) * limit;
+    const where: Prisma.AdCampaignWhereInput = {};
+
+    if (!hasReadAllPermission) {
+      where.authorId = currentUser.userId;
+    }
+
+    if (search) {
+      where.name = { contains: search, mode: "insensitive" };
+    }
+
+    const [campaigns, total] = await Promise.all([
+      prisma.adCampaign.findMany({
+        where,
+        include: {
+          author: {
+            select: {
+              id: true,
+              username: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+          advertiser: {
+            select: {
+              id: true,
+              username: true,
+              email: true,
+            },
+          },
+          _count: {
+            select: { ads: true },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+        skip,
+        take: limit,
+      }),
+      prisma.adCampaign.count({ where }),
+    ]);
+
+    const now = new Date();
+    const today = new Date(now);
+    today.setHours(0, 0, 0, 0);
+
+    return {
+      success: true,
+      campaigns: campaigns.map((campaign) => ({
+        id: campaign.id,
+        name: campaign.name,
+        description: campaign.description,
+        status: campaign.status,
+        dailyImpressionBudget: campaign.dailyImpressionBudget,
+        totalImpressionBudget: campaign.totalImpressionBudget,
+        impressions: campaign.impressions,
+        // The daily counter only resets on the next impression, so report 0 for a stale day
+        dailyImpressions:
+          campaign.dailyBudgetDate && campaign.dailyBudgetDate >= today ? campaign.dailyImpressions : 0,
+        pausedUntil: campaign.pausedUntil && campaign.pausedUntil > now ? campaign.pausedUntil : null,
+        adCount: campaign._count.ads,
+        author: campaign.author,
+        advertiser: campaign.advertiser,
+        createdAt: campaign.createdAt,
+      })),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  } catch (error) {
+    console.error("Get ad campaigns error:", error);
+    return { success: false, error: "Failed to fetch campaigns" };
+  }
+}
+
+/**
+ * Get campaigns to pick from in the advertisement forms
+ */
+export async function getAdCampaignOptions() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasReadAllPermission = await hasPermission(currentUser.userId, "advertisement.read.all");
+
+    const campaigns = await prisma.adCampaign.findMany({
+      where: hasReadAllPermission ? {} : { authorId: currentUser.userId },
+      select: { id: true, name: true, status: true },
+      orderBy: { name: "asc" },
+    });
+
+    return { success: true, campaigns };
+  } catch (error) {
+    console.error("Get ad campaign options error:", error);
+    return { success: false, error: "Failed to fetch campaigns" };
+  }
+}
+
+/**
+ * Get users a campaign can be assigned to (holders of the advertiser portal permission)
+ */
+export async function getAdvertiserOptions() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "advertisement.create");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to manage campaigns" };
+    }
+
+    const advertisers = await prisma.user.findMany({
+      where: {
+        isActive: true,
+        roles: {
+          some: {
+            role: {
+              isActive: true,
+              permissions: { some: { permission: { slug: "advertiser.portal", isActive: true } } },
+            },
+          },
+        },
+      },
+      select: { id: true, username: true, email: true },
+      orderBy: { username: "asc" },
+    });
+
+    return { success: true, advertisers };
+  } catch (error) {
+    console.error("Get advertiser options error:", error);
+    return { success: false, error: "Failed to fetch advertisers" };
+  }
+}
+
+/**
+ * Create a new campaign
+ */
+export async function createAdCampaign(data: z.infer<typeof createAdCampaignSchema>) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "advertisement.create");
+    if (!hasAccess) {
+      return {
+        success: false,
+        error: "You don't have permission to create campaigns",
+      };
+    }
+
+    const validated = createAdCampaignSchema.parse(data);
+
+    if (validated.advertiserId) {
+      const advertiserError = await checkAdvertiser(validated.advertiserId);
+      if (advertiserError) {
+        return { success: false, error: advertiserError };
+      }
+    }
+
+    const campaign = await prisma.adCampaign.create({
+      data: {
+        name: validated.name,
+        description: validated.description || null,
+        dailyImpressionBudget: validated.dailyImpressionBudget ?? null,
+        totalImpressionBudget: validated.totalImpressionBudget ?? null,
+        authorId: currentUser.userId,
+        advertiserId: validated.advertiserId || null,
+      },
+    });
+
+    await createAuditLog({
+      action: "CREATE_AD_CAMPAIGN",
+      resource: "AdCampaign",
+      resourceId: campaign.id,
+      description: `User ${currentUser.email} created ad campaign: ${campaign.name}`,
+    });
+
+    revalidatePath("/dashboard/advertisements/campaigns");
+
+    return { success: true, campaign };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Create ad campaign error:", error);
+    return { success: false, error: "Failed to create campaign" };
+  }
+}
+
+/**
+ * Update a campaign's details and budgets
+ * Raising a spent budget above current usage lets the campaign serve again
+ */
+export async function updateAdCampaign(data: z.infer<typeof updateAdCampaignSchema>) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const validated = updateAdCampaignSchema.parse(data);
+
+    const result = await getManageableCampaign(validated.id, currentUser.userId, "advertisement.update");
+    if ("error" in result) {
+      return { success: false, error: result.error };
+    }
+    const existing = result.campaign;
+
+    const dailyBudget =
+      validated.dailyImpressionBudget !== undefined ? validated.dailyImpressionBudget : existing.dailyImpressionBudget;
+    const totalBudget =
+      validated.totalImpressionBudget !== undefined ? validated.totalImpressionBudget : existing.totalImpressionBudget;
+
+    if (dailyBudget && totalBudget && dailyBudget > totalBudget) {
+      return { success: false, error: "Daily budget cannot exceed the total budget" };
+    }
+
+    if (validated.advertiserId && validated.advertiserId !== existing.advertiserId) {
+      const advertiserError = await checkAdvertiser(validated.advertiserId);
+      if (advertiserError) {
+        return { success: false, error: advertiserError };
+      }
+    }
+
+    const updateData: Prisma.AdCampaignUpdateInput = {};
+    if (validated.name) updateData.name = validated.name;
+    if (validated.description !== undefined) updateData.description = validated.description || null;
+    if (validated.dailyImpressionBudget !== undefined) {
+      updateData.dailyImpressionBudget = validated.dailyImpressionBudget;
+    }
+    if (validated.totalImpressionBudget !== undefined) {
+      updateData.totalImpressionBudget = validated.totalImpressionBudget;
+    }
+    if (validated.advertiserId !== undefined) {
+      updateData.advertiser = validated.advertiserId
+        ? { connect: { id: validated.advertiserId } }
+        : { disconnect: true };
+    }
+
+    // Re-evaluate the automatic pauses against the new budgets
+    if (existing.status === "exhausted" && (!totalBudget || existing.impressions < totalBudget)) {
+      updateData.status = "active";
+    }
+    if (existing.pausedUntil && (!dailyBudget || existing.dailyImpressions < dailyBudget)) {
+      updateData.pausedUntil = null;
+    }
+
+    const campaign = await prisma.adCampaign.update({
+      where: { id: validated.id },
+      data: updateData,
+    });
+
+    await createAuditLog({
+      action: "UPDATE_AD_CAMPAIGN",
+      resource: "AdCampaign",
+      resourceId: campaign.id,
+      description: `User ${currentUser.email} updated ad campaign: ${campaign.name}`,
+      metadata: {
+        dailyImpressionBudget: campaign.dailyImpressionBudget,
+        totalImpressionBudget: campaign.totalImpressionBudget,
+        status: campaign.status,
+        advertiserId: campaign.advertiserId,
+      },
+    });
+
+    revalidatePath("/dashboard/advertisements/campaigns");
+    revalidateAdZones(existing.ads.map((ad) => ad.zone));
+
+    return { success: true, campaign };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Update ad campaign error:", error);
+    return { success: false, error: "Failed to update campaign" };
+  }
+}
+
+/**
+ * Pause or resume a campaign by hand
+ * An exhausted campaign can only resume once its total budget is raised
+ */
+export async function setAdCampaignPaused(campaignId: string, paused: boolean) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const result = await getManageableCampaign(campaignId, currentUser.userId, "advertisement.update");
+    if ("error" in result) {
+      return { success: false, error: result.error };
+    }
+    const existing = result.campaign;
+
+    if (existing.status === "exhausted") {
+      return { success: false, error: "Campaign budget is spent. Raise the total budget to resume it." };
+    }
+
+    const campaign = await prisma.adCampaign.update({
+      where: { id: campaignId },
+      data: { status: paused ? "paused" : "active" },
+    });
+
+    await createAuditLog({
+      action: paused ? "PAUSE_AD_CAMPAIGN" : "RESUME_AD_CAMPAIGN",
+      resource: "AdCampaign",
+      resourceId: campaign.id,
+      description: `User ${currentUser.email} ${paused ? "paused" : "resumed"} ad campaign: ${campaign.name}`,
+    });
+
+    revalidatePath("/dashboard/advertisements/campaigns");
+    revalidateAdZones(existing.ads.map((ad) => ad.zone));
+
+    return { success: true, campaign };
+  } catch (error) {
+    console.error("Set ad campaign paused error:", error);
+    return { success: false, error: "Failed to update campaign" };
+  }
+}
+
+/**
+ * Delete a campaign
+ * Its advertisements are kept and no longer budgeted
+ */
+export async function deleteAdCampaign(campaignId: string) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const result = await getManageableCampaign(campaignId, currentUser.userId, "advertisement.delete");
+    if ("error" in result) {
+      return { success: false, error: result.error };
+    }
+    const existing = result.campaign;
+
+    await prisma.adCampaign.delete({
+      where: { id: campaignId },
+    });
+
+    await createAuditLog({
+      action: "DELETE_AD_CAMPAIGN",
+      resource: "AdCampaign",
+      resourceId: campaignId,
+      description: `User ${currentUser.email} deleted ad campaign: ${existing.name}`,
+    });
+
+    revalidatePath("/dashboard/advertisements/campaigns");
+    revalidatePath("/dashboard/advertisements");
+    revalidateAdZones(existing.ads.map((ad) => ad.zone));
+
+    return { success: true };
+  } catch (error) {
+    console.error("Delete ad campaign error:", error);
+    return { success: false, error: "Failed to delete campaign" };
+  }
+}
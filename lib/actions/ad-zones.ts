@@ -0,0 +1,362 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { hasPermission } from "@/lib/auth/permissions";
+import { createAuditLog } from "@/lib/audit-log";
+import { revalidateAdZoneRegistry } from "@/lib/services/ad-zones.service";
+import { AD_CREATIVE_FORMATS, MAX_ADS_PER_ZONE } from "@/lib/utils/ads";
+import { revalidatePath } from "next/cache";
+import { httpUrlSchema } from "@/lib/security/validation";
+import { z } from "zod";
+
+/**
+ * Ad Zone Server Actions
+ * Zones are the placements ads are served in. Each one sets the slot size,
+ * the creative sizes and formats it accepts, how many ads it shows and the
+ * fallback creative shown when no ad is eligible.
+ */
+
+const dimensionSchema = z
+  .number()
+  .int()
+  .min(1, "Sizes must be at least 1px")
+  .max(5000, "Sizes must be at most 5000px");
+
+const adZoneFieldsSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be under 100 characters"),
+  description: z.string().max(500, "Description must be under 500 characters").optional(),
+  width: dimensionSchema,
+  height: dimensionSchema,
+  minWidth: dimensionSchema.nullable().optional(),
+  minHeight: dimensionSchema.nullable().optional(),
+  maxWidth: dimensionSchema.nullable().optional(),
+  maxHeight: dimensionSchema.nullable().optional(),
+  allowedFormats: z.array(z.enum(AD_CREATIVE_FORMATS)).min(1, "Select at least one image format"),
+  maxAds: z
+    .number()
+    .int()
+    .min(1, "Max ads must be at least 1")
+    .max(MAX_ADS_PER_ZONE, `Max ads cannot exceed ${MAX_ADS_PER_ZONE}`),
+  fallbackTitle: z.string().trim().max(200, "Fallback title must be under 200 characters").optional(),
+  fallbackDescription: z.string().max(500, "Fallback description must be under 500 characters").optional(),
+  fallbackImageUrl: z
+    .union([
+      z.literal(""),
+      z.string().regex(/^\/.*/, "Relative URL must start with /"),
+      z.string().url("Please enter a valid image URL"),
+    ])
+    .optional(),
+  fallbackLinkUrl: httpUrlSchema().optional().or(z.literal("")),
+  isEnabled: z.boolean().default(true),
+});
+
+type AdZoneFields = z.infer<typeof adZoneFieldsSchema>;
+
+/**
+ * Minimum sizes may not exceed the maximums
+ */
+function checkSizeLimits(data: AdZoneFields, ctx: z.RefinementCtx) {
+  if (data.minWidth && data.maxWidth && data.minWidth > data.maxWidth) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Min width cannot exceed max width", path: ["minWidth"] });
+  }
+  if (data.minHeight && data.maxHeight && data.minHeight > data.maxHeight) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Min height cannot exceed max height", path: ["minHeight"] });
+  }
+}
+
+const createAdZoneSchema = adZoneFieldsSchema
+  .extend({
+    slug: z
+      .string()
+      .trim()
+      .min(1, "Slug is required")
+      .max(50, "Slug must be under 50 characters")
+      .regex(/^[a-z0-9-]+$/, "Slug may only contain lowercase letters, numbers and hyphens"),
+  })
+  .superRefine(checkSizeLimits);
+
+// The slug is fixed once created; ads and components refer to it
+const updateAdZoneSchema = adZoneFieldsSchema.extend({ id: z.string() }).superRefine(checkSizeLimits);
+
+/**
+ * Database fields of a validated zone
+ */
+function toAdZoneData(validated: AdZoneFields) {
+  return {
+    name: validated.name,
+    description: validated.description || null,
+    width: validated.width,
+    height: validated.height,
+    minWidth: validated.minWidth ?? null,
+    minHeight: validated.minHeight ?? null,
+    maxWidth: validated.maxWidth ?? null,
+    maxHeight: validated.maxHeight ?? null,
+    allowedFormats: validated.allowedFormats,
+    maxAds: validated.maxAds,
+    fallbackTitle: validated.fallbackTitle || null,
+    fallbackDescription: validated.fallbackDescription || null,
+    fallbackImageUrl: validated.fallbackImageUrl || null,
+    fallbackLinkUrl: validated.fallbackLinkUrl || null,
+    isEnabled: validated.isEnabled,
+  };
+}
+
+/**
+ * Get every zone with the number of ads placed in it
+ */
+export async function getAdZones() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "advertisement.zone");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to manage ad zones" };
+    }
+
+    const [zones, adCounts] = await Promise.all([
+      prisma.adZone.findMany({ orderBy: { name: "asc" } }),
+      prisma.advertisement.groupBy({ by: ["zone"], _count: { _all: true } }),
+    ]);
+
+    const countByZone = new Map(adCounts.map((row) => [row.zone, row._count._all]));
+
+    return {
+      success: true,
+      zones: zones.map((zone) => ({
+        ...zone,
+        adCount: countByZone.get(zone.slug) || 0,
+      })),
+    };
+  } catch (error) {
+    console.error("Get ad zones error:", error);
+    return { success: false, error: "Failed to fetch ad zones" };
+  }
+}
+
+/**
+ * Get zones to pick from in the advertisement and creative forms, with their creative rules
+ */
+export async function getAdZoneOptions() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const [canCreate, canSubmit] = await Promise.all([
+      hasPermission(currentUser.userId, "advertisement.create"),
+      hasPermission(currentUser.userId, "advertiser.portal"),
+    ]);
+    if (!canCreate && !canSubmit) {
+      return { success: false, error: "You don't have permission to place advertisements" };
+    }
+
+    const zones = await prisma.adZone.findMany({
+      select: {
+        slug: true,
+        name: true,
+        width: true,
+        height: true,
+        minWidth: true,
+        minHeight: true,
+        maxWidth: true,
+        maxHeight: true,
+        allowedFormats: true,
+        isEnabled: true,
+      },
+      orderBy: { name: "asc" },
+    });
+
+    return { success: true, zones };
+  } catch (error) {
+    console.error("Get ad zone options error:", error);
+    return { success: false, error: "Failed to fetch ad zones" };
+  }
+}
+
+/**
+ * Create a zone
+ */
+export async function createAdZone(data: z.infer<typeof createAdZoneSchema>) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "advertisement.zone");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to manage ad zones" };
+    }
+
+    const validated = createAdZoneSchema.parse(data);
+
+    const existing = await prisma.adZone.findUnique({ where: { slug: validated.slug } });
+    if (existing) {
+      return { success: false, error: "A zone with this slug already exists" };
+    }
+
+    const zone = await prisma.adZone.create({
+      data: {
+        slug: validated.slug,
+        ...toAdZoneData(validated),
+      },
+    });
+
+    await createAuditLog({
+      action: "CREATE_AD_ZONE",
+      resource: "AdZone",
+      resourceId: zone.id,
+      description: `User ${currentUser.email} created ad zone: ${zone.name} (${zone.slug})`,
+    });
+
+    revalidatePath("/dashboard/advertisements/zones");
+    revalidateAdZoneRegistry();
+
+    return { success: true, zone };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Create ad zone error:", error);
+    return { success: false, error: "Failed to create ad zone" };
+  }
+}
+
+/**
+ * Update a zone's size, creative rules, max ads, fallback creative and status
+ * Ads already placed in the zone are not re-checked against new rules
+ */
+export async function updateAdZone(data: z.infer<typeof updateAdZoneSchema>) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "advertisement.zone");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to manage ad zones" };
+    }
+
+    const validated = updateAdZoneSchema.parse(data);
+
+    const existing = await prisma.adZone.findUnique({ where: { id: validated.id } });
+    if (!existing) {
+      return { success: false, error: "Ad zone not found" };
+    }
+
+    const zone = await prisma.adZone.update({
+      where: { id: validated.id },
+      data: toAdZoneData(validated),
+    });
+
+    await createAuditLog({
+      action: "UPDATE_AD_ZONE",
+      resource: "AdZone",
+      resourceId: zone.id,
+      description: `User ${currentUser.email} updated ad zone: ${zone.name} (${zone.slug})`,
+    });
+
+    revalidatePath("/dashboard/advertisements/zones");
+    revalidateAdZoneRegistry();
+
+    return { success: true, zone };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Update ad zone error:", error);
+    return { success: false, error: "Failed to update ad zone" };
+  }
+}
+
+/**
+ * Enable or disable a zone
+ * Disabled zones render nothing, not even the fallback creative
+ */
+export async function setAdZoneEnabled(zoneId: string, isEnabled: boolean) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "advertisement.zone");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to manage ad zones" };
+    }
+
+    const zone = await prisma.adZone.update({
+      where: { id: zoneId },
+      data: { isEnabled },
+    });
+
+    await createAuditLog({
+      action: isEnabled ? "ENABLE_AD_ZONE" : "DISABLE_AD_ZONE",
+      resource: "AdZone",
+      resourceId: zone.id,
+      description: `User ${currentUser.email} ${isEnabled ? "enabled" : "disabled"} ad zone: ${zone.name} (${zone.slug})`,
+    });
+
+    revalidatePath("/dashboard/advertisements/zones");
+    revalidateAdZoneRegistry();
+
+    return { success: true, zone };
+  } catch (error) {
+    console.error("Set ad zone enabled error:", error);
+    return { success: false, error: "Failed to update ad zone" };
+  }
+}
+
+/**
+ * Delete a zone
+ * Zones that still have advertisements cannot be deleted; disable them instead
+ */
+export async function deleteAdZone(zoneId: string) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "advertisement.zone");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to manage ad zones" };
+    }
+
+    const existing = await prisma.adZone.findUnique({ where: { id: zoneId } });
+    if (!existing) {
+      return { success: false, error: "Ad zone not found" };
+    }
+
+    const adCount = await prisma.advertisement.count({ where: { zone: existing.slug } });
+    if (adCount > 0) {
+      return {
+        success: false,
+        error: `This zone still has ${adCount} advertisement(s). Move them or disable the zone instead.`,
+      };
+    }
+
+    await prisma.adZone.delete({ where: { id: zoneId } });
+
+    await createAuditLog({
+      action: "DELETE_AD_ZONE",
+      resource: "AdZone",
+      resourceId: zoneId,
+      description: `User ${currentUser.email} deleted ad zone: ${existing.name} (${existing.slug})`,
+    });
+
+    revalidatePath("/dashboard/advertisements/zones");
+    revalidateAdZoneRegistry();
+
+    return { success: true };
+  } catch (error) {
+    console.error("Delete ad zone error:", error);
+    return { success: false, error: "Failed to delete ad zone" };
+  }
+}
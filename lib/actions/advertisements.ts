@@ -4,7 +4,11 @@ import { prisma } from "@/lib/prisma";
 import { getCurrentUser } from "@/lib/auth/jwt-server";
 import { hasPermission } from "@/lib/auth/permissions";
 import { createAuditLog } from "@/lib/audit-log";
+import { revalidateAdZones, trackAdClick, trackAdImpression } from "@/lib/services/ads.service";
+import { checkCreativeForZone } from "@/lib/services/ad-zones.service";
+import { AD_DEVICES } from "@/lib/utils/ads";
 import { revalidatePath } from "next/cache";
+import { httpUrlSchema } from "@/lib/security/validation";
 import { z } from "zod";
 
 /**
@@ -22,32 +26,118 @@ const urlOrEmpty = z.preprocess(
   ])
 );
 
+// Targeting rules; an empty list means no restriction
+const targetingSchema = {
+  targetCategoryIds: z.array(z.string()).max(50, "Too many target categories").optional(),
+  excludedCategoryIds: z.array(z.string()).max(50, "Too many excluded categories").optional(),
+  targetNewsIds: z.array(z.string()).max(100, "Too many target articles").optional(),
+  targetDevices: z.array(z.enum(AD_DEVICES)).optional(),
+  targetCountries: z
+    .array(z.string().trim().toUpperCase().regex(/^[A-Z]{2}$/, "Countries must be 2-letter ISO codes, e.g. IN"))
+    .max(50, "Too many target countries")
+    .optional(),
+  targetRegions: z
+    .array(z.string().trim().toUpperCase().regex(/^[A-Z]{2}-[A-Z0-9]{1,3}$/, "Regions must be country-region codes, e.g. IN-MH"))
+    .max(100, "Too many target regions")
+    .optional(),
+};
+
 const createAdvertisementSchema = z.object({
   title: z.string().min(1, "Title is required"),
   description: z.string().optional(),
   imageUrl: urlOrEmpty,
-  linkUrl: z.string().url().optional().or(z.literal("")),
-  zone: z.string().min(1, "Zone is required"), // header, sidebar, footer, inline
+  linkUrl: httpUrlSchema().optional().or(z.literal("")),
+  zone: z.string().min(1, "Zone is required"), // Slug of an ad zone
   position: z.number().int().default(0),
   startDate: z.string().datetime(), // Accept ISO format from transformed datetime-local
   endDate: z.string().datetime(), // Accept ISO format from transformed datetime-local
   newsId: z.string().optional(),
+  weight: z.number().int().min(0, "Weight cannot be negative").max(100, "Weight cannot exceed 100").default(1),
+  frequencyCap: z.number().int().min(1, "Frequency cap must be at least 1").nullable().optional(),
+  campaignId: z.string().optional(),
+  ...targetingSchema,
 });
 
+const reviewAdvertisementSchema = z
+  .object({
+    id: z.string(),
+    decision: z.enum(["approved", "rejected"]),
+    note: z.string().trim().max(1000, "Note must be under 1000 characters").optional(),
+  })
+  .refine((data) => data.decision === "approved" || !!data.note, {
+    message: "Please give the advertiser a reason for the rejection",
+    path: ["note"],
+  });
+
 const updateAdvertisementSchema = z.object({
   id: z.string(),
   title: z.string().min(1).optional(),
   description: z.string().optional(),
   imageUrl: urlOrEmpty.optional(),
-  linkUrl: z.string().url().optional().or(z.literal("")),
+  linkUrl: httpUrlSchema().optional().or(z.literal("")),
   zone: z.string().min(1).optional(),
   position: z.number().int().optional(),
   isActive: z.boolean().optional(),
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
   newsId: z.string().optional(),
+  weight: z.number().int().min(0, "Weight cannot be negative").max(100, "Weight cannot exceed 100").optional(),
+  frequencyCap: z.number().int().min(1, "Frequency cap must be at least 1").nullable().optional(),
+  campaignId: z.string().optional(),
+  ...targetingSchema,
 });
 
+/**
+ * Check targeting rules for contradictions and unknown categories/articles
+ */
+async function validateTargeting(targeting: {
+  targetCategoryIds?: string[];
+  excludedCategoryIds?: string[];
+  targetNewsIds?: string[];
+}) {
+  const included = targeting.targetCategoryIds || [];
+  const excluded = targeting.excludedCategoryIds || [];
+
+  if (included.some((id) => excluded.includes(id))) {
+    return "A category cannot be both targeted and excluded";
+  }
+
+  const categoryIds = Array.from(new Set([...included, ...excluded]));
+  if (categoryIds.length > 0) {
+    const count = await prisma.menu.count({ where: { id: { in: categoryIds } } });
+    if (count !== categoryIds.length) {
+      return "One or more target categories were not found";
+    }
+  }
+
+  const newsIds = Array.from(new Set(targeting.targetNewsIds || []));
+  if (newsIds.length > 0) {
+    const count = await prisma.news.count({ where: { id: { in: newsIds } } });
+    if (count !== newsIds.length) {
+      return "One or more target articles were not found";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Verify a campaign exists and the user may attach ads to it
+ */
+async function checkCampaignAccess(campaignId: string, userId: string) {
+  const campaign = await prisma.adCampaign.findUnique({
+    where: { id: campaignId },
+    select: { authorId: true },
+  });
+  if (!campaign) {
+    return "Campaign not found";
+  }
+  if (campaign.authorId !== userId && !(await hasPermission(userId, "advertisement.read.all"))) {
+    return "You don't have access to this campaign";
+  }
+  return null;
+}
+
 /**
  * Create a new advertisement
  */
@@ -79,6 +169,23 @@ export async function createAdvertisement(data: z.infer<typeof createAdvertiseme
       }
     }
 
+    if (validated.campaignId) {
+      const campaignError = await checkCampaignAccess(validated.campaignId, currentUser.userId);
+      if (campaignError) {
+        return { success: false, error: campaignError };
+      }
+    }
+
+    const targetingError = await validateTargeting(validated);
+    if (targetingError) {
+      return { success: false, error: targetingError };
+    }
+
+    const creativeError = await checkCreativeForZone(validated.zone, validated.imageUrl);
+    if (creativeError) {
+      return { success: false, error: creativeError };
+    }
+
     // Validate date range
     const startDate = new Date(validated.startDate);
     const endDate = new Date(validated.endDate);
@@ -98,6 +205,15 @@ export async function createAdvertisement(data: z.infer<typeof createAdvertiseme
         endDate,
         authorId: currentUser.userId,
         newsId: validated.newsId || null,
+        weight: validated.weight,
+        frequencyCap: validated.frequencyCap ?? null,
+        campaignId: validated.campaignId || null,
+        targetCategoryIds: validated.targetCategoryIds || [],
+        excludedCategoryIds: validated.excludedCategoryIds || [],
+        targetNewsIds: validated.targetNewsIds || [],
+        targetDevices: validated.targetDevices || [],
+        targetCountries: validated.targetCountries || [],
+        targetRegions: validated.targetRegions || [],
       },
       include: {
         author: {
@@ -127,6 +243,7 @@ export async function createAdvertisement(data: z.infer<typeof createAdvertiseme
     });
 
     revalidatePath("/dashboard/advertisements");
+    revalidateAdZones([advertisement.zone]);
 
     return { success: true, advertisement };
   } catch (error) {
@@ -180,6 +297,33 @@ export async function updateAdvertisement(data: z.infer<typeof updateAdvertiseme
       }
     }
 
+    if (validated.campaignId && validated.campaignId !== existingAd.campaignId) {
+      const campaignError = await checkCampaignAccess(validated.campaignId, currentUser.userId);
+      if (campaignError) {
+        return { success: false, error: campaignError };
+      }
+    }
+
+    const targetingError = await validateTargeting({
+      targetCategoryIds: validated.targetCategoryIds ?? existingAd.targetCategoryIds,
+      excludedCategoryIds: validated.excludedCategoryIds ?? existingAd.excludedCategoryIds,
+      targetNewsIds: validated.targetNewsIds,
+    });
+    if (targetingError) {
+      return { success: false, error: targetingError };
+    }
+
+    // Re-check the creative when it or its zone changes
+    if ((validated.zone && validated.zone !== existingAd.zone) || validated.imageUrl !== undefined) {
+      const creativeError = await checkCreativeForZone(
+        validated.zone || existingAd.zone,
+        validated.imageUrl ?? existingAd.imageUrl
+      );
+      if (creativeError) {
+        return { success: false, error: creativeError };
+      }
+    }
+
     // Validate date range if both dates are provided
     if (validated.startDate && validated.endDate) {
       const startDate = new Date(validated.startDate);
@@ -206,6 +350,27 @@ export async function updateAdvertisement(data: z.infer<typeof updateAdvertiseme
     if (validated.newsId !== undefined) {
       updateData.newsId = validated.newsId || null;
     }
+    if (validated.weight !== undefined) updateData.weight = validated.weight;
+    if (validated.frequencyCap !== undefined) updateData.frequencyCap = validated.frequencyCap;
+    if (validated.campaignId !== undefined) {
+      updateData.campaignId = validated.campaignId || null;
+    }
+    if (validated.targetCategoryIds) updateData.targetCategoryIds = validated.targetCategoryIds;
+    if (validated.excludedCategoryIds) updateData.excludedCategoryIds = validated.excludedCategoryIds;
+    if (validated.targetNewsIds) updateData.targetNewsIds = validated.targetNewsIds;
+    if (validated.targetDevices) updateData.targetDevices = validated.targetDevices;
+    if (validated.targetCountries) updateData.targetCountries = validated.targetCountries;
+    if (validated.targetRegions) updateData.targetRegions = validated.targetRegions;
+
+    // Advertisers (authors without staff access) send changed creatives back for review
+    const changesCreative = (["title", "description", "imageUrl", "linkUrl"] as const).some(
+      (field) => updateData[field] !== undefined && updateData[field] !== existingAd[field]
+    );
+    if (changesCreative && !hasUpdatePermission && !(await hasPermission(currentUser.userId, "advertisement.approve"))) {
+      updateData.reviewStatus = "pending";
+      updateData.reviewNote = null;
+      updateData.reviewedAt = null;
+    }
 
     const advertisement = await prisma.advertisement.update({
       where: { id: validated.id },
@@ -238,6 +403,7 @@ export async function updateAdvertisement(data: z.infer<typeof updateAdvertiseme
     });
 
     revalidatePath("/dashboard/advertisements");
+    revalidateAdZones([existingAd.zone, advertisement.zone]);
 
     return { success: true, advertisement };
   } catch (error) {
@@ -249,6 +415,70 @@ export async function updateAdvertisement(data: z.infer<typeof updateAdvertiseme
   }
 }
 
+/**
+ * Approve or reject a creative submitted by an advertiser
+ * Approved creatives are served from their start date; rejected ones show the note in the portal
+ */
+export async function reviewAdvertisement(data: z.infer<typeof reviewAdvertisementSchema>) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "advertisement.approve");
+    if (!hasAccess) {
+      return {
+        success: false,
+        error: "You don't have permission to review advertisements",
+      };
+    }
+
+    const validated = reviewAdvertisementSchema.parse(data);
+
+    const existingAd = await prisma.advertisement.findUnique({
+      where: { id: validated.id },
+      select: { id: true, title: true, zone: true, reviewStatus: true },
+    });
+
+    if (!existingAd) {
+      return { success: false, error: "Advertisement not found" };
+    }
+
+    const advertisement = await prisma.advertisement.update({
+      where: { id: validated.id },
+      data: {
+        reviewStatus: validated.decision,
+        reviewNote: validated.note || null,
+        reviewedAt: new Date(),
+      },
+    });
+
+    await createAuditLog({
+      action: validated.decision === "approved" ? "APPROVE_ADVERTISEMENT" : "REJECT_ADVERTISEMENT",
+      resource: "Advertisement",
+      resourceId: advertisement.id,
+      description: `User ${currentUser.email} ${validated.decision} advertisement: ${advertisement.title}`,
+      metadata: {
+        previousStatus: existingAd.reviewStatus,
+        note: validated.note,
+      },
+    });
+
+    revalidatePath("/dashboard/advertisements");
+    revalidatePath("/dashboard/advertiser");
+    revalidateAdZones([advertisement.zone]);
+
+    return { success: true, advertisement };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Review advertisement error:", error);
+    return { success: false, error: "Failed to review advertisement" };
+  }
+}
+
 /**
  * Delete an advertisement
  */
@@ -290,6 +520,7 @@ export async function deleteAdvertisement(adId: string) {
     });
 
     revalidatePath("/dashboard/advertisements");
+    revalidateAdZones([ad.zone]);
 
     return { success: true };
   } catch (error) {
@@ -308,6 +539,7 @@ export async function getUserAdvertisements(
   filters?: {
     zone?: string;
     isActive?: boolean;
+    reviewStatus?: string;
   }
 ) {
   try {
@@ -341,6 +573,10 @@ export async function getUserAdvertisements(
       where.isActive = filters.isActive;
     }
 
+    if (filters?.reviewStatus) {
+      where.reviewStatus = filters.reviewStatus;
+    }
+
     const [advertisements, total] = await Promise.all([
       prisma.advertisement.findMany({
         where,
@@ -361,6 +597,13 @@ export async function getUserAdvertisements(
               slug: true,
             },
           },
+          campaign: {
+            select: {
+              id: true,
+              name: true,
+              status: true,
+            },
+          },
         },
         orderBy: { createdAt: "desc" },
         skip,
@@ -369,9 +612,15 @@ export async function getUserAdvertisements(
       prisma.advertisement.count({ where }),
     ]);
 
+    // Review queue size for staff who approve advertiser creatives
+    const pendingReviewCount = (await hasPermission(currentUser.userId, "advertisement.approve"))
+      ? await prisma.advertisement.count({ where: { reviewStatus: "pending" } })
+      : 0;
+
     return {
       success: true,
       advertisements,
+      pendingReviewCount,
       total,
       page,
       limit,
@@ -412,6 +661,13 @@ export async function getAdvertisementById(adId: string) {
             slug: true,
           },
         },
+        campaign: {
+          select: {
+            id: true,
+            name: true,
+            status: true,
+          },
+        },
       },
     });
 
@@ -445,14 +701,8 @@ export async function getAdvertisementById(adId: string) {
  */
 export async function trackAdvertisementClick(adId: string) {
   try {
-    await prisma.advertisement.update({
-      where: { id: adId },
-      data: {
-        clicks: {
-          increment: 1,
-        },
-      },
-    });
+    // Shared with the click API so the event reaches campaign reports
+    await trackAdClick(adId);
 
     return { success: true };
   } catch (error) {
@@ -466,14 +716,8 @@ export async function trackAdvertisementClick(adId: string) {
  */
 export async function trackAdvertisementImpression(adId: string) {
   try {
-    await prisma.advertisement.update({
-      where: { id: adId },
-      data: {
-        impressions: {
-          increment: 1,
-        },
-      },
-    });
+    // Shared with the impression API so campaign budgets are applied
+    await trackAdImpression(adId);
 
     return { success: true };
   } catch (error) {
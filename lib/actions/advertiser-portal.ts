@@ -0,0 +1,254 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import type { Prisma } from "@prisma/client";
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { hasPermission } from "@/lib/auth/permissions";
+import { createAuditLog } from "@/lib/audit-log";
+import { getCampaignReport } from "@/lib/services/ad-reports.service";
+import { checkCreativeForZone } from "@/lib/services/ad-zones.service";
+import { normalizeAdReportRange } from "@/lib/utils/ad-reports";
+import { revalidatePath } from "next/cache";
+import { httpUrlSchema } from "@/lib/security/validation";
+import { z } from "zod";
+
+/**
+ * Advertiser Portal Server Actions
+ * Sponsors see reports for the campaigns assigned to them and submit creatives,
+ * which staff approve before they are served.
+ */
+
+const submitCreativeSchema = z
+  .object({
+    campaignId: z.string().min(1, "Campaign is required"),
+    title: z.string().trim().min(1, "Title is required").max(200, "Title must be under 200 characters"),
+    description: z.string().max(1000, "Description must be under 1000 characters").optional(),
+    imageUrl: z.union([
+      z.string().regex(/^\/.*/, "Relative URL must start with /"),
+      z.string().url("Please enter a valid image URL"),
+    ]),
+    linkUrl: httpUrlSchema().optional().or(z.literal("")),
+    zone: z.string().min(1, "Please select a zone"),
+    startDate: z.string().datetime(),
+    endDate: z.string().datetime(),
+  })
+  .refine((data) => new Date(data.endDate) > new Date(data.startDate), {
+    message: "End date must be after start date",
+    path: ["endDate"],
+  });
+
+/**
+ * Campaigns the user may report on
+ * Advertisers see the campaigns assigned to them; staff who read all ads see every campaign
+ */
+async function getReportableCampaignWhere(userId: string): Promise<Prisma.AdCampaignWhereInput> {
+  const hasReadAllPermission = await hasPermission(userId, "advertisement.read.all");
+  return hasReadAllPermission ? {} : { advertiserId: userId };
+}
+
+/**
+ * Get the current user's campaigns with lifetime totals
+ */
+export async function getAdvertiserCampaigns() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "advertiser.portal");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have access to the advertiser portal" };
+    }
+
+    const campaigns = await prisma.adCampaign.findMany({
+      where: await getReportableCampaignWhere(currentUser.userId),
+      select: {
+        id: true,
+        name: true,
+        status: true,
+        impressions: true,
+        totalImpressionBudget: true,
+        dailyImpressionBudget: true,
+        _count: { select: { ads: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return {
+      success: true,
+      campaigns: campaigns.map((campaign) => ({
+        id: campaign.id,
+        name: campaign.name,
+        status: campaign.status,
+        impressions: campaign.impressions,
+        totalImpressionBudget: campaign.totalImpressionBudget,
+        dailyImpressionBudget: campaign.dailyImpressionBudget,
+        adCount: campaign._count.ads,
+      })),
+    };
+  } catch (error) {
+    console.error("Get advertiser campaigns error:", error);
+    return { success: false, error: "Failed to fetch campaigns" };
+  }
+}
+
+/**
+ * Get the daily report of one campaign, or of all the user's campaigns
+ * @param campaignId - Campaign to report on (omit for all)
+ * @param days - Period length; one of AD_REPORT_RANGES
+ */
+export async function getAdvertiserReport(campaignId?: string, days?: number) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "advertiser.portal");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have access to the advertiser portal" };
+    }
+
+    const where = await getReportableCampaignWhere(currentUser.userId);
+    if (campaignId) {
+      where.id = campaignId;
+    }
+
+    const campaigns = await prisma.adCampaign.findMany({
+      where,
+      select: { id: true, name: true },
+    });
+
+    if (campaignId && campaigns.length === 0) {
+      return { success: false, error: "Campaign not found" };
+    }
+
+    const report = await getCampaignReport(
+      campaignId ? campaigns[0].name : "All campaigns",
+      campaigns.map((campaign) => campaign.id),
+      normalizeAdReportRange(days)
+    );
+
+    return { success: true, report };
+  } catch (error) {
+    console.error("Get advertiser report error:", error);
+    return { success: false, error: "Failed to build report" };
+  }
+}
+
+/**
+ * Get creatives in the user's campaigns with their review status
+ */
+export async function getAdvertiserCreatives() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "advertiser.portal");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have access to the advertiser portal" };
+    }
+
+    const campaigns = await prisma.adCampaign.findMany({
+      where: await getReportableCampaignWhere(currentUser.userId),
+      select: { id: true },
+    });
+
+    const creatives = await prisma.advertisement.findMany({
+      where: {
+        OR: [
+          { authorId: currentUser.userId },
+          { campaignId: { in: campaigns.map((campaign) => campaign.id) } },
+        ],
+      },
+      select: {
+        id: true,
+        title: true,
+        imageUrl: true,
+        zone: true,
+        reviewStatus: true,
+        reviewNote: true,
+        startDate: true,
+        endDate: true,
+        createdAt: true,
+        campaign: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: "desc" },
+      take: 100,
+    });
+
+    return { success: true, creatives };
+  } catch (error) {
+    console.error("Get advertiser creatives error:", error);
+    return { success: false, error: "Failed to fetch creatives" };
+  }
+}
+
+/**
+ * Submit a creative for one of the user's campaigns
+ * It is created as pending and only served once staff approve it
+ */
+export async function submitAdCreative(data: z.infer<typeof submitCreativeSchema>) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "advertiser.portal");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have access to the advertiser portal" };
+    }
+
+    const validated = submitCreativeSchema.parse(data);
+
+    const campaign = await prisma.adCampaign.findFirst({
+      where: { id: validated.campaignId, ...(await getReportableCampaignWhere(currentUser.userId)) },
+      select: { id: true, name: true },
+    });
+    if (!campaign) {
+      return { success: false, error: "Campaign not found" };
+    }
+
+    const creativeError = await checkCreativeForZone(validated.zone, validated.imageUrl);
+    if (creativeError) {
+      return { success: false, error: creativeError };
+    }
+
+    const creative = await prisma.advertisement.create({
+      data: {
+        title: validated.title,
+        description: validated.description || null,
+        imageUrl: validated.imageUrl,
+        linkUrl: validated.linkUrl || null,
+        zone: validated.zone,
+        startDate: new Date(validated.startDate),
+        endDate: new Date(validated.endDate),
+        authorId: currentUser.userId,
+        campaignId: campaign.id,
+        reviewStatus: "pending",
+      },
+    });
+
+    await createAuditLog({
+      action: "SUBMIT_AD_CREATIVE",
+      resource: "Advertisement",
+      resourceId: creative.id,
+      description: `User ${currentUser.email} submitted creative ${creative.title} for campaign ${campaign.name}`,
+    });
+
+    revalidatePath("/dashboard/advertiser");
+    revalidatePath("/dashboard/advertisements");
+
+    return { success: true, creative };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Submit ad creative error:", error);
+    return { success: false, error: "Failed to submit creative" };
+  }
+}
@@ -5,6 +5,7 @@ import { prisma } from "@/lib/prisma";
 import { getCurrentUser } from "@/lib/auth/jwt-server";
 import { hasPermission } from "@/lib/auth/permissions";
 import { headers } from "next/headers";
+import { getVisitorContext } from "@/lib/utils/visitor-context";
 
 /**
  * Analytics Server Actions
@@ -23,6 +24,7 @@ export async function trackVisit(path: string, referer?: string) {
       headersList.get("cf-connecting-ip") ||
       "unknown";
     const userAgent = headersList.get("user-agent") || "unknown";
+    const visitor = getVisitorContext(headersList);
 
     await prisma.visit.create({
       data: {
@@ -30,6 +32,9 @@ export async function trackVisit(path: string, referer?: string) {
         userAgent,
         referer: referer || null,
         path,
+        country: visitor.country,
+        city: visitor.city,
+        device: visitor.device,
       },
     });
 
@@ -432,6 +437,133 @@ export async function getDeviceStatistics(days: number = 30) {
   }
 }
 
+/**
+ * Get public search statistics
+ * Top queries and queries that found nothing, so editors can spot content gaps
+ */
+export async function getSearchStatistics(days: number = 30) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "analytics.read");
+    if (!hasAccess) {
+      return {
+        success: false,
+        error: "You don't have permission to view analytics",
+      };
+    }
+
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+
+    const where = { createdAt: { gte: startDate } };
+
+    const [totalSearches, zeroResultSearches, topQueries, zeroResultQueries] = await Promise.all([
+      prisma.searchQueryLog.count({ where }),
+      prisma.searchQueryLog.count({ where: { ...where, resultCount: 0 } }),
+      prisma.searchQueryLog.groupBy({
+        by: ["query"],
+        where: { ...where, resultCount: { gt: 0 } },
+        _count: { query: true },
+        _max: { createdAt: true },
+        orderBy: { _count: { query: "desc" } },
+        take: 10,
+      }),
+      prisma.searchQueryLog.groupBy({
+        by: ["query"],
+        where: { ...where, resultCount: 0 },
+        _count: { query: true },
+        _max: { createdAt: true },
+        orderBy: { _count: { query: "desc" } },
+        take: 20,
+      }),
+    ]);
+
+    const toRow = (row: (typeof topQueries)[number]) => ({
+      query: row.query,
+      count: row._count.query,
+      lastSearchedAt: row._max.createdAt,
+    });
+
+    return {
+      success: true,
+      totalSearches,
+      zeroResultSearches,
+      zeroResultRate: totalSearches > 0 ? ((zeroResultSearches / totalSearches) * 100).toFixed(1) : "0.0",
+      topQueries: topQueries.map(toRow),
+      zeroResultQueries: zeroResultQueries.map(toRow),
+    };
+  } catch (error) {
+    console.error("Get search statistics error:", error);
+    return { success: false, error: "Failed to fetch search statistics" };
+  }
+}
+
+/**
+ * Get valid vs filtered tracking counts
+ * Valid events are the counted news views and ad events; filtered ones were
+ * rejected by the traffic-quality checks (bots, duplicates, click bursts)
+ */
+export async function getTrafficQualityStatistics(days: number = 30) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "analytics.read");
+    if (!hasAccess) {
+      return {
+        success: false,
+        error: "You don't have permission to view analytics",
+      };
+    }
+
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+
+    const [newsViews, adImpressions, adClicks, filtered] = await Promise.all([
+      prisma.newsView.count({ where: { viewedAt: { gte: startDate } } }),
+      prisma.adEvent.count({ where: { type: "impression", createdAt: { gte: startDate } } }),
+      prisma.adEvent.count({ where: { type: "click", createdAt: { gte: startDate } } }),
+      prisma.filteredTrafficEvent.groupBy({
+        by: ["kind", "reason"],
+        where: { createdAt: { gte: startDate } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const kinds = [
+      { kind: "news_view", label: "News views", valid: newsViews },
+      { kind: "ad_impression", label: "Ad impressions", valid: adImpressions },
+      { kind: "ad_click", label: "Ad clicks", valid: adClicks },
+    ];
+
+    return {
+      success: true,
+      kinds: kinds.map((item) => {
+        const rows = filtered.filter((row) => row.kind === item.kind);
+        const filteredCount = rows.reduce((sum, row) => sum + row._count._all, 0);
+        const total = item.valid + filteredCount;
+        return {
+          ...item,
+          filtered: filteredCount,
+          filteredRate: total > 0 ? ((filteredCount / total) * 100).toFixed(1) : "0.0",
+          reasons: rows
+            .map((row) => ({ reason: row.reason, count: row._count._all }))
+            .sort((a, b) => b.count - a.count),
+        };
+      }),
+    };
+  } catch (error) {
+    console.error("Get traffic quality statistics error:", error);
+    return { success: false, error: "Failed to fetch traffic quality statistics" };
+  }
+}
+
 /**
  * Get comprehensive analytics dashboard data
  */
@@ -451,12 +583,14 @@ export async function getAnalyticsDashboard(days: number = 30) {
     }
 
     // Get all analytics data in parallel
-    const [visitsResult, newsResult, adsResult, deviceResult, overviewResult] = await Promise.all([
+    const [visitsResult, newsResult, adsResult, deviceResult, overviewResult, searchResult, trafficResult] = await Promise.all([
       getDailyVisits(days),
       getNewsStatistics(days),
       getAdvertisementStatistics(days),
       getDeviceStatistics(days),
       getDashboardOverview(),
+      getSearchStatistics(days),
+      getTrafficQualityStatistics(days),
     ]);
 
     return {
@@ -466,6 +600,8 @@ export async function getAnalyticsDashboard(days: number = 30) {
       advertisements: adsResult.success ? adsResult : null,
       devices: deviceResult.success ? deviceResult : null,
       overview: overviewResult.success ? overviewResult.overview : null,
+      search: searchResult.success ? searchResult : null,
+      trafficQuality: trafficResult.success ? trafficResult : null,
     };
   } catch (error) {
     console.error("Get analytics dashboard error:", error);
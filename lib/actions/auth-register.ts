@@ -3,7 +3,8 @@
 import bcrypt from "bcryptjs";
 import { prisma } from "@/lib/prisma";
 import {  setAuthCookie } from "@/lib/auth/jwt-server";
-import { generateToken } from "@/lib/auth/jwt-core";
+import { issueSessionToken } from "@/lib/services/session.service";
+import { trySendVerificationEmail } from "@/lib/services/account-email.service";
 import { createAuditLog } from "@/lib/audit-log";
 import { emailSchema, usernameSchema } from "@/lib/security/validation";
 import { z } from "zod";
@@ -101,7 +102,6 @@ export async function register(data: z.infer<typeof registerSchema>) {
           lastName: validated.lastName,
           isActive: true,
           provider: "credentials",
-         // Add email verification field
         },
         select: {
           id: true,
@@ -123,18 +123,7 @@ export async function register(data: z.infer<typeof registerSchema>) {
       return user;
     });
 
-    // Generate JWT token
-    const token = await generateToken({
-      userId: result.id,
-      email: result.email,
-      username: result.username,
-      roles: ["citizen"],
-    });
-
-    // Set authentication cookie
-    await setAuthCookie(token);
-
-    // Get request details for audit log
+    // Get request details for the session and audit log
     const headersList = await headers();
     const ip = headersList.get("x-forwarded-for")?.split(",")[0]?.trim() || 
                headersList.get("x-real-ip") || 
@@ -142,6 +131,24 @@ export async function register(data: z.infer<typeof registerSchema>) {
                "unknown";
     const userAgent = headersList.get("user-agent") || "unknown";
 
+    // Start a session and sign its token
+    const token = await issueSessionToken(
+      {
+        userId: result.id,
+        email: result.email,
+        username: result.username,
+        roles: ["citizen"],
+        accountType: "staff",
+      },
+      { ipAddress: ip, userAgent }
+    );
+
+    // Set authentication cookie
+    await setAuthCookie(token);
+
+    // Ask the user to confirm their address
+    await trySendVerificationEmail(result);
+
     // Create audit log entry
     await createAuditLog({
       action: "REGISTER",
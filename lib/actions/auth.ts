@@ -2,12 +2,23 @@
 
 import bcrypt from "bcryptjs";
 import { prisma } from "@/lib/prisma";
-import { generateToken } from "@/lib/auth/jwt-core";
-import { setAuthCookie, removeAuthCookie, getCurrentUser } from "@/lib/auth/jwt-server";
+import { revokeSession } from "@/lib/services/session.service";
+import { completeLogin, type LoginResult } from "@/lib/services/login.service";
+import {
+  removeAuthCookie,
+  getCurrentUser,
+  setTwoFactorChallengeCookie,
+  getTwoFactorChallengeUserId,
+  removeTwoFactorChallengeCookie,
+} from "@/lib/auth/jwt-server";
+import { generateTwoFactorChallenge } from "@/lib/auth/jwt-core";
 import { createAuditLog } from "@/lib/audit-log";
 import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
-import { checkLoginRateLimit } from "@/lib/security/rate-limit";
+import { checkLoginRateLimit, checkTwoFactorRateLimit } from "@/lib/security/rate-limit";
+import { verifySecondFactor } from "@/lib/services/two-factor.service";
+import { recordFailedLogin } from "@/lib/services/account-lockout.service";
+import { formatLockoutRemaining, isLocked } from "@/lib/security/account-lockout";
 import { emailSchema, passwordSchema } from "@/lib/security/validation";
 import { headers } from "next/headers";
 import { z } from "zod";
@@ -31,10 +42,17 @@ export interface LoginCredentials {
   password: string;
 }
 
+function lockedError(lockedUntil: Date): LoginResult {
+  return {
+    success: false,
+    error: `Too many failed sign-in attempts. This account is locked for ${formatLockoutRemaining(lockedUntil)}, or you can reset your password.`,
+  };
+}
+
 /**
  * Authenticate user with enhanced security and error handling
  */
-export async function login(credentials: LoginCredentials) {
+export async function login(credentials: LoginCredentials): Promise<LoginResult> {
   try {
     // Get client IP for rate limiting and audit
     const headersList = await headers();
@@ -45,7 +63,7 @@ export async function login(credentials: LoginCredentials) {
     const userAgent = headersList.get("user-agent") || "unknown";
 
     // Rate limiting check
-    const rateLimit = checkLoginRateLimit(ip);
+    const rateLimit = await checkLoginRateLimit(ip);
     if (rateLimit.limited) {
       await createAuditLog({
         action: "LOGIN_RATE_LIMIT",
@@ -87,6 +105,7 @@ export async function login(credentials: LoginCredentials) {
         action: "LOGIN_FAILED",
         resource: "User",
         description: `Failed login attempt for email: ${email}`,
+        metadata: { email },
         ipAddress: ip,
         userAgent,
       });
@@ -95,14 +114,17 @@ export async function login(credentials: LoginCredentials) {
 
     // Check if user is active
     if (!user.isActive) {
-      await createAuditLog({
-        action: "LOGIN_FAILED",
-        resource: "User",
-        resourceId: user.id,
-        description: `Login attempt for deactivated account: ${user.email}`,
-        ipAddress: ip,
-        userAgent,
-      });
+      await createAuditLog(
+        {
+          action: "LOGIN_FAILED",
+          resource: "User",
+          resourceId: user.id,
+          description: `Login attempt for deactivated account: ${user.email}`,
+          ipAddress: ip,
+          userAgent,
+        },
+        user.id
+      );
       return {
         success: false,
         error: "Your account has been deactivated. Please contact administrator.",
@@ -111,83 +133,66 @@ export async function login(credentials: LoginCredentials) {
 
     // Verify password for credential-based users
     if (!user.password) {
-      await createAuditLog({
-        action: "LOGIN_FAILED",
-        resource: "User",
-        resourceId: user.id,
-        description: `Password login attempted for social account: ${user.email}`,
-        ipAddress: ip,
-        userAgent,
-      });
+      await createAuditLog(
+        {
+          action: "LOGIN_FAILED",
+          resource: "User",
+          resourceId: user.id,
+          description: `Password login attempted for social account: ${user.email}`,
+          ipAddress: ip,
+          userAgent,
+        },
+        user.id
+      );
       return {
         success: false,
         error: "This account uses social login. Please use the social login option.",
       };
     }
 
+    // Locked accounts don't get their password checked, so guessing stops
+    // until the lock expires
+    if (user.lockedUntil && isLocked(user.lockedUntil)) {
+      await createAuditLog(
+        {
+          action: "LOGIN_FAILED",
+          resource: "User",
+          resourceId: user.id,
+          description: `Login attempt for locked account: ${user.email}`,
+          metadata: { reason: "account_locked" },
+          ipAddress: ip,
+          userAgent,
+        },
+        user.id
+      );
+      return lockedError(user.lockedUntil);
+    }
+
     // Verify password
     const isValidPassword = await bcrypt.compare(validated.password, user.password);
     if (!isValidPassword) {
-      await createAuditLog({
-        action: "LOGIN_FAILED",
-        resource: "User",
-        resourceId: user.id,
-        description: `Invalid password attempt for user: ${user.email}`,
-        ipAddress: ip,
-        userAgent,
-      });
-      return genericError;
+      await createAuditLog(
+        {
+          action: "LOGIN_FAILED",
+          resource: "User",
+          resourceId: user.id,
+          description: `Invalid password attempt for user: ${user.email}`,
+          ipAddress: ip,
+          userAgent,
+        },
+        user.id
+      );
+      const lockedUntil = await recordFailedLogin(user, { ipAddress: ip, userAgent });
+      return lockedUntil ? lockedError(lockedUntil) : genericError;
     }
 
-    // Update last login timestamp
-    await prisma.user.update({
-      where: { id: user.id },
-      data: { 
-        lastLogin: new Date(),
-        // Optional: Update lastActive for tracking
-        // lastActive: new Date(),
-      },
-    });
-
-    // Get user roles
-    const roles = user.roles.map((ur: any) => ur.role.slug);
-
-    // Generate JWT token
-    const token = await generateToken({
-      userId: user.id,
-      email: user.email,
-      username: user.username,
-      roles,
-    });
-
-    // Set authentication cookie
-    await setAuthCookie(token);
-
-    // Create successful login audit log
-    await createAuditLog({
-      action: "LOGIN",
-      resource: "User",
-      resourceId: user.id,
-      description: `User ${user.email} logged in successfully`,
-      ipAddress: ip,
-      userAgent,
-    });
-
-    // Revalidate relevant paths
-    revalidatePath("/");
-    revalidatePath("/dashboard");
+    // Accounts with two-factor authentication finish signing in with a code
+    if (user.twoFactorEnabled) {
+      await setTwoFactorChallengeCookie(await generateTwoFactorChallenge(user.id));
+      return { success: true, twoFactorRequired: true };
+    }
 
-    return {
-      success: true,
-      user: {
-        id: user.id,
-        email: user.email,
-        username: user.username,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        roles,
-      },
-    };
+    return await completeLogin(user, { ipAddress: ip, userAgent });
   } catch (error) {
     // Enhanced error handling with structured logging
     console.error("Login error:", {
@@ -216,6 +221,109 @@ export async function login(credentials: LoginCredentials) {
   }
 }
 
+/**
+ * Second sign-in step: check the authenticator or recovery code for the
+ * account whose password was accepted
+ */
+export async function verifyTwoFactorLogin(code: string): Promise<LoginResult> {
+  try {
+    const headersList = await headers();
+    const ip = headersList.get("x-forwarded-for")?.split(",")[0]?.trim() || 
+               headersList.get("x-real-ip") || 
+               headersList.get("cf-connecting-ip") ||
+               "unknown";
+    const userAgent = headersList.get("user-agent") || "unknown";
+
+    const userId = await getTwoFactorChallengeUserId();
+    if (!userId) {
+      return {
+        success: false,
+        error: "Your sign-in has expired. Please enter your password again.",
+        expired: true,
+      };
+    }
+
+    const rateLimit = await checkTwoFactorRateLimit(userId);
+    if (rateLimit.limited) {
+      await createAuditLog(
+        {
+          action: "LOGIN_RATE_LIMIT",
+          resource: "User",
+          resourceId: userId,
+          description: "Too many two-factor attempts",
+          ipAddress: ip,
+          userAgent,
+        },
+        userId
+      );
+      return {
+        success: false,
+        error: "Too many attempts. Please try again in a few minutes.",
+      };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: {
+        roles: {
+          include: {
+            role: true,
+          },
+        },
+      },
+    });
+
+    if (!user || !user.isActive || !user.twoFactorEnabled || !user.twoFactorSecret) {
+      await removeTwoFactorChallengeCookie();
+      return {
+        success: false,
+        error: "Your sign-in has expired. Please enter your password again.",
+        expired: true,
+      };
+    }
+
+    if (user.lockedUntil && isLocked(user.lockedUntil)) {
+      await removeTwoFactorChallengeCookie();
+      return { ...lockedError(user.lockedUntil), expired: true };
+    }
+
+    const secondFactor = await verifySecondFactor(user, code);
+
+    if (!secondFactor) {
+      await createAuditLog(
+        {
+          action: "TWO_FACTOR_FAILED",
+          resource: "User",
+          resourceId: user.id,
+          description: `Invalid two-factor code for user: ${user.email}`,
+          ipAddress: ip,
+          userAgent,
+        },
+        user.id
+      );
+      const lockedUntil = await recordFailedLogin(user, { ipAddress: ip, userAgent });
+      if (lockedUntil) {
+        await removeTwoFactorChallengeCookie();
+        return { ...lockedError(lockedUntil), expired: true };
+      }
+      return {
+        success: false,
+        error: "Invalid code. Please try again.",
+      };
+    }
+
+    await removeTwoFactorChallengeCookie();
+
+    return await completeLogin(user, { ipAddress: ip, userAgent }, { secondFactor });
+  } catch (error) {
+    console.error("Two-factor login error:", error);
+    return {
+      success: false,
+      error: "Verification failed. Please try again.",
+    };
+  }
+}
+
 /**
  * Enhanced logout function with better error handling
  */
@@ -223,7 +331,7 @@ export async function logout() {
   try {
     const user = await getCurrentUser();
     
-    // Create audit log for logout
+    // Audit the logout, then revoke the session so the token stops working
     if (user) {
       await createAuditLog({
         action: "LOGOUT",
@@ -231,6 +339,10 @@ export async function logout() {
         resourceId: user.userId,
         description: `User ${user.email} logged out`,
       });
+
+      if (user.jti) {
+        await revokeSession(user.jti, "logout");
+      }
     }
 
     // Remove authentication cookie
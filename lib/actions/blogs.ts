@@ -99,6 +99,7 @@ export async function createBlog(data: z.infer<typeof createBlogSchema>) {
     });
 
     revalidatePath("/dashboard/blogs");
+    revalidatePath("/blog");
 
     return { success: true, blog };
   } catch (error) {
@@ -182,6 +183,9 @@ export async function updateBlog(data: z.infer<typeof updateBlogSchema>) {
     });
 
     revalidatePath("/dashboard/blogs");
+    revalidatePath("/blog");
+    revalidatePath(`/blog/${existingBlog.slug}`);
+    revalidatePath(`/blog/${blog.slug}`);
 
     return { success: true, blog };
   } catch (error) {
@@ -235,6 +239,8 @@ export async function deleteBlog(blogId: string) {
     });
 
     revalidatePath("/dashboard/blogs");
+    revalidatePath("/blog");
+    revalidatePath(`/blog/${blog.slug}`);
 
     return { success: true };
   } catch (error) {
@@ -0,0 +1,318 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { hasPermission } from "@/lib/auth/permissions";
+import { createAuditLog } from "@/lib/audit-log";
+import {
+  getCommentModerationConfig,
+  revalidateCommentModerationConfig,
+  toSettingsValues,
+} from "@/lib/services/comment-moderation.service";
+import { MODERATION_LANGUAGES, assessCommentContent, toPhoneticKey } from "@/lib/utils/comment-moderation";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+/**
+ * Comment Filter Server Actions
+ * Manage the wordlists and the weights and thresholds the comment filters
+ * use to publish, hold or reject new comments
+ */
+
+const weightSchema = z.number().int().min(0, "Weights cannot be negative").max(100, "Weights must be at most 100");
+
+const settingsSchema = z
+  .object({
+    holdThreshold: z.number().int().min(1, "Hold threshold must be at least 1").max(1000),
+    rejectThreshold: z.number().int().min(1, "Reject threshold must be at least 1").max(1000),
+    maxLinks: z.number().int().min(0, "Allowed links cannot be negative").max(20),
+    linkWeight: weightSchema,
+    maxLinkPercent: z.number().int().min(1, "Link share must be at least 1%").max(100, "Link share must be at most 100%"),
+    repeatWeight: weightSchema,
+    duplicateWeight: weightSchema,
+    rateLimitCount: z.number().int().min(1, "Allow at least 1 comment per window").max(100),
+    rateLimitWindowMinutes: z.number().int().min(1, "Window must be at least 1 minute").max(1440, "Window must be at most 24 hours"),
+    reportHideThreshold: z.number().int().min(1, "Hide after at least 1 report").max(100, "Hide after at most 100 reports"),
+  })
+  .refine((data) => data.rejectThreshold > data.holdThreshold, {
+    message: "Reject threshold must be higher than the hold threshold",
+    path: ["rejectThreshold"],
+  });
+
+const addWordsSchema = z.object({
+  words: z
+    .array(z.string().trim().min(1).max(100, "Words must be under 100 characters"))
+    .min(1, "Enter at least one word")
+    .max(500, "Add at most 500 words at a time"),
+  language: z.enum(MODERATION_LANGUAGES),
+  severity: z.number().int().min(1, "Severity must be at least 1").max(100, "Severity must be at most 100"),
+  matchPartial: z.boolean().default(false),
+});
+
+const updateWordSchema = z.object({
+  id: z.string(),
+  severity: z.number().int().min(1, "Severity must be at least 1").max(100, "Severity must be at most 100").optional(),
+  matchPartial: z.boolean().optional(),
+  isEnabled: z.boolean().optional(),
+});
+
+/**
+ * Get the filter settings and every wordlist entry
+ */
+export async function getCommentModerationSettings() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "comment.settings");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to manage comment filters" };
+    }
+
+    const [settings, words] = await Promise.all([
+      prisma.commentModerationSettings.findUnique({ where: { id: "default" } }),
+      prisma.moderationWord.findMany({ orderBy: [{ language: "asc" }, { word: "asc" }] }),
+    ]);
+
+    return {
+      success: true,
+      settings: toSettingsValues(settings),
+      updatedAt: settings?.updatedAt ?? null,
+      words,
+    };
+  } catch (error) {
+    console.error("Get comment moderation settings error:", error);
+    return { success: false, error: "Failed to fetch comment filter settings" };
+  }
+}
+
+/**
+ * Save the weights, thresholds and posting rate limit
+ * Only new comments are scored with the new settings
+ */
+export async function updateCommentModerationSettings(data: z.infer<typeof settingsSchema>) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "comment.settings");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to manage comment filters" };
+    }
+
+    const validated = settingsSchema.parse(data);
+
+    const previous = await prisma.commentModerationSettings.findUnique({ where: { id: "default" } });
+
+    await prisma.commentModerationSettings.upsert({
+      where: { id: "default" },
+      create: { id: "default", ...validated, updatedBy: currentUser.userId },
+      update: { ...validated, updatedBy: currentUser.userId },
+    });
+
+    await createAuditLog({
+      action: "UPDATE_COMMENT_FILTER_SETTINGS",
+      resource: "CommentModerationSettings",
+      resourceId: "default",
+      description: `User ${currentUser.email} updated comment filter settings (hold at ${validated.holdThreshold}, reject at ${validated.rejectThreshold})`,
+      metadata: {
+        previous: toSettingsValues(previous),
+        settings: validated,
+      },
+    });
+
+    revalidateCommentModerationConfig();
+    revalidatePath("/dashboard/comments/filters");
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Update comment moderation settings error:", error);
+    return { success: false, error: "Failed to update comment filter settings" };
+  }
+}
+
+/**
+ * Add words to a wordlist, one entry per word or phrase
+ * Words already in the list are skipped
+ */
+export async function addModerationWords(data: z.infer<typeof addWordsSchema>) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "comment.settings");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to manage comment filters" };
+    }
+
+    const validated = addWordsSchema.parse(data);
+
+    const words = Array.from(new Set(validated.words.map((word) => word.toLowerCase()))).filter((word) =>
+      toPhoneticKey(word)
+    );
+    if (words.length === 0) {
+      return { success: false, error: "Words must contain letters" };
+    }
+
+    const result = await prisma.moderationWord.createMany({
+      data: words.map((word) => ({
+        word,
+        language: validated.language,
+        severity: validated.severity,
+        matchPartial: validated.matchPartial,
+        createdBy: currentUser.userId,
+      })),
+      skipDuplicates: true,
+    });
+
+    await createAuditLog({
+      action: "ADD_MODERATION_WORDS",
+      resource: "ModerationWord",
+      description: `User ${currentUser.email} added ${result.count} word(s) to the ${validated.language} wordlist`,
+      metadata: {
+        language: validated.language,
+        severity: validated.severity,
+        count: result.count,
+      },
+    });
+
+    revalidateCommentModerationConfig();
+    revalidatePath("/dashboard/comments/filters");
+
+    return { success: true, count: result.count, skipped: words.length - result.count };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Add moderation words error:", error);
+    return { success: false, error: "Failed to add words" };
+  }
+}
+
+/**
+ * Change a word's severity or matching, or enable or disable it
+ */
+export async function updateModerationWord(data: z.infer<typeof updateWordSchema>) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "comment.settings");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to manage comment filters" };
+    }
+
+    const { id, ...changes } = updateWordSchema.parse(data);
+
+    const existing = await prisma.moderationWord.findUnique({ where: { id } });
+    if (!existing) {
+      return { success: false, error: "Word not found" };
+    }
+
+    const word = await prisma.moderationWord.update({
+      where: { id },
+      data: changes,
+    });
+
+    await createAuditLog({
+      action: "UPDATE_MODERATION_WORD",
+      resource: "ModerationWord",
+      resourceId: word.id,
+      description: `User ${currentUser.email} updated ${word.language} wordlist entry: ${word.word}`,
+      metadata: {
+        previous: {
+          severity: existing.severity,
+          matchPartial: existing.matchPartial,
+          isEnabled: existing.isEnabled,
+        },
+        changes,
+      },
+    });
+
+    revalidateCommentModerationConfig();
+    revalidatePath("/dashboard/comments/filters");
+
+    return { success: true, word };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Update moderation word error:", error);
+    return { success: false, error: "Failed to update word" };
+  }
+}
+
+/**
+ * Remove a word from its wordlist
+ */
+export async function deleteModerationWord(wordId: string) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "comment.settings");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to manage comment filters" };
+    }
+
+    const existing = await prisma.moderationWord.findUnique({ where: { id: wordId } });
+    if (!existing) {
+      return { success: false, error: "Word not found" };
+    }
+
+    await prisma.moderationWord.delete({ where: { id: wordId } });
+
+    await createAuditLog({
+      action: "DELETE_MODERATION_WORD",
+      resource: "ModerationWord",
+      resourceId: wordId,
+      description: `User ${currentUser.email} removed ${existing.language} wordlist entry: ${existing.word}`,
+    });
+
+    revalidateCommentModerationConfig();
+    revalidatePath("/dashboard/comments/filters");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Delete moderation word error:", error);
+    return { success: false, error: "Failed to delete word" };
+  }
+}
+
+/**
+ * Score sample text with the saved filters, without posting it
+ * Duplicate detection and the rate limit are not applied
+ */
+export async function testCommentModeration(content: string) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "comment.settings");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to manage comment filters" };
+    }
+
+    const { settings, words } = await getCommentModerationConfig();
+
+    return { success: true, assessment: assessCommentContent(content.slice(0, 5000), words, settings) };
+  } catch (error) {
+    console.error("Test comment moderation error:", error);
+    return { success: false, error: "Failed to test comment" };
+  }
+}
@@ -1,12 +1,29 @@
 "use server";
 
 import { prisma } from "@/lib/prisma";
+import type { Prisma } from "@prisma/client";
 import { getCurrentUser } from "@/lib/auth/jwt-server";
+import type { JWTPayload } from "@/lib/auth/jwt-core";
 import { hasPermission } from "@/lib/auth/permissions";
 import { createAuditLog } from "@/lib/audit-log";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
 import { headers } from "next/headers";
+import { getAuthorDisplayName } from "@/lib/utils/author";
+import {
+  assessComment,
+  checkCommentPostingRate,
+  getCommentModerationConfig,
+} from "@/lib/services/comment-moderation.service";
+import {
+  COMMENT_BULK_ACTIONS,
+  COMMENT_MODES,
+  COMMENT_MODE_LABELS,
+  COMMENT_REPORT_REASONS,
+  COMMENT_REPORT_REASON_LABELS,
+  normalizeCommentQueueFilter,
+  type CommentQueueFilter,
+} from "@/lib/utils/comments";
 
 /**
  * Comment Management Server Actions
@@ -16,7 +33,7 @@ import { headers } from "next/headers";
 const createCommentSchema = z.object({
   newsId: z.string().min(1, "News ID is required"),
   parentId: z.string().optional(),
-  authorName: z.string().min(1, "Name is required").max(100, "Name too long"),
+  authorName: z.string().max(100, "Name too long").optional(), // Ignored when signed in
   authorEmail: z.string().email().optional().or(z.literal("")),
   content: z.string().min(1, "Comment cannot be empty").max(5000, "Comment too long"),
 });
@@ -27,20 +44,50 @@ const moderateCommentSchema = z.object({
   reason: z.string().optional(),
 });
 
-// Simple vulgar word filter (can be enhanced with external API)
-const vulgarWords = [
-  // Add your list of vulgar words here
-  "badword1", "badword2", // Example placeholders
-];
+const moderateCommentsSchema = z.object({
+  commentIds: z.array(z.string()).min(1, "Select at least one comment").max(100, "Select at most 100 comments"),
+  action: z.enum(COMMENT_BULK_ACTIONS),
+  reason: z.string().max(500, "Reason must be under 500 characters").optional(),
+});
 
-function containsVulgarContent(text: string): boolean {
-  const lowerText = text.toLowerCase();
-  return vulgarWords.some((word) => lowerText.includes(word.toLowerCase()));
-}
+const reportCommentSchema = z.object({
+  commentId: z.string().min(1, "Comment ID is required"),
+  reason: z.enum(COMMENT_REPORT_REASONS, { errorMap: () => ({ message: "Choose a reason for the report" }) }),
+  details: z.string().trim().max(500, "Details must be under 500 characters").optional(),
+});
+
+const commentModeSchema = z.object({
+  newsId: z.string(),
+  mode: z.enum(COMMENT_MODES),
+});
+
+type ModerationAction = z.infer<typeof moderateCommentSchema>["action"];
+
+// Queue views; pending and vulgar hold comments no moderator has decided on yet
+const queueWhere: Record<CommentQueueFilter, Prisma.CommentWhereInput> = {
+  pending: { isApproved: false, isSpam: false, isVulgar: false, moderatedAt: null },
+  vulgar: { isVulgar: true, moderatedAt: null },
+  spam: { isSpam: true },
+  reported: { reportCount: { gt: 0 } },
+  all: {},
+};
+
+const decisionLabels: Record<ModerationAction, string> = {
+  approve: "approved",
+  reject: "rejected",
+  spam: "marked as spam",
+  vulgar: "flagged as vulgar",
+  delete: "deleted",
+};
+
+// Deepest reply level loaded for the thread view
+const MAX_THREAD_DEPTH = 10;
 
 /**
  * Create a new comment
- * Anyone can comment, but content is checked for vulgarity
+ * Comments pass the per-IP rate limit and are scored by the moderation filters:
+ * low scores are published, higher ones held for a moderator and the highest
+ * stored as spam
  */
 export async function createComment(data: z.infer<typeof createCommentSchema>) {
   try {
@@ -51,10 +98,18 @@ export async function createComment(data: z.infer<typeof createCommentSchema>) {
     const ipAddress = headersList.get("x-forwarded-for") || headersList.get("x-real-ip") || "unknown";
     const userAgent = headersList.get("user-agent") || "unknown";
 
+    const waitMinutes = await checkCommentPostingRate(ipAddress.split(",")[0].trim());
+    if (waitMinutes) {
+      return {
+        success: false,
+        error: `You're commenting too quickly. Please try again in ${waitMinutes} minute(s).`,
+      };
+    }
+
     // Check if news exists
     const news = await prisma.news.findUnique({
       where: { id: validated.newsId },
-      select: { id: true, slug: true, isPublished: true },
+      select: { id: true, slug: true, isPublished: true, commentMode: true },
     });
 
     if (!news) {
@@ -65,22 +120,62 @@ export async function createComment(data: z.infer<typeof createCommentSchema>) {
       return { success: false, error: "Cannot comment on unpublished posts" };
     }
 
-    // Check for vulgar content
-    const isVulgar = containsVulgarContent(validated.content);
+    if (news.commentMode === "closed") {
+      return { success: false, error: "Comments are closed for this post" };
+    }
+
+    // Signed-in accounts comment under their verified name and email
+    const currentUser = await getCurrentUser();
+    const account = currentUser
+      ? await prisma.user.findUnique({
+          where: { id: currentUser.userId },
+          select: { id: true, email: true, username: true, firstName: true, lastName: true, isActive: true },
+        })
+      : null;
+
+    if (news.commentMode === "members" && !account?.isActive) {
+      return { success: false, error: "Please sign in to comment on this post" };
+    }
 
-    // Auto-approve unless vulgar
-    const isApproved = !isVulgar;
+    const authorName = account?.isActive ? getAuthorDisplayName(account) : validated.authorName?.trim();
+    if (!authorName) {
+      return { success: false, error: "Name is required" };
+    }
+
+    if (validated.parentId) {
+      const parent = await prisma.comment.findUnique({
+        where: { id: validated.parentId },
+        select: { newsId: true },
+      });
+      if (!parent || parent.newsId !== news.id) {
+        return { success: false, error: "The comment you are replying to was not found" };
+      }
+    }
+
+    const assessment = await assessComment({
+      content: validated.content,
+      newsId: news.id,
+      ipAddress,
+    });
+
+    const isVulgar = assessment.matchedWords.length > 0;
+    const isApproved = assessment.decision === "approve";
+    const isSpam = assessment.decision === "reject";
 
     // Create comment
     const comment = await prisma.comment.create({
       data: {
         newsId: validated.newsId,
         parentId: validated.parentId || null,
-        authorName: validated.authorName,
-        authorEmail: validated.authorEmail || null,
+        userId: account?.isActive ? account.id : null,
+        authorName,
+        authorEmail: account?.isActive ? account.email : validated.authorEmail || null,
         content: validated.content,
         isApproved,
         isVulgar,
+        isSpam,
+        moderationScore: assessment.score,
+        moderationFlags: assessment.flags,
         ipAddress,
         userAgent,
       },
@@ -107,9 +202,11 @@ export async function createComment(data: z.infer<typeof createCommentSchema>) {
         isApproved: comment.isApproved,
         parentId: comment.parentId,
       },
-      message: isVulgar
-        ? "Your comment has been flagged for review and will be published after moderation."
-        : "Comment posted successfully!",
+      message: isSpam
+        ? "Your comment was blocked by our filters. A moderator may still publish it after review."
+        : !isApproved
+          ? "Your comment has been flagged for review and will be published after moderation."
+          : "Comment posted successfully!",
     };
   } catch (error) {
     console.error("Create comment error:", error);
@@ -123,6 +220,7 @@ export async function createComment(data: z.infer<typeof createCommentSchema>) {
 /**
  * Get comments for a news post
  * Only approved comments are shown to public
+ * Also returns who may comment, so the form can be hidden or ask to sign in
  */
 export async function getComments(newsId: string, includePending: boolean = false) {
   try {
@@ -154,7 +252,40 @@ export async function getComments(newsId: string, includePending: boolean = fals
       orderBy: { createdAt: "desc" },
     });
 
-    return { success: true, comments };
+    const [news, account, likes, reports] = await Promise.all([
+      prisma.news.findUnique({
+        where: { id: newsId },
+        select: { commentMode: true },
+      }),
+      currentUser
+        ? prisma.user.findUnique({
+            where: { id: currentUser.userId },
+            select: { username: true, firstName: true, lastName: true },
+          })
+        : null,
+      currentUser
+        ? prisma.commentLike.findMany({
+            where: { userId: currentUser.userId, comment: { newsId } },
+            select: { commentId: true },
+          })
+        : [],
+      currentUser
+        ? prisma.commentReport.findMany({
+            where: { userId: currentUser.userId, comment: { newsId } },
+            select: { commentId: true },
+          })
+        : [],
+    ]);
+
+    return {
+      success: true,
+      comments,
+      commentMode: news?.commentMode || "open",
+      isSignedIn: !!currentUser,
+      viewerName: account ? getAuthorDisplayName(account) : null,
+      likedCommentIds: likes.map((like) => like.commentId),
+      reportedCommentIds: reports.map((report) => report.commentId),
+    };
   } catch (error) {
     console.error("Get comments error:", error);
     return { success: false, error: "Failed to load comments", comments: [] };
@@ -162,38 +293,48 @@ export async function getComments(newsId: string, includePending: boolean = fals
 }
 
 /**
- * Moderate a comment (approve, reject, mark as spam/vulgar, or delete)
- * Requires comment.moderate permission
+ * Apply one moderation decision to comments and audit each of them
+ * Deleting a comment also deletes its replies; any decision closes open reports
  */
-export async function moderateComment(data: z.infer<typeof moderateCommentSchema>) {
-  try {
-    const currentUser = await getCurrentUser();
-    if (!currentUser) {
-      return { success: false, error: "Unauthorized" };
-    }
-
-    const hasAccess = await hasPermission(currentUser.userId, "comment.moderate");
-    if (!hasAccess) {
-      return { success: false, error: "You don't have permission to moderate comments" };
-    }
+async function applyModeration(
+  commentIds: string[],
+  action: ModerationAction,
+  reason: string | undefined,
+  currentUser: JWTPayload
+) {
+  const comments = await prisma.comment.findMany({
+    where: { id: { in: commentIds } },
+    select: {
+      id: true,
+      authorName: true,
+      isApproved: true,
+      isSpam: true,
+      isVulgar: true,
+      reportCount: true,
+      news: { select: { id: true, slug: true } },
+    },
+  });
+
+  if (comments.length === 0) {
+    return 0;
+  }
 
-    const validated = moderateCommentSchema.parse(data);
+  const ids = comments.map((comment) => comment.id);
 
-    const comment = await prisma.comment.findUnique({
-      where: { id: validated.commentId },
-      include: { news: { select: { slug: true } } },
+  if (action === "delete") {
+    await prisma.comment.deleteMany({
+      where: { id: { in: ids } },
     });
-
-    if (!comment) {
-      return { success: false, error: "Comment not found" };
-    }
-
-    let updateData: any = {
-      moderatedAt: new Date(),
+  } else {
+    const moderatedAt = new Date();
+    const updateData: Prisma.CommentUpdateManyMutationInput = {
+      moderatedAt,
       moderatedBy: currentUser.userId,
+      reportCount: 0,
+      hiddenByReportsAt: null,
     };
 
-    switch (validated.action) {
+    switch (action) {
       case "approve":
         updateData.isApproved = true;
         updateData.isSpam = false;
@@ -210,33 +351,74 @@ export async function moderateComment(data: z.infer<typeof moderateCommentSchema
         updateData.isApproved = false;
         updateData.isVulgar = true;
         break;
-      case "delete":
-        await prisma.comment.delete({
-          where: { id: validated.commentId },
-        });
-        revalidatePath(`/news/${comment.news.slug}`);
-        await createAuditLog({
-          action: "DELETE_COMMENT",
-          resource: "Comment",
-          resourceId: validated.commentId,
-          description: `User ${currentUser.email} deleted comment`,
-        });
-        return { success: true, message: "Comment deleted successfully" };
     }
 
-    await prisma.comment.update({
-      where: { id: validated.commentId },
-      data: updateData,
-    });
+    await prisma.$transaction([
+      prisma.comment.updateMany({
+        where: { id: { in: ids } },
+        data: updateData,
+      }),
+      prisma.commentReport.updateMany({
+        where: { commentId: { in: ids }, resolvedAt: null },
+        data: { resolvedAt: moderatedAt, resolvedBy: currentUser.userId },
+      }),
+    ]);
+  }
 
-    revalidatePath(`/news/${comment.news.slug}`);
+  for (const comment of comments) {
     await createAuditLog({
-      action: `MODERATE_COMMENT_${validated.action.toUpperCase()}`,
+      action: action === "delete" ? "DELETE_COMMENT" : `MODERATE_COMMENT_${action.toUpperCase()}`,
       resource: "Comment",
-      resourceId: validated.commentId,
-      description: `User ${currentUser.email} ${validated.action} comment${validated.reason ? `: ${validated.reason}` : ""}`,
+      resourceId: comment.id,
+      description: `User ${currentUser.email} ${decisionLabels[action]} comment by ${comment.authorName}${reason ? `: ${reason}` : ""}`,
+      metadata: {
+        newsId: comment.news.id,
+        reason,
+        bulk: comments.length > 1,
+        previous: {
+          isApproved: comment.isApproved,
+          isSpam: comment.isSpam,
+          isVulgar: comment.isVulgar,
+          reportCount: comment.reportCount,
+        },
+      },
     });
+  }
 
+  for (const slug of new Set(comments.map((comment) => comment.news.slug))) {
+    revalidatePath(`/news/${slug}`);
+  }
+  revalidatePath("/dashboard/comments");
+
+  return comments.length;
+}
+
+/**
+ * Moderate a comment (approve, reject, mark as spam/vulgar, or delete)
+ * Requires comment.moderate permission
+ */
+export async function moderateComment(data: z.infer<typeof moderateCommentSchema>) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "comment.moderate");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to moderate comments" };
+    }
+
+    const validated = moderateCommentSchema.parse(data);
+
+    const count = await applyModeration([validated.commentId], validated.action, validated.reason, currentUser);
+    if (count === 0) {
+      return { success: false, error: "Comment not found" };
+    }
+
+    if (validated.action === "delete") {
+      return { success: true, message: "Comment deleted successfully" };
+    }
     return { success: true, message: `Comment ${validated.action}d successfully` };
   } catch (error) {
     console.error("Moderate comment error:", error);
@@ -248,26 +430,418 @@ export async function moderateComment(data: z.infer<typeof moderateCommentSchema
 }
 
 /**
- * Like a comment
+ * Approve, reject, mark as spam or delete several comments at once
+ * Each comment gets its own audit log entry
  */
-export async function likeComment(commentId: string) {
+export async function moderateComments(data: z.infer<typeof moderateCommentsSchema>) {
   try {
-    await prisma.comment.update({
-      where: { id: commentId },
-      data: {
-        likes: {
-          increment: 1,
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "comment.moderate");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to moderate comments" };
+    }
+
+    const validated = moderateCommentsSchema.parse(data);
+
+    const count = await applyModeration(
+      Array.from(new Set(validated.commentIds)),
+      validated.action,
+      validated.reason,
+      currentUser
+    );
+    if (count === 0) {
+      return { success: false, error: "No comments found" };
+    }
+
+    return { success: true, count };
+  } catch (error) {
+    console.error("Moderate comments error:", error);
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    return { success: false, error: "Failed to moderate comments" };
+  }
+}
+
+/**
+ * Get the moderation queue
+ * @param filter - pending, vulgar, spam, reported or all
+ * @param search - Matches comment text, author name or email
+ * @param newsId - Limit to one article
+ */
+export async function getModerationQueue(
+  page: number = 1,
+  limit: number = 20,
+  filter?: string,
+  search?: string,
+  newsId?: string
+) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "comment.moderate");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to moderate comments" };
+    }
+
+    const activeFilter = normalizeCommentQueueFilter(filter);
+    const skip = (page - 1) * limit;
+
+    const scope: Prisma.CommentWhereInput = {};
+    if (newsId) {
+      scope.newsId = newsId;
+    }
+    if (search) {
+      scope.OR = [
+        { content: { contains: search, mode: "insensitive" } },
+        { authorName: { contains: search, mode: "insensitive" } },
+        { authorEmail: { contains: search, mode: "insensitive" } },
+      ];
+    }
+
+    const where: Prisma.CommentWhereInput = { AND: [scope, queueWhere[activeFilter]] };
+
+    const [comments, total, pending, vulgar, spam, reported, all, news] = await Promise.all([
+      prisma.comment.findMany({
+        where,
+        include: {
+          news: { select: { id: true, title: true, slug: true, commentMode: true } },
+          parent: { select: { id: true, authorName: true, content: true } },
+          reports: {
+            where: { resolvedAt: null },
+            select: { reason: true, details: true, createdAt: true },
+            orderBy: { createdAt: "desc" },
+          },
+          _count: { select: { replies: true } },
         },
-      },
+        orderBy: activeFilter === "reported" ? [{ reportCount: "desc" }, { createdAt: "desc" }] : { createdAt: "desc" },
+        skip,
+        take: limit,
+      }),
+      prisma.comment.count({ where }),
+      prisma.comment.count({ where: { AND: [scope, queueWhere.pending] } }),
+      prisma.comment.count({ where: { AND: [scope, queueWhere.vulgar] } }),
+      prisma.comment.count({ where: { AND: [scope, queueWhere.spam] } }),
+      prisma.comment.count({ where: { AND: [scope, queueWhere.reported] } }),
+      prisma.comment.count({ where: scope }),
+      newsId
+        ? prisma.news.findUnique({ where: { id: newsId }, select: { id: true, title: true, slug: true, commentMode: true } })
+        : null,
+    ]);
+
+    return {
+      success: true,
+      comments,
+      counts: { pending, vulgar, spam, reported, all },
+      filter: activeFilter,
+      news,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  } catch (error) {
+    console.error("Get moderation queue error:", error);
+    return { success: false, error: "Failed to load moderation queue" };
+  }
+}
+
+/**
+ * Get the whole thread a comment belongs to, for moderating it in context
+ * Returns the thread's comments in reading order with their reply depth
+ */
+export async function getCommentThread(commentId: string) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "comment.moderate");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to moderate comments" };
+    }
+
+    const comment = await prisma.comment.findUnique({
+      where: { id: commentId },
+      select: { id: true, parentId: true, newsId: true },
+    });
+    if (!comment) {
+      return { success: false, error: "Comment not found" };
+    }
+
+    // Walk up to the top-level comment; the guard stops on malformed cycles
+    let rootId = comment.id;
+    let parentId = comment.parentId;
+    for (let level = 0; parentId && level < MAX_THREAD_DEPTH; level++) {
+      const parent = await prisma.comment.findUnique({
+        where: { id: parentId },
+        select: { id: true, parentId: true },
+      });
+      if (!parent) break;
+      rootId = parent.id;
+      parentId = parent.parentId;
+    }
+
+    const select = {
+      id: true,
+      parentId: true,
+      authorName: true,
+      authorEmail: true,
+      content: true,
+      isApproved: true,
+      isSpam: true,
+      isVulgar: true,
+      reportCount: true,
+      hiddenByReportsAt: true,
+      moderationScore: true,
+      moderationFlags: true,
+      likes: true,
+      ipAddress: true,
+      createdAt: true,
+      moderatedAt: true,
+    } satisfies Prisma.CommentSelect;
+
+    const root = await prisma.comment.findUnique({ where: { id: rootId }, select });
+    if (!root) {
+      return { success: false, error: "Comment not found" };
+    }
+
+    // Load replies level by level
+    const levels = [[root]];
+    for (let depth = 1; depth <= MAX_THREAD_DEPTH; depth++) {
+      const parentIds = levels[depth - 1].map((item) => item.id);
+      const replies = await prisma.comment.findMany({
+        where: { parentId: { in: parentIds } },
+        select,
+        orderBy: { createdAt: "asc" },
+      });
+      if (replies.length === 0) break;
+      levels.push(replies);
+    }
+
+    // Depth-first reading order: each comment followed by its replies
+    const childrenOf = new Map<string, typeof root[]>();
+    for (const item of levels.slice(1).flat()) {
+      const siblings = childrenOf.get(item.parentId!) || [];
+      siblings.push(item);
+      childrenOf.set(item.parentId!, siblings);
+    }
+
+    const thread: Array<typeof root & { depth: number }> = [];
+    const visit = (item: typeof root, depth: number) => {
+      thread.push({ ...item, depth });
+      for (const reply of childrenOf.get(item.id) || []) {
+        visit(reply, depth + 1);
+      }
+    };
+    visit(root, 0);
+
+    const news = await prisma.news.findUnique({
+      where: { id: comment.newsId },
+      select: { id: true, title: true, slug: true, commentMode: true },
+    });
+
+    return { success: true, thread, focusId: comment.id, news };
+  } catch (error) {
+    console.error("Get comment thread error:", error);
+    return { success: false, error: "Failed to load thread" };
+  }
+}
+
+/**
+ * Open, close or limit to members the comments of an article
+ */
+export async function setNewsCommentMode(data: z.infer<typeof commentModeSchema>) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "comment.moderate");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to moderate comments" };
+    }
+
+    const validated = commentModeSchema.parse(data);
+
+    const existing = await prisma.news.findUnique({
+      where: { id: validated.newsId },
+      select: { id: true, title: true, slug: true, commentMode: true },
+    });
+    if (!existing) {
+      return { success: false, error: "News post not found" };
+    }
+
+    await prisma.news.update({
+      where: { id: validated.newsId },
+      data: { commentMode: validated.mode },
+    });
+
+    await createAuditLog({
+      action: "UPDATE_NEWS_COMMENT_MODE",
+      resource: "News",
+      resourceId: existing.id,
+      description: `User ${currentUser.email} set comments on "${existing.title}" to ${COMMENT_MODE_LABELS[validated.mode].toLowerCase()}`,
+      metadata: { previous: existing.commentMode, mode: validated.mode },
     });
 
+    revalidatePath(`/news/${existing.slug}`);
+    revalidatePath("/dashboard/comments");
+
     return { success: true };
+  } catch (error) {
+    console.error("Set news comment mode error:", error);
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    return { success: false, error: "Failed to update comment settings" };
+  }
+}
+
+/**
+ * Like a comment, or take the like back
+ * Each account counts once, so likes require signing in
+ */
+export async function likeComment(commentId: string) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Please sign in to like comments" };
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const existing = await tx.commentLike.findUnique({
+        where: { commentId_userId: { commentId, userId: currentUser.userId } },
+      });
+
+      if (existing) {
+        await tx.commentLike.delete({ where: { id: existing.id } });
+        const updated = await tx.comment.update({
+          where: { id: commentId },
+          data: { likes: { decrement: 1 } },
+          select: { likes: true },
+        });
+        return { liked: false, likes: updated.likes };
+      }
+
+      await tx.commentLike.create({ data: { commentId, userId: currentUser.userId } });
+      const updated = await tx.comment.update({
+        where: { id: commentId },
+        data: { likes: { increment: 1 } },
+        select: { likes: true },
+      });
+      return { liked: true, likes: updated.likes };
+    });
+
+    return { success: true, ...result };
   } catch (error) {
     console.error("Like comment error:", error);
     return { success: false, error: "Failed to like comment" };
   }
 }
 
+/**
+ * Report a comment to the moderators
+ * Each account reports a comment once; enough open reports hide the comment
+ * until a moderator decides on it
+ */
+export async function reportComment(data: z.infer<typeof reportCommentSchema>) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Please sign in to report comments" };
+    }
+
+    const validated = reportCommentSchema.parse(data);
+
+    const comment = await prisma.comment.findUnique({
+      where: { id: validated.commentId },
+      select: { id: true, userId: true, isApproved: true, isSpam: true, news: { select: { slug: true } } },
+    });
+    if (!comment || !comment.isApproved || comment.isSpam) {
+      return { success: false, error: "Comment not found" };
+    }
+
+    if (comment.userId === currentUser.userId) {
+      return { success: false, error: "You cannot report your own comment" };
+    }
+
+    const existing = await prisma.commentReport.findUnique({
+      where: { commentId_userId: { commentId: comment.id, userId: currentUser.userId } },
+      select: { id: true },
+    });
+    if (existing) {
+      return { success: false, error: "You have already reported this comment" };
+    }
+
+    const headersList = await headers();
+    const ipAddress = headersList.get("x-forwarded-for")?.split(",")[0]?.trim() || headersList.get("x-real-ip") || null;
+    const { settings } = await getCommentModerationConfig();
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.commentReport.create({
+        data: {
+          commentId: comment.id,
+          userId: currentUser.userId,
+          reason: validated.reason,
+          details: validated.details || null,
+          ipAddress,
+        },
+      });
+
+      const counted = await tx.comment.update({
+        where: { id: comment.id },
+        data: { reportCount: { increment: 1 } },
+        select: { reportCount: true },
+      });
+
+      // Only hide comments that are still published, so a concurrent decision is kept
+      const hidden =
+        counted.reportCount >= settings.reportHideThreshold
+          ? await tx.comment.updateMany({
+              where: { id: comment.id, isApproved: true },
+              data: { isApproved: false, hiddenByReportsAt: new Date() },
+            })
+          : null;
+
+      return { reportCount: counted.reportCount, hidden: !!hidden?.count };
+    });
+
+    if (updated.hidden) {
+      await createAuditLog({
+        action: "HIDE_COMMENT_REPORTS",
+        resource: "Comment",
+        resourceId: comment.id,
+        description: `Comment hidden after ${updated.reportCount} reader reports (latest: ${COMMENT_REPORT_REASON_LABELS[validated.reason]})`,
+        metadata: {
+          reportCount: updated.reportCount,
+          threshold: settings.reportHideThreshold,
+          reason: validated.reason,
+        },
+      });
+      revalidatePath(`/news/${comment.news.slug}`);
+    }
+    revalidatePath("/dashboard/comments");
+
+    return { success: true, hidden: updated.hidden };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Report comment error:", error);
+    return { success: false, error: "Failed to report comment" };
+  }
+}
+
 /**
  * Get comment count for a news post
  */
@@ -0,0 +1,113 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { createAuditLog } from "@/lib/audit-log";
+import { confirmEmailVerification, sendVerificationEmail } from "@/lib/services/account-email.service";
+import { checkAccountEmailRateLimit } from "@/lib/security/rate-limit";
+import { env } from "@/lib/config/env";
+
+/**
+ * Email Verification Server Actions
+ * Confirming the account's email address from the emailed link, and asking
+ * for another link
+ */
+
+/**
+ * Whether the signed-in account has confirmed its address
+ */
+export async function getEmailVerificationStatus() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: currentUser.userId },
+      select: { email: true, isEmailVerified: true, accountType: true },
+    });
+
+    if (!user) {
+      return { success: false, error: "User not found" };
+    }
+
+    return {
+      success: true,
+      email: user.email,
+      isEmailVerified: user.isEmailVerified,
+      accountType: user.accountType,
+      required: env.REQUIRE_EMAIL_VERIFICATION,
+    };
+  } catch (error) {
+    console.error("Get email verification status error:", error);
+    return { success: false, error: "Failed to load verification status" };
+  }
+}
+
+/**
+ * Confirm an email address from a verification link
+ * Runs while the verify page renders, so it doesn't revalidate paths.
+ */
+export async function verifyEmail(token: string) {
+  try {
+    const result = await confirmEmailVerification(token);
+
+    if (result.status === "invalid") {
+      return { success: false, error: "This verification link is invalid or has expired." };
+    }
+
+    if (result.status === "verified" && result.userId) {
+      await createAuditLog(
+        {
+          action: "VERIFY_EMAIL",
+          resource: "User",
+          resourceId: result.userId,
+          description: `User ${result.email} verified their email address`,
+        },
+        result.userId
+      );
+    }
+
+    return { success: true, email: result.email, alreadyVerified: result.status === "already_verified" };
+  } catch (error) {
+    console.error("Verify email error:", error);
+    return { success: false, error: "Failed to verify email address" };
+  }
+}
+
+/**
+ * Email the signed-in account another verification link
+ */
+export async function resendVerificationEmail() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Please sign in to verify your email address" };
+    }
+
+    if ((await checkAccountEmailRateLimit(`user:${currentUser.userId}`)).limited) {
+      return { success: false, error: "Too many emails sent. Please try again later." };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: currentUser.userId },
+      select: { id: true, email: true, username: true, firstName: true, lastName: true, isEmailVerified: true },
+    });
+
+    if (!user) {
+      return { success: false, error: "User not found" };
+    }
+
+    if (user.isEmailVerified) {
+      return { success: false, error: "Your email address is already verified" };
+    }
+
+    await sendVerificationEmail(user);
+
+    return { success: true, email: user.email };
+  } catch (error) {
+    console.error("Resend verification email error:", error);
+    return { success: false, error: "Failed to send the verification email. Please try again later." };
+  }
+}
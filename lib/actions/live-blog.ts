@@ -0,0 +1,355 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { hasPermission } from "@/lib/auth/permissions";
+import { createAuditLog } from "@/lib/audit-log";
+import { publishNewsEvent, toNewsEventPayload } from "@/lib/services/news-events.service";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+/**
+ * Server Actions for Live Blog Entries
+ * Editors append timestamped updates to a live news post without re-saving the article
+ */
+
+const createEntrySchema = z.object({
+  newsId: z.string(),
+  title: z.string().trim().max(200, "Title must be under 200 characters").optional(),
+  content: z.string().min(1, "Content is required"),
+  isPinned: z.boolean().default(false),
+});
+
+const updateEntrySchema = z.object({
+  id: z.string(),
+  title: z.string().trim().max(200, "Title must be under 200 characters").optional(),
+  content: z.string().min(1, "Content is required").optional(),
+});
+
+const entryAuthorSelect = {
+  id: true,
+  username: true,
+  firstName: true,
+  lastName: true,
+  avatar: true,
+} as const;
+
+/**
+ * Check the current user may post live updates
+ */
+async function getLiveBlogEditor() {
+  const currentUser = await getCurrentUser();
+  if (!currentUser) {
+    return { user: null, error: "Unauthorized" };
+  }
+
+  const hasAccess = await hasPermission(currentUser.userId, "news.update");
+  if (!hasAccess) {
+    return { user: null, error: "You don't have permission to post live updates" };
+  }
+
+  return { user: currentUser, error: null };
+}
+
+/**
+ * Lexical editors serialize an empty document as a root with one empty paragraph
+ */
+function hasContent(content: string): boolean {
+  try {
+    const state = JSON.parse(content);
+    const children = state?.root?.children || [];
+    return children.some(
+      (node: { type?: string; children?: unknown[] }) =>
+        node.type !== "paragraph" || (node.children && node.children.length > 0)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get all entries of a live news post (for the dashboard composer)
+ */
+export async function getLiveBlogEntries(newsId: string) {
+  try {
+    const { error } = await getLiveBlogEditor();
+    if (error) {
+      return { success: false, error, entries: [] };
+    }
+
+    const entries = await prisma.liveBlogEntry.findMany({
+      where: { newsId },
+      include: { author: { select: entryAuthorSelect } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return { success: true, entries };
+  } catch (error) {
+    console.error("Get live blog entries error:", error);
+    return { success: false, error: "Failed to fetch live updates", entries: [] };
+  }
+}
+
+/**
+ * Post a new live update
+ */
+export async function createLiveBlogEntry(data: z.input<typeof createEntrySchema>) {
+  try {
+    const { user, error } = await getLiveBlogEditor();
+    if (!user) {
+      return { success: false, error };
+    }
+
+    const validated = createEntrySchema.parse(data);
+    if (!hasContent(validated.content)) {
+      return { success: false, error: "Content is required" };
+    }
+
+    const news = await prisma.news.findUnique({
+      where: { id: validated.newsId },
+      select: {
+        id: true,
+        slug: true,
+        title: true,
+        isBreaking: true,
+        isPublished: true,
+        isActive: true,
+        publishedAt: true,
+        isLiveBlog: true,
+        liveBlogEndedAt: true,
+      },
+    });
+
+    if (!news) {
+      return { success: false, error: "News not found" };
+    }
+    if (!news.isLiveBlog) {
+      return { success: false, error: "Live blog mode is not enabled for this post" };
+    }
+    if (news.liveBlogEndedAt) {
+      return { success: false, error: "Live coverage has ended. Resume it to post updates" };
+    }
+
+    const entry = await prisma.liveBlogEntry.create({
+      data: {
+        newsId: news.id,
+        authorId: user.userId,
+        title: validated.title || null,
+        content: validated.content,
+        isPinned: validated.isPinned,
+      },
+      include: { author: { select: entryAuthorSelect } },
+    });
+
+    await createAuditLog({
+      action: "CREATE_LIVE_BLOG_ENTRY",
+      resource: "News",
+      resourceId: news.id,
+      description: `User ${user.email} posted a live update on: ${news.title}`,
+      metadata: { entryId: entry.id },
+    });
+
+    if (news.isPublished && news.isActive) {
+      publishNewsEvent({
+        type: "live.entry",
+        news: toNewsEventPayload(news),
+        entry: { id: entry.id, title: entry.title, createdAt: entry.createdAt.toISOString() },
+      });
+    }
+
+    revalidatePath(`/news/${news.slug}`);
+
+    return { success: true, entry };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Create live blog entry error:", error);
+    return { success: false, error: "Failed to post live update" };
+  }
+}
+
+/**
+ * Edit a live update
+ */
+export async function updateLiveBlogEntry(data: z.input<typeof updateEntrySchema>) {
+  try {
+    const { user, error } = await getLiveBlogEditor();
+    if (!user) {
+      return { success: false, error };
+    }
+
+    const validated = updateEntrySchema.parse(data);
+    if (validated.content !== undefined && !hasContent(validated.content)) {
+      return { success: false, error: "Content is required" };
+    }
+
+    const existingEntry = await prisma.liveBlogEntry.findUnique({
+      where: { id: validated.id },
+      include: { news: { select: { id: true, slug: true, title: true } } },
+    });
+
+    if (!existingEntry) {
+      return { success: false, error: "Live update not found" };
+    }
+
+    const updateData: { title?: string | null; content?: string } = {};
+    if (validated.title !== undefined) updateData.title = validated.title || null;
+    if (validated.content !== undefined) updateData.content = validated.content;
+
+    const entry = await prisma.liveBlogEntry.update({
+      where: { id: validated.id },
+      data: updateData,
+      include: { author: { select: entryAuthorSelect } },
+    });
+
+    await createAuditLog({
+      action: "UPDATE_LIVE_BLOG_ENTRY",
+      resource: "News",
+      resourceId: existingEntry.news.id,
+      description: `User ${user.email} edited a live update on: ${existingEntry.news.title}`,
+      metadata: { entryId: entry.id },
+    });
+
+    revalidatePath(`/news/${existingEntry.news.slug}`);
+
+    return { success: true, entry };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Update live blog entry error:", error);
+    return { success: false, error: "Failed to update live update" };
+  }
+}
+
+/**
+ * Pin or unpin a live update
+ */
+export async function setLiveBlogEntryPinned(entryId: string, isPinned: boolean) {
+  try {
+    const { user, error } = await getLiveBlogEditor();
+    if (!user) {
+      return { success: false, error };
+    }
+
+    const existingEntry = await prisma.liveBlogEntry.findUnique({
+      where: { id: entryId },
+      include: { news: { select: { id: true, slug: true, title: true } } },
+    });
+
+    if (!existingEntry) {
+      return { success: false, error: "Live update not found" };
+    }
+
+    await prisma.liveBlogEntry.update({
+      where: { id: entryId },
+      data: { isPinned },
+    });
+
+    await createAuditLog({
+      action: isPinned ? "PIN_LIVE_BLOG_ENTRY" : "UNPIN_LIVE_BLOG_ENTRY",
+      resource: "News",
+      resourceId: existingEntry.news.id,
+      description: `User ${user.email} ${isPinned ? "pinned" : "unpinned"} a live update on: ${existingEntry.news.title}`,
+      metadata: { entryId },
+    });
+
+    revalidatePath(`/news/${existingEntry.news.slug}`);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Pin live blog entry error:", error);
+    return { success: false, error: "Failed to update live update" };
+  }
+}
+
+/**
+ * Delete a live update
+ */
+export async function deleteLiveBlogEntry(entryId: string) {
+  try {
+    const { user, error } = await getLiveBlogEditor();
+    if (!user) {
+      return { success: false, error };
+    }
+
+    const existingEntry = await prisma.liveBlogEntry.findUnique({
+      where: { id: entryId },
+      include: { news: { select: { id: true, slug: true, title: true } } },
+    });
+
+    if (!existingEntry) {
+      return { success: false, error: "Live update not found" };
+    }
+
+    await prisma.liveBlogEntry.delete({
+      where: { id: entryId },
+    });
+
+    await createAuditLog({
+      action: "DELETE_LIVE_BLOG_ENTRY",
+      resource: "News",
+      resourceId: existingEntry.news.id,
+      description: `User ${user.email} deleted a live update on: ${existingEntry.news.title}`,
+      metadata: { entryId, title: existingEntry.title },
+    });
+
+    revalidatePath(`/news/${existingEntry.news.slug}`);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Delete live blog entry error:", error);
+    return { success: false, error: "Failed to delete live update" };
+  }
+}
+
+/**
+ * End or resume live coverage of a news post
+ * Ended coverage stops reader polling and closes the LiveBlogPosting coverage window
+ */
+export async function setLiveBlogCoverageEnded(newsId: string, ended: boolean) {
+  try {
+    const { user, error } = await getLiveBlogEditor();
+    if (!user) {
+      return { success: false, error };
+    }
+
+    const news = await prisma.news.findUnique({
+      where: { id: newsId },
+      select: { id: true, slug: true, title: true, isLiveBlog: true, updatedAt: true },
+    });
+
+    if (!news) {
+      return { success: false, error: "News not found" };
+    }
+    if (!news.isLiveBlog) {
+      return { success: false, error: "Live blog mode is not enabled for this post" };
+    }
+
+    const updated = await prisma.news.update({
+      where: { id: newsId },
+      data: {
+        liveBlogEndedAt: ended ? new Date() : null,
+        // Not an article edit: keep updatedAt so an open edit form is not reset
+        updatedAt: news.updatedAt,
+      },
+      select: { liveBlogEndedAt: true },
+    });
+
+    await createAuditLog({
+      action: ended ? "END_LIVE_BLOG" : "RESUME_LIVE_BLOG",
+      resource: "News",
+      resourceId: news.id,
+      description: `User ${user.email} ${ended ? "ended" : "resumed"} live coverage of: ${news.title}`,
+    });
+
+    revalidatePath(`/news/${news.slug}`);
+    revalidatePath(`/dashboard/news/${news.id}/edit`);
+
+    return { success: true, liveBlogEndedAt: updated.liveBlogEndedAt };
+  } catch (error) {
+    console.error("Set live blog coverage error:", error);
+    return { success: false, error: "Failed to update live coverage" };
+  }
+}
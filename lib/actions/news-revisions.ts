@@ -0,0 +1,214 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { hasPermission } from "@/lib/auth/permissions";
+import { createAuditLog } from "@/lib/audit-log";
+import { snapshotNewsRevision } from "@/lib/services/news-revision.service";
+import { refreshNewsSearchIndex } from "@/lib/services/news-search.service";
+import { lexicalToPlainText } from "@/lib/utils/lexical-to-html";
+import { diffLines } from "@/lib/utils/text-diff";
+import { revalidatePath } from "next/cache";
+
+/**
+ * News Revision Server Actions
+ * Lists, compares and restores news post revisions
+ */
+
+/**
+ * Check that the current user may read (or restore) revisions of a news post
+ * Authors can access their own posts; others need news.read.all (read) or news.update (restore)
+ */
+async function authorizeRevisionAccess(newsId: string, mode: "read" | "restore") {
+  const currentUser = await getCurrentUser();
+  if (!currentUser) {
+    return { error: "Unauthorized" as const };
+  }
+
+  const news = await prisma.news.findUnique({
+    where: { id: newsId },
+    select: { id: true, title: true, slug: true, authorId: true },
+  });
+
+  if (!news) {
+    return { error: "News post not found" as const };
+  }
+
+  const isAuthor = news.authorId === currentUser.userId;
+  const permission = mode === "read" ? "news.read.all" : "news.update";
+  if (!isAuthor && !(await hasPermission(currentUser.userId, permission))) {
+    return { error: "You don't have permission to access this news post's revisions" as const };
+  }
+
+  return { currentUser, news };
+}
+
+/**
+ * Get all revisions of a news post (newest first, without content)
+ */
+export async function getNewsRevisions(newsId: string) {
+  try {
+    const access = await authorizeRevisionAccess(newsId, "read");
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+
+    const revisions = await prisma.newsRevision.findMany({
+      where: { newsId },
+      select: {
+        id: true,
+        version: true,
+        title: true,
+        reason: true,
+        createdAt: true,
+        createdBy: {
+          select: {
+            id: true,
+            username: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+      orderBy: { version: "desc" },
+    });
+
+    return { success: true, revisions };
+  } catch (error) {
+    console.error("Get news revisions error:", error);
+    return { success: false, error: "Failed to fetch revisions" };
+  }
+}
+
+/**
+ * Compare two revisions of the same news post
+ * Returns a line diff of the article body (as plain text) plus changed metadata fields
+ */
+export async function compareNewsRevisions(fromRevisionId: string, toRevisionId: string) {
+  try {
+    const [from, to] = await Promise.all([
+      prisma.newsRevision.findUnique({ where: { id: fromRevisionId } }),
+      prisma.newsRevision.findUnique({ where: { id: toRevisionId } }),
+    ]);
+
+    if (!from || !to || from.newsId !== to.newsId) {
+      return { success: false, error: "Revisions not found" };
+    }
+
+    const access = await authorizeRevisionAccess(from.newsId, "read");
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+
+    // Resolve category names for both revisions in one query
+    const menuIds = Array.from(new Set([...from.categoryIds, ...to.categoryIds]));
+    const menus = await prisma.menu.findMany({
+      where: { id: { in: menuIds } },
+      select: { id: true, name: true },
+    });
+    const menuName = (id: string) => menus.find((m) => m.id === id)?.name || id;
+    const categoryText = (ids: string[]) => ids.map(menuName).sort().join("\n");
+
+    const fields = [
+      { label: "Title", from: from.title, to: to.title },
+      { label: "Excerpt", from: from.excerpt || "", to: to.excerpt || "" },
+      { label: "Categories", from: categoryText(from.categoryIds), to: categoryText(to.categoryIds) },
+      { label: "Meta Title", from: from.metaTitle || "", to: to.metaTitle || "" },
+      { label: "Meta Description", from: from.metaDescription || "", to: to.metaDescription || "" },
+      { label: "Meta Keywords", from: from.metaKeywords || "", to: to.metaKeywords || "" },
+      { label: "OG Image", from: from.ogImage || "", to: to.ogImage || "" },
+    ]
+      .filter((field) => field.from !== field.to)
+      .map((field) => ({ label: field.label, diff: diffLines(field.from, field.to) }));
+
+    const body = diffLines(lexicalToPlainText(from.content), lexicalToPlainText(to.content));
+
+    return {
+      success: true,
+      comparison: {
+        from: { id: from.id, version: from.version, createdAt: from.createdAt },
+        to: { id: to.id, version: to.version, createdAt: to.createdAt },
+        fields,
+        body,
+      },
+    };
+  } catch (error) {
+    console.error("Compare news revisions error:", error);
+    return { success: false, error: "Failed to compare revisions" };
+  }
+}
+
+/**
+ * Restore a news post to the state captured in a revision
+ * The restore itself is saved as a new revision and audited
+ */
+export async function restoreNewsRevision(revisionId: string) {
+  try {
+    const revision = await prisma.newsRevision.findUnique({
+      where: { id: revisionId },
+    });
+
+    if (!revision) {
+      return { success: false, error: "Revision not found" };
+    }
+
+    const access = await authorizeRevisionAccess(revision.newsId, "restore");
+    if ("error" in access) {
+      return { success: false, error: access.error };
+    }
+    const { currentUser, news } = access;
+
+    // Only restore categories that still exist and are usable
+    const validCategories = await prisma.menu.findMany({
+      where: { id: { in: revision.categoryIds }, isPublic: true, isActive: true },
+      select: { id: true },
+    });
+
+    await prisma.$transaction([
+      prisma.news.update({
+        where: { id: news.id },
+        data: {
+          title: revision.title,
+          excerpt: revision.excerpt,
+          content: revision.content,
+          metaTitle: revision.metaTitle,
+          metaDescription: revision.metaDescription,
+          metaKeywords: revision.metaKeywords,
+          ogImage: revision.ogImage,
+        },
+      }),
+      ...(validCategories.length > 0
+        ? [
+            prisma.newsCategory.deleteMany({ where: { newsId: news.id } }),
+            prisma.newsCategory.createMany({
+              data: validCategories.map((c) => ({ newsId: news.id, menuId: c.id })),
+              skipDuplicates: true,
+            }),
+          ]
+        : []),
+    ]);
+
+    await snapshotNewsRevision(news.id, currentUser.userId, "restore");
+    await refreshNewsSearchIndex(news.id);
+
+    await createAuditLog({
+      action: "RESTORE_NEWS_REVISION",
+      resource: "News",
+      resourceId: news.id,
+      description: `User ${currentUser.email} restored news "${news.title}" to revision ${revision.version}`,
+      metadata: {
+        revisionId: revision.id,
+        version: revision.version,
+      },
+    });
+
+    revalidatePath("/dashboard/news");
+    revalidatePath(`/dashboard/news/${news.id}/edit`);
+    revalidatePath(`/news/${news.slug}`);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Restore news revision error:", error);
+    return { success: false, error: "Failed to restore revision" };
+  }
+}
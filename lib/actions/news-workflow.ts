@@ -0,0 +1,303 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { getUserPermissions, hasPermission, SUPERADMIN_ROLE } from "@/lib/auth/permissions";
+import { createAuditLog } from "@/lib/audit-log";
+import {
+  canPerformTransition,
+  NEWS_STATUSES,
+  NEWS_TRANSITIONS,
+  type NewsStatus,
+  type NewsWorkflowAction,
+} from "@/lib/workflow/news-workflow";
+import { publishNewsEvent, toNewsEventPayload } from "@/lib/services/news-events.service";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+/**
+ * News Editorial Workflow Server Actions
+ * Moves news posts through draft → review → approval → publication
+ */
+
+const transitionSchema = z.object({
+  newsId: z.string().min(1),
+  action: z.enum([
+    "submit",
+    "withdraw",
+    "request_changes",
+    "approve",
+    "publish",
+    "archive",
+    "restore",
+  ]),
+  note: z.string().max(2000, "Notes must be under 2000 characters").optional(),
+});
+
+const assignReviewerSchema = z.object({
+  newsId: z.string().min(1),
+  reviewerId: z.string().min(1),
+});
+
+/**
+ * Move a news post to a new workflow state
+ * Each transition is permission-checked and audited
+ */
+export async function transitionNewsStatus(data: z.infer<typeof transitionSchema>) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const validated = transitionSchema.parse(data);
+    const action = validated.action as NewsWorkflowAction;
+    const transition = NEWS_TRANSITIONS[action];
+    const note = validated.note?.trim();
+
+    const news = await prisma.news.findUnique({
+      where: { id: validated.newsId },
+      include: {
+        categories: { include: { menu: { select: { slug: true } } } },
+      },
+    });
+
+    if (!news) {
+      return { success: false, error: "News post not found" };
+    }
+
+    const isAuthor = news.authorId === currentUser.userId;
+    const permissions = await getUserPermissions(currentUser.userId);
+
+    // Only the author or staff who can edit any post may act on it
+    if (!isAuthor && !permissions.includes("news.update")) {
+      return { success: false, error: "You don't have permission to change this news post" };
+    }
+
+    if (!canPerformTransition(news.status, action, permissions, isAuthor)) {
+      return {
+        success: false,
+        error: `Cannot ${transition.label.toLowerCase()} a post that is ${news.status.replace("_", " ")}`,
+      };
+    }
+
+    if (transition.requiresNote && !note) {
+      return { success: false, error: "Please add notes for the author" };
+    }
+
+    const now = new Date();
+    const updateData: Record<string, unknown> = {
+      status: transition.to,
+    };
+
+    switch (transition.to) {
+      case "submitted":
+        updateData.submittedAt = now;
+        break;
+      case "changes_requested":
+      case "approved":
+        updateData.reviewedAt = now;
+        updateData.reviewNotes = note || null;
+        // The reviewer who acts on a post becomes its editor unless one was assigned
+        if (!news.editorId) updateData.editorId = currentUser.userId;
+        break;
+      case "published":
+        updateData.isPublished = true;
+        updateData.scheduledAt = null;
+        if (!news.publishedAt) updateData.publishedAt = now;
+        if (!news.editorId && !isAuthor) updateData.editorId = currentUser.userId;
+        break;
+      case "archived":
+        updateData.isPublished = false;
+        updateData.unpublishAt = null;
+        break;
+      case "draft":
+        updateData.isPublished = false;
+        break;
+    }
+
+    const updated = await prisma.news.update({
+      where: { id: news.id },
+      data: updateData,
+    });
+
+    await createAuditLog({
+      action: transition.auditAction,
+      resource: "News",
+      resourceId: news.id,
+      description: `User ${currentUser.email} moved news "${news.title}" from ${news.status} to ${transition.to}`,
+      metadata: {
+        from: news.status,
+        to: transition.to,
+        ...(note && { note }),
+      },
+    });
+
+    // Push to open browsers when the post goes live or comes down
+    if (updated.isActive && updated.isPublished && !news.isPublished) {
+      publishNewsEvent({ type: "news.published", news: toNewsEventPayload(updated) });
+    } else if (news.isActive && news.isPublished && !updated.isPublished) {
+      publishNewsEvent({ type: "news.unpublished", news: toNewsEventPayload(updated) });
+    }
+
+    revalidatePath("/dashboard/news");
+    if (transition.to === "published" || news.status === "published") {
+      revalidatePath("/");
+      revalidatePath(`/news/${news.slug}`);
+      news.categories.forEach((c) => revalidatePath(`/${c.menu.slug}`));
+    }
+
+    return { success: true, news: updated };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Transition news error:", error);
+    return { success: false, error: "Failed to update news status" };
+  }
+}
+
+/**
+ * Assign a reviewer to a news post
+ * The reviewer is stored as the post's editor
+ */
+export async function assignNewsReviewer(data: z.infer<typeof assignReviewerSchema>) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "news.approve");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to assign reviewers" };
+    }
+
+    const validated = assignReviewerSchema.parse(data);
+
+    const [news, reviewer] = await Promise.all([
+      prisma.news.findUnique({ where: { id: validated.newsId } }),
+      prisma.user.findUnique({ where: { id: validated.reviewerId } }),
+    ]);
+
+    if (!news) {
+      return { success: false, error: "News post not found" };
+    }
+
+    if (!reviewer || !reviewer.isActive) {
+      return { success: false, error: "Reviewer not found" };
+    }
+
+    const reviewerCanApprove = await hasPermission(reviewer.id, "news.approve");
+    if (!reviewerCanApprove) {
+      return { success: false, error: "Selected user cannot review news posts" };
+    }
+
+    await prisma.news.update({
+      where: { id: news.id },
+      data: { editorId: reviewer.id },
+    });
+
+    await createAuditLog({
+      action: "ASSIGN_NEWS_REVIEWER",
+      resource: "News",
+      resourceId: news.id,
+      description: `User ${currentUser.email} assigned ${reviewer.email} to review news: ${news.title}`,
+      metadata: {
+        previousEditorId: news.editorId,
+        editorId: reviewer.id,
+      },
+    });
+
+    revalidatePath("/dashboard/news");
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Assign news reviewer error:", error);
+    return { success: false, error: "Failed to assign reviewer" };
+  }
+}
+
+/**
+ * Get users who can review news posts (for reviewer assignment)
+ */
+export async function getNewsReviewers() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized", reviewers: [] };
+    }
+
+    const reviewers = await prisma.user.findMany({
+      where: {
+        isActive: true,
+        roles: {
+          some: {
+            role: {
+              isActive: true,
+              OR: [
+                { slug: SUPERADMIN_ROLE },
+                {
+                  permissions: {
+                    some: {
+                      permission: { slug: "news.approve", isActive: true },
+                    },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      },
+      select: {
+        id: true,
+        username: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+      },
+      orderBy: { username: "asc" },
+    });
+
+    return { success: true, reviewers };
+  } catch (error) {
+    console.error("Get news reviewers error:", error);
+    return { success: false, error: "Failed to fetch reviewers", reviewers: [] };
+  }
+}
+
+/**
+ * Count news posts per workflow state (for the dashboard queue tabs)
+ * Scoped to the user's own posts unless they have news.read.all
+ */
+export async function getNewsStatusCounts() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasReadAllPermission = await hasPermission(currentUser.userId, "news.read.all");
+
+    const groups = await prisma.news.groupBy({
+      by: ["status"],
+      where: hasReadAllPermission ? {} : { authorId: currentUser.userId },
+      _count: { _all: true },
+    });
+
+    const counts = Object.fromEntries(NEWS_STATUSES.map((s) => [s, 0])) as Record<NewsStatus, number>;
+    for (const group of groups) {
+      if (group.status in counts) {
+        counts[group.status as NewsStatus] = group._count._all;
+      }
+    }
+
+    return { success: true, counts };
+  } catch (error) {
+    console.error("Get news status counts error:", error);
+    return { success: false, error: "Failed to fetch news status counts" };
+  }
+}
@@ -4,6 +4,12 @@ import { prisma } from "@/lib/prisma";
 import { getCurrentUser } from "@/lib/auth/jwt-server";
 import { hasPermission } from "@/lib/auth/permissions";
 import { createAuditLog } from "@/lib/audit-log";
+import { ensureBaselineRevision, snapshotNewsRevision } from "@/lib/services/news-revision.service";
+import { refreshNewsSearchIndex } from "@/lib/services/news-search.service";
+import { setNewsTags } from "@/lib/services/tag.service";
+import { publishNewsEvent, toNewsEventPayload } from "@/lib/services/news-events.service";
+import { MAX_TAG_LENGTH, MAX_TAGS_PER_NEWS } from "@/lib/utils/tags";
+import { isBotUserAgent } from "@/lib/security/traffic-quality";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
 
@@ -22,6 +28,15 @@ const urlOrEmpty = z.preprocess(
   ])
 ).optional();
 
+// ISO datetime or empty string (empty clears the schedule)
+const dateTimeOrEmpty = z.union([z.literal(""), z.string().datetime()]).optional();
+
+// Tag names; unknown tags are created on save
+const tagNames = z
+  .array(z.string().max(MAX_TAG_LENGTH, `Tags must be under ${MAX_TAG_LENGTH} characters`))
+  .max(MAX_TAGS_PER_NEWS, `A news post can have at most ${MAX_TAGS_PER_NEWS} tags`)
+  .optional();
+
 const createNewsSchema = z.object({
   title: z.string().min(1, "Title is required"),
   slug: z.string().min(1, "Slug is required").optional(),
@@ -32,11 +47,14 @@ const createNewsSchema = z.object({
   isPublished: z.boolean().default(false),
   isBreaking: z.boolean().default(false),
   isFeatured: z.boolean().default(false),
+  isLiveBlog: z.boolean().default(false),
   metaTitle: z.string().optional(),
   metaDescription: z.string().optional(),
   metaKeywords: z.string().optional(),
   ogImage: urlOrEmpty,
-  scheduledAt: z.string().datetime().optional(),
+  scheduledAt: dateTimeOrEmpty,
+  unpublishAt: dateTimeOrEmpty,
+  tags: tagNames,
 });
 
 const updateNewsSchema = z.object({
@@ -51,11 +69,14 @@ const updateNewsSchema = z.object({
   isActive: z.boolean().optional(),
   isBreaking: z.boolean().optional(),
   isFeatured: z.boolean().optional(),
+  isLiveBlog: z.boolean().optional(),
   metaTitle: z.string().optional(),
   metaDescription: z.string().optional(),
   metaKeywords: z.string().optional(),
   ogImage: urlOrEmpty,
-  scheduledAt: z.string().datetime().optional(),
+  scheduledAt: dateTimeOrEmpty,
+  unpublishAt: dateTimeOrEmpty,
+  tags: tagNames,
 });
 
 /**
@@ -117,6 +138,28 @@ export async function createNews(data: z.infer<typeof createNewsSchema>) {
       return { success: false, error: "One or more categories are invalid" };
     }
 
+    const scheduledAt = validated.scheduledAt ? new Date(validated.scheduledAt) : null;
+    const unpublishAt = validated.unpublishAt ? new Date(validated.unpublishAt) : null;
+
+    if (scheduledAt && unpublishAt && unpublishAt <= scheduledAt) {
+      return { success: false, error: "Unpublish time must be after the scheduled publish time" };
+    }
+
+    // Publishing (now or scheduled) bypasses editorial review, so it needs news.publish
+    if (validated.isPublished || scheduledAt) {
+      const canPublish = await hasPermission(currentUser.userId, "news.publish");
+      if (!canPublish) {
+        return {
+          success: false,
+          error: "You don't have permission to publish news posts. Save it as a draft and submit it for review.",
+        };
+      }
+    }
+
+    // A post scheduled for the future stays unpublished (approved) until the scheduler publishes it
+    const isPublished = validated.isPublished && !(scheduledAt && scheduledAt > new Date());
+    const status = isPublished ? "published" : scheduledAt ? "approved" : "draft";
+
     // Create news post
     const news = await prisma.news.create({
       data: {
@@ -125,16 +168,19 @@ export async function createNews(data: z.infer<typeof createNewsSchema>) {
         content: validated.content,
         excerpt: validated.excerpt,
         coverImage: validated.coverImage || null,
-        isPublished: validated.isPublished,
+        isPublished,
+        status,
         isBreaking: validated.isBreaking,
         isFeatured: validated.isFeatured,
+        isLiveBlog: validated.isLiveBlog,
         metaTitle: validated.metaTitle,
         metaDescription: validated.metaDescription,
         metaKeywords: validated.metaKeywords,
         ogImage: validated.ogImage || null,
         authorId: currentUser.userId,
-        publishedAt: validated.isPublished ? new Date() : null,
-        scheduledAt: validated.scheduledAt ? new Date(validated.scheduledAt) : null,
+        publishedAt: isPublished ? new Date() : null,
+        scheduledAt: isPublished ? null : scheduledAt,
+        unpublishAt,
         categories: {
           create: validated.categoryIds.map((menuId) => ({
             menuId,
@@ -159,6 +205,13 @@ export async function createNews(data: z.infer<typeof createNewsSchema>) {
       },
     });
 
+    if (validated.tags) {
+      await setNewsTags(news.id, validated.tags);
+    }
+
+    await snapshotNewsRevision(news.id, currentUser.userId, "create");
+    await refreshNewsSearchIndex(news.id);
+
     await createAuditLog({
       action: "CREATE_NEWS",
       resource: "News",
@@ -166,6 +219,10 @@ export async function createNews(data: z.infer<typeof createNewsSchema>) {
       description: `User ${currentUser.email} created news: ${news.title}`,
     });
 
+    if (news.isPublished && news.isActive) {
+      publishNewsEvent({ type: "news.published", news: toNewsEventPayload(news) });
+    }
+
     revalidatePath("/dashboard/news");
     revalidatePath("/news");
 
@@ -258,6 +315,13 @@ export async function updateNews(data: z.infer<typeof updateNewsSchema>) {
     if (validated.isActive !== undefined) updateData.isActive = validated.isActive;
     if (validated.isBreaking !== undefined) updateData.isBreaking = validated.isBreaking;
     if (validated.isFeatured !== undefined) updateData.isFeatured = validated.isFeatured;
+    if (validated.isLiveBlog !== undefined) {
+      updateData.isLiveBlog = validated.isLiveBlog;
+      // Switching live mode back on reopens coverage
+      if (validated.isLiveBlog && !existingNews.isLiveBlog) {
+        updateData.liveBlogEndedAt = null;
+      }
+    }
     if (validated.metaTitle !== undefined) updateData.metaTitle = validated.metaTitle;
     if (validated.metaDescription !== undefined) updateData.metaDescription = validated.metaDescription;
     if (validated.metaKeywords !== undefined) updateData.metaKeywords = validated.metaKeywords;
@@ -267,12 +331,58 @@ export async function updateNews(data: z.infer<typeof updateNewsSchema>) {
     if (validated.scheduledAt !== undefined) {
       updateData.scheduledAt = validated.scheduledAt ? new Date(validated.scheduledAt) : null;
     }
+    if (validated.unpublishAt !== undefined) {
+      updateData.unpublishAt = validated.unpublishAt ? new Date(validated.unpublishAt) : null;
+    }
+
+    const effectiveScheduledAt =
+      updateData.scheduledAt !== undefined ? updateData.scheduledAt : existingNews.scheduledAt;
+    const effectiveUnpublishAt =
+      updateData.unpublishAt !== undefined ? updateData.unpublishAt : existingNews.unpublishAt;
+
+    if (effectiveScheduledAt && effectiveUnpublishAt && effectiveUnpublishAt <= effectiveScheduledAt) {
+      return { success: false, error: "Unpublish time must be after the scheduled publish time" };
+    }
+
+    // Changing publication state or the publish schedule bypasses review, so it needs news.publish
+    const changesPublication =
+      (updateData.isPublished !== undefined && updateData.isPublished !== existingNews.isPublished) ||
+      (!!updateData.scheduledAt &&
+        updateData.scheduledAt.getTime() !== existingNews.scheduledAt?.getTime());
+    if (changesPublication) {
+      const canPublish = await hasPermission(currentUser.userId, "news.publish");
+      if (!canPublish) {
+        return {
+          success: false,
+          error: "You don't have permission to publish news posts. Submit it for review instead.",
+        };
+      }
+    }
+
+    // A post scheduled for the future stays unpublished (approved) until the scheduler publishes it
+    if (effectiveScheduledAt && effectiveScheduledAt > new Date() && !existingNews.isPublished) {
+      updateData.isPublished = false;
+      updateData.status = "approved";
+      delete updateData.publishedAt;
+    } else if (updateData.isPublished) {
+      updateData.scheduledAt = null;
+      updateData.status = "published";
+    } else if (updateData.isPublished === false && existingNews.isPublished) {
+      updateData.status = "archived";
+    } else if (existingNews.status === "approved" && !existingNews.scheduledAt) {
+      // Edits by someone who cannot approve send an approved post back to review
+      const canApprove = await hasPermission(currentUser.userId, "news.approve");
+      if (!canApprove) updateData.status = "submitted";
+    }
 
     // If user has update permission (editor/admin), mark as edited
     if (hasUpdatePermission && !isAuthor) {
       updateData.editorId = currentUser.userId;
     }
 
+    // Keep the pre-edit copy of posts saved before revisions existed
+    await ensureBaselineRevision(validated.id);
+
     const news = await prisma.news.update({
       where: { id: validated.id },
       data: updateData,
@@ -320,13 +430,37 @@ export async function updateNews(data: z.infer<typeof updateNewsSchema>) {
       });
     }
 
+    // Update tags if provided
+    if (validated.tags) {
+      await setNewsTags(news.id, validated.tags);
+    }
+
+    await snapshotNewsRevision(news.id, currentUser.userId, "update");
+    await refreshNewsSearchIndex(news.id);
+
     await createAuditLog({
       action: "UPDATE_NEWS",
       resource: "News",
       resourceId: news.id,
       description: `User ${currentUser.email} updated news: ${news.title}`,
+      ...(updateData.status &&
+        updateData.status !== existingNews.status && {
+          metadata: { from: existingNews.status, to: updateData.status },
+        }),
     });
 
+    // Push to open browsers when the post goes live, comes down or turns breaking
+    if (news.isPublished && news.isActive) {
+      const wasLive = existingNews.isPublished && existingNews.isActive;
+      if (!wasLive) {
+        publishNewsEvent({ type: "news.published", news: toNewsEventPayload(news) });
+      } else if (news.isBreaking && !existingNews.isBreaking) {
+        publishNewsEvent({ type: "news.breaking", news: toNewsEventPayload(news) });
+      }
+    } else if (existingNews.isPublished && existingNews.isActive) {
+      publishNewsEvent({ type: "news.unpublished", news: toNewsEventPayload(news) });
+    }
+
     revalidatePath("/dashboard/news");
     revalidatePath(`/news/${news.slug}`);
     revalidatePath("/news");
@@ -406,6 +540,7 @@ export async function getUserNews(
     isPublished?: boolean;
     isActive?: boolean;
     categoryId?: string;
+    status?: string;
   }
 ) {
   try {
@@ -440,6 +575,10 @@ export async function getUserNews(
       where.isActive = filters.isActive;
     }
 
+    if (filters?.status) {
+      where.status = filters.status;
+    }
+
     if (filters?.categoryId) {
       where.categories = {
         some: {
@@ -535,6 +674,11 @@ export async function getNewsById(newsId: string) {
             menu: true,
           },
         },
+        tags: {
+          include: {
+            tag: true,
+          },
+        },
       },
     });
 
@@ -579,6 +723,15 @@ export async function getNewsBySlug(slug: string) {
             email: true,
             firstName: true,
             lastName: true,
+            avatar: true,
+            authorSlug: true,
+            designation: true,
+            bio: true,
+            websiteUrl: true,
+            twitterUrl: true,
+            facebookUrl: true,
+            linkedinUrl: true,
+            instagramUrl: true,
           },
         },
         editor: {
@@ -595,6 +748,12 @@ export async function getNewsBySlug(slug: string) {
             menu: true,
           },
         },
+        tags: {
+          include: {
+            tag: true,
+          },
+          orderBy: { createdAt: "asc" },
+        },
         _count: {
           select: {
             comments: {
@@ -658,6 +817,7 @@ export async function getRelatedNews(currentSlug: string, categoryIds: string[]
             username: true,
             firstName: true,
             lastName: true,
+            authorSlug: true,
           },
         },
         categories: {
@@ -680,9 +840,15 @@ export async function getRelatedNews(currentSlug: string, categoryIds: string[]
 
 /**
  * Track news view (public API - no auth required)
+ * Callers should run the traffic-quality checks first (see /api/news/view)
  */
 export async function trackNewsView(newsId: string, ipAddress: string, userAgent?: string) {
   try {
+    // Crawlers never count, even when called directly
+    if (isBotUserAgent(userAgent)) {
+      return { success: false, error: "Filtered" };
+    }
+
     // Check if news exists
     const news = await prisma.news.findUnique({
       where: { id: newsId },
@@ -0,0 +1,153 @@
+"use server";
+
+import bcrypt from "bcryptjs";
+import { prisma } from "@/lib/prisma";
+import { createAuditLog } from "@/lib/audit-log";
+import { revokeUserSessions } from "@/lib/services/session.service";
+import { sendPasswordResetEmail, verifyPasswordResetToken } from "@/lib/services/account-email.service";
+import { checkAccountEmailRateLimit } from "@/lib/security/rate-limit";
+import { emailSchema } from "@/lib/security/validation";
+import { headers } from "next/headers";
+import { z } from "zod";
+
+/**
+ * Password Reset Server Actions
+ * "Forgot password" for signed-out users: a link is emailed, and following
+ * it lets the user choose a new password without the old one
+ */
+
+const requestResetSchema = z.object({
+  email: z.string().email("Invalid email address").max(100, "Email must be less than 100 characters"),
+});
+
+const resetPasswordSchema = z
+  .object({
+    token: z.string().min(1, "Reset link is invalid"),
+    password: z
+      .string()
+      .min(8, "Password must be at least 8 characters")
+      .max(100, "Password must be less than 100 characters")
+      .regex(/(?=.*[a-z])/, "Password must contain at least one lowercase letter")
+      .regex(/(?=.*[A-Z])/, "Password must contain at least one uppercase letter")
+      .regex(/(?=.*\d)/, "Password must contain at least one number"),
+    confirmPassword: z.string().min(1, "Please confirm your password"),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
+async function getRequestContext() {
+  const headersList = await headers();
+  return {
+    ipAddress: headersList.get("x-forwarded-for")?.split(",")[0]?.trim() || headersList.get("x-real-ip") || "unknown",
+    userAgent: headersList.get("user-agent") || "unknown",
+  };
+}
+
+/**
+ * Email a reset link
+ * The reply is the same whether or not the address has an account.
+ */
+export async function requestPasswordReset(data: z.infer<typeof requestResetSchema>) {
+  try {
+    const validated = requestResetSchema.parse(data);
+    const email = emailSchema.parse(validated.email);
+    const context = await getRequestContext();
+
+    if (
+      (await checkAccountEmailRateLimit(`ip:${context.ipAddress}`)).limited ||
+      (await checkAccountEmailRateLimit(`email:${email}`)).limited
+    ) {
+      return { success: false, error: "Too many reset requests. Please try again later." };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        firstName: true,
+        lastName: true,
+        password: true,
+        isActive: true,
+      },
+    });
+
+    // Social accounts have no password to reset
+    if (user?.isActive && user.password) {
+      await sendPasswordResetEmail(user);
+
+      await createAuditLog(
+        {
+          action: "PASSWORD_RESET_REQUEST",
+          resource: "User",
+          resourceId: user.id,
+          description: `Password reset link sent to ${user.email}`,
+          ...context,
+        },
+        user.id
+      );
+    }
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Request password reset error:", error);
+    return { success: false, error: "Failed to send the reset link. Please try again later." };
+  }
+}
+
+/**
+ * Set a new password from a reset link
+ * Signs out every session, and confirms the email address since the link
+ * could only be read from its inbox.
+ */
+export async function resetPassword(data: z.infer<typeof resetPasswordSchema>) {
+  try {
+    const validated = resetPasswordSchema.parse(data);
+
+    const user = await verifyPasswordResetToken(validated.token);
+    if (!user) {
+      return { success: false, error: "This reset link is invalid or has expired. Please request a new one." };
+    }
+
+    const hashedPassword = await bcrypt.hash(validated.password, 12);
+    await prisma.user.update({
+      where: { id: user.id },
+      // Proving control of the inbox also lifts a sign-in lockout
+      data: {
+        password: hashedPassword,
+        isEmailVerified: true,
+        failedLoginAttempts: 0,
+        lastFailedLoginAt: null,
+        lockedUntil: null,
+      },
+    });
+
+    const sessionsRevoked = await revokeUserSessions(user.id, "password_reset");
+
+    await createAuditLog(
+      {
+        action: "PASSWORD_RESET",
+        resource: "User",
+        resourceId: user.id,
+        description: `User ${user.email} reset their password`,
+        metadata: { sessionsRevoked },
+        ...(await getRequestContext()),
+      },
+      user.id
+    );
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Reset password error:", error);
+    return { success: false, error: "Failed to reset password" };
+  }
+}
@@ -4,6 +4,8 @@ import bcrypt from "bcryptjs";
 import { prisma } from "@/lib/prisma";
 import { getCurrentUser } from "@/lib/auth/jwt-server";
 import { createAuditLog } from "@/lib/audit-log";
+import { revokeUserSessions } from "@/lib/services/session.service";
+import { trySendVerificationEmail } from "@/lib/services/account-email.service";
 import { emailSchema, usernameSchema } from "@/lib/security/validation";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
@@ -20,6 +22,33 @@ const updateProfileSchema = z.object({
   lastName: z.string().optional(),
 });
 
+const optionalUrl = z
+  .string()
+  .trim()
+  .url("Please enter a valid URL")
+  .startsWith("http", "URL must start with http:// or https://")
+  .optional()
+  .or(z.literal(""));
+
+const updateAuthorProfileSchema = z.object({
+  authorSlug: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Profile URL can only contain lowercase letters, numbers and hyphens")
+    .min(3, "Profile URL must be at least 3 characters")
+    .max(50, "Profile URL must be less than 50 characters")
+    .optional()
+    .or(z.literal("")),
+  designation: z.string().trim().max(100, "Designation must be less than 100 characters").optional(),
+  bio: z.string().trim().max(1000, "Bio must be less than 1000 characters").optional(),
+  websiteUrl: optionalUrl,
+  twitterUrl: optionalUrl,
+  facebookUrl: optionalUrl,
+  linkedinUrl: optionalUrl,
+  instagramUrl: optionalUrl,
+});
+
 const changePasswordSchema = z.object({
   currentPassword: z.string().min(1, "Current password is required"),
   newPassword: z.string().min(8, "New password must be at least 8 characters"),
@@ -59,13 +88,18 @@ export async function updateProfile(data: z.infer<typeof updateProfileSchema>) {
         return { success: false, error: "Email already exists" };
       }
       updateData.email = email;
+      // The new address has to be confirmed again
+      updateData.isEmailVerified = false;
     }
 
     // Check username uniqueness if changing
     if (validated.username && validated.username !== user.username) {
       const username = usernameSchema.parse(validated.username);
-      const usernameExists = await prisma.user.findUnique({
-        where: { username },
+      const usernameExists = await prisma.user.findFirst({
+        where: {
+          id: { not: user.id },
+          OR: [{ username }, { authorSlug: username }],
+        },
       });
       if (usernameExists) {
         return { success: false, error: "Username already exists" };
@@ -82,6 +116,10 @@ export async function updateProfile(data: z.infer<typeof updateProfileSchema>) {
       data: updateData,
     });
 
+    if (updateData.email) {
+      await trySendVerificationEmail(updatedUser);
+    }
+
     await createAuditLog({
       action: "UPDATE_PROFILE",
       resource: "User",
@@ -110,8 +148,83 @@ export async function updateProfile(data: z.infer<typeof updateProfileSchema>) {
   }
 }
 
+/**
+ * Update the public author profile shown on /author/[username] and article pages
+ */
+export async function updateAuthorProfile(data: z.infer<typeof updateAuthorProfileSchema>) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const validated = updateAuthorProfileSchema.parse(data);
+
+    const user = await prisma.user.findUnique({
+      where: { id: currentUser.userId },
+    });
+
+    if (!user) {
+      return { success: false, error: "User not found" };
+    }
+
+    const authorSlug = validated.authorSlug || null;
+
+    // The slug shares the /author/ namespace with usernames, so it must not
+    // collide with another user's slug or username
+    if (authorSlug && authorSlug !== user.authorSlug) {
+      const slugTaken = await prisma.user.findFirst({
+        where: {
+          id: { not: user.id },
+          OR: [{ authorSlug }, { username: authorSlug }],
+        },
+        select: { id: true },
+      });
+      if (slugTaken) {
+        return { success: false, error: "Profile URL is already taken" };
+      }
+    }
+
+    const updatedUser = await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        authorSlug,
+        designation: validated.designation || null,
+        bio: validated.bio || null,
+        websiteUrl: validated.websiteUrl || null,
+        twitterUrl: validated.twitterUrl || null,
+        facebookUrl: validated.facebookUrl || null,
+        linkedinUrl: validated.linkedinUrl || null,
+        instagramUrl: validated.instagramUrl || null,
+      },
+    });
+
+    await createAuditLog({
+      action: "UPDATE_AUTHOR_PROFILE",
+      resource: "User",
+      resourceId: updatedUser.id,
+      description: `User ${updatedUser.email} updated their author profile`,
+    });
+
+    revalidatePath("/dashboard/profile");
+    revalidatePath(`/author/${user.authorSlug || user.username}`);
+    if (authorSlug) {
+      revalidatePath(`/author/${authorSlug}`);
+    }
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Update author profile error:", error);
+    return { success: false, error: "Failed to update author profile" };
+  }
+}
+
 /**
  * Change user password
+ * Signs out every other device; this one stays signed in
  */
 export async function changePassword(data: z.infer<typeof changePasswordSchema>) {
   try {
@@ -151,11 +264,14 @@ export async function changePassword(data: z.infer<typeof changePasswordSchema>)
       data: { password: hashedPassword },
     });
 
+    const sessionsRevoked = await revokeUserSessions(user.id, "password_change", currentUser.jti);
+
     await createAuditLog({
       action: "CHANGE_PASSWORD",
       resource: "User",
       resourceId: user.id,
       description: `User ${user.email} changed their password`,
+      metadata: { sessionsRevoked },
     });
 
     revalidatePath("/dashboard/profile");
@@ -204,6 +320,14 @@ export async function getProfile() {
         firstName: user.firstName,
         lastName: user.lastName,
         avatar: user.avatar,
+        authorSlug: user.authorSlug,
+        designation: user.designation,
+        bio: user.bio,
+        websiteUrl: user.websiteUrl,
+        twitterUrl: user.twitterUrl,
+        facebookUrl: user.facebookUrl,
+        linkedinUrl: user.linkedinUrl,
+        instagramUrl: user.instagramUrl,
         isActive: user.isActive,
         roles: user.roles.map((ur: any) => ({
           id: ur.role.id,
@@ -0,0 +1,434 @@
+"use server";
+
+import bcrypt from "bcryptjs";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { createAuditLog } from "@/lib/audit-log";
+import { sendAccountExistsEmail, trySendVerificationEmail } from "@/lib/services/account-email.service";
+import { checkAccountEmailRateLimit, checkRegistrationRateLimit } from "@/lib/security/rate-limit";
+import { emailSchema } from "@/lib/security/validation";
+import { getAuthorDisplayName } from "@/lib/utils/author";
+import { NEWS_REACTIONS, toReactionCounts } from "@/lib/utils/reactions";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { z } from "zod";
+
+/**
+ * Reader Account Server Actions
+ * Readers are site accounts without dashboard access. They comment under a
+ * verified name, react to articles and like comments once each, bookmark
+ * articles and keep a reading history.
+ */
+
+const registerReaderSchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters").max(60, "Name must be less than 60 characters"),
+  email: z.string().email("Invalid email address").max(100, "Email must be less than 100 characters"),
+  password: z
+    .string()
+    .min(8, "Password must be at least 8 characters")
+    .max(100, "Password must be less than 100 characters")
+    .regex(/(?=.*[a-z])/, "Password must contain at least one lowercase letter")
+    .regex(/(?=.*[A-Z])/, "Password must contain at least one uppercase letter")
+    .regex(/(?=.*\d)/, "Password must contain at least one number"),
+});
+
+const reactionSchema = z.object({
+  newsId: z.string().min(1, "News ID is required"),
+  type: z.enum(NEWS_REACTIONS, { errorMap: () => ({ message: "Unknown reaction" }) }),
+});
+
+// Article fields shown in bookmark and history lists
+const articleSelect = {
+  id: true,
+  title: true,
+  slug: true,
+  excerpt: true,
+  coverImage: true,
+  publishedAt: true,
+} as const;
+
+/**
+ * Pick a free username from the email address (readers never choose one)
+ */
+async function generateReaderUsername(email: string): Promise<string> {
+  const base = email.split("@")[0].toLowerCase().replace(/[^a-z0-9_]/g, "").slice(0, 20) || "reader";
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const username = attempt === 0 ? base : `${base}_${Math.floor(1000 + Math.random() * 9000)}`;
+    const existing = await prisma.user.findUnique({ where: { username }, select: { id: true } });
+    if (!existing && username.length >= 3) {
+      return username;
+    }
+  }
+
+  return `${base}_${Date.now().toString(36)}`;
+}
+
+/**
+ * Create a reader account and email a link to confirm it
+ * The reply is the same whether or not the address already has an account;
+ * its owner is emailed instead, so sign-up can't be used to find accounts.
+ */
+export async function registerReader(data: z.infer<typeof registerReaderSchema>) {
+  try {
+    const validated = registerReaderSchema.parse(data);
+    const email = emailSchema.parse(validated.email);
+
+    const headersList = await headers();
+    const ipAddress = headersList.get("x-forwarded-for")?.split(",")[0]?.trim() || headersList.get("x-real-ip") || "unknown";
+    const userAgent = headersList.get("user-agent") || "unknown";
+
+    if (
+      (await checkRegistrationRateLimit(ipAddress)).limited ||
+      (await checkAccountEmailRateLimit(`email:${email}`)).limited
+    ) {
+      return { success: false, error: "Too many sign-up attempts. Please try again later." };
+    }
+
+    // Hash first so a taken address doesn't answer noticeably faster
+    const hashedPassword = await bcrypt.hash(validated.password, 12);
+
+    const existing = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, email: true, username: true, firstName: true, lastName: true, isActive: true },
+    });
+    if (existing) {
+      if (existing.isActive) {
+        await sendAccountExistsEmail(existing).catch((error) => {
+          console.error("Send account exists email error:", error);
+        });
+      }
+      return { success: true, email };
+    }
+
+    const [firstName, ...rest] = validated.name.split(/\s+/);
+    const username = await generateReaderUsername(email);
+    const readerRole = await prisma.role.findUnique({ where: { slug: "reader" }, select: { id: true } });
+
+    const user = await prisma.user.create({
+      data: {
+        email,
+        username,
+        password: hashedPassword,
+        firstName,
+        lastName: rest.join(" ") || null,
+        provider: "credentials",
+        accountType: "reader",
+        roles: readerRole ? { create: { roleId: readerRole.id } } : undefined,
+      },
+      select: { id: true, email: true, username: true, firstName: true, lastName: true },
+    });
+
+    await trySendVerificationEmail(user);
+
+    await createAuditLog(
+      {
+        action: "REGISTER_READER",
+        resource: "User",
+        resourceId: user.id,
+        description: `Reader ${user.email} registered`,
+        ipAddress,
+        userAgent,
+      },
+      user.id
+    );
+
+    return { success: true, email };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Register reader error:", error);
+    return { success: false, error: "Registration failed. Please try again later." };
+  }
+}
+
+/**
+ * Get the signed-in account's profile and library counts
+ */
+export async function getReaderAccount() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: currentUser.userId },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        firstName: true,
+        lastName: true,
+        accountType: true,
+        isEmailVerified: true,
+        createdAt: true,
+        _count: {
+          select: {
+            bookmarks: true,
+            readingHistory: true,
+            newsReactions: true,
+            comments: true,
+          },
+        },
+      },
+    });
+
+    if (!user) {
+      return { success: false, error: "Account not found" };
+    }
+
+    return {
+      success: true,
+      account: {
+        ...user,
+        name: getAuthorDisplayName(user),
+      },
+    };
+  } catch (error) {
+    console.error("Get reader account error:", error);
+    return { success: false, error: "Failed to load account" };
+  }
+}
+
+/**
+ * Reaction counts, and the signed-in account's reaction and bookmark on an article
+ * Fetched from the browser because article pages are cached
+ */
+export async function getArticleReaderState(newsId: string) {
+  try {
+    const currentUser = await getCurrentUser();
+
+    const [news, reactions, reaction, bookmark] = await Promise.all([
+      prisma.news.findUnique({ where: { id: newsId }, select: { id: true } }),
+      prisma.newsReaction.groupBy({ by: ["type"], where: { newsId }, _count: { _all: true } }),
+      currentUser
+        ? prisma.newsReaction.findUnique({
+            where: { newsId_userId: { newsId, userId: currentUser.userId } },
+            select: { type: true },
+          })
+        : null,
+      currentUser
+        ? prisma.bookmark.findUnique({ where: { newsId_userId: { newsId, userId: currentUser.userId } } })
+        : null,
+    ]);
+
+    if (!news) {
+      return { success: false, error: "News post not found" };
+    }
+
+    return {
+      success: true,
+      isSignedIn: !!currentUser,
+      reactions: toReactionCounts(reactions.map((row) => ({ type: row.type, count: row._count._all }))),
+      reaction: reaction?.type ?? null,
+      bookmarked: !!bookmark,
+    };
+  } catch (error) {
+    console.error("Get article reader state error:", error);
+    return { success: false, error: "Failed to load article state" };
+  }
+}
+
+/**
+ * React to an article, switch to another reaction, or take the reaction back
+ * by choosing the same one again. Each account keeps one reaction per article;
+ * the article's likes counter follows the "like" reactions.
+ */
+export async function reactToNews(data: z.infer<typeof reactionSchema>) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Please sign in to react to articles" };
+    }
+
+    const { newsId, type } = reactionSchema.parse(data);
+
+    const news = await prisma.news.findUnique({ where: { id: newsId }, select: { isPublished: true } });
+    if (!news?.isPublished) {
+      return { success: false, error: "News post not found" };
+    }
+
+    const reaction = await prisma.$transaction(async (tx) => {
+      const existing = await tx.newsReaction.findUnique({
+        where: { newsId_userId: { newsId, userId: currentUser.userId } },
+      });
+
+      let next: string | null = type;
+      if (existing?.type === type) {
+        await tx.newsReaction.delete({ where: { id: existing.id } });
+        next = null;
+      } else if (existing) {
+        await tx.newsReaction.update({ where: { id: existing.id }, data: { type } });
+      } else {
+        await tx.newsReaction.create({ data: { newsId, userId: currentUser.userId, type } });
+      }
+
+      const likeChange = (next === "like" ? 1 : 0) - (existing?.type === "like" ? 1 : 0);
+      if (likeChange !== 0) {
+        await tx.news.update({
+          where: { id: newsId },
+          data: { likes: { increment: likeChange } },
+        });
+      }
+
+      return next;
+    });
+
+    const reactions = await prisma.newsReaction.groupBy({
+      by: ["type"],
+      where: { newsId },
+      _count: { _all: true },
+    });
+
+    return {
+      success: true,
+      reaction,
+      reactions: toReactionCounts(reactions.map((row) => ({ type: row.type, count: row._count._all }))),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("React to news error:", error);
+    return { success: false, error: "Failed to update reaction" };
+  }
+}
+
+/**
+ * Save an article for later, or remove it from the bookmarks
+ */
+export async function toggleBookmark(newsId: string) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Please sign in to save articles" };
+    }
+
+    const existing = await prisma.bookmark.findUnique({
+      where: { newsId_userId: { newsId, userId: currentUser.userId } },
+    });
+
+    if (existing) {
+      await prisma.bookmark.delete({ where: { id: existing.id } });
+    } else {
+      const news = await prisma.news.findUnique({ where: { id: newsId }, select: { isPublished: true } });
+      if (!news?.isPublished) {
+        return { success: false, error: "News post not found" };
+      }
+      await prisma.bookmark.create({ data: { newsId, userId: currentUser.userId } });
+    }
+
+    revalidatePath("/account/bookmarks");
+
+    return { success: true, bookmarked: !existing };
+  } catch (error) {
+    console.error("Toggle bookmark error:", error);
+    return { success: false, error: "Failed to update bookmark" };
+  }
+}
+
+/**
+ * Get the signed-in account's bookmarks, newest first
+ * Articles that were unpublished since are left out
+ */
+export async function getBookmarks(page: number = 1, limit: number = 20) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const where = { userId: currentUser.userId, news: { isPublished: true } };
+
+    const [bookmarks, total] = await Promise.all([
+      prisma.bookmark.findMany({
+        where,
+        select: { id: true, createdAt: true, news: { select: articleSelect } },
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.bookmark.count({ where }),
+    ]);
+
+    return {
+      success: true,
+      bookmarks,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  } catch (error) {
+    console.error("Get bookmarks error:", error);
+    return { success: false, error: "Failed to load bookmarks" };
+  }
+}
+
+/**
+ * Get the articles the signed-in account has read, most recent first
+ */
+export async function getReadingHistory(page: number = 1, limit: number = 20) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const where = { userId: currentUser.userId, news: { isPublished: true } };
+
+    const [history, total] = await Promise.all([
+      prisma.readingHistory.findMany({
+        where,
+        select: {
+          id: true,
+          readCount: true,
+          firstReadAt: true,
+          lastReadAt: true,
+          news: { select: articleSelect },
+        },
+        orderBy: { lastReadAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.readingHistory.count({ where }),
+    ]);
+
+    return {
+      success: true,
+      history,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  } catch (error) {
+    console.error("Get reading history error:", error);
+    return { success: false, error: "Failed to load reading history" };
+  }
+}
+
+/**
+ * Remove one article from the reading history, or all of them when no ID is given
+ */
+export async function clearReadingHistory(newsId?: string) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const result = await prisma.readingHistory.deleteMany({
+      where: { userId: currentUser.userId, ...(newsId ? { newsId } : {}) },
+    });
+
+    revalidatePath("/account/history");
+
+    return { success: true, count: result.count };
+  } catch (error) {
+    console.error("Clear reading history error:", error);
+    return { success: false, error: "Failed to clear reading history" };
+  }
+}
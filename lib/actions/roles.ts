@@ -2,8 +2,9 @@
 
 import { prisma } from "@/lib/prisma";
 import { getCurrentUser } from "@/lib/auth/jwt-server";
-import { hasPermission } from "@/lib/auth/permissions";
+import { hasPermission, TWO_FACTOR_REQUIRED_ROLES } from "@/lib/auth/permissions";
 import { createAuditLog } from "@/lib/audit-log";
+import { revokeUserSessions } from "@/lib/services/session.service";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
 
@@ -19,6 +20,7 @@ const createRoleSchema = z.object({
   permissionIds: z.array(z.string()).optional(),
   menuIds: z.array(z.string()).optional(),
   isActive: z.boolean().default(true),
+  requireTwoFactor: z.boolean().default(false),
 });
 
 const updateRoleSchema = z.object({
@@ -29,6 +31,7 @@ const updateRoleSchema = z.object({
   permissionIds: z.array(z.string()).optional(),
   menuIds: z.array(z.string()).optional(),
   isActive: z.boolean().optional(),
+  requireTwoFactor: z.boolean().optional(),
 });
 
 /**
@@ -63,6 +66,7 @@ export async function createRole(data: z.infer<typeof createRoleSchema>) {
         slug: validated.slug,
         description: validated.description,
         isActive: validated.isActive,
+        requireTwoFactor: validated.requireTwoFactor || TWO_FACTOR_REQUIRED_ROLES.includes(validated.slug),
       },
     });
 
@@ -149,6 +153,8 @@ export async function updateRole(data: z.infer<typeof updateRoleSchema>) {
     if (validated.slug) updateData.slug = validated.slug;
     if (validated.description !== undefined) updateData.description = validated.description;
     if (validated.isActive !== undefined) updateData.isActive = validated.isActive;
+    if (validated.requireTwoFactor !== undefined) updateData.requireTwoFactor = validated.requireTwoFactor;
+    if (TWO_FACTOR_REQUIRED_ROLES.includes(validated.slug || existingRole.slug)) updateData.requireTwoFactor = true;
 
     const role = await prisma.role.update({
       where: { id: validated.id },
@@ -187,12 +193,32 @@ export async function updateRole(data: z.infer<typeof updateRoleSchema>) {
       }
     }
 
-    await createAuditLog({
-      action: "UPDATE_ROLE",
-      resource: "Role",
-      resourceId: role.id,
-      description: `User ${currentUser.email} updated role ${role.name}`,
-    });
+    // Members who haven't set up two-factor authentication sign in again,
+    // and are sent to enrol before they can use the dashboard
+    let sessionsRevoked = 0;
+    if (role.requireTwoFactor && !existingRole.requireTwoFactor) {
+      const members = await prisma.userRole.findMany({
+        where: { roleId: role.id, user: { twoFactorEnabled: false } },
+        select: { userId: true },
+      });
+      for (const member of members) {
+        sessionsRevoked += await revokeUserSessions(member.userId, "role_change");
+      }
+    }
+
+    await createAuditLog(
+      {
+        action: "UPDATE_ROLE",
+        resource: "Role",
+        resourceId: role.id,
+        description: `User ${currentUser.email} updated role ${role.name}`,
+        metadata:
+          role.requireTwoFactor !== existingRole.requireTwoFactor
+            ? { requireTwoFactor: role.requireTwoFactor, sessionsRevoked }
+            : undefined,
+      },
+      currentUser.userId
+    );
 
     revalidatePath("/dashboard/roles");
 
@@ -298,6 +324,7 @@ export async function getRoles() {
         slug: role.slug,
         description: role.description,
         isActive: role.isActive,
+        requireTwoFactor: role.requireTwoFactor,
         permissions: role.permissions.map((rp: any) => ({
           id: rp.permission.id,
           name: rp.permission.name,
@@ -361,6 +388,8 @@ export async function getRoleById(roleId: string) {
         slug: role.slug,
         description: role.description,
         isActive: role.isActive,
+        requireTwoFactor: role.requireTwoFactor,
+        twoFactorLocked: TWO_FACTOR_REQUIRED_ROLES.includes(role.slug),
         permissionIds: role.permissions.map((rp: any) => rp.permission.id),
         menuIds: role.menus.map((rm: any) => rm.menu.id),
       },
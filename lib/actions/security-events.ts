@@ -0,0 +1,152 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { hasPermission } from "@/lib/auth/permissions";
+
+/**
+ * Security Events Server Actions
+ * Sign-in failures, rate limiting and lockouts from the audit log, for
+ * spotting password guessing and credential stuffing
+ */
+
+const SECURITY_EVENT_ACTIONS = [
+  "LOGIN_FAILED",
+  "LOGIN_RATE_LIMIT",
+  "TWO_FACTOR_FAILED",
+  "ACCOUNT_LOCKED",
+  "UNLOCK_ACCOUNT",
+];
+
+// Events that count as an attempt against an account or from an address
+const FAILURE_ACTIONS = ["LOGIN_FAILED", "LOGIN_RATE_LIMIT", "TWO_FACTOR_FAILED"];
+
+const RANGES: Record<string, number> = {
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+};
+
+const PAGE_SIZE = 50;
+
+function getAttemptedEmail(metadata: string | null): string | null {
+  if (!metadata) return null;
+  try {
+    const parsed = JSON.parse(metadata);
+    return typeof parsed?.email === "string" ? parsed.email : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Security events with per-action counts, the busiest addresses, the most
+ * targeted accounts and the accounts locked right now
+ * @param options.range - "24h", "7d" or "30d"
+ * @param options.action - Only this kind of event
+ */
+export async function getSecurityEvents(options: { page?: number; range?: string; action?: string } = {}) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "audit.read");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to view security events" };
+    }
+
+    const range = options.range && RANGES[options.range] ? options.range : "24h";
+    const action = options.action && SECURITY_EVENT_ACTIONS.includes(options.action) ? options.action : null;
+    const page = Math.max(1, options.page || 1);
+    const now = new Date();
+    const since = new Date(now.getTime() - RANGES[range]);
+
+    const inRange = { createdAt: { gte: since } };
+    const where = { ...inRange, action: action ?? { in: SECURITY_EVENT_ACTIONS } };
+
+    const [events, total, actionCounts, ipCounts, accountCounts, lockedAccounts] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        include: {
+          user: {
+            select: { id: true, email: true, username: true },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * PAGE_SIZE,
+        take: PAGE_SIZE,
+      }),
+      prisma.auditLog.count({ where }),
+      prisma.auditLog.groupBy({
+        by: ["action"],
+        where: { ...inRange, action: { in: SECURITY_EVENT_ACTIONS } },
+        _count: { _all: true },
+      }),
+      prisma.auditLog.groupBy({
+        by: ["ipAddress"],
+        where: { ...inRange, action: { in: FAILURE_ACTIONS }, ipAddress: { not: null } },
+        _count: { ipAddress: true },
+        orderBy: { _count: { ipAddress: "desc" } },
+        take: 5,
+      }),
+      prisma.auditLog.groupBy({
+        by: ["resourceId"],
+        where: { ...inRange, action: { in: FAILURE_ACTIONS }, resourceId: { not: null } },
+        _count: { resourceId: true },
+        orderBy: { _count: { resourceId: "desc" } },
+        take: 5,
+      }),
+      prisma.user.findMany({
+        where: { lockedUntil: { gt: now } },
+        select: { id: true, email: true, username: true, failedLoginAttempts: true, lockedUntil: true },
+        orderBy: { lockedUntil: "desc" },
+        take: 20,
+      }),
+    ]);
+
+    const targetedUsers = await prisma.user.findMany({
+      where: { id: { in: accountCounts.flatMap((row) => (row.resourceId ? [row.resourceId] : [])) } },
+      select: { id: true, email: true, username: true },
+    });
+
+    return {
+      success: true,
+      range,
+      action,
+      page,
+      total,
+      totalPages: Math.ceil(total / PAGE_SIZE),
+      counts: Object.fromEntries(
+        SECURITY_EVENT_ACTIONS.map((name) => [
+          name,
+          actionCounts.find((row) => row.action === name)?._count._all ?? 0,
+        ])
+      ),
+      topIps: ipCounts.flatMap((row) =>
+        row.ipAddress ? [{ ipAddress: row.ipAddress, count: row._count.ipAddress }] : []
+      ),
+      topAccounts: accountCounts.flatMap((row) => {
+        const user = targetedUsers.find((u) => u.id === row.resourceId);
+        return user ? [{ ...user, count: row._count.resourceId }] : [];
+      }),
+      lockedAccounts: lockedAccounts.flatMap((user) =>
+        user.lockedUntil ? [{ ...user, lockedUntil: user.lockedUntil }] : []
+      ),
+      events: events.map((event) => ({
+        id: event.id,
+        action: event.action,
+        description: event.description,
+        ipAddress: event.ipAddress,
+        userAgent: event.userAgent,
+        createdAt: event.createdAt,
+        user: event.user,
+        attemptedEmail: getAttemptedEmail(event.metadata),
+      })),
+    };
+  } catch (error) {
+    console.error("Get security events error:", error);
+    return { success: false, error: "Failed to load security events" };
+  }
+}
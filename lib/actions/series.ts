@@ -0,0 +1,474 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { hasPermission } from "@/lib/auth/permissions";
+import { createAuditLog } from "@/lib/audit-log";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+/**
+ * Server Actions for Series Management
+ * A series groups the news posts of one ongoing story in a curated order
+ */
+
+const createSeriesSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200, "Title must be under 200 characters"),
+  slug: z.string().trim().optional(),
+  description: z.string().optional(),
+  coverImage: z.string().optional(),
+  isActive: z.boolean().default(true),
+});
+
+const updateSeriesSchema = createSeriesSchema.partial().extend({
+  id: z.string(),
+});
+
+const setSeriesItemsSchema = z.object({
+  seriesId: z.string(),
+  newsIds: z.array(z.string()).max(500, "A series can have at most 500 posts"),
+});
+
+/**
+ * Generate slug from title
+ * Keeps Devanagari letters so Hindi series titles get readable URLs
+ */
+function generateSlug(title: string): string {
+  return title
+    .normalize("NFC")
+    .toLowerCase()
+    .trim()
+    .replace(/[\u200b-\u200d\ufeff]/g, "")
+    .replace(/[^\p{L}\p{M}\p{N}\s-]/gu, "")
+    .replace(/[\s_-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Revalidate the public pages that show a series
+ */
+async function revalidateSeriesPages(seriesId: string, slugs: string[]) {
+  const items = await prisma.seriesItem.findMany({
+    where: { seriesId },
+    select: { news: { select: { slug: true } } },
+  });
+
+  revalidatePath("/dashboard/series");
+  slugs.forEach((slug) => revalidatePath(`/series/${slug}`));
+  items.forEach((item) => revalidatePath(`/news/${item.news.slug}`));
+}
+
+/**
+ * Get series with post counts (for dashboard)
+ */
+export async function getSeriesList(filters?: { search?: string; page?: number; limit?: number }) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "series.read");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to view series" };
+    }
+
+    const page = filters?.page || 1;
+    const limit = filters?.limit || 20;
+    const skip = (page - 1) * limit;
+
+    const where = filters?.search
+      ? { title: { contains: filters.search, mode: "insensitive" as const } }
+      : {};
+
+    const [series, total] = await Promise.all([
+      prisma.series.findMany({
+        where,
+        include: {
+          _count: {
+            select: { items: true },
+          },
+        },
+        orderBy: { updatedAt: "desc" },
+        skip,
+        take: limit,
+      }),
+      prisma.series.count({ where }),
+    ]);
+
+    return {
+      success: true,
+      series: series.map((item) => ({
+        id: item.id,
+        title: item.title,
+        slug: item.slug,
+        description: item.description,
+        coverImage: item.coverImage,
+        isActive: item.isActive,
+        itemCount: item._count.items,
+        createdAt: item.createdAt,
+        updatedAt: item.updatedAt,
+      })),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  } catch (error) {
+    console.error("Get series list error:", error);
+    return { success: false, error: "Failed to fetch series" };
+  }
+}
+
+/**
+ * Get a series with its ordered posts (for the curation screen)
+ */
+export async function getSeriesById(seriesId: string) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "series.read");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to view series" };
+    }
+
+    const series = await prisma.series.findUnique({
+      where: { id: seriesId },
+      include: {
+        items: {
+          orderBy: { position: "asc" },
+          include: {
+            news: {
+              select: {
+                id: true,
+                title: true,
+                slug: true,
+                isPublished: true,
+                isActive: true,
+                publishedAt: true,
+                createdAt: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!series) {
+      return { success: false, error: "Series not found" };
+    }
+
+    return { success: true, series };
+  } catch (error) {
+    console.error("Get series error:", error);
+    return { success: false, error: "Failed to fetch series" };
+  }
+}
+
+/**
+ * Find news posts to add to a series
+ */
+export async function searchNewsForSeries(query: string, limit: number = 10) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized", news: [] };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "series.update");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to update series", news: [] };
+    }
+
+    const search = query.trim();
+    if (!search) {
+      return { success: true, news: [] };
+    }
+
+    const news = await prisma.news.findMany({
+      where: {
+        OR: [
+          { title: { contains: search, mode: "insensitive" } },
+          { slug: { contains: search, mode: "insensitive" } },
+        ],
+      },
+      select: {
+        id: true,
+        title: true,
+        slug: true,
+        isPublished: true,
+        isActive: true,
+        publishedAt: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: "desc" },
+      take: Math.min(limit, 25),
+    });
+
+    return { success: true, news };
+  } catch (error) {
+    console.error("Search news for series error:", error);
+    return { success: false, error: "Failed to search news", news: [] };
+  }
+}
+
+/**
+ * Create a new series
+ */
+export async function createSeries(data: z.input<typeof createSeriesSchema>) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "series.create");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to create series" };
+    }
+
+    const validated = createSeriesSchema.parse(data);
+    const slug = generateSlug(validated.slug || validated.title);
+    if (!slug) {
+      return { success: false, error: "Slug must contain letters or numbers" };
+    }
+
+    const existingSlug = await prisma.series.findUnique({
+      where: { slug },
+    });
+    if (existingSlug) {
+      return { success: false, error: "A series with this slug already exists" };
+    }
+
+    const series = await prisma.series.create({
+      data: {
+        title: validated.title,
+        slug,
+        description: validated.description || null,
+        coverImage: validated.coverImage || null,
+        isActive: validated.isActive,
+      },
+    });
+
+    await createAuditLog({
+      action: "CREATE_SERIES",
+      resource: "Series",
+      resourceId: series.id,
+      description: `User ${currentUser.email} created series: ${series.title}`,
+    });
+
+    revalidatePath("/dashboard/series");
+
+    return { success: true, series };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Create series error:", error);
+    return { success: false, error: "Failed to create series" };
+  }
+}
+
+/**
+ * Update series details
+ */
+export async function updateSeries(data: z.input<typeof updateSeriesSchema>) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "series.update");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to update series" };
+    }
+
+    const validated = updateSeriesSchema.parse(data);
+
+    const existingSeries = await prisma.series.findUnique({
+      where: { id: validated.id },
+    });
+
+    if (!existingSeries) {
+      return { success: false, error: "Series not found" };
+    }
+
+    const updateData: {
+      title?: string;
+      slug?: string;
+      description?: string | null;
+      coverImage?: string | null;
+      isActive?: boolean;
+    } = {};
+
+    if (validated.title !== undefined) updateData.title = validated.title;
+    if (validated.description !== undefined) updateData.description = validated.description || null;
+    if (validated.coverImage !== undefined) updateData.coverImage = validated.coverImage || null;
+    if (validated.isActive !== undefined) updateData.isActive = validated.isActive;
+
+    if (validated.slug !== undefined) {
+      const slug = generateSlug(validated.slug);
+      if (!slug) {
+        return { success: false, error: "Slug must contain letters or numbers" };
+      }
+      if (slug !== existingSeries.slug) {
+        const slugExists = await prisma.series.findUnique({
+          where: { slug },
+        });
+        if (slugExists) {
+          return { success: false, error: "A series with this slug already exists" };
+        }
+        updateData.slug = slug;
+      }
+    }
+
+    const series = await prisma.series.update({
+      where: { id: validated.id },
+      data: updateData,
+    });
+
+    await createAuditLog({
+      action: "UPDATE_SERIES",
+      resource: "Series",
+      resourceId: series.id,
+      description: `User ${currentUser.email} updated series: ${series.title}`,
+    });
+
+    await revalidateSeriesPages(series.id, [existingSeries.slug, series.slug]);
+
+    return { success: true, series };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Update series error:", error);
+    return { success: false, error: "Failed to update series" };
+  }
+}
+
+/**
+ * Replace the posts of a series
+ * The order of `newsIds` becomes the reading order of the series
+ */
+export async function setSeriesItems(data: z.infer<typeof setSeriesItemsSchema>) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "series.update");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to update series" };
+    }
+
+    const validated = setSeriesItemsSchema.parse(data);
+    const newsIds = Array.from(new Set(validated.newsIds));
+
+    const series = await prisma.series.findUnique({
+      where: { id: validated.seriesId },
+      include: {
+        items: { select: { news: { select: { slug: true } } } },
+      },
+    });
+
+    if (!series) {
+      return { success: false, error: "Series not found" };
+    }
+
+    const newsCount = await prisma.news.count({
+      where: { id: { in: newsIds } },
+    });
+    if (newsCount !== newsIds.length) {
+      return { success: false, error: "One or more news posts were not found" };
+    }
+
+    await prisma.$transaction([
+      prisma.seriesItem.deleteMany({ where: { seriesId: series.id } }),
+      prisma.seriesItem.createMany({
+        data: newsIds.map((newsId, index) => ({
+          seriesId: series.id,
+          newsId,
+          position: index + 1,
+        })),
+      }),
+      // Bump updatedAt so the series sorts as recently changed
+      prisma.series.update({
+        where: { id: series.id },
+        data: { updatedAt: new Date() },
+      }),
+    ]);
+
+    await createAuditLog({
+      action: "UPDATE_SERIES_ITEMS",
+      resource: "Series",
+      resourceId: series.id,
+      description: `User ${currentUser.email} updated posts of series: ${series.title}`,
+      metadata: { newsIds },
+    });
+
+    // Posts removed from the series also need their navigation box refreshed
+    series.items.forEach((item) => revalidatePath(`/news/${item.news.slug}`));
+    await revalidateSeriesPages(series.id, [series.slug]);
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Set series items error:", error);
+    return { success: false, error: "Failed to update series posts" };
+  }
+}
+
+/**
+ * Delete a series
+ * The news posts themselves are kept
+ */
+export async function deleteSeries(seriesId: string) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "series.delete");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to delete series" };
+    }
+
+    const series = await prisma.series.findUnique({
+      where: { id: seriesId },
+      include: {
+        items: { select: { news: { select: { slug: true } } } },
+      },
+    });
+
+    if (!series) {
+      return { success: false, error: "Series not found" };
+    }
+
+    await prisma.series.delete({
+      where: { id: seriesId },
+    });
+
+    await createAuditLog({
+      action: "DELETE_SERIES",
+      resource: "Series",
+      resourceId: seriesId,
+      description: `User ${currentUser.email} deleted series: ${series.title}`,
+    });
+
+    revalidatePath("/dashboard/series");
+    revalidatePath(`/series/${series.slug}`);
+    series.items.forEach((item) => revalidatePath(`/news/${item.news.slug}`));
+
+    return { success: true };
+  } catch (error) {
+    console.error("Delete series error:", error);
+    return { success: false, error: "Failed to delete series" };
+  }
+}
@@ -0,0 +1,105 @@
+"use server";
+
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { createAuditLog } from "@/lib/audit-log";
+import { getActiveSessions, revokeSession, revokeUserSessions } from "@/lib/services/session.service";
+import { describeUserAgent } from "@/lib/utils/visitor-context";
+import { revalidatePath } from "next/cache";
+
+/**
+ * Session Server Actions
+ * Lets users see the devices signed in to their account and sign them out
+ */
+
+/**
+ * Get the signed-in user's active sessions, marking the current one
+ */
+export async function getMySessions() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const sessions = await getActiveSessions(currentUser.userId);
+
+    return {
+      success: true,
+      sessions: sessions.map((session) => ({
+        id: session.id,
+        device: describeUserAgent(session.userAgent),
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastSeenAt: session.lastSeenAt,
+        isCurrent: session.id === currentUser.jti,
+      })),
+    };
+  } catch (error) {
+    console.error("Get sessions error:", error);
+    return { success: false, error: "Failed to load sessions" };
+  }
+}
+
+/**
+ * Sign out one of the user's other devices
+ */
+export async function signOutSession(sessionId: string) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    if (sessionId === currentUser.jti) {
+      return { success: false, error: "Use Sign out to end this session" };
+    }
+
+    const revoked = await revokeSession(sessionId, "signed_out_elsewhere", currentUser.userId);
+    if (!revoked) {
+      return { success: false, error: "Session not found" };
+    }
+
+    await createAuditLog({
+      action: "REVOKE_SESSION",
+      resource: "Session",
+      resourceId: sessionId,
+      description: `User ${currentUser.email} signed out another device`,
+    });
+
+    revalidatePath("/dashboard/profile");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Sign out session error:", error);
+    return { success: false, error: "Failed to sign out session" };
+  }
+}
+
+/**
+ * Sign out every device except this one
+ */
+export async function signOutOtherSessions() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const count = await revokeUserSessions(currentUser.userId, "signed_out_elsewhere", currentUser.jti);
+
+    await createAuditLog({
+      action: "REVOKE_OTHER_SESSIONS",
+      resource: "Session",
+      resourceId: currentUser.userId,
+      description: `User ${currentUser.email} signed out ${count} other device(s)`,
+      metadata: { count },
+    });
+
+    revalidatePath("/dashboard/profile");
+
+    return { success: true, count };
+  } catch (error) {
+    console.error("Sign out other sessions error:", error);
+    return { success: false, error: "Failed to sign out other sessions" };
+  }
+}
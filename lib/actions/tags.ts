@@ -0,0 +1,423 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth/jwt-server";
+import { hasPermission } from "@/lib/auth/permissions";
+import { createAuditLog } from "@/lib/audit-log";
+import {
+  MAX_TAG_LENGTH,
+  generateTagSlug,
+  normalizeTagName,
+} from "@/lib/utils/tags";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+/**
+ * Server Actions for Tag Management
+ */
+
+const tagNameSchema = z
+  .string()
+  .transform(normalizeTagName)
+  .pipe(
+    z
+      .string()
+      .min(1, "Name is required")
+      .max(MAX_TAG_LENGTH, `Name must be under ${MAX_TAG_LENGTH} characters`)
+  );
+
+const createTagSchema = z.object({
+  name: tagNameSchema,
+  description: z.string().optional(),
+});
+
+const updateTagSchema = z.object({
+  id: z.string(),
+  name: tagNameSchema.optional(),
+  description: z.string().optional(),
+});
+
+const mergeTagsSchema = z.object({
+  sourceIds: z.array(z.string()).min(1, "Select at least one tag to merge"),
+  targetId: z.string().min(1, "Select the tag to merge into"),
+});
+
+/**
+ * Get tags with news counts (for dashboard)
+ */
+export async function getTags(filters?: { search?: string; page?: number; limit?: number }) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "tag.read");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to view tags" };
+    }
+
+    const page = filters?.page || 1;
+    const limit = filters?.limit || 25;
+    const skip = (page - 1) * limit;
+
+    const where = filters?.search
+      ? {
+          OR: [
+            { name: { contains: filters.search, mode: "insensitive" as const } },
+            { slug: { contains: filters.search, mode: "insensitive" as const } },
+          ],
+        }
+      : {};
+
+    const [tags, total] = await Promise.all([
+      prisma.tag.findMany({
+        where,
+        include: {
+          _count: {
+            select: { news: true },
+          },
+        },
+        orderBy: { name: "asc" },
+        skip,
+        take: limit,
+      }),
+      prisma.tag.count({ where }),
+    ]);
+
+    return {
+      success: true,
+      tags: tags.map((tag) => ({
+        id: tag.id,
+        name: tag.name,
+        slug: tag.slug,
+        description: tag.description,
+        newsCount: tag._count.news,
+        createdAt: tag.createdAt,
+        updatedAt: tag.updatedAt,
+      })),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  } catch (error) {
+    console.error("Get tags error:", error);
+    return { success: false, error: "Failed to fetch tags" };
+  }
+}
+
+/**
+ * Search tags by name (for the tag picker in news forms)
+ * Most used tags first
+ */
+export async function searchTags(query: string, limit: number = 10) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized", tags: [] };
+    }
+
+    const [canCreate, canUpdate] = await Promise.all([
+      hasPermission(currentUser.userId, "news.create"),
+      hasPermission(currentUser.userId, "news.update"),
+    ]);
+    if (!canCreate && !canUpdate) {
+      return { success: false, error: "You don't have permission to tag news posts", tags: [] };
+    }
+
+    const search = normalizeTagName(query);
+    if (!search) {
+      return { success: true, tags: [] };
+    }
+
+    const tags = await prisma.tag.findMany({
+      where: {
+        OR: [
+          { name: { contains: search, mode: "insensitive" } },
+          { slug: { startsWith: generateTagSlug(search) } },
+        ],
+      },
+      select: {
+        id: true,
+        name: true,
+        slug: true,
+        _count: { select: { news: true } },
+      },
+      orderBy: { news: { _count: "desc" } },
+      take: Math.min(limit, 25),
+    });
+
+    return {
+      success: true,
+      tags: tags.map((tag) => ({
+        id: tag.id,
+        name: tag.name,
+        slug: tag.slug,
+        newsCount: tag._count.news,
+      })),
+    };
+  } catch (error) {
+    console.error("Search tags error:", error);
+    return { success: false, error: "Failed to search tags", tags: [] };
+  }
+}
+
+/**
+ * Create a new tag
+ */
+export async function createTag(data: z.infer<typeof createTagSchema>) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "tag.create");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to create tags" };
+    }
+
+    const validated = createTagSchema.parse(data);
+    const slug = generateTagSlug(validated.name);
+    if (!slug) {
+      return { success: false, error: "Tag name must contain letters or numbers" };
+    }
+
+    const existing = await prisma.tag.findFirst({
+      where: { OR: [{ slug }, { name: validated.name }] },
+    });
+    if (existing) {
+      return { success: false, error: `Tag "${existing.name}" already exists` };
+    }
+
+    const tag = await prisma.tag.create({
+      data: {
+        name: validated.name,
+        slug,
+        description: validated.description || null,
+      },
+    });
+
+    await createAuditLog({
+      action: "CREATE_TAG",
+      resource: "Tag",
+      resourceId: tag.id,
+      description: `User ${currentUser.email} created tag: ${tag.name}`,
+    });
+
+    revalidatePath("/dashboard/tags");
+
+    return { success: true, tag };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Create tag error:", error);
+    return { success: false, error: "Failed to create tag" };
+  }
+}
+
+/**
+ * Update (rename) a tag
+ * Renaming also changes the slug, so the public tag URL follows the new name
+ */
+export async function updateTag(data: z.infer<typeof updateTagSchema>) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "tag.update");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to update tags" };
+    }
+
+    const validated = updateTagSchema.parse(data);
+
+    const existingTag = await prisma.tag.findUnique({
+      where: { id: validated.id },
+    });
+
+    if (!existingTag) {
+      return { success: false, error: "Tag not found" };
+    }
+
+    const updateData: { name?: string; slug?: string; description?: string | null } = {};
+
+    if (validated.name && validated.name !== existingTag.name) {
+      const slug = generateTagSlug(validated.name);
+      if (!slug) {
+        return { success: false, error: "Tag name must contain letters or numbers" };
+      }
+
+      const conflict = await prisma.tag.findFirst({
+        where: {
+          id: { not: existingTag.id },
+          OR: [{ slug }, { name: validated.name }],
+        },
+      });
+      if (conflict) {
+        return {
+          success: false,
+          error: `Tag "${conflict.name}" already exists. Merge the tags instead.`,
+        };
+      }
+
+      updateData.name = validated.name;
+      updateData.slug = slug;
+    }
+    if (validated.description !== undefined) {
+      updateData.description = validated.description || null;
+    }
+
+    const tag = await prisma.tag.update({
+      where: { id: validated.id },
+      data: updateData,
+    });
+
+    await createAuditLog({
+      action: "UPDATE_TAG",
+      resource: "Tag",
+      resourceId: tag.id,
+      description: `User ${currentUser.email} updated tag: ${tag.name}`,
+      ...(updateData.name && {
+        metadata: { from: existingTag.name, to: tag.name },
+      }),
+    });
+
+    revalidatePath("/dashboard/tags");
+    revalidatePath(`/tag/${existingTag.slug}`);
+    revalidatePath(`/tag/${tag.slug}`);
+
+    return { success: true, tag };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Update tag error:", error);
+    return { success: false, error: "Failed to update tag" };
+  }
+}
+
+/**
+ * Delete a tag
+ * Removes the tag from every news post it was attached to
+ */
+export async function deleteTag(tagId: string) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "tag.delete");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to delete tags" };
+    }
+
+    const tag = await prisma.tag.findUnique({
+      where: { id: tagId },
+      include: { _count: { select: { news: true } } },
+    });
+
+    if (!tag) {
+      return { success: false, error: "Tag not found" };
+    }
+
+    await prisma.tag.delete({
+      where: { id: tagId },
+    });
+
+    await createAuditLog({
+      action: "DELETE_TAG",
+      resource: "Tag",
+      resourceId: tagId,
+      description: `User ${currentUser.email} deleted tag: ${tag.name}`,
+      metadata: { newsCount: tag._count.news },
+    });
+
+    revalidatePath("/dashboard/tags");
+    revalidatePath(`/tag/${tag.slug}`);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Delete tag error:", error);
+    return { success: false, error: "Failed to delete tag" };
+  }
+}
+
+/**
+ * Merge tags into a target tag
+ * News posts tagged with any source tag get the target tag; source tags are deleted
+ */
+export async function mergeTags(data: z.infer<typeof mergeTagsSchema>) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const [canUpdate, canDelete] = await Promise.all([
+      hasPermission(currentUser.userId, "tag.update"),
+      hasPermission(currentUser.userId, "tag.delete"),
+    ]);
+    if (!canUpdate || !canDelete) {
+      return { success: false, error: "You don't have permission to merge tags" };
+    }
+
+    const validated = mergeTagsSchema.parse(data);
+    const sourceIds = validated.sourceIds.filter((id) => id !== validated.targetId);
+    if (sourceIds.length === 0) {
+      return { success: false, error: "Select at least one other tag to merge" };
+    }
+
+    const [target, sources] = await Promise.all([
+      prisma.tag.findUnique({ where: { id: validated.targetId } }),
+      prisma.tag.findMany({ where: { id: { in: sourceIds } } }),
+    ]);
+
+    if (!target || sources.length !== sourceIds.length) {
+      return { success: false, error: "Tag not found" };
+    }
+
+    const links = await prisma.newsTag.findMany({
+      where: { tagId: { in: sourceIds } },
+      select: { newsId: true },
+    });
+    const newsIds = Array.from(new Set(links.map((link) => link.newsId)));
+
+    await prisma.$transaction([
+      prisma.newsTag.createMany({
+        data: newsIds.map((newsId) => ({ newsId, tagId: target.id })),
+        skipDuplicates: true,
+      }),
+      prisma.tag.deleteMany({ where: { id: { in: sourceIds } } }),
+    ]);
+
+    await createAuditLog({
+      action: "MERGE_TAGS",
+      resource: "Tag",
+      resourceId: target.id,
+      description: `User ${currentUser.email} merged ${sources
+        .map((tag) => `"${tag.name}"`)
+        .join(", ")} into tag: ${target.name}`,
+      metadata: {
+        sources: sources.map((tag) => ({ id: tag.id, name: tag.name, slug: tag.slug })),
+        newsCount: newsIds.length,
+      },
+    });
+
+    revalidatePath("/dashboard/tags");
+    revalidatePath(`/tag/${target.slug}`);
+    sources.forEach((tag) => revalidatePath(`/tag/${tag.slug}`));
+
+    return { success: true, tag: target, newsCount: newsIds.length };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Merge tags error:", error);
+    return { success: false, error: "Failed to merge tags" };
+  }
+}
@@ -0,0 +1,415 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser, setAuthCookie } from "@/lib/auth/jwt-server";
+import { createAuditLog } from "@/lib/audit-log";
+import { issueSessionToken, revokeSession, revokeUserSessions } from "@/lib/services/session.service";
+import { isTwoFactorRequired, verifySecondFactor } from "@/lib/services/two-factor.service";
+import { recordFailedLogin } from "@/lib/services/account-lockout.service";
+import { formatLockoutRemaining, isLocked } from "@/lib/security/account-lockout";
+import { checkTwoFactorRateLimit } from "@/lib/security/rate-limit";
+import {
+  buildOtpAuthUri,
+  decryptTotpSecret,
+  encryptTotpSecret,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from "@/lib/security/two-factor";
+import { createQrMatrix, qrMatrixToPath } from "@/lib/utils/qr-code";
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { z } from "zod";
+
+/**
+ * Two-Factor Authentication Server Actions
+ * Enrolment with an authenticator app, recovery codes, and turning two-factor
+ * authentication off where no role requires it
+ */
+
+const codeSchema = z.string().trim().min(6, "Enter the code from your authenticator app").max(20, "Invalid code");
+
+async function getRequestContext() {
+  const headersList = await headers();
+  return {
+    ipAddress: headersList.get("x-forwarded-for")?.split(",")[0]?.trim() || headersList.get("x-real-ip") || "unknown",
+    userAgent: headersList.get("user-agent") || "unknown",
+  };
+}
+
+/**
+ * Check a current code before a sensitive two-factor change
+ * Shares the sign-in step's attempt limit and counts wrong codes towards the
+ * account lockout, so a stolen session can't guess its way through
+ * @param attempt - What the code unlocks, for the audit log
+ * @returns An error message, or null when the code is accepted
+ */
+async function checkCurrentCode(
+  user: {
+    id: string;
+    email: string;
+    lockedUntil: Date | null;
+    twoFactorSecret: string | null;
+    twoFactorLastUsedStep: number | null;
+    twoFactorRecoveryCodes: string[];
+  },
+  code: string,
+  context: { ipAddress: string; userAgent: string },
+  attempt: string
+): Promise<string | null> {
+  const rateLimit = await checkTwoFactorRateLimit(user.id);
+  if (rateLimit.limited) {
+    await createAuditLog(
+      {
+        action: "LOGIN_RATE_LIMIT",
+        resource: "User",
+        resourceId: user.id,
+        description: `Too many two-factor attempts while ${attempt}`,
+        ...context,
+      },
+      user.id
+    );
+    return "Too many attempts. Please try again in a few minutes.";
+  }
+
+  if (user.lockedUntil && isLocked(user.lockedUntil)) {
+    return `Too many failed attempts. Try again in ${formatLockoutRemaining(user.lockedUntil)}.`;
+  }
+
+  if (await verifySecondFactor(user, code)) return null;
+
+  await createAuditLog(
+    {
+      action: "TWO_FACTOR_FAILED",
+      resource: "User",
+      resourceId: user.id,
+      description: `Invalid two-factor code while ${attempt} for ${user.email}`,
+      ...context,
+    },
+    user.id
+  );
+
+  const lockedUntil = await recordFailedLogin(user, context);
+  if (lockedUntil) {
+    return `Too many failed attempts. Try again in ${formatLockoutRemaining(lockedUntil)}.`;
+  }
+  return "Invalid code. Please try again.";
+}
+
+/**
+ * Get the signed-in user's two-factor status
+ */
+export async function getTwoFactorStatus() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const [user, required] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: currentUser.userId },
+        select: { twoFactorEnabled: true, twoFactorEnabledAt: true, twoFactorRecoveryCodes: true },
+      }),
+      isTwoFactorRequired(currentUser.userId),
+    ]);
+
+    if (!user) {
+      return { success: false, error: "User not found" };
+    }
+
+    return {
+      success: true,
+      status: {
+        enabled: user.twoFactorEnabled,
+        enabledAt: user.twoFactorEnabledAt,
+        recoveryCodesRemaining: user.twoFactorEnabled ? user.twoFactorRecoveryCodes.length : 0,
+        required,
+      },
+    };
+  } catch (error) {
+    console.error("Get two-factor status error:", error);
+    return { success: false, error: "Failed to load two-factor settings" };
+  }
+}
+
+/**
+ * Start enrolment: store a new pending secret and return the QR code for it
+ * The secret only takes effect once a code from it is confirmed
+ */
+export async function startTwoFactorEnrollment() {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: currentUser.userId },
+      select: { email: true, twoFactorEnabled: true },
+    });
+
+    if (!user) {
+      return { success: false, error: "User not found" };
+    }
+
+    if (user.twoFactorEnabled) {
+      return { success: false, error: "Two-factor authentication is already enabled" };
+    }
+
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: { id: currentUser.userId },
+      data: { twoFactorSecret: encryptTotpSecret(secret), twoFactorLastUsedStep: null },
+    });
+
+    const otpAuthUri = buildOtpAuthUri(user.email, secret);
+    const matrix = createQrMatrix(otpAuthUri);
+
+    return {
+      success: true,
+      enrollment: {
+        secret,
+        otpAuthUri,
+        qrPath: qrMatrixToPath(matrix),
+        qrSize: matrix.length + 8,
+      },
+    };
+  } catch (error) {
+    console.error("Start two-factor enrollment error:", error);
+    return { success: false, error: "Failed to start two-factor setup" };
+  }
+}
+
+/**
+ * Confirm enrolment with a code from the authenticator app
+ * Signs out other devices, which signed in without a second factor, and
+ * returns the recovery codes; they are only shown this once.
+ */
+export async function confirmTwoFactorEnrollment(code: string) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const validatedCode = codeSchema.parse(code);
+
+    const user = await prisma.user.findUnique({
+      where: { id: currentUser.userId },
+      select: { email: true, twoFactorEnabled: true, twoFactorSecret: true },
+    });
+
+    if (!user) {
+      return { success: false, error: "User not found" };
+    }
+
+    if (user.twoFactorEnabled) {
+      return { success: false, error: "Two-factor authentication is already enabled" };
+    }
+
+    const secret = user.twoFactorSecret ? decryptTotpSecret(user.twoFactorSecret) : null;
+    if (!secret) {
+      return { success: false, error: "Setup has expired. Please start again." };
+    }
+
+    const step = verifyTotp(secret, validatedCode);
+    if (step === null) {
+      return { success: false, error: "Invalid code. Check your authenticator app and try again." };
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await prisma.user.update({
+      where: { id: currentUser.userId },
+      data: {
+        twoFactorEnabled: true,
+        twoFactorEnabledAt: new Date(),
+        twoFactorLastUsedStep: step,
+        twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      },
+    });
+
+    const context = await getRequestContext();
+
+    // Replace this device's session with one that no longer needs setup
+    const sessionsRevoked = await revokeUserSessions(currentUser.userId, "two_factor_change", currentUser.jti);
+    if (currentUser.jti) {
+      await revokeSession(currentUser.jti, "two_factor_change");
+    }
+    const token = await issueSessionToken(
+      {
+        userId: currentUser.userId,
+        email: currentUser.email,
+        username: currentUser.username,
+        roles: currentUser.roles,
+        accountType: currentUser.accountType,
+      },
+      context
+    );
+    await setAuthCookie(token);
+
+    await createAuditLog(
+      {
+        action: "TWO_FACTOR_ENROLL",
+        resource: "User",
+        resourceId: currentUser.userId,
+        description: `User ${user.email} enabled two-factor authentication`,
+        metadata: { sessionsRevoked },
+        ...context,
+      },
+      currentUser.userId
+    );
+
+    revalidatePath("/dashboard", "layout");
+
+    return { success: true, recoveryCodes };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Confirm two-factor enrollment error:", error);
+    return { success: false, error: "Failed to enable two-factor authentication" };
+  }
+}
+
+/**
+ * Turn two-factor authentication off after checking a current code
+ * Refused while one of the user's roles requires it
+ */
+export async function disableTwoFactor(code: string) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const validatedCode = codeSchema.parse(code);
+
+    if (await isTwoFactorRequired(currentUser.userId)) {
+      return { success: false, error: "Your role requires two-factor authentication, so it can't be turned off" };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: currentUser.userId },
+      select: {
+        id: true,
+        email: true,
+        twoFactorEnabled: true,
+        twoFactorSecret: true,
+        twoFactorLastUsedStep: true,
+        twoFactorRecoveryCodes: true,
+        lockedUntil: true,
+      },
+    });
+
+    if (!user?.twoFactorEnabled) {
+      return { success: false, error: "Two-factor authentication is not enabled" };
+    }
+
+    const context = await getRequestContext();
+
+    const codeError = await checkCurrentCode(user, validatedCode, context, "disabling two-factor authentication");
+    if (codeError) {
+      return { success: false, error: codeError };
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorLastUsedStep: null,
+        twoFactorRecoveryCodes: [],
+      },
+    });
+
+    await createAuditLog(
+      {
+        action: "TWO_FACTOR_DISABLE",
+        resource: "User",
+        resourceId: user.id,
+        description: `User ${user.email} disabled two-factor authentication`,
+        ...context,
+      },
+      user.id
+    );
+
+    revalidatePath("/dashboard/profile");
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Disable two-factor error:", error);
+    return { success: false, error: "Failed to disable two-factor authentication" };
+  }
+}
+
+/**
+ * Replace the recovery codes after checking a current code
+ * The old codes stop working; the new ones are only shown this once.
+ */
+export async function regenerateRecoveryCodes(code: string) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const validatedCode = codeSchema.parse(code);
+
+    const user = await prisma.user.findUnique({
+      where: { id: currentUser.userId },
+      select: {
+        id: true,
+        email: true,
+        twoFactorEnabled: true,
+        twoFactorSecret: true,
+        twoFactorLastUsedStep: true,
+        twoFactorRecoveryCodes: true,
+        lockedUntil: true,
+      },
+    });
+
+    if (!user?.twoFactorEnabled) {
+      return { success: false, error: "Two-factor authentication is not enabled" };
+    }
+
+    const context = await getRequestContext();
+
+    const codeError = await checkCurrentCode(user, validatedCode, context, "regenerating recovery codes");
+    if (codeError) {
+      return { success: false, error: codeError };
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) },
+    });
+
+    await createAuditLog(
+      {
+        action: "TWO_FACTOR_RECOVERY_CODES",
+        resource: "User",
+        resourceId: user.id,
+        description: `User ${user.email} generated new recovery codes`,
+        ...context,
+      },
+      user.id
+    );
+
+    revalidatePath("/dashboard/profile");
+
+    return { success: true, recoveryCodes };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.errors[0].message };
+    }
+    console.error("Regenerate recovery codes error:", error);
+    return { success: false, error: "Failed to generate recovery codes" };
+  }
+}
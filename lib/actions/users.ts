@@ -5,6 +5,9 @@ import { prisma } from "@/lib/prisma";
 import { getCurrentUser } from "@/lib/auth/jwt-server";
 import { hasPermission } from "@/lib/auth/permissions";
 import { createAuditLog } from "@/lib/audit-log";
+import { revokeUserSessions } from "@/lib/services/session.service";
+import { clearAccountLockout } from "@/lib/services/account-lockout.service";
+import { trySendVerificationEmail } from "@/lib/services/account-email.service";
 import { generateUsernameFromEmail, generatePassword } from "@/lib/utils";
 import { revalidatePath } from "next/cache";
 import { z } from "zod";
@@ -99,6 +102,8 @@ export async function createUser(data: z.infer<typeof createUserSchema>) {
       });
     }
 
+    await trySendVerificationEmail(user);
+
     // Create audit log
     await createAuditLog({
       action: "CREATE_USER",
@@ -181,6 +186,8 @@ export async function updateUser(data: z.infer<typeof updateUserSchema>) {
     // Update user
     const updateData: any = {};
     if (validated.email) updateData.email = validated.email;
+    // A changed address has to be confirmed again
+    if (validated.email && validated.email !== existingUser.email) updateData.isEmailVerified = false;
     if (validated.username) updateData.username = validated.username;
     if (validated.firstName !== undefined) updateData.firstName = validated.firstName;
     if (validated.lastName !== undefined) updateData.lastName = validated.lastName;
@@ -191,6 +198,21 @@ export async function updateUser(data: z.infer<typeof updateUserSchema>) {
       data: updateData,
     });
 
+    if (updateData.isEmailVerified === false) {
+      await trySendVerificationEmail(user);
+    }
+
+    // Roles are part of the auth token, so compare them before replacing
+    const previousRoleIds = validated.roleIds
+      ? (await prisma.userRole.findMany({ where: { userId: validated.id }, select: { roleId: true } })).map(
+          (userRole) => userRole.roleId
+        )
+      : [];
+    const rolesChanged =
+      !!validated.roleIds &&
+      (validated.roleIds.length !== previousRoleIds.length ||
+        validated.roleIds.some((roleId) => !previousRoleIds.includes(roleId)));
+
     // Update roles if provided
     if (validated.roleIds) {
       // Remove existing roles
@@ -209,17 +231,29 @@ export async function updateUser(data: z.infer<typeof updateUserSchema>) {
       }
     }
 
-    // Create audit log
-    await createAuditLog({
-      action: "UPDATE_USER",
-      resource: "User",
-      resourceId: user.id,
-      description: `User ${currentUser.email} updated user ${user.email}`,
-      metadata: {
-        updatedFields: Object.keys(updateData),
-        roles: validated.roleIds,
+    // Deactivated accounts and changed roles take effect at once: sign the user out everywhere
+    let sessionsRevoked = 0;
+    if (existingUser.isActive && validated.isActive === false) {
+      sessionsRevoked = await revokeUserSessions(user.id, "deactivated");
+    } else if (rolesChanged) {
+      sessionsRevoked = await revokeUserSessions(user.id, "role_change");
+    }
+
+    // Create audit log (attributed explicitly: editing your own roles revokes your session)
+    await createAuditLog(
+      {
+        action: "UPDATE_USER",
+        resource: "User",
+        resourceId: user.id,
+        description: `User ${currentUser.email} updated user ${user.email}`,
+        metadata: {
+          updatedFields: Object.keys(updateData),
+          roles: validated.roleIds,
+          sessionsRevoked,
+        },
       },
-    });
+      currentUser.userId
+    );
 
     revalidatePath("/dashboard/users");
 
@@ -284,6 +318,55 @@ export async function deleteUser(userId: string) {
   }
 }
 
+/**
+ * Lift a sign-in lockout
+ * @param userId - Locked user's ID
+ * @returns Success status or error
+ */
+export async function unlockUser(userId: string) {
+  try {
+    const currentUser = await getCurrentUser();
+    if (!currentUser) {
+      return { success: false, error: "Unauthorized" };
+    }
+
+    const hasAccess = await hasPermission(currentUser.userId, "user.update");
+    if (!hasAccess) {
+      return { success: false, error: "You don't have permission to unlock users" };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, failedLoginAttempts: true, lockedUntil: true },
+    });
+
+    if (!user) {
+      return { success: false, error: "User not found" };
+    }
+
+    await clearAccountLockout(userId);
+
+    await createAuditLog({
+      action: "UNLOCK_ACCOUNT",
+      resource: "User",
+      resourceId: userId,
+      description: `User ${currentUser.email} unlocked user ${user.email}`,
+      metadata: {
+        failedAttempts: user.failedLoginAttempts,
+        lockedUntil: user.lockedUntil?.toISOString() ?? null,
+      },
+    });
+
+    revalidatePath("/dashboard/users");
+    revalidatePath("/dashboard/logs/security");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Unlock user error:", error);
+    return { success: false, error: "Failed to unlock user" };
+  }
+}
+
 /**
  * Get all users with pagination
  * @param page - Page number
@@ -347,6 +430,8 @@ export async function getUsers(page: number = 1, limit: number = 10, search?: st
         })),
         createdAt: user.createdAt,
         lastLogin: user.lastLogin,
+        failedLoginAttempts: user.failedLoginAttempts,
+        lockedUntil: user.lockedUntil,
       })),
       total,
       page,
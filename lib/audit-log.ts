@@ -19,24 +19,16 @@ export interface AuditLogData {
 /**
  * Create an audit log entry
  * @param data - Audit log data
- * @param userId - Optional user ID (if not provided, uses current user from JWT)
+ * @param userId - Optional user ID (if not provided, uses current user from JWT).
+ * Without either the entry is anonymous, e.g. a failed sign-in for an unknown email.
  */
 export async function createAuditLog(
   data: AuditLogData,
   userId?: string
 ): Promise<void> {
   try {
-    let finalUserId = userId;
-
     // If userId not provided, get from JWT token
-    if (!finalUserId) {
-      const user = await getCurrentUser();
-      if (!user) {
-        console.warn("Cannot create audit log: No user found");
-        return;
-      }
-      finalUserId = user.userId;
-    }
+    const finalUserId = userId || (await getCurrentUser())?.userId || null;
 
     await prisma.auditLog.create({
       data: {
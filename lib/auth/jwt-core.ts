@@ -12,6 +12,9 @@ export interface JWTPayload {
   email: string;
   username: string;
   roles: string[];
+  accountType?: string; // "reader" accounts never reach the dashboard; older tokens omit it (staff)
+  jti?: string; // Session ID; tokens without one are no longer accepted
+  mfaSetupRequired?: boolean; // A role requires two-factor authentication that isn't set up yet
 }
 
 export async function generateToken(payload: any): Promise<string> {
@@ -25,8 +28,55 @@ export async function generateToken(payload: any): Promise<string> {
 export async function verifyToken(token: string): Promise<JWTPayload | null> {
   try {
     const { payload } = await jwtVerify(token, getSecretKey());
+    // Purpose tokens carry an audience and never stand in for a session
+    if (payload.aud) return null;
     return payload as any;
   } catch {
     return null;
   }
 }
+
+// Single-purpose tokens: the two-factor challenge after the password step,
+// password reset links, email verification links, the state of an OAuth
+// sign-in and the mock provider's authorization codes. The audience keeps one
+// kind from being accepted as another, or as a session.
+export type PurposeTokenAudience =
+  | "two-factor"
+  | "password-reset"
+  | "email-verification"
+  | "oauth-state"
+  | "oauth-mock-code";
+
+export async function generatePurposeToken(
+  audience: PurposeTokenAudience,
+  claims: Record<string, string>,
+  expiresIn: string
+): Promise<string> {
+  return await new SignJWT(claims)
+    .setProtectedHeader({ alg: "HS256" })
+    .setAudience(audience)
+    .setIssuedAt()
+    .setExpirationTime(expiresIn)
+    .sign(getSecretKey());
+}
+
+export async function verifyPurposeToken(
+  audience: PurposeTokenAudience,
+  token: string
+): Promise<Record<string, unknown> | null> {
+  try {
+    const { payload } = await jwtVerify(token, getSecretKey(), { audience });
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+export async function generateTwoFactorChallenge(userId: string): Promise<string> {
+  return generatePurposeToken("two-factor", { userId }, "5m");
+}
+
+export async function verifyTwoFactorChallenge(token: string): Promise<string | null> {
+  const payload = await verifyPurposeToken("two-factor", token);
+  return typeof payload?.userId === "string" ? payload.userId : null;
+}
@@ -2,7 +2,8 @@
 "use server";
 
 import { cookies } from "next/headers";
-import { generateToken, verifyToken, JWTPayload } from "./jwt-core";
+import { verifyToken, verifyTwoFactorChallenge, JWTPayload } from "./jwt-core";
+import { isSessionActive } from "@/lib/services/session.service";
 
 export async function setAuthCookie(token: string) {
   const cookieStore = await cookies();
@@ -25,8 +26,38 @@ export async function removeAuthCookie() {
   cookieStore.delete("auth-token");
 }
 
+export async function setTwoFactorChallengeCookie(token: string) {
+  const cookieStore = await cookies();
+  cookieStore.set("2fa-challenge", token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    maxAge: 60 * 5,
+    path: "/",
+  });
+}
+
+/**
+ * User ID of the sign-in waiting for its second factor
+ */
+export async function getTwoFactorChallengeUserId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get("2fa-challenge")?.value;
+  return token ? await verifyTwoFactorChallenge(token) : null;
+}
+
+export async function removeTwoFactorChallengeCookie() {
+  const cookieStore = await cookies();
+  cookieStore.delete("2fa-challenge");
+}
+
 export async function getCurrentUser(): Promise<JWTPayload | null> {
   const token = await getAuthToken();
   if (!token) return null;
-  return await verifyToken(token);
+
+  const payload = await verifyToken(token);
+  if (!payload?.jti || !(await isSessionActive(payload.jti, payload.userId))) {
+    return null;
+  }
+  return payload;
 }
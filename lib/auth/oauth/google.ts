@@ -0,0 +1,20 @@
+import { env } from "@/lib/config/env";
+import { createOidcProvider } from "./provider";
+
+/**
+ * Google sign-in
+ * Enabled once GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET are set; the client's
+ * authorized redirect URI is <APP_URL>/api/auth/oauth/google/callback
+ */
+export const googleProvider = createOidcProvider({
+  id: "google",
+  name: "Google",
+  clientId: env.GOOGLE_CLIENT_ID,
+  clientSecret: env.GOOGLE_CLIENT_SECRET,
+  issuer: ["https://accounts.google.com", "accounts.google.com"],
+  authorizationEndpoint: "https://accounts.google.com/o/oauth2/v2/auth",
+  tokenEndpoint: "https://oauth2.googleapis.com/token",
+  jwksUri: "https://www.googleapis.com/oauth2/v3/certs",
+  scopes: ["openid", "email", "profile"],
+  authorizationParams: { prompt: "select_account" },
+});
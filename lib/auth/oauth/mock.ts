@@ -0,0 +1,88 @@
+import crypto from "crypto";
+import { env, isProduction } from "@/lib/config/env";
+import { generatePurposeToken, verifyPurposeToken } from "@/lib/auth/jwt-core";
+import { createPkceChallenge, OAuthError, type OAuthProfile, type OAuthProvider } from "./provider";
+
+/**
+ * Mock sign-in provider for local development and tests
+ * Its authorization page (/auth/oauth/mock) lets you sign in as any email
+ * address, so it's only enabled with OAUTH_MOCK_ENABLED and never in
+ * production. Authorization codes are signed tokens checked in-process, with
+ * the same PKCE, redirect URI and nonce checks as a real provider.
+ */
+
+const MOCK_CODE_EXPIRES_IN = "2m";
+
+export interface MockIdentity {
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  emailVerified: boolean;
+}
+
+/**
+ * Authorization code for the identity chosen on the mock authorization page
+ */
+export async function issueMockAuthorizationCode(
+  identity: MockIdentity,
+  request: { redirectUri: string; codeChallenge: string; nonce: string }
+): Promise<string> {
+  const email = identity.email.trim().toLowerCase();
+
+  return generatePurposeToken(
+    "oauth-mock-code",
+    {
+      sub: `mock-${crypto.createHash("sha256").update(email).digest("hex").slice(0, 16)}`,
+      email,
+      emailVerified: String(identity.emailVerified),
+      firstName: identity.firstName?.trim() || "",
+      lastName: identity.lastName?.trim() || "",
+      redirectUri: request.redirectUri,
+      codeChallenge: request.codeChallenge,
+      nonce: request.nonce,
+    },
+    MOCK_CODE_EXPIRES_IN
+  );
+}
+
+export const mockProvider: OAuthProvider = {
+  id: "mock",
+  name: "Mock provider",
+
+  isEnabled() {
+    return env.OAUTH_MOCK_ENABLED && !isProduction;
+  },
+
+  getAuthorizationUrl({ redirectUri, state, codeChallenge, nonce }) {
+    const url = new URL("/auth/oauth/mock", redirectUri);
+    url.search = new URLSearchParams({
+      redirect_uri: redirectUri,
+      state,
+      code_challenge: codeChallenge,
+      nonce,
+    }).toString();
+    return url.toString();
+  },
+
+  async authenticate({ code, redirectUri, codeVerifier, nonce }): Promise<OAuthProfile> {
+    const claims = await verifyPurposeToken("oauth-mock-code", code);
+    if (!claims || claims.redirectUri !== redirectUri) {
+      throw new OAuthError("Invalid authorization code", "OAUTH_TOKEN_ERROR");
+    }
+    if (claims.codeChallenge !== createPkceChallenge(codeVerifier)) {
+      throw new OAuthError("The code verifier doesn't match", "OAUTH_TOKEN_ERROR");
+    }
+    if (claims.nonce !== nonce) {
+      throw new OAuthError("The ID token doesn't belong to this sign-in", "OAUTH_NONCE_MISMATCH");
+    }
+
+    return {
+      id: String(claims.sub),
+      email: String(claims.email),
+      emailVerified: claims.emailVerified === "true",
+      firstName: (claims.firstName as string) || null,
+      lastName: (claims.lastName as string) || null,
+      avatar: null,
+    };
+  },
+};
@@ -0,0 +1,157 @@
+/**
+ * OAuth Providers
+ * A provider signs a user in with the authorization code flow and PKCE, then
+ * reports who they are. OpenID Connect providers are described by their
+ * endpoints (createOidcProvider); the mock provider answers in-process.
+ */
+
+import crypto from "crypto";
+import { createRemoteJWKSet, jwtVerify } from "jose";
+import { AppError } from "@/lib/utils/error-handler";
+
+export interface OAuthProfile {
+  id: string; // Subject at the provider
+  email: string;
+  emailVerified: boolean;
+  firstName: string | null;
+  lastName: string | null;
+  avatar: string | null;
+}
+
+export interface OAuthAuthorizationParams {
+  redirectUri: string;
+  state: string;
+  codeChallenge: string;
+  nonce: string;
+}
+
+export interface OAuthCodeExchange {
+  code: string;
+  redirectUri: string;
+  codeVerifier: string;
+  nonce: string; // Must match the nonce in the ID token
+}
+
+export interface OAuthProvider {
+  id: string;
+  name: string;
+  isEnabled(): boolean;
+  getAuthorizationUrl(params: OAuthAuthorizationParams): string;
+  /** Exchange the authorization code and read the user's profile */
+  authenticate(exchange: OAuthCodeExchange): Promise<OAuthProfile>;
+}
+
+export class OAuthError extends AppError {
+  constructor(message: string, code: string = "OAUTH_ERROR") {
+    super(message, 400, code);
+  }
+}
+
+/**
+ * Random value for the state and nonce parameters
+ */
+export function createOAuthNonce(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+/**
+ * S256 code challenge for a PKCE code verifier (RFC 7636)
+ */
+export function createPkceChallenge(verifier: string): string {
+  return crypto.createHash("sha256").update(verifier).digest("base64url");
+}
+
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = createOAuthNonce();
+  return { verifier, challenge: createPkceChallenge(verifier) };
+}
+
+export interface OidcProviderConfig {
+  id: string;
+  name: string;
+  clientId?: string;
+  clientSecret?: string;
+  issuer: string | string[];
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  jwksUri: string;
+  scopes: string[];
+  authorizationParams?: Record<string, string>; // Extra parameters, e.g. prompt
+}
+
+/**
+ * OpenID Connect provider: the ID token from the token endpoint is verified
+ * against the provider's published keys and carries the profile claims
+ */
+export function createOidcProvider(config: OidcProviderConfig): OAuthProvider {
+  let jwks: ReturnType<typeof createRemoteJWKSet> | null = null;
+
+  return {
+    id: config.id,
+    name: config.name,
+
+    isEnabled() {
+      return Boolean(config.clientId && config.clientSecret);
+    },
+
+    getAuthorizationUrl({ redirectUri, state, codeChallenge, nonce }) {
+      const url = new URL(config.authorizationEndpoint);
+      url.search = new URLSearchParams({
+        response_type: "code",
+        client_id: config.clientId || "",
+        redirect_uri: redirectUri,
+        scope: config.scopes.join(" "),
+        state,
+        nonce,
+        code_challenge: codeChallenge,
+        code_challenge_method: "S256",
+        ...config.authorizationParams,
+      }).toString();
+      return url.toString();
+    },
+
+    async authenticate({ code, redirectUri, codeVerifier, nonce }) {
+      const response = await fetch(config.tokenEndpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+        body: new URLSearchParams({
+          grant_type: "authorization_code",
+          code,
+          redirect_uri: redirectUri,
+          client_id: config.clientId || "",
+          client_secret: config.clientSecret || "",
+          code_verifier: codeVerifier,
+        }),
+        cache: "no-store",
+      });
+
+      const tokens = await response.json().catch(() => null);
+      if (!response.ok || typeof tokens?.id_token !== "string") {
+        console.error(`${config.name} token exchange failed:`, response.status, tokens?.error || tokens);
+        throw new OAuthError(`${config.name} rejected the sign-in`, "OAUTH_TOKEN_ERROR");
+      }
+
+      jwks ??= createRemoteJWKSet(new URL(config.jwksUri));
+      const { payload } = await jwtVerify(tokens.id_token, jwks, {
+        issuer: config.issuer,
+        audience: config.clientId,
+      });
+
+      if (payload.nonce !== nonce) {
+        throw new OAuthError("The ID token doesn't belong to this sign-in", "OAUTH_NONCE_MISMATCH");
+      }
+      if (typeof payload.sub !== "string" || typeof payload.email !== "string") {
+        throw new OAuthError(`${config.name} didn't share an email address`, "OAUTH_NO_EMAIL");
+      }
+
+      return {
+        id: payload.sub,
+        email: payload.email.toLowerCase(),
+        emailVerified: payload.email_verified === true || payload.email_verified === "true",
+        firstName: typeof payload.given_name === "string" ? payload.given_name : null,
+        lastName: typeof payload.family_name === "string" ? payload.family_name : null,
+        avatar: typeof payload.picture === "string" ? payload.picture : null,
+      };
+    },
+  };
+}
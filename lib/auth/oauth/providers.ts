@@ -0,0 +1,24 @@
+import { googleProvider } from "./google";
+import { mockProvider } from "./mock";
+import type { OAuthProvider } from "./provider";
+
+/**
+ * Registered sign-in providers, in the order their buttons are shown
+ */
+const providers: OAuthProvider[] = [googleProvider, mockProvider];
+
+/**
+ * Enabled provider by ID
+ */
+export function getOAuthProvider(id: string): OAuthProvider | null {
+  return providers.find((provider) => provider.id === id && provider.isEnabled()) || null;
+}
+
+/**
+ * Providers to offer on the sign-in and sign-up pages
+ */
+export function getEnabledOAuthProviders(): { id: string; name: string }[] {
+  return providers
+    .filter((provider) => provider.isEnabled())
+    .map((provider) => ({ id: provider.id, name: provider.name }));
+}
@@ -0,0 +1,78 @@
+import crypto from "crypto";
+import { cookies } from "next/headers";
+import { generatePurposeToken, verifyPurposeToken } from "@/lib/auth/jwt-core";
+import { getAppUrl } from "@/lib/utils/app-url";
+
+/**
+ * State of a sign-in in progress at a provider: the state parameter, PKCE
+ * verifier and nonce, kept in a signed cookie until the callback
+ */
+
+const OAUTH_STATE_COOKIE = "oauth-state";
+const OAUTH_STATE_MAX_AGE = 60 * 10;
+
+export interface OAuthState {
+  provider: string;
+  state: string;
+  verifier: string;
+  nonce: string;
+  redirect: string | null; // Same-site path to return to after signing in
+}
+
+export function getOAuthCallbackUrl(providerId: string): string {
+  return `${getAppUrl()}/api/auth/oauth/${providerId}/callback`;
+}
+
+export async function saveOAuthState(value: OAuthState) {
+  const token = await generatePurposeToken(
+    "oauth-state",
+    { ...value, redirect: value.redirect || "" },
+    `${OAUTH_STATE_MAX_AGE}s`
+  );
+
+  const cookieStore = await cookies();
+  cookieStore.set(OAUTH_STATE_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax", // Sent on the provider's redirect back to the callback
+    maxAge: OAUTH_STATE_MAX_AGE,
+    path: "/api/auth/oauth",
+  });
+}
+
+/**
+ * Read and clear the saved state; each sign-in attempt can complete once
+ * @returns The state, or null when it's missing, expired or doesn't match the
+ * state parameter the provider returned
+ */
+export async function takeOAuthState(providerId: string, returnedState: string | null): Promise<OAuthState | null> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(OAUTH_STATE_COOKIE)?.value;
+  cookieStore.delete({ name: OAUTH_STATE_COOKIE, path: "/api/auth/oauth" });
+
+  const payload = token ? await verifyPurposeToken("oauth-state", token) : null;
+  if (
+    !payload ||
+    !returnedState ||
+    payload.provider !== providerId ||
+    typeof payload.state !== "string" ||
+    typeof payload.verifier !== "string" ||
+    typeof payload.nonce !== "string"
+  ) {
+    return null;
+  }
+
+  const expected = Buffer.from(payload.state);
+  const actual = Buffer.from(returnedState);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return {
+    provider: providerId,
+    state: payload.state,
+    verifier: payload.verifier,
+    nonce: payload.nonce,
+    redirect: typeof payload.redirect === "string" && payload.redirect ? payload.redirect : null,
+  };
+}
@@ -1,3 +1,4 @@
+import type { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { getCurrentUser } from "./jwt-server";
 
@@ -8,6 +9,23 @@ import { getCurrentUser } from "./jwt-server";
 
 export const SUPERADMIN_ROLE = "superadmin";
 
+// Roles whose members can never skip two-factor authentication
+export const TWO_FACTOR_REQUIRED_ROLES = [SUPERADMIN_ROLE, "admin"];
+
+/**
+ * Role assignments that currently grant a user anything
+ * Inactive roles grant nothing, and neither do roles that require two-factor
+ * authentication until the user has set it up
+ * @param userId - User ID
+ */
+function grantingRolesWhere(userId: string): Prisma.UserRoleWhereInput {
+  return {
+    userId,
+    role: { isActive: true },
+    OR: [{ role: { requireTwoFactor: false } }, { user: { twoFactorEnabled: true } }],
+  };
+}
+
 /**
  * Check if user has a specific permission
  * @param userId - User ID
@@ -20,7 +38,7 @@ export async function hasPermission(
 ): Promise<boolean> {
   // Superadmin has all permissions
   const userRoles = await prisma.userRole.findMany({
-    where: { userId },
+    where: grantingRolesWhere(userId),
     include: {
       role: {
         include: {
@@ -35,16 +53,12 @@ export async function hasPermission(
   });
 
   // Check if user is superadmin
-  const isSuperadmin = userRoles.some(
-    (ur: any) => ur.role.slug === SUPERADMIN_ROLE && ur.role.isActive
-  );
+  const isSuperadmin = userRoles.some((ur) => ur.role.slug === SUPERADMIN_ROLE);
 
   if (isSuperadmin) return true;
 
   // Check if user has the specific permission
   for (const userRole of userRoles) {
-    if (!userRole.role.isActive) continue;
-
     const hasPermission = userRole.role.permissions.some(
       (rp: any) => rp.permission.slug === permissionSlug && rp.permission.isActive
     );
@@ -64,7 +78,7 @@ export async function hasPermission(
 export async function hasMenuAccess(userId: string, menuSlug: string): Promise<boolean> {
   // Superadmin has access to all menus
   const userRoles = await prisma.userRole.findMany({
-    where: { userId },
+    where: grantingRolesWhere(userId),
     include: {
       role: {
         include: {
@@ -105,7 +119,7 @@ export async function hasMenuAccess(userId: string, menuSlug: string): Promise<b
  */
 export async function getUserPermissions(userId: string): Promise<string[]> {
   const userRoles = await prisma.userRole.findMany({
-    where: { userId },
+    where: grantingRolesWhere(userId),
     include: {
       role: {
         include: {
@@ -154,7 +168,7 @@ export async function getUserPermissions(userId: string): Promise<string[]> {
  */
 export async function getUserMenus(userId: string) {
   const userRoles = await prisma.userRole.findMany({
-    where: { userId },
+    where: grantingRolesWhere(userId),
     include: {
       role: {
         include: {
@@ -24,6 +24,27 @@ const envSchema = z.object({
   GOOGLE_CLIENT_SECRET: z.string().optional(),
   WHATSAPP_CLIENT_ID: z.string().optional(),
   WHATSAPP_CLIENT_SECRET: z.string().optional(),
+  OAUTH_DEFAULT_ROLE: z.string().default("citizen"), // Role given to accounts created by a social sign-in
+  OAUTH_MOCK_ENABLED: z.enum(["true", "false"]).default("false").transform((value) => value === "true"), // Test provider; never enabled in production
+  
+  // Cron / background jobs
+  CRON_SECRET: z.string().min(16, "CRON_SECRET must be at least 16 characters long").optional(),
+  
+  // Mail: "smtp" sends for real; "file" writes .eml files and "console" logs messages, for local development
+  MAIL_TRANSPORT: z.enum(["smtp", "file", "console"]).default("console"),
+  MAIL_FROM: z.string().default("News Dashboard <no-reply@localhost>"),
+  MAIL_FILE_DIR: z.string().default("storage/mail"),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().int().positive().default(587),
+  SMTP_SECURE: z.enum(["true", "false"]).default("false").transform((value) => value === "true"), // TLS from the start (port 465); otherwise STARTTLS when offered
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  
+  // Where rate limiter counts live: "database" is shared by every instance and survives deploys; "memory" is per process
+  RATE_LIMIT_STORE: z.enum(["database", "memory"]).default("database"),
+  
+  // Accounts must confirm their email address before using the dashboard
+  REQUIRE_EMAIL_VERIFICATION: z.enum(["true", "false"]).default("false").transform((value) => value === "true"),
   
   // Default Admin (only for seeding)
   DEFAULT_ADMIN_EMAIL: z.string().email().optional(),
@@ -49,6 +70,19 @@ export const env = (() => {
       GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET,
       WHATSAPP_CLIENT_ID: process.env.WHATSAPP_CLIENT_ID,
       WHATSAPP_CLIENT_SECRET: process.env.WHATSAPP_CLIENT_SECRET,
+      OAUTH_DEFAULT_ROLE: process.env.OAUTH_DEFAULT_ROLE || undefined,
+      OAUTH_MOCK_ENABLED: process.env.OAUTH_MOCK_ENABLED || undefined,
+      CRON_SECRET: process.env.CRON_SECRET,
+      MAIL_TRANSPORT: process.env.MAIL_TRANSPORT || undefined,
+      MAIL_FROM: process.env.MAIL_FROM || undefined,
+      MAIL_FILE_DIR: process.env.MAIL_FILE_DIR || undefined,
+      SMTP_HOST: process.env.SMTP_HOST,
+      SMTP_PORT: process.env.SMTP_PORT || undefined,
+      SMTP_SECURE: process.env.SMTP_SECURE || undefined,
+      SMTP_USER: process.env.SMTP_USER,
+      SMTP_PASSWORD: process.env.SMTP_PASSWORD,
+      RATE_LIMIT_STORE: process.env.RATE_LIMIT_STORE || undefined,
+      REQUIRE_EMAIL_VERIFICATION: process.env.REQUIRE_EMAIL_VERIFICATION || undefined,
       DEFAULT_ADMIN_EMAIL: process.env.DEFAULT_ADMIN_EMAIL,
       DEFAULT_ADMIN_USERNAME: process.env.DEFAULT_ADMIN_USERNAME,
       DEFAULT_ADMIN_PASSWORD: process.env.DEFAULT_ADMIN_PASSWORD,
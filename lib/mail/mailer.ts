@@ -0,0 +1,84 @@
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import { env } from "@/lib/config/env";
+import { buildMimeMessage, extractAddress, type MailMessage } from "./mime";
+import { sendSmtpMessage } from "./smtp-transport";
+
+/**
+ * Mailer
+ * Sends mail through the transport chosen by MAIL_TRANSPORT:
+ * - smtp: delivers through SMTP_HOST
+ * - file: writes each message as an .eml file to MAIL_FILE_DIR
+ * - console: logs the message, for local development
+ */
+
+export type { MailMessage } from "./mime";
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage, from: string): Promise<void>;
+}
+
+const smtpTransport: MailTransport = {
+  name: "smtp",
+  async send(message, from) {
+    if (!env.SMTP_HOST) {
+      throw new Error("SMTP_HOST is not set");
+    }
+    await sendSmtpMessage(
+      {
+        host: env.SMTP_HOST,
+        port: env.SMTP_PORT,
+        secure: env.SMTP_SECURE,
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+      },
+      extractAddress(from),
+      extractAddress(message.to),
+      buildMimeMessage(message, from)
+    );
+  },
+};
+
+const fileTransport: MailTransport = {
+  name: "file",
+  async send(message, from) {
+    const dir = path.join(process.cwd(), env.MAIL_FILE_DIR);
+    await fs.mkdir(dir, { recursive: true });
+    const filename = `${new Date().toISOString().replace(/[:.]/g, "-")}-${crypto.randomBytes(4).toString("hex")}.eml`;
+    await fs.writeFile(path.join(dir, filename), buildMimeMessage(message, from));
+  },
+};
+
+const consoleTransport: MailTransport = {
+  name: "console",
+  async send(message, from) {
+    console.info(
+      ["📧 Mail (console transport)", `From: ${from}`, `To: ${message.to}`, `Subject: ${message.subject}`, "", message.text].join(
+        "\n"
+      )
+    );
+  },
+};
+
+const transports: Record<typeof env.MAIL_TRANSPORT, MailTransport> = {
+  smtp: smtpTransport,
+  file: fileTransport,
+  console: consoleTransport,
+};
+
+/**
+ * Transport configured for this environment
+ */
+export function getMailTransport(): MailTransport {
+  return transports[env.MAIL_TRANSPORT];
+}
+
+/**
+ * Send a message from MAIL_FROM
+ * @throws When the transport fails; callers decide whether that is fatal
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message, env.MAIL_FROM);
+}
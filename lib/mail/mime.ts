@@ -0,0 +1,87 @@
+import crypto from "crypto";
+
+/**
+ * MIME Message Builder
+ * Turns a mail message into RFC 5322 text with plain-text and HTML parts,
+ * as sent over SMTP or written to .eml files.
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Bare address from "Name <address>" or "address"
+ */
+export function extractAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * Encode a header value as an RFC 2047 word when it isn't plain ASCII
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+/**
+ * Base64 body wrapped at 76 characters per line
+ */
+function encodeBody(content: string): string {
+  return (
+    Buffer.from(content, "utf8")
+      .toString("base64")
+      .match(/.{1,76}/g)
+      ?.join("\r\n") ?? ""
+  );
+}
+
+/**
+ * Build the full message source
+ */
+export function buildMimeMessage(message: MailMessage, from: string): string {
+  const domain = extractAddress(from).split("@")[1] || "localhost";
+  const boundary = `----=_Part_${crypto.randomBytes(12).toString("hex")}`;
+
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+  ];
+
+  if (!message.html) {
+    return [
+      ...headers,
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: base64",
+      "",
+      encodeBody(message.text),
+      "",
+    ].join("\r\n");
+  }
+
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(message.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
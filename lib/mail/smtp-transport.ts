@@ -0,0 +1,204 @@
+import net from "net";
+import os from "os";
+import tls from "tls";
+
+/**
+ * SMTP Transport
+ * Minimal SMTP client (RFC 5321): implicit TLS or STARTTLS, AUTH PLAIN/LOGIN,
+ * and one message per connection. Enough for a relay such as SES, Postmark,
+ * Mailgun or Gmail; no pooling or retries.
+ */
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (port 465); otherwise upgraded with STARTTLS when offered
+  user?: string;
+  password?: string;
+}
+
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+}
+
+const SOCKET_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * One SMTP conversation over a socket, reading replies line by line
+ */
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = "";
+  private pending: SmtpResponse["lines"] = [];
+  private responses: SmtpResponse[] = [];
+  private waiter: ((response: SmtpResponse) => void) | null = null;
+  private failure: Error | null = null;
+  private failWaiter: ((error: Error) => void) | null = null;
+
+  constructor(socket: net.Socket) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setTimeout(SOCKET_TIMEOUT_MS);
+    socket.on("data", (chunk: Buffer) => this.onData(chunk.toString("utf8")));
+    socket.on("timeout", () => this.fail(new Error("SMTP connection timed out")));
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  private onData(data: string) {
+    this.buffer += data;
+    let index;
+    while ((index = this.buffer.indexOf("\r\n")) !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.pending.push(line);
+
+      // "250-..." continues a reply; "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const response = { code: parseInt(line.slice(0, 3), 10), lines: this.pending };
+        this.pending = [];
+        const waiter = this.waiter;
+        this.waiter = null;
+        this.failWaiter = null;
+        if (waiter) {
+          waiter(response);
+        } else {
+          this.responses.push(response);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    if (this.failure) return;
+    this.failure = error;
+    this.failWaiter?.(error);
+    this.waiter = null;
+    this.failWaiter = null;
+  }
+
+  read(): Promise<SmtpResponse> {
+    return new Promise((resolve, reject) => {
+      const queued = this.responses.shift();
+      if (queued) return resolve(queued);
+      if (this.failure) return reject(this.failure);
+      this.waiter = resolve;
+      this.failWaiter = reject;
+    });
+  }
+
+  /**
+   * Send a command and check the reply code
+   */
+  async command(line: string, expected: number[], label = line.split(" ")[0]): Promise<SmtpResponse> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, label);
+  }
+
+  async expect(expected: number[], label: string): Promise<SmtpResponse> {
+    const response = await this.read();
+    if (!expected.includes(response.code)) {
+      throw new Error(`SMTP ${label} failed: ${response.lines.join(" ")}`);
+    }
+    return response;
+  }
+
+  write(data: string) {
+    this.socket.write(data);
+  }
+
+  /**
+   * Upgrade the connection to TLS after STARTTLS
+   */
+  async upgrade(host: string) {
+    this.socket.removeAllListeners();
+    const secureSocket = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once("secureConnect", resolve);
+      secureSocket.once("error", reject);
+    });
+    this.socket = secureSocket;
+    this.attach(secureSocket);
+  }
+
+  close() {
+    this.failure = this.failure || new Error("SMTP connection closed");
+    this.socket.end();
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once("error", reject);
+    socket.once("timeout", () => {
+      socket.destroy();
+      reject(new Error("SMTP connection timed out"));
+    });
+    socket.setTimeout(SOCKET_TIMEOUT_MS);
+  });
+}
+
+/**
+ * Capabilities announced in an EHLO reply, e.g. "STARTTLS", "AUTH PLAIN LOGIN"
+ */
+function parseCapabilities(response: SmtpResponse): string[] {
+  return response.lines.slice(1).map((line) => line.slice(4).toUpperCase());
+}
+
+/**
+ * Escape lines that start with a dot (RFC 5321 section 4.5.2)
+ */
+function dotStuff(source: string): string {
+  return source.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+}
+
+/**
+ * Deliver one message
+ * @param from - Envelope sender address
+ * @param to - Envelope recipient address
+ * @param source - Full MIME message
+ */
+export async function sendSmtpMessage(config: SmtpConfig, from: string, to: string, source: string) {
+  const socket = await connect(config);
+  const connection = new SmtpConnection(socket);
+  const hostname = os.hostname() || "localhost";
+
+  try {
+    await connection.expect([220], "greeting");
+    let capabilities = parseCapabilities(await connection.command(`EHLO ${hostname}`, [250]));
+
+    if (!config.secure && capabilities.includes("STARTTLS")) {
+      await connection.command("STARTTLS", [220]);
+      await connection.upgrade(config.host);
+      capabilities = parseCapabilities(await connection.command(`EHLO ${hostname}`, [250]));
+    }
+
+    if (config.user && config.password) {
+      const auth = capabilities.find((capability) => capability.startsWith("AUTH")) || "";
+      if (auth.includes("PLAIN") || !auth.includes("LOGIN")) {
+        const token = Buffer.from(`\u0000${config.user}\u0000${config.password}`).toString("base64");
+        await connection.command(`AUTH PLAIN ${token}`, [235], "AUTH");
+      } else {
+        await connection.command("AUTH LOGIN", [334], "AUTH");
+        await connection.command(Buffer.from(config.user).toString("base64"), [334], "AUTH");
+        await connection.command(Buffer.from(config.password).toString("base64"), [235], "AUTH");
+      }
+    }
+
+    await connection.command(`MAIL FROM:<${from}>`, [250], "MAIL FROM");
+    await connection.command(`RCPT TO:<${to}>`, [250, 251], "RCPT TO");
+    await connection.command("DATA", [354]);
+    connection.write(`${dotStuff(source).replace(/(\r\n)?$/, "\r\n")}.\r\n`);
+    await connection.expect([250], "DATA");
+    await connection.command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    connection.close();
+  }
+}
@@ -0,0 +1,81 @@
+import type { MailMessage } from "./mime";
+
+/**
+ * Mail Templates
+ * Account emails as plain text with a simple HTML alternative
+ */
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Minimal HTML layout with one call-to-action button
+ */
+function renderHtml(heading: string, paragraphs: string[], action: { label: string; url: string }, footer: string) {
+  const body = paragraphs.map((text) => `<p style="margin:0 0 16px">${escapeHtml(text)}</p>`).join("");
+  const url = escapeHtml(action.url);
+
+  return `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b">
+    <div style="max-width:520px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px">
+      <h1 style="margin:0 0 16px;font-size:20px">${escapeHtml(heading)}</h1>
+      ${body}
+      <p style="margin:24px 0">
+        <a href="${url}" style="display:inline-block;background:#18181b;color:#ffffff;text-decoration:none;padding:12px 20px;border-radius:6px">${escapeHtml(action.label)}</a>
+      </p>
+      <p style="margin:0 0 16px;font-size:13px;color:#71717a">If the button doesn't work, copy this link into your browser:<br><a href="${url}" style="color:#71717a;word-break:break-all">${url}</a></p>
+      <p style="margin:0;font-size:13px;color:#71717a">${escapeHtml(footer)}</p>
+    </div>
+  </body>
+</html>`;
+}
+
+/**
+ * Password reset link
+ */
+export function passwordResetEmail(to: string, name: string, url: string, expiresInMinutes: number): MailMessage {
+  const intro = `Hi ${name}, we received a request to reset the password for your account.`;
+  const expiry = `The link works once and expires in ${expiresInMinutes} minutes.`;
+  const footer = "If you didn't ask for this, you can ignore this email; your password stays the same.";
+
+  return {
+    to,
+    subject: "Reset your password",
+    text: [intro, "", `Choose a new password: ${url}`, "", expiry, "", footer].join("\n"),
+    html: renderHtml("Reset your password", [intro, expiry], { label: "Reset password", url }, footer),
+  };
+}
+
+/**
+ * Sent instead of a new account when someone signs up with a registered address
+ */
+export function accountExistsEmail(to: string, name: string, signInUrl: string): MailMessage {
+  const intro = `Hi ${name}, someone tried to create an account with this email address, but you already have one.`;
+  const help = "Sign in with your existing password. If you've forgotten it, you can reset it from the sign-in page.";
+  const footer = "If this wasn't you, you can ignore this email; nothing has changed on your account.";
+
+  return {
+    to,
+    subject: "You already have an account",
+    text: [intro, "", `Sign in: ${signInUrl}`, "", help, "", footer].join("\n"),
+    html: renderHtml("You already have an account", [intro, help], { label: "Sign in", url: signInUrl }, footer),
+  };
+}
+
+/**
+ * Email address confirmation link
+ */
+export function emailVerificationEmail(to: string, name: string, url: string, expiresInHours: number): MailMessage {
+  const intro = `Hi ${name}, please confirm that this is your email address.`;
+  const expiry = `The link expires in ${expiresInHours} hours.`;
+  const footer = "If you didn't create an account, you can ignore this email.";
+
+  return {
+    to,
+    subject: "Confirm your email address",
+    text: [intro, "", `Confirm your email: ${url}`, "", expiry, "", footer].join("\n"),
+    html: renderHtml("Confirm your email address", [intro, expiry], { label: "Confirm email", url }, footer),
+  };
+}
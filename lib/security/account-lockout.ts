@@ -0,0 +1,41 @@
+/**
+ * Account Lockout Policy
+ * Per-account defence against password guessing from many IP addresses.
+ * After LOCKOUT_THRESHOLD consecutive failed sign-ins the account is locked
+ * for a minute, and each further failure doubles the lock, up to a day.
+ */
+
+export const LOCKOUT_THRESHOLD = 5;
+
+const LOCKOUT_BASE_MS = 60 * 1000; // 1 minute
+const LOCKOUT_MAX_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+// Failures further apart than this don't add up
+export const FAILED_LOGIN_RESET_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How long to lock an account after its nth consecutive failure
+ * @returns Milliseconds, or 0 when the account stays unlocked
+ */
+export function getLockoutDuration(failedAttempts: number): number {
+  if (failedAttempts < LOCKOUT_THRESHOLD) return 0;
+  const exponent = Math.min(failedAttempts - LOCKOUT_THRESHOLD, 20);
+  return Math.min(LOCKOUT_BASE_MS * 2 ** exponent, LOCKOUT_MAX_MS);
+}
+
+/**
+ * Whether a lock is in force
+ */
+export function isLocked(lockedUntil: Date | null | undefined, now: Date = new Date()): boolean {
+  return !!lockedUntil && lockedUntil > now;
+}
+
+/**
+ * Remaining lock time for messages, e.g. "4 minutes" or "2 hours"
+ */
+export function formatLockoutRemaining(lockedUntil: Date, now: Date = new Date()): string {
+  const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - now.getTime()) / 60000));
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  const hours = Math.ceil(minutes / 60);
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+}
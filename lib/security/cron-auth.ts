@@ -0,0 +1,31 @@
+import { timingSafeEqual } from "crypto";
+import { env } from "@/lib/config/env";
+
+/**
+ * Cron Request Authentication
+ * Protects cron-style API routes with a shared secret sent as
+ * `Authorization: Bearer <CRON_SECRET>`
+ */
+
+/**
+ * Verify that a request carries the configured cron secret
+ * @param request - Incoming request
+ * @returns true if the secret matches, false otherwise (or if no secret is configured)
+ */
+export function verifyCronRequest(request: Request): boolean {
+  const secret = env.CRON_SECRET;
+  if (!secret) {
+    return false;
+  }
+
+  const header = request.headers.get("authorization");
+  if (!header?.startsWith("Bearer ")) {
+    return false;
+  }
+
+  const provided = Buffer.from(header.slice("Bearer ".length));
+  const expected = Buffer.from(secret);
+
+  // Use timing-safe comparison to prevent timing attacks
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
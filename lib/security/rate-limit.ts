@@ -1,22 +1,105 @@
 /**
  * Rate Limiting Utility
- * Simple in-memory rate limiter for production use
- * For production at scale, consider using Redis-based rate limiting
+ * Fixed-window rate limiter. Counts live in a pluggable store: the database
+ * by default, so limits hold across instances and deploys, or process memory
+ * (RATE_LIMIT_STORE=memory) for single-instance setups.
  */
 
-interface RateLimitStore {
-  [key: string]: {
-    count: number;
-    resetTime: number;
+import { prisma } from "@/lib/prisma";
+import { env } from "@/lib/config/env";
+
+/**
+ * Where rate limit windows are counted
+ */
+export interface RateLimitStore {
+  /** Count a request in the key's current window, starting a new window when the last one ended */
+  increment(key: string, windowMs: number): Promise<{ count: number; resetTime: number }>;
+  /** Forget the key's window */
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Per-process store; counts reset on restart and aren't shared between instances
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const entries = new Map<string, { count: number; resetTime: number }>();
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+
+      // Clean up expired entries periodically (every 1000 checks)
+      if (Math.random() < 0.001) {
+        entries.forEach((entry, k) => {
+          if (entry.resetTime < now) entries.delete(k);
+        });
+      }
+
+      const entry = entries.get(key);
+
+      // No entry or expired
+      if (!entry || entry.resetTime < now) {
+        const fresh = { count: 1, resetTime: now + windowMs };
+        entries.set(key, fresh);
+        return { ...fresh };
+      }
+
+      entry.count += 1;
+      return { ...entry };
+    },
+
+    async reset(key) {
+      entries.delete(key);
+    },
   };
 }
 
-const store: RateLimitStore = {};
+/**
+ * Database store; one row per key, counted with a single atomic upsert
+ */
+export function createDatabaseRateLimitStore(): RateLimitStore {
+  return {
+    async increment(key, windowMs) {
+      const now = new Date();
+      const resetAt = new Date(now.getTime() + windowMs);
+
+      // Clean up expired windows periodically (every 1000 checks)
+      if (Math.random() < 0.001) {
+        await prisma.rateLimitBucket.deleteMany({ where: { resetAt: { lt: now } } });
+      }
+
+      const [bucket] = await prisma.$queryRaw<Array<{ count: number; resetAt: Date }>>`
+        INSERT INTO rate_limits ("key", "count", "resetAt")
+        VALUES (${key}, 1, ${resetAt})
+        ON CONFLICT ("key") DO UPDATE SET
+          "count" = CASE WHEN rate_limits."resetAt" < ${now} THEN 1 ELSE rate_limits."count" + 1 END,
+          "resetAt" = CASE WHEN rate_limits."resetAt" < ${now} THEN EXCLUDED."resetAt" ELSE rate_limits."resetAt" END
+        RETURNING "count", "resetAt"
+      `;
+
+      return { count: bucket.count, resetTime: bucket.resetAt.getTime() };
+    },
+
+    async reset(key) {
+      await prisma.rateLimitBucket.deleteMany({ where: { key } });
+    },
+  };
+}
+
+const memoryStore = createMemoryRateLimitStore();
+const databaseStore = createDatabaseRateLimitStore();
+
+/**
+ * Store selected by RATE_LIMIT_STORE
+ */
+export function getRateLimitStore(): RateLimitStore {
+  return env.RATE_LIMIT_STORE === "memory" ? memoryStore : databaseStore;
+}
 
 /**
  * Rate limit configuration
  */
-interface RateLimitConfig {
+export interface RateLimitConfig {
   windowMs: number; // Time window in milliseconds
   maxRequests: number; // Maximum requests per window
 }
@@ -34,46 +117,51 @@ const loginRateLimit: RateLimitConfig = {
   maxRequests: 5, // 5 login attempts per 15 minutes
 };
 
+/**
+ * Two-factor code rate limit
+ */
+const twoFactorRateLimit: RateLimitConfig = {
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 5, // 5 codes per 15 minutes
+};
+
+/**
+ * Registration rate limit
+ */
+const registrationRateLimit: RateLimitConfig = {
+  windowMs: 60 * 60 * 1000, // 1 hour
+  maxRequests: 5, // 5 sign-ups per hour
+};
+
+/**
+ * Account email rate limit (password reset and verification links)
+ */
+const accountEmailRateLimit: RateLimitConfig = {
+  windowMs: 60 * 60 * 1000, // 1 hour
+  maxRequests: 5, // 5 emails per hour
+};
+
 /**
  * Check if request should be rate limited
+ * Falls back to the memory store when the configured store fails, so an
+ * outage doesn't switch limits off.
  * @param identifier - Unique identifier (IP address, user ID, etc.)
  * @param config - Rate limit configuration
- * @returns true if rate limited, false otherwise
+ * @param store - Where the window is counted; defaults to the configured store
  */
-export function checkRateLimit(
+export async function checkRateLimit(
   identifier: string,
-  config: RateLimitConfig = defaultConfig
-): { limited: boolean; remaining: number; resetTime: number } {
-  const now = Date.now();
-  const key = identifier;
-
-  // Clean up expired entries periodically (every 1000 checks)
-  if (Math.random() < 0.001) {
-    Object.keys(store).forEach((k) => {
-      if (store[k].resetTime < now) {
-        delete store[k];
-      }
-    });
+  config: RateLimitConfig = defaultConfig,
+  store: RateLimitStore = getRateLimitStore()
+): Promise<{ limited: boolean; remaining: number; resetTime: number }> {
+  let entry: { count: number; resetTime: number };
+  try {
+    entry = await store.increment(identifier, config.windowMs);
+  } catch (error) {
+    console.error("Rate limit store error:", error);
+    entry = await memoryStore.increment(identifier, config.windowMs);
   }
 
-  const entry = store[key];
-
-  // No entry or expired
-  if (!entry || entry.resetTime < now) {
-    store[key] = {
-      count: 1,
-      resetTime: now + config.windowMs,
-    };
-    return {
-      limited: false,
-      remaining: config.maxRequests - 1,
-      resetTime: now + config.windowMs,
-    };
-  }
-
-  // Increment count
-  entry.count += 1;
-
   // Check if limit exceeded
   if (entry.count > config.maxRequests) {
     return {
@@ -98,6 +186,43 @@ export function checkLoginRateLimit(identifier: string) {
   return checkRateLimit(`login:${identifier}`, loginRateLimit);
 }
 
+/**
+ * Check registration rate limit
+ * Keeps throwaway accounts expensive to create in bulk
+ * @param identifier - IP address
+ */
+export function checkRegistrationRateLimit(identifier: string) {
+  return checkRateLimit(`register:${identifier}`, registrationRateLimit);
+}
+
+/**
+ * Check two-factor code rate limit
+ * Keyed by account so a stolen password can't be paired with guessed codes
+ * @param userId - Account completing the second step
+ */
+export function checkTwoFactorRateLimit(userId: string) {
+  return checkRateLimit(`2fa:${userId}`, twoFactorRateLimit);
+}
+
+/**
+ * Check account email rate limit
+ * Applied per IP and per address, so one inbox can't be flooded
+ * @param identifier - IP address, email address or user ID
+ */
+export function checkAccountEmailRateLimit(identifier: string) {
+  return checkRateLimit(`account-email:${identifier}`, accountEmailRateLimit);
+}
+
+/**
+ * Check comment posting rate limit
+ * The window and count come from the comment moderation settings
+ * @param identifier - IP address of the commenter
+ * @param config - Rate limit configuration
+ */
+export function checkCommentRateLimit(identifier: string, config: RateLimitConfig) {
+  return checkRateLimit(`comment:${identifier}`, config);
+}
+
 /**
  * Get client IP address from request
  * @param request - Next.js request object
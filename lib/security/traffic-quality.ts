@@ -0,0 +1,150 @@
+import { prisma } from "@/lib/prisma";
+import { checkRateLimit, createMemoryRateLimitStore, getClientIP } from "./rate-limit";
+
+/**
+ * Traffic Quality Utility
+ * Decides whether a view, impression or click beacon comes from a real reader.
+ * Bots, prefetches, repeated views and click bursts are rejected and recorded
+ * as filtered events instead of being counted.
+ */
+
+export type TrafficKind = "news_view" | "blog_view" | "ad_impression" | "ad_click";
+
+export type TrafficFilterReason = "bot" | "automation" | "prefetch" | "duplicate" | "rate_limited";
+
+export type TrafficAssessment =
+  | { valid: true; ipAddress: string; userAgent: string | null }
+  | { valid: false; reason: TrafficFilterReason; ipAddress: string; userAgent: string | null };
+
+/**
+ * Crawlers, link previewers, monitoring and scripted HTTP clients
+ */
+const BOT_USER_AGENT =
+  /bot|crawl|spider|slurp|scrape|fetch|preview|headless|phantom|selenium|puppeteer|playwright|lighthouse|pagespeed|pingdom|uptime|monitor|curl|wget|httpclient|python-|java\/|go-http|okhttp|axios|node-fetch|libwww|facebookexternalhit|whatsapp|telegram|embedly|quora link/i;
+
+/**
+ * Same reader hitting the same article or blog post again inside this window is one view
+ */
+const VIEW_DEDUPE_WINDOW_MS = 30 * 60 * 1000; // 30 minutes
+
+/**
+ * Repeat clicks on the same ad inside this window are duplicates (double clicks, reloads)
+ */
+const CLICK_DEDUPE_WINDOW_MS = 10 * 60 * 1000; // 10 minutes
+
+const CLICK_BURST_LIMIT = {
+  windowMs: 60 * 1000, // 1 minute
+  maxRequests: 5, // Clicks on any ads per IP
+};
+
+const IMPRESSION_BURST_LIMIT = {
+  windowMs: 60 * 1000, // 1 minute
+  maxRequests: 60, // Impressions per IP
+};
+
+/**
+ * Dedupe and burst windows are kept in process memory, never the shared
+ * database store: every public view, impression and click checks one, and a
+ * miss only lets an occasional repeat through
+ */
+const trafficStore = createMemoryRateLimitStore();
+
+/**
+ * Whether a user agent belongs to a crawler or scripted client
+ * A missing user agent counts as a bot
+ */
+export function isBotUserAgent(userAgent: string | null | undefined): boolean {
+  if (!userAgent || userAgent.trim().length < 10) return true;
+  return BOT_USER_AGENT.test(userAgent);
+}
+
+/**
+ * Whether the request was made by a prefetch or prerender rather than a reader
+ */
+function isPrefetch(headers: Headers): boolean {
+  const purpose = `${headers.get("purpose") || ""} ${headers.get("sec-purpose") || ""} ${headers.get("x-moz") || ""}`;
+  return /prefetch|prerender|preview/i.test(purpose);
+}
+
+/**
+ * Browsers always send a language and (modern ones) fetch metadata with beacons;
+ * requests with neither come from scripts that spoof a browser user agent
+ */
+function lacksBrowserHeaders(headers: Headers): boolean {
+  return !headers.get("accept-language") && !headers.get("sec-fetch-site");
+}
+
+/**
+ * Check a tracking request and decide whether it should be counted
+ * @param request - Incoming beacon request
+ * @param kind - What is being counted
+ * @param targetId - News, blog or advertisement ID
+ */
+export async function assessTraffic(request: Request, kind: TrafficKind, targetId: string): Promise<TrafficAssessment> {
+  const ipAddress = getClientIP(request);
+  const userAgent = request.headers.get("user-agent");
+  const filtered = (reason: TrafficFilterReason): TrafficAssessment => ({
+    valid: false,
+    reason,
+    ipAddress,
+    userAgent,
+  });
+
+  if (isPrefetch(request.headers)) return filtered("prefetch");
+  if (isBotUserAgent(userAgent)) return filtered("bot");
+  if (lacksBrowserHeaders(request.headers)) return filtered("automation");
+
+  // Readers behind one IP are told apart by user agent
+  const visitor = `${ipAddress}|${userAgent}`;
+
+  if (kind === "news_view" || kind === "blog_view") {
+    const repeat = await checkRateLimit(
+      `traffic:view:${targetId}:${visitor}`,
+      { windowMs: VIEW_DEDUPE_WINDOW_MS, maxRequests: 1 },
+      trafficStore
+    );
+    if (repeat.limited) return filtered("duplicate");
+  }
+
+  if (kind === "ad_impression") {
+    if ((await checkRateLimit(`traffic:impression:${ipAddress}`, IMPRESSION_BURST_LIMIT, trafficStore)).limited) {
+      return filtered("rate_limited");
+    }
+  }
+
+  if (kind === "ad_click") {
+    const repeat = await checkRateLimit(
+      `traffic:click:${targetId}:${visitor}`,
+      { windowMs: CLICK_DEDUPE_WINDOW_MS, maxRequests: 1 },
+      trafficStore
+    );
+    if (repeat.limited) return filtered("duplicate");
+
+    if ((await checkRateLimit(`traffic:clicks:${ipAddress}`, CLICK_BURST_LIMIT, trafficStore)).limited) {
+      return filtered("rate_limited");
+    }
+  }
+
+  return { valid: true, ipAddress, userAgent };
+}
+
+/**
+ * Store a rejected tracking request for the valid vs filtered report
+ */
+export async function recordFilteredTraffic(kind: TrafficKind, targetId: string, assessment: TrafficAssessment) {
+  if (assessment.valid) return;
+
+  try {
+    await prisma.filteredTrafficEvent.create({
+      data: {
+        kind,
+        targetId,
+        reason: assessment.reason,
+        ipAddress: assessment.ipAddress,
+        userAgent: assessment.userAgent?.slice(0, 500) || null,
+      },
+    });
+  } catch (error) {
+    console.error("Record filtered traffic error:", error);
+  }
+}
@@ -0,0 +1,177 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { env } from "@/lib/config/env";
+
+/**
+ * Two-Factor Authentication Utility
+ * Time-based one-time passwords (RFC 6238, 6 digits, 30 second steps) as used
+ * by Google Authenticator, Authy and 1Password, plus single-use recovery codes.
+ * Secrets are stored encrypted with a key derived from JWT_SECRET.
+ */
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_WINDOW = 1; // Steps accepted either side of now, for clock drift
+const RECOVERY_CODE_COUNT = 10;
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[^A-Z2-7]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function getEncryptionKey(): Buffer {
+  return createHash("sha256").update(`${env.JWT_SECRET}:two-factor`).digest();
+}
+
+/**
+ * Generate a new base32 TOTP secret (160 bits)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/**
+ * Encrypt a TOTP secret for storage (AES-256-GCM)
+ */
+export function encryptTotpSecret(secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64url")).join(".");
+}
+
+/**
+ * Decrypt a stored TOTP secret
+ * @returns The secret, or null when it cannot be decrypted (e.g. JWT_SECRET changed)
+ */
+export function decryptTotpSecret(stored: string): string | null {
+  try {
+    const [iv, tag, encrypted] = stored.split(".").map((part) => Buffer.from(part, "base64url"));
+    const decipher = createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * One-time password for a time step
+ */
+function generateTotp(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+
+  return binary.toString().padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * Check a one-time password against the current time
+ * @param lastUsedStep - Step of the last accepted code; it and earlier steps are refused so codes can't be replayed
+ * @returns The matched time step, or null when the code is wrong
+ */
+export function verifyTotp(secret: string, code: string, lastUsedStep?: number | null): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+  for (let step = currentStep - TOTP_WINDOW; step <= currentStep + TOTP_WINDOW; step++) {
+    if (lastUsedStep != null && step <= lastUsedStep) continue;
+    const expected = Buffer.from(generateTotp(secret, step));
+    if (timingSafeEqual(expected, Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * otpauth:// link that authenticator apps read from the enrolment QR code
+ */
+export function buildOtpAuthUri(accountName: string, secret: string): string {
+  const issuer = getTwoFactorIssuer();
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Name shown for the account in authenticator apps
+ */
+function getTwoFactorIssuer(): string {
+  const url = env.APP_URL || env.NEXT_PUBLIC_BASE_URL;
+  if (url) {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      // Fall through to the default
+    }
+  }
+  return "News Dashboard";
+}
+
+/**
+ * Generate recovery codes, formatted xxxxx-xxxxx
+ */
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+/**
+ * Hash a recovery code for storage; codes are random, so a plain SHA-256 is enough
+ */
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^a-z2-7]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+/**
+ * Whether the input looks like a recovery code rather than a 6-digit code
+ */
+export function isRecoveryCodeFormat(code: string): boolean {
+  return code.toLowerCase().replace(/[^a-z2-7]/g, "").length === 10;
+}
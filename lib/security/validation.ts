@@ -34,6 +34,40 @@ export const usernameSchema = z
   .toLowerCase()
   .trim();
 
+/**
+ * Whether a URL is an absolute http(s) link
+ * Other schemes such as javascript: and data: are rejected so stored links
+ * can't run script when clicked
+ */
+export function isHttpUrl(value: string | null | undefined): value is string {
+  if (!value) return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Absolute http(s) URL validation schema
+ */
+export function httpUrlSchema(message = "Please enter a valid URL") {
+  return z.string().url(message).refine(isHttpUrl, "URL must start with http:// or https://");
+}
+
+/**
+ * Same-site path to send a user to after signing in
+ * Absolute and protocol-relative URLs are rejected so the parameter cannot
+ * be used as an open redirect
+ */
+export function getSafeRedirectPath(value: string | null | undefined): string | null {
+  if (!value || !value.startsWith("/") || value.startsWith("//") || value.startsWith("/\\")) {
+    return null;
+  }
+  return value;
+}
+
 /**
  * Sanitize string input
  * Removes potentially dangerous characters
@@ -95,8 +95,10 @@ export function generateNewsStructuredData(news: {
     firstName?: string | null;
     lastName?: string | null;
     username: string;
+    authorSlug?: string | null;
   } | null;
   slug: string;
+  keywords?: string[];
 }, baseUrl: string = "https://bawalnews.com") {
   const url = `${baseUrl}/news/${news.slug}`;
   const image = news.coverImage || `${baseUrl}/og-default.jpg`;
@@ -104,6 +106,7 @@ export function generateNewsStructuredData(news: {
     ? {
         "@type": "Person",
         name: `${news.author.firstName || ""} ${news.author.lastName || ""}`.trim() || news.author.username,
+        url: `${baseUrl}/author/${encodeURIComponent(news.author.authorSlug || news.author.username)}`,
       }
     : {
         "@type": "Organization",
@@ -132,6 +135,154 @@ export function generateNewsStructuredData(news: {
       "@id": url,
     },
     articleBody: news.content,
+    ...(news.keywords && news.keywords.length > 0 && {
+      keywords: news.keywords.join(", "),
+    }),
+  };
+}
+
+/**
+ * Generate structured data (JSON-LD) for a live blog news article
+ * Extends the NewsArticle data with the coverage window and the update entries
+ */
+export function generateLiveBlogStructuredData(
+  news: Parameters<typeof generateNewsStructuredData>[0] & {
+    liveBlogEndedAt?: Date | null;
+    entries: Array<{
+      id: string;
+      title?: string | null;
+      text: string;
+      createdAt: string;
+      updatedAt: string;
+      author: { name: string; url: string };
+    }>;
+  },
+  baseUrl: string = "https://bawalnews.com"
+) {
+  const article = generateNewsStructuredData(news, baseUrl);
+  const url = `${baseUrl}/news/${news.slug}`;
+  const latestUpdate = news.entries.reduce(
+    (latest, entry) => (entry.updatedAt > latest ? entry.updatedAt : latest),
+    article.dateModified
+  );
+
+  return {
+    ...article,
+    "@type": "LiveBlogPosting",
+    dateModified: latestUpdate,
+    coverageStartTime: article.datePublished,
+    ...(news.liveBlogEndedAt && {
+      coverageEndTime: news.liveBlogEndedAt.toISOString(),
+    }),
+    liveBlogUpdate: news.entries.map((entry) => ({
+      "@type": "BlogPosting",
+      "@id": `${url}#update-${entry.id}`,
+      url: `${url}#update-${entry.id}`,
+      headline: entry.title || entry.text.slice(0, 110),
+      articleBody: entry.text,
+      datePublished: entry.createdAt,
+      dateModified: entry.updatedAt,
+      author: {
+        "@type": "Person",
+        name: entry.author.name,
+        url: `${baseUrl}${entry.author.url}`,
+      },
+    })),
+  };
+}
+
+/**
+ * Generate structured data (JSON-LD) for a blog post
+ */
+export function generateBlogStructuredData(blog: {
+  title: string;
+  content: string;
+  excerpt?: string | null;
+  coverImage?: string | null;
+  publishedAt?: Date | null;
+  updatedAt: Date;
+  views: number;
+  author: {
+    firstName?: string | null;
+    lastName?: string | null;
+    username: string;
+    authorSlug?: string | null;
+  };
+  authorUrl?: string;
+  slug: string;
+}, baseUrl: string = "https://bawalnews.com") {
+  const url = `${baseUrl}/blog/${encodeURIComponent(blog.slug)}`;
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "BlogPosting",
+    headline: blog.title,
+    description: blog.excerpt || blog.title,
+    image: blog.coverImage || `${baseUrl}/og-default.jpg`,
+    datePublished: blog.publishedAt?.toISOString(),
+    dateModified: blog.updatedAt.toISOString(),
+    author: {
+      "@type": "Person",
+      name: `${blog.author.firstName || ""} ${blog.author.lastName || ""}`.trim() || blog.author.username,
+      ...(blog.authorUrl && { url: `${baseUrl}${blog.authorUrl}` }),
+    },
+    publisher: {
+      "@type": "Organization",
+      name: "Bawal News",
+      logo: {
+        "@type": "ImageObject",
+        url: `${baseUrl}/logo.png`,
+      },
+    },
+    mainEntityOfPage: {
+      "@type": "WebPage",
+      "@id": url,
+    },
+    articleBody: blog.content,
+    interactionStatistic: {
+      "@type": "InteractionCounter",
+      interactionType: "https://schema.org/ReadAction",
+      userInteractionCount: blog.views,
+    },
+  };
+}
+
+/**
+ * Generate structured data (JSON-LD) for an author profile page
+ */
+export function generatePersonStructuredData(author: {
+  firstName?: string | null;
+  lastName?: string | null;
+  username: string;
+  authorSlug?: string | null;
+  avatar?: string | null;
+  designation?: string | null;
+  bio?: string | null;
+  sameAs?: string[];
+}, baseUrl: string = "https://bawalnews.com") {
+  const name = `${author.firstName || ""} ${author.lastName || ""}`.trim() || author.username;
+  const url = `${baseUrl}/author/${encodeURIComponent(author.authorSlug || author.username)}`;
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "ProfilePage",
+    url,
+    mainEntity: {
+      "@type": "Person",
+      name,
+      url,
+      ...(author.avatar && {
+        image: author.avatar.startsWith("http") ? author.avatar : `${baseUrl}${author.avatar}`,
+      }),
+      ...(author.designation && { jobTitle: author.designation }),
+      ...(author.bio && { description: author.bio }),
+      ...(author.sameAs && author.sameAs.length > 0 && { sameAs: author.sameAs }),
+      worksFor: {
+        "@type": "NewsMediaOrganization",
+        name: "Bawal News",
+        url: baseUrl,
+      },
+    },
   };
 }
 
@@ -0,0 +1,149 @@
+/**
+ * Account Email Service
+ * Password reset and email verification links. Both are signed, expiring
+ * tokens rather than stored rows: a reset token carries a fingerprint of the
+ * current password hash, so it stops working once the password changes, and
+ * a verification token carries the address it was sent to.
+ */
+
+import crypto from "crypto";
+import { prisma } from "@/lib/prisma";
+import { generatePurposeToken, verifyPurposeToken } from "@/lib/auth/jwt-core";
+import { sendMail } from "@/lib/mail/mailer";
+import { accountExistsEmail, emailVerificationEmail, passwordResetEmail } from "@/lib/mail/templates";
+import { getAuthorDisplayName } from "@/lib/utils/author";
+import { getAppUrl } from "@/lib/utils/app-url";
+
+const PASSWORD_RESET_EXPIRES_MINUTES = 60;
+const EMAIL_VERIFICATION_EXPIRES_HOURS = 24;
+
+interface AccountEmailUser {
+  id: string;
+  email: string;
+  username: string;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+function passwordFingerprint(passwordHash: string | null): string {
+  return crypto.createHash("sha256").update(passwordHash || "").digest("hex").slice(0, 16);
+}
+
+/**
+ * Email a password reset link
+ */
+export async function sendPasswordResetEmail(user: AccountEmailUser & { password: string | null }) {
+  const token = await generatePurposeToken(
+    "password-reset",
+    { userId: user.id, pwd: passwordFingerprint(user.password) },
+    `${PASSWORD_RESET_EXPIRES_MINUTES}m`
+  );
+  const url = `${getAppUrl()}/auth/reset-password?token=${encodeURIComponent(token)}`;
+
+  await sendMail(passwordResetEmail(user.email, getAuthorDisplayName(user), url, PASSWORD_RESET_EXPIRES_MINUTES));
+}
+
+/**
+ * Account a password reset token belongs to
+ * @returns The user, or null when the token is invalid, expired or already used
+ */
+export async function verifyPasswordResetToken(token: string) {
+  const payload = await verifyPurposeToken("password-reset", token);
+  if (typeof payload?.userId !== "string" || typeof payload.pwd !== "string") {
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: payload.userId },
+    select: { id: true, email: true, password: true, isActive: true },
+  });
+
+  if (!user?.isActive || passwordFingerprint(user.password) !== payload.pwd) {
+    return null;
+  }
+
+  return { id: user.id, email: user.email };
+}
+
+/**
+ * Email a link that confirms the account's address
+ */
+export async function sendVerificationEmail(user: AccountEmailUser) {
+  const token = await generatePurposeToken(
+    "email-verification",
+    { userId: user.id, email: user.email },
+    `${EMAIL_VERIFICATION_EXPIRES_HOURS}h`
+  );
+  const url = `${getAppUrl()}/auth/verify-email?token=${encodeURIComponent(token)}`;
+
+  await sendMail(
+    emailVerificationEmail(user.email, getAuthorDisplayName(user), url, EMAIL_VERIFICATION_EXPIRES_HOURS)
+  );
+}
+
+/**
+ * Mark the address in a verification token as confirmed
+ * Tokens for an address the account no longer uses are refused.
+ */
+export async function confirmEmailVerification(
+  token: string
+): Promise<{ status: "verified" | "already_verified" | "invalid"; userId?: string; email?: string }> {
+  const payload = await verifyPurposeToken("email-verification", token);
+  if (typeof payload?.userId !== "string" || typeof payload.email !== "string") {
+    return { status: "invalid" };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: payload.userId },
+    select: { id: true, email: true, isEmailVerified: true },
+  });
+
+  if (!user || user.email !== payload.email) {
+    return { status: "invalid" };
+  }
+
+  if (user.isEmailVerified) {
+    return { status: "already_verified", userId: user.id, email: user.email };
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { isEmailVerified: true },
+  });
+
+  return { status: "verified", userId: user.id, email: user.email };
+}
+
+/**
+ * Tell an account's owner that someone tried to register with their address
+ * Lets sign-up give the same reply whether or not the address is taken
+ */
+export async function sendAccountExistsEmail(user: AccountEmailUser) {
+  await sendMail(accountExistsEmail(user.email, getAuthorDisplayName(user), `${getAppUrl()}/auth/sign-in`));
+}
+
+/**
+ * Send the verification email without failing the caller
+ * A failed send is logged; the user can ask for another from the verify page.
+ * @returns Whether the email was sent
+ */
+export async function trySendVerificationEmail(user: AccountEmailUser): Promise<boolean> {
+  try {
+    await sendVerificationEmail(user);
+    return true;
+  } catch (error) {
+    console.error("Send verification email error:", error);
+    return false;
+  }
+}
+
+/**
+ * Whether the account has confirmed its email address
+ */
+export async function isEmailVerified(userId: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { isEmailVerified: true },
+  });
+  return !!user?.isEmailVerified;
+}
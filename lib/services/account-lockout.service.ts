@@ -0,0 +1,79 @@
+/**
+ * Account Lockout Service
+ * Counts consecutive failed sign-ins per account and applies the lockout
+ * policy. A successful sign-in, a password reset or an administrator clears
+ * the count.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { createAuditLog } from "@/lib/audit-log";
+import { FAILED_LOGIN_RESET_MS, getLockoutDuration } from "@/lib/security/account-lockout";
+
+interface RequestContext {
+  ipAddress: string;
+  userAgent: string;
+}
+
+/**
+ * Count a failed password or two-factor attempt
+ * @returns The new lock expiry when this failure locked the account, otherwise null
+ */
+export async function recordFailedLogin(
+  user: { id: string; email: string },
+  context: RequestContext
+): Promise<Date | null> {
+  const now = new Date();
+
+  // Start counting again when the previous failure is old; otherwise add one
+  const restarted = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ lastFailedLoginAt: null }, { lastFailedLoginAt: { lt: new Date(now.getTime() - FAILED_LOGIN_RESET_MS) } }],
+    },
+    data: { failedLoginAttempts: 1, lastFailedLoginAt: now },
+  });
+
+  const failedAttempts = restarted.count
+    ? 1
+    : (
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { failedLoginAttempts: { increment: 1 }, lastFailedLoginAt: now },
+          select: { failedLoginAttempts: true },
+        })
+      ).failedLoginAttempts;
+
+  const duration = getLockoutDuration(failedAttempts);
+  if (!duration) return null;
+
+  const lockedUntil = new Date(now.getTime() + duration);
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lockedUntil },
+  });
+
+  await createAuditLog(
+    {
+      action: "ACCOUNT_LOCKED",
+      resource: "User",
+      resourceId: user.id,
+      description: `Account ${user.email} locked after ${failedAttempts} failed sign-in attempts`,
+      metadata: { failedAttempts, lockedUntil: lockedUntil.toISOString() },
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    },
+    user.id
+  );
+
+  return lockedUntil;
+}
+
+/**
+ * Lift a lock and forget the failed attempts
+ */
+export async function clearAccountLockout(userId: string) {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null },
+  });
+}
@@ -0,0 +1,108 @@
+/**
+ * Advertisement Report Service
+ * Daily impressions, clicks and CTR for campaigns, built from stored ad events
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getClickThroughRate, type AdReport, type AdReportDay } from "@/lib/utils/ad-reports";
+
+/**
+ * Calendar day (YYYY-MM-DD) of a date in UTC
+ */
+function toUtcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Build the report of the given campaigns for the last `days` days (today included)
+ * Events are attributed to the campaign the ad belonged to when they happened
+ */
+export async function getCampaignReport(
+  title: string,
+  campaignIds: string[],
+  days: number
+): Promise<AdReport> {
+  const from = new Date();
+  from.setUTCHours(0, 0, 0, 0);
+  from.setUTCDate(from.getUTCDate() - (days - 1));
+
+  const byDay = new Map<string, AdReportDay>();
+  for (let index = 0; index < days; index++) {
+    const date = new Date(from);
+    date.setUTCDate(from.getUTCDate() + index);
+    const day = toUtcDay(date);
+    byDay.set(day, { date: day, impressions: 0, clicks: 0, ctr: 0 });
+  }
+
+  const report: AdReport = {
+    title,
+    from: toUtcDay(from),
+    to: toUtcDay(new Date()),
+    days: [],
+    creatives: [],
+    totals: { impressions: 0, clicks: 0, ctr: 0 },
+  };
+
+  if (campaignIds.length > 0) {
+    const where: Prisma.AdEventWhereInput = {
+      campaignId: { in: campaignIds },
+      createdAt: { gte: from },
+    };
+
+    const [dailyRows, creativeRows] = await Promise.all([
+      prisma.$queryRaw<Array<{ day: Date; type: string; count: number }>>`
+        SELECT date_trunc('day', "createdAt") AS day, type, COUNT(*)::int AS count
+        FROM ad_events
+        WHERE "campaignId" IN (${Prisma.join(campaignIds)})
+          AND "createdAt" >= ${from}
+        GROUP BY 1, 2
+      `,
+      prisma.adEvent.groupBy({
+        by: ["adId", "type"],
+        where,
+        _count: { _all: true },
+      }),
+    ]);
+
+    for (const row of dailyRows) {
+      const entry = byDay.get(toUtcDay(row.day));
+      if (!entry) continue;
+      if (row.type === "impression") entry.impressions += row.count;
+      if (row.type === "click") entry.clicks += row.count;
+    }
+
+    const creatives = new Map<string, { impressions: number; clicks: number }>();
+    for (const row of creativeRows) {
+      const entry = creatives.get(row.adId) || { impressions: 0, clicks: 0 };
+      if (row.type === "impression") entry.impressions += row._count._all;
+      if (row.type === "click") entry.clicks += row._count._all;
+      creatives.set(row.adId, entry);
+    }
+
+    const ads = await prisma.advertisement.findMany({
+      where: { id: { in: Array.from(creatives.keys()) } },
+      select: { id: true, title: true },
+    });
+    const titles = new Map(ads.map((ad) => [ad.id, ad.title]));
+
+    report.creatives = Array.from(creatives, ([adId, counts]) => ({
+      adId,
+      title: titles.get(adId) || "Deleted creative",
+      impressions: counts.impressions,
+      clicks: counts.clicks,
+      ctr: getClickThroughRate(counts.clicks, counts.impressions),
+    })).sort((a, b) => b.impressions - a.impressions);
+  }
+
+  report.days = Array.from(byDay.values()).map((day) => ({
+    ...day,
+    ctr: getClickThroughRate(day.clicks, day.impressions),
+  }));
+
+  const impressions = report.days.reduce((sum, day) => sum + day.impressions, 0);
+  const clicks = report.days.reduce((sum, day) => sum + day.clicks, 0);
+  report.totals = { impressions, clicks, ctr: getClickThroughRate(clicks, impressions) };
+
+  return report;
+}
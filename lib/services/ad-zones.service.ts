@@ -0,0 +1,93 @@
+/**
+ * Ad Zone Service
+ * Cached registry of the placement zones ads are served in, and the checks
+ * creatives must pass before they are placed in a zone
+ */
+
+import { revalidateTag, unstable_cache } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import {
+  checkAdCreativeForZone,
+  getZoneFallbackAd,
+  normalizeAdCreativeFormat,
+  type AdZoneDisplay,
+} from "@/lib/utils/ads";
+
+const AD_ZONES_TAG = "ad-zones";
+
+/**
+ * Every zone definition, cached until a zone changes
+ */
+export const getAdZoneRegistry = unstable_cache(
+  async () => {
+    return await prisma.adZone.findMany({ orderBy: { name: "asc" } });
+  },
+  [AD_ZONES_TAG],
+  {
+    revalidate: 300, // 5 minutes cache
+    tags: [AD_ZONES_TAG],
+  }
+);
+
+/**
+ * Drop the cached zone registry after a zone is created, changed or removed
+ */
+export function revalidateAdZoneRegistry() {
+  revalidateTag(AD_ZONES_TAG, { expire: 0 });
+}
+
+/**
+ * Definitions the ad components render the given zones by
+ * Unknown zones are left out
+ */
+export async function getAdZoneDisplays(slugs: string[]): Promise<Record<string, AdZoneDisplay>> {
+  const zones = await getAdZoneRegistry();
+  const displays: Record<string, AdZoneDisplay> = {};
+
+  for (const zone of zones) {
+    if (!slugs.includes(zone.slug)) continue;
+    displays[zone.slug] = {
+      slug: zone.slug,
+      width: zone.width,
+      height: zone.height,
+      maxAds: zone.maxAds,
+      isEnabled: zone.isEnabled,
+      fallback: getZoneFallbackAd(zone),
+    };
+  }
+
+  return displays;
+}
+
+/**
+ * Check that a zone exists and a creative image fits it
+ * Dimensions are known for images from the media library; for external URLs
+ * only the format (from the extension) can be checked
+ * @returns An error message, or null when the creative may be placed
+ */
+export async function checkCreativeForZone(zoneSlug: string, imageUrl: string): Promise<string | null> {
+  const zone = await prisma.adZone.findUnique({ where: { slug: zoneSlug } });
+  if (!zone) {
+    return "Ad zone not found";
+  }
+
+  if (!imageUrl) return null;
+
+  let path = imageUrl;
+  try {
+    path = new URL(imageUrl, "http://localhost").pathname;
+  } catch {
+    // Keep the URL as given
+  }
+
+  const media = await prisma.media.findFirst({
+    where: { url: { in: Array.from(new Set([imageUrl, path])) } },
+    select: { format: true, width: true, height: true },
+  });
+
+  return checkAdCreativeForZone(zone, {
+    format: normalizeAdCreativeFormat(media?.format) || normalizeAdCreativeFormat(path),
+    width: media?.width ?? null,
+    height: media?.height ?? null,
+  });
+}
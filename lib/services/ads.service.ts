@@ -5,26 +5,38 @@
  */
 
 import { cache } from "react";
-import { unstable_cache } from "next/cache";
+import { revalidateTag, unstable_cache } from "next/cache";
 import { prisma } from "@/lib/prisma";
+import { createAuditLog } from "@/lib/audit-log";
+import {
+  isAdFrequencyCapped,
+  matchesAdTargeting,
+  MAX_ADS_PER_ZONE,
+  pickWeightedAds,
+  type AdDisplay,
+  type AdFrequencyState,
+  type AdTargeting,
+  type AdTargetingContext,
+} from "@/lib/utils/ads";
 
-export interface AdDisplay {
-  id: string;
-  title: string;
-  description: string | null;
-  imageUrl: string;
-  linkUrl: string | null;
-  zone: string;
-  position: number;
-  newsId: string | null;
-  newsSlug?: string | null;
-}
+export type { AdDisplay } from "@/lib/utils/ads";
+
+/**
+ * Most eligible ads loaded per zone for rotation
+ */
+const MAX_ELIGIBLE_ADS = 50;
+
+/**
+ * Eligible ad with its targeting rules (never sent to the browser)
+ */
+type TargetedAd = AdDisplay & { targeting: AdTargeting };
 
 /**
- * Get active advertisements for a specific zone
- * Cached for 5 minutes to optimize performance
+ * Get every advertisement eligible to be served in a zone
+ * Active, approved, inside its schedule, and not held back by its campaign
+ * (manually paused, total budget exhausted or daily budget spent)
  */
-async function fetchActiveAdsByZone(zone: string, limit: number = 5): Promise<AdDisplay[]> {
+async function fetchActiveAdsByZone(zone: string): Promise<TargetedAd[]> {
   const now = new Date();
   
   try {
@@ -32,14 +44,25 @@ async function fetchActiveAdsByZone(zone: string, limit: number = 5): Promise<Ad
       where: {
         zone,
         isActive: true,
+        reviewStatus: "approved",
         startDate: { lte: now },
         endDate: { gte: now },
+        weight: { gt: 0 },
+        OR: [
+          { campaignId: null },
+          {
+            campaign: {
+              status: "active",
+              OR: [{ pausedUntil: null }, { pausedUntil: { lte: now } }],
+            },
+          },
+        ],
       },
       orderBy: [
         { position: "asc" },
         { createdAt: "desc" },
       ],
-      take: limit,
+      take: MAX_ELIGIBLE_ADS,
       include: {
         news: {
           select: {
@@ -49,7 +72,7 @@ async function fetchActiveAdsByZone(zone: string, limit: number = 5): Promise<Ad
       },
     });
 
-    return ads.map((ad: any) => ({
+    return ads.map((ad) => ({
       id: ad.id,
       title: ad.title,
       description: ad.description,
@@ -59,6 +82,16 @@ async function fetchActiveAdsByZone(zone: string, limit: number = 5): Promise<Ad
       position: ad.position,
       newsId: ad.newsId,
       newsSlug: ad.news?.slug || null,
+      weight: ad.weight,
+      frequencyCap: ad.frequencyCap,
+      targeting: {
+        targetCategoryIds: ad.targetCategoryIds,
+        excludedCategoryIds: ad.excludedCategoryIds,
+        targetNewsIds: ad.targetNewsIds,
+        targetDevices: ad.targetDevices,
+        targetCountries: ad.targetCountries,
+        targetRegions: ad.targetRegions,
+      },
     }));
   } catch (error) {
     console.error(`Error fetching ads for zone ${zone}:`, error);
@@ -67,12 +100,12 @@ async function fetchActiveAdsByZone(zone: string, limit: number = 5): Promise<Ad
 }
 
 /**
- * Cached version for server-side rendering
+ * Cached eligible ads of a zone, before targeting is applied
  */
-export const getActiveAdsByZone = cache(async (zone: string, limit: number = 5): Promise<AdDisplay[]> => {
+const getTargetedAdsByZone = cache(async (zone: string): Promise<TargetedAd[]> => {
   return await unstable_cache(
-    () => fetchActiveAdsByZone(zone, limit),
-    [`ads-zone-${zone}-${limit}`],
+    () => fetchActiveAdsByZone(zone),
+    [`ads-zone-${zone}`],
     {
       revalidate: 300, // 5 minutes cache
       tags: [`ads-zone-${zone}`],
@@ -81,97 +114,270 @@ export const getActiveAdsByZone = cache(async (zone: string, limit: number = 5):
 });
 
 /**
- * Get default/dummy ad for fallback
- */
-export function getDefaultAd(zone: string): AdDisplay {
-  // Default ads based on zone - using proper placeholder URLs
-  const defaultAds: Record<string, AdDisplay> = {
-    header: {
-      id: "default-header",
-      title: "Advertisement Space Available",
-      description: "Premium advertising space available. Contact us to advertise here.",
-      imageUrl: "https://via.placeholder.com/970x90/1e293b/94a3b8?text=Advertisement+Space",
-      linkUrl: null,
-      zone: "header",
-      position: 0,
-      newsId: null,
-    },
-    sidebar: {
-      id: "default-sidebar",
-      title: "Advertisement",
-      description: "Connect with our audience. Advertise here.",
-      imageUrl: "https://via.placeholder.com/300x400/1e293b/94a3b8?text=Ad",
-      linkUrl: null,
-      zone: "sidebar",
-      position: 0,
-      newsId: null,
-    },
-    footer: {
-      id: "default-footer",
-      title: "Advertisement Space",
-      description: "Footer advertising opportunity",
-      imageUrl: "https://via.placeholder.com/728x90/1e293b/94a3b8?text=Advertisement",
-      linkUrl: null,
-      zone: "footer",
-      position: 0,
-      newsId: null,
-    },
-    inline: {
-      id: "default-inline",
-      title: "Advertisement",
-      description: "Promote your brand here. Contact us for advertising opportunities.",
-      imageUrl: "https://via.placeholder.com/600x200/1e293b/94a3b8?text=Advertisement",
-      linkUrl: null,
-      zone: "inline",
-      position: 0,
-      newsId: null,
-    },
-    popup: {
-      id: "default-popup",
-      title: "Advertisement",
-      description: "Popup advertisement space available",
-      imageUrl: "https://via.placeholder.com/400x300/1e293b/94a3b8?text=Popup+Ad",
-      linkUrl: null,
-      zone: "popup",
-      position: 0,
-      newsId: null,
-    },
-  };
+ * Eligible ads of a zone that match the targeting context
+ */
+async function getMatchingAds(zone: string, targeting: AdTargetingContext): Promise<TargetedAd[]> {
+  const ads = await getTargetedAdsByZone(zone);
+  return ads.filter((ad) => matchesAdTargeting(ad.targeting, targeting));
+}
 
-  return defaultAds[zone] || defaultAds.sidebar;
+/**
+ * Drop targeting rules before an ad leaves the server
+ */
+function toAdDisplay(ad: TargetedAd): AdDisplay {
+  const display: AdDisplay & { targeting?: AdTargeting } = { ...ad };
+  delete display.targeting;
+  return display;
+}
+
+/**
+ * Get active advertisements for a zone that match the page and visitor
+ * Ordered by position; use selectAdsForZones to rotate
+ * @param targeting - Categories/article of the page and the visitor's device and location
+ */
+export async function getActiveAdsByZone(
+  zone: string,
+  targeting: AdTargetingContext = {}
+): Promise<AdDisplay[]> {
+  const ads = await getMatchingAds(zone, targeting);
+  return ads.map(toAdDisplay);
+}
+
+/**
+ * Menu id -> parent id and slug -> id lookups for category targeting
+ */
+const getCategoryLookup = unstable_cache(
+  async () => {
+    const menus = await prisma.menu.findMany({
+      select: { id: true, slug: true, parentId: true },
+    });
+    return menus;
+  },
+  ["ads-category-lookup"],
+  { revalidate: 300 }
+);
+
+/**
+ * Resolve page category slugs to menu ids, including their parent categories
+ * so an ad targeted at a section also serves on its subcategories
+ */
+export async function resolveAdCategoryIds(slugs: string[]): Promise<string[]> {
+  if (slugs.length === 0) return [];
+
+  try {
+    const menus = await getCategoryLookup();
+    const byId = new Map(menus.map((menu) => [menu.id, menu]));
+    const ids = new Set<string>();
+
+    for (const slug of slugs) {
+      let menu = menus.find((item) => item.slug === slug);
+      // Walk up the hierarchy; the size guard stops on malformed cycles
+      while (menu && !ids.has(menu.id) && ids.size < menus.length) {
+        ids.add(menu.id);
+        menu = menu.parentId ? byId.get(menu.parentId) : undefined;
+      }
+    }
+
+    return Array.from(ids);
+  } catch (error) {
+    console.error("Error resolving ad categories:", error);
+    return [];
+  }
+}
+
+/**
+ * Drop the cached eligible ads of the given zones
+ */
+export function revalidateAdZones(zones: Iterable<string>) {
+  for (const zone of new Set(zones)) {
+    revalidateTag(`ads-zone-${zone}`, { expire: 0 });
+  }
+}
+
+/**
+ * Pick the ads to show a visitor in one or more zones
+ * Each zone gets up to `count` distinct ads by weighted rotation among the ads
+ * matching the targeting context, skipping ads the visitor has hit the
+ * frequency cap of. Served capped ads are counted in the returned frequency
+ * state, which the caller persists in the visitor cookie.
+ */
+export async function selectAdsForZones(
+  requests: Array<{ zone: string; count: number }>,
+  frequency: AdFrequencyState,
+  targeting: AdTargetingContext = {}
+): Promise<{ ads: Record<string, AdDisplay[]>; frequency: AdFrequencyState }> {
+  const counts = { ...frequency.counts };
+  const ads: Record<string, AdDisplay[]> = {};
+
+  await Promise.all(
+    requests.map(async ({ zone, count }) => {
+      const eligible = await getMatchingAds(zone, targeting);
+      const available = eligible.filter((ad) => !isAdFrequencyCapped(ad, frequency));
+      ads[zone] = pickWeightedAds(available, Math.min(count, MAX_ADS_PER_ZONE)).map(toAdDisplay);
+    })
+  );
+
+  for (const zoneAds of Object.values(ads)) {
+    for (const ad of zoneAds) {
+      // Only capped ads need counting; keeps the cookie small
+      if (ad.frequencyCap) {
+        counts[ad.id] = (counts[ad.id] || 0) + 1;
+      }
+    }
+  }
+
+  return { ads, frequency: { day: frequency.day, counts } };
 }
 
 /**
  * Track ad impression (for analytics)
+ * Keeps the running counter and stores the event for daily reports
  */
 export async function trackAdImpression(adId: string) {
   try {
-    await prisma.advertisement.update({
+    const ad = await prisma.advertisement.update({
       where: { id: adId },
       data: {
         impressions: {
           increment: 1,
         },
       },
+      select: { campaignId: true },
+    });
+
+    await prisma.adEvent.create({
+      data: { adId, campaignId: ad.campaignId, type: "impression" },
     });
+
+    if (ad.campaignId) {
+      await recordCampaignImpression(ad.campaignId);
+    }
   } catch (error) {
     console.error("Error tracking ad impression:", error);
     // Don't throw - tracking failure shouldn't break the page
   }
 }
 
+/**
+ * Start of the local day
+ */
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+/**
+ * Count an impression against the campaign budgets
+ * Auto-pauses the campaign until tomorrow when the daily budget is spent, and
+ * marks it exhausted when the total budget is spent
+ */
+async function recordCampaignImpression(campaignId: string) {
+  const now = new Date();
+  const today = startOfDay(now);
+
+  // First impression of a new day starts a fresh daily count
+  await prisma.adCampaign.updateMany({
+    where: {
+      id: campaignId,
+      OR: [{ dailyBudgetDate: null }, { dailyBudgetDate: { lt: today } }],
+    },
+    data: { dailyImpressions: 0, dailyBudgetDate: today },
+  });
+
+  const campaign = await prisma.adCampaign.update({
+    where: { id: campaignId },
+    data: {
+      impressions: { increment: 1 },
+      dailyImpressions: { increment: 1 },
+    },
+    select: {
+      id: true,
+      name: true,
+      status: true,
+      authorId: true,
+      impressions: true,
+      dailyImpressions: true,
+      dailyImpressionBudget: true,
+      totalImpressionBudget: true,
+      ads: { select: { zone: true } },
+    },
+  });
+
+  if (campaign.status !== "active") return;
+
+  const zones = campaign.ads.map((ad) => ad.zone);
+
+  if (campaign.totalImpressionBudget && campaign.impressions >= campaign.totalImpressionBudget) {
+    // Guarded so concurrent impressions pause (and audit) only once
+    const { count } = await prisma.adCampaign.updateMany({
+      where: { id: campaign.id, status: "active" },
+      data: { status: "exhausted", pausedUntil: null },
+    });
+
+    if (count > 0) {
+      revalidateAdZones(zones);
+      await createAuditLog(
+        {
+          action: "EXHAUST_AD_CAMPAIGN",
+          resource: "AdCampaign",
+          resourceId: campaign.id,
+          description: `Campaign ${campaign.name} spent its total budget of ${campaign.totalImpressionBudget} impressions and was paused`,
+          metadata: { impressions: campaign.impressions },
+        },
+        campaign.authorId
+      );
+    }
+    return;
+  }
+
+  if (campaign.dailyImpressionBudget && campaign.dailyImpressions >= campaign.dailyImpressionBudget) {
+    const tomorrow = new Date(today);
+    tomorrow.setDate(tomorrow.getDate() + 1);
+
+    const { count } = await prisma.adCampaign.updateMany({
+      where: {
+        id: campaign.id,
+        status: "active",
+        OR: [{ pausedUntil: null }, { pausedUntil: { lte: now } }],
+      },
+      data: { pausedUntil: tomorrow },
+    });
+
+    if (count > 0) {
+      revalidateAdZones(zones);
+      await createAuditLog(
+        {
+          action: "PAUSE_AD_CAMPAIGN_DAILY",
+          resource: "AdCampaign",
+          resourceId: campaign.id,
+          description: `Campaign ${campaign.name} spent its daily budget of ${campaign.dailyImpressionBudget} impressions and was paused until ${tomorrow.toISOString()}`,
+          metadata: { dailyImpressions: campaign.dailyImpressions },
+        },
+        campaign.authorId
+      );
+    }
+  }
+}
+
 /**
  * Track ad click (for analytics)
+ * Keeps the running counter and stores the event for daily reports
  */
 export async function trackAdClick(adId: string) {
   try {
-    await prisma.advertisement.update({
+    const ad = await prisma.advertisement.update({
       where: { id: adId },
       data: {
         clicks: {
           increment: 1,
         },
       },
+      select: { campaignId: true },
+    });
+
+    await prisma.adEvent.create({
+      data: { adId, campaignId: ad.campaignId, type: "click" },
     });
   } catch (error) {
     console.error("Error tracking ad click:", error);
@@ -0,0 +1,126 @@
+/**
+ * Blog Service
+ *
+ * Public read side of blog posts: the /blog index, /blog/[slug] pages, the
+ * blog RSS feed and view counting. Only published, active posts are visible.
+ */
+
+import { prisma } from "@/lib/prisma";
+
+const publishedBlogWhere = {
+  isPublished: true,
+  isActive: true,
+} as const;
+
+const blogAuthorSelect = {
+  id: true,
+  username: true,
+  firstName: true,
+  lastName: true,
+  avatar: true,
+  authorSlug: true,
+  designation: true,
+  bio: true,
+} as const;
+
+/**
+ * Get a page of published blog posts, newest first
+ */
+export async function getPublishedBlogs(options: { page?: number; limit?: number } = {}) {
+  const page = Math.max(options.page || 1, 1);
+  const limit = Math.min(Math.max(options.limit || 12, 1), 50);
+  const skip = (page - 1) * limit;
+
+  const [blogs, total] = await Promise.all([
+    prisma.blog.findMany({
+      where: publishedBlogWhere,
+      select: {
+        id: true,
+        title: true,
+        slug: true,
+        excerpt: true,
+        coverImage: true,
+        views: true,
+        publishedAt: true,
+        createdAt: true,
+        author: { select: blogAuthorSelect },
+      },
+      orderBy: [{ publishedAt: "desc" }, { createdAt: "desc" }],
+      skip,
+      take: limit,
+    }),
+    prisma.blog.count({ where: publishedBlogWhere }),
+  ]);
+
+  return {
+    blogs,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
+
+/**
+ * Get a published blog post by slug
+ * The author's published news count tells whether their /author page exists
+ */
+export async function getPublishedBlogBySlug(slug: string) {
+  return prisma.blog.findFirst({
+    where: { slug, ...publishedBlogWhere },
+    include: {
+      author: {
+        select: {
+          ...blogAuthorSelect,
+          websiteUrl: true,
+          twitterUrl: true,
+          facebookUrl: true,
+          linkedinUrl: true,
+          instagramUrl: true,
+          _count: {
+            select: {
+              news: { where: { isPublished: true, isActive: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Get other recent posts to read next
+ * @param excludeId - Blog post being read
+ */
+export async function getRecentBlogs(excludeId: string, limit: number = 3) {
+  return prisma.blog.findMany({
+    where: { ...publishedBlogWhere, id: { not: excludeId } },
+    select: {
+      id: true,
+      title: true,
+      slug: true,
+      excerpt: true,
+      coverImage: true,
+      publishedAt: true,
+      createdAt: true,
+    },
+    orderBy: [{ publishedAt: "desc" }, { createdAt: "desc" }],
+    take: limit,
+  });
+}
+
+/**
+ * Count a view of a published blog post
+ */
+export async function trackBlogView(blogId: string) {
+  await prisma.blog.updateMany({
+    where: { id: blogId, ...publishedBlogWhere },
+    data: {
+      views: {
+        increment: 1,
+      },
+    },
+  });
+}
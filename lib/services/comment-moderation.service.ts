@@ -0,0 +1,109 @@
+/**
+ * Comment Moderation Service
+ * Cached wordlists and settings for the comment filters, and the checks run
+ * on every new comment before it is stored
+ */
+
+import { revalidateTag, unstable_cache } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { checkCommentRateLimit } from "@/lib/security/rate-limit";
+import {
+  DEFAULT_MODERATION_SETTINGS,
+  assessCommentContent,
+  type ModerationAssessment,
+  type ModerationSettingsValues,
+} from "@/lib/utils/comment-moderation";
+
+const COMMENT_MODERATION_TAG = "comment-moderation";
+
+// Same text inside this window counts as a duplicate
+const DUPLICATE_WINDOW_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * Current settings and enabled wordlist entries, cached until either changes
+ */
+export const getCommentModerationConfig = unstable_cache(
+  async () => {
+    const [settings, words] = await Promise.all([
+      prisma.commentModerationSettings.findUnique({ where: { id: "default" } }),
+      prisma.moderationWord.findMany({
+        where: { isEnabled: true },
+        select: { word: true, severity: true, matchPartial: true },
+      }),
+    ]);
+
+    return {
+      settings: toSettingsValues(settings),
+      words,
+    };
+  },
+  [COMMENT_MODERATION_TAG],
+  {
+    revalidate: 300, // 5 minutes cache
+    tags: [COMMENT_MODERATION_TAG],
+  }
+);
+
+/**
+ * Drop the cached configuration after the settings or a wordlist change
+ */
+export function revalidateCommentModerationConfig() {
+  revalidateTag(COMMENT_MODERATION_TAG, { expire: 0 });
+}
+
+/**
+ * Settings values from the stored row, falling back to the defaults
+ */
+export function toSettingsValues(settings: ModerationSettingsValues | null): ModerationSettingsValues {
+  if (!settings) return DEFAULT_MODERATION_SETTINGS;
+
+  return {
+    holdThreshold: settings.holdThreshold,
+    rejectThreshold: settings.rejectThreshold,
+    maxLinks: settings.maxLinks,
+    linkWeight: settings.linkWeight,
+    maxLinkPercent: settings.maxLinkPercent,
+    repeatWeight: settings.repeatWeight,
+    duplicateWeight: settings.duplicateWeight,
+    rateLimitCount: settings.rateLimitCount,
+    rateLimitWindowMinutes: settings.rateLimitWindowMinutes,
+    reportHideThreshold: settings.reportHideThreshold,
+  };
+}
+
+/**
+ * Count a comment against the per-IP posting limit
+ * @returns Minutes until the commenter may post again, or null when allowed
+ */
+export async function checkCommentPostingRate(ipAddress: string): Promise<number | null> {
+  const { settings } = await getCommentModerationConfig();
+
+  const result = await checkCommentRateLimit(ipAddress, {
+    windowMs: settings.rateLimitWindowMinutes * 60 * 1000,
+    maxRequests: settings.rateLimitCount,
+  });
+
+  return result.limited ? Math.max(1, Math.ceil((result.resetTime - Date.now()) / 60000)) : null;
+}
+
+/**
+ * Score a new comment
+ * Duplicates are the same text posted recently from the same IP or on the same article
+ */
+export async function assessComment(data: {
+  content: string;
+  newsId: string;
+  ipAddress: string;
+}): Promise<ModerationAssessment> {
+  const { settings, words } = await getCommentModerationConfig();
+
+  const duplicates = await prisma.comment.count({
+    where: {
+      content: { equals: data.content, mode: "insensitive" },
+      createdAt: { gte: new Date(Date.now() - DUPLICATE_WINDOW_MS) },
+      OR: [{ ipAddress: data.ipAddress }, { newsId: data.newsId }],
+    },
+  });
+
+  return assessCommentContent(data.content, words, settings, duplicates > 0);
+}
@@ -0,0 +1,115 @@
+/**
+ * Live Blog Service
+ *
+ * Public read side of live blog posts: the entries shown under the article,
+ * the polling payload for /api/news/live/[slug] and the LiveBlogPosting
+ * structured data. Entry content is rendered to HTML here so readers never
+ * download Lexical JSON.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { lexicalToHTML, lexicalToPlainText } from "@/lib/utils/lexical-to-html";
+import { getAuthorDisplayName, getAuthorPath } from "@/lib/utils/author";
+
+// Older entries are dropped from the page; a live blog rarely runs past this
+const MAX_PUBLIC_ENTRIES = 200;
+
+export interface LiveBlogUpdate {
+  id: string;
+  title: string | null;
+  html: string;
+  text: string;
+  isPinned: boolean;
+  createdAt: string;
+  updatedAt: string;
+  author: {
+    name: string;
+    url: string;
+    avatar: string | null;
+  };
+}
+
+export interface LiveBlogFeed {
+  newsId: string;
+  isLive: boolean;
+  endedAt: string | null;
+  entries: LiveBlogUpdate[];
+  // IDs of every current entry, so pollers can drop deleted ones
+  entryIds: string[];
+}
+
+const entrySelect = {
+  id: true,
+  title: true,
+  content: true,
+  isPinned: true,
+  createdAt: true,
+  updatedAt: true,
+  author: {
+    select: {
+      username: true,
+      firstName: true,
+      lastName: true,
+      authorSlug: true,
+      avatar: true,
+    },
+  },
+} as const;
+
+/**
+ * Get the live entries of a published live blog post
+ * @param slug - News slug
+ * @param since - Only return entries created or edited after this time
+ */
+export async function getPublicLiveBlog(slug: string, since?: Date): Promise<LiveBlogFeed | null> {
+  const news = await prisma.news.findFirst({
+    where: {
+      slug,
+      isPublished: true,
+      isActive: true,
+      isLiveBlog: true,
+    },
+    select: { id: true, liveBlogEndedAt: true },
+  });
+
+  if (!news) return null;
+
+  const [entries, ids] = await Promise.all([
+    prisma.liveBlogEntry.findMany({
+      where: {
+        newsId: news.id,
+        ...(since && { updatedAt: { gt: since } }),
+      },
+      select: entrySelect,
+      orderBy: { createdAt: "desc" },
+      take: MAX_PUBLIC_ENTRIES,
+    }),
+    prisma.liveBlogEntry.findMany({
+      where: { newsId: news.id },
+      select: { id: true },
+      orderBy: { createdAt: "desc" },
+      take: MAX_PUBLIC_ENTRIES,
+    }),
+  ]);
+
+  return {
+    newsId: news.id,
+    isLive: !news.liveBlogEndedAt,
+    endedAt: news.liveBlogEndedAt?.toISOString() || null,
+    entries: entries.map((entry) => ({
+      id: entry.id,
+      title: entry.title,
+      html: lexicalToHTML(entry.content),
+      text: lexicalToPlainText(entry.content),
+      isPinned: entry.isPinned,
+      createdAt: entry.createdAt.toISOString(),
+      updatedAt: entry.updatedAt.toISOString(),
+      author: {
+        name: getAuthorDisplayName(entry.author),
+        url: getAuthorPath(entry.author),
+        avatar: entry.author.avatar,
+      },
+    })),
+    entryIds: ids.map((entry) => entry.id),
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Login Service
+ * Starts the session once every sign-in step has passed. Shared by the
+ * password and two-factor steps and by social sign-in callbacks.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { setAuthCookie } from "@/lib/auth/jwt-server";
+import { createAuditLog } from "@/lib/audit-log";
+import { issueSessionToken } from "@/lib/services/session.service";
+
+export interface LoginResult {
+  success: boolean;
+  error?: string;
+  twoFactorRequired?: boolean; // Password accepted; a second factor is needed
+  expired?: boolean; // The two-factor step timed out and the password must be entered again
+  user?: {
+    id: string;
+    email: string;
+    username: string;
+    firstName: string | null;
+    lastName: string | null;
+    roles: string[];
+    accountType: string;
+    mfaSetupRequired: boolean;
+  };
+}
+
+export type LoginUser = Prisma.UserGetPayload<{ include: { roles: { include: { role: true } } } }>;
+
+/**
+ * Start the session for a signed-in account
+ * @param details - How the user signed in, recorded on the LOGIN audit entry
+ */
+export async function completeLogin(
+  user: LoginUser,
+  context: { ipAddress: string; userAgent: string },
+  details?: Record<string, string>
+): Promise<LoginResult> {
+  // Update last login timestamp
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      lastLogin: new Date(),
+      // A successful sign-in ends any run of failed attempts
+      failedLoginAttempts: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null,
+      // Optional: Update lastActive for tracking
+      // lastActive: new Date(),
+    },
+  });
+
+  // Get user roles
+  const roles = user.roles.map((ur) => ur.role.slug);
+
+  // Until two-factor authentication is set up, a role that requires it only
+  // lets the user reach the profile page to enrol
+  const mfaSetupRequired =
+    !user.twoFactorEnabled && user.roles.some((ur) => ur.role.isActive && ur.role.requireTwoFactor);
+
+  // Start a session and sign its token
+  const token = await issueSessionToken(
+    {
+      userId: user.id,
+      email: user.email,
+      username: user.username,
+      roles,
+      accountType: user.accountType,
+      ...(mfaSetupRequired ? { mfaSetupRequired: true } : {}),
+    },
+    context
+  );
+
+  // Set authentication cookie
+  await setAuthCookie(token);
+
+  // Create successful login audit log
+  await createAuditLog(
+    {
+      action: "LOGIN",
+      resource: "User",
+      resourceId: user.id,
+      description: `User ${user.email} logged in successfully`,
+      metadata: details,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    },
+    user.id
+  );
+
+  // Revalidate relevant paths
+  revalidatePath("/");
+  revalidatePath("/dashboard");
+
+  return {
+    success: true,
+    user: {
+      id: user.id,
+      email: user.email,
+      username: user.username,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      roles,
+      accountType: user.accountType,
+      mfaSetupRequired,
+    },
+  };
+}
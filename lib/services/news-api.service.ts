@@ -25,7 +25,7 @@ import { unstable_cache } from "next/cache";
  * - Revalidate every 60 seconds for dynamic content
  * - Tag-based cache invalidation
  */
-const CACHE_TAGS = {
+export const CACHE_TAGS = {
   NEWS: "news",
   FEATURED: "news-featured",
   BREAKING: "news-breaking",
@@ -33,6 +33,7 @@ const CACHE_TAGS = {
   RECENT: "news-recent",
   CATEGORY: "news-category",
   AUTHOR: "news-author",
+  TAG: "news-tag",
 } as const;
 
 const CACHE_REVALIDATE = 60; // 60 seconds
@@ -86,6 +87,7 @@ export interface NewsResponse {
     firstName: string | null;
     lastName: string | null;
     email: string;
+    authorSlug: string | null;
   };
   categories?: Array<{
     id: string;
@@ -235,6 +237,7 @@ function buildNewsQuery(options: NewsQueryOptions = {}) {
               firstName: true,
               lastName: true,
               email: true,
+              authorSlug: true,
             },
           }
         : false,
@@ -430,6 +433,105 @@ export async function getNewsByAuthor(
   };
 }
 
+/**
+ * Get news by tag
+ * Returns all published news carrying the tag with the given slug
+ */
+export async function getNewsByTag(
+  tagSlug: string,
+  options: NewsQueryOptions & { limit?: number; page?: number } = {}
+): Promise<PaginatedResponse<NewsResponse>> {
+  const page = options.page || 1;
+  const limit = options.limit || 10;
+  const skip = (page - 1) * limit;
+
+  const query = buildNewsQuery(options);
+  query.where = {
+    ...query.where,
+    tags: { some: { tag: { slug: tagSlug } } },
+  };
+
+  // Get total count for pagination
+  const total = await prisma.news.count({ where: query.where });
+
+  // Get paginated news
+  const news = await prisma.news.findMany({
+    ...query,
+    skip,
+    take: limit,
+    orderBy: [
+      { publishedAt: "desc" },
+      { createdAt: "desc" },
+    ],
+  });
+
+  return {
+    data: news as unknown as NewsResponse[],
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+      hasNext: page < Math.ceil(total / limit),
+      hasPrev: page > 1,
+    },
+  };
+}
+
+/**
+ * Get a tag by slug (for tag pages)
+ */
+export async function getTagBySlug(slug: string) {
+  return prisma.tag.findUnique({
+    where: { slug },
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+      description: true,
+    },
+  });
+}
+
+/**
+ * Get a public author profile by author slug or username (for author pages)
+ * Only active users who have published at least one news post have a public page
+ */
+export async function getPublicAuthor(identifier: string) {
+  const publicAuthorWhere = {
+    isActive: true,
+    news: { some: { isPublished: true, isActive: true } },
+  };
+  const select = {
+    id: true,
+    username: true,
+    firstName: true,
+    lastName: true,
+    avatar: true,
+    authorSlug: true,
+    designation: true,
+    bio: true,
+    websiteUrl: true,
+    twitterUrl: true,
+    facebookUrl: true,
+    linkedinUrl: true,
+    instagramUrl: true,
+    createdAt: true,
+  } as const;
+
+  // An author slug wins over a username so a chosen slug always resolves to its owner
+  const bySlug = await prisma.user.findFirst({
+    where: { ...publicAuthorWhere, authorSlug: identifier },
+    select,
+  });
+  if (bySlug) return bySlug;
+
+  return prisma.user.findFirst({
+    where: { ...publicAuthorWhere, username: identifier },
+    select,
+  });
+}
+
 /**
  * Get news by category
  * Handles complex category logic:
@@ -0,0 +1,91 @@
+/**
+ * News Events Service
+ *
+ * In-process pub/sub for real-time reader updates. News actions publish here
+ * and /api/news/stream fans the events out to open browsers as Server-Sent
+ * Events.
+ *
+ * The bus lives in the memory of one server process: events published by a
+ * standalone worker (scripts/news-scheduler.ts) or another instance are not
+ * seen by readers connected elsewhere. Clients treat events as hints and the
+ * regular page revalidation stays the source of truth.
+ */
+
+import { EventEmitter } from "events";
+
+export type NewsEventType = "news.published" | "news.breaking" | "news.unpublished" | "live.entry";
+
+export interface NewsEventPayload {
+  id: string;
+  title: string;
+  slug: string;
+  isBreaking: boolean;
+  publishedAt: string | null;
+}
+
+export type NewsEvent =
+  | { type: "news.published" | "news.breaking" | "news.unpublished"; news: NewsEventPayload }
+  | {
+      type: "live.entry";
+      news: NewsEventPayload;
+      entry: { id: string; title: string | null; createdAt: string };
+    };
+
+type NewsEventListener = (event: NewsEvent & { at: string }) => void;
+
+const EVENT_NAME = "news-event";
+
+/**
+ * Event bus singleton
+ * Uses globalThis so hot reloads in development keep one bus for all routes
+ */
+const globalForNewsEvents = globalThis as unknown as {
+  newsEvents: EventEmitter | undefined;
+};
+
+const bus = globalForNewsEvents.newsEvents ?? new EventEmitter();
+// Every open SSE connection is a listener
+bus.setMaxListeners(0);
+globalForNewsEvents.newsEvents = bus;
+
+/**
+ * Build the public event payload from a news record
+ */
+export function toNewsEventPayload(news: {
+  id: string;
+  title: string;
+  slug: string;
+  isBreaking: boolean;
+  publishedAt?: Date | null;
+}): NewsEventPayload {
+  return {
+    id: news.id,
+    title: news.title,
+    slug: news.slug,
+    isBreaking: news.isBreaking,
+    publishedAt: news.publishedAt?.toISOString() || null,
+  };
+}
+
+/**
+ * Publish an event to every connected subscriber
+ * Never throws: a failing listener must not break the action that published
+ */
+export function publishNewsEvent(event: NewsEvent): void {
+  try {
+    bus.emit(EVENT_NAME, { ...event, at: new Date().toISOString() });
+  } catch (error) {
+    console.error("Publish news event error:", error);
+  }
+}
+
+/**
+ * Subscribe to news events
+ * @returns Function that removes the subscription
+ */
+export function subscribeToNewsEvents(listener: NewsEventListener): () => void {
+  bus.on(EVENT_NAME, listener);
+  return () => {
+    bus.off(EVENT_NAME, listener);
+  };
+}
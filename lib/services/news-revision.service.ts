@@ -0,0 +1,81 @@
+/**
+ * News Revision Service
+ *
+ * Snapshots news posts on every save so earlier copy can be compared
+ * and restored. Called from the news server actions; not a server action
+ * itself so it cannot be invoked from the client.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { logError } from "@/lib/utils/logger";
+
+export type NewsRevisionReason = "original" | "create" | "update" | "restore";
+
+/**
+ * Store the current state of a news post as a new revision
+ * Failures are logged but never break the save that triggered them
+ * @param newsId - News post ID
+ * @param userId - User who saved the post
+ * @param reason - Why the revision was taken
+ */
+export async function snapshotNewsRevision(
+  newsId: string,
+  userId: string,
+  reason: NewsRevisionReason = "update"
+) {
+  try {
+    const news = await prisma.news.findUnique({
+      where: { id: newsId },
+      include: { categories: { select: { menuId: true } } },
+    });
+
+    if (!news) return null;
+
+    const latest = await prisma.newsRevision.aggregate({
+      where: { newsId },
+      _max: { version: true },
+    });
+
+    return await prisma.newsRevision.create({
+      data: {
+        newsId,
+        version: (latest._max.version ?? 0) + 1,
+        title: news.title,
+        excerpt: news.excerpt,
+        content: news.content,
+        metaTitle: news.metaTitle,
+        metaDescription: news.metaDescription,
+        metaKeywords: news.metaKeywords,
+        ogImage: news.ogImage,
+        categoryIds: news.categories.map((c) => c.menuId),
+        reason,
+        createdById: userId,
+      },
+    });
+  } catch (error) {
+    logError("Failed to snapshot news revision", error as Error, { newsId, reason });
+    return null;
+  }
+}
+
+/**
+ * Store the saved state of a post that has no revisions yet, such as one
+ * created before revisions were tracked, so its first edit can be undone
+ * Call before the update; attributed to the last editor, else the author
+ * @param newsId - News post ID
+ */
+export async function ensureBaselineRevision(newsId: string) {
+  try {
+    const news = await prisma.news.findUnique({
+      where: { id: newsId },
+      select: { authorId: true, editorId: true, _count: { select: { revisions: true } } },
+    });
+
+    if (!news || news._count.revisions > 0) return null;
+
+    return await snapshotNewsRevision(newsId, news.editorId ?? news.authorId, "original");
+  } catch (error) {
+    logError("Failed to snapshot original news revision", error as Error, { newsId });
+    return null;
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * News Scheduler Service
+ *
+ * Honors the publishing schedule stored on news posts:
+ * - Promotes approved posts whose `scheduledAt` has passed (sets isPublished/publishedAt)
+ * - Unpublishes posts whose `unpublishAt` (expiry) has passed
+ *
+ * Every transition is audited and, when running inside Next.js, the affected
+ * pages and cache tags are revalidated.
+ *
+ * Entry points:
+ * - GET/POST /api/cron/news-scheduler (cron-style trigger)
+ * - scripts/news-scheduler.ts (standalone worker)
+ */
+
+import { prisma } from "@/lib/prisma";
+import { revalidatePath, revalidateTag } from "next/cache";
+import { createAuditLog } from "@/lib/audit-log";
+import { CACHE_TAGS } from "@/lib/services/news-api.service";
+import { logError, logInfo } from "@/lib/utils/logger";
+import { publishNewsEvent, toNewsEventPayload } from "@/lib/services/news-events.service";
+
+/**
+ * Scheduler run options
+ */
+export interface SchedulerRunOptions {
+  now?: Date; // Reference time (defaults to current time)
+  batchSize?: number; // Max posts per transition type in one run
+  revalidate?: boolean; // Disable when running outside Next.js (worker script)
+}
+
+/**
+ * A single scheduled transition applied to a news post
+ */
+export interface ScheduledNewsChange {
+  id: string;
+  title: string;
+  slug: string;
+  at: string;
+}
+
+/**
+ * Result of a scheduler run
+ */
+export interface SchedulerRunResult {
+  published: ScheduledNewsChange[];
+  unpublished: ScheduledNewsChange[];
+  ranAt: string;
+}
+
+const DEFAULT_BATCH_SIZE = 50;
+
+const scheduledNewsSelect = {
+  id: true,
+  title: true,
+  slug: true,
+  isBreaking: true,
+  authorId: true,
+  editorId: true,
+  publishedAt: true,
+  scheduledAt: true,
+  unpublishAt: true,
+  categories: {
+    select: {
+      menu: {
+        select: { slug: true },
+      },
+    },
+  },
+} as const;
+
+/**
+ * Publish all posts whose scheduled time has passed
+ */
+async function publishDueNews(now: Date, batchSize: number) {
+  const due = await prisma.news.findMany({
+    where: {
+      isPublished: false,
+      isActive: true,
+      status: "approved", // Only posts that passed editorial review
+      scheduledAt: { lte: now },
+    },
+    select: scheduledNewsSelect,
+    orderBy: { scheduledAt: "asc" },
+    take: batchSize,
+  });
+
+  const published: typeof due = [];
+
+  for (const news of due) {
+    // Guarded update so concurrent runs (cron + worker) never double-publish
+    const result = await prisma.news.updateMany({
+      where: { id: news.id, isPublished: false, status: "approved", scheduledAt: { lte: now } },
+      data: {
+        isPublished: true,
+        status: "published",
+        publishedAt: news.publishedAt ?? now,
+        scheduledAt: null,
+      },
+    });
+
+    if (result.count === 0) continue;
+    published.push(news);
+    publishNewsEvent({
+      type: "news.published",
+      news: toNewsEventPayload({ ...news, publishedAt: news.publishedAt ?? now }),
+    });
+
+    await createAuditLog(
+      {
+        action: "PUBLISH_SCHEDULED_NEWS",
+        resource: "News",
+        resourceId: news.id,
+        description: `Scheduler published news: ${news.title}`,
+        metadata: {
+          scheduledAt: news.scheduledAt?.toISOString(),
+          publishedAt: (news.publishedAt ?? now).toISOString(),
+        },
+      },
+      news.editorId ?? news.authorId
+    );
+  }
+
+  return published;
+}
+
+/**
+ * Unpublish all posts whose expiry time has passed
+ */
+async function unpublishExpiredNews(now: Date, batchSize: number) {
+  const expired = await prisma.news.findMany({
+    where: {
+      isPublished: true,
+      unpublishAt: { lte: now },
+    },
+    select: scheduledNewsSelect,
+    orderBy: { unpublishAt: "asc" },
+    take: batchSize,
+  });
+
+  const unpublished: typeof expired = [];
+
+  for (const news of expired) {
+    const result = await prisma.news.updateMany({
+      where: { id: news.id, isPublished: true, unpublishAt: { lte: now } },
+      data: {
+        isPublished: false,
+        status: "archived",
+        unpublishAt: null,
+      },
+    });
+
+    if (result.count === 0) continue;
+    unpublished.push(news);
+    publishNewsEvent({ type: "news.unpublished", news: toNewsEventPayload(news) });
+
+    await createAuditLog(
+      {
+        action: "UNPUBLISH_EXPIRED_NEWS",
+        resource: "News",
+        resourceId: news.id,
+        description: `Scheduler unpublished expired news: ${news.title}`,
+        metadata: {
+          unpublishAt: news.unpublishAt?.toISOString(),
+        },
+      },
+      news.editorId ?? news.authorId
+    );
+  }
+
+  return unpublished;
+}
+
+/**
+ * Revalidate the public pages and cache tags touched by a scheduler run
+ */
+function revalidateScheduledNews(
+  changed: Array<{ slug: string; categories: Array<{ menu: { slug: string } }> }>
+) {
+  const categorySlugs = new Set<string>();
+
+  for (const news of changed) {
+    revalidatePath(`/news/${news.slug}`);
+    news.categories.forEach((c) => categorySlugs.add(c.menu.slug));
+  }
+
+  categorySlugs.forEach((slug) => revalidatePath(`/${slug}`));
+
+  revalidatePath("/");
+  revalidatePath("/dashboard/news");
+
+  revalidateTag(CACHE_TAGS.NEWS, { expire: 0 });
+  revalidateTag(CACHE_TAGS.CATEGORY, { expire: 0 });
+  revalidateTag("news-search", { expire: 0 });
+}
+
+function toChange(
+  news: { id: string; title: string; slug: string },
+  at: Date
+): ScheduledNewsChange {
+  return { id: news.id, title: news.title, slug: news.slug, at: at.toISOString() };
+}
+
+/**
+ * Run one scheduler pass
+ * Safe to call concurrently and repeatedly - each post transitions at most once
+ */
+export async function runNewsScheduler(
+  options: SchedulerRunOptions = {}
+): Promise<SchedulerRunResult> {
+  const now = options.now ?? new Date();
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const shouldRevalidate = options.revalidate ?? true;
+
+  const published = await publishDueNews(now, batchSize);
+  const unpublished = await unpublishExpiredNews(now, batchSize);
+
+  const changed = [...published, ...unpublished];
+
+  if (changed.length > 0) {
+    if (shouldRevalidate) {
+      try {
+        revalidateScheduledNews(changed);
+      } catch (error) {
+        logError("News scheduler revalidation failed", error as Error);
+      }
+    }
+
+    logInfo("News scheduler run completed", {
+      published: published.map((n) => n.id),
+      unpublished: unpublished.map((n) => n.id),
+    });
+  }
+
+  return {
+    published: published.map((n) => toChange(n, now)),
+    unpublished: unpublished.map((n) => toChange(n, now)),
+    ranAt: now.toISOString(),
+  };
+}
@@ -2,17 +2,25 @@
  * Advanced News Search Service
  * 
  * Provides server-side search functionality with:
- * - Full-text search on title, content, excerpt
+ * - Full-text search on title, excerpt and body (PostgreSQL tsvector, GIN indexed)
  * - Category filtering
  * - Author filtering
  * - Date range filtering
- * - Sorting options
+ * - Sorting options (relevance ranked in SQL)
  * - Pagination
  * - Search result highlighting
+ *
+ * PostgreSQL has no Hindi text search configuration, and its default parser
+ * splits Devanagari words at vowel signs (matras) and viramas. Documents and
+ * queries are therefore tokenized here (Unicode letters + combining marks)
+ * and handed to PostgreSQL as literal tsvector/tsquery values.
  */
 
+import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { unstable_cache } from "next/cache";
+import { lexicalToPlainText } from "@/lib/utils/lexical-to-html";
+import { logError } from "@/lib/utils/logger";
 
 /**
  * Search options
@@ -67,6 +75,17 @@ export interface SearchResult {
   };
 }
 
+/**
+ * Autocomplete hit
+ */
+export interface QuickSearchResult {
+  id: string;
+  title: string;
+  slug: string;
+  coverImage: string | null;
+  publishedAt: Date | null;
+}
+
 /**
  * Paginated search response
  */
@@ -90,93 +109,361 @@ export interface SearchResponse {
     };
     sortBy: string;
     executionTime: number;
+    fuzzy: boolean; // Results come from the typo-tolerant fallback
+    didYouMean: string | null; // Suggested spelling when the query matched nothing
   };
 }
 
 /**
- * Calculate relevance score for search results
- * Higher score = more relevant
+ * Max position PostgreSQL stores in a tsvector (larger values are clamped)
  */
-function calculateRelevanceScore(
-  news: any,
-  query: string,
-  queryLower: string
-): number {
-  let score = 0;
-  const title = news.title?.toLowerCase() || "";
-  const excerpt = news.excerpt?.toLowerCase() || "";
-  const content = news.content?.toLowerCase() || "";
-
-  // Exact title match (highest priority)
-  if (title === queryLower) {
-    score += 100;
-  } else if (title.includes(queryLower)) {
-    score += 50;
-  }
+const MAX_LEXEME_POSITION = 16383;
+
+/**
+ * Max positions PostgreSQL keeps per lexeme
+ */
+const MAX_POSITIONS_PER_LEXEME = 256;
+
+/**
+ * Longest token worth indexing; anything longer is almost certainly noise (URLs, hashes)
+ */
+const MAX_TOKEN_LENGTH = 100;
+
+/**
+ * Shortest word kept in the "did you mean" vocabulary
+ */
+const MIN_VOCABULARY_TERM_LENGTH = 3;
+
+/**
+ * Minimum trigram similarity for a vocabulary term to count as a correction
+ */
+const CORRECTION_SIMILARITY = 0.4;
+
+/**
+ * Split text into search tokens
+ * Keeps combining marks with their letters so Devanagari words stay whole,
+ * drops zero-width joiners and lowercases Latin text
+ */
+export function tokenizeSearchText(text: string | null | undefined): string[] {
+  if (!text) return [];
+
+  return text
+    .normalize("NFC")
+    .replace(/[\u200b-\u200d\ufeff]/g, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter((token) => token.length > 0 && token.length <= MAX_TOKEN_LENGTH);
+}
 
-  // Title word matches
-  const titleWords = title.split(/\s+/);
-  const queryWords = queryLower.split(/\s+/);
-  queryWords.forEach((qWord) => {
-    if (titleWords.includes(qWord)) {
-      score += 30;
+/**
+ * Quote a token as a tsvector/tsquery lexeme literal
+ */
+function quoteLexeme(token: string): string {
+  return `'${token.replace(/\\/g, "\\\\").replace(/'/g, "''")}'`;
+}
+
+/**
+ * Build a weighted tsvector literal from title (A), excerpt (B) and body (C)
+ */
+export function buildSearchVector(fields: Array<{ text: string | null | undefined; weight: "A" | "B" | "C" | "D" }>): string {
+  const lexemes = new Map<string, string[]>();
+  let position = 0;
+
+  for (const field of fields) {
+    for (const token of tokenizeSearchText(field.text)) {
+      position = Math.min(position + 1, MAX_LEXEME_POSITION);
+      const positions = lexemes.get(token) || [];
+      if (positions.length < MAX_POSITIONS_PER_LEXEME) {
+        positions.push(`${position}${field.weight}`);
+      }
+      lexemes.set(token, positions);
     }
-  });
+  }
+
+  return Array.from(lexemes, ([token, positions]) => `${quoteLexeme(token)}:${positions.join(",")}`).join(" ");
+}
+
+/**
+ * Build a tsquery literal matching every query term as a prefix
+ * Returns null when the query has no searchable terms
+ */
+export function buildSearchQuery(query: string): string | null {
+  const tokens = Array.from(new Set(tokenizeSearchText(query)));
+  if (tokens.length === 0) return null;
+
+  return tokens.map((token) => `${quoteLexeme(token)}:*`).join(" & ");
+}
+
+/**
+ * Extract plain text from stored news content
+ * Content is normally Lexical JSON; posts imported from the old site may hold HTML
+ */
+export function extractSearchText(content: string): string {
+  const trimmed = content.trim();
+  if (trimmed.startsWith("{")) {
+    return lexicalToPlainText(trimmed);
+  }
+
+  return trimmed
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<br\s*\/?>|<\/(p|div|h[1-6]|li)>/gi, "\n")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/[ \t]+/g, " ")
+    .trim();
+}
+
+/**
+ * Recompute the persisted search text and tsvector of a news post
+ * Call after any change to title, excerpt or content
+ * @param newsId - News post ID
+ */
+export async function refreshNewsSearchIndex(newsId: string) {
+  try {
+    const news = await prisma.news.findUnique({
+      where: { id: newsId },
+      select: { title: true, slug: true, excerpt: true, content: true },
+    });
+
+    if (!news) return;
 
-  // Excerpt match
-  if (excerpt.includes(queryLower)) {
-    score += 20;
+    const searchText = extractSearchText(news.content);
+    const searchVector = buildSearchVector([
+      { text: news.title, weight: "A" },
+      { text: news.excerpt, weight: "B" },
+      { text: searchText, weight: "C" },
+    ]);
+
+    await prisma.$executeRaw`
+      UPDATE news
+      SET "searchText" = ${searchText}, "searchVector" = ${searchVector}::tsvector
+      WHERE id = ${newsId}
+    `;
+
+    // Title and slug words feed "did you mean"; slugs carry the transliterated (Latin) spelling
+    const terms = Array.from(
+      new Set([...tokenizeSearchText(news.title), ...tokenizeSearchText(news.slug)])
+    ).filter((term) => term.length >= MIN_VOCABULARY_TERM_LENGTH && !/^\p{N}+$/u.test(term));
+
+    if (terms.length > 0) {
+      await prisma.searchTerm.createMany({
+        data: terms.map((term) => ({ term })),
+        skipDuplicates: true,
+      });
+    }
+  } catch (error) {
+    logError("Failed to refresh news search index", error as Error, { newsId });
   }
+}
+
+/**
+ * Rebuild the search index for every news post
+ * Used by scripts/reindex-news-search.ts after deploys and imports
+ * @param batchSize - Posts loaded per query
+ * @returns Number of posts indexed
+ */
+export async function reindexAllNews(batchSize: number = 200): Promise<number> {
+  let indexed = 0;
+  let cursor: string | undefined;
+
+  while (true) {
+    const batch = await prisma.news.findMany({
+      select: { id: true },
+      orderBy: { id: "asc" },
+      take: batchSize,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+
+    if (batch.length === 0) break;
 
-  // Content match (lower priority)
-  if (content.includes(queryLower)) {
-    score += 10;
+    for (const news of batch) {
+      await refreshNewsSearchIndex(news.id);
+    }
+
+    indexed += batch.length;
+    cursor = batch[batch.length - 1].id;
   }
 
-  // Boost for featured/breaking news
-  if (news.isFeatured) score += 5;
-  if (news.isBreaking) score += 5;
+  return indexed;
+}
+
+/**
+ * Normalize a query for logging and suggestion lookups
+ */
+export function normalizeSearchQuery(query: string): string {
+  return query.normalize("NFC").trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Suggest a corrected spelling for a query using the search vocabulary
+ * Each word missing from the vocabulary is replaced by its closest trigram match
+ * @returns The corrected query, or null when every word is already known or nothing is close enough
+ */
+export async function suggestCorrection(query: string): Promise<string | null> {
+  const tokens = tokenizeSearchText(query);
+  if (tokens.length === 0) return null;
+
+  let changed = false;
+  const corrected = await Promise.all(
+    tokens.map(async (token) => {
+      if (token.length < MIN_VOCABULARY_TERM_LENGTH) return token;
+
+      const known = await prisma.searchTerm.findUnique({ where: { term: token } });
+      if (known) return token;
+
+      const [match] = await prisma.$queryRaw<Array<{ term: string }>>`
+        SELECT term FROM search_terms
+        WHERE term % ${token} AND similarity(term, ${token}) >= ${CORRECTION_SIMILARITY}
+        ORDER BY similarity(term, ${token}) DESC, term
+        LIMIT 1
+      `;
+
+      if (!match) return token;
+      changed = true;
+      return match.term;
+    })
+  );
+
+  return changed ? corrected.join(" ") : null;
+}
+
+/**
+ * Record a public search for suggestions and the zero-result report
+ * Failures are logged and never affect the search response
+ */
+export async function logSearchQuery(entry: {
+  query: string;
+  resultCount: number;
+  fuzzy: boolean;
+  didYouMean: string | null;
+}) {
+  try {
+    const query = normalizeSearchQuery(entry.query);
+    if (query.length < 2) return;
 
-  // Boost for recent news
-  if (news.publishedAt) {
-    const daysSincePublished =
-      (Date.now() - new Date(news.publishedAt).getTime()) / (1000 * 60 * 60 * 24);
-    if (daysSincePublished < 7) score += 5;
-    if (daysSincePublished < 1) score += 10;
+    await prisma.searchQueryLog.create({
+      data: {
+        query,
+        resultCount: entry.resultCount,
+        fuzzy: entry.fuzzy,
+        didYouMean: entry.didYouMean,
+      },
+    });
+  } catch (error) {
+    logError("Failed to log search query", error as Error, { query: entry.query });
   }
+}
+
+/**
+ * Most searched queries that returned results
+ * @param prefix - Only queries starting with this text (optional)
+ * @param limit - Max suggestions
+ * @param days - Look-back window
+ */
+export async function getPopularSearches(prefix: string = "", limit: number = 5, days: number = 7) {
+  const since = new Date();
+  since.setDate(since.getDate() - days);
 
-  return score;
+  const normalizedPrefix = normalizeSearchQuery(prefix);
+
+  const rows = await prisma.searchQueryLog.groupBy({
+    by: ["query"],
+    where: {
+      createdAt: { gte: since },
+      resultCount: { gt: 0 },
+      ...(normalizedPrefix ? { query: { startsWith: normalizedPrefix, not: normalizedPrefix } } : {}),
+    },
+    _count: { query: true },
+    orderBy: { _count: { query: "desc" } },
+    take: limit,
+  });
+
+  return rows.map((row) => row.query);
 }
 
 /**
  * Highlight search terms in text
+ * Falls back to the individual query terms when the full phrase does not occur
  */
 function highlightText(text: string, query: string): string[] {
   if (!text || !query) return [];
-  
-  const queryLower = query.toLowerCase();
+
+  const phraseHighlights = findSnippets(text, query);
+  if (phraseHighlights.length > 0) return phraseHighlights;
+
+  for (const token of tokenizeSearchText(query)) {
+    const tokenHighlights = findSnippets(text, token);
+    if (tokenHighlights.length > 0) return tokenHighlights;
+  }
+
+  return [];
+}
+
+/**
+ * Collect up to three snippets around occurrences of a term
+ */
+function findSnippets(text: string, term: string): string[] {
+  const termLower = term.toLowerCase();
   const textLower = text.toLowerCase();
   const highlights: string[] = [];
   
   // Find all occurrences
-  let index = textLower.indexOf(queryLower);
+  let index = textLower.indexOf(termLower);
   let found = 0;
   
   while (index !== -1 && found < 3) { // Limit to 3 highlights
     const start = Math.max(0, index - 50);
-    const end = Math.min(text.length, index + query.length + 50);
+    const end = Math.min(text.length, index + term.length + 50);
     const snippet = text.substring(start, end);
     highlights.push(snippet);
-    index = textLower.indexOf(queryLower, index + 1);
+    index = textLower.indexOf(termLower, index + 1);
     found++;
   }
   
   return highlights;
 }
 
+/**
+ * Fields returned for each search result
+ */
+const searchResultSelect = {
+  id: true,
+  title: true,
+  slug: true,
+  excerpt: true,
+  searchText: true,
+  coverImage: true,
+  isBreaking: true,
+  isFeatured: true,
+  viewCount: true,
+  likes: true,
+  publishedAt: true,
+  createdAt: true,
+  author: {
+    select: {
+      id: true,
+      username: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  categories: {
+    select: {
+      id: true,
+      menu: {
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.NewsSelect;
+
 /**
  * Advanced news search
- * Supports full-text search with filtering and sorting
+ * Matching, ranking and pagination all happen in PostgreSQL
  */
 export async function searchNews(options: SearchOptions): Promise<SearchResponse> {
   const startTime = Date.now();
@@ -194,30 +481,47 @@ export async function searchNews(options: SearchOptions): Promise<SearchResponse
   } = options;
 
   const skip = (page - 1) * limit;
-  const queryLower = query.toLowerCase().trim();
-
-  // Build where clause
-  const where: any = {
-    isPublished: true,
-    isActive: true,
-    // Only show published news
-    AND: [
-      {
-        OR: [
-          { publishedAt: { lte: new Date() } },
-          { publishedAt: null, createdAt: { lte: new Date() } },
-        ],
-      },
-      // Full-text search on title, excerpt, and content
-      {
-        OR: [
-          { title: { contains: query, mode: "insensitive" } },
-          { excerpt: { contains: query, mode: "insensitive" } },
-          { content: { contains: query, mode: "insensitive" } },
-        ],
+  const tsQuery = buildSearchQuery(query);
+
+  const buildResponse = (
+    results: SearchResult[],
+    total: number,
+    correction: { fuzzy: boolean; didYouMean: string | null } = { fuzzy: false, didYouMean: null }
+  ): SearchResponse => ({
+    results,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+      hasNext: page < Math.ceil(total / limit),
+      hasPrev: page > 1,
+    },
+    meta: {
+      query,
+      filters: {
+        category,
+        authorId,
+        dateFrom: dateFrom?.toISOString(),
+        dateTo: dateTo?.toISOString(),
       },
-    ],
-  };
+      sortBy,
+      executionTime: Date.now() - startTime,
+      ...correction,
+    },
+  });
+
+  // Nothing searchable (e.g. only punctuation)
+  if (!tsQuery) {
+    return buildResponse([], 0);
+  }
+
+  // Only show published news
+  const filters: Prisma.Sql[] = [
+    Prisma.sql`n."isPublished" = true`,
+    Prisma.sql`n."isActive" = true`,
+    Prisma.sql`COALESCE(n."publishedAt", n."createdAt") <= ${new Date()}`,
+  ];
 
   // Category filter
   if (category) {
@@ -226,173 +530,151 @@ export async function searchNews(options: SearchOptions): Promise<SearchResponse
     });
     
     if (categoryMenu) {
-      where.categories = {
-        some: {
-          menuId: categoryMenu.id,
-        },
-      };
+      filters.push(
+        Prisma.sql`EXISTS (SELECT 1 FROM news_categories nc WHERE nc."newsId" = n.id AND nc."menuId" = ${categoryMenu.id})`
+      );
     }
   }
 
   // Author filter
   if (authorId) {
-    where.authorId = authorId;
+    filters.push(Prisma.sql`n."authorId" = ${authorId}`);
   }
 
   // Date range filter
-  if (dateFrom || dateTo) {
-    where.publishedAt = {};
-    if (dateFrom) {
-      where.publishedAt.gte = dateFrom;
-    }
-    if (dateTo) {
-      where.publishedAt.lte = dateTo;
-    }
+  if (dateFrom) {
+    filters.push(Prisma.sql`n."publishedAt" >= ${dateFrom}`);
+  }
+  if (dateTo) {
+    filters.push(Prisma.sql`n."publishedAt" <= ${dateTo}`);
   }
 
-  // Get total count
-  const total = await prisma.news.count({ where });
-
-  // Build orderBy based on sort option
-  let orderBy: any[] = [];
-  if (sortBy === "relevance") {
-    // For relevance, we'll fetch all and sort in memory
-    // This is acceptable for reasonable result sets
-    orderBy = [{ publishedAt: "desc" }];
-  } else if (sortBy === "date") {
-    orderBy = [{ publishedAt: "desc" }, { createdAt: "desc" }];
+  // Build ORDER BY based on sort option
+  let orderBy: Prisma.Sql;
+  if (sortBy === "date") {
+    orderBy = Prisma.sql`n."publishedAt" DESC NULLS LAST, n."createdAt" DESC`;
   } else if (sortBy === "views") {
-    orderBy = [{ viewCount: "desc" }, { publishedAt: "desc" }];
+    orderBy = Prisma.sql`n."viewCount" DESC, n."publishedAt" DESC NULLS LAST`;
   } else if (sortBy === "likes") {
-    orderBy = [{ likes: "desc" }, { publishedAt: "desc" }];
+    orderBy = Prisma.sql`n.likes DESC, n."publishedAt" DESC NULLS LAST`;
+  } else {
+    orderBy = Prisma.sql`rank DESC, n."publishedAt" DESC NULLS LAST`;
   }
 
-  // Fetch news
+  const runQuery = async (match: Prisma.Sql, rank: Prisma.Sql) => {
+    const where = Prisma.join([...filters, match], " AND ");
+
+    const [countRows, rankedRows] = await Promise.all([
+      prisma.$queryRaw<Array<{ total: number }>>`
+        SELECT COUNT(*)::int AS total FROM news n WHERE ${where}
+      `,
+      prisma.$queryRaw<Array<{ id: string; rank: number }>>`
+        SELECT n.id, ${rank} AS rank
+        FROM news n
+        WHERE ${where}
+        ORDER BY ${orderBy}
+        LIMIT ${limit} OFFSET ${skip}
+      `,
+    ]);
+
+    return { total: countRows[0]?.total ?? 0, rankedRows };
+  };
+
+  let { total, rankedRows } = await runQuery(
+    Prisma.sql`n."searchVector" @@ ${tsQuery}::tsquery`,
+    Prisma.sql`ts_rank(n."searchVector", ${tsQuery}::tsquery, 1)`
+  );
+  let fuzzy = false;
+  let didYouMean: string | null = null;
+
+  // Typo tolerance: nothing matched as typed, so retry with trigram similarity
+  // against titles and slugs plus the vocabulary-corrected query
+  if (total === 0) {
+    didYouMean = await suggestCorrection(query);
+    const correctedQuery = didYouMean ? buildSearchQuery(didYouMean) : null;
+
+    ({ total, rankedRows } = await runQuery(
+      correctedQuery
+        ? Prisma.sql`(${query} <% n.title OR ${query} <% n.slug OR n."searchVector" @@ ${correctedQuery}::tsquery)`
+        : Prisma.sql`(${query} <% n.title OR ${query} <% n.slug)`,
+      correctedQuery
+        ? Prisma.sql`GREATEST(word_similarity(${query}, n.title), word_similarity(${query}, n.slug), ts_rank(n."searchVector", ${correctedQuery}::tsquery, 1))`
+        : Prisma.sql`GREATEST(word_similarity(${query}, n.title), word_similarity(${query}, n.slug))`
+    ));
+    fuzzy = total > 0;
+  }
+
+  // Load the page's posts with relations, then restore the SQL order
   const news = await prisma.news.findMany({
-    where,
-    skip,
-    take: limit,
-    orderBy,
-    select: {
-      id: true,
-      title: true,
-      slug: true,
-      excerpt: true,
-      content: includeContent ? true : false,
-      coverImage: true,
-      isBreaking: true,
-      isFeatured: true,
-      viewCount: true,
-      likes: true,
-      publishedAt: true,
-      createdAt: true,
-      author: {
-        select: {
-          id: true,
-          username: true,
-          firstName: true,
-          lastName: true,
-        },
-      },
-      categories: {
-        select: {
-          id: true,
-          menu: {
-            select: {
-              id: true,
-              name: true,
-              slug: true,
-            },
-          },
-        },
-      },
-    },
+    where: { id: { in: rankedRows.map((row) => row.id) } },
+    select: { ...searchResultSelect, content: includeContent },
   });
+  const newsById = new Map(news.map((item) => [item.id, item]));
+  const highlightQuery = didYouMean || query;
 
-  // Calculate relevance scores and add highlights
-  const results: SearchResult[] = news.map((item: any) => {
-    const relevanceScore = calculateRelevanceScore(item, query, queryLower);
-    
-    return {
-      ...item,
-      relevanceScore,
-      highlights: {
-        title: highlightText(item.title, query),
-        excerpt: item.excerpt ? highlightText(item.excerpt, query) : [],
-        content: includeContent && item.content
-          ? highlightText(item.content.substring(0, 500), query) // Limit content highlights
-          : [],
-      },
-    } as SearchResult;
-  });
+  const results: SearchResult[] = rankedRows.flatMap((row) => {
+    const item = newsById.get(row.id);
+    if (!item) return [];
 
-  // Sort by relevance if needed
-  if (sortBy === "relevance") {
-    results.sort((a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0));
-  }
+    const { searchText, ...rest } = item;
 
-  const executionTime = Date.now() - startTime;
+    return [
+      {
+        ...rest,
+        content: includeContent ? item.content : undefined,
+        relevanceScore: Number(row.rank),
+        highlights: {
+          title: highlightText(item.title, highlightQuery),
+          excerpt: item.excerpt ? highlightText(item.excerpt, highlightQuery) : [],
+          content: includeContent && searchText
+            ? highlightText(searchText, highlightQuery)
+            : [],
+        },
+      } as SearchResult,
+    ];
+  });
 
-  return {
-    results,
-    pagination: {
-      page,
-      limit,
-      total,
-      totalPages: Math.ceil(total / limit),
-      hasNext: page < Math.ceil(total / limit),
-      hasPrev: page > 1,
-    },
-    meta: {
-      query,
-      filters: {
-        category,
-        authorId,
-        dateFrom: dateFrom?.toISOString(),
-        dateTo: dateTo?.toISOString(),
-      },
-      sortBy,
-      executionTime,
-    },
-  };
+  return buildResponse(results, total, { fuzzy, didYouMean });
 }
 
 /**
  * Quick search (for autocomplete/suggestions)
- * Returns only titles and slugs for fast response
+ * Returns only titles and slugs for fast response, best matches first
  */
 export async function quickSearch(query: string, limit: number = 5) {
-  const queryLower = query.toLowerCase().trim();
+  const tsQuery = buildSearchQuery(query);
 
-  if (queryLower.length < 2) {
+  if (query.trim().length < 2 || !tsQuery) {
     return [];
   }
 
-  const news = await prisma.news.findMany({
-    where: {
-      isPublished: true,
-      isActive: true,
-      OR: [
-        { publishedAt: { lte: new Date() } },
-        { publishedAt: null, createdAt: { lte: new Date() } },
-      ],
-      title: { contains: query, mode: "insensitive" },
-    },
-    select: {
-      id: true,
-      title: true,
-      slug: true,
-      coverImage: true,
-      publishedAt: true,
-    },
-    take: limit,
-    orderBy: [
-      { publishedAt: "desc" },
-      { createdAt: "desc" },
-    ],
-  });
+  const published = Prisma.sql`
+    n."isPublished" = true
+    AND n."isActive" = true
+    AND COALESCE(n."publishedAt", n."createdAt") <= ${new Date()}
+  `;
+
+  const matches = await prisma.$queryRaw<QuickSearchResult[]>`
+    SELECT n.id, n.title, n.slug, n."coverImage", n."publishedAt"
+    FROM news n
+    WHERE ${published} AND n."searchVector" @@ ${tsQuery}::tsquery
+    ORDER BY ts_rank(n."searchVector", ${tsQuery}::tsquery, 1) DESC, n."publishedAt" DESC NULLS LAST
+    LIMIT ${limit}
+  `;
 
-  return news;
+  if (matches.length > 0) {
+    return matches;
+  }
+
+  // Typo tolerance for autocomplete: closest titles/slugs by trigram similarity
+  return prisma.$queryRaw<QuickSearchResult[]>`
+    SELECT n.id, n.title, n.slug, n."coverImage", n."publishedAt"
+    FROM news n
+    WHERE ${published} AND (${query} <% n.title OR ${query} <% n.slug)
+    ORDER BY GREATEST(word_similarity(${query}, n.title), word_similarity(${query}, n.slug)) DESC,
+      n."publishedAt" DESC NULLS LAST
+    LIMIT ${limit}
+  `;
 }
 
 /**
@@ -406,3 +688,15 @@ export const getCachedQuickSearch = unstable_cache(
     tags: ["news-search"],
   }
 );
+
+/**
+ * Cached popular searches for autocomplete
+ */
+export const getCachedPopularSearches = unstable_cache(
+  getPopularSearches,
+  ["popular-searches"],
+  {
+    revalidate: 300, // 5 minutes
+    tags: ["news-search"],
+  }
+);
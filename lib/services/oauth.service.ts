@@ -0,0 +1,165 @@
+/**
+ * OAuth Account Service
+ * Finds the account for a social sign-in. A known provider identity signs in
+ * to the account it's linked to; otherwise an account with the same verified
+ * email address is linked, or a new account is created with the configured
+ * first-login role.
+ */
+
+import crypto from "crypto";
+import { prisma } from "@/lib/prisma";
+import { env } from "@/lib/config/env";
+import { createAuditLog } from "@/lib/audit-log";
+import type { OAuthProfile } from "@/lib/auth/oauth/provider";
+import type { LoginUser } from "@/lib/services/login.service";
+
+export type OAuthSignInResult =
+  | { status: "signed_in"; user: LoginUser; created: boolean; linked: boolean }
+  | { status: "email_unverified" }
+  | { status: "inactive" };
+
+interface RequestContext {
+  ipAddress: string;
+  userAgent: string;
+}
+
+const loginUserInclude = { roles: { include: { role: true } } } as const;
+
+/**
+ * Username for a new account, from the email's local part
+ */
+async function generateUsername(email: string): Promise<string> {
+  const base = email.split("@")[0].toLowerCase().replace(/[^a-z0-9_-]/g, "_").slice(0, 20).padEnd(3, "_");
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const username = attempt === 0 ? base : `${base}_${crypto.randomInt(1000, 10000)}`;
+    const taken = await prisma.user.findUnique({ where: { username }, select: { id: true } });
+    if (!taken) return username;
+  }
+
+  return `${base}_${crypto.randomBytes(4).toString("hex")}`;
+}
+
+/**
+ * Account to sign in for a provider identity, linking or creating it when needed
+ */
+export async function resolveOAuthUser(
+  providerId: string,
+  profile: OAuthProfile,
+  context: RequestContext
+): Promise<OAuthSignInResult> {
+  const linkedAccount = await prisma.oAuthAccount.findUnique({
+    where: { provider_providerAccountId: { provider: providerId, providerAccountId: profile.id } },
+    include: { user: { include: loginUserInclude } },
+  });
+
+  if (linkedAccount) {
+    if (!linkedAccount.user.isActive) {
+      return { status: "inactive" };
+    }
+
+    await prisma.oAuthAccount.update({
+      where: { id: linkedAccount.id },
+      data: { lastUsedAt: new Date() },
+    });
+    return { status: "signed_in", user: linkedAccount.user, created: false, linked: false };
+  }
+
+  // Linking or creating an account trusts the address, so the provider must
+  // have verified it
+  if (!profile.emailVerified) {
+    return { status: "email_unverified" };
+  }
+
+  const existingUser = await prisma.user.findUnique({
+    where: { email: profile.email },
+    include: loginUserInclude,
+  });
+
+  if (existingUser) {
+    if (!existingUser.isActive) {
+      return { status: "inactive" };
+    }
+
+    await prisma.$transaction([
+      prisma.oAuthAccount.create({
+        data: {
+          userId: existingUser.id,
+          provider: providerId,
+          providerAccountId: profile.id,
+          email: profile.email,
+          lastUsedAt: new Date(),
+        },
+      }),
+      // The provider has confirmed the address
+      prisma.user.update({
+        where: { id: existingUser.id },
+        data: { isEmailVerified: true },
+      }),
+    ]);
+
+    await createAuditLog(
+      {
+        action: "LINK_OAUTH_ACCOUNT",
+        resource: "User",
+        resourceId: existingUser.id,
+        description: `Linked ${providerId} sign-in to ${existingUser.email}`,
+        metadata: { provider: providerId },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+      existingUser.id
+    );
+
+    return { status: "signed_in", user: { ...existingUser, isEmailVerified: true }, created: false, linked: true };
+  }
+
+  const role = await prisma.role.findUnique({
+    where: { slug: env.OAUTH_DEFAULT_ROLE },
+    select: { id: true, slug: true },
+  });
+
+  if (!role) {
+    throw new Error(`First-login role "${env.OAUTH_DEFAULT_ROLE}" not found. Check OAUTH_DEFAULT_ROLE.`);
+  }
+
+  const user = await prisma.user.create({
+    data: {
+      email: profile.email,
+      username: await generateUsername(profile.email),
+      firstName: profile.firstName?.slice(0, 50),
+      lastName: profile.lastName?.slice(0, 50),
+      avatar: profile.avatar,
+      isActive: true,
+      isEmailVerified: true,
+      provider: providerId,
+      providerId: profile.id,
+      accountType: role.slug === "reader" ? "reader" : "staff",
+      roles: { create: { roleId: role.id } },
+      oauthAccounts: {
+        create: {
+          provider: providerId,
+          providerAccountId: profile.id,
+          email: profile.email,
+          lastUsedAt: new Date(),
+        },
+      },
+    },
+    include: loginUserInclude,
+  });
+
+  await createAuditLog(
+    {
+      action: "REGISTER",
+      resource: "User",
+      resourceId: user.id,
+      description: `User ${user.email} registered with ${providerId}`,
+      metadata: { provider: providerId, role: role.slug },
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    },
+    user.id
+  );
+
+  return { status: "signed_in", user, created: true, linked: false };
+}
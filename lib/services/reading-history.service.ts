@@ -0,0 +1,20 @@
+/**
+ * Reading History Service
+ * Records the articles signed-in accounts open, one row per article
+ */
+
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Record that an account read an article
+ * Repeat reads move the article back to the top of the history
+ */
+export async function recordReading(userId: string, newsId: string) {
+  const now = new Date();
+
+  await prisma.readingHistory.upsert({
+    where: { userId_newsId: { userId, newsId } },
+    create: { userId, newsId, firstReadAt: now, lastReadAt: now },
+    update: { readCount: { increment: 1 }, lastReadAt: now },
+  });
+}
@@ -0,0 +1,120 @@
+/**
+ * Series Service
+ *
+ * Public read side of story series: the timeline for /series/[slug] and the
+ * previous/next navigation shown on article pages. Only published, active
+ * posts are visible, and positions are renumbered over those posts so readers
+ * never see gaps left by drafts.
+ */
+
+import { prisma } from "@/lib/prisma";
+
+const publishedNewsWhere = {
+  isPublished: true,
+  isActive: true,
+} as const;
+
+const seriesNewsSelect = {
+  id: true,
+  title: true,
+  slug: true,
+  excerpt: true,
+  coverImage: true,
+  publishedAt: true,
+  createdAt: true,
+} as const;
+
+export interface SeriesNavigationItem {
+  title: string;
+  slug: string;
+}
+
+export interface SeriesNavigation {
+  series: {
+    id: string;
+    title: string;
+    slug: string;
+  };
+  position: number;
+  total: number;
+  previous: SeriesNavigationItem | null;
+  next: SeriesNavigationItem | null;
+}
+
+/**
+ * Get an active series with its published posts in reading order
+ */
+export async function getPublicSeriesBySlug(slug: string) {
+  const series = await prisma.series.findFirst({
+    where: { slug, isActive: true },
+    include: {
+      items: {
+        where: { news: publishedNewsWhere },
+        orderBy: { position: "asc" },
+        select: {
+          news: { select: seriesNewsSelect },
+        },
+      },
+    },
+  });
+
+  if (!series) return null;
+
+  return {
+    id: series.id,
+    title: series.title,
+    slug: series.slug,
+    description: series.description,
+    coverImage: series.coverImage,
+    updatedAt: series.updatedAt,
+    news: series.items.map((item) => item.news),
+  };
+}
+
+/**
+ * Get previous/next navigation for every active series a news post belongs to
+ * @param newsId - News post ID
+ */
+export async function getSeriesNavigationForNews(newsId: string): Promise<SeriesNavigation[]> {
+  const memberships = await prisma.seriesItem.findMany({
+    where: {
+      newsId,
+      series: { isActive: true },
+    },
+    select: {
+      series: {
+        select: {
+          id: true,
+          title: true,
+          slug: true,
+          items: {
+            where: { news: publishedNewsWhere },
+            orderBy: { position: "asc" },
+            select: {
+              news: { select: { id: true, title: true, slug: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  return memberships.flatMap(({ series }) => {
+    const posts = series.items.map((item) => item.news);
+    const index = posts.findIndex((post) => post.id === newsId);
+    if (index === -1) return [];
+
+    const toItem = (post?: { title: string; slug: string }) =>
+      post ? { title: post.title, slug: post.slug } : null;
+
+    return [
+      {
+        series: { id: series.id, title: series.title, slug: series.slug },
+        position: index + 1,
+        total: posts.length,
+        previous: toItem(posts[index - 1]),
+        next: toItem(posts[index + 1]),
+      },
+    ];
+  });
+}
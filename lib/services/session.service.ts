@@ -0,0 +1,117 @@
+/**
+ * Session Service
+ * Every sign-in creates a session row whose ID is the auth token's jti claim.
+ * A token is only accepted while its session is neither revoked nor expired,
+ * so signing out, password changes and account changes take effect at once.
+ */
+
+import { cache } from "react";
+import { prisma } from "@/lib/prisma";
+import { generateToken, type JWTPayload } from "@/lib/auth/jwt-core";
+
+// Matches the auth cookie's max age
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// lastSeenAt is refreshed at most this often, so page loads don't each write
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+
+export type SessionRevokeReason =
+  | "logout"
+  | "signed_out_elsewhere"
+  | "password_change"
+  | "password_reset"
+  | "deactivated"
+  | "role_change"
+  | "two_factor_change";
+
+interface SessionContext {
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+/**
+ * Start a session for a signed-in account and sign a token that refers to it
+ */
+export async function issueSessionToken(
+  payload: Omit<JWTPayload, "jti">,
+  context: SessionContext
+): Promise<string> {
+  const session = await prisma.session.create({
+    data: {
+      userId: payload.userId,
+      ipAddress: context.ipAddress || null,
+      userAgent: context.userAgent?.slice(0, 500) || null,
+      expiresAt: new Date(Date.now() + SESSION_MAX_AGE_MS),
+    },
+    select: { id: true },
+  });
+
+  return generateToken({ ...payload, jti: session.id });
+}
+
+/**
+ * Whether a token's session is still valid
+ * Cached per request because getCurrentUser runs many times while rendering
+ */
+export const isSessionActive = cache(async (sessionId: string, userId: string): Promise<boolean> => {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, revokedAt: true, expiresAt: true, lastSeenAt: true },
+  });
+
+  const now = Date.now();
+  if (!session || session.userId !== userId || session.revokedAt || session.expiresAt.getTime() <= now) {
+    return false;
+  }
+
+  if (now - session.lastSeenAt.getTime() > LAST_SEEN_INTERVAL_MS) {
+    await prisma.session.update({
+      where: { id: sessionId },
+      data: { lastSeenAt: new Date(now) },
+    });
+  }
+
+  return true;
+});
+
+/**
+ * Revoke one session
+ * @returns Whether an active session was revoked
+ */
+export async function revokeSession(sessionId: string, reason: SessionRevokeReason, userId?: string) {
+  const result = await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null, ...(userId ? { userId } : {}) },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Revoke every active session of an account, optionally keeping one
+ * @returns Number of sessions revoked
+ */
+export async function revokeUserSessions(userId: string, reason: SessionRevokeReason, exceptSessionId?: string) {
+  const result = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+      ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+    },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+
+  return result.count;
+}
+
+/**
+ * Active sessions of an account, most recently used first
+ */
+export async function getActiveSessions(userId: string) {
+  return prisma.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: { id: true, ipAddress: true, userAgent: true, createdAt: true, lastSeenAt: true, expiresAt: true },
+    orderBy: { lastSeenAt: "desc" },
+  });
+}
@@ -0,0 +1,61 @@
+/**
+ * Tag Service
+ *
+ * Database helpers for the news tag taxonomy: find-or-create by name
+ * and replacing the tags of a news post.
+ * Used by the news and tag server actions and by scripts.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { MAX_TAGS_PER_NEWS, generateTagSlug, normalizeTagName } from "@/lib/utils/tags";
+
+/**
+ * Find tags by name, creating the ones that do not exist yet
+ * Names that normalize to the same slug resolve to a single tag
+ * @param names - Tag names as typed by the user
+ */
+export async function findOrCreateTags(names: string[]) {
+  const bySlug = new Map<string, string>();
+  for (const raw of names) {
+    const name = normalizeTagName(raw);
+    const slug = generateTagSlug(name);
+    if (name && slug && !bySlug.has(slug)) {
+      bySlug.set(slug, name);
+    }
+  }
+
+  const slugs = Array.from(bySlug.keys());
+  if (slugs.length === 0) return [];
+
+  const existing = await prisma.tag.findMany({ where: { slug: { in: slugs } } });
+  const existingSlugs = new Set(existing.map((tag) => tag.slug));
+
+  const missing = slugs.filter((slug) => !existingSlugs.has(slug));
+  if (missing.length > 0) {
+    await prisma.tag.createMany({
+      data: missing.map((slug) => ({ name: bySlug.get(slug)!, slug })),
+      skipDuplicates: true,
+    });
+  }
+
+  return prisma.tag.findMany({ where: { slug: { in: slugs } } });
+}
+
+/**
+ * Replace the tags of a news post
+ * @param newsId - News post ID
+ * @param names - Tag names; an empty list removes all tags
+ */
+export async function setNewsTags(newsId: string, names: string[]) {
+  const tags = await findOrCreateTags(names.slice(0, MAX_TAGS_PER_NEWS));
+
+  await prisma.$transaction([
+    prisma.newsTag.deleteMany({ where: { newsId } }),
+    prisma.newsTag.createMany({
+      data: tags.map((tag) => ({ newsId, tagId: tag.id })),
+      skipDuplicates: true,
+    }),
+  ]);
+
+  return tags;
+}
@@ -0,0 +1,57 @@
+/**
+ * Two-Factor Service
+ * Checks second factors for enrolled accounts and the per-role requirement.
+ * Shared by the sign-in step and the profile settings.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { decryptTotpSecret, hashRecoveryCode, isRecoveryCodeFormat, verifyTotp } from "@/lib/security/two-factor";
+
+export type SecondFactor = "totp" | "recovery_code";
+
+interface TwoFactorUser {
+  id: string;
+  twoFactorSecret: string | null;
+  twoFactorLastUsedStep: number | null;
+  twoFactorRecoveryCodes: string[];
+}
+
+/**
+ * Check an authenticator or recovery code
+ * An accepted code can't be used again: the TOTP step is remembered and
+ * recovery codes are removed. Both are consumed with a guarded update, so of
+ * two requests racing with the same code only one succeeds.
+ * @returns Which factor matched, or null when the code is wrong or already used
+ */
+export async function verifySecondFactor(user: TwoFactorUser, code: string): Promise<SecondFactor | null> {
+  if (isRecoveryCodeFormat(code)) {
+    const hash = hashRecoveryCode(code);
+    if (!user.twoFactorRecoveryCodes.includes(hash)) return null;
+
+    const consumed = await prisma.user.updateMany({
+      where: { id: user.id, twoFactorRecoveryCodes: { has: hash } },
+      data: { twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter((stored) => stored !== hash) },
+    });
+    return consumed.count > 0 ? "recovery_code" : null;
+  }
+
+  const secret = user.twoFactorSecret ? decryptTotpSecret(user.twoFactorSecret) : null;
+  const step = secret ? verifyTotp(secret, code, user.twoFactorLastUsedStep) : null;
+  if (step === null) return null;
+
+  const consumed = await prisma.user.updateMany({
+    where: { id: user.id, twoFactorLastUsedStep: user.twoFactorLastUsedStep },
+    data: { twoFactorLastUsedStep: step },
+  });
+  return consumed.count > 0 ? "totp" : null;
+}
+
+/**
+ * Whether any of the user's active roles requires two-factor authentication
+ */
+export async function isTwoFactorRequired(userId: string): Promise<boolean> {
+  const count = await prisma.userRole.count({
+    where: { userId, role: { isActive: true, requireTwoFactor: true } },
+  });
+  return count > 0;
+}
@@ -0,0 +1,109 @@
+/**
+ * Advertisement report shapes and exports shared by the advertiser portal
+ * and the report download route.
+ */
+
+import { createTextPdf } from "./pdf";
+
+/**
+ * Report periods (in days) offered in the advertiser portal
+ */
+export const AD_REPORT_RANGES = [7, 30, 90] as const;
+
+export const DEFAULT_AD_REPORT_RANGE = 30;
+
+export interface AdReportDay {
+  date: string; // YYYY-MM-DD (UTC)
+  impressions: number;
+  clicks: number;
+  ctr: number; // Percent
+}
+
+export interface AdReportCreative {
+  adId: string;
+  title: string;
+  impressions: number;
+  clicks: number;
+  ctr: number;
+}
+
+export interface AdReport {
+  title: string;
+  from: string; // YYYY-MM-DD (UTC), inclusive
+  to: string; // YYYY-MM-DD (UTC), inclusive
+  days: AdReportDay[];
+  creatives: AdReportCreative[];
+  totals: {
+    impressions: number;
+    clicks: number;
+    ctr: number;
+  };
+}
+
+/**
+ * Click-through rate as a percentage, rounded to two decimals
+ */
+export function getClickThroughRate(clicks: number, impressions: number): number {
+  if (impressions <= 0) return 0;
+  return Math.round((clicks / impressions) * 10000) / 100;
+}
+
+/**
+ * Clamp a requested period to one of the offered ranges
+ */
+export function normalizeAdReportRange(days: number | string | undefined): number {
+  const parsed = Number(days);
+  return (AD_REPORT_RANGES as readonly number[]).includes(parsed) ? parsed : DEFAULT_AD_REPORT_RANGE;
+}
+
+/**
+ * Quote a CSV field when it contains a separator, quote or line break
+ */
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Daily rows followed by the per-creative breakdown
+ */
+export function buildAdReportCsv(report: AdReport): string {
+  const lines = [
+    ["Date", "Impressions", "Clicks", "CTR (%)"],
+    ...report.days.map((day) => [day.date, day.impressions, day.clicks, day.ctr.toFixed(2)]),
+    ["Total", report.totals.impressions, report.totals.clicks, report.totals.ctr.toFixed(2)],
+    [],
+    ["Creative", "Impressions", "Clicks", "CTR (%)"],
+    ...report.creatives.map((creative) => [
+      creative.title,
+      creative.impressions,
+      creative.clicks,
+      creative.ctr.toFixed(2),
+    ]),
+  ];
+
+  return lines.map((line) => line.map(csvField).join(",")).join("\r\n");
+}
+
+/**
+ * Plain tabular PDF of the same data as the CSV export
+ */
+export function buildAdReportPdf(report: AdReport): Uint8Array<ArrayBuffer> {
+  const row = (label: string, impressions: number | string, clicks: number | string, ctr: string) =>
+    `${label.slice(0, 40).padEnd(42)}${String(impressions).padStart(12)}${String(clicks).padStart(10)}${ctr.padStart(10)}`;
+
+  const lines = [
+    `Period: ${report.from} to ${report.to} (UTC)`,
+    `Impressions: ${report.totals.impressions}   Clicks: ${report.totals.clicks}   CTR: ${report.totals.ctr.toFixed(2)}%`,
+    "",
+    row("Date", "Impressions", "Clicks", "CTR %"),
+    ...report.days.map((day) => row(day.date, day.impressions, day.clicks, day.ctr.toFixed(2))),
+    "",
+    row("Creative", "Impressions", "Clicks", "CTR %"),
+    ...report.creatives.map((creative) =>
+      row(creative.title, creative.impressions, creative.clicks, creative.ctr.toFixed(2))
+    ),
+  ];
+
+  return createTextPdf(report.title, lines);
+}
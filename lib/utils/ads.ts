@@ -0,0 +1,321 @@
+/**
+ * Advertisement helpers shared by the server and the browser:
+ * display shape, zone definitions and creative rules, weighted rotation, targeting
+ * and the per-visitor frequency cookie.
+ */
+
+export interface AdDisplay {
+  id: string;
+  title: string;
+  description: string | null;
+  imageUrl: string;
+  linkUrl: string | null;
+  zone: string;
+  position: number;
+  newsId: string | null;
+  newsSlug?: string | null;
+  weight?: number;
+  frequencyCap?: number | null;
+}
+
+/**
+ * Device types an ad can be targeted at
+ */
+export const AD_DEVICES = ["mobile", "tablet", "desktop"] as const;
+
+/**
+ * Targeting rules stored on an advertisement
+ * An empty list means no restriction on that dimension
+ */
+export interface AdTargeting {
+  targetCategoryIds: string[];
+  excludedCategoryIds: string[];
+  targetNewsIds: string[];
+  targetDevices: string[];
+  targetCountries: string[];
+  targetRegions: string[];
+}
+
+/**
+ * What is known about the page and visitor an ad is requested for
+ * categoryIds should include the ancestors of the page's categories
+ */
+export interface AdTargetingContext {
+  categoryIds?: string[];
+  newsId?: string | null;
+  device?: string | null;
+  country?: string | null;
+  region?: string | null;
+}
+
+/**
+ * Whether an ad's targeting rules allow it on the given page for the given visitor
+ * - Content: an article or category listed on the ad, unless no content is listed
+ * - Excluded categories always win
+ * - Geo: a listed country or region; visitors with unknown location only see untargeted ads
+ */
+export function matchesAdTargeting(targeting: AdTargeting, context: AdTargetingContext): boolean {
+  const categoryIds = context.categoryIds || [];
+
+  if (targeting.excludedCategoryIds.some((id) => categoryIds.includes(id))) {
+    return false;
+  }
+
+  const hasContentTargeting = targeting.targetCategoryIds.length > 0 || targeting.targetNewsIds.length > 0;
+  if (hasContentTargeting) {
+    const matchesNews = !!context.newsId && targeting.targetNewsIds.includes(context.newsId);
+    const matchesCategory = targeting.targetCategoryIds.some((id) => categoryIds.includes(id));
+    if (!matchesNews && !matchesCategory) return false;
+  }
+
+  if (targeting.targetDevices.length > 0) {
+    if (!context.device || !targeting.targetDevices.includes(context.device)) return false;
+  }
+
+  const hasGeoTargeting = targeting.targetCountries.length > 0 || targeting.targetRegions.length > 0;
+  if (hasGeoTargeting) {
+    const matchesCountry = !!context.country && targeting.targetCountries.includes(context.country);
+    const matchesRegion = !!context.region && targeting.targetRegions.includes(context.region);
+    if (!matchesCountry && !matchesRegion) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Cookie holding today's impression counts per ad for the visitor
+ */
+export const AD_FREQUENCY_COOKIE = "ad_freq";
+
+/**
+ * Most ads a single serve request may return for one zone
+ */
+export const MAX_ADS_PER_ZONE = 10;
+
+/**
+ * Impression counts per ad for one day
+ */
+export interface AdFrequencyState {
+  day: string;
+  counts: Record<string, number>;
+}
+
+/**
+ * Image formats a zone can accept for creatives
+ */
+export const AD_CREATIVE_FORMATS = ["jpg", "png", "webp", "gif", "svg"] as const;
+
+/**
+ * How far (as a fraction) a creative's aspect ratio may differ from its zone's
+ */
+export const AD_ASPECT_RATIO_TOLERANCE = 0.1;
+
+/**
+ * Zone definition the ad components render by (no creative limits)
+ */
+export interface AdZoneDisplay {
+  slug: string;
+  width: number;
+  height: number;
+  maxAds: number;
+  isEnabled: boolean;
+  fallback: AdDisplay | null;
+}
+
+/**
+ * Size and format rules a zone applies to creatives
+ */
+export interface AdZoneRules {
+  name: string;
+  width: number;
+  height: number;
+  minWidth: number | null;
+  minHeight: number | null;
+  maxWidth: number | null;
+  maxHeight: number | null;
+  allowedFormats: string[];
+}
+
+/**
+ * Zone offered in the advertisement and creative forms
+ */
+export interface AdZoneOption extends AdZoneRules {
+  slug: string;
+  isEnabled: boolean;
+}
+
+/**
+ * What is known about a creative image; dimensions are unknown for external URLs
+ */
+export interface AdCreativeImage {
+  format: string | null;
+  width: number | null;
+  height: number | null;
+}
+
+/**
+ * One-line summary of a zone's creative rules for the ad forms
+ * e.g. "970x90 (at least 728px wide) - jpg, png, webp"
+ */
+export function describeAdZoneRules(zone: AdZoneRules): string {
+  const limits = [
+    zone.minWidth && `at least ${zone.minWidth}px wide`,
+    zone.minHeight && `at least ${zone.minHeight}px high`,
+    zone.maxWidth && `at most ${zone.maxWidth}px wide`,
+    zone.maxHeight && `at most ${zone.maxHeight}px high`,
+  ].filter(Boolean);
+  const size = `${zone.width}x${zone.height}${limits.length > 0 ? ` (${limits.join(", ")})` : ""}`;
+  return zone.allowedFormats.length > 0 ? `${size} - ${zone.allowedFormats.join(", ")}` : size;
+}
+
+/**
+ * Fallback creative of a zone, or null when the zone has none
+ */
+export function getZoneFallbackAd(zone: {
+  slug: string;
+  fallbackTitle: string | null;
+  fallbackDescription: string | null;
+  fallbackImageUrl: string | null;
+  fallbackLinkUrl: string | null;
+}): AdDisplay | null {
+  if (!zone.fallbackImageUrl) return null;
+
+  return {
+    id: `default-${zone.slug}`,
+    title: zone.fallbackTitle || "Advertisement",
+    description: zone.fallbackDescription,
+    imageUrl: zone.fallbackImageUrl,
+    linkUrl: zone.fallbackLinkUrl,
+    zone: zone.slug,
+    position: 0,
+    newsId: null,
+  };
+}
+
+/**
+ * Image format of a file name, URL, MIME type or media format ("jpeg" -> "jpg")
+ * Null when it cannot be told, e.g. an external URL without an extension
+ */
+export function normalizeAdCreativeFormat(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const format = value.toLowerCase().split(/[?#]/)[0].split(/[./]/).pop() || "";
+  if (format === "jpeg") return "jpg";
+  if (format === "svg+xml") return "svg";
+  return /^(jpg|png|webp|gif|svg|avif|bmp|tiff?)$/.test(format) ? format : null;
+}
+
+/**
+ * Check a creative image against a zone's rules
+ * @returns An error message, or null when the creative fits
+ */
+export function checkAdCreativeForZone(zone: AdZoneRules, image: AdCreativeImage): string | null {
+  const format = normalizeAdCreativeFormat(image.format);
+  if (format && zone.allowedFormats.length > 0 && !zone.allowedFormats.includes(format)) {
+    return `The ${zone.name} zone accepts ${zone.allowedFormats.join(", ")} images only`;
+  }
+
+  // Vector images scale to any slot
+  if (format === "svg" || !image.width || !image.height) return null;
+
+  const size = `${image.width}x${image.height}`;
+  if (zone.minWidth && image.width < zone.minWidth) {
+    return `Creative is ${size}; the ${zone.name} zone needs at least ${zone.minWidth}px width`;
+  }
+  if (zone.minHeight && image.height < zone.minHeight) {
+    return `Creative is ${size}; the ${zone.name} zone needs at least ${zone.minHeight}px height`;
+  }
+  if (zone.maxWidth && image.width > zone.maxWidth) {
+    return `Creative is ${size}; the ${zone.name} zone allows at most ${zone.maxWidth}px width`;
+  }
+  if (zone.maxHeight && image.height > zone.maxHeight) {
+    return `Creative is ${size}; the ${zone.name} zone allows at most ${zone.maxHeight}px height`;
+  }
+
+  const zoneRatio = zone.width / zone.height;
+  const imageRatio = image.width / image.height;
+  if (Math.abs(imageRatio - zoneRatio) / zoneRatio > AD_ASPECT_RATIO_TOLERANCE) {
+    return `Creative is ${size}; the ${zone.name} zone needs a ${zone.width}x${zone.height} aspect ratio`;
+  }
+
+  return null;
+}
+
+/**
+ * Pick up to `count` ads without replacement, each draw weighted by ad.weight
+ * Ads with a weight of 0 or less are never picked
+ */
+export function pickWeightedAds<T extends { weight?: number }>(
+  ads: T[],
+  count: number,
+  random: () => number = Math.random
+): T[] {
+  const pool = ads.filter((ad) => (ad.weight ?? 1) > 0);
+  const picked: T[] = [];
+
+  while (picked.length < count && pool.length > 0) {
+    const total = pool.reduce((sum, ad) => sum + (ad.weight ?? 1), 0);
+    let target = random() * total;
+    let index = 0;
+
+    for (; index < pool.length - 1; index++) {
+      target -= pool[index].weight ?? 1;
+      if (target < 0) break;
+    }
+
+    picked.push(pool[index]);
+    pool.splice(index, 1);
+  }
+
+  return picked;
+}
+
+/**
+ * Local calendar day (YYYY-MM-DD) the frequency counts belong to
+ */
+export function getAdFrequencyDay(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parse the frequency cookie ("YYYY-MM-DD|adId:count,adId:count")
+ * Counts from a previous day are dropped
+ */
+export function parseAdFrequencyCookie(value: string | undefined, now: Date = new Date()): AdFrequencyState {
+  const today = getAdFrequencyDay(now);
+  const state: AdFrequencyState = { day: today, counts: {} };
+
+  if (!value) return state;
+
+  const [day, entries] = value.split("|");
+  if (day !== today || !entries) return state;
+
+  for (const entry of entries.split(",")) {
+    const [id, count] = entry.split(":");
+    const parsed = Number(count);
+    if (id && Number.isInteger(parsed) && parsed > 0) {
+      state.counts[id] = parsed;
+    }
+  }
+
+  return state;
+}
+
+/**
+ * Serialize frequency counts back into the cookie value
+ */
+export function serializeAdFrequencyCookie(state: AdFrequencyState): string {
+  const entries = Object.entries(state.counts)
+    .map(([id, count]) => `${id}:${count}`)
+    .join(",");
+  return `${state.day}|${entries}`;
+}
+
+/**
+ * Whether the visitor has already seen the ad as often as its cap allows today
+ */
+export function isAdFrequencyCapped(ad: AdDisplay, state: AdFrequencyState): boolean {
+  if (!ad.frequencyCap || ad.frequencyCap <= 0) return false;
+  return (state.counts[ad.id] || 0) >= ad.frequencyCap;
+}
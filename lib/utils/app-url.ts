@@ -0,0 +1,21 @@
+import { env } from "@/lib/config/env";
+import { AppError } from "@/lib/utils/error-handler";
+
+const DEVELOPMENT_APP_URL = "http://localhost:3000";
+
+/**
+ * Site URL for links in emails and OAuth redirect URIs
+ * Always taken from configuration, never from request headers: a forged Host
+ * header would otherwise send password reset links to another site. Outside
+ * production an unset URL falls back to localhost.
+ * @throws AppError in production when neither APP_URL nor NEXT_PUBLIC_BASE_URL is set
+ */
+export function getAppUrl(): string {
+  const configured = env.APP_URL || env.NEXT_PUBLIC_BASE_URL;
+  if (configured) return configured.replace(/\/$/, "");
+
+  if (env.NODE_ENV === "production") {
+    throw new AppError("APP_URL must be set to build links in production", 500, "APP_URL_MISSING");
+  }
+  return DEVELOPMENT_APP_URL;
+}
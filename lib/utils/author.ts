@@ -0,0 +1,56 @@
+/**
+ * Author Utilities
+ *
+ * Display name, public URL and social link helpers for author profiles.
+ * Kept free of server imports so client components can use it.
+ */
+
+export interface AuthorIdentity {
+  username: string;
+  firstName?: string | null;
+  lastName?: string | null;
+  authorSlug?: string | null;
+}
+
+export interface AuthorSocialLinks {
+  websiteUrl?: string | null;
+  twitterUrl?: string | null;
+  facebookUrl?: string | null;
+  linkedinUrl?: string | null;
+  instagramUrl?: string | null;
+}
+
+/**
+ * Social link fields in display order
+ */
+export const AUTHOR_SOCIAL_FIELDS = [
+  { key: "websiteUrl", label: "Website" },
+  { key: "twitterUrl", label: "X (Twitter)" },
+  { key: "facebookUrl", label: "Facebook" },
+  { key: "linkedinUrl", label: "LinkedIn" },
+  { key: "instagramUrl", label: "Instagram" },
+] as const satisfies ReadonlyArray<{ key: keyof AuthorSocialLinks; label: string }>;
+
+/**
+ * Full name, falling back to username
+ */
+export function getAuthorDisplayName(author: AuthorIdentity): string {
+  const fullName = `${author.firstName || ""} ${author.lastName || ""}`.trim();
+  return fullName || author.username;
+}
+
+/**
+ * Public author page path
+ */
+export function getAuthorPath(author: Pick<AuthorIdentity, "username" | "authorSlug">): string {
+  return `/author/${encodeURIComponent(author.authorSlug || author.username)}`;
+}
+
+/**
+ * Non-empty social links, e.g. for schema.org `sameAs`
+ */
+export function getAuthorSocialUrls(links: AuthorSocialLinks): string[] {
+  return AUTHOR_SOCIAL_FIELDS.map(({ key }) => links[key]).filter(
+    (url): url is string => !!url
+  );
+}
@@ -0,0 +1,336 @@
+/**
+ * Comment Moderation Utility
+ * Scores a comment against the configured wordlists and spam heuristics.
+ * Wordlist matching works on a phonetic key, so Devanagari, romanized Hindi
+ * and common spelling, leetspeak and letter-stretching variants of an entry
+ * all match the same word.
+ */
+
+export const MODERATION_LANGUAGES = ["hi", "en", "hinglish"] as const;
+
+export type ModerationLanguage = (typeof MODERATION_LANGUAGES)[number];
+
+export const MODERATION_LANGUAGE_LABELS: Record<ModerationLanguage, string> = {
+  hi: "Hindi",
+  en: "English",
+  hinglish: "Hinglish",
+};
+
+export type ModerationDecision = "approve" | "hold" | "reject";
+
+export interface ModerationSettingsValues {
+  holdThreshold: number;
+  rejectThreshold: number;
+  maxLinks: number;
+  linkWeight: number;
+  maxLinkPercent: number;
+  repeatWeight: number;
+  duplicateWeight: number;
+  rateLimitCount: number;
+  rateLimitWindowMinutes: number;
+  reportHideThreshold: number;
+}
+
+/**
+ * Used until the settings are saved from the dashboard
+ */
+export const DEFAULT_MODERATION_SETTINGS: ModerationSettingsValues = {
+  holdThreshold: 30,
+  rejectThreshold: 80,
+  maxLinks: 1,
+  linkWeight: 25,
+  maxLinkPercent: 20,
+  repeatWeight: 20,
+  duplicateWeight: 50,
+  rateLimitCount: 5,
+  rateLimitWindowMinutes: 10,
+  reportHideThreshold: 3,
+};
+
+export interface ModerationWordEntry {
+  word: string;
+  severity: number;
+  matchPartial: boolean;
+}
+
+export interface ModerationAssessment {
+  score: number;
+  decision: ModerationDecision;
+  flags: string[];
+  matchedWords: string[];
+}
+
+// Skeleton (consonant-only) matching is only trusted for long words
+const MIN_SKELETON_LENGTH = 5;
+
+// Entries may span this many words of the comment ("madar chod")
+const MAX_PHRASE_TOKENS = 3;
+
+const DEVANAGARI_CONSONANTS: Record<string, string> = {
+  "क": "k", "ख": "kh", "ग": "g", "घ": "gh", "ङ": "n",
+  "च": "ch", "छ": "chh", "ज": "j", "झ": "jh", "ञ": "n",
+  "ट": "t", "ठ": "th", "ड": "d", "ढ": "dh", "ण": "n",
+  "त": "t", "थ": "th", "द": "d", "ध": "dh", "न": "n",
+  "प": "p", "फ": "ph", "ब": "b", "भ": "bh", "म": "m",
+  "य": "y", "र": "r", "ल": "l", "व": "v", "श": "sh",
+  "ष": "sh", "स": "s", "ह": "h", "क़": "k", "ख़": "kh",
+  "ग़": "g", "ज़": "z", "ड़": "r", "ढ़": "rh", "फ़": "f", "य़": "y",
+};
+
+const DEVANAGARI_VOWELS: Record<string, string> = {
+  "अ": "a", "आ": "aa", "इ": "i", "ई": "ii", "उ": "u", "ऊ": "uu",
+  "ऋ": "ri", "ए": "e", "ऐ": "ai", "ओ": "o", "औ": "au",
+};
+
+const DEVANAGARI_MATRAS: Record<string, string> = {
+  "ा": "aa", "ि": "i", "ी": "ii", "ु": "u", "ू": "uu",
+  "ृ": "ri", "े": "e", "ै": "ai", "ो": "o", "ौ": "au",
+};
+
+const VIRAMA = "्";
+const NUKTA = "़";
+
+const LEET_MAP: Record<string, string> = {
+  "@": "a", "4": "a", "3": "e", "1": "i", "!": "i",
+  "0": "o", "$": "s", "5": "s", "7": "t",
+};
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|in|co|io|info|biz|xyz|top|ru|cn|ly|me)(?:\/\S*)?/gi;
+
+/**
+ * Romanize Devanagari the way Hindi is usually typed in Latin script
+ * The inherent "a" is dropped at the end of words and between syllables
+ * where Hindi speakers drop it (कमीना → kamiina, बहनचोद → bahanchod)
+ */
+export function transliterateDevanagari(text: string): string {
+  return text.replace(/[ऀ-ॿ]+/g, (word) => {
+    // Each syllable is a consonant with its vowel, or a standalone vowel or sign
+    const syllables: { consonant: string; vowel: string; inherent: boolean }[] = [];
+    const chars = Array.from(word.normalize("NFC"));
+
+    for (let i = 0; i < chars.length; i++) {
+      let char = chars[i];
+      if (chars[i + 1] === NUKTA) {
+        char += NUKTA;
+        i++;
+      }
+
+      const consonant = DEVANAGARI_CONSONANTS[char];
+      if (consonant) {
+        const next = chars[i + 1];
+        if (next === VIRAMA) {
+          syllables.push({ consonant, vowel: "", inherent: false });
+          i++;
+        } else if (next && DEVANAGARI_MATRAS[next]) {
+          syllables.push({ consonant, vowel: DEVANAGARI_MATRAS[next], inherent: false });
+          i++;
+        } else {
+          syllables.push({ consonant, vowel: "a", inherent: true });
+        }
+      } else if (DEVANAGARI_VOWELS[char]) {
+        syllables.push({ consonant: "", vowel: DEVANAGARI_VOWELS[char], inherent: false });
+      } else if (char === "ं" || char === "ँ") {
+        syllables.push({ consonant: "n", vowel: "", inherent: false });
+      } else if (char === "ः") {
+        syllables.push({ consonant: "h", vowel: "", inherent: false });
+      }
+    }
+
+    const last = syllables[syllables.length - 1];
+    if (syllables.length > 1 && last.inherent) {
+      last.vowel = "";
+    }
+
+    // Drop a medial inherent vowel between two voiced syllables, never two in a row
+    for (let i = syllables.length - 2; i >= 1; i--) {
+      const current = syllables[i];
+      if (current.inherent && current.vowel && syllables[i - 1].vowel && syllables[i + 1].vowel) {
+        current.vowel = "";
+        i--;
+      }
+    }
+
+    return syllables.map((syllable) => syllable.consonant + syllable.vowel).join("");
+  });
+}
+
+/**
+ * Fold spelling variants of a romanized word onto one key
+ * chootiyaa, chutiya and CHUTIYAAA all become "chutiya"
+ */
+export function toPhoneticKey(word: string): string {
+  const latin = Array.from(transliterateDevanagari(word.normalize("NFKC").toLowerCase()))
+    .map((char) => LEET_MAP[char] ?? char)
+    .join("")
+    .replace(/[^a-z]/g, "");
+
+  return latin
+    .replace(/ee/g, "i")
+    .replace(/oo/g, "u")
+    .replace(/ph/g, "f")
+    .replace(/ck/g, "k")
+    .replace(/q/g, "k")
+    .replace(/w/g, "v")
+    .replace(/z/g, "j")
+    .replace(/(.)\1+/g, "$1");
+}
+
+/**
+ * Key without vowels, for Hindi words whose vowels are spelled many ways
+ * (behenchod, bhenchod and bahanchod share "bhnchd")
+ */
+function toSkeletonKey(key: string): string {
+  return key.replace(/[aeiouy]/g, "").replace(/(.)\1+/g, "$1");
+}
+
+/**
+ * Phonetic keys of the words in a comment
+ * Runs of single letters ("f u c k") are joined back into one word
+ */
+export function tokenizeForMatching(text: string): string[] {
+  const tokens: string[] = [];
+  let letters = "";
+
+  for (const raw of text.split(/[\s.,;:?"'()[\]{}<>/\\|_-]+/)) {
+    // Sentence punctuation at the edges is not leetspeak ("wow!" is not "wowi")
+    const key = toPhoneticKey(raw.replace(/^[^\p{L}\p{M}\p{N}@$]+|[^\p{L}\p{M}\p{N}]+$/gu, ""));
+    if (!key) continue;
+
+    if (key.length === 1) {
+      letters += key;
+      continue;
+    }
+    if (letters) {
+      tokens.push(toPhoneticKey(letters));
+      letters = "";
+    }
+    tokens.push(key);
+  }
+
+  if (letters) tokens.push(toPhoneticKey(letters));
+  return tokens;
+}
+
+/**
+ * Wordlist entries found in a comment
+ */
+export function findModerationWords<T extends ModerationWordEntry>(text: string, entries: T[]): T[] {
+  const tokens = tokenizeForMatching(text);
+  const phrases = new Set<string>();
+
+  for (let start = 0; start < tokens.length; start++) {
+    let phrase = "";
+    for (let length = 0; length < MAX_PHRASE_TOKENS && start + length < tokens.length; length++) {
+      phrase += tokens[start + length];
+      phrases.add(phrase);
+    }
+  }
+
+  const skeletons = new Set(Array.from(phrases, toSkeletonKey));
+
+  return entries.filter((entry) => {
+    const key = tokenizeForMatching(entry.word).join("");
+    if (!key) return false;
+
+    if (phrases.has(key)) return true;
+
+    const skeleton = toSkeletonKey(key);
+    if (skeleton.length >= MIN_SKELETON_LENGTH && skeletons.has(skeleton)) return true;
+
+    if (entry.matchPartial) {
+      return Array.from(phrases).some((phrase) => phrase.includes(key));
+    }
+
+    return false;
+  });
+}
+
+/**
+ * Links in a comment, including bare domains
+ */
+export function countLinks(text: string): number {
+  return text.match(URL_PATTERN)?.length ?? 0;
+}
+
+/**
+ * Score a comment and decide whether it is published, held or rejected
+ * @param text - Comment content
+ * @param entries - Enabled wordlist entries
+ * @param settings - Weights and thresholds
+ * @param isDuplicate - Whether the same text was posted recently
+ */
+export function assessCommentContent(
+  text: string,
+  entries: ModerationWordEntry[],
+  settings: ModerationSettingsValues,
+  isDuplicate: boolean = false
+): ModerationAssessment {
+  const flags: string[] = [];
+  let score = 0;
+
+  const matched = findModerationWords(text, entries);
+  for (const entry of matched) {
+    score += entry.severity;
+    flags.push(`word:${entry.word}`);
+  }
+
+  const words = text.split(/\s+/).filter(Boolean);
+  const links = countLinks(text);
+  if (links > settings.maxLinks) {
+    score += (links - settings.maxLinks) * settings.linkWeight;
+    flags.push("links");
+  }
+  if (links > 0 && (links / Math.max(words.length, 1)) * 100 > settings.maxLinkPercent) {
+    score += settings.linkWeight;
+    flags.push("link_density");
+  }
+
+  if (/(.)\1{7,}/u.test(text)) {
+    score += settings.repeatWeight;
+    flags.push("repeated_chars");
+  }
+
+  const tokens = words.map((word) => word.toLowerCase());
+  if (tokens.length >= 6 && new Set(tokens).size / tokens.length < 0.4) {
+    score += settings.repeatWeight;
+    flags.push("repeated_words");
+  }
+
+  const letters = text.replace(/[^a-zA-Z]/g, "");
+  if (letters.length >= 20 && letters.replace(/[^A-Z]/g, "").length / letters.length > 0.7) {
+    score += settings.repeatWeight;
+    flags.push("shouting");
+  }
+
+  if (isDuplicate) {
+    score += settings.duplicateWeight;
+    flags.push("duplicate");
+  }
+
+  const decision: ModerationDecision =
+    score >= settings.rejectThreshold ? "reject" : score >= settings.holdThreshold ? "hold" : "approve";
+
+  return {
+    score,
+    decision,
+    flags,
+    matchedWords: matched.map((entry) => entry.word),
+  };
+}
+
+/**
+ * Readable label for a stored moderation flag
+ */
+export function describeModerationFlag(flag: string): string {
+  if (flag.startsWith("word:")) return `Wordlist: ${flag.slice(5)}`;
+
+  const labels: Record<string, string> = {
+    links: "Too many links",
+    link_density: "Mostly links",
+    repeated_chars: "Repeated characters",
+    repeated_words: "Repeated words",
+    shouting: "All caps",
+    duplicate: "Duplicate of a recent comment",
+  };
+  return labels[flag] ?? flag;
+}
@@ -0,0 +1,69 @@
+/**
+ * Comment moderation constants shared by the server actions,
+ * the moderation queue and the public comments section.
+ */
+
+/**
+ * Who may comment on an article
+ * - open: anyone
+ * - members: signed-in accounts only
+ * - closed: nobody; existing comments stay visible
+ */
+export const COMMENT_MODES = ["open", "members", "closed"] as const;
+
+export type CommentMode = (typeof COMMENT_MODES)[number];
+
+export const COMMENT_MODE_LABELS: Record<CommentMode, string> = {
+  open: "Open",
+  members: "Members only",
+  closed: "Closed",
+};
+
+/**
+ * Moderation queue views
+ * pending and vulgar hold comments nobody has decided on yet
+ */
+export const COMMENT_QUEUE_FILTERS = ["pending", "vulgar", "spam", "reported", "all"] as const;
+
+export type CommentQueueFilter = (typeof COMMENT_QUEUE_FILTERS)[number];
+
+export const COMMENT_QUEUE_LABELS: Record<CommentQueueFilter, string> = {
+  pending: "Pending",
+  vulgar: "Vulgar",
+  spam: "Spam",
+  reported: "Reported",
+  all: "All",
+};
+
+/**
+ * Decisions that can be applied to several comments at once
+ */
+export const COMMENT_BULK_ACTIONS = ["approve", "reject", "spam", "delete"] as const;
+
+export type CommentBulkAction = (typeof COMMENT_BULK_ACTIONS)[number];
+
+export function isCommentMode(value: string | null | undefined): value is CommentMode {
+  return (COMMENT_MODES as readonly string[]).includes(value || "");
+}
+
+export function normalizeCommentQueueFilter(value: string | null | undefined): CommentQueueFilter {
+  return (COMMENT_QUEUE_FILTERS as readonly string[]).includes(value || "")
+    ? (value as CommentQueueFilter)
+    : "pending";
+}
+
+/**
+ * Reasons a reader can give when reporting a comment
+ */
+export const COMMENT_REPORT_REASONS = ["spam", "abuse", "hate", "misinformation", "off_topic", "other"] as const;
+
+export type CommentReportReason = (typeof COMMENT_REPORT_REASONS)[number];
+
+export const COMMENT_REPORT_REASON_LABELS: Record<CommentReportReason, string> = {
+  spam: "Spam or advertising",
+  abuse: "Harassment or abuse",
+  hate: "Hate speech",
+  misinformation: "False information",
+  off_topic: "Off topic",
+  other: "Something else",
+};
@@ -62,6 +62,133 @@ export function lexicalToHTML(lexicalState: SerializedEditorState | string): str
   }
 }
 
+/**
+ * Convert Lexical JSON to plain text
+ * Block-level nodes (paragraphs, headings, list items, ...) are separated by newlines
+ */
+export function lexicalToPlainText(lexicalState: SerializedEditorState | string): string {
+  try {
+    const state = typeof lexicalState === "string" ? JSON.parse(lexicalState) : lexicalState;
+
+    if (!state || !state.root || !state.root.children) {
+      return "";
+    }
+
+    return state.root.children
+      .map((node: LexicalNode) => nodeToPlainText(node))
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  } catch (error) {
+    console.error("Error converting Lexical to plain text:", error);
+    return "";
+  }
+}
+
+/**
+ * Check whether stored content is serialized Lexical JSON
+ * Blog posts written before the rich editor was added are plain text
+ */
+export function isLexicalContent(content: string): boolean {
+  try {
+    const state = JSON.parse(content);
+    return !!state?.root && Array.isArray(state.root.children);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Split plain text into paragraphs on blank lines
+ */
+function splitParagraphs(text: string): string[] {
+  return text
+    .split(/\r?\n\s*\r?\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Convert stored content to HTML, accepting Lexical JSON or legacy plain text
+ */
+export function contentToHTML(content: string): string {
+  if (isLexicalContent(content)) {
+    return lexicalToHTML(content);
+  }
+
+  return splitParagraphs(content)
+    .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\r?\n/g, "<br />")}</p>`)
+    .join("");
+}
+
+/**
+ * Convert stored content to plain text, accepting Lexical JSON or legacy plain text
+ */
+export function contentToPlainText(content: string): string {
+  return isLexicalContent(content) ? lexicalToPlainText(content) : content.trim();
+}
+
+/**
+ * Build a Lexical editor state from plain text, one paragraph per blank-line block
+ * Lets the rich editor open content that was saved as plain text
+ */
+export function plainTextToLexicalState(text: string): SerializedEditorState {
+  const paragraphs = splitParagraphs(text).map((paragraph) => ({
+    type: "paragraph",
+    version: 1,
+    direction: "ltr",
+    format: "",
+    indent: 0,
+    textFormat: 0,
+    textStyle: "",
+    children: [
+      {
+        type: "text",
+        version: 1,
+        detail: 0,
+        format: 0,
+        mode: "normal",
+        style: "",
+        text: paragraph,
+      },
+    ],
+  }));
+
+  return {
+    root: {
+      type: "root",
+      version: 1,
+      direction: "ltr",
+      format: "",
+      indent: 0,
+      children: paragraphs,
+    },
+  } as unknown as SerializedEditorState;
+}
+
+/**
+ * Extract the text of a single Lexical node
+ */
+function nodeToPlainText(node: LexicalNode): string {
+  if (!node) return "";
+
+  switch (node.type) {
+    case "text":
+      return node.text || "";
+    case "linebreak":
+      return "\n";
+    case "image":
+      return node.altText ? `[${node.altText}]` : "";
+    case "list":
+    case "table":
+      return (node.children || []).map(nodeToPlainText).join("\n");
+    case "tablerow":
+      return (node.children || []).map(nodeToPlainText).join(" | ");
+    default:
+      return node.children ? node.children.map(nodeToPlainText).join("") : node.text || "";
+  }
+}
+
 /**
  * Process a single Lexical node and convert to HTML
  */
@@ -17,6 +17,7 @@
 
 import type { NewsResponse } from "@/lib/services/news-api.service";
 import type { Article } from "@/constants/news-data";
+import { getAuthorPath } from "@/lib/utils/author";
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -103,6 +104,13 @@ function getAuthorName(news: NewsResponse): string {
   return fullName || news.author.username || "Unknown Author";
 }
 
+/**
+ * Get public author page path from news response
+ */
+function getAuthorUrl(news: NewsResponse): string | undefined {
+  return news.author ? getAuthorPath(news.author) : undefined;
+}
+
 /**
  * Get category name from news response
  */
@@ -171,6 +179,7 @@ export function mapToFeaturedArticle(news: NewsResponse): Article {
     fullContent: "", // Not included in list views
     image: news.coverImage || "/placeholder.svg?height=600&width=1200",
     author: authorName,
+    authorUrl: getAuthorUrl(news),
     source: authorName,
     date: publishedDate,
     slug: news.slug,
@@ -273,6 +282,7 @@ export function mapToArticle(news: NewsResponse): Article {
     fullContent: "", // Not included in list views
     image: news.coverImage || "/placeholder.svg?height=600&width=1200",
     author: authorName,
+    authorUrl: getAuthorUrl(news),
     source: authorName,
     date: publishedDate,
     slug: news.slug,
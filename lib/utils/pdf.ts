@@ -0,0 +1,97 @@
+/**
+ * Minimal PDF writer for plain-text reports
+ * Produces A4 pages with a bold title and monospaced lines using the
+ * built-in PDF fonts, so no font files or PDF library are needed.
+ * Only printable ASCII is supported; other characters are written as "?".
+ */
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const FONT_SIZE = 9;
+const LINE_HEIGHT = 12;
+const TITLE_SIZE = 14;
+const TITLE_GAP = 24;
+
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - MARGIN * 2 - TITLE_GAP) / LINE_HEIGHT);
+
+/**
+ * Escape a line for a PDF string literal
+ */
+function pdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+}
+
+/**
+ * Content stream of one page: the title, then the lines top to bottom
+ */
+function pageContent(title: string, lines: string[]): string {
+  const top = PAGE_HEIGHT - MARGIN;
+  const parts = [
+    "BT",
+    `/F2 ${TITLE_SIZE} Tf`,
+    `${MARGIN} ${top} Td`,
+    `(${pdfText(title)}) Tj`,
+    "ET",
+    "BT",
+    `/F1 ${FONT_SIZE} Tf`,
+    `${LINE_HEIGHT} TL`,
+    `${MARGIN} ${top - TITLE_GAP} Td`,
+    ...lines.map((line) => `(${pdfText(line)}) '`),
+    "ET",
+  ];
+  return parts.join("\n");
+}
+
+/**
+ * Build a PDF document from a title and lines of text
+ * Lines that do not fit on a page continue on the next one
+ */
+export function createTextPdf(title: string, lines: string[]): Uint8Array<ArrayBuffer> {
+  const pages: string[][] = [];
+  for (let start = 0; start < lines.length; start += LINES_PER_PAGE) {
+    pages.push(lines.slice(start, start + LINES_PER_PAGE));
+  }
+  if (pages.length === 0) pages.push([]);
+
+  // 1: catalog, 2: page tree, 3-4: fonts, then a page and its content per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+
+  pages.forEach((pageLines, index) => {
+    const pageId = pageIds[index];
+    const pageTitle = pages.length > 1 ? `${title} (page ${index + 1} of ${pages.length})` : title;
+    const content = pageContent(pageTitle, pageLines);
+
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  // Everything is ASCII, so string lengths are byte offsets
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new TextEncoder().encode(output);
+}
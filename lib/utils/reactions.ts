@@ -0,0 +1,42 @@
+/**
+ * Article reactions shared by the reader actions and the article page.
+ * Each account keeps at most one reaction per article; "like" reactions
+ * also drive the article's likes counter.
+ */
+
+export const NEWS_REACTIONS = ["like", "angry", "sad", "wow"] as const;
+
+export type NewsReactionType = (typeof NEWS_REACTIONS)[number];
+
+export type NewsReactionCounts = Record<NewsReactionType, number>;
+
+export const NEWS_REACTION_EMOJI: Record<NewsReactionType, string> = {
+  like: "👍",
+  angry: "😠",
+  sad: "😢",
+  wow: "😮",
+};
+
+export const NEWS_REACTION_LABELS: Record<NewsReactionType, string> = {
+  like: "Like",
+  angry: "Angry",
+  sad: "Sad",
+  wow: "Wow",
+};
+
+export function isNewsReaction(value: string | null | undefined): value is NewsReactionType {
+  return (NEWS_REACTIONS as readonly string[]).includes(value || "");
+}
+
+/**
+ * Turn grouped reaction rows into a count for every reaction type
+ */
+export function toReactionCounts(rows: { type: string; count: number }[]): NewsReactionCounts {
+  const counts = Object.fromEntries(NEWS_REACTIONS.map((type) => [type, 0])) as NewsReactionCounts;
+  for (const row of rows) {
+    if (isNewsReaction(row.type)) {
+      counts[row.type] += row.count;
+    }
+  }
+  return counts;
+}
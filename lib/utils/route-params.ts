@@ -0,0 +1,19 @@
+/**
+ * Route Param Utilities
+ *
+ * Helpers for dynamic route segments (slugs, usernames) that arrive
+ * percent-encoded, e.g. Hindi slugs.
+ */
+
+/**
+ * Decode a percent-encoded route segment
+ * @returns The decoded value, or null when the encoding is malformed so the
+ * caller can answer 404 instead of throwing a URIError
+ */
+export function decodeRouteParam(value: string): string | null {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+}
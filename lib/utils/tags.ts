@@ -0,0 +1,47 @@
+/**
+ * Tag Utilities
+ *
+ * Name/slug normalization shared by the tag picker, server actions and scripts.
+ * Kept free of server imports so client components can use it.
+ */
+
+/**
+ * Longest tag name accepted
+ */
+export const MAX_TAG_LENGTH = 50;
+
+/**
+ * Most tags allowed on a single news post
+ */
+export const MAX_TAGS_PER_NEWS = 15;
+
+/**
+ * Collapse whitespace and trim a tag name (case is kept for display)
+ */
+export function normalizeTagName(name: string): string {
+  return name.normalize("NFC").replace(/\s+/g, " ").trim().slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Build a URL slug for a tag
+ * Keeps Devanagari (and other non-Latin) letters so Hindi tags get readable URLs
+ */
+export function generateTagSlug(name: string): string {
+  return normalizeTagName(name)
+    .toLowerCase()
+    .replace(/[\u200b-\u200d\ufeff]/g, "")
+    .replace(/[^\p{L}\p{M}\p{N}\s-]/gu, "")
+    .replace(/[\s_-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Split a legacy comma-separated keywords string into tag names
+ */
+export function splitKeywords(keywords: string | null | undefined): string[] {
+  if (!keywords) return [];
+  return keywords
+    .split(",")
+    .map((keyword) => normalizeTagName(keyword))
+    .filter(Boolean);
+}
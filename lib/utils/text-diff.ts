@@ -0,0 +1,58 @@
+/**
+ * Text Diff Utility
+ * Line-based diff (longest common subsequence) for comparing article revisions
+ */
+
+export type DiffType = "equal" | "added" | "removed";
+
+export interface DiffLine {
+  type: DiffType;
+  value: string;
+}
+
+/**
+ * Diff two texts line by line
+ * @param oldText - Previous version
+ * @param newText - Next version
+ * @returns Ordered list of equal/added/removed lines
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText ? oldText.split("\n") : [];
+  const b = newText ? newText.split("\n") : [];
+  const n = a.length;
+  const m = b.length;
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      result.push({ type: "equal", value: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "removed", value: a[i++] });
+    } else {
+      result.push({ type: "added", value: b[j++] });
+    }
+  }
+  while (i < n) result.push({ type: "removed", value: a[i++] });
+  while (j < m) result.push({ type: "added", value: b[j++] });
+
+  return result;
+}
+
+/**
+ * Check whether a diff contains any change
+ */
+export function hasChanges(diff: DiffLine[]): boolean {
+  return diff.some((line) => line.type !== "equal");
+}
@@ -0,0 +1,101 @@
+/**
+ * Visitor Context Utility
+ * Derives device type and location from request headers.
+ * Shared by visit tracking and ad targeting so both see the same values.
+ */
+
+export type VisitorDevice = "mobile" | "tablet" | "desktop";
+
+export interface VisitorContext {
+  device: VisitorDevice;
+  country: string | null; // ISO 3166-1 alpha-2, e.g. IN
+  region: string | null; // Country-region code, e.g. IN-MH
+  city: string | null;
+}
+
+interface HeaderSource {
+  get(name: string): string | null;
+}
+
+/**
+ * Classify a user agent as mobile, tablet or desktop
+ */
+export function getDeviceType(userAgent: string | null | undefined): VisitorDevice {
+  if (!userAgent) return "desktop";
+
+  const ua = userAgent.toLowerCase();
+
+  if (/ipad|tablet|playbook|silk|kindle|(android(?!.*mobile))/.test(ua)) {
+    return "tablet";
+  }
+  if (/mobi|iphone|ipod|android|blackberry|opera mini|iemobile|windows phone/.test(ua)) {
+    return "mobile";
+  }
+  return "desktop";
+}
+
+/**
+ * Read a geo header, ignoring the placeholder values CDNs send for unknown locations
+ */
+function readGeoHeader(headers: HeaderSource, names: string[]): string | null {
+  for (const name of names) {
+    const value = headers.get(name)?.trim();
+    if (value && value !== "XX" && value !== "T1") {
+      try {
+        return decodeURIComponent(value);
+      } catch {
+        return value;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the visitor's device and location from request headers
+ * Location comes from the CDN / proxy geo headers (Vercel, Cloudflare or a generic proxy)
+ */
+export function getVisitorContext(headers: HeaderSource): VisitorContext {
+  const country = readGeoHeader(headers, ["x-vercel-ip-country", "cf-ipcountry", "x-country-code"])?.toUpperCase() || null;
+  const regionCode = readGeoHeader(headers, ["x-vercel-ip-country-region", "cf-region-code", "x-region-code"])?.toUpperCase();
+
+  let region: string | null = null;
+  if (country && regionCode) {
+    region = regionCode.startsWith(`${country}-`) ? regionCode : `${country}-${regionCode}`;
+  }
+
+  return {
+    device: getDeviceType(headers.get("user-agent")),
+    country,
+    region,
+    city: readGeoHeader(headers, ["x-vercel-ip-city", "cf-ipcity", "x-city"]),
+  };
+}
+
+/**
+ * Short browser and OS label for a user agent, e.g. "Chrome on Windows"
+ */
+export function describeUserAgent(userAgent: string | null | undefined): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    [
+      { name: "Edge", pattern: /edg(e|a|ios)?\//i },
+      { name: "Opera", pattern: /opr\/|opera/i },
+      { name: "Samsung Internet", pattern: /samsungbrowser/i },
+      { name: "Firefox", pattern: /firefox|fxios/i },
+      { name: "Chrome", pattern: /chrome|crios/i },
+      { name: "Safari", pattern: /safari/i },
+    ].find(({ pattern }) => pattern.test(userAgent))?.name || "Browser";
+
+  const os =
+    [
+      { name: "iOS", pattern: /iphone|ipad|ipod/i },
+      { name: "Android", pattern: /android/i },
+      { name: "Windows", pattern: /windows/i },
+      { name: "macOS", pattern: /mac os x|macintosh/i },
+      { name: "Linux", pattern: /linux/i },
+    ].find(({ pattern }) => pattern.test(userAgent))?.name;
+
+  return os ? `${browser} on ${os}` : browser;
+}
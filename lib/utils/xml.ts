@@ -0,0 +1,25 @@
+/**
+ * XML Utilities
+ *
+ * Escaping for hand-built XML documents such as the RSS feeds.
+ */
+
+/**
+ * Escape a value for XML text or a double-quoted attribute
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Wrap a value in a CDATA section
+ * A "]]>" inside the value is split across two sections so it can't end the block early
+ */
+export function cdata(value: string): string {
+  return `<![CDATA[${value.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
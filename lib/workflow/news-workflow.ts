@@ -0,0 +1,145 @@
+/**
+ * News Editorial Workflow
+ * State machine for news posts and the permission each transition requires
+ *
+ * - draft / changes_requested → submitted (news.submit)
+ * - submitted → approved | changes_requested (news.approve)
+ * - approved → published (news.publish); editors may also publish a draft directly
+ * - published → archived (news.publish), archived → draft (news.update)
+ */
+
+export const NEWS_STATUSES = [
+  "draft",
+  "submitted",
+  "changes_requested",
+  "approved",
+  "published",
+  "archived",
+] as const;
+
+export type NewsStatus = (typeof NEWS_STATUSES)[number];
+
+export const NEWS_STATUS_LABELS: Record<NewsStatus, string> = {
+  draft: "Draft",
+  submitted: "In Review",
+  changes_requested: "Changes Requested",
+  approved: "Approved",
+  published: "Published",
+  archived: "Archived",
+};
+
+export type NewsWorkflowAction =
+  | "submit"
+  | "withdraw"
+  | "request_changes"
+  | "approve"
+  | "publish"
+  | "archive"
+  | "restore";
+
+export interface NewsTransition {
+  from: NewsStatus[];
+  to: NewsStatus;
+  permission: string; // Permission slug required to perform the transition
+  authorMaySkipPermission?: boolean; // The post's own author may perform it without the permission
+  requiresNote?: boolean; // Reviewer notes are mandatory
+  label: string;
+  auditAction: string;
+}
+
+export const NEWS_TRANSITIONS: Record<NewsWorkflowAction, NewsTransition> = {
+  submit: {
+    from: ["draft", "changes_requested"],
+    to: "submitted",
+    permission: "news.submit",
+    label: "Submit for review",
+    auditAction: "SUBMIT_NEWS",
+  },
+  withdraw: {
+    from: ["submitted"],
+    to: "draft",
+    permission: "news.approve",
+    authorMaySkipPermission: true,
+    label: "Withdraw submission",
+    auditAction: "WITHDRAW_NEWS",
+  },
+  request_changes: {
+    from: ["submitted", "approved"],
+    to: "changes_requested",
+    permission: "news.approve",
+    requiresNote: true,
+    label: "Request changes",
+    auditAction: "REQUEST_NEWS_CHANGES",
+  },
+  approve: {
+    from: ["submitted"],
+    to: "approved",
+    permission: "news.approve",
+    label: "Approve",
+    auditAction: "APPROVE_NEWS",
+  },
+  publish: {
+    from: ["draft", "submitted", "approved"],
+    to: "published",
+    permission: "news.publish",
+    label: "Publish",
+    auditAction: "PUBLISH_NEWS",
+  },
+  archive: {
+    from: ["published"],
+    to: "archived",
+    permission: "news.publish",
+    label: "Archive",
+    auditAction: "ARCHIVE_NEWS",
+  },
+  restore: {
+    from: ["archived"],
+    to: "draft",
+    permission: "news.update",
+    authorMaySkipPermission: true,
+    label: "Restore to draft",
+    auditAction: "RESTORE_NEWS",
+  },
+};
+
+/**
+ * Check whether a value is a known news status
+ */
+export function isNewsStatus(value: string | null | undefined): value is NewsStatus {
+  return !!value && (NEWS_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Check whether an action may be performed on a post in the given state
+ * @param status - Current post status
+ * @param action - Workflow action
+ * @param permissions - Permission slugs held by the acting user
+ * @param isAuthor - Whether the acting user authored the post
+ */
+export function canPerformTransition(
+  status: string,
+  action: NewsWorkflowAction,
+  permissions: string[],
+  isAuthor: boolean
+): boolean {
+  const transition = NEWS_TRANSITIONS[action];
+  if (!transition || !isNewsStatus(status) || !transition.from.includes(status)) {
+    return false;
+  }
+
+  if (permissions.includes(transition.permission)) return true;
+  return !!transition.authorMaySkipPermission && isAuthor;
+}
+
+/**
+ * List the actions available to a user for a post in the given state
+ */
+export function getAvailableTransitions(
+  status: string,
+  permissions: string[],
+  isAuthor: boolean
+): NewsWorkflowAction[] {
+  return (Object.keys(NEWS_TRANSITIONS) as NewsWorkflowAction[]).filter((action) =>
+    canPerformTransition(status, action, permissions, isAuthor)
+  );
+}
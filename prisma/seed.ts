@@ -44,6 +44,8 @@ async function main() {
     { name: "Update News", slug: "news.update", resource: "news", action: "update" },
     { name: "Delete News", slug: "news.delete", resource: "news", action: "delete" },
     { name: "Publish News", slug: "news.publish", resource: "news", action: "publish" },
+    { name: "Submit News", slug: "news.submit", resource: "news", action: "submit" },
+    { name: "Approve News", slug: "news.approve", resource: "news", action: "approve" },
     // Media permissions
     { name: "Upload Media", slug: "media.upload", resource: "media", action: "upload" },
     { name: "Read Own Media", slug: "media.read", resource: "media", action: "read" },
@@ -55,6 +57,13 @@ async function main() {
     { name: "Read All Advertisement", slug: "advertisement.read.all", resource: "advertisement", action: "read.all" },
     { name: "Update Advertisement", slug: "advertisement.update", resource: "advertisement", action: "update" },
     { name: "Delete Advertisement", slug: "advertisement.delete", resource: "advertisement", action: "delete" },
+    { name: "Approve Advertisement", slug: "advertisement.approve", resource: "advertisement", action: "approve" },
+    { name: "Manage Ad Zones", slug: "advertisement.zone", resource: "advertisement", action: "zone" },
+    // Advertiser portal permissions
+    { name: "Access Advertiser Portal", slug: "advertiser.portal", resource: "advertiser", action: "portal" },
+    // Comment permissions
+    { name: "Moderate Comments", slug: "comment.moderate", resource: "comment", action: "moderate" },
+    { name: "Manage Comment Filters", slug: "comment.settings", resource: "comment", action: "settings" },
     // Analytics permissions
     { name: "Read Analytics", slug: "analytics.read", resource: "analytics", action: "read" },
     // Menu permissions
@@ -62,6 +71,16 @@ async function main() {
     { name: "Read Menu", slug: "menu.read", resource: "menu", action: "read" },
     { name: "Update Menu", slug: "menu.update", resource: "menu", action: "update" },
     { name: "Delete Menu", slug: "menu.delete", resource: "menu", action: "delete" },
+    // Tag permissions
+    { name: "Create Tag", slug: "tag.create", resource: "tag", action: "create" },
+    { name: "Read Tag", slug: "tag.read", resource: "tag", action: "read" },
+    { name: "Update Tag", slug: "tag.update", resource: "tag", action: "update" },
+    { name: "Delete Tag", slug: "tag.delete", resource: "tag", action: "delete" },
+    // Series permissions
+    { name: "Create Series", slug: "series.create", resource: "series", action: "create" },
+    { name: "Read Series", slug: "series.read", resource: "series", action: "read" },
+    { name: "Update Series", slug: "series.update", resource: "series", action: "update" },
+    { name: "Delete Series", slug: "series.delete", resource: "series", action: "delete" },
   ];
 
   console.log("📝 Creating permissions...");
@@ -95,6 +114,10 @@ async function main() {
     { name: "Advertisements", slug: "advertisements", path: "/dashboard/advertisements", icon: "ads", order: 6, isPublic: false },
     { name: "Analytics", slug: "analytics", path: "/dashboard/analytics", icon: "analytics", order: 7, isPublic: false },
     { name: "Menus", slug: "menus", path: "/dashboard/menus", icon: "menu", order: 12, isPublic: false },
+    { name: "Tags", slug: "tags", path: "/dashboard/tags", icon: "tags", order: 13, isPublic: false },
+    { name: "Series", slug: "series", path: "/dashboard/series", icon: "series", order: 14, isPublic: false },
+    { name: "Advertiser Portal", slug: "advertiser-portal", path: "/dashboard/advertiser", icon: "advertiser", order: 15, isPublic: false },
+    { name: "Comments", slug: "comments", path: "/dashboard/comments", icon: "comments", order: 16, isPublic: false },
     // Admin menus
     { name: "Users", slug: "users", path: "/dashboard/users", icon: "users", order: 8, isPublic: false },
     { name: "Roles", slug: "roles", path: "/dashboard/roles", icon: "roles", order: 9, isPublic: false },
@@ -141,6 +164,7 @@ async function main() {
         slug: "superadmin",
         description: "Super administrator with full system access",
         isActive: true,
+        requireTwoFactor: true,
       },
     });
     console.log("  ✓ Created superadmin role");
@@ -256,7 +280,8 @@ async function main() {
 
   // Assign news permissions to Author (only own posts)
   const authorNewsPerms = createdPermissions.filter(
-    (p) => p.slug === "news.create" || p.slug === "news.read" || p.slug === "news.update" || p.slug === "news.delete"
+    (p) => p.slug === "news.create" || p.slug === "news.read" || p.slug === "news.update" || p.slug === "news.delete" ||
+          p.slug === "news.submit"
   );
 
   await prisma.rolePermission.deleteMany({
@@ -368,10 +393,37 @@ async function main() {
     skipDuplicates: true,
   });
 
+  // Assign tag and series permissions to Editor
+  const editorTagPerms = createdPermissions.filter(
+    (p) => p.slug.startsWith("tag.") || p.slug.startsWith("series.")
+  );
+
+  await prisma.rolePermission.createMany({
+    data: editorTagPerms.map((perm) => ({
+      roleId: editorRole!.id,
+      permissionId: perm.id,
+    })),
+    skipDuplicates: true,
+  });
+
+  // Assign comment moderation to Editor
+  const editorCommentPerm = createdPermissions.find(
+    (p) => p.slug === "comment.moderate"
+  );
+  if (editorCommentPerm) {
+    await prisma.rolePermission.create({
+      data: {
+        roleId: editorRole.id,
+        permissionId: editorCommentPerm.id,
+      },
+    });
+  }
+
   // Assign menus to Editor
   const editorMenus = createdMenus.filter(
     (m) => m.slug === "dashboard" || m.slug === "news" || m.slug === "media" || 
-          m.slug === "analytics" || m.slug === "profile" || m.slug === "menus"
+          m.slug === "analytics" || m.slug === "profile" || m.slug === "menus" ||
+          m.slug === "tags" || m.slug === "series" || m.slug === "comments"
   );
 
   await prisma.roleMenu.createMany({
@@ -382,7 +434,89 @@ async function main() {
     skipDuplicates: true,
   });
 
-  console.log("  ✓ Assigned news, media, and analytics permissions to Editor role");
+  console.log("  ✓ Assigned news, media, analytics, tag, series, and comment permissions to Editor role");
+
+  // Create Advertiser role
+  console.log("📣 Creating Advertiser role...");
+  let advertiserRole = await prisma.role.findUnique({
+    where: { slug: "advertiser" },
+  });
+
+  if (!advertiserRole) {
+    advertiserRole = await prisma.role.create({
+      data: {
+        name: "Advertiser",
+        slug: "advertiser",
+        description: "Sponsor who sees reports for assigned campaigns and submits creatives for approval",
+        isActive: true,
+      },
+    });
+    console.log("  ✓ Created Advertiser role");
+  } else {
+    console.log("  - Advertiser role already exists");
+  }
+
+  // Advertisers upload their own creatives and use the portal
+  const advertiserPerms = createdPermissions.filter(
+    (p) => p.slug === "advertiser.portal" || p.slug === "media.upload" || p.slug === "media.read"
+  );
+
+  await prisma.rolePermission.deleteMany({
+    where: { roleId: advertiserRole.id },
+  });
+  await prisma.roleMenu.deleteMany({
+    where: { roleId: advertiserRole.id },
+  });
+
+  await prisma.rolePermission.createMany({
+    data: advertiserPerms.map((perm) => ({
+      roleId: advertiserRole!.id,
+      permissionId: perm.id,
+    })),
+    skipDuplicates: true,
+  });
+
+  const advertiserMenus = createdMenus.filter(
+    (m) => m.slug === "dashboard" || m.slug === "advertiser-portal" || m.slug === "profile"
+  );
+
+  await prisma.roleMenu.createMany({
+    data: advertiserMenus.map((menu) => ({
+      roleId: advertiserRole!.id,
+      menuId: menu.id,
+    })),
+    skipDuplicates: true,
+  });
+
+  console.log("  ✓ Assigned portal and media permissions to Advertiser role");
+
+  // Create Reader role
+  console.log("📖 Creating Reader role...");
+  let readerRole = await prisma.role.findUnique({
+    where: { slug: "reader" },
+  });
+
+  if (!readerRole) {
+    readerRole = await prisma.role.create({
+      data: {
+        name: "Reader",
+        slug: "reader",
+        description: "Site account for commenting, likes and bookmarks; no dashboard access",
+        isActive: true,
+      },
+    });
+    console.log("  ✓ Created Reader role");
+  } else {
+    console.log("  - Reader role already exists");
+  }
+
+  // Readers never reach the dashboard, so the role carries no permissions or menus
+  await prisma.rolePermission.deleteMany({
+    where: { roleId: readerRole.id },
+  });
+  await prisma.roleMenu.deleteMany({
+    where: { roleId: readerRole.id },
+  });
 
   // Create default admin user
   console.log("👤 Creating default admin user...");
@@ -426,6 +560,121 @@ async function main() {
     console.log("  - Admin user already exists");
   }
 
+  // Create default ad zones (existing zones keep their settings)
+  console.log("📐 Creating ad zones...");
+  const adFormats = ["jpg", "png", "webp", "gif"];
+  const adZones = [
+    {
+      slug: "header",
+      name: "Header Leaderboard",
+      width: 970,
+      height: 90,
+      minWidth: 728,
+      maxAds: 1,
+      fallbackTitle: "Advertisement Space Available",
+      fallbackDescription: "Premium advertising space available. Contact us to advertise here.",
+      fallbackImageUrl: "https://via.placeholder.com/970x90/1e293b/94a3b8?text=Advertisement+Space",
+    },
+    {
+      slug: "sidebar",
+      name: "Sidebar",
+      width: 300,
+      height: 400,
+      minWidth: 300,
+      maxAds: 4,
+      fallbackTitle: "Advertisement",
+      fallbackDescription: "Connect with our audience. Advertise here.",
+      fallbackImageUrl: "https://via.placeholder.com/300x400/1e293b/94a3b8?text=Ad",
+    },
+    {
+      slug: "footer",
+      name: "Footer Banner",
+      width: 728,
+      height: 90,
+      minWidth: 728,
+      maxAds: 1,
+      fallbackTitle: "Advertisement Space",
+      fallbackDescription: "Footer advertising opportunity",
+      fallbackImageUrl: "https://via.placeholder.com/728x90/1e293b/94a3b8?text=Advertisement",
+    },
+    {
+      slug: "inline",
+      name: "Inline",
+      width: 600,
+      height: 200,
+      minWidth: 600,
+      maxAds: 2,
+      fallbackTitle: "Advertisement",
+      fallbackDescription: "Promote your brand here. Contact us for advertising opportunities.",
+      fallbackImageUrl: "https://via.placeholder.com/600x200/1e293b/94a3b8?text=Advertisement",
+    },
+    {
+      slug: "popup",
+      name: "Popup",
+      width: 400,
+      height: 300,
+      minWidth: 400,
+      maxAds: 1,
+      fallbackTitle: "Advertisement",
+      fallbackDescription: "Popup advertisement space available",
+      fallbackImageUrl: "https://via.placeholder.com/400x300/1e293b/94a3b8?text=Popup+Ad",
+    },
+  ];
+
+  for (const zone of adZones) {
+    const existing = await prisma.adZone.findUnique({
+      where: { slug: zone.slug },
+    });
+    if (!existing) {
+      await prisma.adZone.create({
+        data: { ...zone, allowedFormats: adFormats },
+      });
+      console.log(`  ✓ Created ad zone: ${zone.name}`);
+    } else {
+      console.log(`  - Ad zone already exists: ${zone.name}`);
+    }
+  }
+
+  // Create default comment filter settings and starter wordlists (edited entries are kept)
+  console.log("🧹 Creating comment filters...");
+  await prisma.commentModerationSettings.upsert({
+    where: { id: "default" },
+    create: { id: "default" },
+    update: {},
+  });
+
+  const moderationWords = [
+    { language: "en", severity: 60, words: ["fuck", "motherfucker", "cunt", "asshole", "bitch", "dickhead"] },
+    { language: "en", severity: 30, words: ["bastard", "shit", "bullshit", "slut", "whore"] },
+    { language: "hinglish", severity: 70, words: ["madarchod", "behenchod", "bhosdike", "chutiya", "gandu", "randi"] },
+    { language: "hinglish", severity: 30, words: ["harami", "kamina", "kutta", "saala", "gadha"] },
+    { language: "hi", severity: 70, words: ["मादरचोद", "बहनचोद", "भोसड़ीके", "चूतिया", "गांडू", "रंडी"] },
+    { language: "hi", severity: 30, words: ["हरामी", "कमीना", "कुत्ता", "साला"] },
+  ];
+
+  const createdWords = await prisma.moderationWord.createMany({
+    data: moderationWords.flatMap(({ language, severity, words }) =>
+      words.map((word) => ({ word, language, severity }))
+    ),
+    skipDuplicates: true,
+  });
+  console.log(`  ✓ Added ${createdWords.count} wordlist entries`);
+
+  // Administrator roles always require two-factor authentication
+  console.log("🔐 Requiring two-factor authentication for administrators...");
+  await prisma.role.updateMany({
+    where: { slug: { in: ["superadmin", "admin"] } },
+    data: { requireTwoFactor: true },
+  });
+
+  // Backfill editorial workflow status for posts created before the workflow existed
+  console.log("🗂️ Backfilling news workflow status...");
+  const backfilled = await prisma.news.updateMany({
+    where: { isPublished: true, status: "draft" },
+    data: { status: "published" },
+  });
+  console.log(`  ✓ Marked ${backfilled.count} published posts as published`);
+
   console.log("✅ Seeding completed!");
 }
 
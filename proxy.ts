@@ -1,6 +1,9 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 import { verifyToken } from "@/lib/auth/jwt-core";
+import { isSessionActive } from "@/lib/services/session.service";
+import { isEmailVerified } from "@/lib/services/account-email.service";
+import { env } from "@/lib/config/env";
 import { applySecurityHeaders } from "@/lib/security/headers";
 
 /**
@@ -51,9 +54,9 @@ export async function proxy(request: NextRequest) {
       return NextResponse.redirect(loginUrl);
     }
 
-    // Verify token (async in Edge runtime with jose)
+    // Verify token, then that its session has not been revoked or expired
     const payload = await verifyToken(token);
-    if (!payload) {
+    if (!payload || !payload.jti || !(await isSessionActive(payload.jti, payload.userId))) {
       // Invalid token, redirect to login
       const loginUrl = new URL("/login", request.url);
       loginUrl.searchParams.set("error", "invalid_token");
@@ -61,6 +64,34 @@ export async function proxy(request: NextRequest) {
       response.cookies.delete("auth-token");
       return response;
     }
+
+    // Reader accounts use the public site only
+    if (payload.accountType === "reader") {
+      return NextResponse.redirect(new URL("/account", request.url));
+    }
+
+    // When verification is required, unconfirmed addresses can't use the dashboard
+    if (env.REQUIRE_EMAIL_VERIFICATION && !(await isEmailVerified(payload.userId))) {
+      if (pathname.startsWith("/api/dashboard")) {
+        return applySecurityHeaders(
+          NextResponse.json({ error: "Email verification required" }, { status: 403 })
+        );
+      }
+      return NextResponse.redirect(new URL("/auth/verify-email", request.url));
+    }
+
+    // Until a role's two-factor requirement is met, only the profile page
+    // (where enrolment happens) is reachable
+    if (payload.mfaSetupRequired && !pathname.startsWith("/dashboard/profile")) {
+      if (pathname.startsWith("/api/dashboard")) {
+        return applySecurityHeaders(
+          NextResponse.json({ error: "Two-factor authentication setup required" }, { status: 403 })
+        );
+      }
+      const setupUrl = new URL("/dashboard/profile", request.url);
+      setupUrl.searchParams.set("setup", "2fa");
+      return NextResponse.redirect(setupUrl);
+    }
   }
 
   const response = NextResponse.next();
@@ -0,0 +1,47 @@
+// scripts/migrate-keywords-to-tags.ts
+/**
+ * Backfill News Tags from Meta Keywords
+ *
+ * Before the tag taxonomy existed, topics were kept in the comma-separated
+ * `metaKeywords` field. This creates tags from those keywords for every news
+ * post that has no tags yet. Posts that already have tags are left alone, so
+ * the script is safe to run more than once.
+ *
+ * Usage:
+ *   npm run tags:migrate
+ */
+
+import { prisma } from "@/lib/prisma";
+import { setNewsTags } from "@/lib/services/tag.service";
+import { splitKeywords } from "@/lib/utils/tags";
+
+async function main() {
+  console.log("🏷️  Migrating meta keywords to tags...");
+
+  const news = await prisma.news.findMany({
+    where: {
+      metaKeywords: { not: null },
+      tags: { none: {} },
+    },
+    select: { id: true, slug: true, metaKeywords: true },
+  });
+
+  let migrated = 0;
+  for (const item of news) {
+    const names = splitKeywords(item.metaKeywords);
+    if (names.length === 0) continue;
+
+    const tags = await setNewsTags(item.id, names);
+    migrated++;
+    console.log(`  ✓ ${item.slug}: ${tags.map((tag) => tag.name).join(", ")}`);
+  }
+
+  console.log(`✅ Tagged ${migrated} of ${news.length} news posts`);
+  await prisma.$disconnect();
+}
+
+main().catch(async (e) => {
+  console.error("❌ Tag migration failed:", e);
+  await prisma.$disconnect();
+  process.exit(1);
+});
@@ -0,0 +1,71 @@
+// scripts/news-scheduler.ts
+/**
+ * Standalone News Scheduler Worker
+ *
+ * Publishes scheduled news and unpublishes expired news without needing an
+ * external cron hitting /api/cron/news-scheduler.
+ *
+ * Usage:
+ *   npm run scheduler              # poll every SCHEDULER_INTERVAL_MS (default 60s)
+ *   npm run scheduler -- --once    # single pass, then exit
+ *
+ * Runs outside Next.js, so it cannot purge the Next.js cache directly;
+ * public pages pick up the change on their next ISR revalidation.
+ */
+
+import { runNewsScheduler } from "@/lib/services/news-scheduler.service";
+import { prisma } from "@/lib/prisma";
+
+const INTERVAL_MS = parseInt(process.env.SCHEDULER_INTERVAL_MS || "60000", 10);
+const runOnce = process.argv.includes("--once");
+
+let stopping = false;
+let timer: NodeJS.Timeout | null = null;
+
+async function tick() {
+  try {
+    const result = await runNewsScheduler({ revalidate: false });
+    if (result.published.length || result.unpublished.length) {
+      console.log(
+        `🗓️  ${result.ranAt}: published ${result.published.length}, unpublished ${result.unpublished.length}`
+      );
+      result.published.forEach((n) => console.log(`  ✓ Published: ${n.title}`));
+      result.unpublished.forEach((n) => console.log(`  ⏹ Unpublished: ${n.title}`));
+    }
+  } catch (error) {
+    console.error("❌ Scheduler pass failed:", error);
+  }
+}
+
+async function loop() {
+  await tick();
+  if (!stopping) {
+    timer = setTimeout(loop, INTERVAL_MS);
+  }
+}
+
+async function shutdown() {
+  stopping = true;
+  if (timer) clearTimeout(timer);
+  await prisma.$disconnect();
+  process.exit(0);
+}
+
+async function main() {
+  if (runOnce) {
+    await tick();
+    await prisma.$disconnect();
+    return;
+  }
+
+  console.log(`🕒 News scheduler started (interval: ${INTERVAL_MS}ms)`);
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+  await loop();
+}
+
+main().catch(async (e) => {
+  console.error("❌ News scheduler crashed:", e);
+  await prisma.$disconnect();
+  process.exit(1);
+});
@@ -0,0 +1,27 @@
+// scripts/reindex-news-search.ts
+/**
+ * Rebuild the News Full-Text Search Index
+ *
+ * Recomputes the plain-text body and weighted tsvector of every news post.
+ * Run once after `npm run db:push` adds the search columns, and again after
+ * bulk imports that write news rows directly.
+ *
+ * Usage:
+ *   npm run search:reindex
+ */
+
+import { reindexAllNews } from "@/lib/services/news-search.service";
+import { prisma } from "@/lib/prisma";
+
+async function main() {
+  console.log("🔎 Rebuilding news search index...");
+  const indexed = await reindexAllNews();
+  console.log(`✅ Indexed ${indexed} news posts`);
+  await prisma.$disconnect();
+}
+
+main().catch(async (e) => {
+  console.error("❌ Search reindex failed:", e);
+  await prisma.$disconnect();
+  process.exit(1);
+});